@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { AuthProvider, useAuth } from './context/AuthContext';
-import { AppProvider } from './context/AppContext';
 import LoginForm from './components/Auth/LoginForm';
 import RegisterForm from './components/Auth/RegisterForm';
 import Navbar from './components/Layout/Navbar';
@@ -15,32 +14,96 @@ import MyJobsPage from './components/Jobs/MyJobsPage';
 import ReviewsPage from './components/Reviews/ReviewsPage';
 import EWalletPage from './components/Wallet/EWalletPage';
 import EarningsPage from './components/Earnings/EarningsPage';
+import InboxPage from './components/Inbox/InboxPage';
 import FoundersPage from './components/Admin/FoundersPage';
 import TalentsPage from './components/Admin/TalentsPage';
 import AdminCampaignsPage from './components/Admin/CampaignsPage';
 import PaymentsPage from './components/Admin/PaymentsPage';
+import DisputesPage from './components/Admin/DisputesPage';
 import AnalyticsPage from './components/Admin/AnalyticsPage';
+import SettingsPage from './components/Admin/SettingsPage';
 import FounderProfileModal from './components/Profile/FounderProfileModal';
 import TalentProfileModal from './components/Profile/TalentProfileModal';
 import AdminProfileModal from './components/Profile/AdminProfileModal';
+import Toaster from './components/Common/Toaster';
+import NotFoundPage from './components/Common/NotFoundPage';
+import { User } from './types';
+import { matchPath, navigate, RouteParams, withSearchParam } from './lib/router';
+import { useLocation } from './hooks/useLocation';
+import { useRealtimeSync } from './hooks/useRealtimeSync';
 
-const AppContent: React.FC = () => {
-  const { user, loading } = useAuth();
-  const [showRegister, setShowRegister] = useState(false);
-  const [currentPage, setCurrentPage] = useState('dashboard');
-  const [showProfileModal, setShowProfileModal] = useState(false);
+interface AppRoute {
+  path: string;
+  roles: User['role'][];
+  render: (params: RouteParams, role: User['role']) => React.ReactNode;
+}
+
+// Every page, and every modal that can be linked to. Users who follow a link meant for another
+// role are sent to their dashboard
+const ROUTES: AppRoute[] = [
+  {
+    path: '/dashboard',
+    roles: ['admin', 'founder', 'talent'],
+    render: (_, role) => {
+      if (role === 'admin') return <AdminDashboard />;
+      if (role === 'founder') return <FounderDashboard />;
+      return <TalentDashboard />;
+    },
+  },
+
+  // Founders
+  { path: '/campaigns', roles: ['founder'], render: () => <CampaignsPage /> },
+  { path: '/campaigns/new', roles: ['founder'], render: () => <CampaignsPage modal="create" /> },
+  { path: '/campaigns/:id', roles: ['founder'], render: ({ id }) => <CampaignsPage campaignId={id} modal="details" /> },
+  { path: '/campaigns/:id/edit', roles: ['founder'], render: ({ id }) => <CampaignsPage campaignId={id} modal="edit" /> },
+  { path: '/campaigns/:id/applicants', roles: ['founder'], render: ({ id }) => <CampaignsPage campaignId={id} modal="applicants" /> },
+  { path: '/orders', roles: ['founder'], render: () => <OrdersPage /> },
+  { path: '/orders/:id', roles: ['founder'], render: ({ id }) => <OrdersPage orderId={id} /> },
+  { path: '/reviews', roles: ['founder'], render: () => <ReviewsPage /> },
+  { path: '/reviews/:id', roles: ['founder'], render: ({ id }) => <ReviewsPage reviewId={id} /> },
+  { path: '/wallet', roles: ['founder'], render: () => <EWalletPage /> },
+
+  // Talents
+  { path: '/marketplace', roles: ['talent'], render: () => <MarketplacePage /> },
+  { path: '/marketplace/:id', roles: ['talent'], render: ({ id }) => <MarketplacePage campaignId={id} modal="details" /> },
+  { path: '/marketplace/:id/apply', roles: ['talent'], render: ({ id }) => <MarketplacePage campaignId={id} modal="apply" /> },
+  { path: '/jobs', roles: ['talent'], render: () => <MyJobsPage /> },
+  { path: '/jobs/:id', roles: ['talent'], render: ({ id }) => <MyJobsPage jobId={id} modal="details" /> },
+  { path: '/jobs/:id/submit', roles: ['talent'], render: ({ id }) => <MyJobsPage jobId={id} modal="submit" /> },
+  { path: '/earnings', roles: ['talent'], render: () => <EarningsPage /> },
+
+  // Founders and talents; admins read chats through disputes
+  { path: '/inbox', roles: ['founder', 'talent'], render: () => <InboxPage /> },
+  { path: '/inbox/:id', roles: ['founder', 'talent'], render: ({ id }) => <InboxPage orderId={id} /> },
+
+  // Admins
+  { path: '/admin/founders', roles: ['admin'], render: () => <FoundersPage /> },
+  { path: '/admin/founders/:id', roles: ['admin'], render: ({ id }) => <FoundersPage founderId={id} /> },
+  { path: '/admin/talents', roles: ['admin'], render: () => <TalentsPage /> },
+  { path: '/admin/talents/:id', roles: ['admin'], render: ({ id }) => <TalentsPage talentId={id} modal="details" /> },
+  { path: '/admin/talents/:id/approve', roles: ['admin'], render: ({ id }) => <TalentsPage talentId={id} modal="approve" /> },
+  { path: '/admin/campaigns', roles: ['admin'], render: () => <AdminCampaignsPage /> },
+  { path: '/admin/campaigns/:id', roles: ['admin'], render: ({ id }) => <AdminCampaignsPage campaignId={id} /> },
+  { path: '/admin/payments', roles: ['admin'], render: () => <PaymentsPage /> },
+  { path: '/admin/disputes', roles: ['admin'], render: () => <DisputesPage /> },
+  { path: '/admin/disputes/:id', roles: ['admin'], render: ({ id }) => <DisputesPage disputeId={id} /> },
+  { path: '/admin/analytics', roles: ['admin'], render: () => <AnalyticsPage /> },
+  { path: '/admin/settings', roles: ['admin'], render: () => <SettingsPage /> },
+];
 
-  // Listen for profile modal events from navbar
+// Navigating during render is not allowed, so redirects happen once the page has rendered
+const Redirect: React.FC<{ to: string }> = ({ to }) => {
   useEffect(() => {
-    const handleOpenProfileModal = () => {
-      setShowProfileModal(true);
-    };
+    navigate(to, { replace: true });
+  }, [to]);
+  return null;
+};
 
-    window.addEventListener('openProfileModal', handleOpenProfileModal);
-    return () => {
-      window.removeEventListener('openProfileModal', handleOpenProfileModal);
-    };
-  }, []);
+const AppContent: React.FC = () => {
+  const { user, loading } = useAuth();
+  const { location, pathname, searchParams } = useLocation();
+  const [showRegister, setShowRegister] = useState(false);
+  useRealtimeSync();
 
   if (loading) {
     return (
@@ -53,6 +116,7 @@ const AppContent: React.FC = () => {
     );
   }
 
+  // The link stays in the address bar, so users land on it once they sign in
   if (!user) {
     return showRegister ? (
       <RegisterForm onSwitchToLogin={() => setShowRegister(false)} />
@@ -62,91 +126,27 @@ const AppContent: React.FC = () => {
   }
 
   const renderCurrentPage = () => {
-    switch (currentPage) {
-      case 'dashboard':
-        if (user.role === 'admin') return <AdminDashboard />;
-        if (user.role === 'founder') return <FounderDashboard />;
-        if (user.role === 'talent') return <TalentDashboard />;
-        break;
-      case 'founders':
-        if (user.role === 'admin') return <FoundersPage />;
-        // Redirect non-admins to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'founder' ? <FounderDashboard /> : <TalentDashboard />;
-      case 'talents':
-        if (user.role === 'admin') return <TalentsPage />;
-        // Redirect non-admins to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'founder' ? <FounderDashboard /> : <TalentDashboard />;
-      case 'payments':
-        if (user.role === 'admin') return <PaymentsPage />;
-        // Redirect non-admins to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'founder' ? <FounderDashboard /> : <TalentDashboard />;
-      case 'analytics':
-        if (user.role === 'admin') return <AnalyticsPage />;
-        // Redirect non-admins to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'founder' ? <FounderDashboard /> : <TalentDashboard />;
-      case 'marketplace':
-        // Only allow talents to access marketplace
-        if (user.role === 'talent') {
-          return <MarketplacePage />;
-        } else {
-          // Redirect founders and admins to dashboard
-          setCurrentPage('dashboard');
-          return user.role === 'founder' ? <FounderDashboard /> : <AdminDashboard />;
-        }
-      case 'campaigns':
-        if (user.role === 'founder') return <CampaignsPage />;
-        if (user.role === 'admin') return <AdminCampaignsPage />;
-        // Redirect talents to dashboard
-        setCurrentPage('dashboard');
-        return <TalentDashboard />;
-      case 'orders':
-        if (user.role === 'founder') return <OrdersPage />;
-        // Redirect non-founders to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'admin' ? <AdminDashboard /> : <TalentDashboard />;
-      case 'jobs':
-        if (user.role === 'talent') return <MyJobsPage />;
-        // Redirect non-talents to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'admin' ? <AdminDashboard /> : <FounderDashboard />;
-      case 'reviews':
-        if (user.role === 'founder') return <ReviewsPage />;
-        // Redirect non-founders to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'admin' ? <AdminDashboard /> : <TalentDashboard />;
-      case 'wallet':
-        if (user.role === 'founder') return <EWalletPage />;
-        // Redirect non-founders to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'admin' ? <AdminDashboard /> : <TalentDashboard />;
-      case 'earnings':
-        if (user.role === 'talent') return <EarningsPage />;
-        // Redirect non-talents to dashboard
-        setCurrentPage('dashboard');
-        return user.role === 'admin' ? <AdminDashboard /> : <FounderDashboard />;
-      default:
-        return (
-          <div className="flex items-center justify-center h-64">
-            <div className="text-center">
-              <h2 className="text-xl font-semibold text-gray-900 mb-2">
-                {currentPage.charAt(0).toUpperCase() + currentPage.slice(1)}
-              </h2>
-              <p className="text-gray-600">This page is under development</p>
-            </div>
-          </div>
-        );
+    if (pathname === '/') return <Redirect to="/dashboard" />;
+
+    for (const route of ROUTES) {
+      const params = matchPath(route.path, pathname);
+      if (!params) continue;
+      if (!route.roles.includes(user.role)) return <Redirect to="/dashboard" />;
+      return route.render(params, user.role);
     }
+
+    return <NotFoundPage />;
   };
 
+  // The profile modal opens over whichever page is showing
+  const showProfileModal = searchParams.get('modal') === 'profile';
+  const closeProfileModal = () => navigate(withSearchParam(location, 'modal', null));
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navbar />
       <div className="flex">
-        <Sidebar currentPage={currentPage} onPageChange={setCurrentPage} />
+        <Sidebar />
         <main className="flex-1 p-6">
           {renderCurrentPage()}
         </main>
@@ -154,16 +154,18 @@ const AppContent: React.FC = () => {
 
       {/* Profile Modals */}
       {showProfileModal && user.role === 'founder' && (
-        <FounderProfileModal onClose={() => setShowProfileModal(false)} />
+        <FounderProfileModal onClose={closeProfileModal} />
       )}
       
       {showProfileModal && user.role === 'talent' && (
-        <TalentProfileModal onClose={() => setShowProfileModal(false)} />
+        <TalentProfileModal onClose={closeProfileModal} />
       )}
 
       {showProfileModal && user.role === 'admin' && (
-        <AdminProfileModal onClose={() => setShowProfileModal(false)} />
+        <AdminProfileModal onClose={closeProfileModal} />
       )}
+
+      <Toaster />
     </div>
   );
 };
@@ -171,9 +173,7 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <AppProvider>
-        <AppContent />
-      </AppProvider>
+      <AppContent />
     </AuthProvider>
   );
 }
@@ -1,5 +1,5 @@
 import React from 'react';
-import { useApp } from '../../context/AppContext';
+import { useCampaignStats, useMonthlyActivity, useProfileStats } from '../../hooks/useAppData';
 import {
   TrendingUp, Users, DollarSign, Megaphone, Star,
 } from 'lucide-react';
@@ -7,55 +7,27 @@ import {
   LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend,
 } from 'recharts';
 
-// Utility for grouping by month
-function groupByMonth(items, dateField, valueField) {
-  const result: Record<string, number> = {};
-  items.forEach(item => {
-    const date = new Date(item[dateField]);
-    const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-    result[month] = (result[month] || 0) + (valueField ? Number(item[valueField]) : 1);
-  });
-  return result;
-}
-
 const AnalyticsPage: React.FC = () => {
-  const { orders, transactions, campaigns, talents, founders } = useApp();
-
-  // Analytics data
-  const revenueByMonth = groupByMonth(
-    transactions.filter(t => t.type === 'credit' && t.description?.toLowerCase().includes('admin fee')),
-    'createdAt',
-    'amount'
-  );
-  const talentPayoutByMonth = groupByMonth(
-    transactions.filter(t => t.type === 'credit' && t.description?.toLowerCase().includes('payment received')),
-    'createdAt',
-    'amount'
-  );
-  const campaignsByMonth = groupByMonth(campaigns, 'createdAt');
-
-  // Merge all months for chart
-  const monthsSet = new Set([
-    ...Object.keys(revenueByMonth),
-    ...Object.keys(talentPayoutByMonth),
-    ...Object.keys(campaignsByMonth),
-  ]);
-  const months = Array.from(monthsSet).sort();
+  // Summed per month on the server
+  const monthlyActivity = useMonthlyActivity();
+  const campaignStats = useCampaignStats();
+  const talentStats = useProfileStats('talent');
+  const founderStats = useProfileStats('founder');
 
   // Data for chart
-  const chartData = months.map(month => ({
-    month,
-    Revenue: revenueByMonth[month] || 0,
-    'Talent Payments': talentPayoutByMonth[month] || 0,
-    Campaigns: campaignsByMonth[month] || 0,
+  const chartData = monthlyActivity.map(activity => ({
+    month: activity.month,
+    Revenue: activity.revenue,
+    'Talent Payments': activity.talentPayments,
+    Campaigns: activity.campaigns,
   }));
 
   // Quick stats
-  const totalRevenue = Object.values(revenueByMonth).reduce((a, b) => a + b, 0);
-  const totalTalentPayout = Object.values(talentPayoutByMonth).reduce((a, b) => a + b, 0);
-  const totalCampaigns = campaigns.length;
-  const totalTalents = talents.length;
-  const totalFounders = founders.length;
+  const totalRevenue = monthlyActivity.reduce((sum, activity) => sum + activity.revenue, 0);
+  const totalTalentPayout = monthlyActivity.reduce((sum, activity) => sum + activity.talentPayments, 0);
+  const totalCampaigns = campaignStats?.total ?? 0;
+  const totalTalents = talentStats?.total ?? 0;
+  const totalFounders = founderStats?.total ?? 0;
 
   return (
     <div className="space-y-8">
@@ -1,6 +1,8 @@
 import React from 'react';
 import { X, Package, Calendar, DollarSign, Users, Star, Camera, Video, Clock, Tag, Ban, CheckCircle } from 'lucide-react';
 import { Campaign } from '../../types';
+import { summarizeDeliverables } from '../../lib/deliverables';
+import CampaignDeliverablesList from '../Campaigns/CampaignDeliverablesList';
 
 interface CampaignDetailsModalProps {
   campaign: Campaign;
@@ -68,18 +70,6 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
     }).format(amount);
   };
 
-  const getDurationLabel = (duration: string) => {
-    switch (duration) {
-      case '30sec':
-        return '30 Seconds';
-      case '1min':
-        return '1 Minute';
-      case '3min':
-        return '3 Minutes';
-      default:
-        return duration;
-    }
-  };
 
   const handleReject = () => {
     onReject?.();
@@ -146,8 +136,8 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
               <div className="flex items-center space-x-3">
                 <Clock className="h-5 w-5 text-gray-400" />
                 <div>
-                  <p className="text-sm text-gray-600">Duration</p>
-                  <p className="font-medium text-gray-900">{getDurationLabel(campaign.duration)}</p>
+                  <p className="text-sm text-gray-600">Content</p>
+                  <p className="font-medium text-gray-900">{summarizeDeliverables(campaign.deliverables)}</p>
                 </div>
               </div>
             </div>
@@ -179,6 +169,12 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
             </div>
           </div>
 
+          {/* Deliverables */}
+          <div>
+            <h4 className="text-lg font-semibold text-gray-900 mb-3">Deliverables</h4>
+            <CampaignDeliverablesList deliverables={campaign.deliverables} />
+          </div>
+
           {/* Product Images */}
           {campaign.productImages && campaign.productImages.length > 0 && (
             <div>
@@ -1,27 +1,48 @@
 import React, { useState } from 'react';
 import { Megaphone, Search, Filter, Eye, Ban, CheckCircle, Calendar, DollarSign, Users, MoreVertical, XCircle } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
+import { useCampaign, useCampaignStats } from '../../hooks/useAppData';
 import CampaignDetailsModal from './CampaignDetailsModal';
 import { Campaign } from '../../types';
+import { summarizeDeliverables } from '../../lib/deliverables';
+import { updateCampaign, listCampaigns } from '../../lib/api';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
+import { runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
-const AdminCampaignsPage: React.FC = () => {
-  const { campaigns, setCampaigns } = useApp();
+interface AdminCampaignsPageProps {
+  // The campaign whose details are open, from `/admin/campaigns/:id`
+  campaignId?: string;
+}
+
+const AdminCampaignsPage: React.FC<AdminCampaignsPageProps> = ({ campaignId }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [rateLevelFilter, setRateLevelFilter] = useState<string>('all');
-  const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
+  const selectedCampaign = useCampaign(campaignId);
+  const stats = useCampaignStats();
+  const setSelectedCampaign = (campaign: Campaign | null) =>
+    navigate(campaign ? `/admin/campaigns/${campaign.id}` : '/admin/campaigns');
+
+  // Search and filters run on the server, a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    status: statusFilter === 'all' ? undefined : statusFilter as Campaign['status'],
+    rateLevel: rateLevelFilter === 'all' ? undefined : Number(rateLevelFilter),
+  };
+  const campaignList = usePagedList(cursor => listCampaigns({ filters, cursor }), [...queryKeys.campaigns, 'page', filters], 'campaign');
+  const filteredCampaigns = campaignList.items;
 
-  // Apply search and filters
-  const filteredCampaigns = campaigns.filter(campaign => {
-    const matchesSearch = campaign.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         campaign.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         campaign.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         campaign.category.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || campaign.status === statusFilter;
-    const matchesRateLevel = rateLevelFilter === 'all' || campaign.rateLevel.toString() === rateLevelFilter;
-    
-    return matchesSearch && matchesStatus && matchesRateLevel;
-  });
+  // Shows the new status in every list straight away, and undoes it if the request fails
+  const setCampaignStatus = (campaignId: string, status: Campaign['status']) =>
+    runMutation(() => updateCampaign(campaignId, { status }), {
+      optimistic: () => updateEntity<Campaign>('campaign', campaignId, campaign => ({ ...campaign, status })),
+      invalidates: [queryKeys.campaigns],
+    });
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -70,22 +91,25 @@ const AdminCampaignsPage: React.FC = () => {
     }
   };
 
-  const handleRejectCampaign = (campaignId: string) => {
+  const handleRejectCampaign = async (campaignId: string) => {
     if (window.confirm('Are you sure you want to reject this campaign? This action cannot be undone.')) {
-      setCampaigns(campaigns.map(campaign => 
-        campaign.id === campaignId 
-          ? { ...campaign, status: 'rejected' }
-          : campaign
-      ));
+      try {
+        await setCampaignStatus(campaignId, 'rejected');
+      } catch (error) {
+        console.error('Error rejecting campaign:', error);
+        toast.error('Failed to reject campaign. Please try again.');
+      }
     }
   };
 
-  const handleApproveCampaign = (campaignId: string) => {
-    setCampaigns(campaigns.map(campaign => 
-      campaign.id === campaignId 
-        ? { ...campaign, status: 'active' }
-        : campaign
-    ));
+  // Approving a draft emails the founder that it is live
+  const handleApproveCampaign = async (campaignId: string) => {
+    try {
+      await setCampaignStatus(campaignId, 'active');
+    } catch (error) {
+      console.error('Error approving campaign:', error);
+      toast.error('Failed to approve campaign. Please try again.');
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -102,18 +126,6 @@ const AdminCampaignsPage: React.FC = () => {
     return diffDays;
   };
 
-  const getDurationLabel = (duration: string) => {
-    switch (duration) {
-      case '30sec':
-        return '30 Seconds';
-      case '1min':
-        return '1 Minute';
-      case '3min':
-        return '3 Minutes';
-      default:
-        return duration;
-    }
-  };
 
   return (
     <div className="space-y-6">
@@ -134,7 +146,7 @@ const AdminCampaignsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Active Campaigns</p>
               <p className="text-2xl font-bold text-gray-900">
-                {campaigns.filter(c => c.status === 'active').length}
+                {stats?.active ?? 0}
               </p>
             </div>
           </div>
@@ -148,7 +160,7 @@ const AdminCampaignsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Paused</p>
               <p className="text-2xl font-bold text-gray-900">
-                {campaigns.filter(c => c.status === 'paused').length}
+                {stats?.paused ?? 0}
               </p>
             </div>
           </div>
@@ -162,7 +174,7 @@ const AdminCampaignsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Applicants</p>
               <p className="text-2xl font-bold text-gray-900">
-                {campaigns.reduce((total, campaign) => total + campaign.applicants.length, 0)}
+                {stats?.applicants ?? 0}
               </p>
             </div>
           </div>
@@ -176,7 +188,7 @@ const AdminCampaignsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Budget</p>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(campaigns.reduce((total, campaign) => total + campaign.budget, 0))}
+                {formatCurrency(stats?.totalBudget ?? 0)}
               </p>
             </div>
           </div>
@@ -288,7 +300,7 @@ const AdminCampaignsPage: React.FC = () => {
                         <span className={`px-2 py-1 rounded-full text-xs ${getRateLevelColor(campaign.rateLevel)}`}>
                           {campaign.rateLevel} Star
                         </span>
-                        <span>{getDurationLabel(campaign.duration)}</span>
+                        <span>{summarizeDeliverables(campaign.deliverables)}</span>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -348,6 +360,16 @@ const AdminCampaignsPage: React.FC = () => {
               </tbody>
             </table>
           </div>
+          <LoadMore
+            hasMore={campaignList.hasMore}
+            loading={campaignList.loading}
+            onLoadMore={campaignList.loadMore}
+            summary={`Showing ${filteredCampaigns.length} of ${campaignList.total} campaigns`}
+          />
+        </div>
+      ) : campaignList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
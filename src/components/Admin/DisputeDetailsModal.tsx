@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { X, Package, MapPin, Truck, MessageCircle } from 'lucide-react';
+import { DisputeResolution, Message, MessageAttachment, Order, OrderDispute, DISPUTE_REASONS } from '../../types';
+import { useFounder } from '../../hooks/useAppData';
+import { getMessages, resolveOrderDispute } from '../../lib/api';
+import { getChatAttachmentDownloadUrl } from '../../lib/chatAttachments';
+import { describeDisputeOutcome, DISPUTE_RESOLUTION_LABELS } from '../../lib/disputes';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import OrderTimeline from '../Common/OrderTimeline';
+import ReviewSubmissionHistory from '../Common/ReviewSubmissionHistory';
+import ShipmentTrackingTimeline from '../Common/ShipmentTrackingTimeline';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+
+interface DisputeDetailsModalProps {
+  dispute: OrderDispute;
+  order: Order;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+// Everything an admin needs to rule on a dispute: the order, its tracking, content and chat
+const DisputeDetailsModal: React.FC<DisputeDetailsModalProps> = ({ dispute, order, onClose, onResolved }) => {
+  const founder = useFounder(order.founderId);
+  const [chatLog, setChatLog] = useState<Message[]>([]);
+  const [resolution, setResolution] = useState<DisputeResolution>('refund_founder');
+  const [talentAmount, setTalentAmount] = useState(order.payout / 2);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getMessages(order.id)
+      .then(setChatLog)
+      .catch(error => console.error('Error loading dispute chat log:', error));
+  }, [order.id]);
+
+  const founderName = founder?.name || 'Founder';
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ms-MY', {
+      style: 'currency',
+      currency: 'MYR',
+    }).format(amount);
+  };
+
+  const getSenderName = (senderId: string) => {
+    if (senderId === order.founderId) return founderName;
+    if (senderId === order.talentId) return order.talentName;
+    return 'Admin';
+  };
+
+  const handleDownloadAttachment = async (attachment: MessageAttachment) => {
+    try {
+      window.location.assign(await getChatAttachmentDownloadUrl(attachment));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open the attachment. Please try again.');
+    }
+  };
+
+  const outcome = resolution === 'refund_founder'
+    ? { talent: 0, founder: order.payout }
+    : resolution === 'release_talent'
+      ? { talent: order.payout, founder: 0 }
+      : { talent: talentAmount, founder: Math.round((order.payout - talentAmount) * 100) / 100 };
+
+  const handleResolve = async () => {
+    if (resolution === 'split' && (talentAmount <= 0 || talentAmount >= order.payout)) {
+      toast.error(`A split must give each side part of the ${formatCurrency(order.payout)} held`);
+      return;
+    }
+
+    if (!confirm(`Pay ${formatCurrency(outcome.talent)} to ${order.talentName} and refund ${formatCurrency(outcome.founder)} to ${founderName}? This closes the order and cannot be undone.`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await resolveOrderDispute(dispute.id, resolution, talentAmount, note.trim());
+      await invalidateQueries(queryKeys.orders, queryKeys.transactions, queryKeys.earnings, queryKeys.payments);
+      onResolved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve the dispute. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Dispute: {DISPUTE_REASONS[dispute.reason]}</h2>
+            <p className="text-sm text-gray-600">
+              {order.campaignTitle} · opened by {dispute.openedByName || getSenderName(dispute.openedBy)} on {dispute.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-900 whitespace-pre-line">
+            {dispute.description}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="text-gray-600">Founder</p>
+              <p className="font-medium text-gray-900">{founderName}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Talent</p>
+              <p className="font-medium text-gray-900">{order.talentName}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Held in escrow</p>
+              <p className="font-medium text-green-600">{formatCurrency(order.payout)}</p>
+            </div>
+          </div>
+
+          {/* Tracking */}
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Shipping</h4>
+            {order.deliveryInfo ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="flex items-start space-x-2">
+                  <MapPin className="h-4 w-4 text-gray-400 mt-0.5" />
+                  <p className="text-gray-900">{order.deliveryInfo.address}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Package className="h-4 w-4 text-gray-400" />
+                  <p className="text-gray-900">{order.deliveryInfo.courier || '—'}</p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Truck className="h-4 w-4 text-gray-400" />
+                  <p className="text-gray-900">{order.deliveryInfo.trackingNumber || '—'}</p>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">The product has not been shipped.</p>
+            )}
+            <ShipmentTrackingTimeline order={order} />
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Order Progress</h4>
+            <OrderTimeline order={order} />
+          </div>
+
+          {/* Current submission; earlier versions follow below */}
+          {order.reviewSubmission && order.reviewSubmission.media.length > 0 && (
+            <div className="border-t border-gray-200 pt-6">
+              <h4 className="text-lg font-semibold text-gray-900 mb-4">Submitted Content</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {order.reviewSubmission.media.map((media, idx) => (
+                  <MediaThumbnail
+                    key={idx}
+                    url={media.url}
+                    type={media.type}
+                    alt={`Submission item ${idx + 1}`}
+                    size="preview"
+                    controls
+                    className="w-full h-40 object-cover rounded-lg"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <ReviewSubmissionHistory orderId={order.id} orderStatus={order.status} />
+
+          {/* Chat log */}
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Chat Log</h4>
+            {chatLog.length > 0 ? (
+              <div className="max-h-72 overflow-y-auto space-y-3 bg-gray-50 rounded-lg p-4">
+                {chatLog.map(message => (
+                  <div key={message.id} className="text-sm">
+                    <p className="text-xs text-gray-500">
+                      <span className="font-medium text-gray-700">{getSenderName(message.senderId)}</span>
+                      {' · '}
+                      {message.timestamp.toLocaleString()}
+                    </p>
+                    {message.content && <p className="text-gray-900 whitespace-pre-line">{message.content}</p>}
+                    {message.attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {message.attachments.map(attachment => attachment.type === 'file' ? (
+                          <button
+                            key={attachment.path}
+                            type="button"
+                            onClick={() => handleDownloadAttachment(attachment)}
+                            className="text-blue-600 hover:text-blue-800 underline"
+                          >
+                            {attachment.name}
+                          </button>
+                        ) : (
+                          <MediaThumbnail
+                            key={attachment.path}
+                            url={attachment.url}
+                            type={attachment.type}
+                            alt={attachment.name}
+                            controls={attachment.type === 'video'}
+                            className="w-24 h-24 object-cover rounded"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2 text-sm text-gray-500">
+                <MessageCircle className="h-4 w-4" />
+                <span>No messages were exchanged on this order.</span>
+              </div>
+            )}
+          </div>
+
+          {/* Resolution */}
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="text-lg font-semibold text-gray-900 mb-4">Resolution</h4>
+            {dispute.status === 'resolved' ? (
+              <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">
+                <p className="font-medium text-gray-900">{describeDisputeOutcome(dispute)}</p>
+                {dispute.resolutionNote && <p className="mt-1">{dispute.resolutionNote}</p>}
+                <p className="mt-1 text-xs text-gray-500">Resolved {dispute.resolvedAt?.toLocaleString()}</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  {(Object.keys(DISPUTE_RESOLUTION_LABELS) as DisputeResolution[]).map(option => (
+                    <label key={option} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        name="resolution"
+                        value={option}
+                        checked={resolution === option}
+                        onChange={() => setResolution(option)}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      <span>{DISPUTE_RESOLUTION_LABELS[option]}</span>
+                    </label>
+                  ))}
+                </div>
+
+                {resolution === 'split' && (
+                  <div>
+                    <label htmlFor="talentAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                      Amount to the talent (RM)
+                    </label>
+                    <input
+                      id="talentAmount"
+                      type="number"
+                      min={0.01}
+                      max={order.payout - 0.01}
+                      step={0.01}
+                      value={talentAmount}
+                      onChange={e => setTalentAmount(Number(e.target.value))}
+                      className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                <p className="text-sm text-gray-600">
+                  {order.talentName} receives <span className="font-medium text-gray-900">{formatCurrency(outcome.talent)}</span>,{' '}
+                  {founderName} is refunded <span className="font-medium text-gray-900">{formatCurrency(outcome.founder)}</span>.
+                </p>
+
+                <div>
+                  <label htmlFor="resolutionNote" className="block text-sm font-medium text-gray-700 mb-2">
+                    Note to both parties
+                  </label>
+                  <textarea
+                    id="resolutionNote"
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Explain the decision"
+                  />
+                </div>
+
+                <div className="flex justify-end space-x-4">
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleResolve}
+                    disabled={loading}
+                    className="px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {loading ? 'Resolving...' : 'Resolve Dispute'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DisputeDetailsModal;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, Clock, CheckCircle } from 'lucide-react';
+import { OrderDispute, DISPUTE_REASONS } from '../../types';
+import { useOrdersById } from '../../hooks/useAppData';
+import { getOrderDisputes } from '../../lib/api';
+import { describeDisputeOutcome } from '../../lib/disputes';
+import DisputeDetailsModal from './DisputeDetailsModal';
+import { navigate } from '../../lib/router';
+
+interface DisputesPageProps {
+  // The dispute that is open, from `/admin/disputes/:id`
+  disputeId?: string;
+}
+
+const DisputesPage: React.FC<DisputesPageProps> = ({ disputeId }) => {
+  const [disputes, setDisputes] = useState<OrderDispute[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'open' | 'resolved'>('open');
+  const selectedDispute = disputes.find(dispute => dispute.id === disputeId) || null;
+  const setSelectedDispute = (dispute: OrderDispute | null) =>
+    navigate(dispute ? `/admin/disputes/${dispute.id}` : '/admin/disputes');
+
+  const loadDisputes = async () => {
+    try {
+      setDisputes(await getOrderDisputes());
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadDisputes();
+  }, []);
+
+  // Oldest open dispute first, so nothing waits longer than it has to
+  const filteredDisputes = disputes
+    .filter(d => d.status === statusFilter)
+    .sort((a, b) => statusFilter === 'open'
+      ? a.createdAt.getTime() - b.createdAt.getTime()
+      : (b.resolvedAt?.getTime() ?? 0) - (a.resolvedAt?.getTime() ?? 0));
+  const openCount = disputes.filter(d => d.status === 'open').length;
+  // Only the orders the disputes are about, for their titles and the open dispute's details
+  const orders = useOrdersById([...new Set(disputes.map(dispute => dispute.orderId))]);
+  const selectedOrder = selectedDispute ? orders.find(o => o.id === selectedDispute.orderId) : undefined;
+
+  const handleResolved = async () => {
+    setSelectedDispute(null);
+    await loadDisputes();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Disputes</h1>
+        <p className="text-gray-600">Review escalated orders and decide how their escrow is paid out</p>
+      </div>
+
+      <div className="flex space-x-2">
+        {(['open', 'resolved'] as const).map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              statusFilter === status ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-50'
+            }`}
+          >
+            {status === 'open' ? `Open (${openCount})` : 'Resolved'}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-200">
+        {filteredDisputes.length > 0 ? (
+          filteredDisputes.map(dispute => {
+            const order = orders.find(o => o.id === dispute.orderId);
+            return (
+              <button
+                key={dispute.id}
+                onClick={() => setSelectedDispute(dispute)}
+                disabled={!order}
+                className="w-full text-left p-4 hover:bg-gray-50 transition-colors flex items-start justify-between disabled:cursor-not-allowed"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{DISPUTE_REASONS[dispute.reason]}</p>
+                  <p className="text-sm text-gray-600">
+                    {order ? `${order.campaignTitle} · ${order.talentName}` : 'Order unavailable'}
+                    {dispute.openedByName && ` · opened by ${dispute.openedByName}`}
+                  </p>
+                  <p className="text-sm text-gray-500 mt-1 line-clamp-2">
+                    {dispute.status === 'resolved' ? describeDisputeOutcome(dispute) : dispute.description}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 text-xs text-gray-500 whitespace-nowrap ml-4">
+                  {dispute.status === 'open' ? <Clock className="h-4 w-4" /> : <CheckCircle className="h-4 w-4 text-green-500" />}
+                  <span>{(dispute.resolvedAt || dispute.createdAt).toLocaleDateString()}</span>
+                </div>
+              </button>
+            );
+          })
+        ) : (
+          <div className="p-12 text-center">
+            <Scale className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-500">{statusFilter === 'open' ? 'No open disputes' : 'No resolved disputes yet'}</p>
+          </div>
+        )}
+      </div>
+
+      {selectedDispute && selectedOrder && (
+        <DisputeDetailsModal
+          dispute={selectedDispute}
+          order={selectedOrder}
+          onClose={() => setSelectedDispute(null)}
+          onResolved={handleResolved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DisputesPage;
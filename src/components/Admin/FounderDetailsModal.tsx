@@ -1,7 +1,7 @@
 import React from 'react';
 import { X, Building, Mail, Phone, MapPin, Wallet, Calendar, Megaphone, DollarSign, CheckCircle, Ban, Star } from 'lucide-react';
 import { Founder } from '../../types'; // Use central type
-import { useApp } from '../../context/AppContext';
+import { useFounderActivity, useLatestCampaigns, useLatestOrders, useLatestTransactions } from '../../hooks/useAppData';
 
 interface FounderDetailsModalProps {
   founder: Founder;
@@ -14,7 +14,11 @@ const FounderDetailsModal: React.FC<FounderDetailsModalProps> = ({
   onClose, 
   onStatusChange 
 }) => {
-  const { campaigns, orders, transactions, talents } = useApp();
+  const [activity] = useFounderActivity([founder.id]);
+  // The newest few of each kind are enough for the five most recent events
+  const founderCampaigns = useLatestCampaigns({ founderId: founder.id }, 5);
+  const founderOrders = useLatestOrders({ founderId: founder.id, status: ['completed', 'delivered', 'pending_shipment'] }, 5);
+  const founderTransactions = useLatestTransactions({ userId: founder.id, account: 'founder_wallet' }, 5);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -42,12 +46,9 @@ const FounderDetailsModal: React.FC<FounderDetailsModalProps> = ({
   };
 
   // --- Recent Activity Logic ---
-  // 1. Get this founder's campaigns, orders, transactions.
-  const founderCampaigns = campaigns.filter(c => c.founderId === founder.id);
-  const founderOrders = orders.filter(o => o.founderId === founder.id);
-  const founderTransactions = transactions.filter(t => t.userId === founder.id);
-  const totalSpent = founderTransactions.reduce((sum, t) => sum + Number(t.amount || 0), 0);
-  const totalCampaigns = campaigns.filter(c => c.founderId === founder.id).length;
+  // 1. This founder's totals, counted on the server
+  const totalSpent = activity?.totalSpent ?? 0;
+  const totalCampaigns = activity?.campaignCount ?? 0;
 
   // 2. Compose activity items
   const recentActivity: {
@@ -97,9 +98,8 @@ const FounderDetailsModal: React.FC<FounderDetailsModalProps> = ({
   // Optionally: show talents approved (if you want)
   founderOrders.forEach(order => {
     if (order.status === 'pending_shipment') {
-      const talent = talents.find(t => t.id === order.talentId);
       recentActivity.push({
-        message: `Approved talent ${talent?.name || '—'} for "${order.campaignTitle}"`,
+        message: `Approved talent ${order.talentName || '—'} for "${order.campaignTitle}"`,
         timestamp: order.createdAt || new Date(),
       });
     }
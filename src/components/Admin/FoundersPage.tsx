@@ -1,26 +1,40 @@
 import React, { useState } from 'react';
 import { Users, Search, Filter, Eye, Ban, CheckCircle, Building, Mail, Phone, Wallet, Calendar, MoreVertical } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
-import { updateUserStatus } from '../../lib/api';
+import { useFounder, useFounderActivity, useProfileStats } from '../../hooks/useAppData';
+import { updateUserStatus, listFounders } from '../../lib/api';
 import FounderDetailsModal from './FounderDetailsModal';
 import { Founder } from '../../types';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
+import { runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
-const FoundersPage: React.FC = () => {
-  const { founders, setFounders, campaigns, refreshData } = useApp();
+interface FoundersPageProps {
+  // The founder whose details are open, from `/admin/founders/:id`
+  founderId?: string;
+}
+
+const FoundersPage: React.FC<FoundersPageProps> = ({ founderId }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [selectedFounder, setSelectedFounder] = useState<Founder | null>(null);
   const [loading, setLoading] = useState(false);
-  const { transactions } = useApp();
-  // Apply search and status filters
-  const filteredFounders = founders.filter(founder => {
-    const matchesSearch = founder.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         founder.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         founder.company?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || founder.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const selectedFounder = useFounder(founderId);
+  const stats = useProfileStats('founder');
+  const setSelectedFounder = (founder: Founder | null) =>
+    navigate(founder ? `/admin/founders/${founder.id}` : '/admin/founders');
+  // Search and status filters run on the server, a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    status: statusFilter === 'all' ? undefined : statusFilter as Founder['status'],
+  };
+  const founderList = usePagedList(cursor => listFounders({ filters, cursor }), [...queryKeys.founders, 'page', filters], 'founder');
+  const filteredFounders = founderList.items;
+  // Campaign counts and spend for the founders shown, not every founder
+  const activity = useFounderActivity(filteredFounders.map(founder => founder.id));
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -51,20 +65,14 @@ const FoundersPage: React.FC = () => {
   const handleStatusChange = async (founderId: string, newStatus: 'active' | 'suspended') => {
     try {
       setLoading(true);
-      await updateUserStatus(founderId, newStatus);
-      
-      // Update local state
-      setFounders(founders.map(founder => 
-        founder.id === founderId 
-          ? { ...founder, status: newStatus }
-          : founder
-      ));
-      
-      // Refresh data to ensure consistency
-      await refreshData();
+      // Shows the new status in every list straight away, and undoes it if the request fails
+      await runMutation(() => updateUserStatus(founderId, newStatus), {
+        optimistic: () => updateEntity<Founder>('founder', founderId, founder => ({ ...founder, status: newStatus })),
+        invalidates: [queryKeys.founders],
+      });
     } catch (error) {
       console.error('Error updating founder status:', error);
-      alert('Failed to update founder status. Please try again.');
+      toast.error('Failed to update founder status. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -84,16 +92,7 @@ const FoundersPage: React.FC = () => {
     return diffDays;
   };
 
-  // Calculate founder statistics
-  const getFounderCampaigns = (founderId: string) => {
-    return campaigns.filter(campaign => campaign.founderId === founderId);
-  };
-
-const getFounderTotalSpent = (founderId: string) => {
-  return transactions
-    .filter(tx => tx.userId === founderId && tx.type === 'debit')
-    .reduce((sum, tx) => sum + (Number(tx.amount) || 0), 0);
-};
+  const getFounderActivity = (founderId: string) => activity.find(item => item.founderId === founderId);
 
   return (
     <div className="space-y-6">
@@ -114,7 +113,7 @@ const getFounderTotalSpent = (founderId: string) => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Active Founders</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founders.filter(f => f.status === 'active').length}
+                {stats?.active ?? 0}
               </p>
             </div>
           </div>
@@ -128,7 +127,7 @@ const getFounderTotalSpent = (founderId: string) => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Pending Approval</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founders.filter(f => f.status === 'pending').length}
+                {stats?.pending ?? 0}
               </p>
             </div>
           </div>
@@ -142,7 +141,7 @@ const getFounderTotalSpent = (founderId: string) => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Wallet Balance</p>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(founders.reduce((sum, f) => sum + f.walletBalance, 0))}
+                {formatCurrency(stats?.walletTotal ?? 0)}
               </p>
             </div>
           </div>
@@ -156,7 +155,7 @@ const getFounderTotalSpent = (founderId: string) => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Companies</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founders.filter(f => f.company).length}
+                {stats?.withCompany ?? 0}
               </p>
             </div>
           </div>
@@ -223,8 +222,8 @@ const getFounderTotalSpent = (founderId: string) => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredFounders.map((founder) => {
-                  const founderCampaigns = getFounderCampaigns(founder.id);
-                  const totalSpent = getFounderTotalSpent(founder.id);
+                  const founderActivity = getFounderActivity(founder.id);
+                  const totalSpent = founderActivity?.totalSpent ?? 0;
                   
                   return (
                     <tr key={founder.id} className="hover:bg-gray-50">
@@ -267,7 +266,7 @@ const getFounderTotalSpent = (founderId: string) => {
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">{founderCampaigns.length}</div>
+                        <div className="text-sm text-gray-900">{founderActivity?.campaignCount ?? 0}</div>
                         <div className="text-sm text-gray-500">campaigns</div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -331,6 +330,16 @@ const getFounderTotalSpent = (founderId: string) => {
               </tbody>
             </table>
           </div>
+          <LoadMore
+            hasMore={founderList.hasMore}
+            loading={founderList.loading}
+            onLoadMore={founderList.loadMore}
+            summary={`Showing ${filteredFounders.length} of ${founderList.total} founders`}
+          />
+        </div>
+      ) : founderList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
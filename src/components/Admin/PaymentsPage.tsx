@@ -1,89 +1,38 @@
 import React, { useState } from 'react';
 import {
   DollarSign, Search, Filter, Calendar, TrendingUp, Users, Megaphone,
-  CreditCard, Download, ArrowUpRight, Package, Star
+  CreditCard, Download, ArrowUpRight, Package, Star, Landmark
 } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
-
-interface Payment {
-  id: string;
-  type: 'talent_payment' | 'admin_fee' | 'wallet_topup' | 'campaign_payout';
-  orderId: string | null;
-  campaignTitle: string;
-  talentName?: string;
-  founderName?: string;
-  amount: number;
-  adminFee?: number;
-  totalAmount: number;
-  status: 'completed' | 'pending' | 'failed';
-  createdAt: Date;
-}
+import { useFeePolicy, useOrderCount, usePaymentStats } from '../../hooks/useAppData';
+import { Payment } from '../../types';
+import { describeFeeRule } from '../../lib/fees';
+import { listPayments } from '../../lib/api';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import WithdrawalQueue from './WithdrawalQueue';
+import LoadMore from '../Common/LoadMore';
+import { queryKeys } from '../../lib/queries';
 
 const PaymentsPage: React.FC = () => {
-  const { orders, transactions, founders, talents } = useApp();
+  const feePolicy = useFeePolicy();
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
 
-  // Generate payment records from all transactions (not just completed orders)
-  const generatePayments = (): Payment[] => {
-    const payments: Payment[] = [];
-    transactions.forEach(tx => {
-      // Find related order/campaign/talent/founder if possible
-      const order = orders.find(o => o.id === tx.relatedJobId);
-      const campaignTitle = order?.campaignTitle || tx.description || '—';
-      const talent = talents.find(t => t.id === order?.talentId);
-      const founder = founders.find(f => f.id === order?.founderId);
-
-      // Determine type
-      let type: Payment['type'] = 'talent_payment';
-      if (tx.type === 'credit' && tx.description?.toLowerCase().includes('admin fee')) {
-        type = 'admin_fee';
-      } else if (tx.type === 'credit' && tx.description?.toLowerCase().includes('wallet top up')) {
-        type = 'wallet_topup';
-      } else if (tx.type === 'debit') {
-        type = 'campaign_payout';
-      }
-
-      // Assign status (expand if you support other states)
-      const status: Payment['status'] = 'completed';
-
-      // For campaign_payout, show founder as payer
-      const talentName = type === 'talent_payment' ? (talent?.name || order?.talentName || '-') : undefined;
-      const founderName = founder?.name || (type === 'campaign_payout' ? founder?.name : undefined);
-
-      payments.push({
-        id: tx.id,
-        type,
-        orderId: tx.relatedJobId || null,
-        campaignTitle,
-        talentName,
-        founderName,
-        amount: Number(tx.amount) || 0,
-        adminFee: type === 'admin_fee' ? Number(tx.amount) || 0 : undefined,
-        totalAmount: Number(tx.amount) || 0,
-        status,
-        createdAt: tx.createdAt ? new Date(tx.createdAt) : new Date(),
-      });
-    });
-
-    // Sort by most recent
-    return payments.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  // The list is searched and filtered on the server, through the payment_history view, a page at
+  // a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    type: typeFilter === 'all' ? undefined : typeFilter as Payment['type'],
+    status: statusFilter === 'all' ? undefined : statusFilter as Payment['status'],
   };
+  const paymentList = usePagedList(cursor => listPayments({ filters, cursor }), [...queryKeys.payments, 'page', filters], 'payment');
+  const filteredPayments = paymentList.items;
 
-  const payments = generatePayments();
-
-  // Apply filters
-  const filteredPayments = payments.filter(payment => {
-    const matchesSearch =
-      payment.campaignTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      payment.talentName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      payment.founderName?.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = typeFilter === 'all' || payment.type === typeFilter;
-    const matchesStatus = statusFilter === 'all' || payment.status === statusFilter;
-
-    return matchesSearch && matchesType && matchesStatus;
-  });
+  // The totals count every payment, not just the pages loaded
+  const stats = usePaymentStats();
+  const completedJobs = useOrderCount({ status: 'completed' });
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -98,6 +47,7 @@ const PaymentsPage: React.FC = () => {
       case 'admin_fee':      return 'bg-green-100 text-green-800';
       case 'wallet_topup':   return 'bg-purple-100 text-purple-800';
       case 'campaign_payout':return 'bg-yellow-100 text-yellow-800';
+      case 'talent_withdrawal': return 'bg-gray-100 text-gray-800';
       default:               return 'bg-gray-100 text-gray-800';
     }
   };
@@ -107,6 +57,7 @@ const PaymentsPage: React.FC = () => {
       case 'admin_fee':       return <Star className="h-4 w-4" />;
       case 'wallet_topup':    return <CreditCard className="h-4 w-4" />;
       case 'campaign_payout': return <ArrowUpRight className="h-4 w-4" />;
+      case 'talent_withdrawal': return <Landmark className="h-4 w-4" />;
       default:                return <DollarSign className="h-4 w-4" />;
     }
   };
@@ -116,6 +67,7 @@ const PaymentsPage: React.FC = () => {
       case 'admin_fee':       return 'Admin Fee';
       case 'wallet_topup':    return 'Wallet Top Up';
       case 'campaign_payout': return 'Campaign Payout';
+      case 'talent_withdrawal': return 'Talent Withdrawal';
       default:                return type;
     }
   };
@@ -134,19 +86,10 @@ const PaymentsPage: React.FC = () => {
   };
 
   // Calculate statistics
-  const totalRevenue = payments.filter(p => p.type === 'admin_fee').reduce((sum, p) => sum + p.amount, 0);
-  const totalTalentPayments = payments.filter(p => p.type === 'talent_payment').reduce((sum, p) => sum + p.amount, 0);
-  const totalWalletTopup = payments.filter(p => p.type === 'wallet_topup').reduce((sum, p) => sum + p.amount, 0);
-  const totalPayouts = payments.filter(p => p.type === 'campaign_payout').reduce((sum, p) => sum + p.amount, 0);
-
-  const totalTransactions = payments.length;
-  const thisMonthRevenue = payments.filter(p => {
-    const paymentDate = new Date(p.createdAt);
-    const now = new Date();
-    return p.type === 'admin_fee' &&
-      paymentDate.getMonth() === now.getMonth() &&
-      paymentDate.getFullYear() === now.getFullYear();
-  }).reduce((sum, p) => sum + p.amount, 0);
+  const totalRevenue = stats?.admin_fee.total ?? 0;
+  const totalTalentPayments = stats?.talent_payment.total ?? 0;
+  const totalTransactions = stats ? Object.values(stats).reduce((sum, type) => sum + type.count, 0) : 0;
+  const thisMonthRevenue = stats?.admin_fee.thisMonth ?? 0;
 
   return (
     <div className="space-y-6">
@@ -167,7 +110,7 @@ const PaymentsPage: React.FC = () => {
           <div>
             <h2 className="text-lg font-medium text-green-100">Total Platform Revenue</h2>
             <p className="text-4xl font-bold">{formatCurrency(totalRevenue)}</p>
-            <p className="text-green-100 text-sm mt-1">10% commission from all completed jobs</p>
+            <p className="text-green-100 text-sm mt-1">Platform fees from all completed jobs</p>
           </div>
           <div className="p-4 bg-white bg-opacity-20 rounded-full">
             <DollarSign className="h-8 w-8" />
@@ -217,7 +160,7 @@ const PaymentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Admin Fees</p>
               <p className="text-2xl font-bold text-gray-900">
-                {payments.filter(p => p.type === 'admin_fee').length}
+                {stats?.admin_fee.count ?? 0}
               </p>
             </div>
           </div>
@@ -231,7 +174,7 @@ const PaymentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Talent Payments</p>
               <p className="text-2xl font-bold text-gray-900">
-                {payments.filter(p => p.type === 'talent_payment').length}
+                {stats?.talent_payment.count ?? 0}
               </p>
             </div>
           </div>
@@ -245,7 +188,7 @@ const PaymentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Completed Jobs</p>
               <p className="text-2xl font-bold text-gray-900">
-                {orders.filter(o => o.status === 'completed').length}
+                {completedJobs}
               </p>
             </div>
           </div>
@@ -257,13 +200,16 @@ const PaymentsPage: React.FC = () => {
               <TrendingUp className="h-6 w-6 text-white" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Avg Commission</p>
-              <p className="text-2xl font-bold text-gray-900">10%</p>
+              <p className="text-sm font-medium text-gray-600">Current Fee{feePolicy ? ` (v${feePolicy.version})` : ''}</p>
+              <p className="text-2xl font-bold text-gray-900">{feePolicy ? describeFeeRule(feePolicy.defaultRule) : '-'}</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Withdrawals */}
+      <WithdrawalQueue />
+
       {/* Search and Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
         <div className="flex-1 relative">
@@ -289,6 +235,7 @@ const PaymentsPage: React.FC = () => {
             <option value="admin_fee">Admin Fees</option>
             <option value="wallet_topup">Wallet Top Up</option>
             <option value="campaign_payout">Campaign Payouts</option>
+            <option value="talent_withdrawal">Talent Withdrawals</option>
           </select>
 
           <select
@@ -347,12 +294,6 @@ const PaymentsPage: React.FC = () => {
                             {payment.talentName}
                           </div>
                         )}
-                        {payment.type === 'talent_payment' && payment.adminFee && (
-                          <div className="flex items-center text-green-600">
-                            <Star className="h-4 w-4 mr-1" />
-                            Admin Fee: {formatCurrency(payment.adminFee)}
-                          </div>
-                        )}
                       </div>
                     </div>
                   </div>
@@ -372,6 +313,16 @@ const PaymentsPage: React.FC = () => {
                 </div>
               </div>
             ))}
+            <LoadMore
+              hasMore={paymentList.hasMore}
+              loading={paymentList.loading}
+              onLoadMore={paymentList.loadMore}
+              summary={`Showing ${filteredPayments.length} of ${paymentList.total} payments`}
+            />
+          </div>
+        ) : paymentList.loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
           </div>
         ) : (
           <div className="text-center py-12">
@@ -0,0 +1,375 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, Percent, DollarSign, Plus, Trash2, Save, History, Info } from 'lucide-react';
+import { useFeePolicy } from '../../hooks/useAppData';
+import { FeePolicy, FeeRule, FeeType, CAMPAIGN_CATEGORIES, DEFAULT_DELIVERABLE, calculateCampaignPrice } from '../../types';
+import { getFeePolicies, publishFeePolicy } from '../../lib/api';
+import { describeFeeRule, quotePlatformFee } from '../../lib/fees';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+
+interface RuleForm {
+  type: FeeType;
+  value: string;
+  cap: string;
+}
+
+interface CategoryOverrideForm extends RuleForm {
+  category: string;
+}
+
+const EMPTY_RULE: RuleForm = { type: 'percentage', value: '', cap: '' };
+
+const toRuleForm = (rule: FeeRule): RuleForm => ({
+  type: rule.type,
+  value: rule.value.toString(),
+  cap: rule.cap !== undefined ? rule.cap.toString() : '',
+});
+
+const toFeeRule = (form: RuleForm): FeeRule => ({
+  type: form.type,
+  value: parseFloat(form.value) || 0,
+  cap: form.cap.trim() !== '' ? parseFloat(form.cap) : undefined,
+});
+
+const SettingsPage: React.FC = () => {
+  const feePolicy = useFeePolicy();
+  const [policies, setPolicies] = useState<FeePolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [defaultRule, setDefaultRule] = useState<RuleForm>(EMPTY_RULE);
+  const [chargedTo, setChargedTo] = useState<'founder' | 'talent'>('founder');
+  const [categoryOverrides, setCategoryOverrides] = useState<CategoryOverrideForm[]>([]);
+  const [rateLevelOverrides, setRateLevelOverrides] = useState<Partial<Record<1 | 2 | 3, RuleForm>>>({});
+
+  const loadPolicies = async () => {
+    try {
+      setLoading(true);
+      setPolicies(await getFeePolicies());
+    } catch (error) {
+      console.error('Error loading fee policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPolicies();
+  }, []);
+
+  // Start the form from the active policy whenever it changes
+  useEffect(() => {
+    if (!feePolicy) return;
+    setDefaultRule(toRuleForm(feePolicy.defaultRule));
+    setChargedTo(feePolicy.chargedTo);
+    setCategoryOverrides(
+      Object.entries(feePolicy.categoryOverrides).map(([category, rule]) => ({ category, ...toRuleForm(rule) }))
+    );
+    setRateLevelOverrides(
+      Object.fromEntries(
+        Object.entries(feePolicy.rateLevelOverrides).map(([level, rule]) => [level, toRuleForm(rule as FeeRule)])
+      )
+    );
+  }, [feePolicy]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ms-MY', {
+      style: 'currency',
+      currency: 'MYR',
+    }).format(amount);
+  };
+
+  const buildPolicy = (): FeePolicy => ({
+    id: 'draft',
+    version: (feePolicy?.version || 0) + 1,
+    defaultRule: toFeeRule(defaultRule),
+    chargedTo,
+    categoryOverrides: Object.fromEntries(
+      categoryOverrides
+        .filter(override => override.category && override.value !== '')
+        .map(override => [override.category, toFeeRule(override)])
+    ),
+    rateLevelOverrides: Object.fromEntries(
+      Object.entries(rateLevelOverrides)
+        .filter(([, rule]) => rule && rule.value !== '')
+        .map(([level, rule]) => [level, toFeeRule(rule as RuleForm)])
+    ),
+    isActive: false,
+    createdAt: new Date(),
+  });
+
+  const validateRule = (rule: RuleForm, label: string): string | null => {
+    const value = parseFloat(rule.value);
+    if (isNaN(value) || value < 0) return `${label}: fee must be zero or more`;
+    if (rule.type === 'percentage' && value > 100) return `${label}: percentage cannot exceed 100%`;
+    if (rule.cap.trim() !== '' && (isNaN(parseFloat(rule.cap)) || parseFloat(rule.cap) < 0)) {
+      return `${label}: cap must be zero or more`;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const errors = [
+      validateRule(defaultRule, 'Default fee'),
+      ...categoryOverrides.filter(o => o.category).map(o => validateRule(o, o.category)),
+      ...Object.entries(rateLevelOverrides)
+        .filter(([, rule]) => rule && rule.value !== '')
+        .map(([level, rule]) => validateRule(rule as RuleForm, `${level} Star`)),
+    ].filter(Boolean);
+
+    if (errors.length > 0) {
+      toast.error(errors.join('\n'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const version = await publishFeePolicy(buildPolicy());
+      await Promise.all([loadPolicies(), invalidateQueries(queryKeys.feePolicy)]);
+      toast.success(`Fee policy v${version} is now active. Existing orders keep the policy they were approved under.`);
+    } catch (error) {
+      console.error('Error saving fee policy:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save fee policy. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRuleInputs = (rule: RuleForm, onChange: (rule: RuleForm) => void) => (
+    <div className="grid grid-cols-3 gap-2">
+      <select
+        value={rule.type}
+        onChange={(e) => onChange({ ...rule, type: e.target.value as FeeType })}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <option value="percentage">Percentage</option>
+        <option value="flat">Flat (RM)</option>
+      </select>
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder={rule.type === 'percentage' ? 'e.g. 10' : 'e.g. 15.00'}
+        value={rule.value}
+        onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <input
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder="Cap (RM, optional)"
+        value={rule.cap}
+        onChange={(e) => onChange({ ...rule, cap: e.target.value })}
+        className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+    </div>
+  );
+
+  const draftPolicy = buildPolicy();
+  const previewCategory = categoryOverrides.find(o => o.category)?.category || CAMPAIGN_CATEGORIES[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Platform Settings</h1>
+          <p className="text-gray-600">Configure the platform fee charged on completed jobs</p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-5 w-5" />
+          <span>{saving ? 'Publishing...' : 'Publish New Version'}</span>
+        </button>
+      </div>
+
+      <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+        <div className="flex items-start space-x-3">
+          <Info className="h-5 w-5 text-blue-600 mt-0.5" />
+          <p className="text-sm text-blue-700">
+            Publishing creates a new policy version. Each order keeps the version that was active when its talent
+            was approved, so changes only apply to new approvals. Category overrides take priority over rate level
+            overrides, which take priority over the default fee.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Default Fee */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <Percent className="h-5 w-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Default Fee</h3>
+            </div>
+            {renderRuleInputs(defaultRule, setDefaultRule)}
+
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Who pays the fee?</label>
+              <div className="flex space-x-4">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={chargedTo === 'founder'}
+                    onChange={() => setChargedTo('founder')}
+                  />
+                  <span>Founder (added on top of the talent payment)</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    checked={chargedTo === 'talent'}
+                    onChange={() => setChargedTo('talent')}
+                  />
+                  <span>Talent (withheld from the payout)</span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Rate Level Overrides */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Rate Level Overrides</h3>
+            <p className="text-sm text-gray-500 mb-4">Leave the fee empty to use the default for that level.</p>
+            <div className="space-y-3">
+              {([1, 2, 3] as const).map(level => (
+                <div key={level} className="grid grid-cols-4 gap-2 items-center">
+                  <span className="text-sm font-medium text-gray-700">{level} Star</span>
+                  <div className="col-span-3">
+                    {renderRuleInputs(rateLevelOverrides[level] || EMPTY_RULE, (rule) =>
+                      setRateLevelOverrides(prev => ({ ...prev, [level]: rule }))
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Category Overrides */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Category Overrides</h3>
+              <button
+                onClick={() => setCategoryOverrides(prev => [...prev, { category: '', ...EMPTY_RULE }])}
+                className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add Override</span>
+              </button>
+            </div>
+            {categoryOverrides.length > 0 ? (
+              <div className="space-y-3">
+                {categoryOverrides.map((override, index) => (
+                  <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                    <select
+                      value={override.category}
+                      onChange={(e) => setCategoryOverrides(prev =>
+                        prev.map((o, i) => i === index ? { ...o, category: e.target.value } : o)
+                      )}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Select category</option>
+                      {CAMPAIGN_CATEGORIES.map(category => (
+                        <option
+                          key={category}
+                          value={category}
+                          disabled={categoryOverrides.some((o, i) => i !== index && o.category === category)}
+                        >
+                          {category}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="col-span-3 flex items-center space-x-2">
+                      <div className="flex-1">
+                        {renderRuleInputs(override, (rule) => setCategoryOverrides(prev =>
+                          prev.map((o, i) => i === index ? { ...o, ...rule } : o)
+                        ))}
+                      </div>
+                      <button
+                        onClick={() => setCategoryOverrides(prev => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No category overrides. All categories use the rules above.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Preview */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <DollarSign className="h-5 w-5 text-green-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Preview</h3>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">One 1 minute video in {previewCategory}</p>
+            <div className="space-y-3">
+              {([1, 2, 3] as const).map(level => {
+                const price = calculateCampaignPrice(level, [{ ...DEFAULT_DELIVERABLE, duration: '1min' }]);
+                const quote = quotePlatformFee(draftPolicy, price, previewCategory, level);
+                return (
+                  <div key={level} className="text-sm border-b border-gray-100 pb-2">
+                    <div className="flex justify-between font-medium text-gray-900">
+                      <span>{level} Star • {formatCurrency(price)}</span>
+                      <span>Fee {formatCurrency(quote.fee)}</span>
+                    </div>
+                    <div className="flex justify-between text-gray-500 text-xs">
+                      <span>Founder pays {formatCurrency(quote.founderPays)}</span>
+                      <span>Talent gets {formatCurrency(quote.talentReceives)}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* History */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center space-x-2 mb-4">
+              <History className="h-5 w-5 text-purple-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Policy History</h3>
+            </div>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : policies.length > 0 ? (
+              <div className="space-y-3">
+                {policies.map(policy => (
+                  <div key={policy.id} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">Version {policy.version}</span>
+                      {policy.isActive && (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">Active</span>
+                      )}
+                    </div>
+                    <p className="text-gray-600">
+                      {describeFeeRule(policy.defaultRule)} • charged to {policy.chargedTo}
+                    </p>
+                    <p className="text-xs text-gray-400">
+                      {Object.keys(policy.categoryOverrides).length} category / {Object.keys(policy.rateLevelOverrides).length} rate level overrides • {policy.createdAt.toLocaleDateString()}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-6 text-gray-500">
+                <Settings className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                <p className="text-sm">No fee policies found</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPage;
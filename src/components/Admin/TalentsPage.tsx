@@ -1,36 +1,56 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Star, Search, Filter, Eye, Ban, CheckCircle, Mail, Calendar, DollarSign, MoreVertical, Award, Users, RefreshCw, Settings } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
-import { updateUserStatus, updateProfile } from '../../lib/api';
+import { useProfileStats, useTalent } from '../../hooks/useAppData';
+import { updateUserStatus, updateProfile, listTalents } from '../../lib/api';
 import TalentDetailsModal from './TalentDetailsModal';
 import TalentApprovalModal from './TalentApprovalModal';
 import { Talent } from '../../types';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
+import { invalidateQueries, runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
-const TalentsPage: React.FC = () => {
-  const { talents, setTalents, refreshData, loading } = useApp();
+interface TalentsPageProps {
+  // The talent open from `/admin/talents/:id` or `/admin/talents/:id/approve`, and which of its modals
+  talentId?: string;
+  modal?: 'details' | 'approve';
+}
+
+const TalentsPage: React.FC<TalentsPageProps> = ({ talentId, modal }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [rateLevelFilter, setRateLevelFilter] = useState<string>('all');
-  const [selectedTalent, setSelectedTalent] = useState<Talent | null>(null);
-  const [approvingTalent, setApprovingTalent] = useState<Talent | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
 
-  // Debug: Log talents data
-  useEffect(() => {
-    console.log('TalentsPage - talents data:', talents);
-    console.log('TalentsPage - talents count:', talents.length);
-  }, [talents]);
+  const openTalent = useTalent(talentId);
+  const stats = useProfileStats('talent');
+  const selectedTalent = modal === 'details' ? openTalent : null;
+  const approvingTalent = modal === 'approve' ? openTalent : null;
+  const setSelectedTalent = (talent: Talent | null) =>
+    navigate(talent ? `/admin/talents/${talent.id}` : '/admin/talents');
+  const setApprovingTalent = (talent: Talent | null) =>
+    navigate(talent ? `/admin/talents/${talent.id}/approve` : '/admin/talents');
 
-  // Apply search and filters
-  const filteredTalents = talents.filter(talent => {
-    const matchesSearch = talent.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         talent.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         talent.skills.some(skill => skill.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesStatus = statusFilter === 'all' || talent.status === statusFilter;
-    const matchesRateLevel = rateLevelFilter === 'all' || talent.rateLevel.toString() === rateLevelFilter;
-    
-    return matchesSearch && matchesStatus && matchesRateLevel;
-  });
+  // Search and filters run on the server, a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    status: statusFilter === 'all' ? undefined : statusFilter as Talent['status'],
+    rateLevel: rateLevelFilter === 'all' ? undefined : Number(rateLevelFilter),
+  };
+  const talentList = usePagedList(cursor => listTalents({ filters, cursor }), [...queryKeys.talents, 'page', filters], 'talent');
+  const filteredTalents = talentList.items;
+
+  // Shows the change in every list straight away, and undoes it if the request fails
+  const updateTalent = (talentId: string, updates: Partial<Talent>, request: () => Promise<unknown>) =>
+    runMutation(request, {
+      optimistic: () => updateEntity<Talent>('talent', talentId, talent => ({ ...talent, ...updates })),
+      invalidates: [queryKeys.talents],
+    });
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -76,22 +96,12 @@ const TalentsPage: React.FC = () => {
       setActionLoading(true);
       console.log('Updating talent status:', talentId, 'to:', newStatus);
       
-      await updateUserStatus(talentId, newStatus);
-      
-      // Update local state
-      setTalents(talents.map(talent => 
-        talent.id === talentId 
-          ? { ...talent, status: newStatus }
-          : talent
-      ));
-      
-      // Refresh data to ensure consistency
-      await refreshData();
+      await updateTalent(talentId, { status: newStatus }, () => updateUserStatus(talentId, newStatus));
       
       console.log('Talent status updated successfully');
     } catch (error) {
       console.error('Error updating talent status:', error);
-      alert('Failed to update talent status. Please try again.');
+      toast.error('Failed to update talent status. Please try again.');
     } finally {
       setActionLoading(false);
     }
@@ -106,21 +116,15 @@ const TalentsPage: React.FC = () => {
       setActionLoading(true);
       
       // Update talent status to active and set rate level
-      await updateUserStatus(talentId, 'active');
-      await updateProfile(talentId, { rate_level: rateLevel });
-      
-      // Update local state
-      setTalents(talents.map(talent => 
-        talent.id === talentId 
-          ? { ...talent, status: 'active', rateLevel }
-          : talent
-      ));
-      
+      await updateTalent(talentId, { status: 'active', rateLevel }, async () => {
+        await updateUserStatus(talentId, 'active');
+        await updateProfile(talentId, { rate_level: rateLevel });
+      });
+
       setApprovingTalent(null);
-      await refreshData();
     } catch (error) {
       console.error('Error approving talent:', error);
-      alert('Failed to approve talent. Please try again.');
+      toast.error('Failed to approve talent. Please try again.');
     } finally {
       setActionLoading(false);
     }
@@ -128,7 +132,12 @@ const TalentsPage: React.FC = () => {
 
   const handleRefreshData = async () => {
     console.log('Manually refreshing talent data...');
-    await refreshData();
+    setRefreshing(true);
+    try {
+      await invalidateQueries(queryKeys.talents);
+    } finally {
+      setRefreshing(false);
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -147,8 +156,7 @@ const TalentsPage: React.FC = () => {
 
   // Calculate average rating for talents
   const getAverageRating = () => {
-    const activeTalents = talents.filter(t => t.status === 'active');
-    if (activeTalents.length === 0) return 0;
+    if (!stats?.active) return 0;
     
     // Mock average rating calculation - in real app this would come from reviews
     return 4.7;
@@ -163,10 +171,10 @@ const TalentsPage: React.FC = () => {
         </div>
         <button
           onClick={handleRefreshData}
-          disabled={loading}
+          disabled={refreshing}
           className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
         >
-          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
           <span>Refresh</span>
         </button>
       </div>
@@ -181,7 +189,7 @@ const TalentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Active Talents</p>
               <p className="text-2xl font-bold text-gray-900">
-                {talents.filter(t => t.status === 'active').length}
+                {stats?.active ?? 0}
               </p>
             </div>
           </div>
@@ -195,7 +203,7 @@ const TalentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Pending Approval</p>
               <p className="text-2xl font-bold text-gray-900">
-                {talents.filter(t => t.status === 'pending').length}
+                {stats?.pending ?? 0}
               </p>
             </div>
           </div>
@@ -209,7 +217,7 @@ const TalentsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Earnings</p>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(talents.reduce((sum, t) => sum + t.totalEarnings, 0))}
+                {formatCurrency(stats?.earningsTotal ?? 0)}
               </p>
             </div>
           </div>
@@ -270,7 +278,7 @@ const TalentsPage: React.FC = () => {
       </div>
 
       {/* Loading State */}
-      {loading && (
+      {talentList.loading && filteredTalents.length === 0 && (
         <div className="text-center py-12">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
           <p className="text-gray-600">Loading talents...</p>
@@ -278,7 +286,7 @@ const TalentsPage: React.FC = () => {
       )}
 
       {/* Talents List */}
-      {!loading && filteredTalents.length > 0 ? (
+      {filteredTalents.length > 0 ? (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
@@ -417,8 +425,14 @@ const TalentsPage: React.FC = () => {
               </tbody>
             </table>
           </div>
+          <LoadMore
+            hasMore={talentList.hasMore}
+            loading={talentList.loading}
+            onLoadMore={talentList.loadMore}
+            summary={`Showing ${filteredTalents.length} of ${talentList.total} talents`}
+          />
         </div>
-      ) : !loading ? (
+      ) : !talentList.loading ? (
         <div className="text-center py-12">
           <div className="text-gray-500">
             <Star className="h-12 w-12 mx-auto mb-4 text-gray-300" />
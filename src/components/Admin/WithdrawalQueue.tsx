@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { Landmark, CheckCircle, XCircle, Clock, Download, Layers, Banknote } from 'lucide-react';
+import { useWithdrawals } from '../../hooks/useAppData';
+import { PayoutBatch, WithdrawalRequest } from '../../types';
+import {
+  getPayoutBatches,
+  reviewWithdrawal,
+  createPayoutBatch,
+  markPayoutBatchExported,
+  markPayoutBatchPaid,
+} from '../../lib/api';
+import { buildPayoutBatchCsv, downloadCsv, MAX_PAYOUT_BATCH_SIZE } from '../../lib/payouts';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+
+const WithdrawalQueue: React.FC = () => {
+  const withdrawals = useWithdrawals();
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadBatches = async () => {
+    try {
+      setBatches(await getPayoutBatches());
+    } catch (error) {
+      console.error('Error loading payout batches:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  const queue = withdrawals.filter(w => w.status === 'pending' || (w.status === 'approved' && !w.batchId));
+  const approvedUnbatched = queue.filter(w => w.status === 'approved');
+  const selectedTotal = approvedUnbatched
+    .filter(w => selectedIds.includes(w.id))
+    .reduce((sum, w) => sum + w.amount, 0);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ms-MY', {
+      style: 'currency',
+      currency: 'MYR',
+    }).format(amount);
+  };
+
+  const getStatusColor = (status: WithdrawalRequest['status'] | PayoutBatch['status']) => {
+    switch (status) {
+      case 'paid':     return 'bg-green-100 text-green-800';
+      case 'approved':
+      case 'exported': return 'bg-blue-100 text-blue-800';
+      case 'pending':  return 'bg-yellow-100 text-yellow-800';
+      case 'rejected': return 'bg-red-100 text-red-800';
+      default:         return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  // Every action changes balances, so the withdrawals and the ledger are refetched afterwards
+  const runAction = async (id: string, action: () => Promise<void>, failureMessage: string) => {
+    try {
+      setBusyId(id);
+      await action();
+      await Promise.all([
+        invalidateQueries(queryKeys.withdrawals, queryKeys.transactions, queryKeys.payments),
+        loadBatches(),
+      ]);
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast.error(error instanceof Error ? error.message : failureMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleApprove = (withdrawal: WithdrawalRequest) =>
+    runAction(withdrawal.id, () => reviewWithdrawal(withdrawal.id, true), 'Failed to approve withdrawal.');
+
+  const handleReject = (withdrawal: WithdrawalRequest) => {
+    const reason = prompt(`Reject ${formatCurrency(withdrawal.amount)} withdrawal for ${withdrawal.talentName || 'this talent'}? Enter a reason for the talent:`);
+    if (reason === null) return;
+
+    runAction(withdrawal.id, () => reviewWithdrawal(withdrawal.id, false, reason), 'Failed to reject withdrawal.');
+  };
+
+  const handleCreateBatch = () => {
+    const ids = selectedIds.filter(id => approvedUnbatched.some(w => w.id === id));
+    if (ids.length === 0) return;
+    if (ids.length > MAX_PAYOUT_BATCH_SIZE) {
+      toast.error(`A payout batch can hold at most ${MAX_PAYOUT_BATCH_SIZE} withdrawals.`);
+      return;
+    }
+
+    runAction('batch', async () => {
+      await createPayoutBatch(ids);
+      setSelectedIds([]);
+    }, 'Failed to create payout batch.');
+  };
+
+  const handleExport = (batch: PayoutBatch) => {
+    const batchWithdrawals = withdrawals.filter(w => w.batchId === batch.id);
+    downloadCsv(`${batch.reference}.csv`, buildPayoutBatchCsv(batch, batchWithdrawals));
+
+    if (batch.status === 'pending') {
+      runAction(batch.id, () => markPayoutBatchExported(batch.id), 'Failed to update payout batch.');
+    }
+  };
+
+  const handleMarkPaid = (batch: PayoutBatch) => {
+    if (!confirm(`Mark ${batch.reference} (${formatCurrency(batch.totalAmount)}) as paid? Only do this once the bank transfer has completed.`)) {
+      return;
+    }
+
+    runAction(batch.id, () => markPayoutBatchPaid(batch.id), 'Failed to mark payout batch as paid.');
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Withdrawal Queue */}
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Withdrawal Requests</h3>
+            <p className="text-gray-600 text-sm">Approve requests, then group approved ones into a payout batch</p>
+          </div>
+          <button
+            onClick={handleCreateBatch}
+            disabled={busyId !== null || selectedTotal === 0}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Layers className="h-4 w-4" />
+            <span>Create Batch{selectedTotal > 0 ? ` • ${formatCurrency(selectedTotal)}` : ''}</span>
+          </button>
+        </div>
+
+        {queue.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {queue.map(withdrawal => (
+              <div key={withdrawal.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(withdrawal.id)}
+                    onChange={() => toggleSelected(withdrawal.id)}
+                    disabled={withdrawal.status !== 'approved'}
+                    className="h-4 w-4 text-blue-600 rounded disabled:opacity-30"
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900">{withdrawal.talentName || withdrawal.accountHolderName}</p>
+                    <p className="text-sm text-gray-600">
+                      {withdrawal.bankName} • {withdrawal.accountNumber} • {withdrawal.accountHolderName}
+                    </p>
+                    <p className="text-xs text-gray-500">Requested {withdrawal.createdAt.toLocaleDateString()}</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <div className="text-right">
+                    <p className="font-bold text-gray-900">{formatCurrency(withdrawal.amount)}</p>
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(withdrawal.status)}`}>
+                      {withdrawal.status}
+                    </span>
+                  </div>
+                  {withdrawal.status === 'pending' && (
+                    <button
+                      onClick={() => handleApprove(withdrawal)}
+                      disabled={busyId !== null}
+                      className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Approve"
+                    >
+                      <CheckCircle className="h-5 w-5" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleReject(withdrawal)}
+                    disabled={busyId !== null}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                    title="Reject"
+                  >
+                    <XCircle className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <Landmark className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p className="text-sm">No withdrawal requests waiting for review</p>
+          </div>
+        )}
+      </div>
+
+      {/* Payout Batches */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Payout Batches</h3>
+          <p className="text-gray-600 text-sm">Export for bank bulk payment, then mark paid</p>
+        </div>
+
+        {batches.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {batches.map(batch => {
+              const count = withdrawals.filter(w => w.batchId === batch.id).length;
+              return (
+                <div key={batch.id} className="p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{batch.reference}</p>
+                      <p className="text-sm text-gray-600">
+                        {count} withdrawal{count !== 1 ? 's' : ''} • {formatCurrency(batch.totalAmount)}
+                      </p>
+                    </div>
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusColor(batch.status)}`}>
+                      {batch.status}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-3">
+                    <button
+                      onClick={() => handleExport(batch)}
+                      disabled={busyId !== null}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <Download className="h-4 w-4" />
+                      <span>CSV</span>
+                    </button>
+                    {batch.status !== 'paid' ? (
+                      <button
+                        onClick={() => handleMarkPaid(batch)}
+                        disabled={busyId !== null}
+                        className="flex items-center space-x-1 px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        <Banknote className="h-4 w-4" />
+                        <span>Mark Paid</span>
+                      </button>
+                    ) : (
+                      <span className="flex items-center text-xs text-gray-500">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Paid {batch.paidAt?.toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <Layers className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p className="text-sm">No payout batches yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WithdrawalQueue;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { X, MapPin, Plus, Lock } from 'lucide-react';
+import { Campaign, ShippingAddress } from '../../types';
+import { getShippingAddresses } from '../../lib/api';
+import { formatShippingAddress } from '../../lib/addresses';
+import ShippingAddressForm from '../Profile/ShippingAddressForm';
+
+interface ApplyCampaignModalProps {
+  campaign: Campaign;
+  talentId: string;
+  onClose: () => void;
+  onApply: (addressId: string) => Promise<void>;
+}
+
+// Asks which address the product should be shipped to before applying
+const ApplyCampaignModal: React.FC<ApplyCampaignModalProps> = ({ campaign, talentId, onClose, onApply }) => {
+  const [addresses, setAddresses] = useState<ShippingAddress[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getShippingAddresses(talentId)
+      .then(result => {
+        setAddresses(result);
+        setSelectedId(current => current ?? result.find(a => a.isDefault)?.id ?? result[0]?.id ?? null);
+      })
+      .catch(error => console.error('Error loading shipping addresses:', error))
+      .finally(() => setLoaded(true));
+  }, [talentId, reloadKey]);
+
+  const handleSaved = (addressId: string) => {
+    setAdding(false);
+    setSelectedId(addressId);
+    setReloadKey(key => key + 1);
+  };
+
+  const handleApply = async () => {
+    if (!selectedId) return;
+
+    setApplying(true);
+    try {
+      await onApply(selectedId);
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Apply to Campaign</h2>
+            <p className="text-sm text-gray-600">{campaign.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <h4 className="font-medium text-gray-900">Where should the product be shipped?</h4>
+            <div className="flex items-start space-x-2 mt-1 text-sm text-gray-600">
+              <Lock className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <p>The founder only sees this address if your application is approved, and loses access once the order is complete.</p>
+            </div>
+          </div>
+
+          {loaded && addresses.length === 0 && !adding && (
+            <p className="text-sm text-gray-500">You have no saved addresses yet. Add one to apply.</p>
+          )}
+
+          <div className="space-y-2">
+            {addresses.map(address => (
+              <label
+                key={address.id}
+                className={`flex items-start space-x-3 border rounded-lg p-4 cursor-pointer transition-colors ${
+                  selectedId === address.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="shippingAddress"
+                  checked={selectedId === address.id}
+                  onChange={() => setSelectedId(address.id)}
+                  className="mt-1 text-blue-600 focus:ring-blue-500"
+                />
+                <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
+                <div>
+                  <p className="font-medium text-gray-900">{address.label}</p>
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{formatShippingAddress(address)}</p>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          {adding ? (
+            <ShippingAddressForm onSaved={handleSaved} onCancel={() => setAdding(false)} />
+          ) : (
+            <button
+              type="button"
+              onClick={() => setAdding(true)}
+              className="inline-flex items-center text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add a new address
+            </button>
+          )}
+
+          <div className="flex justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!selectedId || applying || adding}
+              className="px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {applying ? 'Applying...' : 'Apply Now'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplyCampaignModal;
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { X, Users, Star, Eye, Check, XCircle, Search, Mail, Calendar, Award, Instagram, Youtube, Camera, Video, Play } from 'lucide-react';
-import { Campaign, Talent, Order, Earning, Transaction, Founder } from '../../types';
-import { useApp } from '../../context/AppContext';
+import { X, Users, Star, Eye, Check, XCircle, Search, Mail, Calendar, Award, Instagram, Youtube, Camera, Play } from 'lucide-react';
+import { Campaign, Talent, Founder } from '../../types';
+import { useCampaign, useFeePolicy, useTalentsById } from '../../hooks/useAppData';
 import { useAuth } from '../../context/AuthContext';
 import TalentProfileModal from './TalentProfileModal';
-import { updateApplicationStatus, createOrder, createTransaction, updateProfile } from '../../lib/api';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import { updateApplicationStatus, approveApplication } from '../../lib/api';
+import { toast } from '../../lib/toast';
+import { quotePlatformFee } from '../../lib/fees';
+import { runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
 
 interface CampaignApplicantsModalProps {
@@ -16,15 +21,14 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
   campaignId,
   onClose,
 }) => {
-  const { user, updateProfile } = useAuth();
-  const { campaigns, talents, setCampaigns, orders, setOrders, earnings, setEarnings, transactions, setTransactions, refreshData } = useApp();
+  const { user, refreshUser } = useAuth();
+  const campaign = useCampaign(campaignId);
+  const applicantTalents = useTalentsById(campaign?.applicants || []);
+  const feePolicy = useFeePolicy();
   const [selectedTalent, setSelectedTalent] = useState<Talent | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [processingTalentId, setProcessingTalentId] = useState<string | null>(null);
 
-  // Find the campaign using the campaignId
-  const campaign = campaigns.find(c => c.id === campaignId);
-  
   if (!campaign) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -41,9 +45,6 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
     );
   }
 
-  // Get applicant talents
-  const applicantTalents = talents.filter(talent => campaign.applicants.includes(talent.id));
-
   // Filter applicants based on search term
   const filteredApplicants = applicantTalents.filter(talent =>
     talent.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -80,70 +81,42 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
     setProcessingTalentId(talentId);
     
     try {
-      // Check if founder has sufficient balance
+      // Quick check against the cached balance; the server re-checks it under a row lock. The
+      // founder's share of the platform fee is held in escrow along with the payout
       const founder = user as Founder;
-      if (founder.walletBalance < campaign.price) {
-        alert('Insufficient wallet balance. Please top up your wallet before approving talents.');
+      const escrowAmount = feePolicy
+        ? quotePlatformFee(feePolicy, campaign.price, campaign.category, campaign.rateLevel).founderPays
+        : campaign.price;
+      if (founder.walletBalance < escrowAmount) {
+        toast.error('Insufficient wallet balance. Please top up your wallet before approving talents.');
         return;
       }
 
-      // Update application status in the database
-      await updateApplicationStatus(campaign.id, talentId, 'approved');
-
-      // Update campaign in local state: remove from applicants, add to approved talents
-      const updatedCampaign = {
-        ...campaign,
-        // Don't remove from applicants yet - this will happen on refresh
-        approvedTalents: [...campaign.approvedTalents, talentId]
-      };
-
-      setCampaigns(campaigns.map(c => c.id === campaign.id ? updatedCampaign : c));
-
-      // Create new order
-      try {
-        const talent = talents.find(t => t.id === talentId);
-        if (talent) {
-          // Create order in database first to get proper UUID
-          const newOrder = await createOrder({
-            campaignId: campaign.id,
-            talentId: talentId,
-            founderId: user?.id || '',
-            status: 'pending_shipment',
-            payout: campaign.price,
-          });
-
-          // Add to local state
-          setOrders([newOrder, ...orders]);
-
-          // Now create hold transaction with proper order ID
-          const holdTransaction = await createTransaction({
-            userId: founder.id,
-            type: 'debit',
-            amount: campaign.price,
-            description: `Payment Hold - ${campaign.title} (Talent Approved)`,
-            relatedJobId: newOrder.id, // Use the actual order ID from database
-          });
-
-          setTransactions([holdTransaction, ...transactions]);
-
-          // Refresh data to ensure everything is in sync
-          await refreshData();
-          onClose();
-          // Show success message
-          alert(`Talent ${talent?.name} has been approved! Order created and payment held.`);
-          
-          // If the selected talent was approved, close the talent details modal
-          if (selectedTalent && selectedTalent.id === talentId) {
-            setSelectedTalent(null);
-          }
-        }
-      } catch (error) {
-        console.error('Error creating order or transaction:', error);
-        throw error;
+      // Approve, create the order and hold the payment in one server-side transaction. The talent
+      // shows as approved straight away, and goes back to the applicants if that fails
+      await runMutation(() => approveApplication(campaign.id, talentId), {
+        // Don't remove from applicants yet - this will happen on refetch
+        optimistic: () => updateEntity<Campaign>('campaign', campaign.id, current => ({
+          ...current,
+          approvedTalents: [...current.approvedTalents, talentId],
+        })),
+        invalidates: [queryKeys.campaigns, queryKeys.orders, queryKeys.transactions, queryKeys.accountBalances],
+      });
+
+      // Refresh the founder's wallet balance to ensure everything is in sync
+      await refreshUser();
+      onClose();
+
+      const talent = applicantTalents.find(t => t.id === talentId);
+      toast.success(`Talent ${talent?.name} has been approved! Order created and payment held.`);
+
+      // If the selected talent was approved, close the talent details modal
+      if (selectedTalent && selectedTalent.id === talentId) {
+        setSelectedTalent(null);
       }
     } catch (error) {
       console.error('Error approving talent:', error);
-      alert('Failed to approve talent. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to approve talent. Please try again.');
     } finally {
       setProcessingTalentId(null);
     }
@@ -153,22 +126,17 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
     setProcessingTalentId(talentId);
     
     try {
-      // Update application status in the database
-      await updateApplicationStatus(campaign.id, talentId, 'rejected');
-
-      // Update campaign in local state
-      const updatedCampaign = {
-        ...campaign,
-        applicants: campaign.applicants.filter(id => id !== talentId)
-      };
-
-      setCampaigns(campaigns.map(c => c.id === campaign.id ? updatedCampaign : c));
-      
-      // Refresh data to ensure everything is in sync
-      await refreshData();
+      // Update application status in the database, taking the talent off the applicants meanwhile
+      await runMutation(() => updateApplicationStatus(campaign.id, talentId, 'rejected'), {
+        optimistic: () => updateEntity<Campaign>('campaign', campaign.id, current => ({
+          ...current,
+          applicants: current.applicants.filter(id => id !== talentId),
+        })),
+        invalidates: [queryKeys.campaigns],
+      });
       
-      const talent = talents.find(t => t.id === talentId);
-      alert(`Talent ${talent?.name} application has been rejected.`);
+      const talent = applicantTalents.find(t => t.id === talentId);
+      toast.info(`Talent ${talent?.name} application has been rejected.`);
       
       // If the selected talent was rejected, close the talent details modal
       if (selectedTalent && selectedTalent.id === talentId) {
@@ -176,7 +144,7 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
       }
     } catch (error) {
       console.error('Error rejecting talent:', error);
-      alert('Failed to reject talent. Please try again.');
+      toast.error('Failed to reject talent. Please try again.');
     } finally {
       setProcessingTalentId(null);
     }
@@ -312,24 +280,12 @@ const CampaignApplicantsModal: React.FC<CampaignApplicantsModalProps> = ({
                             <div className="flex space-x-2 overflow-x-auto pb-2">
                               {talent.portfolio.slice(0, 4).map((item, index) => (
                                 <div key={index} className="relative flex-shrink-0">
-                                  {isVideoUrl(item) ? (
-                                    <div className="w-16 h-16 bg-gray-100 rounded border border-gray-200 flex items-center justify-center relative">
-                                      <Video className="h-6 w-6 text-gray-400" />
-                                      <div className="absolute inset-0 opacity-0 hover:opacity-100 transition-opacity">
-                                        <video
-                                          src={item}
-                                          className="w-full h-full object-cover"
-                                          muted
-                                        />
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    <img
-                                      src={item}
-                                      alt={`Portfolio ${index + 1}`}
-                                      className="w-16 h-16 object-cover rounded border border-gray-200"
-                                    />
-                                  )}
+                                  <MediaThumbnail
+                                    url={item}
+                                    type={isVideoUrl(item) ? 'video' : 'image'}
+                                    alt={`Portfolio ${index + 1}`}
+                                    className="w-16 h-16 object-cover rounded border border-gray-200"
+                                  />
                                 </div>
                               ))}
                               {talent.portfolio.length > 4 && (
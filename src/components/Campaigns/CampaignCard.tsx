@@ -1,6 +1,8 @@
 import React from 'react';
 import { Calendar, DollarSign, Users, Camera, Video, Clock, Tag } from 'lucide-react';
 import { Campaign, Talent, Founder } from '../../types';
+import { summarizeDeliverables } from '../../lib/deliverables';
+import MediaThumbnail from '../Common/MediaThumbnail';
 
 interface CampaignCardProps {
   campaign: Campaign;
@@ -49,18 +51,6 @@ const CampaignCard: React.FC<CampaignCardProps> = ({
     }
   };
 
-  const getDurationLabel = (duration: string) => {
-    switch (duration) {
-      case '30sec':
-        return '30 Seconds';
-      case '1min':
-        return '1 Minute';
-      case '3min':
-        return '3 Minutes';
-      default:
-        return duration;
-    }
-  };
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -94,7 +84,7 @@ const CampaignCard: React.FC<CampaignCardProps> = ({
           <div className="flex items-center space-x-4 text-sm text-gray-500">
             <div className="flex items-center">
               <Clock className="h-4 w-4 mr-1" />
-              <span>{getDurationLabel(campaign.duration)}</span>
+              <span>{summarizeDeliverables(campaign.deliverables)}</span>
             </div>
             <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs">
               {campaign.category}
@@ -122,9 +112,10 @@ const CampaignCard: React.FC<CampaignCardProps> = ({
         <div className="mb-4">
           <div className="flex space-x-2 overflow-x-auto">
             {campaign.productImages.slice(0, 3).map((image, index) => (
-              <img
+              <MediaThumbnail
                 key={index}
-                src={image}
+                url={image}
+                type="image"
                 alt={`${campaign.productName} ${index + 1}`}
                 className="w-16 h-16 object-cover rounded-lg border border-gray-200 flex-shrink-0"
               />
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { CampaignDeliverable } from '../../types';
+import { describeDeliverable, describeDeliverableRequirements } from '../../lib/deliverables';
+
+interface CampaignDeliverablesListProps {
+  deliverables: CampaignDeliverable[];
+}
+
+// The brief each approved talent works from
+const CampaignDeliverablesList: React.FC<CampaignDeliverablesListProps> = ({ deliverables }) => (
+  <ol className="space-y-3">
+    {deliverables.map((deliverable, index) => {
+      const requirements = describeDeliverableRequirements(deliverable);
+      return (
+        <li key={deliverable.id} className="bg-gray-50 rounded-lg p-4 text-sm">
+          <p className="font-medium text-gray-900">
+            {index + 1}. {describeDeliverable(deliverable)}
+          </p>
+          {requirements.length > 0 && (
+            <p className="text-gray-600 mt-1">{requirements.join(' • ')}</p>
+          )}
+          {deliverable.dos && (
+            <p className="flex items-start text-green-700 mt-2">
+              <Check className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              <span className="whitespace-pre-line">{deliverable.dos}</span>
+            </p>
+          )}
+          {deliverable.donts && (
+            <p className="flex items-start text-red-700 mt-1">
+              <X className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+              <span className="whitespace-pre-line">{deliverable.donts}</span>
+            </p>
+          )}
+        </li>
+      );
+    })}
+  </ol>
+);
+
+export default CampaignDeliverablesList;
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { X, Package, Calendar, DollarSign, Users, Star, Camera, Video, Clock, Tag, Ban, CheckCircle, Edit, Trash2, Play, Pause } from 'lucide-react';
 import { Campaign, Talent } from '../../types';
-import { useApp } from '../../context/AppContext';
+import { useTalentsById } from '../../hooks/useAppData';
 import CampaignApplicantsModal from './CampaignApplicantsModal';
+import { describeUsageRights } from '../../lib/licenses';
+import { summarizeDeliverables } from '../../lib/deliverables';
+import CampaignDeliverablesList from './CampaignDeliverablesList';
 
 interface CampaignDetailsModalProps {
   campaign: Campaign;
@@ -21,7 +24,8 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
   onStatusChange,
   isTalentView = false
 }) => {
-  const { talents } = useApp();
+  // Talents only see the campaign, not who else applied
+  const talents = useTalentsById(isTalentView ? [] : [...campaign.approvedTalents, ...campaign.applicants]);
   const [showApplicants, setShowApplicants] = useState(false);
 
   const getStatusColor = (status: string) => {
@@ -77,18 +81,6 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
     }).format(amount);
   };
 
-  const getDurationLabel = (duration: string) => {
-    switch (duration) {
-      case '30sec':
-        return '30 Seconds';
-      case '1min':
-        return '1 Minute';
-      case '3min':
-        return '3 Minutes';
-      default:
-        return duration;
-    }
-  };
 
   const getApprovedTalents = (): Talent[] => {
     return talents.filter(talent => campaign.approvedTalents.includes(talent.id));
@@ -202,8 +194,8 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
                 <div className="flex items-center space-x-3">
                   <Clock className="h-5 w-5 text-gray-400" />
                   <div>
-                    <p className="text-sm text-gray-600">Duration</p>
-                    <p className="font-medium text-gray-900">{getDurationLabel(campaign.duration)}</p>
+                    <p className="text-sm text-gray-600">Content</p>
+                    <p className="font-medium text-gray-900">{summarizeDeliverables(campaign.deliverables)}</p>
                   </div>
                 </div>
               </div>
@@ -235,6 +227,30 @@ const CampaignDetailsModal: React.FC<CampaignDetailsModalProps> = ({
               </div>
             </div>
 
+            {/* Deliverables */}
+            <div>
+              <h4 className="text-lg font-semibold text-gray-900 mb-3">Deliverables</h4>
+              <CampaignDeliverablesList deliverables={campaign.deliverables} />
+            </div>
+
+            {/* Usage Rights */}
+            <div>
+              <h4 className="text-lg font-semibold text-gray-900 mb-3">Content Usage Rights</h4>
+              <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm bg-gray-50 rounded-lg p-4">
+                {describeUsageRights(campaign.usageRights).map(term => (
+                  <div key={term.label}>
+                    <dt className="text-gray-600">{term.label}</dt>
+                    <dd className="font-medium text-gray-900">{term.value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {isTalentView && (
+                <p className="text-xs text-gray-500 mt-2">
+                  By applying you agree to license your content on these terms once the founder approves it.
+                </p>
+              )}
+            </div>
+
             {/* Product Images */}
             {campaign.productImages && campaign.productImages.length > 0 && (
               <div>
@@ -1,37 +1,58 @@
 import React, { useState } from 'react';
 import { Plus, Search, Filter, Eye, Edit, Pause, Play, Trash2, Clock, Users, CheckCircle, DollarSign } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
+import { useCampaign, useCampaignStats, useTalentsById } from '../../hooks/useAppData';
 import { Campaign, Talent, Founder } from '../../types';
 import CampaignCard from './CampaignCard';
 import CreateCampaignForm from './CreateCampaignForm';
 import EditCampaignForm from './EditCampaignForm';
 import CampaignDetailsModal from './CampaignDetailsModal';
 import CampaignApplicantsModal from './CampaignApplicantsModal';
-import { updateCampaign, deleteCampaign } from '../../lib/api';
+import { updateCampaign, deleteCampaign, listCampaigns } from '../../lib/api';
+import { summarizeDeliverables } from '../../lib/deliverables';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { invalidateQueries, runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
 
-const CampaignsPage: React.FC = () => {
+interface CampaignsPageProps {
+  // The modal open from `/campaigns/new` or `/campaigns/:id/...`, and the campaign it is for
+  modal?: 'create' | 'details' | 'edit' | 'applicants';
+  campaignId?: string;
+}
+
+const CampaignsPage: React.FC<CampaignsPageProps> = ({ modal, campaignId }) => {
   const { user } = useAuth();
-  const { campaigns, setCampaigns, talents, refreshData } = useApp();
-  const [showCreateForm, setShowCreateForm] = useState(false);
-  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
-  const [viewingCampaign, setViewingCampaign] = useState<Campaign | null>(null);
-  const [viewingApplicants, setViewingApplicants] = useState<Campaign | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [loading, setLoading] = useState(false);
+  const stats = useCampaignStats(user?.id);
 
-  // Filter campaigns for the current founder
-  const founderCampaigns = campaigns.filter(campaign => campaign.founderId === user?.id);
+  // The founder's own campaigns, one open from the URL included
+  const urlCampaign = useCampaign(campaignId);
+  const openCampaign = urlCampaign?.founderId === user?.id ? urlCampaign : null;
+  const showCreateForm = modal === 'create';
+  const editingCampaign = modal === 'edit' ? openCampaign : null;
+  const viewingCampaign = modal === 'details' ? openCampaign : null;
+  const viewingApplicants = modal === 'applicants' ? openCampaign : null;
+  const setShowCreateForm = (show: boolean) => navigate(show ? '/campaigns/new' : '/campaigns');
+  const setEditingCampaign = (campaign: Campaign | null) => navigate(campaign ? `/campaigns/${campaign.id}/edit` : '/campaigns');
+  const setViewingCampaign = (campaign: Campaign | null) => navigate(campaign ? `/campaigns/${campaign.id}` : '/campaigns');
+  const setViewingApplicants = (campaign: Campaign | null) => navigate(campaign ? `/campaigns/${campaign.id}/applicants` : '/campaigns');
 
-  // Apply search and status filters
-  const filteredCampaigns = founderCampaigns.filter(campaign => {
-    const matchesSearch = campaign.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         campaign.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || campaign.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  // Search and status filters run on the server, a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    founderId: user?.id,
+    status: statusFilter === 'all' ? undefined : statusFilter as Campaign['status'],
+  };
+  const campaignList = usePagedList(cursor => listCampaigns({ filters, cursor }), [...queryKeys.campaigns, 'page', filters], 'campaign');
+  const filteredCampaigns = campaignList.items;
+  const talents = useTalentsById(filteredCampaigns.flatMap(campaign => campaign.approvedTalents));
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -42,21 +63,23 @@ const CampaignsPage: React.FC = () => {
 
   const handleCreateSuccess = () => {
     setShowCreateForm(false);
-    refreshData();
+    invalidateQueries(queryKeys.campaigns);
   };
 
   const handleEditSuccess = () => {
     setEditingCampaign(null);
-    refreshData();
+    invalidateQueries(queryKeys.campaigns);
   };
 
 const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'paused') => {
   setLoading(true);
   try {
-    await updateCampaign(campaignId, { status: newStatus });
-    await refreshData();
+    await runMutation(() => updateCampaign(campaignId, { status: newStatus }), {
+      optimistic: () => updateEntity<Campaign>('campaign', campaignId, campaign => ({ ...campaign, status: newStatus })),
+      invalidates: [queryKeys.campaigns],
+    });
   } catch (error) {
-    alert('Failed to update campaign status. Please try again.');
+    toast.error('Failed to update campaign status. Please try again.');
     console.error(error);
   } finally {
     setLoading(false);
@@ -68,10 +91,10 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
 
   setLoading(true);
   try {
-    await deleteCampaign(campaignId);
-    await refreshData();
+    await runMutation(() => deleteCampaign(campaignId), { invalidates: [queryKeys.campaigns] });
+    setViewingCampaign(null);
   } catch (error) {
-    alert('Failed to delete campaign. Please try again.');
+    toast.error('Failed to delete campaign. Please try again.');
     console.error(error);
   } finally {
     setLoading(false);
@@ -110,18 +133,6 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
     }
   };
 
-  const getDurationLabel = (duration: string) => {
-    switch (duration) {
-      case '30sec':
-        return '30 Seconds';
-      case '1min':
-        return '1 Minute';
-      case '3min':
-        return '3 Minutes';
-      default:
-        return duration;
-    }
-  };
 
   return (
     <div className="space-y-6">
@@ -163,7 +174,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Active</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderCampaigns.filter(c => c.status === 'active').length}
+                {stats?.active ?? 0}
               </p>
             </div>
           </div>
@@ -177,7 +188,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Paused</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderCampaigns.filter(c => c.status === 'paused').length}
+                {stats?.paused ?? 0}
               </p>
             </div>
           </div>
@@ -191,7 +202,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Applicants</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderCampaigns.reduce((total, campaign) => total + campaign.applicants.length, 0)}
+                {stats?.applicants ?? 0}
               </p>
             </div>
           </div>
@@ -205,7 +216,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Value</p>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(founderCampaigns.reduce((total, campaign) => total + campaign.price, 0))}
+                {formatCurrency(stats?.totalPrice ?? 0)}
               </p>
             </div>
           </div>
@@ -276,7 +287,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
                       <span>Category: {campaign.category}</span>
                       <div className="flex items-center">
                         <Clock className="h-4 w-4 mr-1" />
-                        <span>Duration: {getDurationLabel(campaign.duration)}</span>
+                        <span>Content: {summarizeDeliverables(campaign.deliverables)}</span>
                       </div>
                       <span>Rate Level: {campaign.rateLevel} Star</span>
                       <div className="flex items-center">
@@ -377,6 +388,16 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
               </div>
             );
           })}
+          <LoadMore
+            hasMore={campaignList.hasMore}
+            loading={campaignList.loading}
+            onLoadMore={campaignList.loadMore}
+            summary={`Showing ${filteredCampaigns.length} of ${campaignList.total} campaigns`}
+          />
+        </div>
+      ) : campaignList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
@@ -424,10 +445,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
         <CampaignDetailsModal
           campaign={viewingCampaign}
           onClose={() => setViewingCampaign(null)}
-          onEdit={() => {
-            setEditingCampaign(viewingCampaign);
-            setViewingCampaign(null);
-          }}
+          onEdit={() => setEditingCampaign(viewingCampaign)}
           onDelete={() => handleDeleteCampaign(viewingCampaign.id)}
           onStatusChange={(status) => handleStatusChange(viewingCampaign.id, status)}
         />
@@ -439,7 +457,7 @@ const handleStatusChange = async (campaignId: string, newStatus: 'active' | 'pau
           campaignId={viewingApplicants.id}
           onClose={() => {
             setViewingApplicants(null);
-            refreshData(); // Refresh data when modal closes to ensure we have the latest state
+            invalidateQueries(queryKeys.campaigns); // Refetch when the modal closes to ensure we have the latest state
           }}
         />
       )}
@@ -1,10 +1,19 @@
 import React, { useState, useRef } from 'react';
 import { Upload, X, Plus, DollarSign, Info, AlertCircle, Camera, Video, Trash2 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Campaign, calculateCampaignPrice, Founder } from '../../types';
+import { useFeePolicy } from '../../hooks/useAppData';
+import { Campaign, CampaignDeliverable, MediaAsset, calculateCampaignPrice, calculateUsageRightsSurcharges, Founder, UsageRights, CAMPAIGN_CATEGORIES, DEFAULT_DELIVERABLE, DEFAULT_REVISION_ROUNDS, DEFAULT_USAGE_RIGHTS, MAX_REVISION_ROUNDS } from '../../types';
 import { supabase } from '../../lib/supabase';
-import { createCampaign, createTransaction, updateProfile } from '../../lib/api';
+import { useMediaUploads } from '../../hooks/useMediaUploads';
+import { createCampaign } from '../../lib/api';
+import { quotePlatformFee } from '../../lib/fees';
+import { summarizeDeliverables, validateDeliverables } from '../../lib/deliverables';
+import UsageRightsFields from './UsageRightsFields';
+import DeliverablesFields from './DeliverablesFields';
+import UploadProgress from '../Common/UploadProgress';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
 interface CreateCampaignFormProps {
   onClose: () => void;
@@ -13,7 +22,7 @@ interface CreateCampaignFormProps {
 
 const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSuccess }) => {
   const { user } = useAuth();
-  const { refreshData } = useApp();
+  const feePolicy = useFeePolicy();
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [formData, setFormData] = useState({
@@ -21,36 +30,19 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
     description: '',
     productName: '',
     category: '',
-    duration: '30sec' as '30sec' | '1min' | '3min',
     rateLevel: 1 as 1 | 2 | 3,
-    mediaType: 'both' as 'image' | 'video' | 'both',
+    maxRevisionRounds: DEFAULT_REVISION_ROUNDS,
   });
+  const [usageRights, setUsageRights] = useState<UsageRights>(DEFAULT_USAGE_RIGHTS);
+  const [deliverables, setDeliverables] = useState<Omit<CampaignDeliverable, 'id'>[]>([DEFAULT_DELIVERABLE]);
   const [productImages, setProductImages] = useState<string[]>([]);
+  // Deleted again if the form is closed without creating the campaign
+  const productUploads = useMediaUploads('campaign-media');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const founder = user as Founder;
 
-  const categories = [
-    'Technology',
-    'Fashion & Beauty',
-    'Food & Beverage',
-    'Health & Fitness',
-    'Travel & Lifestyle',
-    'Gaming',
-    'Education',
-    'Home & Garden',
-    'Sports',
-    'Entertainment',
-    'Business & Finance',
-    'Automotive',
-    'Other'
-  ];
-
-  const durationOptions = [
-    { value: '30sec', label: '30 Seconds' },
-    { value: '1min', label: '1 Minute' },
-    { value: '3min', label: '3 Minutes' }
-  ];
+  const categories = CAMPAIGN_CATEGORIES;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -60,14 +52,18 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
   };
 
   // Calculate price based on current selections
-  const currentPrice = calculateCampaignPrice(formData.rateLevel, formData.duration);
-  const hasInsufficientBalance = founder.walletBalance < currentPrice;
+  const basePrice = calculateCampaignPrice(formData.rateLevel, deliverables);
+  const rightsSurcharges = calculateUsageRightsSurcharges(basePrice, usageRights);
+  const currentPrice = calculateCampaignPrice(formData.rateLevel, deliverables, usageRights);
+  const feeQuote = feePolicy ? quotePlatformFee(feePolicy, currentPrice, formData.category, formData.rateLevel) : null;
+  const totalCost = feeQuote ? feeQuote.founderPays : currentPrice;
+  const hasInsufficientBalance = founder.walletBalance < totalCost;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'rateLevel' ? Number(value) : value
+      [name]: name === 'rateLevel' || name === 'maxRevisionRounds' ? Number(value) : value
     }));
   };
 
@@ -75,6 +71,12 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
     fileInputRef.current?.click();
   };
 
+  const addProductImage = (asset: MediaAsset | null) => {
+    if (asset) {
+      setProductImages(prev => [...prev, asset.url]);
+    }
+  };
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
@@ -85,8 +87,6 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
       const { data: { user: authUser } } = await supabase.auth.getUser();
       if (!authUser) throw new Error('User not authenticated');
 
-      const uploadedUrls = [];
-
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         
@@ -105,27 +105,9 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
         const fileExt = file.name.split('.').pop();
         const fileName = `${authUser.id}/campaign-new-${Date.now()}-${i}.${fileExt}`;
         
-        const { data, error } = await supabase.storage
-          .from('campaign-media')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: true
-          });
-
-        if (error) {
-          console.error('Error uploading file:', error);
-          continue;
-        }
-
-        const { data: publicUrlData } = supabase.storage
-          .from('campaign-media')
-          .getPublicUrl(data.path);
-
-        uploadedUrls.push(publicUrlData.publicUrl);
+        // Paused and failed files stay in the upload list until they are resumed or removed
+        addProductImage(await productUploads.upload(fileName, file, fileName));
       }
-
-      // Add new images to product images
-      setProductImages(prev => [...prev, ...uploadedUrls]);
       
       // Clear file input
       if (fileInputRef.current) {
@@ -133,7 +115,7 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
       }
     } catch (error) {
       console.error('Error uploading files:', error);
-      alert('Failed to upload some files. Please try again.');
+      toast.error('Failed to upload some files. Please try again.');
     } finally {
       setUploading(false);
     }
@@ -141,25 +123,11 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
 
   const removeImage = async (index: number) => {
     try {
-      const imageUrl = productImages[index];
-      
-      // Extract file path from URL
-      const url = new URL(imageUrl);
-      const pathMatch = url.pathname.match(/\/campaign-media\/(.+)$/);
-      
-      if (pathMatch && pathMatch[1]) {
-        const filePath = decodeURIComponent(pathMatch[1]);
-        
-        // Delete from storage
-        const { error } = await supabase.storage
-          .from('campaign-media')
-          .remove([filePath]);
-          
-        if (error) {
-          console.error('Error removing file from storage:', error);
-        }
+      const upload = productUploads.uploads.find(item => item.asset?.url === productImages[index]);
+      if (upload) {
+        await productUploads.remove(upload.id);
       }
-      
+
       // Remove from state
       setProductImages(prev => prev.filter((_, i) => i !== index));
     } catch (error) {
@@ -171,9 +139,15 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
     e.preventDefault();
     if (!user) return;
 
+    const invalidDeliverables = validateDeliverables(deliverables);
+    if (invalidDeliverables) {
+      toast.error(invalidDeliverables);
+      return;
+    }
+
     // Check wallet balance before creating campaign
     if (hasInsufficientBalance) {
-      alert(`Insufficient wallet balance. You need ${formatCurrency(currentPrice)} but only have ${formatCurrency(founder.walletBalance)}. Please top up your wallet first.`);
+      toast.error(`Insufficient wallet balance. You need ${formatCurrency(totalCost)} but only have ${formatCurrency(founder.walletBalance)}. Please top up your wallet first.`);
       return;
     }
 
@@ -186,28 +160,38 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
         description: formData.description,
         productName: formData.productName,
         category: formData.category,
-        duration: formData.duration,
+        // Placeholders until save_campaign_deliverables summarises the deliverables
+        duration: '30sec' as const,
         productImages: productImages,
         rateLevel: formData.rateLevel,
-        mediaType: formData.mediaType,
+        mediaType: 'both' as const,
+        maxRevisionRounds: formData.maxRevisionRounds,
+        usageRights,
+        deliverables,
         budget: 0,
         price: currentPrice,
         status: 'active' as const,
       };
 
       await createCampaign(campaignData);
+      productUploads.keep();
 
       
-      await refreshData();
+      await invalidateQueries(queryKeys.campaigns);
       onSuccess();
     } catch (error) {
       console.error('Error creating campaign:', error);
-      alert('Failed to create campaign. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to create campaign. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleClose = () => {
+    productUploads.discard();
+    onClose();
+  };
+
   const isVideoUrl = (url: string) => {
     return url.includes('.mp4') || url.includes('.mov') || url.includes('.webm') || 
            url.includes('video') || url.endsWith('.mp4');
@@ -219,7 +203,7 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h2 className="text-xl font-semibold text-gray-900">Create New Campaign</h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             <X className="h-6 w-6" />
@@ -235,7 +219,7 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
                 <div>
                   <h4 className="font-medium text-red-800">Insufficient Wallet Balance</h4>
                   <p className="text-sm text-red-700 mt-1">
-                    You need {formatCurrency(currentPrice)} but only have {formatCurrency(founder.walletBalance)}. 
+                    You need {formatCurrency(totalCost)} but only have {formatCurrency(founder.walletBalance)}. 
                     Please top up your wallet before creating this campaign.
                   </p>
                 </div>
@@ -312,25 +296,6 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
                 ))}
               </select>
             </div>
-
-            <div>
-              <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-2">
-                Content Duration *
-              </label>
-              <select
-                id="duration"
-                name="duration"
-                value={formData.duration}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                {durationOptions.map((option) => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
-              </select>
-            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -352,23 +317,30 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
             </div>
 
             <div>
-              <label htmlFor="mediaType" className="block text-sm font-medium text-gray-700 mb-2">
-                Media Type *
+              <label htmlFor="maxRevisionRounds" className="block text-sm font-medium text-gray-700 mb-2">
+                Revision Rounds
               </label>
               <select
-                id="mediaType"
-                name="mediaType"
-                value={formData.mediaType}
+                id="maxRevisionRounds"
+                name="maxRevisionRounds"
+                value={formData.maxRevisionRounds}
                 onChange={handleInputChange}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="image">Image Only</option>
-                <option value="video">Video Only</option>
-                <option value="both">Both Image & Video</option>
+                {Array.from({ length: MAX_REVISION_ROUNDS + 1 }, (_, rounds) => (
+                  <option key={rounds} value={rounds}>
+                    {rounds === 0 ? 'No revisions' : `Up to ${rounds} revision${rounds > 1 ? 's' : ''}`}
+                  </option>
+                ))}
               </select>
+              <p className="text-xs text-gray-500 mt-1">How many times you can send a submission back for changes</p>
             </div>
           </div>
 
+          <DeliverablesFields value={deliverables} onChange={setDeliverables} rateLevel={formData.rateLevel} />
+
+          <UsageRightsFields value={usageRights} onChange={setUsageRights} />
+
           {/* Pricing Display */}
           <div className={`rounded-lg p-4 border ${hasInsufficientBalance ? 'bg-red-50 border-red-200' : 'bg-gradient-to-r from-green-50 to-blue-50 border-green-200'}`}>
             <div className="flex items-center justify-between">
@@ -379,8 +351,16 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
                 </div>
                 <p className={`text-3xl font-bold ${hasInsufficientBalance ? 'text-red-800' : 'text-green-800'}`}>{formatCurrency(currentPrice)}</p>
                 <p className={`text-sm ${hasInsufficientBalance ? 'text-red-700' : 'text-green-700'}`}>
-                  {formData.rateLevel} Star Level • {durationOptions.find(d => d.value === formData.duration)?.label}
+                  {formData.rateLevel} Star Level • {summarizeDeliverables(deliverables)}
                 </p>
+                {rightsSurcharges.length > 0 && (
+                  <div className={`mt-2 space-y-0.5 text-xs ${hasInsufficientBalance ? 'text-red-700' : 'text-green-700'}`}>
+                    <p>Content: {formatCurrency(basePrice)}</p>
+                    {rightsSurcharges.map(surcharge => (
+                      <p key={surcharge.label}>+ {surcharge.label}: {formatCurrency(surcharge.amount)}</p>
+                    ))}
+                  </div>
+                )}
               </div>
               <div className={`p-3 rounded-full ${hasInsufficientBalance ? 'bg-red-500' : 'bg-green-500'}`}>
                 <DollarSign className="h-6 w-6 text-white" />
@@ -401,10 +381,16 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
                       <span>Campaign Cost:</span>
                       <span className="font-medium">{formatCurrency(currentPrice)}</span>
                     </div>
+                    {feeQuote && feeQuote.fee > 0 && (
+                      <div className="flex justify-between">
+                        <span>Platform Fee{feeQuote.chargedTo === 'talent' ? ' (paid by talent)' : ''}:</span>
+                        <span className="font-medium">{formatCurrency(feeQuote.fee)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between border-t border-blue-200 pt-1">
                       <span>Remaining Balance:</span>
                       <span className={`font-medium ${hasInsufficientBalance ? 'text-red-600' : 'text-green-600'}`}>
-                        {formatCurrency(Math.max(0, founder.walletBalance - currentPrice))}
+                        {formatCurrency(Math.max(0, founder.walletBalance - totalCost))}
                       </span>
                     </div>
                   </div>
@@ -439,10 +425,17 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
                 </label>
               </div>
 
-              {uploading && (
-                <div className="text-center py-4">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
-                  <p className="mt-2 text-sm text-gray-600">Uploading media...</p>
+              {productUploads.uploads.some(upload => upload.status !== 'done') && (
+                <div className="space-y-3">
+                  {productUploads.uploads.filter(upload => upload.status !== 'done').map(upload => (
+                    <UploadProgress
+                      key={upload.id}
+                      upload={upload}
+                      onPause={() => productUploads.pause(upload.id)}
+                      onResume={() => productUploads.resume(upload.id).then(addProductImage)}
+                      onRemove={() => productUploads.remove(upload.id)}
+                    />
+                  ))}
                 </div>
               )}
 
@@ -487,14 +480,14 @@ const CreateCampaignForm: React.FC<CreateCampaignFormProps> = ({ onClose, onSucc
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
               type="button"
-              onClick={onClose}
+              onClick={handleClose}
               className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
             >
               Cancel
             </button>
             <button
               type="submit"
-              disabled={loading || uploading || hasInsufficientBalance}
+              disabled={loading || uploading || productUploads.uploads.some(upload => upload.status === 'uploading' || upload.status === 'processing') || hasInsufficientBalance}
               className="px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Creating...' : hasInsufficientBalance ? 'Insufficient Balance' : `Create Campaign - ${formatCurrency(currentPrice)}`}
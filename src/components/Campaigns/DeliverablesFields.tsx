@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  CampaignDeliverable,
+  DeliverableKind,
+  ContentDuration,
+  ASPECT_RATIOS,
+  CONTENT_DURATIONS,
+  DEFAULT_DELIVERABLE,
+  DELIVERABLE_KINDS,
+  DELIVERABLE_PLATFORMS,
+  MAX_DELIVERABLE_QUANTITY,
+  MIN_RESOLUTIONS,
+  calculateDeliverablePrice,
+} from '../../types';
+import { parseRequiredTags } from '../../lib/deliverables';
+
+type DeliverableSpec = Omit<CampaignDeliverable, 'id'>;
+
+interface DeliverablesFieldsProps {
+  value: DeliverableSpec[];
+  onChange: (value: DeliverableSpec[]) => void;
+  rateLevel: 1 | 2 | 3;
+  // Once a talent is approved the deliverables are part of their order
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm disabled:bg-gray-50';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency: 'MYR',
+  }).format(amount);
+};
+
+// Tags are parsed when the field loses focus, so spaces can be typed between them
+const RequiredTagsInput: React.FC<{ id: string; tags: string[]; disabled?: boolean; onChange: (tags: string[]) => void }> = ({ id, tags, disabled, onChange }) => {
+  const [draft, setDraft] = useState(tags.join(' '));
+
+  return (
+    <input
+      id={id}
+      value={draft}
+      disabled={disabled}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={() => {
+        const parsed = parseRequiredTags(draft);
+        setDraft(parsed.join(' '));
+        onChange(parsed);
+      }}
+      className={inputClass}
+      placeholder="#brandname @brand"
+    />
+  );
+};
+
+// Deliverables section shared by the create and edit campaign forms
+const DeliverablesFields: React.FC<DeliverablesFieldsProps> = ({ value, onChange, rateLevel, disabled }) => {
+  const update = (index: number, changes: Partial<DeliverableSpec>) =>
+    onChange(value.map((deliverable, i) => (i === index ? { ...deliverable, ...changes } : deliverable)));
+
+  const handleKindChange = (index: number, kind: DeliverableKind) => {
+    // Only videos have a length
+    update(index, { kind, duration: kind === 'video' ? value[index].duration || '30sec' : undefined });
+  };
+
+  const addDeliverable = () => onChange([...value, { ...DEFAULT_DELIVERABLE, requiredTags: [] }]);
+
+  const removeDeliverable = (index: number) => onChange(value.filter((_, i) => i !== index));
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="font-medium text-gray-900">Deliverables</h4>
+          <p className="text-xs text-gray-500">
+            {disabled
+              ? 'Deliverables are locked once a talent has been approved.'
+              : 'Everything each approved talent must deliver. The content price is the sum of these.'}
+          </p>
+        </div>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={addDeliverable}
+            className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </button>
+        )}
+      </div>
+
+      {value.map((deliverable, index) => (
+        <div key={index} className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium text-gray-700">
+              Deliverable {index + 1}
+              <span className="ml-2 font-normal text-gray-500">{formatCurrency(calculateDeliverablePrice(rateLevel, deliverable))}</span>
+            </p>
+            {!disabled && value.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeDeliverable(index)}
+                className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                title="Remove deliverable"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label htmlFor={`deliverable-${index}-kind`} className="block text-xs font-medium text-gray-700 mb-1">Type</label>
+              <select
+                id={`deliverable-${index}-kind`}
+                value={deliverable.kind}
+                disabled={disabled}
+                onChange={e => handleKindChange(index, e.target.value as DeliverableKind)}
+                className={inputClass}
+              >
+                {DELIVERABLE_KINDS.map(kind => (
+                  <option key={kind.value} value={kind.value}>{kind.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-platform`} className="block text-xs font-medium text-gray-700 mb-1">Platform</label>
+              <select
+                id={`deliverable-${index}-platform`}
+                value={deliverable.platform}
+                disabled={disabled}
+                onChange={e => update(index, { platform: e.target.value })}
+                className={inputClass}
+              >
+                {DELIVERABLE_PLATFORMS.map(platform => (
+                  <option key={platform} value={platform}>{platform}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-quantity`} className="block text-xs font-medium text-gray-700 mb-1">Quantity</label>
+              <input
+                id={`deliverable-${index}-quantity`}
+                type="number"
+                min={1}
+                max={MAX_DELIVERABLE_QUANTITY}
+                value={deliverable.quantity}
+                disabled={disabled}
+                onChange={e => update(index, { quantity: Math.min(MAX_DELIVERABLE_QUANTITY, Math.max(1, Number(e.target.value) || 1)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-duration`} className="block text-xs font-medium text-gray-700 mb-1">Length</label>
+              <select
+                id={`deliverable-${index}-duration`}
+                value={deliverable.duration || ''}
+                disabled={disabled || deliverable.kind !== 'video'}
+                onChange={e => update(index, { duration: e.target.value as ContentDuration })}
+                className={inputClass}
+              >
+                {deliverable.kind !== 'video' && <option value="">-</option>}
+                {CONTENT_DURATIONS.map(duration => (
+                  <option key={duration.value} value={duration.value}>{duration.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label htmlFor={`deliverable-${index}-aspect`} className="block text-xs font-medium text-gray-700 mb-1">Aspect ratio</label>
+              <select
+                id={`deliverable-${index}-aspect`}
+                value={deliverable.aspectRatio || ''}
+                disabled={disabled}
+                onChange={e => update(index, { aspectRatio: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {ASPECT_RATIOS.map(ratio => (
+                  <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-resolution`} className="block text-xs font-medium text-gray-700 mb-1">Minimum resolution</label>
+              <select
+                id={`deliverable-${index}-resolution`}
+                value={deliverable.minResolution || ''}
+                disabled={disabled}
+                onChange={e => update(index, { minResolution: Number(e.target.value) || undefined })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {MIN_RESOLUTIONS.map(resolution => (
+                  <option key={resolution} value={resolution}>{resolution}p</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-tags`} className="block text-xs font-medium text-gray-700 mb-1">Required hashtags & mentions</label>
+              <RequiredTagsInput
+                key={deliverable.requiredTags.join(' ')}
+                id={`deliverable-${index}-tags`}
+                tags={deliverable.requiredTags}
+                disabled={disabled}
+                onChange={requiredTags => update(index, { requiredTags })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label htmlFor={`deliverable-${index}-dos`} className="block text-xs font-medium text-gray-700 mb-1">Do</label>
+              <textarea
+                id={`deliverable-${index}-dos`}
+                rows={2}
+                value={deliverable.dos || ''}
+                disabled={disabled}
+                onChange={e => update(index, { dos: e.target.value })}
+                className={inputClass}
+                placeholder="Show the product in natural light..."
+              />
+            </div>
+            <div>
+              <label htmlFor={`deliverable-${index}-donts`} className="block text-xs font-medium text-gray-700 mb-1">Don't</label>
+              <textarea
+                id={`deliverable-${index}-donts`}
+                rows={2}
+                value={deliverable.donts || ''}
+                disabled={disabled}
+                onChange={e => update(index, { donts: e.target.value })}
+                className={inputClass}
+                placeholder="Mention competitor brands..."
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DeliverablesFields;
@@ -1,10 +1,16 @@
 import React, { useState, useRef } from 'react';
 import { Upload, X, Save, Camera, Video, Trash2 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Campaign } from '../../types';
-import { updateCampaign } from '../../lib/api';
+import { Campaign, CampaignDeliverable, UsageRights, calculateCampaignPrice, CAMPAIGN_CATEGORIES, MAX_REVISION_ROUNDS } from '../../types';
+import { convertUsageRightsToDb, saveCampaignDeliverables, updateCampaign } from '../../lib/api';
 import { supabase } from '../../lib/supabase';
+import { removeMedia, uploadMedia } from '../../lib/mediaAssets';
+import { validateDeliverables } from '../../lib/deliverables';
+import UsageRightsFields from './UsageRightsFields';
+import DeliverablesFields from './DeliverablesFields';
+import { toast } from '../../lib/toast';
+import { invalidateQueries, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
 interface EditCampaignFormProps {
   campaign: Campaign;
@@ -14,7 +20,6 @@ interface EditCampaignFormProps {
 
 const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose, onSuccess }) => {
   const { user } = useAuth();
-  const { campaigns, setCampaigns } = useApp();
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [formData, setFormData] = useState({
@@ -22,40 +27,33 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
     description: campaign.description,
     productName: campaign.productName,
     category: campaign.category,
-    duration: campaign.duration,
     rateLevel: campaign.rateLevel,
-    mediaType: campaign.mediaType,
+    maxRevisionRounds: campaign.maxRevisionRounds,
   });
+  const [usageRights, setUsageRights] = useState<UsageRights>(campaign.usageRights);
+  const [deliverables, setDeliverables] = useState<Omit<CampaignDeliverable, 'id'>[]>(campaign.deliverables);
   const [productImages, setProductImages] = useState<string[]>(campaign.productImages);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const categories = [
-    'Technology',
-    'Fashion & Beauty',
-    'Food & Beverage',
-    'Health & Fitness',
-    'Travel & Lifestyle',
-    'Gaming',
-    'Education',
-    'Home & Garden',
-    'Sports',
-    'Entertainment',
-    'Business & Finance',
-    'Automotive',
-    'Other'
-  ];
-
-  const durationOptions = [
-    { value: '30sec', label: '30 Seconds' },
-    { value: '1min', label: '1 Minute' },
-    { value: '3min', label: '3 Minutes' }
-  ];
+  const categories = CAMPAIGN_CATEGORIES;
+
+  // Approved talents were priced on the deliverables as they were
+  const deliverablesLocked = campaign.approvedTalents.length > 0;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ms-MY', {
+      style: 'currency',
+      currency: 'MYR',
+    }).format(amount);
+  };
+
+  const currentPrice = calculateCampaignPrice(formData.rateLevel, deliverables, usageRights);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name === 'rateLevel' ? Number(value) : value
+      [name]: name === 'rateLevel' || name === 'maxRevisionRounds' ? Number(value) : value
     }));
   };
 
@@ -93,23 +91,12 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
         const fileExt = file.name.split('.').pop();
         const fileName = `${authUser.id}/campaign-${campaign.id}-${Date.now()}-${i}.${fileExt}`;
         
-        const { data, error } = await supabase.storage
-          .from('campaign-media')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: true
-          });
-
-        if (error) {
+        try {
+          const asset = await uploadMedia(file, 'campaign-media', fileName);
+          uploadedUrls.push(asset.url);
+        } catch (error) {
           console.error('Error uploading file:', error);
-          continue;
         }
-
-        const { data: publicUrlData } = supabase.storage
-          .from('campaign-media')
-          .getPublicUrl(data.path);
-
-        uploadedUrls.push(publicUrlData.publicUrl);
       }
 
       // Add new images to product images
@@ -121,7 +108,7 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
       }
     } catch (error) {
       console.error('Error uploading files:', error);
-      alert('Failed to upload some files. Please try again.');
+      toast.error('Failed to upload some files. Please try again.');
     } finally {
       setUploading(false);
     }
@@ -129,25 +116,8 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
 
   const removeImage = async (index: number) => {
     try {
-      const imageUrl = productImages[index];
-      
-      // Extract file path from URL
-      const url = new URL(imageUrl);
-      const pathMatch = url.pathname.match(/\/campaign-media\/(.+)$/);
-      
-      if (pathMatch && pathMatch[1]) {
-        const filePath = decodeURIComponent(pathMatch[1]);
-        
-        // Delete from storage
-        const { error } = await supabase.storage
-          .from('campaign-media')
-          .remove([filePath]);
-          
-        if (error) {
-          console.error('Error removing file from storage:', error);
-        }
-      }
-      
+      await removeMedia('campaign-media', productImages[index]);
+
       // Remove from state
       setProductImages(prev => prev.filter((_, i) => i !== index));
     } catch (error) {
@@ -159,6 +129,12 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
     e.preventDefault();
     if (!user) return;
 
+    const invalidDeliverables = validateDeliverables(deliverables);
+    if (invalidDeliverables) {
+      toast.error(invalidDeliverables);
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -168,31 +144,42 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
         description: formData.description,
         productName: formData.productName,
         category: formData.category,
-        duration: formData.duration,
         productImages: productImages,
         rateLevel: formData.rateLevel,
-        mediaType: formData.mediaType,
+        maxRevisionRounds: formData.maxRevisionRounds,
+        usageRights,
+        price: currentPrice,
       };
 
+      if (!deliverablesLocked) {
+        await saveCampaignDeliverables(campaign.id, deliverables);
+      }
+
       // Update campaign in database
       await updateCampaign(campaign.id, {
         title: formData.title,
         description: formData.description,
         product_name: formData.productName,
         category: formData.category,
-        duration: formData.duration,
         product_images: productImages,
         rate_level: formData.rateLevel,
-        media_type: formData.mediaType,
+        max_revision_rounds: formData.maxRevisionRounds,
+        usage_rights: convertUsageRightsToDb(usageRights),
+        price: currentPrice,
       });
 
       // Update campaigns list
-      setCampaigns(campaigns.map(c => c.id === campaign.id ? updatedCampaign : c));
+      updateEntity<Campaign>('campaign', campaign.id, () => updatedCampaign);
+
+      // Saved deliverables are new rows, so fetch them again
+      if (!deliverablesLocked) {
+        await invalidateQueries(queryKeys.campaigns);
+      }
       
       onSuccess();
     } catch (error) {
       console.error('Error updating campaign:', error);
-      alert('Failed to update campaign. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to update campaign. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -286,25 +273,6 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
                 ))}
               </select>
             </div>
-
-            <div>
-              <label htmlFor="duration" className="block text-sm font-medium text-gray-700 mb-2">
-                Content Duration *
-              </label>
-              <select
-                id="duration"
-                name="duration"
-                value={formData.duration}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              >
-                {durationOptions.map((option) => (
-                  <option key={option.value} value={option.value}>
-                    {option.label}
-                  </option>
-                ))}
-              </select>
-            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -326,23 +294,39 @@ const EditCampaignForm: React.FC<EditCampaignFormProps> = ({ campaign, onClose,
             </div>
 
             <div>
-              <label htmlFor="mediaType" className="block text-sm font-medium text-gray-700 mb-2">
-                Media Type *
+              <label htmlFor="maxRevisionRounds" className="block text-sm font-medium text-gray-700 mb-2">
+                Revision Rounds
               </label>
               <select
-                id="mediaType"
-                name="mediaType"
-                value={formData.mediaType}
+                id="maxRevisionRounds"
+                name="maxRevisionRounds"
+                value={formData.maxRevisionRounds}
                 onChange={handleInputChange}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="image">Image Only</option>
-                <option value="video">Video Only</option>
-                <option value="both">Both Image & Video</option>
+                {Array.from({ length: MAX_REVISION_ROUNDS + 1 }, (_, rounds) => (
+                  <option key={rounds} value={rounds}>
+                    {rounds === 0 ? 'No revisions' : `Up to ${rounds} revision${rounds > 1 ? 's' : ''}`}
+                  </option>
+                ))}
               </select>
+              <p className="text-xs text-gray-500 mt-1">How many times you can send a submission back for changes</p>
             </div>
           </div>
 
+          <DeliverablesFields
+            value={deliverables}
+            onChange={setDeliverables}
+            rateLevel={formData.rateLevel}
+            disabled={deliverablesLocked}
+          />
+
+          <UsageRightsFields value={usageRights} onChange={setUsageRights} />
+          <p className="text-sm text-gray-600 -mt-3">
+            Campaign price: <span className="font-semibold text-gray-900">{formatCurrency(currentPrice)}</span>.
+            Changes apply to talents you approve from now on; existing orders keep the terms they were created with.
+          </p>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Product Images & Videos
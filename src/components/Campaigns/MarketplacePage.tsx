@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
 import { Search, Filter, Star, Megaphone, CheckCircle, AlertCircle, Lock } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
+import { useApplicationCounts, useCampaign } from '../../hooks/useAppData';
 import { useAuth } from '../../context/AuthContext';
 import CampaignCard from './CampaignCard';
-import { Talent } from '../../types';
-import { applyCampaign } from '../../lib/api';
+import { Campaign, Talent } from '../../types';
+import { applyCampaign, listCampaigns } from '../../lib/api';
 import CampaignDetailsModal from './CampaignDetailsModal'; 
+import ApplyCampaignModal from './ApplyCampaignModal';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
 
-const MarketplacePage: React.FC = () => {
-  const { campaigns, refreshData, talents } = useApp();
+interface MarketplacePageProps {
+  // The campaign open from `/marketplace/:id` or `/marketplace/:id/apply`, and which of its modals
+  campaignId?: string;
+  modal?: 'details' | 'apply';
+}
+
+const MarketplacePage: React.FC<MarketplacePageProps> = ({ campaignId, modal }) => {
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRateLevel, setSelectedRateLevel] = useState<number | null>(null);
@@ -16,12 +29,33 @@ const MarketplacePage: React.FC = () => {
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const [appliedCampaignTitle, setAppliedCampaignTitle] = useState('');
   const [loading, setLoading] = useState<Set<string>>(new Set());
-  const [viewingCampaignDetails, setViewingCampaignDetails] = useState(null);
+
+  const openCampaign = useCampaign(campaignId);
+  const applications = useApplicationCounts();
+  const viewingCampaignDetails = modal === 'details' ? openCampaign : null;
+  const applyingCampaign = modal === 'apply' ? openCampaign : null;
+  const setViewingCampaignDetails = (campaign: Campaign | null) =>
+    navigate(campaign ? `/marketplace/${campaign.id}` : '/marketplace');
+  const setApplyingCampaign = (campaign: Campaign | null) =>
+    navigate(campaign ? `/marketplace/${campaign.id}/apply` : '/marketplace');
   
   const talent = user as Talent;
   const userRateLevel = talent?.rateLevel || 1;
   const isApproved = talent?.status === 'active';
 
+  // Active campaigns up to the talent's rate level that they have not applied to, searched and
+  // filtered on the server a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    status: 'active' as const,
+    category: selectedCategory || undefined,
+    rateLevel: selectedRateLevel || undefined,
+    maxRateLevel: userRateLevel,
+    notAppliedBy: user?.id,
+  };
+  const campaignList = usePagedList(cursor => listCampaigns({ filters, cursor }), [...queryKeys.campaigns, 'page', filters], 'campaign');
+
   const rateOptions = [];
   for (let i = 1; i <= userRateLevel; i++) {
     rateOptions.push(i);
@@ -103,37 +137,25 @@ const MarketplacePage: React.FC = () => {
     );
   }
 
-  // Filter campaigns based on talent's rate level and search term
-  const filteredCampaigns = campaigns.filter(campaign => {
-    const matchesSearch = campaign.title.toLowerCase().includes(searchTerm.toLowerCase()) ||               campaign.description.toLowerCase().includes(searchTerm.toLowerCase()) ||          campaign.productName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-       campaign.category.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesRateLevel = selectedRateLevel ? campaign.rateLevel === selectedRateLevel : campaign.rateLevel <= userRateLevel;
-    const matchesCategory = selectedCategory ? campaign.category === selectedCategory : true;
-    const isActive = campaign.status === 'active';
-    const notAlreadyApplied = !campaign.applicants.includes(user?.id || '');
-    const notAlreadyApproved = !campaign.approvedTalents.includes(user?.id || '');
-    
-    return matchesSearch && matchesRateLevel && matchesCategory && isActive && notAlreadyApplied && notAlreadyApproved;
-  });
+  const filteredCampaigns = campaignList.items;
 
-  const handleApply = async (campaignId: string) => {
+  const handleApply = async (campaignId: string, addressId: string) => {
     if (!user) return;
 
     setLoading(prev => new Set(prev).add(campaignId));
     try {
       
       // Apply to campaign via API
-      await applyCampaign(campaignId, user.id);
+      await applyCampaign(campaignId, user.id, addressId);
+      setApplyingCampaign(null);
       
       // Find campaign title for success message
-      const campaign = campaigns.find(c => c.id === campaignId);
-      if (campaign) {
-        setAppliedCampaignTitle(campaign.title);
+      if (openCampaign?.id === campaignId) {
+        setAppliedCampaignTitle(openCampaign.title);
       }
 
-      // Refresh data to update UI
-      await refreshData();
+      // Refetch the campaigns, paged list included; the campaign leaves the list now it has been applied to
+      await invalidateQueries(queryKeys.campaigns);
       
       setShowSuccessMessage(true);
       
@@ -143,7 +165,7 @@ const MarketplacePage: React.FC = () => {
       }, 3000);
     } catch (error) {
       console.error('Error applying to campaign:', error);
-      alert('Failed to apply to campaign. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to apply to campaign. Please try again.');
     } finally {
       setLoading(prev => {
       const newSet = new Set(prev);
@@ -153,14 +175,6 @@ const MarketplacePage: React.FC = () => {
     }
   };
 
-  const appliedCampaigns = campaigns.filter(campaign => 
-    campaign.applicants.includes(user?.id || '')
-  );
-
-  const approvedCampaigns = campaigns.filter(campaign => 
-    campaign.approvedTalents.includes(user?.id || '')
-  );
-
   return (
     <div className="space-y-6">
       <div>
@@ -201,18 +215,18 @@ const MarketplacePage: React.FC = () => {
       </div>
 
       {/* Applied Campaigns Summary */}
-      {(appliedCampaigns.length > 0 || approvedCampaigns.length > 0) && (
+      {(applications.applied > 0 || applications.approved > 0) && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-center space-x-3">
             <AlertCircle className="h-5 w-5 text-blue-600" />
             <div>
               <p className="text-blue-800 font-medium">Your Applications</p>
               <p className="text-blue-700 text-sm">
-                {appliedCampaigns.length > 0 && (
-                  <span>You have applied to {appliedCampaigns.length} campaign{appliedCampaigns.length !== 1 ? 's' : ''}. </span>
+                {applications.applied > 0 && (
+                  <span>You have applied to {applications.applied} campaign{applications.applied !== 1 ? 's' : ''}. </span>
                 )}
-                {approvedCampaigns.length > 0 && (
-                  <span>You have been approved for {approvedCampaigns.length} campaign{approvedCampaigns.length !== 1 ? 's' : ''}. </span>
+                {applications.approved > 0 && (
+                  <span>You have been approved for {applications.approved} campaign{applications.approved !== 1 ? 's' : ''}. </span>
                 )}
                 Check your dashboard for updates.
               </p>
@@ -271,7 +285,7 @@ const MarketplacePage: React.FC = () => {
             </div>
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Available Campaigns</p>
-              <p className="text-xl font-bold text-gray-900">{filteredCampaigns.length}</p>
+              <p className="text-xl font-bold text-gray-900">{campaignList.total}</p>
             </div>
           </div>
         </div>
@@ -283,7 +297,7 @@ const MarketplacePage: React.FC = () => {
             </div>
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Your Applications</p>
-              <p className="text-xl font-bold text-gray-900">{appliedCampaigns.length}</p>
+              <p className="text-xl font-bold text-gray-900">{applications.applied}</p>
             </div>
           </div>
         </div>
@@ -308,12 +322,16 @@ const MarketplacePage: React.FC = () => {
             <CampaignCard
               key={campaign.id}
               campaign={campaign}
-              onApply={() => handleApply(campaign.id)}
+              onApply={() => setApplyingCampaign(campaign)}
               showApplyButton={true}
               loading={() => loading.has(campaign.id)}
               onView={() => setViewingCampaignDetails(campaign)}
             />
           ))
+        ) : campaignList.loading ? (
+          <div className="col-span-full flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
         ) : (
           <div className="col-span-full text-center py-12">
             <div className="text-gray-500">
@@ -330,6 +348,19 @@ const MarketplacePage: React.FC = () => {
         )}
       </div>
 
+      {filteredCampaigns.length > 0 && (
+        <LoadMore hasMore={campaignList.hasMore} loading={campaignList.loading} onLoadMore={campaignList.loadMore} />
+      )}
+
+      {applyingCampaign && user && (
+        <ApplyCampaignModal
+          campaign={applyingCampaign}
+          talentId={user.id}
+          onClose={() => setApplyingCampaign(null)}
+          onApply={addressId => handleApply(applyingCampaign.id, addressId)}
+        />
+      )}
+
       {viewingCampaignDetails && (
         <CampaignDetailsModal
           campaign={viewingCampaignDetails}
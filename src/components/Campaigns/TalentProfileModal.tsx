@@ -1,6 +1,7 @@
 import React from 'react';
 import { X, Star, Instagram, Youtube, Video, Camera, Award, Calendar, DollarSign, ExternalLink, Play } from 'lucide-react';
 import { Talent } from '../../types';
+import MediaThumbnail from '../Common/MediaThumbnail';
 
 interface TalentProfileModalProps {
   talent: Talent;
@@ -189,8 +190,10 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({
                   <div key={index} className="relative group">
                     {isVideoUrl(item) ? (
                       <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden relative">
-                        <video
-                          src={item}
+                        <MediaThumbnail
+                          url={item}
+                          type="video"
+                          alt={`Portfolio ${index + 1}`}
                           className="w-full h-full object-cover"
                           controls
                         />
@@ -200,8 +203,9 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({
                       </div>
                     ) : (
                       <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden">
-                        <img
-                          src={item}
+                        <MediaThumbnail
+                          url={item}
+                          type="image"
                           alt={`Portfolio ${index + 1}`}
                           className="w-full h-full object-cover"
                         />
@@ -0,0 +1,127 @@
+import React from 'react';
+import { UsageRights, USAGE_RIGHTS_DURATIONS, USAGE_RIGHTS_PRICING, USAGE_TERRITORIES } from '../../types';
+
+interface UsageRightsFieldsProps {
+  value: UsageRights;
+  onChange: (value: UsageRights) => void;
+}
+
+const formatSurcharge = (rate: number) => (rate > 0 ? ` (+${Math.round(rate * 100)}%)` : '');
+
+// License terms section shared by the create and edit campaign forms
+const UsageRightsFields: React.FC<UsageRightsFieldsProps> = ({ value, onChange }) => {
+  const update = (changes: Partial<UsageRights>) => onChange({ ...value, ...changes });
+
+  const toggleTerritory = (territory: string) => {
+    let territories: string[];
+    if (territory === 'Worldwide') {
+      territories = value.territories.includes('Worldwide') ? ['Malaysia'] : ['Worldwide'];
+    } else if (value.territories.includes(territory)) {
+      territories = value.territories.filter(t => t !== territory);
+    } else {
+      territories = [...value.territories.filter(t => t !== 'Worldwide'), territory];
+    }
+
+    // At least one territory is always licensed
+    update({ territories: territories.length > 0 ? territories : ['Malaysia'] });
+  };
+
+  const handleUsageChange = (usage: UsageRights['usage']) => {
+    // Whitelisting only makes sense when the content runs as ads
+    update({ usage, whitelisting: usage === 'paid_ads' ? value.whitelisting : false });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h4 className="font-medium text-gray-900">Content Usage Rights</h4>
+        <p className="text-xs text-gray-500">How you may use the content. Each right adds to the campaign price.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="usage" className="block text-sm font-medium text-gray-700 mb-2">
+            Usage
+          </label>
+          <select
+            id="usage"
+            value={value.usage}
+            onChange={e => handleUsageChange(e.target.value as UsageRights['usage'])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="organic">Organic social only</option>
+            <option value="paid_ads">Organic and paid ads{formatSurcharge(USAGE_RIGHTS_PRICING.paidAds)}</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="durationMonths" className="block text-sm font-medium text-gray-700 mb-2">
+            License Duration
+          </label>
+          <select
+            id="durationMonths"
+            value={value.durationMonths}
+            onChange={e => update({ durationMonths: Number(e.target.value) })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {USAGE_RIGHTS_DURATIONS.map(months => (
+              <option key={months} value={months}>
+                {months} months{formatSurcharge(USAGE_RIGHTS_PRICING.durationMonths[months] || 0)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-2">
+          Territories
+          <span className="font-normal text-gray-500">
+            {' '}(+{Math.round(USAGE_RIGHTS_PRICING.additionalTerritory * 100)}% each after the first, Worldwide +{Math.round(USAGE_RIGHTS_PRICING.worldwide * 100)}%)
+          </span>
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {USAGE_TERRITORIES.map(territory => {
+            const selected = value.territories.includes(territory);
+            return (
+              <button
+                key={territory}
+                type="button"
+                onClick={() => toggleTerritory(territory)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {territory}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.nameAndLikeness}
+            onChange={e => update({ nameAndLikeness: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Use the talent's name and likeness{formatSurcharge(USAGE_RIGHTS_PRICING.nameAndLikeness)}</span>
+        </label>
+        <label className={`flex items-center space-x-2 text-sm ${value.usage === 'paid_ads' ? 'text-gray-700' : 'text-gray-400'}`}>
+          <input
+            type="checkbox"
+            checked={value.whitelisting}
+            disabled={value.usage !== 'paid_ads'}
+            onChange={e => update({ whitelisting: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Whitelisting / Spark Ads access{formatSurcharge(USAGE_RIGHTS_PRICING.whitelisting)}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default UsageRightsFields;
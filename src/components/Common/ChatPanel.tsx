@@ -1,36 +1,134 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, MessageCircle, Paperclip } from 'lucide-react';
-import { Message } from '../../types';
-import { createMessage } from '../../lib/api';
+import { Send, MessageCircle, Paperclip, Check, CheckCheck, FileText } from 'lucide-react';
+import { ChatParticipant, MessageAttachment } from '../../types';
+import { createMessage, getMessagesPage, subscribeToChatPresence } from '../../lib/api';
+import {
+  getChatAttachmentDownloadUrl,
+  MAX_CHAT_ATTACHMENT_BYTES,
+  removeChatAttachment,
+  uploadChatAttachment,
+} from '../../lib/chatAttachments';
+import { formatFileSize } from '../../lib/mediaInspector';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
+import { useChatMessages } from '../../hooks/useAppData';
+import { addChatMessages, markThreadRead } from '../../lib/queries';
+import MediaThumbnail from './MediaThumbnail';
+import { toast } from '../../lib/toast';
 
 interface ChatPanelProps {
   jobId: string;
   recipientName: string;
   recipientRole?: 'founder' | 'talent';
-  messages: Message[];
+  // Sizes the panel; a fixed width sidebar by default
   className?: string;
 }
 
+// How often typing is broadcast while the user types, and how long the other side shows it after
+const TYPING_SEND_INTERVAL_MS = 2000;
+const TYPING_SHOWN_MS = 4000;
+
 const ChatPanel: React.FC<ChatPanelProps> = ({
   jobId,
   recipientName,
   recipientRole = 'founder',
-  messages,
-  className = '',
+  className = 'w-96 border-l border-gray-200',
 }) => {
   const { user } = useAuth();
-  const { setMessages } = useApp();
+  // The order's messages from the cache, which the panel fills a page at a time
+  const messages = useChatMessages(jobId);
   const [newMessage, setNewMessage] = useState('');
   const [sendingMessage, setSendingMessage] = useState(false);
+  const [attaching, setAttaching] = useState<{ names: string; progress: number } | null>(null);
+  const [participants, setParticipants] = useState<ChatParticipant[]>([]);
+  const [typing, setTyping] = useState<ChatParticipant | null>(null);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const presenceRef = useRef<ReturnType<typeof subscribeToChatPresence> | null>(null);
+  const typingSentAt = useRef(0);
+  const typingTimer = useRef<ReturnType<typeof setTimeout>>();
+  const markingRead = useRef(false);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when a message arrives, but not when earlier ones are loaded above
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [lastMessageId]);
+
+  useEffect(() => {
+    setHasEarlier(false);
+    getMessagesPage(jobId)
+      .then(page => {
+        addChatMessages(jobId, page.messages, 'before');
+        setHasEarlier(page.hasMore);
+      })
+      .catch(error => console.error('Error loading messages:', error));
+  }, [jobId]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const presence = subscribeToChatPresence(jobId, { userId: user.id, name: user.name }, {
+      onPresence: setParticipants,
+      onTyping: participant => {
+        setTyping(participant);
+        clearTimeout(typingTimer.current);
+        typingTimer.current = setTimeout(() => setTyping(null), TYPING_SHOWN_MS);
+      },
+    });
+    presenceRef.current = presence;
+
+    return () => {
+      clearTimeout(typingTimer.current);
+      presenceRef.current = null;
+      presence.unsubscribe();
+    };
+  }, [jobId, user]);
+
+  // The other party's messages count as read once they are on screen in a visible tab
+  useEffect(() => {
+    if (!user) return;
+
+    const markRead = () => {
+      const hasUnread = messages.some(message => message.senderId !== user.id && !message.read);
+      if (!hasUnread || markingRead.current || document.visibilityState !== 'visible') return;
+
+      markingRead.current = true;
+      markThreadRead(jobId, user.id)
+        .catch(error => console.error('Error marking messages as read:', error))
+        .finally(() => {
+          markingRead.current = false;
+        });
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [jobId, messages, user]);
+
+  const handleLoadEarlier = async () => {
+    if (!messages.length) return;
+    setLoadingEarlier(true);
+    try {
+      const page = await getMessagesPage(jobId, messages[0].timestamp);
+      addChatMessages(jobId, page.messages, 'before');
+      setHasEarlier(page.hasMore);
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+      toast.error('Failed to load earlier messages. Please try again.');
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (value && Date.now() - typingSentAt.current > TYPING_SEND_INTERVAL_MS) {
+      typingSentAt.current = Date.now();
+      presenceRef.current?.sendTyping();
+    }
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -46,13 +144,14 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
         jobId,
         senderId: user.id,
         content: newMessage.trim(),
+        attachments: [],
         read: false
       };
       const savedMessage = await createMessage(messageData);
-      setMessages(prev => [...prev, savedMessage]);
+      addChatMessages(jobId, [savedMessage]);
       setNewMessage('');
     } catch (error) {
-      alert('Failed to send message. Please try again.');
+      toast.error('Failed to send message. Please try again.');
     } finally {
       setSendingMessage(false);
     }
@@ -60,21 +159,58 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
 
   const handleFileAttachment = () => fileInputRef.current?.click();
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const message: Message = {
-        id: Date.now().toString(),
+  // Sends the chosen files as one message, with whatever has been typed as its text
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!files.length || !user) return;
+
+    const tooLarge = files.find(file => file.size > MAX_CHAT_ATTACHMENT_BYTES);
+    if (tooLarge) {
+      toast.error(`${tooLarge.name} is too large. Max ${formatFileSize(MAX_CHAT_ATTACHMENT_BYTES)}.`);
+      return;
+    }
+
+    const names = files.map(file => file.name).join(', ');
+    setAttaching({ names, progress: 0 });
+    const attachments: MessageAttachment[] = [];
+    try {
+      for (const [index, file] of files.entries()) {
+        attachments.push(await uploadChatAttachment(jobId, file, fraction =>
+          setAttaching({ names, progress: (index + fraction) / files.length })
+        ));
+      }
+
+      const savedMessage = await createMessage({
         jobId,
-        senderId: user!.id,
-        content: `📎 Shared a file: ${file.name}`,
-        timestamp: new Date(),
+        senderId: user.id,
+        content: newMessage.trim(),
+        attachments,
         read: false,
-      };
-      setMessages(prev => [...prev, message]);
+      });
+      addChatMessages(jobId, [savedMessage]);
+      setNewMessage('');
+    } catch (error) {
+      console.error('Error sending attachment:', error);
+      // Files already uploaded belong to no message, so nobody could ever see them
+      await Promise.all(attachments.map(removeChatAttachment))
+        .catch(cleanupError => console.error('Error removing unsent attachments:', cleanupError));
+      toast.error(error instanceof Error ? error.message : 'Failed to send the file. Please try again.');
+    } finally {
+      setAttaching(null);
     }
   };
 
+  const handleDownload = async (attachment: MessageAttachment) => {
+    try {
+      window.location.assign(await getChatAttachmentDownloadUrl(attachment));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open the attachment. Please try again.');
+    }
+  };
+
+  const isRecipientOnline = participants.some(participant => participant.userId !== user?.id);
+
   const formatTime = (date: Date) =>
     new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
 
@@ -88,13 +224,21 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
   };
 
   return (
-    <div className={`w-96 border-l border-gray-200 flex flex-col ${className}`}>
+    <div className={`flex flex-col ${className}`}>
       {/* Chat Header */}
       <div className="p-4 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center space-x-3">
           <MessageCircle className="h-5 w-5 text-blue-600" />
           <div>
-            <h3 className="font-semibold text-gray-900">Chat with {recipientName}</h3>
+            <h3 className="font-semibold text-gray-900 flex items-center">
+              Chat with {recipientName}
+              {isRecipientOnline && (
+                <span className="ml-2 inline-flex items-center text-xs font-normal text-green-600">
+                  <span className="h-2 w-2 rounded-full bg-green-500 mr-1" />
+                  Online
+                </span>
+              )}
+            </h3>
             <p className="text-sm text-gray-600">
               Discuss {recipientRole === 'founder' ? 'job progress' : 'review details'}
             </p>
@@ -114,6 +258,18 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
           </div>
         ) : (
           <>
+            {hasEarlier && (
+              <div className="text-center">
+                <button
+                  type="button"
+                  onClick={handleLoadEarlier}
+                  disabled={loadingEarlier}
+                  className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {loadingEarlier ? 'Loading...' : 'Load earlier messages'}
+                </button>
+              </div>
+            )}
             {messages.map((message, index) => {
               const isCurrentUser = message.senderId === user?.id;
               const showDate = index === 0 ||
@@ -134,9 +290,46 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                         ? 'bg-blue-600 text-white'
                         : 'bg-white text-gray-900 border border-gray-200'
                     }`}>
-                      <p className="text-sm">{message.content}</p>
-                      <p className={`text-xs mt-1 ${isCurrentUser ? 'text-blue-100' : 'text-gray-500'}`}>
+                      {message.attachments.length > 0 && (
+                        <div className="space-y-2 mb-1">
+                          {message.attachments.map(attachment => attachment.type === 'file' ? (
+                            <button
+                              key={attachment.path}
+                              type="button"
+                              onClick={() => handleDownload(attachment)}
+                              className={`flex items-center space-x-2 text-left text-sm rounded p-2 w-full ${
+                                isCurrentUser ? 'bg-blue-500 hover:bg-blue-400' : 'bg-gray-100 hover:bg-gray-200'
+                              }`}
+                            >
+                              <FileText className="h-5 w-5 flex-shrink-0" />
+                              <span className="truncate">{attachment.name}</span>
+                              <span className="text-xs opacity-75 flex-shrink-0">{formatFileSize(attachment.sizeBytes)}</span>
+                            </button>
+                          ) : (
+                            <MediaThumbnail
+                              key={attachment.path}
+                              url={attachment.url}
+                              type={attachment.type}
+                              alt={attachment.name}
+                              size="preview"
+                              controls={attachment.type === 'video'}
+                              className="w-56 h-40 object-cover rounded"
+                            />
+                          ))}
+                        </div>
+                      )}
+                      {message.content && <p className="text-sm">{message.content}</p>}
+                      <p className={`text-xs mt-1 flex items-center ${isCurrentUser ? 'text-blue-100' : 'text-gray-500'}`}>
                         {formatTime(new Date(message.timestamp))}
+                        {isCurrentUser && (
+                          message.read ? (
+                            <span className="ml-1 inline-flex items-center" title={message.readAt ? `Seen ${formatTime(message.readAt)}` : 'Seen'}>
+                              <CheckCheck className="h-3 w-3 mr-0.5" /> Seen
+                            </span>
+                          ) : (
+                            <Check className="h-3 w-3 ml-1" aria-label="Sent" />
+                          )
+                        )}
                       </p>
                     </div>
                   </div>
@@ -150,13 +343,24 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
 
       {/* Message Input */}
       <div className="p-4 border-t border-gray-200 bg-white">
+        {typing && (
+          <p className="text-xs text-gray-500 italic mb-2">{typing.name} is typing...</p>
+        )}
+        {attaching && (
+          <div className="mb-2">
+            <p className="text-xs text-gray-600 truncate mb-1">Sending {attaching.names}</p>
+            <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(attaching.progress * 100)}%` }} />
+            </div>
+          </div>
+        )}
         <form onSubmit={handleSendMessage} className="space-y-3">
           <div className="flex space-x-2">
             <div className="flex-1 relative">
               <input
                 type="text"
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => handleMessageChange(e.target.value)}
                 placeholder="Type your message..."
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
               />
@@ -164,6 +368,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
             <button
               type="button"
               onClick={handleFileAttachment}
+              disabled={Boolean(attaching)}
               className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
               title="Attach File"
             >
@@ -187,6 +392,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
           type="file"
           className="hidden"
           accept="image/*,video/*,.pdf,.doc,.docx"
+          multiple
           onChange={handleFileChange}
         />
       </div>
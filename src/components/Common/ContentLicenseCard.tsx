@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FileText, AlertTriangle } from 'lucide-react';
+import { ContentLicense } from '../../types';
+import { getContentLicense } from '../../lib/api';
+import { describeUsageRights, downloadLicense, getDaysUntilExpiry, getLicenseExpiryState } from '../../lib/licenses';
+
+interface ContentLicenseCardProps {
+  orderId: string;
+  // Changes when the order is approved, to pick up the newly issued license
+  orderStatus: string;
+}
+
+// The usage-rights license issued for an approved order, for either party to view or download
+const ContentLicenseCard: React.FC<ContentLicenseCardProps> = ({ orderId, orderStatus }) => {
+  const [license, setLicense] = useState<ContentLicense | null>(null);
+
+  useEffect(() => {
+    getContentLicense(orderId)
+      .then(setLicense)
+      .catch(error => console.error('Error loading content license:', error));
+  }, [orderId, orderStatus]);
+
+  if (!license) return null;
+
+  const expiryState = getLicenseExpiryState(license);
+  const daysLeft = getDaysUntilExpiry(license);
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-gray-900">Content License</h4>
+        <button
+          onClick={() => downloadLicense(license)}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+        >
+          <Download className="h-4 w-4 mr-1" />
+          Download
+        </button>
+      </div>
+
+      {expiryState !== 'active' && (
+        <div className={`flex items-start space-x-2 rounded-lg p-3 mb-4 text-sm ${
+          expiryState === 'expired' ? 'bg-red-50 text-red-800 border border-red-200' : 'bg-yellow-50 text-yellow-800 border border-yellow-200'
+        }`}>
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <p>
+            {expiryState === 'expired'
+              ? `This license expired on ${license.expiresAt.toLocaleDateString()}. The content may no longer be used.`
+              : `This license expires in ${daysLeft} day${daysLeft === 1 ? '' : 's'}, on ${license.expiresAt.toLocaleDateString()}.`}
+          </p>
+        </div>
+      )}
+
+      <div className="bg-gray-50 rounded-lg p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <FileText className="h-5 w-5 text-gray-400" />
+          <p className="font-medium text-gray-900">{license.licenseNumber}</p>
+        </div>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+          <div>
+            <dt className="text-gray-600">Valid</dt>
+            <dd className="font-medium text-gray-900">
+              {license.startsAt.toLocaleDateString()} – {license.expiresAt.toLocaleDateString()}
+            </dd>
+          </div>
+          {describeUsageRights(license).map(term => (
+            <div key={term.label}>
+              <dt className="text-gray-600">{term.label}</dt>
+              <dd className="font-medium text-gray-900">{term.value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+export default ContentLicenseCard;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ContentLicense, LICENSE_EXPIRY_WARNING_DAYS } from '../../types';
+import { getContentLicenses } from '../../lib/api';
+import { getDaysUntilExpiry, getLicenseExpiryState } from '../../lib/licenses';
+
+interface LicenseExpiryAlertsProps {
+  viewerRole: 'founder' | 'talent';
+}
+
+// Dashboard banner for licenses the viewer is party to that expire soon
+const LicenseExpiryAlerts: React.FC<LicenseExpiryAlertsProps> = ({ viewerRole }) => {
+  const [licenses, setLicenses] = useState<ContentLicense[]>([]);
+
+  useEffect(() => {
+    getContentLicenses()
+      .then(setLicenses)
+      .catch(error => console.error('Error loading content licenses:', error));
+  }, []);
+
+  const expiring = licenses.filter(license => getLicenseExpiryState(license) === 'expiring');
+
+  if (expiring.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+        <div className="flex-1">
+          <h4 className="font-medium text-yellow-800">
+            {expiring.length} content license{expiring.length > 1 ? 's' : ''} expiring within {LICENSE_EXPIRY_WARNING_DAYS} days
+          </h4>
+          <p className="text-sm text-yellow-700 mt-1">
+            {viewerRole === 'founder'
+              ? 'Stop using this content when its license expires, or agree new terms with the talent.'
+              : 'The founder may not use your content after these dates.'}
+          </p>
+          <ul className="mt-2 space-y-1 text-sm text-yellow-800">
+            {expiring.map(license => {
+              const daysLeft = getDaysUntilExpiry(license);
+              return (
+                <li key={license.id}>
+                  <span className="font-medium">{license.campaignTitle}</span>
+                  {' · '}
+                  {viewerRole === 'founder' ? license.talentName : license.founderName}
+                  {' · '}
+                  expires in {daysLeft} day{daysLeft === 1 ? '' : 's'} ({license.expiresAt.toLocaleDateString()})
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LicenseExpiryAlerts;
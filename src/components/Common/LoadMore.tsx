@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  // e.g. "Showing 20 of 134 talents"
+  summary?: string;
+}
+
+// The end of an infinitely scrolling list: loads the next page as it scrolls into view, with a
+// button for when the observer is not available or the list is shorter than the screen
+const LoadMore: React.FC<LoadMoreProps> = ({ hasMore, loading, onLoadMore, summary }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Mirrors `onLoadMore` for the observer, which outlives the render it was created in
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading]);
+
+  return (
+    <div ref={sentinelRef} className="py-4 text-center space-y-2">
+      {summary && <p className="text-sm text-gray-500">{summary}</p>}
+      {loading ? (
+        <div className="flex justify-center">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : hasMore && (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LoadMore;
@@ -0,0 +1,280 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import { ReviewAnnotation, ReviewAnnotationRegion } from '../../types';
+import { resolveMediaSource } from '../../lib/mediaAssets';
+import { toast } from '../../lib/toast';
+
+export type AnnotationDraft = { kind: 'timestamp'; timestampSeconds: number } | { kind: 'region'; region: ReviewAnnotationRegion };
+
+interface MediaAnnotationOverlayProps {
+  media: { url: string; type: 'image' | 'video' };
+  annotations: ReviewAnnotation[];
+  // Founders drawing regions or pinning timestamps; talents only see the pins
+  editable: boolean;
+  onCreate?: (draft: AnnotationDraft, comment: string) => Promise<void>;
+  onDelete?: (annotation: ReviewAnnotation) => Promise<void>;
+}
+
+// Regions smaller than this are treated as an accidental click
+const MIN_REGION_SIZE = 0.02;
+
+const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const MediaAnnotationOverlay: React.FC<MediaAnnotationOverlayProps> = ({ media, annotations, editable, onCreate, onDelete }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRegion, setDragRegion] = useState<ReviewAnnotationRegion | null>(null);
+  const [draft, setDraft] = useState<AnnotationDraft | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // The watermarked preview until the founder has access to the original
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    resolveMediaSource(media.url, media.type, 'preview')
+      .then(source => setSrc(source.src))
+      .catch(error => console.error('Error loading media:', error));
+  }, [media.url, media.type]);
+
+  const getPoint = (e: React.MouseEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const toRegion = (a: { x: number; y: number }, b: { x: number; y: number }): ReviewAnnotationRegion => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  });
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!editable || media.type !== 'image' || draft) return;
+    e.preventDefault();
+    setDragStart(getPoint(e));
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    setDragRegion(toRegion(dragStart, getPoint(e)));
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    const region = toRegion(dragStart, getPoint(e));
+    setDragStart(null);
+    setDragRegion(null);
+
+    if (region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE) {
+      setDraft({ kind: 'region', region });
+    }
+  };
+
+  const handlePinTimestamp = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setDraft({ kind: 'timestamp', timestampSeconds: Math.round(video.currentTime * 1000) / 1000 });
+  };
+
+  const handleSeek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = seconds;
+    videoRef.current.pause();
+  };
+
+  const handleCancel = () => {
+    setDraft(null);
+    setComment('');
+  };
+
+  const handleSave = async () => {
+    if (!draft || !onCreate || !comment.trim()) return;
+    setSaving(true);
+    try {
+      await onCreate(draft, comment.trim());
+      handleCancel();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the comment. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const regionStyle = (region: ReviewAnnotationRegion) => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
+  // The rectangle being dragged, or the one waiting for its comment
+  const pendingRegion = dragRegion || (draft?.kind === 'region' ? draft.region : null);
+
+  const pins = [...annotations].sort((a, b) => (a.timestampSeconds ?? 0) - (b.timestampSeconds ?? 0));
+
+  return (
+    <div className="flex flex-col items-center w-full">
+      {media.type === 'image' ? (
+        <div
+          ref={containerRef}
+          className={`relative inline-block select-none ${editable && !draft ? 'cursor-crosshair' : ''}`}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { setDragStart(null); setDragRegion(null); }}
+        >
+          {src ? (
+            <img src={src} alt="Review submission" className="block max-h-[65vh] max-w-full rounded-lg" draggable={false} />
+          ) : (
+            <div className="w-96 h-64 max-w-full bg-gray-700 animate-pulse rounded-lg" />
+          )}
+
+          {pins.map((annotation, idx) => annotation.region && (
+            <div
+              key={annotation.id}
+              className={`absolute border-2 rounded ${highlightedId === annotation.id ? 'border-yellow-300 bg-yellow-300 bg-opacity-20' : 'border-red-500'}`}
+              style={regionStyle(annotation.region)}
+              title={annotation.comment}
+            >
+              <span className="absolute -top-3 -left-3 w-6 h-6 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+                {idx + 1}
+              </span>
+            </div>
+          ))}
+
+          {pendingRegion && (
+            <div
+              className="absolute border-2 border-dashed border-blue-400 bg-blue-400 bg-opacity-20 rounded"
+              style={regionStyle(pendingRegion)}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="w-full max-w-3xl">
+          <video
+            ref={videoRef}
+            src={src || undefined}
+            controls
+            className="w-full max-h-[60vh] rounded-lg bg-black"
+            onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+          />
+          {/* Timestamp pins along the timeline */}
+          <div className="relative h-6 mt-2 bg-gray-700 rounded">
+            {duration > 0 && pins.map((annotation, idx) => annotation.timestampSeconds !== undefined && (
+              <button
+                key={annotation.id}
+                type="button"
+                onClick={() => handleSeek(annotation.timestampSeconds!)}
+                className={`absolute top-0 -ml-3 w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center ${
+                  highlightedId === annotation.id ? 'bg-yellow-500' : 'bg-red-500'
+                }`}
+                style={{ left: `${Math.min(annotation.timestampSeconds / duration, 1) * 100}%` }}
+                title={`${formatTimestamp(annotation.timestampSeconds)} – ${annotation.comment}`}
+              >
+                {idx + 1}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editable && !draft && (
+        <p className="mt-3 text-sm text-gray-300">
+          {media.type === 'image' ? (
+            'Drag on the image to comment on an area'
+          ) : (
+            <button
+              type="button"
+              onClick={handlePinTimestamp}
+              className="inline-flex items-center px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Comment at current time
+            </button>
+          )}
+        </p>
+      )}
+
+      {draft && (
+        <div className="mt-3 w-full max-w-xl bg-white rounded-lg p-3 flex items-center space-x-2">
+          <span className="text-sm font-medium text-gray-700 whitespace-nowrap">
+            {draft.kind === 'timestamp' ? formatTimestamp(draft.timestampSeconds) : 'Area'}
+          </span>
+          <input
+            type="text"
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+            autoFocus
+            placeholder="e.g. Product label is blurred"
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || !comment.trim()}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {pins.length > 0 && (
+        <ol className="mt-4 w-full max-w-xl space-y-2">
+          {pins.map((annotation, idx) => (
+            <li
+              key={annotation.id}
+              className="flex items-start justify-between bg-white bg-opacity-95 rounded-lg px-3 py-2 text-sm"
+              onMouseEnter={() => setHighlightedId(annotation.id)}
+              onMouseLeave={() => setHighlightedId(null)}
+            >
+              <button
+                type="button"
+                className="text-left"
+                onClick={() => annotation.timestampSeconds !== undefined && handleSeek(annotation.timestampSeconds)}
+              >
+                <span className="font-semibold text-red-600 mr-2">{idx + 1}.</span>
+                {annotation.timestampSeconds !== undefined && (
+                  <span className="font-mono text-gray-600 mr-2">{formatTimestamp(annotation.timestampSeconds)}</span>
+                )}
+                <span className="text-gray-900">{annotation.comment}</span>
+              </button>
+              {editable && onDelete && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(annotation)}
+                  className="ml-3 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Delete comment"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default MediaAnnotationOverlay;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Check, X } from 'lucide-react';
+import { MediaCheck } from '../../types';
+
+interface MediaCheckChipsProps {
+  checks: MediaCheck[];
+}
+
+// Pass/fail results of comparing a file with the brief, as the talent saw them before uploading
+const MediaCheckChips: React.FC<MediaCheckChipsProps> = ({ checks }) => (
+  <div className="flex flex-wrap gap-1">
+    {checks.map(check => (
+      <span
+        key={check.id}
+        title={check.detail}
+        className={`inline-flex items-center px-1.5 py-0.5 text-xs rounded-full ${
+          check.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+        }`}
+      >
+        {check.passed ? <Check className="h-3 w-3 mr-0.5" /> : <X className="h-3 w-3 mr-0.5" />}
+        {check.passed ? check.label : `${check.label}: ${check.detail}`}
+      </span>
+    ))}
+  </div>
+);
+
+export default MediaCheckChips;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Play } from 'lucide-react';
+import { MediaSource, resolveMediaSource } from '../../lib/mediaAssets';
+
+interface MediaThumbnailProps {
+  url: string;
+  type: 'image' | 'video';
+  alt: string;
+  className?: string;
+  // `preview` for large views; cards use the default thumbnail
+  size?: 'thumbnail' | 'preview';
+  // Shows a player for videos, which loads the video only once it is played
+  controls?: boolean;
+  onClick?: () => void;
+}
+
+// Renders an uploaded file from its smaller variants when it has them, and the original when not.
+// Files in private buckets are shown through signed URLs
+const MediaThumbnail: React.FC<MediaThumbnailProps> = ({ url, type, alt, className = '', size = 'thumbnail', controls, onClick }) => {
+  // undefined until resolved, so the original is not downloaded for a file that has variants
+  const [source, setSource] = useState<MediaSource | null | undefined>(undefined);
+
+  useEffect(() => {
+    setSource(undefined);
+    resolveMediaSource(url, type, size)
+      .then(setSource)
+      .catch(error => {
+        console.error('Error loading media:', error);
+        setSource(null);
+      });
+  }, [url, type, size]);
+
+  if (source === undefined) {
+    return <div className={`bg-gray-100 animate-pulse ${className}`} />;
+  }
+
+  if (source === null) {
+    return <div className={`bg-gray-100 ${className}`} title="This file is not available" onClick={onClick} />;
+  }
+
+  // The recorded type wins over the caller's guess from the URL
+  if (source.type === 'image') {
+    return <img src={source.src} alt={alt} loading="lazy" className={className} onClick={onClick} />;
+  }
+
+  if (controls || !source.poster) {
+    return (
+      <video
+        src={source.src}
+        poster={source.poster}
+        preload={source.poster ? 'none' : 'metadata'}
+        controls={controls}
+        muted={!controls}
+        className={className}
+        onClick={onClick}
+      />
+    );
+  }
+
+  return (
+    <div className={`relative overflow-hidden ${className}`} onClick={onClick}>
+      <img src={source.poster} alt={alt} loading="lazy" className="w-full h-full object-cover" />
+      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+        <Play className="h-6 w-6 text-white drop-shadow-lg" />
+      </div>
+    </div>
+  );
+};
+
+export default MediaThumbnail;
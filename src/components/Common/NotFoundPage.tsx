@@ -0,0 +1,21 @@
+import React from 'react';
+import { Compass } from 'lucide-react';
+import { navigate } from '../../lib/router';
+
+// Shown for paths that no route matches
+const NotFoundPage: React.FC = () => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+    <Compass className="h-12 w-12 mx-auto text-gray-300 mb-4" />
+    <h1 className="text-2xl font-bold text-gray-900 mb-2">Page not found</h1>
+    <p className="text-gray-600 mb-6">The link may be broken, or the page may have been removed.</p>
+    <button
+      type="button"
+      onClick={() => navigate('/dashboard')}
+      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+    >
+      Back to dashboard
+    </button>
+  </div>
+);
+
+export default NotFoundPage;
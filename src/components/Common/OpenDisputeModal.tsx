@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { DisputeReason, Order, DISPUTE_REASONS } from '../../types';
+import { toast } from '../../lib/toast';
+
+interface OpenDisputeModalProps {
+  order: Order;
+  onClose: () => void;
+  onSubmit: (reason: DisputeReason, description: string) => Promise<void>;
+}
+
+const OpenDisputeModal: React.FC<OpenDisputeModalProps> = ({ order, onClose, onSubmit }) => {
+  const [reason, setReason] = useState<DisputeReason>('product_not_received');
+  const [description, setDescription] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!description.trim()) {
+      toast.error('Please describe the problem');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit(reason, description.trim());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Open a Dispute</h2>
+            <p className="text-sm text-gray-600">{order.campaignTitle}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+            <p className="text-sm text-yellow-800">
+              The order and its payment are put on hold until an admin reviews the chat, submitted content
+              and tracking details and decides how the payment is split.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="disputeReason" className="block text-sm font-medium text-gray-700 mb-2">
+              What went wrong? *
+            </label>
+            <select
+              id="disputeReason"
+              value={reason}
+              onChange={e => setReason(e.target.value as DisputeReason)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(Object.keys(DISPUTE_REASONS) as DisputeReason[]).map(key => (
+                <option key={key} value={key}>{DISPUTE_REASONS[key]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="disputeDescription" className="block text-sm font-medium text-gray-700 mb-2">
+              Details *
+            </label>
+            <textarea
+              id="disputeDescription"
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Explain what happened and what outcome you expect"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Opening...' : 'Open Dispute'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default OpenDisputeModal;
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Scale } from 'lucide-react';
+import { DisputeReason, Order, OrderDispute, DISPUTE_REASONS } from '../../types';
+import { getOrderDisputes, openOrderDispute } from '../../lib/api';
+import { describeDisputeOutcome } from '../../lib/disputes';
+import OpenDisputeModal from './OpenDisputeModal';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+
+interface OrderDisputePanelProps {
+  order: Order;
+}
+
+// Dispute status for either party to an order, and the way to open one
+const OrderDisputePanel: React.FC<OrderDisputePanelProps> = ({ order }) => {
+  const [disputes, setDisputes] = useState<OrderDispute[]>([]);
+  const [showOpenModal, setShowOpenModal] = useState(false);
+
+  // Opening a dispute changes no order status, so refetching the orders alone would not reload this
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getOrderDisputes(order.id)
+      .then(setDisputes)
+      .catch(error => console.error('Error loading disputes:', error));
+  }, [order.id, order.status, reloadKey]);
+
+  const openDispute = disputes.find(d => d.status === 'open');
+  const resolvedDispute = disputes.find(d => d.status === 'resolved');
+  const isClosed = order.status === 'completed' || order.status === 'refunded';
+
+  const handleOpenDispute = async (reason: DisputeReason, description: string) => {
+    try {
+      await openOrderDispute(order.id, reason, description);
+      setShowOpenModal(false);
+      setReloadKey(key => key + 1);
+      await invalidateQueries(queryKeys.orders);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open the dispute. Please try again.');
+    }
+  };
+
+  if (!openDispute && !resolvedDispute && isClosed) return null;
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Dispute</h4>
+
+      {openDispute ? (
+        <div className="flex items-start space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+          <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <p className="font-medium">{DISPUTE_REASONS[openDispute.reason]}</p>
+            <p className="mt-1">{openDispute.description}</p>
+            <p className="mt-2 text-xs text-red-700">
+              Opened {openDispute.createdAt.toLocaleDateString()}
+              {openDispute.openedByName && ` by ${openDispute.openedByName}`}. The order and its payment are on hold
+              until an admin resolves it.
+            </p>
+          </div>
+        </div>
+      ) : resolvedDispute ? (
+        <div className="flex items-start space-x-3 bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <Scale className="h-5 w-5 text-gray-500 mt-0.5" />
+          <div className="text-sm text-gray-700">
+            <p className="font-medium text-gray-900">Resolved {resolvedDispute.resolvedAt?.toLocaleDateString()}</p>
+            <p className="mt-1">{describeDisputeOutcome(resolvedDispute)}</p>
+            {resolvedDispute.resolutionNote && <p className="mt-1 text-gray-600">{resolvedDispute.resolutionNote}</p>}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">Can't sort out a problem with this order in chat? An admin can step in.</p>
+          <button
+            onClick={() => setShowOpenModal(true)}
+            className="ml-4 px-3 py-1.5 text-sm text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors whitespace-nowrap"
+          >
+            Open a Dispute
+          </button>
+        </div>
+      )}
+
+      {showOpenModal && (
+        <OpenDisputeModal
+          order={order}
+          onClose={() => setShowOpenModal(false)}
+          onSubmit={handleOpenDispute}
+        />
+      )}
+    </div>
+  );
+};
+
+export default OrderDisputePanel;
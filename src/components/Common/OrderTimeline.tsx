@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Clock, MapPin, Package, Truck, RotateCcw } from 'lucide-react';
+import { Order, OrderStatusChange } from '../../types';
+import { getOrderStatusHistory } from '../../lib/api';
+import { describeStatusChange, ORDER_WAITING_LABELS } from '../../lib/orderStateMachine';
+
+interface OrderTimelineProps {
+  order: Order;
+}
+
+const OrderTimeline: React.FC<OrderTimelineProps> = ({ order }) => {
+  const [history, setHistory] = useState<OrderStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Reload whenever the order moves on, so the new entry shows up
+  useEffect(() => {
+    setLoading(true);
+    getOrderStatusHistory(order.id)
+      .then(setHistory)
+      .catch(error => console.error('Error loading order history:', error))
+      .finally(() => setLoading(false));
+  }, [order.id, order.status]);
+
+  const getChangeIcon = (change: OrderStatusChange) => {
+    if ((change.fromStatus === 'review_submitted' && change.toStatus === 'delivered') || change.toStatus === 'refunded') {
+      return <RotateCcw className="h-4 w-4" />;
+    }
+    switch (change.toStatus) {
+      case 'shipped':
+        return <Truck className="h-4 w-4" />;
+      case 'delivered':
+        return <MapPin className="h-4 w-4" />;
+      case 'pending_shipment':
+        return <Package className="h-4 w-4" />;
+      default:
+        return <CheckCircle className="h-4 w-4" />;
+    }
+  };
+
+  const waitingLabel = ORDER_WAITING_LABELS[order.status];
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading timeline...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {history.map(change => {
+        const revisionRequested = change.fromStatus === 'review_submitted' && change.toStatus === 'delivered';
+        return (
+          <div key={change.id} className="flex items-start space-x-3">
+            <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+              change.toStatus === 'refunded' ? 'bg-red-500 text-white' : revisionRequested ? 'bg-orange-500 text-white' : 'bg-green-500 text-white'
+            }`}>
+              {getChangeIcon(change)}
+            </div>
+            <div>
+              <p className="font-medium text-gray-900">{describeStatusChange(change)}</p>
+              <p className="text-sm text-gray-600">
+                {change.createdAt.toLocaleString()}
+                {change.changedByName && ` · by ${change.changedByName}`}
+              </p>
+              {change.note && <p className="text-xs text-gray-500 mt-1">{change.note}</p>}
+            </div>
+          </div>
+        );
+      })}
+
+      {waitingLabel && (
+        <div className="flex items-start space-x-3">
+          <div className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 bg-gray-300 text-gray-600">
+            <Clock className="h-4 w-4" />
+          </div>
+          <div>
+            <p className="font-medium text-gray-500">Next Step</p>
+            <p className="text-sm text-gray-600">{waitingLabel}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderTimeline;
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { ReviewAnnotation, ReviewSubmission } from '../../types';
+import { useAuth } from '../../context/AuthContext';
+import { createReviewAnnotation, deleteReviewAnnotation, getReviewAnnotations, getReviewSubmissions } from '../../lib/api';
+import MediaAnnotationOverlay, { AnnotationDraft } from './MediaAnnotationOverlay';
+import MediaThumbnail from './MediaThumbnail';
+import { toast } from '../../lib/toast';
+
+interface ReviewAnnotationLightboxProps {
+  orderId: string;
+  media: { url: string; type: 'image' | 'video' }[];
+  startIndex: number;
+  // Only the founder annotates, and only the version awaiting their review
+  editable: boolean;
+  onClose: () => void;
+}
+
+// Fullscreen review media with the founder's pinned comments
+const ReviewAnnotationLightbox: React.FC<ReviewAnnotationLightboxProps> = ({ orderId, media, startIndex, editable, onClose }) => {
+  const { user } = useAuth();
+  const [index, setIndex] = useState(startIndex);
+  const [submissions, setSubmissions] = useState<ReviewSubmission[]>([]);
+  const [annotations, setAnnotations] = useState<ReviewAnnotation[]>([]);
+
+  useEffect(() => {
+    Promise.all([getReviewSubmissions(orderId), getReviewAnnotations(orderId)])
+      .then(([loadedSubmissions, loadedAnnotations]) => {
+        setSubmissions(loadedSubmissions);
+        setAnnotations(loadedAnnotations);
+      })
+      .catch(error => console.error('Error loading review annotations:', error));
+  }, [orderId]);
+
+  const current = media[index];
+  // Every upload gets its own storage path, so the URL identifies the version it belongs to
+  const submission = submissions.find(s => s.media.some(m => m.url === current.url));
+  const currentAnnotations = annotations.filter(
+    a => a.mediaUrl === current.url && a.submissionVersion === submission?.version
+  );
+  const canAnnotate = editable && submission?.status === 'pending';
+
+  const handleCreate = async (draft: AnnotationDraft, comment: string) => {
+    if (!user || !submission) return;
+
+    const annotation = await createReviewAnnotation({
+      orderId,
+      submissionVersion: submission.version,
+      mediaUrl: current.url,
+      kind: draft.kind,
+      timestampSeconds: draft.kind === 'timestamp' ? draft.timestampSeconds : undefined,
+      region: draft.kind === 'region' ? draft.region : undefined,
+      comment,
+      createdBy: user.id,
+    });
+    setAnnotations(prev => [...prev, annotation]);
+  };
+
+  const handleDelete = async (annotation: ReviewAnnotation) => {
+    try {
+      await deleteReviewAnnotation(annotation.id);
+      setAnnotations(prev => prev.filter(a => a.id !== annotation.id));
+    } catch (error) {
+      console.error('Error deleting review annotation:', error);
+      toast.error('Failed to delete the comment. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex flex-col items-center justify-center overflow-y-auto py-8 transition-all">
+      <button
+        className="absolute top-6 right-6 text-white text-2xl"
+        onClick={onClose}
+        aria-label="Close"
+      >
+        <X className="w-10 h-10" />
+      </button>
+
+      <div className="w-full max-w-4xl px-4 flex flex-col items-center">
+        {submission && (
+          <p className="text-sm text-gray-300 mb-3">Version {submission.version} · item {index + 1} of {media.length}</p>
+        )}
+        <MediaAnnotationOverlay
+          key={current.url}
+          media={current}
+          annotations={currentAnnotations}
+          editable={canAnnotate}
+          onCreate={handleCreate}
+          onDelete={handleDelete}
+        />
+      </div>
+
+      {media.length > 1 && (
+        <div className="mt-6 flex space-x-4">
+          {media.map((m, idx) => (
+            <button
+              key={idx}
+              className={`w-16 h-16 rounded border-2 ${index === idx ? 'border-blue-400' : 'border-transparent'}`}
+              onClick={() => setIndex(idx)}
+            >
+              <MediaThumbnail url={m.url} type={m.type} alt="" className="w-full h-full object-cover rounded" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewAnnotationLightbox;
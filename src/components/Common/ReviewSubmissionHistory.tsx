@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { ReviewSubmission } from '../../types';
+import { getReviewSubmissions } from '../../lib/api';
+import ReviewAnnotationLightbox from './ReviewAnnotationLightbox';
+import MediaCheckChips from './MediaCheckChips';
+import MediaThumbnail from './MediaThumbnail';
+
+interface ReviewSubmissionHistoryProps {
+  orderId: string;
+  // Changes whenever a new version is submitted or sent back, to reload the list
+  orderStatus: string;
+}
+
+// Every version of an order's review content side by side, with the founder's feedback on each
+const ReviewSubmissionHistory: React.FC<ReviewSubmissionHistoryProps> = ({ orderId, orderStatus }) => {
+  const [submissions, setSubmissions] = useState<ReviewSubmission[]>([]);
+  const [viewing, setViewing] = useState<{ submission: ReviewSubmission; index: number } | null>(null);
+
+  useEffect(() => {
+    getReviewSubmissions(orderId)
+      .then(setSubmissions)
+      .catch(error => console.error('Error loading review submissions:', error));
+  }, [orderId, orderStatus]);
+
+  const getStatusColor = (status: ReviewSubmission['status']) => {
+    switch (status) {
+      case 'approved':
+        return 'bg-green-100 text-green-800';
+      case 'revision_requested':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  const getStatusLabel = (status: ReviewSubmission['status']) => {
+    switch (status) {
+      case 'approved':
+        return 'Approved';
+      case 'revision_requested':
+        return 'Revision Requested';
+      default:
+        return 'Awaiting Review';
+    }
+  };
+
+  // A single version still under review or approved is already shown as the current submission
+  if (submissions.length === 0 || (submissions.length === 1 && submissions[0].status !== 'revision_requested')) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Submission Versions</h4>
+      <div className="flex space-x-4 overflow-x-auto pb-2">
+        {[...submissions].reverse().map(submission => (
+          <div key={submission.id} className="w-72 flex-shrink-0 border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-semibold text-gray-900">Version {submission.version}</p>
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getStatusColor(submission.status)}`}>
+                {getStatusLabel(submission.status)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">Submitted {submission.submittedAt.toLocaleDateString()}</p>
+
+            {submission.media.map((media, idx) => {
+              const comment = submission.feedback.find(item => item.mediaIndex === idx);
+              return (
+                <div key={idx} className="space-y-1">
+                  <MediaThumbnail
+                    url={media.url}
+                    type={media.type}
+                    alt={`Version ${submission.version} item ${idx + 1}`}
+                    size="preview"
+                    controls={media.type === 'video'}
+                    className="w-full h-36 object-cover rounded-lg cursor-pointer"
+                    onClick={media.type === 'image' ? () => setViewing({ submission, index: idx }) : undefined}
+                  />
+                  {media.checks && <MediaCheckChips checks={media.checks} />}
+                  {comment && (
+                    <p className="text-xs text-orange-800 bg-orange-50 rounded p-2">{comment.comment}</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {submission.notes && (
+              <p className="text-sm text-gray-700"><span className="font-medium">Talent's notes:</span> {submission.notes}</p>
+            )}
+            <button
+              type="button"
+              onClick={() => setViewing({ submission, index: 0 })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              View with pinned comments
+            </button>
+            {submission.feedbackSummary && (
+              <p className="text-sm text-orange-900 bg-orange-50 border border-orange-200 rounded p-2">
+                <span className="font-medium">Feedback:</span> {submission.feedbackSummary}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {viewing && (
+        <ReviewAnnotationLightbox
+          orderId={orderId}
+          media={viewing.submission.media}
+          startIndex={viewing.index}
+          editable={false}
+          onClose={() => setViewing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReviewSubmissionHistory;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, ExternalLink, Info, MapPin, RotateCcw, Truck } from 'lucide-react';
+import { Order, ShipmentTrackingEvent, ShipmentTrackingStatus } from '../../types';
+import { getShipmentTrackingEvents } from '../../lib/api';
+import { findCourierAdapter } from '../../lib/couriers';
+
+interface ShipmentTrackingTimelineProps {
+  order: Order;
+}
+
+const STATUS_STYLES: Record<ShipmentTrackingStatus, { label: string; className: string }> = {
+  info_received: { label: 'Label Created', className: 'bg-gray-400 text-white' },
+  in_transit: { label: 'In Transit', className: 'bg-blue-500 text-white' },
+  out_for_delivery: { label: 'Out for Delivery', className: 'bg-purple-500 text-white' },
+  delivered: { label: 'Delivered', className: 'bg-green-500 text-white' },
+  failed_attempt: { label: 'Delivery Attempted', className: 'bg-orange-500 text-white' },
+  returned: { label: 'Returned to Sender', className: 'bg-red-500 text-white' },
+  exception: { label: 'Courier Exception', className: 'bg-red-500 text-white' },
+};
+
+// The courier's tracking events for an order, newest first, as polled by the poll-shipments function
+const ShipmentTrackingTimeline: React.FC<ShipmentTrackingTimelineProps> = ({ order }) => {
+  const [events, setEvents] = useState<ShipmentTrackingEvent[]>([]);
+  const adapter = findCourierAdapter(order.deliveryInfo?.courier);
+  const trackingNumber = order.deliveryInfo?.trackingNumber;
+
+  // Reload when the poller has been round again
+  const checkedAt = order.trackingCheckedAt?.getTime();
+  useEffect(() => {
+    getShipmentTrackingEvents(order.id)
+      .then(setEvents)
+      .catch(error => console.error('Error loading tracking events:', error));
+  }, [order.id, order.status, checkedAt]);
+
+  const getEventIcon = (status: ShipmentTrackingStatus) => {
+    switch (status) {
+      case 'delivered':
+        return <CheckCircle className="h-4 w-4" />;
+      case 'out_for_delivery':
+        return <MapPin className="h-4 w-4" />;
+      case 'in_transit':
+        return <Truck className="h-4 w-4" />;
+      case 'returned':
+        return <RotateCcw className="h-4 w-4" />;
+      case 'failed_attempt':
+      case 'exception':
+        return <AlertTriangle className="h-4 w-4" />;
+      default:
+        return <Info className="h-4 w-4" />;
+    }
+  };
+
+  if (!trackingNumber || (!adapter && events.length === 0)) return null;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-medium text-gray-900">Tracking Updates</h5>
+        {adapter && (
+          <a
+            href={adapter.getTrackingUrl(trackingNumber)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+          >
+            <span>Track on {adapter.name}</span>
+            <ExternalLink className="h-3.5 w-3.5" />
+          </a>
+        )}
+      </div>
+
+      {events.length > 0 ? (
+        <div className="space-y-3">
+          {events.map(event => (
+            <div key={event.id} className="flex items-start space-x-3">
+              <div className={`w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0 ${STATUS_STYLES[event.status].className}`}>
+                {getEventIcon(event.status)}
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-900">{STATUS_STYLES[event.status].label}</p>
+                <p className="text-sm text-gray-600">
+                  {event.description}
+                  {event.location && ` · ${event.location}`}
+                </p>
+                <p className="text-xs text-gray-500">{event.occurredAt.toLocaleString()}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {order.status === 'shipped'
+            ? `No updates from ${adapter?.name} yet. Tracking is checked every 30 minutes.`
+            : 'No tracking updates were recorded for this shipment.'}
+        </p>
+      )}
+
+      {order.status === 'shipped' && order.trackingCheckedAt && (
+        <p className="text-xs text-gray-500 mt-3">Last checked {order.trackingCheckedAt.toLocaleString()}</p>
+      )}
+    </div>
+  );
+};
+
+export default ShipmentTrackingTimeline;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Info, X } from 'lucide-react';
+import { onToast, Toast, ToastKind } from '../../lib/toast';
+
+// Errors stay up longer, as they usually say what to do next
+const TOAST_DURATION_MS: Record<ToastKind, number> = {
+  success: 4000,
+  info: 5000,
+  error: 8000,
+};
+
+// Oldest are dropped first when more arrive at once
+const MAX_TOASTS = 4;
+
+const TOAST_STYLES: Record<ToastKind, { className: string; icon: typeof Info }> = {
+  success: { className: 'bg-green-600', icon: CheckCircle },
+  error: { className: 'bg-red-600', icon: AlertCircle },
+  info: { className: 'bg-gray-800', icon: Info },
+};
+
+const Toaster: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  useEffect(() => {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+
+    const unsubscribe = onToast(toast => {
+      setToasts(prev => [...prev, toast].slice(-MAX_TOASTS));
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        setToasts(prev => prev.filter(item => item.id !== toast.id));
+      }, TOAST_DURATION_MS[toast.kind]);
+      timers.add(timer);
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach(clearTimeout);
+    };
+  }, []);
+
+  const dismiss = (id: number) => setToasts(prev => prev.filter(toast => toast.id !== id));
+
+  if (!toasts.length) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col space-y-2 w-96 max-w-[calc(100vw-2rem)]">
+      {toasts.map(toast => {
+        const { className, icon: Icon } = TOAST_STYLES[toast.kind];
+        return (
+          <div
+            key={toast.id}
+            role={toast.kind === 'error' ? 'alert' : 'status'}
+            className={`flex items-start text-white px-4 py-3 rounded-lg shadow-lg ${className}`}
+          >
+            <Icon className="h-5 w-5 mr-3 flex-shrink-0 mt-0.5" />
+            <button
+              type="button"
+              onClick={() => {
+                toast.onClick?.();
+                if (toast.onClick) dismiss(toast.id);
+              }}
+              className={`flex-1 text-left text-sm whitespace-pre-line ${toast.onClick ? 'hover:underline' : 'cursor-default'}`}
+            >
+              {toast.message}
+            </button>
+            <button
+              type="button"
+              onClick={() => dismiss(toast.id)}
+              className="ml-3 text-white opacity-75 hover:opacity-100 flex-shrink-0"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Toaster;
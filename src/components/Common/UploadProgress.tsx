@@ -0,0 +1,66 @@
+import React from 'react';
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import { MediaUpload } from '../../hooks/useMediaUploads';
+
+interface UploadProgressProps {
+  upload: MediaUpload;
+  onPause: () => void;
+  // Resumes a paused upload or retries a failed one
+  onResume: () => void;
+  // Shows the file name and a remove button, for lists that have no preview of the file
+  onRemove?: () => void;
+}
+
+const STATUS_LABELS: Record<MediaUpload['status'], string> = {
+  uploading: 'Uploading',
+  processing: 'Making previews',
+  paused: 'Paused',
+  failed: 'Failed',
+  done: 'Uploaded',
+};
+
+// Progress of one file in a useMediaUploads queue, with its pause, resume and retry buttons
+const UploadProgress: React.FC<UploadProgressProps> = ({ upload, onPause, onResume, onRemove }) => (
+  <div className="space-y-1">
+    <div className="flex items-center justify-between text-xs">
+      <span className={`truncate ${upload.status === 'failed' ? 'text-red-700' : 'text-gray-600'}`}>
+        {onRemove && <span className="font-medium mr-1">{upload.file.name}</span>}
+        {STATUS_LABELS[upload.status]}
+        {upload.status !== 'done' && upload.status !== 'processing' && ` · ${Math.round(upload.progress * 100)}%`}
+      </span>
+      <div className="flex items-center space-x-2 flex-shrink-0">
+        {upload.status === 'uploading' && (
+          <button type="button" onClick={onPause} className="text-gray-500 hover:text-gray-700" title="Pause">
+            <Pause className="h-4 w-4" />
+          </button>
+        )}
+        {upload.status === 'paused' && (
+          <button type="button" onClick={onResume} className="text-blue-600 hover:text-blue-800" title="Resume">
+            <Play className="h-4 w-4" />
+          </button>
+        )}
+        {upload.status === 'failed' && (
+          <button type="button" onClick={onResume} className="text-red-600 hover:text-red-800" title="Retry">
+            <RotateCcw className="h-4 w-4" />
+          </button>
+        )}
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="text-gray-400 hover:text-red-600" title="Remove">
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+    <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+      <div
+        className={`h-full transition-all ${
+          upload.status === 'failed' ? 'bg-red-500' : upload.status === 'paused' ? 'bg-gray-400' : 'bg-green-500'
+        } ${upload.status === 'processing' ? 'animate-pulse' : ''}`}
+        style={{ width: `${Math.round(upload.progress * 100)}%` }}
+      />
+    </div>
+    {upload.error && <p className="text-xs text-red-600">{upload.error}</p>}
+  </div>
+);
+
+export default UploadProgress;
@@ -1,9 +1,27 @@
 import React from 'react';
 import { Users, Star, Megaphone, DollarSign, TrendingUp, AlertCircle, CheckCircle, Calendar, Package } from 'lucide-react';
-import { useApp } from '../../context/AppContext';
+import {
+  useCampaignStats,
+  useLatestCampaigns,
+  useLatestOrders,
+  useLatestTalents,
+  useOrderCount,
+  usePaymentStats,
+  useProfileStats,
+} from '../../hooks/useAppData';
 
 const AdminDashboard: React.FC = () => {
-  const { founders, talents, campaigns, orders, transactions, earnings } = useApp();
+  const founderStats = useProfileStats('founder');
+  const talentStats = useProfileStats('talent');
+  const campaignStats = useCampaignStats();
+  const paymentStats = usePaymentStats();
+  const orderCount = useOrderCount({});
+  const completedCount = useOrderCount({ status: 'completed' });
+  const reviewCount = useOrderCount({ status: 'review_submitted' });
+  const inProgressCount = useOrderCount({ status: ['pending_shipment', 'shipped', 'delivered'] });
+  const pendingTalents = useLatestTalents({ status: 'pending' }, 2);
+  const activeCampaigns = useLatestCampaigns({ status: 'active' }, 2);
+  const completedOrders = useLatestOrders({ status: 'completed' }, 2);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -12,48 +30,31 @@ const AdminDashboard: React.FC = () => {
     }).format(amount);
   };
 
-  // Calculate statistics
-  const totalRevenue = transactions
-    .filter(t => t.type === 'credit' && t.description.includes('Admin Fee'))
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const thisMonthRevenue = transactions
-    .filter(t => {
-      const transactionDate = new Date(t.createdAt);
-      const now = new Date();
-      return t.type === 'credit' && 
-             t.description.includes('Admin Fee') &&
-             transactionDate.getMonth() === now.getMonth() && 
-             transactionDate.getFullYear() === now.getFullYear();
-    })
-    .reduce((sum, t) => sum + t.amount, 0);
+  // Platform fees collected, counted on the server
+  const totalRevenue = paymentStats?.admin_fee.total ?? 0;
+  const thisMonthRevenue = paymentStats?.admin_fee.thisMonth ?? 0;
 
   const stats = [
     { 
       name: 'Total Founders', 
-      value: founders.length.toString(), 
+      value: (founderStats?.total ?? 0).toString(), 
       icon: Users, 
       color: 'bg-blue-500',
-      change: `+${founders.filter(f => {
-        const createdDate = new Date(f.createdAt);
-        const now = new Date();
-        return createdDate.getMonth() === now.getMonth() && 
-               createdDate.getFullYear() === now.getFullYear();
-      }).length} this month`
+      change: `+${founderStats?.joinedThisMonth ?? 0} this month`
     },
     { 
       name: 'Active Talents', 
-      value: talents.filter(t => t.status === 'active').length.toString(), 
+      value: (talentStats?.active ?? 0).toString(), 
       icon: Star, 
       color: 'bg-purple-500',
-      change: `${talents.filter(t => t.status === 'pending').length} pending approval`
+      change: `${talentStats?.pending ?? 0} pending approval`
     },
     { 
       name: 'Active Campaigns', 
-      value: campaigns.filter(c => c.status === 'active').length.toString(), 
+      value: (campaignStats?.active ?? 0).toString(), 
       icon: Megaphone, 
       color: 'bg-green-500',
-      change: `${campaigns.filter(c => c.status === 'draft').length} drafts`
+      change: `${campaignStats?.drafts ?? 0} drafts`
     },
     { 
       name: 'Monthly Revenue', 
@@ -65,7 +66,7 @@ const AdminDashboard: React.FC = () => {
   ];
 
   const recentActivity = [
-    ...talents.filter(t => t.status === 'pending').slice(0, 2).map(talent => ({
+    ...pendingTalents.map(talent => ({
       id: `talent-${talent.id}`,
       type: 'talent_approval',
       message: `New talent application from ${talent.name}`,
@@ -73,7 +74,7 @@ const AdminDashboard: React.FC = () => {
       icon: Star,
       color: 'text-purple-600'
     })),
-    ...campaigns.filter(c => c.status === 'active').slice(0, 2).map(campaign => ({
+    ...activeCampaigns.map(campaign => ({
       id: `campaign-${campaign.id}`,
       type: 'campaign_created',
       message: `New campaign "${campaign.title}" created`,
@@ -81,7 +82,7 @@ const AdminDashboard: React.FC = () => {
       icon: Megaphone,
       color: 'text-green-600'
     })),
-    ...orders.filter(o => o.status === 'completed').slice(0, 2).map(order => ({
+    ...completedOrders.map(order => ({
       id: `order-${order.id}`,
       type: 'payout_completed',
       message: `Payout of ${formatCurrency(order.payout)} completed for ${order.campaignTitle}`,
@@ -175,7 +176,7 @@ const AdminDashboard: React.FC = () => {
               <div>
                 <h4 className="font-medium text-yellow-800">Talent Applications</h4>
                 <p className="text-2xl font-bold text-yellow-900">
-                  {talents.filter(t => t.status === 'pending').length}
+                  {talentStats?.pending ?? 0}
                 </p>
                 <p className="text-sm text-yellow-700">Awaiting review</p>
               </div>
@@ -188,7 +189,7 @@ const AdminDashboard: React.FC = () => {
               <div>
                 <h4 className="font-medium text-blue-800">Campaign Reviews</h4>
                 <p className="text-2xl font-bold text-blue-900">
-                  {orders.filter(o => o.status === 'review_submitted').length}
+                  {reviewCount}
                 </p>
                 <p className="text-sm text-blue-700">Pending approval</p>
               </div>
@@ -201,7 +202,7 @@ const AdminDashboard: React.FC = () => {
               <div>
                 <h4 className="font-medium text-green-800">Active Orders</h4>
                 <p className="text-2xl font-bold text-green-900">
-                  {orders.filter(o => ['pending_shipment', 'shipped', 'delivered'].includes(o.status)).length}
+                  {inProgressCount}
                 </p>
                 <p className="text-sm text-green-700">In progress</p>
               </div>
@@ -216,22 +217,22 @@ const AdminDashboard: React.FC = () => {
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Platform Statistics</h3>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="text-center">
-            <p className="text-2xl font-bold text-gray-900">{campaigns.length}</p>
+            <p className="text-2xl font-bold text-gray-900">{campaignStats?.total ?? 0}</p>
             <p className="text-sm text-gray-600">Total Campaigns</p>
           </div>
           <div className="text-center">
-            <p className="text-2xl font-bold text-gray-900">{orders.length}</p>
+            <p className="text-2xl font-bold text-gray-900">{orderCount}</p>
             <p className="text-sm text-gray-600">Total Orders</p>
           </div>
           <div className="text-center">
             <p className="text-2xl font-bold text-gray-900">
-              {formatCurrency(earnings.reduce((sum, e) => sum + e.amount, 0))}
+              {formatCurrency(talentStats?.earningsTotal ?? 0)}
             </p>
             <p className="text-sm text-gray-600">Total Payouts</p>
           </div>
           <div className="text-center">
             <p className="text-2xl font-bold text-gray-900">
-              {Math.round((orders.filter(o => o.status === 'completed').length / Math.max(orders.length, 1)) * 100)}%
+              {Math.round((completedCount / Math.max(orderCount, 1)) * 100)}%
             </p>
             <p className="text-sm text-gray-600">Success Rate</p>
           </div>
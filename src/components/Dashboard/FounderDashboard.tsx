@@ -1,17 +1,27 @@
 import React from 'react';
 import { Megaphone, Package, FileText, DollarSign, Users, TrendingUp } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
+import {
+  useAccountBalances,
+  useCampaignStats,
+  useLatestCampaigns,
+  useLatestOrders,
+  useOrderCount,
+  useWalletStats,
+} from '../../hooks/useAppData';
 import { Founder } from '../../types';
+import LicenseExpiryAlerts from '../Common/LicenseExpiryAlerts';
 
 const FounderDashboard: React.FC = () => {
   const { user } = useAuth();
-  const { campaigns, orders, transactions } = useApp();
-  
   const founder = user as Founder;
-  const founderCampaigns = campaigns.filter(c => c.founderId === founder.id);
-  const founderOrders = orders.filter(o => o.founderId === founder.id);
-  const founderTransactions = transactions.filter(t => t.userId === founder.id);
+  const campaignStats = useCampaignStats(founder.id);
+  const walletStats = useWalletStats();
+  const balances = useAccountBalances();
+  const orderCount = useOrderCount({ founderId: founder.id });
+  const completedCount = useOrderCount({ founderId: founder.id, status: 'completed' });
+  const latestCampaigns = useLatestCampaigns({ founderId: founder.id }, 3);
+  const latestOrders = useLatestOrders({ founderId: founder.id }, 3);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -20,38 +30,36 @@ const FounderDashboard: React.FC = () => {
     }).format(amount);
   };
 
-  const totalSpent = founderTransactions
-    .filter(t => t.type === 'debit')
-    .reduce((sum, t) => sum + t.amount, 0);
+  const totalSpent = walletStats?.debitTotal ?? 0;
 
   const stats = [
     { 
       name: 'Active Campaigns', 
-      value: founderCampaigns.filter(c => c.status === 'active').length.toString(), 
+      value: (campaignStats?.active ?? 0).toString(), 
       icon: Megaphone, 
       color: 'bg-blue-500' 
     },
     { 
       name: 'Total Orders', 
-      value: founderOrders.length.toString(), 
+      value: orderCount.toString(), 
       icon: Package, 
       color: 'bg-green-500' 
     },
     { 
       name: 'Completed Reviews', 
-      value: founderOrders.filter(o => o.status === 'completed').length.toString(), 
+      value: completedCount.toString(), 
       icon: FileText, 
       color: 'bg-purple-500' 
     },
     { 
       name: 'Wallet Balance', 
-      value: formatCurrency(founder.walletBalance), 
+      value: formatCurrency(balances.founderWallet), 
       icon: DollarSign, 
       color: 'bg-yellow-500' 
     },
   ];
 
-  const recentCampaigns = founderCampaigns.slice(0, 3).map(campaign => ({
+  const recentCampaigns = latestCampaigns.map(campaign => ({
     id: campaign.id,
     name: campaign.title,
     status: campaign.status,
@@ -59,7 +67,7 @@ const FounderDashboard: React.FC = () => {
     budget: formatCurrency(campaign.price)
   }));
 
-  const recentOrders = founderOrders.slice(0, 3).map(order => ({
+  const recentOrders = latestOrders.map(order => ({
     id: order.id,
     talent: order.talentName,
     product: order.productName,
@@ -74,6 +82,8 @@ const FounderDashboard: React.FC = () => {
         <p className="text-gray-600">Manage your campaigns and track performance</p>
       </div>
 
+      <LicenseExpiryAlerts viewerRole="founder" />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => {
@@ -105,7 +115,7 @@ const FounderDashboard: React.FC = () => {
             <DollarSign className="h-12 w-12 mx-auto text-gray-300 mb-4" />
             <p className="text-gray-500 mb-2">Total Campaign Investment</p>
             <p className="text-3xl font-bold text-gray-700">{formatCurrency(totalSpent)}</p>
-            <p className="text-sm text-gray-400">{founderCampaigns.length} campaigns created</p>
+            <p className="text-sm text-gray-400">{campaignStats?.total ?? 0} campaigns created</p>
           </div>
         </div>
       </div>
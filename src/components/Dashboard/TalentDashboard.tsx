@@ -1,17 +1,21 @@
 import React from 'react';
 import { Briefcase, DollarSign, Star, TrendingUp, Calendar, Award } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Talent } from '../../types';
+import { useEarningStats, useLatestEarnings, useLatestOrders, useOrderCount } from '../../hooks/useAppData';
+import { OrderStatus, Talent } from '../../types';
+import LicenseExpiryAlerts from '../Common/LicenseExpiryAlerts';
+
+// Every order the talent has not completed yet
+const ACTIVE_STATUSES: OrderStatus[] = ['pending_shipment', 'shipped', 'delivered', 'review_submitted', 'refunded'];
 
 const TalentDashboard: React.FC = () => {
   const { user } = useAuth();
-  const { orders, earnings, campaigns } = useApp();
-  
   const talent = user as Talent;
-  const talentOrders = orders.filter(o => o.talentId === talent.id);
-  const talentEarnings = earnings.filter(e => e.talentId === talent.id);
-  const appliedCampaigns = campaigns.filter(c => c.applicants.includes(talent.id));
+  const earningStats = useEarningStats();
+  const orderCount = useOrderCount({ talentId: talent.id });
+  const completedCount = useOrderCount({ talentId: talent.id, status: 'completed' });
+  const latestActiveOrders = useLatestOrders({ talentId: talent.id, status: ACTIVE_STATUSES }, 3);
+  const latestPaidEarnings = useLatestEarnings({ talentId: talent.id, status: 'paid' }, 3);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -20,22 +24,15 @@ const TalentDashboard: React.FC = () => {
     }).format(amount);
   };
 
-  const totalEarnings = talentEarnings
-    .filter(e => e.status === 'paid')
-    .reduce((sum, e) => sum + e.amount, 0);
-
-  const pendingEarnings = talentEarnings
-    .filter(e => e.status === 'pending')
-    .reduce((sum, e) => sum + e.amount, 0);
-
-  const completedJobs = talentEarnings.filter(e => e.status === 'paid').length;
-  const successRate = talentOrders.length > 0 ? 
-    Math.round((talentOrders.filter(o => o.status === 'completed').length / talentOrders.length) * 100) : 0;
+  const totalEarnings = earningStats?.paidTotal ?? 0;
+  const pendingEarnings = earningStats?.pendingTotal ?? 0;
+  const completedJobs = earningStats?.paidCount ?? 0;
+  const successRate = orderCount > 0 ? Math.round((completedCount / orderCount) * 100) : 0;
 
   const stats = [
     { 
       name: 'Active Jobs', 
-      value: talentOrders.filter(o => !['completed'].includes(o.status)).length.toString(), 
+      value: (orderCount - completedCount).toString(), 
       icon: Briefcase, 
       color: 'bg-blue-500' 
     },
@@ -59,28 +56,22 @@ const TalentDashboard: React.FC = () => {
     },
   ];
 
-  const activeJobs = talentOrders
-    .filter(o => !['completed'].includes(o.status))
-    .slice(0, 3)
-    .map(order => ({
-      id: order.id,
-      campaign: order.campaignTitle,
-      brand: 'Brand', // You might want to get this from founder data
-      deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString(), // Mock deadline
-      status: order.status,
-      payout: formatCurrency(order.payout)
-    }));
+  const activeJobs = latestActiveOrders.map(order => ({
+    id: order.id,
+    campaign: order.campaignTitle,
+    brand: 'Brand', // You might want to get this from founder data
+    deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString(), // Mock deadline
+    status: order.status,
+    payout: formatCurrency(order.payout)
+  }));
 
-  const recentEarnings = talentEarnings
-    .filter(e => e.status === 'paid')
-    .slice(0, 3)
-    .map(earning => ({
-      id: earning.id,
-      campaign: earning.campaignTitle,
-      amount: formatCurrency(earning.amount),
-      date: earning.paidAt?.toLocaleDateString() || earning.earnedAt.toLocaleDateString(),
-      status: earning.status
-    }));
+  const recentEarnings = latestPaidEarnings.map(earning => ({
+    id: earning.id,
+    campaign: earning.campaignTitle,
+    amount: formatCurrency(earning.amount),
+    date: earning.paidAt?.toLocaleDateString() || earning.earnedAt.toLocaleDateString(),
+    status: earning.status
+  }));
 
   return (
     <div className="space-y-6">
@@ -89,6 +80,8 @@ const TalentDashboard: React.FC = () => {
         <p className="text-gray-600">Track your jobs and earnings</p>
       </div>
 
+      <LicenseExpiryAlerts viewerRole="talent" />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {stats.map((stat) => {
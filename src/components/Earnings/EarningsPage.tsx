@@ -1,54 +1,63 @@
 import React, { useState } from 'react';
-import { DollarSign, Search, Filter, Calendar, TrendingUp, Award, Package, CheckCircle, Clock, Star, Download, Eye } from 'lucide-react';
+import { DollarSign, Search, Filter, Calendar, TrendingUp, Award, Package, CheckCircle, Clock, Star, Download, Eye, Wallet, Landmark, XCircle } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Talent } from '../../types';
+import { useAccountBalances, useEarningStats, useWithdrawals } from '../../hooks/useAppData';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { listEarnings } from '../../lib/api';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { Talent, Earning, EarningPayoutStatus, WithdrawalRequest, MIN_WITHDRAWAL_AMOUNT } from '../../types';
+import WithdrawalModal from './WithdrawalModal';
+import LoadMore from '../Common/LoadMore';
+
+const PAYOUT_STATUSES: EarningPayoutStatus[] = ['available', 'withdrawal_pending', 'withdrawn'];
+
+// The start of the period the filter names, from the start of a day so the list's key stays the
+// same while the day lasts
+const getPeriodStart = (period: string) => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  switch (period) {
+    case 'today':
+      return today;
+    case 'week':
+      return new Date(today.getFullYear(), today.getMonth(), today.getDate() - 7);
+    case 'month':
+      return new Date(today.getFullYear(), today.getMonth(), 1);
+    case 'year':
+      return new Date(today.getFullYear(), 0, 1);
+    default:
+      return undefined;
+  }
+};
 
 const EarningsPage: React.FC = () => {
-  const { user } = useAuth();
-  const { earnings, transactions } = useApp();
+  const { user, refreshUser } = useAuth();
+  const accountBalances = useAccountBalances();
+  const withdrawals = useWithdrawals();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [periodFilter, setPeriodFilter] = useState<string>('all');
+  const [showWithdrawalModal, setShowWithdrawalModal] = useState(false);
 
   const talent = user as Talent;
+  const talentWithdrawals = withdrawals.filter(withdrawal => withdrawal.talentId === talent.id);
 
-  // Filter earnings for the current talent
-  const talentEarnings = earnings.filter(earning => earning.talentId === talent.id);
-  const talentTransactions = transactions.filter(transaction => 
-    transaction.userId === talent.id && transaction.type === 'credit'
-  );
-
-  // Apply search and filters
-  const filteredEarnings = talentEarnings.filter(earning => {
-    const matchesSearch = earning.campaignTitle.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || earning.status === statusFilter;
-    
-    let matchesPeriod = true;
-    if (periodFilter !== 'all') {
-      const now = new Date();
-      const earningDate = new Date(earning.earnedAt);
-      
-      switch (periodFilter) {
-        case 'today':
-          matchesPeriod = earningDate.toDateString() === now.toDateString();
-          break;
-        case 'week':
-          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          matchesPeriod = earningDate >= weekAgo;
-          break;
-        case 'month':
-          matchesPeriod = earningDate.getMonth() === now.getMonth() && 
-                         earningDate.getFullYear() === now.getFullYear();
-          break;
-        case 'year':
-          matchesPeriod = earningDate.getFullYear() === now.getFullYear();
-          break;
-      }
-    }
-    
-    return matchesSearch && matchesStatus && matchesPeriod;
-  });
+  // The talent's earnings, searched and filtered on the server a page at a time. A payout status
+  // is only filtered on among paid earnings
+  const search = useDebouncedValue(searchTerm);
+  const payoutStatus = PAYOUT_STATUSES.find(status => status === statusFilter);
+  const filters = {
+    search,
+    talentId: talent.id,
+    status: payoutStatus ? 'paid' as const : statusFilter === 'all' ? undefined : statusFilter as Earning['status'],
+    payoutStatus,
+    earnedSince: getPeriodStart(periodFilter)?.toISOString(),
+  };
+  const earningList = usePagedList(cursor => listEarnings({ filters, cursor }), [...queryKeys.earnings, 'page', filters], 'earning');
+  const filteredEarnings = earningList.items;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -83,20 +92,55 @@ const EarningsPage: React.FC = () => {
     }
   };
 
-  // Calculate statistics
-  const totalEarnings = talentEarnings.reduce((sum, earning) => sum + earning.amount, 0);
-  const paidEarnings = talentEarnings.filter(e => e.status === 'paid').reduce((sum, earning) => sum + earning.amount, 0);
-  const pendingEarnings = talentEarnings.filter(e => e.status === 'pending').reduce((sum, earning) => sum + earning.amount, 0);
+  const getPayoutStatusLabel = (status: EarningPayoutStatus) => {
+    switch (status) {
+      case 'available':          return 'Available';
+      case 'withdrawal_pending': return 'Withdrawal Pending';
+      case 'withdrawn':          return 'Withdrawn';
+    }
+  };
+
+  const getPayoutStatusColor = (status: EarningPayoutStatus) => {
+    switch (status) {
+      case 'available':          return 'bg-blue-100 text-blue-800';
+      case 'withdrawal_pending': return 'bg-yellow-100 text-yellow-800';
+      case 'withdrawn':          return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getWithdrawalStatusColor = (status: WithdrawalRequest['status']) => {
+    switch (status) {
+      case 'paid':     return 'bg-green-100 text-green-800';
+      case 'approved': return 'bg-blue-100 text-blue-800';
+      case 'pending':  return 'bg-yellow-100 text-yellow-800';
+      case 'rejected': return 'bg-red-100 text-red-800';
+    }
+  };
 
-  const thisMonthEarnings = talentEarnings.filter(earning => {
-    const earningDate = new Date(earning.earnedAt);
-    const now = new Date();
-    return earningDate.getMonth() === now.getMonth() && 
-           earningDate.getFullYear() === now.getFullYear();
-  }).reduce((sum, earning) => sum + earning.amount, 0);
+  const getWithdrawalStatusIcon = (status: WithdrawalRequest['status']) => {
+    switch (status) {
+      case 'paid':     return <CheckCircle className="h-4 w-4" />;
+      case 'approved': return <Landmark className="h-4 w-4" />;
+      case 'pending':  return <Clock className="h-4 w-4" />;
+      case 'rejected': return <XCircle className="h-4 w-4" />;
+    }
+  };
+
+  const handleWithdrawalSuccess = async () => {
+    setShowWithdrawalModal(false);
+    await Promise.all([
+      invalidateQueries(queryKeys.withdrawals, queryKeys.transactions, queryKeys.accountBalances),
+      refreshUser(),
+    ]);
+  };
 
-  const completedJobs = talentEarnings.filter(e => e.status === 'paid').length;
-  const averageEarning = completedJobs > 0 ? paidEarnings / completedJobs : 0;
+  // The totals count all of the talent's earnings, not just the pages loaded
+  const stats = useEarningStats();
+  const totalEarnings = stats?.lifetime ?? 0;
+  const withdrawnTotal = talentWithdrawals.filter(w => w.status === 'paid').reduce((sum, withdrawal) => sum + withdrawal.amount, 0);
+  const thisMonthEarnings = stats?.thisMonth ?? 0;
+  const completedJobs = stats?.paidCount ?? 0;
+  const averageEarning = completedJobs > 0 ? (stats?.paidTotal ?? 0) / completedJobs : 0;
 
   return (
     <div className="space-y-6">
@@ -105,6 +149,14 @@ const EarningsPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Earnings</h1>
           <p className="text-gray-600">Track your earnings and payment history</p>
         </div>
+        <button
+          onClick={() => setShowWithdrawalModal(true)}
+          disabled={accountBalances.talentPayable < MIN_WITHDRAWAL_AMOUNT}
+          className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Wallet className="h-5 w-5" />
+          <span>Withdraw</span>
+        </button>
       </div>
 
       {/* Earnings Overview */}
@@ -113,19 +165,22 @@ const EarningsPage: React.FC = () => {
           <div>
             <h2 className="text-lg font-medium text-green-100">Total Earnings</h2>
             <p className="text-4xl font-bold">{formatCurrency(totalEarnings)}</p>
+            <p className="text-green-100 text-sm mt-1">
+              Lifetime earnings from {completedJobs} completed jobs
+            </p>
           </div>
           <div className="p-4 bg-white bg-opacity-20 rounded-full">
             <DollarSign className="h-8 w-8" />
           </div>
         </div>
         
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="bg-white bg-opacity-10 rounded-lg p-4">
             <div className="flex items-center space-x-3">
-              <CheckCircle className="h-6 w-6 text-green-300" />
+              <Wallet className="h-6 w-6 text-green-300" />
               <div>
-                <p className="text-sm text-green-100">Paid</p>
-                <p className="text-xl font-bold">{formatCurrency(paidEarnings)}</p>
+                <p className="text-sm text-green-100">Available</p>
+                <p className="text-xl font-bold">{formatCurrency(accountBalances.talentPayable)}</p>
               </div>
             </div>
           </div>
@@ -134,8 +189,18 @@ const EarningsPage: React.FC = () => {
             <div className="flex items-center space-x-3">
               <Clock className="h-6 w-6 text-yellow-300" />
               <div>
-                <p className="text-sm text-yellow-100">Pending</p>
-                <p className="text-xl font-bold">{formatCurrency(pendingEarnings)}</p>
+                <p className="text-sm text-yellow-100">Withdrawal Pending</p>
+                <p className="text-xl font-bold">{formatCurrency(accountBalances.withdrawalPending)}</p>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white bg-opacity-10 rounded-lg p-4">
+            <div className="flex items-center space-x-3">
+              <CheckCircle className="h-6 w-6 text-purple-300" />
+              <div>
+                <p className="text-sm text-purple-100">Withdrawn</p>
+                <p className="text-xl font-bold">{formatCurrency(withdrawnTotal)}</p>
               </div>
             </div>
           </div>
@@ -227,6 +292,9 @@ const EarningsPage: React.FC = () => {
             <option value="paid">Paid</option>
             <option value="pending">Pending</option>
             <option value="cancelled">Cancelled</option>
+            <option value="available">Available</option>
+            <option value="withdrawal_pending">Withdrawal Pending</option>
+            <option value="withdrawn">Withdrawn</option>
           </select>
           
           <select
@@ -292,10 +360,25 @@ const EarningsPage: React.FC = () => {
                       {getStatusIcon(earning.status)}
                       <span className="ml-1 capitalize">{earning.status}</span>
                     </span>
+                    {earning.status === 'paid' && (
+                      <span className={`ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPayoutStatusColor(earning.payoutStatus)}`}>
+                        {getPayoutStatusLabel(earning.payoutStatus)}
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
             ))}
+            <LoadMore
+              hasMore={earningList.hasMore}
+              loading={earningList.loading}
+              onLoadMore={earningList.loadMore}
+              summary={`Showing ${filteredEarnings.length} of ${earningList.total} earnings`}
+            />
+          </div>
+        ) : earningList.loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
           </div>
         ) : (
           <div className="text-center py-12">
@@ -312,6 +395,65 @@ const EarningsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      {/* Withdrawal History */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900">Withdrawals</h3>
+          <p className="text-gray-600 text-sm">Your requests to cash out to your bank account</p>
+        </div>
+
+        {talentWithdrawals.length > 0 ? (
+          <div className="divide-y divide-gray-200">
+            {talentWithdrawals.map((withdrawal) => (
+              <div key={withdrawal.id} className="p-6 flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <div className="p-3 rounded-full bg-gray-50 border border-gray-200">
+                    <Landmark className="h-4 w-4 text-gray-600" />
+                  </div>
+                  <div>
+                    <h4 className="font-medium text-gray-900">
+                      {withdrawal.bankName} •••• {withdrawal.accountNumber.slice(-4)}
+                    </h4>
+                    <div className="flex items-center text-sm text-gray-500 mt-1">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      Requested: {withdrawal.createdAt.toLocaleDateString()}
+                      {withdrawal.paidAt && <span className="ml-4">Paid: {withdrawal.paidAt.toLocaleDateString()}</span>}
+                    </div>
+                    {withdrawal.status === 'rejected' && withdrawal.adminNote && (
+                      <p className="text-sm text-red-600 mt-1">{withdrawal.adminNote}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-bold text-gray-900">{formatCurrency(withdrawal.amount)}</p>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getWithdrawalStatusColor(withdrawal.status)}`}>
+                    {getWithdrawalStatusIcon(withdrawal.status)}
+                    <span className="ml-1 capitalize">{withdrawal.status}</span>
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <Wallet className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            <p className="text-sm">
+              {accountBalances.talentPayable >= MIN_WITHDRAWAL_AMOUNT
+                ? 'No withdrawals yet. Use the Withdraw button to cash out your available balance.'
+                : `You can withdraw once your available balance reaches RM${MIN_WITHDRAWAL_AMOUNT}`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {showWithdrawalModal && (
+        <WithdrawalModal
+          onClose={() => setShowWithdrawalModal(false)}
+          onSuccess={handleWithdrawalSuccess}
+          availableBalance={accountBalances.talentPayable}
+        />
+      )}
     </div>
   );
 };
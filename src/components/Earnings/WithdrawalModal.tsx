@@ -0,0 +1,302 @@
+import React, { useState, useEffect } from 'react';
+import { X, DollarSign, Landmark, Edit, Info } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { BankAccount, MALAYSIAN_BANKS, MIN_WITHDRAWAL_AMOUNT } from '../../types';
+import { getBankAccount, saveBankAccount, requestWithdrawal } from '../../lib/api';
+import { toast } from '../../lib/toast';
+
+interface WithdrawalModalProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  availableBalance: number;
+}
+
+const WithdrawalModal: React.FC<WithdrawalModalProps> = ({ onClose, onSuccess, availableBalance }) => {
+  const { user } = useAuth();
+  const [amount, setAmount] = useState('');
+  const [bankAccount, setBankAccount] = useState<BankAccount | null>(null);
+  const [editingBank, setEditingBank] = useState(false);
+  const [bankForm, setBankForm] = useState({
+    bankCode: '',
+    accountNumber: '',
+    accountHolderName: user?.name || '',
+  });
+  const [loadingBank, setLoadingBank] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getBankAccount(user.id)
+      .then(account => {
+        setBankAccount(account);
+        setEditingBank(!account);
+        if (account) {
+          setBankForm({
+            bankCode: account.bankCode,
+            accountNumber: account.accountNumber,
+            accountHolderName: account.accountHolderName,
+          });
+        }
+      })
+      .catch(error => {
+        console.error('Error loading bank account:', error);
+        setEditingBank(true);
+      })
+      .finally(() => setLoadingBank(false));
+  }, [user]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('ms-MY', {
+      style: 'currency',
+      currency: 'MYR',
+    }).format(amount);
+  };
+
+  const maskAccountNumber = (accountNumber: string) => {
+    return accountNumber.length > 4 ? `•••• ${accountNumber.slice(-4)}` : accountNumber;
+  };
+
+  const handleBankInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setBankForm(prev => ({
+      ...prev,
+      [name]: name === 'accountNumber' ? value.replace(/\D/g, '') : value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const withdrawalAmount = parseFloat(amount);
+
+    if (!withdrawalAmount || withdrawalAmount <= 0) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
+    if (withdrawalAmount < MIN_WITHDRAWAL_AMOUNT) {
+      toast.error(`Minimum withdrawal amount is RM${MIN_WITHDRAWAL_AMOUNT}`);
+      return;
+    }
+
+    if (withdrawalAmount > availableBalance) {
+      toast.error(`You can withdraw up to ${formatCurrency(availableBalance)}`);
+      return;
+    }
+
+    if (editingBank) {
+      if (!bankForm.bankCode || !bankForm.accountNumber || !bankForm.accountHolderName.trim()) {
+        toast.error('Please complete your bank details');
+        return;
+      }
+
+      if (bankForm.accountNumber.length < 6 || bankForm.accountNumber.length > 20) {
+        toast.error('Bank account number must be between 6 and 20 digits');
+        return;
+      }
+    }
+
+    try {
+      setLoading(true);
+
+      if (editingBank) {
+        const bank = MALAYSIAN_BANKS.find(b => b.code === bankForm.bankCode);
+        await saveBankAccount({
+          bankCode: bankForm.bankCode,
+          bankName: bank?.name || bankForm.bankCode,
+          accountNumber: bankForm.accountNumber,
+          accountHolderName: bankForm.accountHolderName,
+        });
+      }
+
+      await requestWithdrawal(withdrawalAmount);
+      toast.success(`Withdrawal of ${formatCurrency(withdrawalAmount)} requested. You will be notified once it has been paid out.`);
+      onSuccess();
+    } catch (error) {
+      console.error('Error requesting withdrawal:', error);
+      toast.error(error instanceof Error ? error.message : 'Withdrawal request failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Withdraw Earnings</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {/* Available Balance */}
+          <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-lg p-4 border border-green-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-green-600 font-medium">Available Balance</p>
+                <p className="text-2xl font-bold text-green-900">{formatCurrency(availableBalance)}</p>
+              </div>
+              <div className="p-3 bg-green-500 rounded-full">
+                <DollarSign className="h-6 w-6 text-white" />
+              </div>
+            </div>
+          </div>
+
+          {/* Amount */}
+          <div>
+            <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
+              Withdrawal Amount *
+            </label>
+            <div className="flex space-x-2">
+              <div className="relative flex-1">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <span className="text-gray-400 text-sm">RM</span>
+                </div>
+                <input
+                  type="number"
+                  id="amount"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  min={MIN_WITHDRAWAL_AMOUNT}
+                  max={availableBalance}
+                  step="0.01"
+                  required
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Enter amount"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => setAmount(availableBalance.toFixed(2))}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:border-blue-300 hover:bg-blue-50 transition-colors"
+              >
+                Withdraw all
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Minimum: RM{MIN_WITHDRAWAL_AMOUNT}</p>
+          </div>
+
+          {/* Bank Details */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <p className="text-sm font-medium text-gray-700">Pay To</p>
+              {bankAccount && !editingBank && (
+                <button
+                  type="button"
+                  onClick={() => setEditingBank(true)}
+                  className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  <Edit className="h-4 w-4" />
+                  <span>Change</span>
+                </button>
+              )}
+            </div>
+
+            {loadingBank ? (
+              <p className="text-sm text-gray-500">Loading bank details...</p>
+            ) : bankAccount && !editingBank ? (
+              <div className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg">
+                <Landmark className="h-5 w-5 text-gray-400" />
+                <div>
+                  <p className="font-medium text-gray-900">{bankAccount.bankName}</p>
+                  <p className="text-sm text-gray-600">
+                    {bankAccount.accountHolderName} • {maskAccountNumber(bankAccount.accountNumber)}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="bankCode" className="block text-sm font-medium text-gray-700 mb-2">
+                    Bank *
+                  </label>
+                  <select
+                    id="bankCode"
+                    name="bankCode"
+                    value={bankForm.bankCode}
+                    onChange={handleBankInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Select your bank</option>
+                    {MALAYSIAN_BANKS.map(bank => (
+                      <option key={bank.code} value={bank.code}>{bank.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label htmlFor="accountNumber" className="block text-sm font-medium text-gray-700 mb-2">
+                    Account Number *
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    id="accountNumber"
+                    name="accountNumber"
+                    value={bankForm.accountNumber}
+                    onChange={handleBankInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Digits only"
+                  />
+                </div>
+
+                <div>
+                  <label htmlFor="accountHolderName" className="block text-sm font-medium text-gray-700 mb-2">
+                    Account Holder Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="accountHolderName"
+                    name="accountHolderName"
+                    value={bankForm.accountHolderName}
+                    onChange={handleBankInputChange}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="As shown on your bank statement"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-blue-50 rounded-lg p-3 border border-blue-200">
+            <div className="flex items-start space-x-2">
+              <Info className="h-4 w-4 text-blue-600 mt-0.5" />
+              <p className="text-xs text-blue-700">
+                Withdrawals are reviewed by our team and paid out in bank batches, usually within 3 working days.
+                The amount is set aside from your available balance until it is paid or rejected.
+              </p>
+            </div>
+          </div>
+
+          {/* Submit Button */}
+          <div className="flex space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || loadingBank || availableBalance < MIN_WITHDRAWAL_AMOUNT}
+              className="flex-1 px-4 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Submitting...' : 'Request Withdrawal'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default WithdrawalModal;
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { MessageCircle, Paperclip, Search } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { useMessageThreads } from '../../hooks/useAppData';
+import { MessageThread } from '../../types';
+import { getMessageThreads, MESSAGE_THREAD_PAGE_SIZE } from '../../lib/api';
+import ChatPanel from '../Common/ChatPanel';
+import { toast } from '../../lib/toast';
+import { loadMoreThreads } from '../../lib/queries';
+import { navigate } from '../../lib/router';
+
+// How long typing pauses before the search runs
+const SEARCH_DELAY_MS = 300;
+
+interface InboxPageProps {
+  // The order whose conversation is open, from `/inbox/:id`
+  orderId?: string;
+}
+
+const InboxPage: React.FC<InboxPageProps> = ({ orderId }) => {
+  const { user } = useAuth();
+  const { threads } = useMessageThreads();
+  const [searchTerm, setSearchTerm] = useState('');
+  // Conversations matching the search, which the server finds; null while not searching
+  const [results, setResults] = useState<MessageThread[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  // Whether the last page loaded was full; until one is, the cached first page tells
+  const [lastPageFull, setLastPageFull] = useState<boolean | null>(null);
+  const hasMore = lastPageFull ?? threads.length >= MESSAGE_THREAD_PAGE_SIZE;
+  const [loadingMore, setLoadingMore] = useState(false);
+  const selectedOrderId = orderId || null;
+  const setSelectedOrderId = (id: string) => navigate(`/inbox/${id}`);
+
+  useEffect(() => {
+    const term = searchTerm.trim();
+    if (!term) {
+      setResults(null);
+      setLastPageFull(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      getMessageThreads(term)
+        .then(page => {
+          if (cancelled) return;
+          setResults(page);
+          setLastPageFull(page.length === MESSAGE_THREAD_PAGE_SIZE);
+        })
+        .catch(error => console.error('Error searching messages:', error))
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchTerm]);
+
+  // Search results keep the live unread counts and last messages of the threads already loaded
+  const visibleThreads = results
+    ? results.map(result => threads.find(thread => thread.orderId === result.orderId) || result)
+    : threads;
+  const selectedThread =
+    visibleThreads.find(thread => thread.orderId === selectedOrderId) ||
+    threads.find(thread => thread.orderId === selectedOrderId);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      if (results) {
+        const page = await getMessageThreads(searchTerm.trim(), results.length);
+        setResults(prev => [...(prev || []), ...page]);
+        setLastPageFull(page.length === MESSAGE_THREAD_PAGE_SIZE);
+      } else {
+        setLastPageFull(await loadMoreThreads());
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      toast.error('Failed to load more conversations. Please try again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const formatTime = (date: Date) => {
+    const messageDate = new Date(date);
+    if (messageDate.toDateString() === new Date().toDateString()) {
+      return messageDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
+    }
+    return messageDate.toLocaleDateString();
+  };
+
+  const getPreview = (thread: MessageThread) => {
+    const prefix = thread.lastMessage.senderId === user?.id ? 'You: ' : '';
+    if (thread.lastMessage.content) return prefix + thread.lastMessage.content;
+    const count = thread.lastMessage.attachmentCount;
+    return `${prefix}${count} attachment${count === 1 ? '' : 's'}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Inbox</h1>
+        <p className="text-gray-600">Conversations across all your {user?.role === 'founder' ? 'orders' : 'jobs'}</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex h-[70vh] overflow-hidden">
+        {/* Thread List */}
+        <div className="w-80 border-r border-gray-200 flex flex-col">
+          <div className="p-4 border-b border-gray-200">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search conversations..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto">
+            {searching && !results ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+              </div>
+            ) : visibleThreads.length === 0 ? (
+              <div className="text-center py-8 px-4">
+                <MessageCircle className="h-10 w-10 mx-auto text-gray-300 mb-2" />
+                <p className="text-sm text-gray-500">
+                  {results ? 'No conversations match your search' : 'No conversations yet'}
+                </p>
+              </div>
+            ) : (
+              <>
+                {visibleThreads.map(thread => (
+                  <button
+                    key={thread.orderId}
+                    type="button"
+                    onClick={() => setSelectedOrderId(thread.orderId)}
+                    className={`w-full text-left px-4 py-3 border-b border-gray-100 flex items-start space-x-3 transition-colors ${
+                      thread.orderId === selectedOrderId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="w-10 h-10 rounded-full overflow-hidden flex-shrink-0">
+                      {thread.counterpartAvatar ? (
+                        <img src={thread.counterpartAvatar} alt={thread.counterpartName} className="w-full h-full object-cover" />
+                      ) : (
+                        <div className="w-full h-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-white font-bold">
+                          {thread.counterpartName.charAt(0).toUpperCase()}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <span className={`text-sm truncate ${thread.unreadCount > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>
+                          {thread.counterpartName}
+                        </span>
+                        <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                          {formatTime(thread.lastMessage.timestamp)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 truncate">{thread.campaignTitle}</p>
+                      <div className="flex items-center justify-between mt-0.5">
+                        <p className={`text-sm truncate flex items-center ${thread.unreadCount > 0 ? 'text-gray-900' : 'text-gray-600'}`}>
+                          {!thread.lastMessage.content && <Paperclip className="h-3 w-3 mr-1 flex-shrink-0" />}
+                          <span className="truncate">{getPreview(thread)}</span>
+                        </p>
+                        {thread.unreadCount > 0 && (
+                          <span className="ml-2 flex-shrink-0 text-xs font-semibold bg-blue-600 text-white px-2 py-0.5 rounded-full">
+                            {thread.unreadCount}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+                {hasMore && (
+                  <div className="p-3 text-center">
+                    <button
+                      type="button"
+                      onClick={handleLoadMore}
+                      disabled={loadingMore}
+                      className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      {loadingMore ? 'Loading...' : 'Load more'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Conversation */}
+        {selectedThread ? (
+          <ChatPanel
+            key={selectedThread.orderId}
+            jobId={selectedThread.orderId}
+            recipientName={selectedThread.counterpartName}
+            recipientRole={user?.role === 'founder' ? 'talent' : 'founder'}
+            className="flex-1"
+          />
+        ) : (
+          <div className="flex-1 flex items-center justify-center bg-gray-50">
+            <div className="text-center">
+              <MessageCircle className="h-12 w-12 mx-auto text-gray-300 mb-3" />
+              <p className="text-gray-500">Select a conversation to read it</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InboxPage;
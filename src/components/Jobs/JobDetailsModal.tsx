@@ -1,9 +1,17 @@
 import React, { useState, useRef } from 'react';
-import { X, Package, Calendar, DollarSign, MapPin, Truck, CheckCircle, User, Download } from 'lucide-react';
+import { X, Package, Calendar, DollarSign, MapPin, Truck, User, Download } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
 import { Order } from '../../types';
+import { getOriginalDownloadUrl } from '../../lib/mediaAssets';
 import ChatPanel from '../Common/ChatPanel';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import ReviewSubmissionHistory from '../Common/ReviewSubmissionHistory';
+import ReviewAnnotationLightbox from '../Common/ReviewAnnotationLightbox';
+import OrderTimeline from '../Common/OrderTimeline';
+import ContentLicenseCard from '../Common/ContentLicenseCard';
+import OrderDisputePanel from '../Common/OrderDisputePanel';
+import ShipmentTrackingTimeline from '../Common/ShipmentTrackingTimeline';
+import { toast } from '../../lib/toast';
 
 interface JobDetailsModalProps {
   job: Order;
@@ -12,7 +20,6 @@ interface JobDetailsModalProps {
 
 const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
   const { user } = useAuth();
-  const { messages } = useApp();
   
   // Lightbox state
   const [lightboxOpen, setLightboxOpen] = useState(false);
@@ -24,8 +31,14 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
   };
   const handleCloseLightbox = () => setLightboxOpen(false);
 
-  // Filter messages for this specific job
-  const jobMessages = messages.filter(msg => msg.jobId === job.id);
+  // Review files are private, so downloads go through a short lived signed link
+  const handleDownload = async (url: string) => {
+    try {
+      window.location.assign(await getOriginalDownloadUrl(url));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download the file. Please try again.');
+    }
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -34,6 +47,7 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
       case 'delivered': return 'bg-purple-100 text-purple-800';
       case 'review_submitted': return 'bg-green-100 text-green-800';
       case 'completed': return 'bg-gray-100 text-gray-800';
+      case 'refunded': return 'bg-red-100 text-red-800';
       default: return 'bg-gray-100 text-gray-800';
     }
   };
@@ -45,6 +59,7 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
       case 'delivered': return 'Product Delivered';
       case 'review_submitted': return 'Review Submitted';
       case 'completed': return 'Job Completed';
+      case 'refunded': return 'Refunded';
       default: return status;
     }
   };
@@ -115,74 +130,11 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
             {/* Status Timeline */}
             <div className="border-t border-gray-200 pt-6">
               <h4 className="text-lg font-semibold text-gray-900 mb-4">Job Progress</h4>
-              <div className="space-y-4">
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['pending_shipment', 'shipped', 'delivered', 'review_submitted', 'completed'].includes(job.status)
-                      ? 'bg-green-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <CheckCircle className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Job Assigned</p>
-                    <p className="text-sm text-gray-600">You were approved for this campaign</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['shipped', 'delivered', 'review_submitted', 'completed'].includes(job.status)
-                      ? 'bg-green-500 text-white' : job.status === 'pending_shipment' ? 'bg-yellow-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <Truck className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Product Shipped</p>
-                    <p className="text-sm text-gray-600">
-                      {job.status === 'pending_shipment' ? 'Waiting for shipment' : 'Product has been shipped to you'}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['delivered', 'review_submitted', 'completed'].includes(job.status)
-                      ? 'bg-green-500 text-white' : job.status === 'shipped' ? 'bg-blue-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <MapPin className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Product Delivered</p>
-                    <p className="text-sm text-gray-600">
-                      {['delivered', 'review_submitted', 'completed'].includes(job.status) 
-                        ? 'Product delivered successfully' 
-                        : job.status === 'shipped' 
-                          ? 'Product is in transit' 
-                          : 'Waiting for delivery'
-                      }
-                    </p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['review_submitted', 'completed'].includes(job.status)
-                      ? 'bg-green-500 text-white' : job.status === 'delivered' ? 'bg-purple-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <CheckCircle className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Review Submitted</p>
-                    <p className="text-sm text-gray-600">
-                      {['review_submitted', 'completed'].includes(job.status) 
-                        ? 'Review content submitted for approval' 
-                        : job.status === 'delivered' 
-                          ? 'Ready to create and submit review' 
-                          : 'Waiting for product delivery'
-                      }
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <OrderTimeline order={job} />
             </div>
 
+            <OrderDisputePanel order={job} />
+
             {/* Delivery Information */}
             {job.deliveryInfo && (
               <div className="border-t border-gray-200 pt-6">
@@ -214,6 +166,8 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
                     </div>
                   </div>
                 )}
+
+                <ShipmentTrackingTimeline order={job} />
               </div>
             )}
 
@@ -232,98 +186,48 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
                     </div>
                   )}
                   <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {job.reviewSubmission.media.map((media, idx) =>
-                      media.type === 'image' ? (
-                        <div key={idx} className="relative group">
-                          <img
-                            src={media.url}
-                            alt={`Review submission ${idx + 1}`}
-                            className="w-full h-48 object-cover rounded-lg cursor-pointer"
-                            onClick={() => handleOpenLightbox(idx)}
-                          />
-                          <a
-                            href={media.url}
-                            download
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full p-1 shadow transition group-hover:bg-green-200"
-                            title="Download"
-                            onClick={e => e.stopPropagation()}
-                          >
-                            <Download className="h-4 w-4 text-green-600" />
-                          </a>
-                        </div>
-                      ) : (
-                        <div key={idx} className="relative group">
-                          <video
-                            src={media.url}
-                            controls
-                            className="w-full h-48 rounded-lg cursor-pointer"
-                            onClick={() => handleOpenLightbox(idx)}
-                          />
-                          <a
-                            href={media.url}
-                            download
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full p-1 shadow transition group-hover:bg-green-200"
-                            title="Download"
-                            onClick={e => e.stopPropagation()}
-                          >
-                            <Download className="h-4 w-4 text-green-600" />
-                          </a>
-                        </div>
-                      )
-                    )}
+                    {job.reviewSubmission.media.map((media, idx) => (
+                      <div key={idx} className="relative group">
+                        <MediaThumbnail
+                          url={media.url}
+                          type={media.type}
+                          alt={`Review submission ${idx + 1}`}
+                          size="preview"
+                          controls={media.type === 'video'}
+                          className="w-full h-48 object-cover rounded-lg cursor-pointer"
+                          onClick={() => handleOpenLightbox(idx)}
+                        />
+                        <button
+                          type="button"
+                          className="absolute top-2 right-2 bg-white bg-opacity-90 rounded-full p-1 shadow transition group-hover:bg-green-200"
+                          title="Download"
+                          onClick={e => {
+                            e.stopPropagation();
+                            handleDownload(media.url);
+                          }}
+                        >
+                          <Download className="h-4 w-4 text-green-600" />
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
             )}
 
+            <ReviewSubmissionHistory orderId={job.id} orderStatus={job.status} />
+
+            {job.status === 'completed' && <ContentLicenseCard orderId={job.id} orderStatus={job.status} />}
+
             {/* Lightbox Modal for Fullscreen Media */}
-            {lightboxOpen && job.reviewSubmission && job.reviewSubmission.media && (
-              <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex flex-col items-center justify-center transition-all">
-                <button
-                  className="absolute top-6 right-6 text-white text-2xl"
-                  onClick={handleCloseLightbox}
-                  aria-label="Close"
-                >
-                  <X className="w-10 h-10" />
-                </button>
-                <div className="max-w-3xl max-h-[80vh] flex items-center justify-center">
-                  {job.reviewSubmission.media[lightboxIndex].type === 'image' ? (
-                    <img
-                      src={job.reviewSubmission.media[lightboxIndex].url}
-                      alt={`Review submission ${lightboxIndex + 1}`}
-                      className="max-h-[80vh] max-w-full rounded-lg shadow-lg"
-                    />
-                  ) : (
-                    <video
-                      src={job.reviewSubmission.media[lightboxIndex].url}
-                      controls
-                      autoPlay
-                      className="max-h-[80vh] max-w-full rounded-lg shadow-lg"
-                    />
-                  )}
-                </div>
-                {job.reviewSubmission.media.length > 1 && (
-                  <div className="mt-6 flex space-x-4">
-                    {job.reviewSubmission.media.map((m, idx) => (
-                      <button
-                        key={idx}
-                        className={`w-16 h-16 rounded border-2 ${lightboxIndex === idx ? 'border-blue-400' : 'border-transparent'}`}
-                        onClick={() => setLightboxIndex(idx)}
-                      >
-                        {m.type === 'image' ? (
-                          <img src={m.url} alt="" className="w-full h-full object-cover rounded" />
-                        ) : (
-                          <video src={m.url} className="w-full h-full object-cover rounded" />
-                        )}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
+            {lightboxOpen && job.reviewSubmission && (
+              <ReviewAnnotationLightbox
+                orderId={job.id}
+                media={job.reviewSubmission.media}
+                startIndex={lightboxIndex}
+                editable={false}
+                onClose={handleCloseLightbox}
+              />
             )}
           </div>
         </div>
@@ -333,7 +237,6 @@ const JobDetailsModal: React.FC<JobDetailsModalProps> = ({ job, onClose }) => {
           jobId={job.id}
           recipientName="Founder"
           recipientRole="founder"
-          messages={jobMessages}
         />
       </div>
     </div>
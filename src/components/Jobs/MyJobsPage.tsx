@@ -1,37 +1,62 @@
-import React, { useState } from 'react';
-import { Package, Search, Filter, Eye, Clock, Truck, MapPin, CheckCircle, Upload, Star, Calendar, User } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Package, Search, Filter, Eye, Clock, Truck, MapPin, CheckCircle, Upload, Star, Calendar, User, RotateCcw } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Order } from '../../types';
+import { useApplicationCounts, useLatestCampaigns, useOrder, useOrderCount } from '../../hooks/useAppData';
+import { Order, OrderStatus, ReviewSubmission } from '../../types';
+import { getReviewSubmissions, listOrders } from '../../lib/api';
 import JobDetailsModal from './JobDetailsModal';
 import SubmitReviewModal from './SubmitReviewModal';
+import { navigate } from '../../lib/router';
+import { invalidateQueries, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
 
-const MyJobsPage: React.FC = () => {
+interface MyJobsPageProps {
+  // The job open from `/jobs/:id` or `/jobs/:id/submit`, and which of its modals
+  jobId?: string;
+  modal?: 'details' | 'submit';
+}
+
+const MyJobsPage: React.FC<MyJobsPageProps> = ({ jobId, modal }) => {
   const { user } = useAuth();
-  const { orders, setOrders, campaigns } = useApp();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [selectedJob, setSelectedJob] = useState<Order | null>(null);
-  const [submittingReview, setSubmittingReview] = useState<Order | null>(null);
-
-  // Filter orders for the current talent
-  const talentJobs = orders.filter(order => order.talentId === user?.id);
-
-  // Get campaigns where talent is approved but no order exists yet
-  const approvedCampaigns = campaigns.filter(
-  campaign =>
-    campaign.applicants.includes(user?.id || '') &&
-    !campaign.approvedTalents.includes(user?.id || '')
-);
-
-  // Apply search and status filters
-  const filteredJobs = talentJobs.filter(job => {
-    const matchesSearch = job.campaignTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         job.productName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || job.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const [submissions, setSubmissions] = useState<ReviewSubmission[]>([]);
+
+  // The talent's orders, searched and filtered on the server a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    talentId: user?.id,
+    status: statusFilter === 'all' ? undefined : statusFilter as OrderStatus,
+  };
+  const jobList = usePagedList(cursor => listOrders({ filters, cursor }), [...queryKeys.orders, 'page', filters], 'order');
+  const filteredJobs = jobList.items;
+
+  // Reloaded with the orders so a new version or revision request shows up
+  useEffect(() => {
+    getReviewSubmissions()
+      .then(setSubmissions)
+      .catch(error => console.error('Error loading review submissions:', error));
+  }, [filteredJobs]);
+
+  // The cards count all of the talent's orders, not just the pages loaded
+  const pendingShipmentCount = useOrderCount({ talentId: user?.id, status: 'pending_shipment' });
+  const shippedCount = useOrderCount({ talentId: user?.id, status: 'shipped' });
+  const deliveredCount = useOrderCount({ talentId: user?.id, status: 'delivered' });
+  const completedCount = useOrderCount({ talentId: user?.id, status: 'completed' });
+
+  const openJob = useOrder(jobId);
+  const selectedJob = modal === 'details' ? openJob : null;
+  const submittingReview = modal === 'submit' ? openJob : null;
+  const setSelectedJob = (job: Order | null) => navigate(job ? `/jobs/${job.id}` : '/jobs');
+  const setSubmittingReview = (job: Order | null) => navigate(job ? `/jobs/${job.id}/submit` : '/jobs');
+
+  // Get campaigns where talent is approved but no order exists yet: the newest few, and how many
+  const approvedCampaigns = useLatestCampaigns({ pendingApplicationBy: user?.id }, 6);
+  const { applied: approvedCount } = useApplicationCounts();
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -52,6 +77,8 @@ const MyJobsPage: React.FC = () => {
         return 'bg-green-100 text-green-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'refunded':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -86,6 +113,8 @@ const MyJobsPage: React.FC = () => {
         return 'Review Submitted';
       case 'completed':
         return 'Job Completed';
+      case 'refunded':
+        return 'Refunded';
       default:
         return status;
     }
@@ -103,6 +132,8 @@ const MyJobsPage: React.FC = () => {
         return 'Your review has been submitted and is being reviewed.';
       case 'completed':
         return 'Job completed successfully. Payment has been processed.';
+      case 'refunded':
+        return 'Closed by dispute resolution. The payment was refunded to the founder.';
       default:
         return '';
     }
@@ -112,24 +143,28 @@ const MyJobsPage: React.FC = () => {
     return job.status === 'delivered' && !job.reviewSubmission;
   };
 
+  // The version the founder sent back, while the talent still has to upload the next one
+  const getRevisionRequest = (job: Order) => {
+    if (job.status !== 'delivered') return undefined;
+    const versions = submissions.filter(s => s.orderId === job.id);
+    const latest = versions[versions.length - 1];
+    return latest?.status === 'revision_requested' ? latest : undefined;
+  };
+
   const handleSubmitReview = (job: Order) => {
     setSubmittingReview(job);
   };
 
-  const handleReviewSuccess = (jobId: string, reviewData: any) => {
-    setOrders(orders.map(order => 
-      order.id === jobId 
-        ? { 
-            ...order, 
-            status: 'review_submitted',
-            reviewSubmission: {
-              mediaUrl: reviewData.mediaUrl,
-              mediaType: reviewData.mediaType,
-              submittedAt: new Date()
-            }
-          }
-        : order
-    ));
+  const handleReviewSuccess = (jobId: string, reviewData: Pick<ReviewSubmission, 'media' | 'notes'>) => {
+    updateEntity<Order>('order', jobId, order => ({
+      ...order,
+      status: 'review_submitted',
+      reviewSubmission: {
+        media: reviewData.media,
+        submittedAt: new Date()
+      }
+    }));
+    invalidateQueries(queryKeys.orders);
     setSubmittingReview(null);
   };
 
@@ -165,7 +200,7 @@ const MyJobsPage: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Approved</p>
               <p className="text-xl font-bold text-gray-900">
-                {approvedCampaigns.length}
+                {approvedCount}
               </p>
             </div>
           </div>
@@ -179,7 +214,7 @@ const MyJobsPage: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Waiting Shipment</p>
               <p className="text-xl font-bold text-gray-900">
-                {talentJobs.filter(j => j.status === 'pending_shipment').length}
+                {pendingShipmentCount}
               </p>
             </div>
           </div>
@@ -193,7 +228,7 @@ const MyJobsPage: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">In Transit</p>
               <p className="text-xl font-bold text-gray-900">
-                {talentJobs.filter(j => j.status === 'shipped').length}
+                {shippedCount}
               </p>
             </div>
           </div>
@@ -207,7 +242,7 @@ const MyJobsPage: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Ready to Review</p>
               <p className="text-xl font-bold text-gray-900">
-                {talentJobs.filter(j => j.status === 'delivered').length}
+                {deliveredCount}
               </p>
             </div>
           </div>
@@ -221,7 +256,7 @@ const MyJobsPage: React.FC = () => {
             <div className="ml-3">
               <p className="text-sm font-medium text-gray-600">Completed</p>
               <p className="text-xl font-bold text-gray-900">
-                {talentJobs.filter(j => j.status === 'completed').length}
+                {completedCount}
               </p>
             </div>
           </div>
@@ -349,8 +384,36 @@ const MyJobsPage: React.FC = () => {
                     </div>
                   )}
 
+                  {/* Revision Requested */}
+                  {getRevisionRequest(job) && (() => {
+                    const revision = getRevisionRequest(job)!;
+                    return (
+                      <div className="bg-orange-50 rounded-lg p-4 mb-4">
+                        <h4 className="font-medium text-orange-900 mb-2 flex items-center">
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Revision Requested on Version {revision.version}
+                        </h4>
+                        <p className="text-sm text-orange-800 mb-2">{revision.feedbackSummary}</p>
+                        {revision.feedback.length > 0 && (
+                          <ul className="text-sm text-orange-700 list-disc list-inside mb-3">
+                            {revision.feedback.map(item => (
+                              <li key={item.mediaIndex}>Item {item.mediaIndex + 1}: {item.comment}</li>
+                            ))}
+                          </ul>
+                        )}
+                        <button
+                          onClick={() => handleSubmitReview(job)}
+                          className="inline-flex items-center px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                        >
+                          <Upload className="h-4 w-4 mr-2" />
+                          Upload Version {revision.version + 1}
+                        </button>
+                      </div>
+                    );
+                  })()}
+
                   {/* Review Submission */}
-                  {job.status === 'delivered' && (
+                  {job.status === 'delivered' && !getRevisionRequest(job) && (
                     <div className="bg-purple-50 rounded-lg p-4 mb-4">
                       <h4 className="font-medium text-purple-900 mb-2">Ready for Review</h4>
                       <p className="text-sm text-purple-700 mb-3">
@@ -418,6 +481,16 @@ const MyJobsPage: React.FC = () => {
               </div>
             </div>
           ))}
+          <LoadMore
+            hasMore={jobList.hasMore}
+            loading={jobList.loading}
+            onLoadMore={jobList.loadMore}
+            summary={`Showing ${filteredJobs.length} of ${jobList.total} jobs`}
+          />
+        </div>
+      ) : jobList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
@@ -450,6 +523,7 @@ const MyJobsPage: React.FC = () => {
       {submittingReview && (
         <SubmitReviewModal
           job={submittingReview}
+          revision={getRevisionRequest(submittingReview)}
           onClose={() => setSubmittingReview(null)}
           onSuccess={handleReviewSuccess}
         />
@@ -1,30 +1,69 @@
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, Upload, Camera, VideoIcon, FileText, AlertCircle, Trash2 } from 'lucide-react';
-import { Order } from '../../types';
-import { supabase } from '../../lib/supabase';
-import { updateOrder } from '../../lib/api';
+import { CampaignDeliverable, MediaCheck, MediaInspection, Order, ReviewSubmission } from '../../types';
+import { getCampaignDeliverables } from '../../lib/api';
+import { transitionOrder } from '../../lib/orderStateMachine';
+import { acceptsMediaType, describeDeliverable, describeDeliverableRequirements } from '../../lib/deliverables';
+import {
+  MAX_IMAGE_BYTES,
+  MAX_VIDEO_BYTES,
+  checkMediaAgainstBrief,
+  deliverableFromCampaign,
+  formatFileSize,
+  inspectMedia,
+} from '../../lib/mediaInspector';
 import { useAuth } from '../../context/AuthContext';
+import { useCampaign } from '../../hooks/useAppData';
+import { useMediaUploads } from '../../hooks/useMediaUploads';
+import MediaCheckChips from '../Common/MediaCheckChips';
+import UploadProgress from '../Common/UploadProgress';
+import { toast } from '../../lib/toast';
 
 interface MediaPreview {
   file: File;
   url: string;
   type: 'image' | 'video';
   previewLoading: boolean;
+  // The deliverable slot it was added to; empty for campaigns without deliverables
+  deliverableId: string;
+  inspecting: boolean;
+  // What the browser read from the file and how it compares with the brief
+  inspection?: MediaInspection;
+  checks?: MediaCheck[];
 }
 
 interface SubmitReviewModalProps {
   job: Order;
+  // The version the founder sent back, when this upload is a revision
+  revision?: ReviewSubmission;
   onClose: () => void;
-  onSuccess: (jobId: string, reviewData: any) => void;
+  onSuccess: (jobId: string, reviewData: Pick<ReviewSubmission, 'media' | 'notes'>) => void;
 }
 
-const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onSuccess }) => {
+const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, revision, onClose, onSuccess }) => {
   const { user } = useAuth();
+  const campaign = useCampaign(job.campaignId);
   const [loading, setLoading] = useState(false);
   const [mediaFiles, setMediaFiles] = useState<MediaPreview[]>([]);
   const [reviewNotes, setReviewNotes] = useState('');
   const [error, setError] = useState('');
   const [uploading, setUploading] = useState(false);
+  const [deliverables, setDeliverables] = useState<CampaignDeliverable[]>([]);
+  const [deliverablesLoaded, setDeliverablesLoaded] = useState(false);
+  // The founder sees only the watermarked copies until the order is paid
+  const uploads = useMediaUploads('review-submissions', {
+    watermark: user ? `Preview · ${user.name} · Order ${job.id.slice(0, 8)}` : undefined,
+  });
+
+  useEffect(() => {
+    getCampaignDeliverables(job.campaignId)
+      .then(setDeliverables)
+      .catch(error => console.error('Error loading campaign deliverables:', error))
+      .finally(() => setDeliverablesLoaded(true));
+  }, [job.campaignId]);
+
+  // Campaigns without deliverables take any files in a single slot
+  const slots: (CampaignDeliverable | null)[] = !deliverablesLoaded ? [] : deliverables.length > 0 ? deliverables : [null];
 
   // Helper: detect file type
   const getFileTypeFromMime = (file: File) => {
@@ -33,50 +72,103 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
     return null;
   };
 
-  // Add files (multi-select, image or video)
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Campaigns without deliverables are checked against their length and media type instead
+  const getBrief = (deliverable: CampaignDeliverable | null) => {
+    if (deliverable) return deliverable;
+    return campaign ? deliverableFromCampaign(campaign) : null;
+  };
+
+  // Reads the file in the browser and compares it with the brief; a file that cannot be read
+  // is uploaded without checks
+  const inspect = (preview: MediaPreview, deliverable: CampaignDeliverable | null) => {
+    inspectMedia(preview.file, preview.url, preview.type)
+      .then(inspection => {
+        const checks = checkMediaAgainstBrief(inspection, preview.type, getBrief(deliverable));
+        setMediaFiles(files => files.map(f => (f.url === preview.url ? { ...f, inspection, checks, inspecting: false } : f)));
+      })
+      .catch(error => {
+        console.error('Error inspecting media:', error);
+        setMediaFiles(files => files.map(f => (f.url === preview.url ? { ...f, inspecting: false } : f)));
+      });
+  };
+
+  // Add files to one deliverable slot (multi-select, image or video)
+  const handleFileChange = (deliverable: CampaignDeliverable | null, e: React.ChangeEvent<HTMLInputElement>) => {
     setUploading(true);
-    try{
-    const files = Array.from(e.target.files || []);
-    let nextFiles = [...mediaFiles];
+    try {
+      const files = Array.from(e.target.files || []);
+      e.target.value = '';
+      let nextFiles = [...mediaFiles];
 
-    files.forEach(file => {
-      const fileType = getFileTypeFromMime(file);
-      if (!fileType) return;
-      const maxSize = fileType === 'image' ? 10 * 1024 * 1024 : 50 * 1024 * 1024;
-      if (file.size > maxSize) {
-        alert(`File ${file.name} too large. Max ${fileType === 'image' ? '10MB' : '50MB'}.`);
-        return;
-      }
-      // Prevent duplicates
-      if (nextFiles.some(mf => mf.file.name === file.name && mf.file.size === file.size)) return;
-      nextFiles.push({
-        file,
-        url: URL.createObjectURL(file),
-        type: fileType,
-        previewLoading: true,
+      files.forEach(file => {
+        const fileType = getFileTypeFromMime(file);
+        if (!fileType) return;
+        if (deliverable && !acceptsMediaType(deliverable, fileType)) {
+          toast.error(`${file.name} is not a ${deliverable.kind === 'photo' ? 'photo' : 'video'}.`);
+          return;
+        }
+        const maxSize = fileType === 'image' ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+        if (file.size > maxSize) {
+          toast.error(`File ${file.name} too large. Max ${formatFileSize(maxSize)}.`);
+          return;
+        }
+        // Prevent duplicates
+        if (nextFiles.some(mf => mf.file.name === file.name && mf.file.size === file.size)) return;
+        const preview: MediaPreview = {
+          file,
+          url: URL.createObjectURL(file),
+          type: fileType,
+          previewLoading: true,
+          deliverableId: deliverable?.id || '',
+          inspecting: true,
+        };
+        nextFiles.push(preview);
+        inspect(preview, deliverable);
       });
-    });
 
-    setMediaFiles(nextFiles);
-        } catch (error) {
-    console.error('Error processing files:', error);
-    alert('Failed to process files. Please try again.');
-  } finally {
-    setUploading(false);
-  }
+      setMediaFiles(nextFiles);
+    } catch (error) {
+      console.error('Error processing files:', error);
+      toast.error('Failed to process files. Please try again.');
+    } finally {
+      setUploading(false);
+    }
   };
 
   // Remove a single file
   const removeFile = (idx: number) => {
+    uploads.remove(mediaFiles[idx].url);
     setMediaFiles(files => files.filter((_, i) => i !== idx));
   };
 
+  // Files uploaded for a submission that is never sent are deleted
+  const handleClose = () => {
+    uploads.discard();
+    onClose();
+  };
+
+  // Returns why the files are not ready to submit, or null when every deliverable is covered
+  const getMissingDeliverable = (): string | null => {
+    if (!mediaFiles.length) return 'Please select at least one photo or video.';
+
+    const missing = deliverables.findIndex(d => mediaFiles.filter(media => media.deliverableId === d.id).length < d.quantity);
+    if (missing !== -1) {
+      return `Deliverable ${missing + 1} needs ${deliverables[missing].quantity} file${deliverables[missing].quantity > 1 ? 's' : ''}.`;
+    }
+
+    return null;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    if (!mediaFiles.length) {
-      setError('Please select at least one photo or video.');
+    const missing = getMissingDeliverable();
+    if (missing) {
+      setError(missing);
+      return;
+    }
+    if (mediaFiles.some(media => media.checks?.some(check => !check.passed))
+      && !confirm("Some files don't match the brief. The founder will see the same checks. Submit anyway?")) {
       return;
     }
     if (!user) {
@@ -86,38 +178,39 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
     setLoading(true);
 
     try {
-      const uploadedMedia: { url: string; type: 'image' | 'video' }[] = [];
+      // Files already uploaded by an earlier attempt are not uploaded again, and a paused or
+      // failed file does not stop the others
+      const uploadedMedia: ReviewSubmission['media'] = [];
+      let incomplete = 0;
       for (const media of mediaFiles) {
         const timestamp = Date.now();
         const filePath = `${user.id}/${timestamp}_${media.file.name}`;
-        const { error: uploadError } = await supabase
-          .storage
-          .from('review-submissions')
-          .upload(filePath, media.file);
-
-        if (uploadError) {
-          setError(`Upload failed: ${media.file.name}: ${uploadError.message}`);
-          setLoading(false);
-          return;
-        }
-        const { data } = supabase.storage.from('review-submissions').getPublicUrl(filePath);
-        const publicUrl = data?.publicUrl;
-        if (!publicUrl) {
-          setError('Failed to retrieve file URL.');
-          setLoading(false);
-          return;
+        const asset = await uploads.upload(media.url, media.file, filePath);
+        if (!asset) {
+          incomplete++;
+          continue;
         }
-        uploadedMedia.push({ url: publicUrl, type: media.type });
+        uploadedMedia.push({
+          url: asset.url,
+          type: media.type,
+          deliverableId: media.deliverableId || undefined,
+          inspection: media.inspection,
+          checks: media.checks,
+        });
       }
 
-      // Save review with new media array format
-      await updateOrder(job.id, {
-        status: 'review_submitted',
-        review_media: uploadedMedia,
-        review_submitted_at: new Date().toISOString(),
+      if (incomplete > 0) {
+        setError(`${incomplete} file${incomplete > 1 ? 's' : ''} did not finish uploading. Resume or retry ${incomplete > 1 ? 'them' : 'it'}, then submit again.`);
+        setLoading(false);
+        return;
+      }
+
+      await transitionOrder(job, 'submit_review', user, {
+        media: uploadedMedia,
         notes: reviewNotes,
       });
 
+      uploads.keep();
       onSuccess(job.id, {
         media: uploadedMedia,
         notes: reviewNotes,
@@ -135,9 +228,11 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
-          <h2 className="text-xl font-semibold text-gray-900">Submit Review Content</h2>
+          <h2 className="text-xl font-semibold text-gray-900">
+            {revision ? `Submit Version ${revision.version + 1}` : 'Submit Review Content'}
+          </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-gray-400 hover:text-gray-600 transition-colors"
           >
             <X className="h-6 w-6" />
@@ -145,80 +240,139 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Media Upload */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Upload Photos or Videos *
-            </label>
-            <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
-              <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                <Upload className="w-10 h-10 mb-3 text-gray-400" />
+          {revision && (
+            <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+              <h4 className="font-medium text-orange-900 mb-1">Founder's feedback on version {revision.version}</h4>
+              <p className="text-sm text-orange-800">{revision.feedbackSummary}</p>
+              {revision.feedback.length > 0 && (
+                <ul className="mt-2 text-sm text-orange-700 list-disc list-inside">
+                  {revision.feedback.map(item => (
+                    <li key={item.mediaIndex}>Item {item.mediaIndex + 1}: {item.comment}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
 
-                  <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-              </svg>
-                <p className="mb-2 text-sm text-gray-500">
-                  <span className="font-semibold">Click to upload</span> or drag files
-                </p>
-                <p className="text-xs text-gray-500">
-                  Images: PNG, JPG, JPEG (max 10MB)<br />
-                  Videos: MP4, MOV, AVI (max 50MB)
-                </p>
-              </div>
-              <input
-                type="file"
-                className="hidden"
-                accept="image/*,video/*"
-                multiple
-                onChange={handleFileChange}
-                required={mediaFiles.length === 0}
-                disabled={uploading}
-              />
-            </label>
-            {/* Previews for all selected files */}
-            {mediaFiles.length > 0 && (
-              <div className="grid grid-cols-2 gap-3 mt-4">
-                {mediaFiles.map((media, idx) => (
-                  <div key={idx} className="relative border border-gray-200 rounded-lg overflow-hidden bg-gray-50">
-                    <button
-                      type="button"
-                      className="absolute top-1 right-1 bg-white rounded-full p-1 shadow text-red-600 hover:text-red-900"
-                      onClick={() => removeFile(idx)}
-                      title="Remove"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                    {media.type === 'image' ? (
-                      <img
-                        src={media.url}
-                        alt={`Preview ${idx + 1}`}
-                        className="w-full h-32 object-cover"
-                        onLoad={() => {
-                          setMediaFiles(files =>
-                            files.map((f, i) => i === idx ? { ...f, previewLoading: false } : f)
-                          );
-                        }}
-                        style={{ opacity: media.previewLoading ? 0.5 : 1 }}
-                      />
+          {/* Media Upload, one slot per deliverable */}
+          {slots.map((deliverable, slotIndex) => {
+            const slotFiles = mediaFiles
+              .map((media, idx) => ({ media, idx, upload: uploads.uploads.find(item => item.id === media.url) }))
+              .filter(({ media }) => media.deliverableId === (deliverable?.id || ''));
+            const requirements = deliverable ? describeDeliverableRequirements(deliverable) : [];
+
+            return (
+              <div key={deliverable?.id || 'media'}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {deliverable
+                    ? `${slotIndex + 1}. ${describeDeliverable(deliverable)} *`
+                    : 'Upload Photos or Videos *'}
+                  {deliverable && (
+                    <span className="ml-2 font-normal text-gray-500">
+                      {slotFiles.length}/{deliverable.quantity}
+                    </span>
+                  )}
+                </label>
+                {requirements.length > 0 && (
+                  <p className="text-xs text-gray-600 mb-1">{requirements.join(' • ')}</p>
+                )}
+                {deliverable?.dos && <p className="text-xs text-green-700">Do: {deliverable.dos}</p>}
+                {deliverable?.donts && <p className="text-xs text-red-700">Don't: {deliverable.donts}</p>}
+                <label className="flex flex-col items-center justify-center w-full h-28 mt-2 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
+                  <div className="flex flex-col items-center justify-center pt-4 pb-4">
+                    {deliverable?.kind === 'photo' ? (
+                      <Camera className="w-8 h-8 mb-2 text-gray-400" />
+                    ) : deliverable?.kind === 'video' ? (
+                      <VideoIcon className="w-8 h-8 mb-2 text-gray-400" />
                     ) : (
-                      <video
-                        src={media.url}
-                        controls
-                        className="w-full h-32"
-                        onLoadedData={() => {
-                          setMediaFiles(files =>
-                            files.map((f, i) => i === idx ? { ...f, previewLoading: false } : f)
-                          );
-                        }}
-                        style={{ opacity: media.previewLoading ? 0.5 : 1 }}
-                      />
+                      <Upload className="w-8 h-8 mb-2 text-gray-400" />
                     )}
+                    <p className="mb-1 text-sm text-gray-500">
+                      <span className="font-semibold">Click to upload</span> or drag files
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {deliverable?.kind !== 'video' && 'Images: PNG, JPG, JPEG (max 10MB)'}
+                      {!deliverable && <br />}
+                      {deliverable?.kind !== 'photo' && 'Videos: MP4, MOV, AVI (max 50MB)'}
+                    </p>
+                  </div>
+                  <input
+                    type="file"
+                    className="hidden"
+                    accept={deliverable?.kind === 'photo' ? 'image/*' : deliverable?.kind === 'video' ? 'video/*' : 'image/*,video/*'}
+                    multiple
+                    onChange={e => handleFileChange(deliverable, e)}
+                    disabled={uploading}
+                  />
+                </label>
+                {/* Previews for the files in this slot */}
+                {slotFiles.length > 0 && (
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    {slotFiles.map(({ media, idx, upload }) => (
+                      <div
+                        key={media.url}
+                        className={`relative border rounded-lg overflow-hidden bg-gray-50 ${
+                          media.checks?.some(check => !check.passed) ? 'border-red-300' : 'border-gray-200'
+                        }`}
+                      >
+                        <button
+                          type="button"
+                          className="absolute top-1 right-1 z-10 bg-white rounded-full p-1 shadow text-red-600 hover:text-red-900"
+                          onClick={() => removeFile(idx)}
+                          title="Remove"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                        {media.type === 'image' ? (
+                          <img
+                            src={media.url}
+                            alt={`Preview ${idx + 1}`}
+                            className="w-full h-32 object-cover"
+                            onLoad={() => {
+                              setMediaFiles(files =>
+                                files.map((f, i) => i === idx ? { ...f, previewLoading: false } : f)
+                              );
+                            }}
+                            style={{ opacity: media.previewLoading ? 0.5 : 1 }}
+                          />
+                        ) : (
+                          <video
+                            src={media.url}
+                            controls
+                            className="w-full h-32"
+                            onLoadedData={() => {
+                              setMediaFiles(files =>
+                                files.map((f, i) => i === idx ? { ...f, previewLoading: false } : f)
+                              );
+                            }}
+                            style={{ opacity: media.previewLoading ? 0.5 : 1 }}
+                          />
+                        )}
+                        <div className="px-2 py-1.5">
+                          {media.inspecting ? (
+                            <p className="text-xs text-gray-500">Checking file...</p>
+                          ) : media.checks ? (
+                            <MediaCheckChips checks={media.checks} />
+                          ) : (
+                            <p className="text-xs text-gray-500">Could not check this file</p>
+                          )}
+                          {upload && (
+                            <div className="mt-1.5">
+                              <UploadProgress
+                                upload={upload}
+                                onPause={() => uploads.pause(upload.id)}
+                                onResume={() => uploads.resume(upload.id)}
+                              />
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                )}
               </div>
-            )}
-          </div>
+            );
+          })}
 
           {/* Review Notes */}
           <div>
@@ -240,6 +394,12 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
             </div>
           </div>
 
+          {loading && mediaFiles.some(media => media.type === 'video') && (
+            <p className="text-sm text-gray-600">
+              Watermarked previews are made in your browser and take about as long as the video plays. Keep this tab open until it finishes.
+            </p>
+          )}
+
           {error && (
             <div className="bg-red-100 border border-red-300 text-red-700 px-4 py-2 rounded mb-2 text-sm flex items-center space-x-2">
               <AlertCircle className="w-5 h-5" />
@@ -250,7 +410,7 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
               type="button"
-              onClick={onClose}
+              onClick={handleClose}
               className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
               disabled={loading}
             >
@@ -258,7 +418,7 @@ const SubmitReviewModal: React.FC<SubmitReviewModalProps> = ({ job, onClose, onS
             </button>
             <button
               type="submit"
-              disabled={loading || !mediaFiles.length}
+              disabled={loading || !mediaFiles.length || mediaFiles.some(media => media.inspecting)}
               className="px-6 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
             >
               {loading ? (
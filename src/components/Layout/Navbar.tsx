@@ -1,12 +1,16 @@
 import React, { useState } from 'react';
-import { User, LogOut, Menu, X, Wallet, Settings } from 'lucide-react';
+import { User, LogOut, Menu, X, Wallet, Settings, MessageCircle } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Founder, Talent } from '../../types';
+import { useAccountBalances, useEarningStats, useMessageThreads } from '../../hooks/useAppData';
+import { Talent } from '../../types';
+import { getLocation, navigate, withSearchParam } from '../../lib/router';
+import NotificationBell from './NotificationBell';
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
-  const { earnings } = useApp();
+  const balances = useAccountBalances();
+  const earningStats = useEarningStats();
+  const { unreadCount } = useMessageThreads();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
 
   const handleLogout = () => {
@@ -25,13 +29,10 @@ const Navbar: React.FC = () => {
 
   const isFounder = user?.role === 'founder';
   const isTalent = user?.role === 'talent';
-  const founderUser = user as Founder;
   const talentUser = user as Talent;
 
-  // Calculate talent's total earnings
-  const talentTotalEarnings = isTalent 
-    ? earnings.filter(e => e.talentId === user.id && e.status === 'paid').reduce((sum, e) => sum + e.amount, 0)
-    : 0;
+  // Talent's paid out earnings
+  const talentTotalEarnings = earningStats?.paidTotal || 0;
 
   return (
     <nav className="bg-gradient-to-r from-blue-50 via-indigo-50 to-purple-50 shadow-md border-b border-gray-200">
@@ -48,11 +49,11 @@ const Navbar: React.FC = () => {
           <div className="hidden md:block">
             <div className="ml-4 flex items-center md:ml-6 space-x-4">
               {/* Wallet Balance for Founders */}
-              {isFounder && founderUser.walletBalance !== undefined && (
+              {isFounder && (
                 <div className="flex items-center space-x-2 bg-gradient-to-r from-green-50 to-blue-50 px-3 py-2 rounded-lg border border-green-200">
                   <Wallet className="h-4 w-4 text-green-600" />
                   <span className="text-sm font-semibold text-green-700">
-                    {formatCurrency(founderUser.walletBalance)}
+                    {formatCurrency(balances.founderWallet)}
                   </span>
                 </div>
               )}
@@ -67,6 +68,24 @@ const Navbar: React.FC = () => {
                 </div>
               )}
 
+              {/* Unread messages across all orders */}
+              {(isFounder || isTalent) && (
+                <button
+                  onClick={() => navigate('/inbox')}
+                  className="relative p-2 text-gray-600 hover:text-blue-600 hover:bg-white rounded-lg transition-colors"
+                  title="Inbox"
+                >
+                  <MessageCircle className="h-5 w-5" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-semibold bg-red-500 text-white rounded-full">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </button>
+              )}
+
+              <NotificationBell />
+
               <div className="relative">
                 <button
                   onClick={() => setIsMenuOpen(!isMenuOpen)}
@@ -120,14 +139,14 @@ const Navbar: React.FC = () => {
                       </div>
 
                       {/* Balance/Earnings in Dropdown for Mobile */}
-                      {isFounder && founderUser.walletBalance !== undefined && (
+                      {isFounder && (
                         <div className="px-4 py-2 border-b border-gray-100">
                           <div className="flex items-center justify-between">
                             <span className="text-sm text-gray-600">Wallet Balance</span>
                             <div className="flex items-center space-x-1">
                               <Wallet className="h-4 w-4 text-green-600" />
                               <span className="text-sm font-semibold text-green-700">
-                                {formatCurrency(founderUser.walletBalance)}
+                                {formatCurrency(balances.founderWallet)}
                               </span>
                             </div>
                           </div>
@@ -152,7 +171,7 @@ const Navbar: React.FC = () => {
                       <button
                         onClick={() => {
                           setIsMenuOpen(false);
-                          window.dispatchEvent(new CustomEvent('openProfileModal'));
+                          navigate(withSearchParam(getLocation(), 'modal', 'profile'));
                         }}
                         className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
                       >
@@ -213,14 +232,14 @@ const Navbar: React.FC = () => {
               </div>
 
               {/* Balance/Earnings for Mobile */}
-              {isFounder && founderUser.walletBalance !== undefined && (
+              {isFounder && (
                 <div className="px-3 py-2 bg-gradient-to-r from-green-50 to-blue-50 rounded-lg border border-green-200 mx-3">
                   <div className="flex items-center justify-between">
                     <span className="text-sm font-medium text-gray-700">Wallet Balance</span>
                     <div className="flex items-center space-x-1">
                       <Wallet className="h-4 w-4 text-green-600" />
                       <span className="text-sm font-bold text-green-700">
-                        {formatCurrency(founderUser.walletBalance)}
+                        {formatCurrency(balances.founderWallet)}
                       </span>
                     </div>
                   </div>
@@ -245,7 +264,7 @@ const Navbar: React.FC = () => {
               <button
                 onClick={() => {
                   setIsMenuOpen(false);
-                  window.dispatchEvent(new CustomEvent('openProfileModal'));
+                  navigate(withSearchParam(getLocation(), 'modal', 'profile'));
                 }}
                 className="flex items-center w-full px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
               >
@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, CheckCheck } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { AppNotification } from '../../types';
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from '../../lib/api';
+import { toast } from '../../lib/toast';
+import { getNotificationPath, navigate } from '../../lib/router';
+
+const NotificationBell: React.FC = () => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const refreshUnreadCount = () => {
+    getUnreadNotificationCount().then(setUnreadCount).catch(console.error);
+  };
+
+  const open = (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      setNotifications(prev => prev.map(item => (item.id === notification.id ? { ...item, readAt: new Date() } : item)));
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+      markNotificationsRead([notification.id]).catch(console.error);
+    }
+    navigate(getNotificationPath(notification.link));
+  };
+  // For toasts, which outlive the render they were raised in
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  useEffect(() => {
+    if (!user) return;
+
+    getNotifications().then(setNotifications).catch(console.error);
+    getUnreadNotificationCount().then(setUnreadCount).catch(console.error);
+
+    const subscription = subscribeToNotifications(user.id, (notification, isNew) => {
+      setNotifications(prev => [notification, ...prev.filter(item => item.id !== notification.id)]);
+      if (isNew) {
+        setUnreadCount(prev => prev + 1);
+      } else {
+        getUnreadNotificationCount().then(setUnreadCount).catch(console.error);
+      }
+      // Updates that are not reads are later messages in a chat
+      if (!notification.readAt) {
+        toast.info(`${notification.title}\n${notification.body}`, () => openRef.current(notification));
+      }
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user]);
+
+  const handleMarkAllRead = async () => {
+    const readAt = new Date();
+    setNotifications(prev => prev.map(item => (item.readAt ? item : { ...item, readAt })));
+    setUnreadCount(0);
+    try {
+      await markNotificationsRead();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      refreshUnreadCount();
+    }
+  };
+
+  const formatTime = (date: Date) => {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return 'Just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ago`;
+    return date.toLocaleDateString();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-600 hover:text-blue-600 hover:bg-white rounded-lg transition-colors"
+        title="Notifications"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-xs font-semibold bg-red-500 text-white rounded-full">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg ring-1 ring-black ring-opacity-5 z-50 border border-gray-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center text-xs text-blue-600 hover:text-blue-800"
+              >
+                <CheckCheck className="h-3 w-3 mr-1" />
+                Mark all as read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <div className="text-center py-8">
+                <Bell className="h-8 w-8 mx-auto text-gray-300 mb-2" />
+                <p className="text-sm text-gray-500">No notifications yet</p>
+              </div>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => open(notification)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 flex items-start space-x-3 transition-colors hover:bg-gray-50 ${
+                    notification.readAt ? '' : 'bg-blue-50'
+                  }`}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 rounded-full flex-shrink-0 ${notification.readAt ? 'bg-transparent' : 'bg-blue-600'}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+                      {notification.title}
+                    </p>
+                    {notification.body && <p className="text-sm text-gray-600 truncate">{notification.body}</p>}
+                    <p className="text-xs text-gray-400 mt-0.5">{formatTime(notification.createdAt)}</p>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -10,44 +10,49 @@ import {
   Package,
   BarChart3,
   Settings,
-  CreditCard
+  CreditCard,
+  Scale
 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
+import { useMessageThreads } from '../../hooks/useAppData';
+import { navigate, withSearchParam } from '../../lib/router';
+import { useLocation } from '../../hooks/useLocation';
 
-interface SidebarProps {
-  currentPage: string;
-  onPageChange: (page: string) => void;
-}
-
-const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
+const Sidebar: React.FC = () => {
   const { user } = useAuth();
+  const { unreadCount } = useMessageThreads();
+  const { location, pathname, searchParams } = useLocation();
 
   const getMenuItems = () => {
     switch (user?.role) {
       case 'admin':
         return [
-          { id: 'dashboard', label: 'Dashboard', icon: Home },
-          { id: 'founders', label: 'Founders', icon: Users },
-          { id: 'talents', label: 'Talents', icon: Star },
-          { id: 'campaigns', label: 'Campaigns', icon: Megaphone },
-          { id: 'payments', label: 'Payments', icon: CreditCard },
-          { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+          { id: 'dashboard', path: '/dashboard', label: 'Dashboard', icon: Home },
+          { id: 'founders', path: '/admin/founders', label: 'Founders', icon: Users },
+          { id: 'talents', path: '/admin/talents', label: 'Talents', icon: Star },
+          { id: 'campaigns', path: '/admin/campaigns', label: 'Campaigns', icon: Megaphone },
+          { id: 'payments', path: '/admin/payments', label: 'Payments', icon: CreditCard },
+          { id: 'disputes', path: '/admin/disputes', label: 'Disputes', icon: Scale },
+          { id: 'analytics', path: '/admin/analytics', label: 'Analytics', icon: BarChart3 },
+          { id: 'settings', path: '/admin/settings', label: 'Settings', icon: Settings },
         ];
       case 'founder':
         return [
-          { id: 'dashboard', label: 'Dashboard', icon: Home },
-          { id: 'campaigns', label: 'Campaigns', icon: Megaphone },
-          { id: 'orders', label: 'Orders', icon: Package },
-          { id: 'reviews', label: 'Reviews', icon: FileText },
-          { id: 'wallet', label: 'E-Wallet', icon: Wallet },
+          { id: 'dashboard', path: '/dashboard', label: 'Dashboard', icon: Home },
+          { id: 'campaigns', path: '/campaigns', label: 'Campaigns', icon: Megaphone },
+          { id: 'orders', path: '/orders', label: 'Orders', icon: Package },
+          { id: 'reviews', path: '/reviews', label: 'Reviews', icon: FileText },
+          { id: 'inbox', path: '/inbox', label: 'Inbox', icon: MessageCircle },
+          { id: 'wallet', path: '/wallet', label: 'E-Wallet', icon: Wallet },
         ];
       case 'talent':
         return [
-          { id: 'dashboard', label: 'Dashboard', icon: Home },
-          { id: 'marketplace', label: 'Marketplace', icon: Megaphone },
-          { id: 'jobs', label: 'My Jobs', icon: Package },
-          { id: 'earnings', label: 'Earnings', icon: Wallet },
-          { id: 'profile', label: 'Profile', icon: Settings },
+          { id: 'dashboard', path: '/dashboard', label: 'Dashboard', icon: Home },
+          { id: 'marketplace', path: '/marketplace', label: 'Marketplace', icon: Megaphone },
+          { id: 'jobs', path: '/jobs', label: 'My Jobs', icon: Package },
+          { id: 'inbox', path: '/inbox', label: 'Inbox', icon: MessageCircle },
+          { id: 'earnings', path: '/earnings', label: 'Earnings', icon: Wallet },
+          { id: 'profile', path: withSearchParam(location, 'modal', 'profile'), label: 'Profile', icon: Settings },
         ];
       default:
         return [];
@@ -62,12 +67,15 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
         <nav className="space-y-3">
           {menuItems.map((item) => {
             const Icon = item.icon;
-            const isActive = currentPage === item.id;
+            // Pages stay highlighted while one of their records or modals is open
+            const isActive = item.id === 'profile'
+              ? searchParams.get('modal') === 'profile'
+              : pathname === item.path || pathname.startsWith(`${item.path}/`);
             
             return (
               <button
                 key={item.id}
-                onClick={() => onPageChange(item.id)}
+                onClick={() => navigate(item.path)}
                 className={`w-full flex items-center space-x-3 px-4 py-3 rounded-lg text-left transition-colors ${
                   isActive
                     ? 'bg-gradient-to-r from-blue-600 to-purple-600 text-white shadow-sm'
@@ -75,7 +83,14 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
                 }`}
               >
                 <Icon className="h-5 w-5" />
-                <span className="font-medium">{item.label}</span>
+                <span className="font-medium flex-1">{item.label}</span>
+                {item.id === 'inbox' && unreadCount > 0 && (
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                    isActive ? 'bg-white text-blue-700' : 'bg-red-500 text-white'
+                  }`}>
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
               </button>
             );
           })}
@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { X, Printer, Download, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Founder, Order, OrderShippingAddress } from '../../types';
+import { bulkShipOrders, getOrderShippingAddresses } from '../../lib/api';
+import { ShipmentCsvRow, buildShipmentCsvTemplate, parseShipmentCsv } from '../../lib/bulkShipping';
+import { downloadShippingLabels } from '../../lib/shippingLabels';
+import { downloadCsv } from '../../lib/payouts';
+import { canTransition } from '../../lib/orderStateMachine';
+import { toast } from '../../lib/toast';
+
+interface BulkShipModalProps {
+  founder: Founder;
+  // The founder's orders; only those waiting to ship are offered
+  orders: Order[];
+  onClose: () => void;
+  onShipped: () => Promise<void>;
+}
+
+// Labels are printed for the selected orders, then a CSV of tracking numbers ships them together
+const BulkShipModal: React.FC<BulkShipModalProps> = ({ founder, orders, onClose, onShipped }) => {
+  const pendingOrders = orders.filter(order => canTransition(order, 'ship', founder));
+  const campaigns = Array.from(new Map(pendingOrders.map(order => [order.campaignId, order.campaignTitle])));
+
+  const [campaignId, setCampaignId] = useState(campaigns[0]?.[0] || '');
+  const [addresses, setAddresses] = useState<Record<string, OrderShippingAddress>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [deselected, setDeselected] = useState<string[]>([]);
+  const [rows, setRows] = useState<ShipmentCsvRow[] | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+  const [shipping, setShipping] = useState(false);
+
+  const campaignOrders = pendingOrders.filter(order => order.campaignId === campaignId);
+  const campaignOrderIds = campaignOrders.map(order => order.id).join(',');
+
+  useEffect(() => {
+    setLoaded(false);
+    getOrderShippingAddresses(campaignOrderIds ? campaignOrderIds.split(',') : [])
+      .then(result => setAddresses(Object.fromEntries(result.map(address => [address.orderId, address]))))
+      .catch(error => console.error('Error loading shipping addresses:', error))
+      .finally(() => setLoaded(true));
+  }, [campaignOrderIds]);
+
+  // Orders from before the address book have only a typed address and are shipped one at a time
+  const shippableOrders = campaignOrders.filter(order => addresses[order.id]);
+  const selectedOrders = shippableOrders.filter(order => !deselected.includes(order.id));
+  const validRows = (rows || []).filter(row => !row.error);
+
+  const handleCampaignChange = (id: string) => {
+    setCampaignId(id);
+    setDeselected([]);
+    setRows(null);
+    setCsvError(null);
+  };
+
+  const toggleOrder = (orderId: string) => {
+    setDeselected(prev => (prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]));
+    setRows(null);
+  };
+
+  const toggleAll = () => {
+    setDeselected(selectedOrders.length === shippableOrders.length ? shippableOrders.map(order => order.id) : []);
+    setRows(null);
+  };
+
+  const handleDownloadLabels = () => {
+    downloadShippingLabels(
+      `labels-${selectedOrders[0].campaignTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.pdf`,
+      selectedOrders.map(order => ({
+        orderId: order.id,
+        campaignTitle: order.campaignTitle,
+        productName: order.productName,
+        to: addresses[order.id],
+        from: {
+          name: founder.name,
+          company: founder.company,
+          phone: founder.phone,
+          address: founder.address,
+        },
+      }))
+    );
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv('tracking-numbers.csv', buildShipmentCsvTemplate(selectedOrders));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setRows(parseShipmentCsv(await file.text(), selectedOrders));
+      setCsvError(null);
+    } catch (error) {
+      setRows(null);
+      setCsvError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const handleShip = async () => {
+    if (!confirm(`Mark ${validRows.length} orders as shipped? The talents will see the tracking numbers straight away.`)) {
+      return;
+    }
+
+    setShipping(true);
+    try {
+      await bulkShipOrders(validRows);
+      await onShipped();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to ship the orders. Please try again.');
+    } finally {
+      setShipping(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Bulk Ship</h2>
+            <p className="text-sm text-gray-600">Print labels and ship a campaign's orders in one go</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div>
+            <label htmlFor="bulk-ship-campaign" className="block text-sm font-medium text-gray-700 mb-2">Campaign</label>
+            <select
+              id="bulk-ship-campaign"
+              value={campaignId}
+              onChange={e => handleCampaignChange(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {campaigns.map(([id, title]) => (
+                <option key={id} value={id}>
+                  {title} ({pendingOrders.filter(order => order.campaignId === id).length} waiting)
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium text-gray-900">1. Select orders</h4>
+              {shippableOrders.length > 0 && (
+                <button type="button" onClick={toggleAll} className="text-sm text-blue-600 hover:text-blue-700">
+                  {selectedOrders.length === shippableOrders.length ? 'Clear all' : 'Select all'}
+                </button>
+              )}
+            </div>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 max-h-64 overflow-y-auto">
+              {campaignOrders.map(order => {
+                const address = addresses[order.id];
+                return (
+                  <label
+                    key={order.id}
+                    className={`flex items-start space-x-3 p-3 ${address ? 'cursor-pointer hover:bg-gray-50' : 'bg-gray-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      disabled={!address}
+                      checked={!!address && !deselected.includes(order.id)}
+                      onChange={() => toggleOrder(order.id)}
+                      className="mt-1 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="flex-1 text-sm">
+                      <p className="font-medium text-gray-900">{order.talentName}</p>
+                      {address ? (
+                        <p className="text-gray-600">{address.postcode} {address.city}, {address.state}</p>
+                      ) : loaded && (
+                        <p className="flex items-center text-yellow-700">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          No address from the talent. Ship this order individually.
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="font-medium text-gray-900 mb-1">2. Print labels</h4>
+            <p className="text-sm text-gray-600 mb-3">
+              One A6 label per order, from {founder.company || founder.name}
+              {!founder.address && '. Add your address to your profile to print it as the return address'}
+            </p>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={handleDownloadLabels}
+                disabled={selectedOrders.length === 0}
+                className="inline-flex items-center px-4 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Download Labels (PDF)
+              </button>
+              <button
+                type="button"
+                onClick={handleDownloadTemplate}
+                disabled={selectedOrders.length === 0}
+                className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Tracking CSV Template
+              </button>
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h4 className="font-medium text-gray-900 mb-1">3. Upload tracking numbers</h4>
+            <p className="text-sm text-gray-600 mb-3">
+              A CSV with <code>order_id</code>, <code>courier</code> and <code>tracking_number</code> columns
+            </p>
+            <label className="inline-flex items-center px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg cursor-pointer transition-colors">
+              <Upload className="h-4 w-4 mr-2" />
+              Choose CSV
+              <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+            </label>
+            {csvError && <p className="text-sm text-red-600 mt-2">{csvError}</p>}
+
+            {rows && (
+              <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Line</th>
+                      <th className="px-3 py-2 font-medium">Talent</th>
+                      <th className="px-3 py-2 font-medium">Courier</th>
+                      <th className="px-3 py-2 font-medium">Tracking</th>
+                      <th className="px-3 py-2 font-medium"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map(row => (
+                      <tr key={row.line} className={row.error ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.order?.talentName || row.orderId || '-'}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.courier || '-'}</td>
+                        <td className="px-3 py-2 font-mono text-gray-900">{row.trackingNumber || '-'}</td>
+                        <td className="px-3 py-2">
+                          {row.error ? (
+                            <span className="text-red-600">{row.error}</span>
+                          ) : (
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {rows && validRows.length < rows.length && (
+              <p className="text-sm text-yellow-700 mt-2">
+                Rows with problems are skipped. Fix them and upload the file again, or ship those orders individually.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4 border-t border-gray-200">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleShip}
+              disabled={validRows.length === 0 || shipping}
+              className="px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {shipping ? 'Shipping...' : `Ship ${validRows.length} Orders`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkShipModal;
@@ -1,8 +1,12 @@
 import React, { useState } from 'react';
-import { X, Package, User, Calendar, DollarSign, MapPin, Truck, CheckCircle } from 'lucide-react';
+import { X, Package, User, Calendar, DollarSign, MapPin, Truck } from 'lucide-react';
 import { Order } from '../../types';
-import { useApp } from '../../context/AppContext';
 import ChatPanel from '../Common/ChatPanel';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import OrderTimeline from '../Common/OrderTimeline';
+import ContentLicenseCard from '../Common/ContentLicenseCard';
+import OrderDisputePanel from '../Common/OrderDisputePanel';
+import ShipmentTrackingTimeline from '../Common/ShipmentTrackingTimeline';
 
 interface OrderDetailsModalProps {
   order: Order;
@@ -10,11 +14,6 @@ interface OrderDetailsModalProps {
 }
 
 const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose }) => {
-  const { messages } = useApp();
-  
-  // Filter messages for this specific order
-  const orderMessages = messages.filter(msg => msg.jobId === order.id);
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending_shipment':
@@ -27,6 +26,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
         return 'bg-green-100 text-green-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'refunded':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -44,6 +45,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
         return 'Review Submitted';
       case 'completed':
         return 'Completed';
+      case 'refunded':
+        return 'Refunded';
       default:
         return status;
     }
@@ -125,77 +128,11 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
             {/* Status Timeline */}
             <div className="border-t border-gray-200 pt-6">
               <h4 className="text-lg font-semibold text-gray-900 mb-4">Order Progress</h4>
-              <div className="space-y-4">
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['pending_shipment', 'shipped', 'delivered', 'review_submitted', 'completed'].includes(order.status)
-                      ? 'bg-green-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <CheckCircle className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Order Created</p>
-                    <p className="text-sm text-gray-600">Talent was approved for this campaign</p>
-                  </div>
-                </div>
-
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['shipped', 'delivered', 'review_submitted', 'completed'].includes(order.status)
-                      ? 'bg-green-500 text-white' : order.status === 'pending_shipment' ? 'bg-yellow-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <Truck className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Product Shipped</p>
-                    <p className="text-sm text-gray-600">
-                      {order.status === 'pending_shipment' ? 'Waiting for you to ship the product' : 'Product has been shipped to talent'}
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['delivered', 'review_submitted', 'completed'].includes(order.status)
-                      ? 'bg-green-500 text-white' : order.status === 'shipped' ? 'bg-blue-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <MapPin className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Product Delivered</p>
-                    <p className="text-sm text-gray-600">
-                      {['delivered', 'review_submitted', 'completed'].includes(order.status) 
-                        ? 'Product delivered successfully' 
-                        : order.status === 'shipped' 
-                          ? 'Product is in transit' 
-                          : 'Waiting for shipment'
-                      }
-                    </p>
-                  </div>
-                </div>
-
-                <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                    ['review_submitted', 'completed'].includes(order.status)
-                      ? 'bg-green-500 text-white' : order.status === 'delivered' ? 'bg-purple-500 text-white' : 'bg-gray-300 text-gray-600'
-                  }`}>
-                    <CheckCircle className="h-4 w-4" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-gray-900">Review Submitted</p>
-                    <p className="text-sm text-gray-600">
-                      {['review_submitted', 'completed'].includes(order.status) 
-                        ? 'Review content submitted for approval' 
-                        : order.status === 'delivered' 
-                          ? 'Waiting for talent to submit review' 
-                          : 'Waiting for product delivery'
-                      }
-                    </p>
-                  </div>
-                </div>
-              </div>
+              <OrderTimeline order={order} />
             </div>
 
+            <OrderDisputePanel order={order} />
+
             {/* Delivery Information */}
             {order.deliveryInfo && (
               <div className="border-t border-gray-200 pt-6">
@@ -230,6 +167,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
                     </div>
                   </div>
                 )}
+
+                <ShipmentTrackingTimeline order={order} />
               </div>
             )}
 
@@ -244,25 +183,22 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
                   <div className="mt-3 grid grid-cols-2 gap-4">
                     {order.reviewSubmission.media.map((media, idx) => (
                       <div key={idx}>
-                        {media.type === 'image' ? (
-                          <img
-                            src={media.url}
-                            alt="Review submission"
-                            className="w-full h-48 object-cover rounded-lg"
-                          />
-                        ) : (
-                          <video
-                            src={media.url}
-                            controls
-                            className="w-full h-48 rounded-lg"
-                          />
-                        )}
+                        <MediaThumbnail
+                          url={media.url}
+                          type={media.type}
+                          alt="Review submission"
+                          size="preview"
+                          controls
+                          className="w-full h-48 object-cover rounded-lg"
+                        />
                       </div>
                     ))}
                   </div>
                 </div>
               </div>
             )}
+
+            {order.status === 'completed' && <ContentLicenseCard orderId={order.id} orderStatus={order.status} />}
           </div>
 
           <div className="flex justify-end p-6 border-t border-gray-200">
@@ -281,7 +217,6 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({ order, onClose })
             jobId={order.id}
             recipientName={order.talentName}
             recipientRole="talent"
-            messages={orderMessages}
           />
         )}
       </div>
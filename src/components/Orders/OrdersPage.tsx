@@ -1,33 +1,52 @@
 import React, { useState } from 'react';
-import { Package, Search, Filter, Eye, Truck, CheckCircle, Clock, MapPin, User, DollarSign } from 'lucide-react';
+import { Package, Search, Filter, Eye, Truck, CheckCircle, Clock, MapPin, User, DollarSign, Layers } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Order } from '../../types';
+import { useOrder, useOrderCount, usePendingShipments } from '../../hooks/useAppData';
+import { Founder, Order, OrderStatus } from '../../types';
 import OrderDetailsModal from './OrderDetailsModal';
 import ShipOrderModal from './ShipOrderModal';
-import { updateOrder } from '../../lib/api';
+import BulkShipModal from './BulkShipModal';
+import { OrderTransitionData, transitionOrder } from '../../lib/orderStateMachine';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { listOrders } from '../../lib/api';
+import { invalidateQueries, runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
 
-const OrdersPage: React.FC = () => {
+interface OrdersPageProps {
+  // The order whose details are open, from `/orders/:id`
+  orderId?: string;
+}
+
+const OrdersPage: React.FC<OrdersPageProps> = ({ orderId }) => {
   const { user } = useAuth();
-  const { orders, setOrders, refreshData } = useApp();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [shippingOrder, setShippingOrder] = useState<Order | null>(null);
+  const [showBulkShip, setShowBulkShip] = useState(false);
   const [loading, setLoading] = useState(false);
 
-  // Filter orders for the current founder
-  const founderOrders = orders.filter(order => order.founderId === user?.id);
+  // The founder's orders, searched and filtered on the server a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    founderId: user?.id,
+    status: statusFilter === 'all' ? undefined : statusFilter as OrderStatus,
+  };
+  const orderList = usePagedList(cursor => listOrders({ filters, cursor }), [...queryKeys.orders, 'page', filters], 'order');
+  const filteredOrders = orderList.items;
+  const selectedOrder = useOrder(orderId);
+  const setSelectedOrder = (order: Order | null) => navigate(order ? `/orders/${order.id}` : '/orders');
 
-  // Apply search and status filters
-  const filteredOrders = founderOrders.filter(order => {
-    const matchesSearch = order.talentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         order.campaignTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         order.productName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  // The cards count all of the founder's orders, not just the pages loaded
+  const pendingShipmentCount = useOrderCount({ founderId: user?.id, status: 'pending_shipment' });
+  const shippedCount = useOrderCount({ founderId: user?.id, status: 'shipped' });
+  const reviewSubmittedCount = useOrderCount({ founderId: user?.id, status: 'review_submitted' });
+  const totalCount = useOrderCount({ founderId: user?.id });
+  const pendingShipments = usePendingShipments(showBulkShip);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -41,6 +60,8 @@ const OrdersPage: React.FC = () => {
         return 'bg-green-100 text-green-800';
       case 'completed':
         return 'bg-gray-100 text-gray-800';
+      case 'refunded':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -75,6 +96,8 @@ const OrdersPage: React.FC = () => {
         return 'Review Submitted';
       case 'completed':
         return 'Completed';
+      case 'refunded':
+        return 'Refunded';
       default:
         return status;
     }
@@ -84,53 +107,43 @@ const OrdersPage: React.FC = () => {
     setShippingOrder(order);
   };
 
-  const handleShipSuccess = async (orderId: string, deliveryInfo: any) => {
+  const handleShipSuccess = async (orderId: string, deliveryInfo: OrderTransitionData['ship']) => {
+    const order = shippingOrder;
+    if (!order || !user) return;
+
     setLoading(true);
     try {
-      // Update order in database
-      await updateOrder(orderId, {
-        status: 'shipped',
-        delivery_address: deliveryInfo.address,
-        tracking_number: deliveryInfo.trackingNumber,
+      await runMutation(() => transitionOrder(order, 'ship', user, {
+        address: deliveryInfo.address,
+        trackingNumber: deliveryInfo.trackingNumber,
         courier: deliveryInfo.courier,
+      }), {
+        optimistic: () => updateEntity<Order>('order', orderId, o => ({ ...o, status: 'shipped', deliveryInfo })),
+        invalidates: [queryKeys.orders],
       });
 
-      // Update local state
-      setOrders(orders.map(order => 
-        order.id === orderId 
-          ? { ...order, status: 'shipped', deliveryInfo }
-          : order
-      ));
-      
       setShippingOrder(null);
-      await refreshData();
     } catch (error) {
       console.error('Error updating order status:', error);
-      alert('Failed to update order status. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to update order status. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleMarkDelivered = async (orderId: string) => {
+  const handleMarkDelivered = async (order: Order) => {
+    const orderId = order.id;
+    if (!user) return;
+
     setLoading(true);
     try {
-      // Update order in database
-      await updateOrder(orderId, {
-        status: 'delivered',
+      await runMutation(() => transitionOrder(order, 'mark_delivered', user), {
+        optimistic: () => updateEntity<Order>('order', orderId, o => ({ ...o, status: 'delivered' })),
+        invalidates: [queryKeys.orders],
       });
-
-      // Update local state
-      setOrders(orders.map(order => 
-        order.id === orderId 
-          ? { ...order, status: 'delivered' }
-          : order
-      ));
-      
-      await refreshData();
     } catch (error) {
       console.error('Error marking order as delivered:', error);
-      alert('Failed to update order status. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to update order status. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -150,6 +163,15 @@ const OrdersPage: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
           <p className="text-gray-600">Manage product shipments to approved talents</p>
         </div>
+        {pendingShipmentCount > 0 && (
+          <button
+            onClick={() => setShowBulkShip(true)}
+            className="inline-flex items-center px-4 py-2 text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+          >
+            <Layers className="h-4 w-4 mr-2" />
+            Bulk Ship
+          </button>
+        )}
       </div>
 
       {/* Stats Overview */}
@@ -162,7 +184,7 @@ const OrdersPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Pending Shipment</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderOrders.filter(o => o.status === 'pending_shipment').length}
+                {pendingShipmentCount}
               </p>
             </div>
           </div>
@@ -176,7 +198,7 @@ const OrdersPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Shipped</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderOrders.filter(o => o.status === 'shipped').length}
+                {shippedCount}
               </p>
             </div>
           </div>
@@ -190,7 +212,7 @@ const OrdersPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Review Submitted</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderOrders.filter(o => o.status === 'review_submitted').length}
+                {reviewSubmittedCount}
               </p>
             </div>
           </div>
@@ -204,7 +226,7 @@ const OrdersPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Orders</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderOrders.length}
+                {totalCount}
               </p>
             </div>
           </div>
@@ -343,7 +365,7 @@ const OrdersPage: React.FC = () => {
                   
                   {order.status === 'shipped' && (
                     <button
-                      onClick={() => handleMarkDelivered(order.id)}
+                      onClick={() => handleMarkDelivered(order)}
                       disabled={loading}
                       className="px-3 py-1 text-sm text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors disabled:opacity-50"
                     >
@@ -354,6 +376,16 @@ const OrdersPage: React.FC = () => {
               </div>
             </div>
           ))}
+          <LoadMore
+            hasMore={orderList.hasMore}
+            loading={orderList.loading}
+            onLoadMore={orderList.loadMore}
+            summary={`Showing ${filteredOrders.length} of ${orderList.total} orders`}
+          />
+        </div>
+      ) : orderList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
@@ -386,6 +418,16 @@ const OrdersPage: React.FC = () => {
           onSuccess={handleShipSuccess}
         />
       )}
+
+      {/* Bulk Ship Modal */}
+      {showBulkShip && user && (
+        <BulkShipModal
+          founder={user as Founder}
+          orders={pendingShipments}
+          onClose={() => setShowBulkShip(false)}
+          onShipped={() => invalidateQueries(queryKeys.orders)}
+        />
+      )}
     </div>
   );
 };
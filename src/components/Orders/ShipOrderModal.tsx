@@ -1,11 +1,15 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, Truck, MapPin, Package, AlertCircle } from 'lucide-react';
 import { Order } from '../../types';
+import { OrderTransitionData } from '../../lib/orderStateMachine';
+import { COURIER_ADAPTERS, OTHER_COURIER, findCourierAdapter } from '../../lib/couriers';
+import { getOrderShippingAddress } from '../../lib/api';
+import { formatShippingAddress } from '../../lib/addresses';
 
 interface ShipOrderModalProps {
   order: Order;
   onClose: () => void;
-  onSuccess: (orderId: string, deliveryInfo: any) => void;
+  onSuccess: (orderId: string, deliveryInfo: OrderTransitionData['ship']) => Promise<void>;
 }
 
 const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSuccess }) => {
@@ -13,22 +17,29 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
   const [deliveryInfo, setDeliveryInfo] = useState({
     address: '',
     trackingNumber: '',
-    courier: 'DHL',
+    courier: COURIER_ADAPTERS[0].name,
+    otherCourier: '',
   });
 
-  const couriers = [
-    'DHL',
-    'FedEx',
-    'UPS',
-    'USPS',
-    'J&T Express',
-    'SiCepat',
-    'JNE',
-    'Pos Malaysia',
-    'City-Link Express',
-    'GDex',
-    'Other'
-  ];
+  const [addressFromProfile, setAddressFromProfile] = useState(false);
+
+  // The address the talent applied with, when they picked one from their address book
+  useEffect(() => {
+    getOrderShippingAddress(order.id)
+      .then(address => {
+        if (!address) return;
+        setDeliveryInfo(prev => (prev.address ? prev : { ...prev, address: formatShippingAddress(address) }));
+        setAddressFromProfile(true);
+      })
+      .catch(error => console.error('Error loading shipping address:', error));
+  }, [order.id]);
+
+  const couriers = [...COURIER_ADAPTERS.map(adapter => adapter.name), OTHER_COURIER];
+  const adapter = findCourierAdapter(deliveryInfo.courier);
+  const courierName = deliveryInfo.courier === OTHER_COURIER ? deliveryInfo.otherCourier.trim() : deliveryInfo.courier;
+  const trackingNumberError = adapter && deliveryInfo.trackingNumber.trim()
+    ? adapter.validateTrackingNumber(deliveryInfo.trackingNumber)
+    : null;
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -40,13 +51,21 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
-
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    if (trackingNumberError) return;
 
-    onSuccess(order.id, deliveryInfo);
-    setLoading(false);
+    setLoading(true);
+    try {
+      await onSuccess(order.id, {
+        address: deliveryInfo.address,
+        // Stored the way the courier prints it, so the tracking lookups match
+        trackingNumber: adapter
+          ? deliveryInfo.trackingNumber.replace(/\s+/g, '').toUpperCase()
+          : deliveryInfo.trackingNumber.trim(),
+        courier: courierName,
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -129,7 +148,9 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
                 />
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Include postal code, city, and state for accurate delivery
+                {addressFromProfile
+                  ? `The address ${order.talentName} chose when applying`
+                  : 'Include postal code, city, and state for accurate delivery'}
               </p>
             </div>
 
@@ -162,6 +183,23 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
                   </svg>
                 </div>
               </div>
+              {deliveryInfo.courier === OTHER_COURIER ? (
+                <input
+                  type="text"
+                  id="otherCourier"
+                  name="otherCourier"
+                  required
+                  value={deliveryInfo.otherCourier}
+                  onChange={handleInputChange}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base"
+                  placeholder="Courier name"
+                />
+              ) : null}
+              <p className="text-xs text-gray-500 mt-1">
+                {adapter
+                  ? 'Tracking updates appear on the order automatically, and it is marked delivered when the courier confirms delivery'
+                  : 'Other couriers are not tracked automatically; mark the order delivered once it arrives'}
+              </p>
             </div>
 
             {/* Tracking Number */}
@@ -180,13 +218,19 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
                   required
                   value={deliveryInfo.trackingNumber}
                   onChange={handleInputChange}
-                  className="w-full pl-10 sm:pl-12 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base"
-                  placeholder="Enter tracking number"
+                  className={`w-full pl-10 sm:pl-12 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm sm:text-base ${
+                    trackingNumberError ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder={adapter ? `e.g. ${adapter.trackingNumberExample}` : 'Enter tracking number'}
                 />
               </div>
-              <p className="text-xs text-gray-500 mt-1">
-                Provide the tracking number from your courier service
-              </p>
+              {trackingNumberError ? (
+                <p className="text-xs text-red-600 mt-1">{trackingNumberError}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Provide the tracking number from your courier service
+                </p>
+              )}
             </div>
 
             {/* Shipping Summary */}
@@ -209,10 +253,10 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
                   <span className="text-gray-600">Payout:</span>
                   <span className="font-medium text-green-600 text-right">{formatCurrency(order.payout)}</span>
                 </div>
-                {deliveryInfo.courier && (
+                {courierName && (
                   <div className="flex justify-between items-center">
                     <span className="text-gray-600">Courier:</span>
-                    <span className="font-medium text-gray-900 text-right">{deliveryInfo.courier}</span>
+                    <span className="font-medium text-gray-900 text-right">{courierName}</span>
                   </div>
                 )}
               </div>
@@ -231,7 +275,7 @@ const ShipOrderModal: React.FC<ShipOrderModalProps> = ({ order, onClose, onSucce
           </button>
           <button
             type="submit"
-            disabled={loading || !deliveryInfo.address || !deliveryInfo.trackingNumber}
+            disabled={loading || !deliveryInfo.address || !deliveryInfo.trackingNumber || !courierName || !!trackingNumberError}
             onClick={handleSubmit}
             className="w-full sm:w-auto px-6 py-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white rounded-lg hover:from-blue-700 hover:to-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2 text-sm sm:text-base"
           >
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, Save } from 'lucide-react';
+import { getEmailPreferences, saveEmailPreferences } from '../../lib/api';
+import { EMAIL_EVENT_OPTIONS, EmailEvent, EmailPreferences } from '../../lib/email';
+import { toast } from '../../lib/toast';
+
+interface EmailPreferencesSectionProps {
+  userId: string;
+  role: 'founder' | 'talent';
+}
+
+// Email settings save on their own, separately from the rest of the profile
+const EmailPreferencesSection: React.FC<EmailPreferencesSectionProps> = ({ userId, role }) => {
+  const [preferences, setPreferences] = useState<EmailPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getEmailPreferences(userId)
+      .then(setPreferences)
+      .catch(error => console.error('Error loading email preferences:', error));
+  }, [userId]);
+
+  if (!preferences) return null;
+
+  const toggleEvent = (event: EmailEvent) => {
+    setPreferences({
+      ...preferences,
+      disabledEvents: preferences.disabledEvents.includes(event)
+        ? preferences.disabledEvents.filter(disabled => disabled !== event)
+        : [...preferences.disabledEvents, event],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!(preferences.lowBalanceThreshold >= 0)) {
+      toast.error('Please enter a valid low balance amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveEmailPreferences(userId, preferences);
+      toast.success('Email settings saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save email settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900">Email Notifications</h4>
+          <p className="text-sm text-gray-600">Choose which emails we send you, and in which language</p>
+        </div>
+        <Mail className="h-5 w-5 text-gray-400" />
+      </div>
+
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {EMAIL_EVENT_OPTIONS[role].map(option => (
+          <label key={option.event} className="flex items-start justify-between p-4 cursor-pointer">
+            <div>
+              <p className="text-sm font-medium text-gray-900">{option.label}</p>
+              <p className="text-sm text-gray-600">{option.description}</p>
+              {option.event === 'low_wallet_balance' && !preferences.disabledEvents.includes(option.event) && (
+                <div className="flex items-center space-x-2 mt-2">
+                  <span className="text-sm text-gray-600">Warn me below RM</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="10"
+                    value={preferences.lowBalanceThreshold}
+                    onChange={(e) => setPreferences({ ...preferences, lowBalanceThreshold: parseFloat(e.target.value) })}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                  />
+                </div>
+              )}
+            </div>
+            <input
+              type="checkbox"
+              checked={!preferences.disabledEvents.includes(option.event)}
+              onChange={() => toggleEvent(option.event)}
+              className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="email-locale" className="text-sm text-gray-700">Email language</label>
+          <select
+            id="email-locale"
+            value={preferences.locale}
+            onChange={(e) => setPreferences({ ...preferences, locale: e.target.value as EmailPreferences['locale'] })}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="en">English</option>
+            <option value="ms">Bahasa Melayu</option>
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {saving ? 'Saving...' : 'Save Email Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EmailPreferencesSection;
@@ -3,6 +3,7 @@ import { X, User, Mail, Building, Phone, MapPin, Save, Wallet, Camera } from 'lu
 import { useAuth } from '../../context/AuthContext';
 import { Founder } from '../../types';
 import ImageUploadModal from './ImageUploadModal';
+import EmailPreferencesSection from './EmailPreferencesSection';
 
 interface FounderProfileModalProps {
   onClose: () => void;
@@ -278,6 +279,9 @@ const FounderProfileModal: React.FC<FounderProfileModalProps> = ({ onClose }) =>
             </div>
           </div>
 
+          {/* Email Notifications */}
+          <EmailPreferencesSection userId={founder.id} role="founder" />
+
           {/* Action Buttons */}
           <div className="flex justify-end space-x-4 pt-6 border-t border-gray-200">
             <button
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { X, Upload, Camera, Save } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { toast } from '../../lib/toast';
 
 interface ImageUploadModalProps {
   onClose: () => void;
@@ -26,13 +27,13 @@ const ImageUploadModal: React.FC<ImageUploadModalProps> = ({
     if (file) {
       // Validate file type
       if (!file.type.startsWith('image/')) {
-        alert('Please select a valid image file.');
+        toast.error('Please select a valid image file.');
         return;
       }
 
       // Validate file size (max 5MB)
       if (file.size > 5 * 1024 * 1024) {
-        alert('Image size must be less than 5MB.');
+        toast.error('Image size must be less than 5MB.');
         return;
       }
 
@@ -83,7 +84,7 @@ const ImageUploadModal: React.FC<ImageUploadModalProps> = ({
       onSave(publicUrlData.publicUrl);
     } catch (error) {
       console.error('Error uploading image:', error);
-      alert('Failed to upload image. Please try again.');
+      toast.error('Failed to upload image. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { MapPin, Plus, Pencil, Trash2 } from 'lucide-react';
+import { ShippingAddress } from '../../types';
+import { deleteShippingAddress, getShippingAddresses } from '../../lib/api';
+import { formatShippingAddress } from '../../lib/addresses';
+import ShippingAddressForm from './ShippingAddressForm';
+import { toast } from '../../lib/toast';
+
+interface ShippingAddressBookProps {
+  talentId: string;
+}
+
+// Addresses save on their own, separately from the rest of the profile
+const ShippingAddressBook: React.FC<ShippingAddressBookProps> = ({ talentId }) => {
+  const [addresses, setAddresses] = useState<ShippingAddress[]>([]);
+  const [editing, setEditing] = useState<ShippingAddress | 'new' | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    getShippingAddresses(talentId)
+      .then(setAddresses)
+      .catch(error => console.error('Error loading shipping addresses:', error));
+  }, [talentId, reloadKey]);
+
+  const handleSaved = () => {
+    setEditing(null);
+    setReloadKey(key => key + 1);
+  };
+
+  const handleDelete = async (address: ShippingAddress) => {
+    if (!confirm(`Delete your ${address.label} address? Orders already approved keep the address they were approved with.`)) {
+      return;
+    }
+
+    try {
+      await deleteShippingAddress(address.id);
+      setReloadKey(key => key + 1);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete the address. Please try again.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-900">Shipping Addresses</h4>
+          <p className="text-sm text-gray-600">
+            Founders only see the address you apply with, from approval until the order is complete
+          </p>
+        </div>
+        {editing === null && (
+          <button
+            type="button"
+            onClick={() => setEditing('new')}
+            className="inline-flex items-center px-3 py-1.5 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Address
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {addresses.map(address => (
+          editing !== 'new' && editing?.id === address.id ? (
+            <ShippingAddressForm key={address.id} address={address} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+          ) : (
+            <div key={address.id} className="flex items-start justify-between border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <MapPin className="h-5 w-5 text-gray-400 mt-0.5" />
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {address.label}
+                    {address.isDefault && (
+                      <span className="ml-2 px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-100 rounded-full">Default</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600 whitespace-pre-line">{formatShippingAddress(address)}</p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setEditing(address)}
+                  className="p-1.5 text-gray-400 hover:text-blue-600 transition-colors"
+                  title="Edit address"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(address)}
+                  className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                  title="Delete address"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          )
+        ))}
+
+        {editing === 'new' && (
+          <ShippingAddressForm onSaved={handleSaved} onCancel={() => setEditing(null)} />
+        )}
+
+        {addresses.length === 0 && editing === null && (
+          <p className="text-sm text-gray-500">Add an address so you can apply to campaigns.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShippingAddressBook;
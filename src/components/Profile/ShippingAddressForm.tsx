@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { MalaysianState, ShippingAddress, MALAYSIAN_STATES } from '../../types';
+import { saveShippingAddress } from '../../lib/api';
+import { ShippingAddressInput, validateShippingAddress } from '../../lib/addresses';
+import { toast } from '../../lib/toast';
+
+interface ShippingAddressFormProps {
+  // Edits this address when given, otherwise adds a new one
+  address?: ShippingAddress;
+  onSaved: (addressId: string) => void;
+  onCancel: () => void;
+}
+
+// Not a <form>: it is also rendered inside the profile form
+const ShippingAddressForm: React.FC<ShippingAddressFormProps> = ({ address, onSaved, onCancel }) => {
+  const [values, setValues] = useState<ShippingAddressInput>({
+    label: address?.label || 'Home',
+    recipientName: address?.recipientName || '',
+    phone: address?.phone || '',
+    line1: address?.line1 || '',
+    line2: address?.line2 || '',
+    postcode: address?.postcode || '',
+    city: address?.city || '',
+    state: address?.state || 'Selangor',
+  });
+  const [isDefault, setIsDefault] = useState(address?.isDefault ?? false);
+  const [errors, setErrors] = useState<ReturnType<typeof validateShippingAddress>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleSave = async () => {
+    const validation = validateShippingAddress(values);
+    setErrors(validation);
+    if (Object.keys(validation).length > 0) return;
+
+    setSaving(true);
+    try {
+      const addressId = await saveShippingAddress({ ...values, id: address?.id, isDefault });
+      onSaved(addressId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the address. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = (field: keyof ShippingAddressInput) =>
+    `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm ${
+      errors[field] ? 'border-red-300' : 'border-gray-300'
+    }`;
+
+  const renderError = (field: keyof ShippingAddressInput) =>
+    errors[field] ? <p className="text-xs text-red-600 mt-1">{errors[field]}</p> : null;
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="address-label" className="block text-xs font-medium text-gray-700 mb-1">Label</label>
+          <input id="address-label" name="label" value={values.label} onChange={handleChange} className={inputClass('label')} placeholder="Home, Office..." />
+        </div>
+        <div>
+          <label htmlFor="address-recipient" className="block text-xs font-medium text-gray-700 mb-1">Recipient name *</label>
+          <input id="address-recipient" name="recipientName" value={values.recipientName} onChange={handleChange} className={inputClass('recipientName')} />
+          {renderError('recipientName')}
+        </div>
+        <div>
+          <label htmlFor="address-phone" className="block text-xs font-medium text-gray-700 mb-1">Phone *</label>
+          <input id="address-phone" name="phone" type="tel" value={values.phone} onChange={handleChange} className={inputClass('phone')} placeholder="012-345 6789" />
+          {renderError('phone')}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="address-line1" className="block text-xs font-medium text-gray-700 mb-1">Address line 1 *</label>
+        <input id="address-line1" name="line1" value={values.line1} onChange={handleChange} className={inputClass('line1')} placeholder="Unit, building, street" />
+        {renderError('line1')}
+      </div>
+
+      <div>
+        <label htmlFor="address-line2" className="block text-xs font-medium text-gray-700 mb-1">Address line 2</label>
+        <input id="address-line2" name="line2" value={values.line2} onChange={handleChange} className={inputClass('line2')} placeholder="Taman, area" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="address-postcode" className="block text-xs font-medium text-gray-700 mb-1">Postcode *</label>
+          <input id="address-postcode" name="postcode" inputMode="numeric" maxLength={5} value={values.postcode} onChange={handleChange} className={inputClass('postcode')} />
+          {renderError('postcode')}
+        </div>
+        <div>
+          <label htmlFor="address-city" className="block text-xs font-medium text-gray-700 mb-1">City *</label>
+          <input id="address-city" name="city" value={values.city} onChange={handleChange} className={inputClass('city')} />
+          {renderError('city')}
+        </div>
+        <div>
+          <label htmlFor="address-state" className="block text-xs font-medium text-gray-700 mb-1">State *</label>
+          <select
+            id="address-state"
+            name="state"
+            value={values.state}
+            onChange={e => setValues(prev => ({ ...prev, state: e.target.value as MalaysianState }))}
+            className={`${inputClass('state')} bg-white`}
+          >
+            {MALAYSIAN_STATES.map(state => (
+              <option key={state} value={state}>{state}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isDefault}
+          onChange={e => setIsDefault(e.target.checked)}
+          className="rounded text-blue-600 focus:ring-blue-500"
+        />
+        <span>Use as my default address</span>
+      </label>
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Address'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ShippingAddressForm;
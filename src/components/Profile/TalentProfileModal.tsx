@@ -1,10 +1,19 @@
 import React, { useState, useRef } from 'react';
 import { X, User, Mail, Star, Save, Camera, Instagram, Youtube, Plus, Upload, Video, Trash2 } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Talent } from '../../types';
+import { useEarningStats } from '../../hooks/useAppData';
+import { MediaAsset, Talent } from '../../types';
 import ImageUploadModal from './ImageUploadModal';
+import ShippingAddressBook from './ShippingAddressBook';
+import EmailPreferencesSection from './EmailPreferencesSection';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import UploadProgress from '../Common/UploadProgress';
 import { supabase } from '../../lib/supabase';
+import { removeMedia } from '../../lib/mediaAssets';
+import { useMediaUploads } from '../../hooks/useMediaUploads';
+import { toast } from '../../lib/toast';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
 
 interface TalentProfileModalProps {
   onClose: () => void;
@@ -12,7 +21,7 @@ interface TalentProfileModalProps {
 
 const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
   const { user, updateProfile } = useAuth();
-  const { earnings, refreshData } = useApp();
+  const earningStats = useEarningStats();
   const talent = user as Talent;
   
   const [loading, setLoading] = useState(false);
@@ -31,6 +40,8 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
   const [newSkill, setNewSkill] = useState('');
   const [portfolioFiles, setPortfolioFiles] = useState<File[]>([]);
   const [portfolioUploading, setPortfolioUploading] = useState(false);
+  // New portfolio files are deleted again if the profile is closed without saving
+  const portfolioUploads = useMediaUploads('portfolio');
   const [portfolioItems, setPortfolioItems] = useState<{url: string, type: 'image' | 'video'}[]>(
     talent.portfolio?.map(url => ({
       url,
@@ -80,6 +91,12 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
     fileInputRef.current?.click();
   };
 
+  const addPortfolioItem = (asset: MediaAsset | null) => {
+    if (asset) {
+      setPortfolioItems(prev => [...prev, { url: asset.url, type: asset.mediaType }]);
+    }
+  };
+
   const handlePortfolioUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
@@ -90,8 +107,6 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
       const { data: { user: authUser } } = await supabase.auth.getUser();
       if (!authUser) throw new Error('User not authenticated');
 
-      const uploadedItems = [];
-
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         
@@ -107,42 +122,20 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
           continue;
         }
 
-        const fileType = file.type.startsWith('image/') ? 'image' : 'video';
         const fileExt = file.name.split('.').pop();
         const fileName = `${authUser.id}/portfolio-${Date.now()}-${i}.${fileExt}`;
         
-        const { data, error } = await supabase.storage
-          .from('portfolio')
-          .upload(fileName, file, {
-            cacheControl: '3600',
-            upsert: true
-          });
-
-        if (error) {
-          console.error('Error uploading file:', error);
-          continue;
-        }
-
-        const { data: publicUrlData } = supabase.storage
-          .from('portfolio')
-          .getPublicUrl(data.path);
-
-        uploadedItems.push({
-          url: publicUrlData.publicUrl,
-          type: fileType as 'image' | 'video'
-        });
+        // Paused and failed files stay in the upload list until they are resumed or removed
+        addPortfolioItem(await portfolioUploads.upload(fileName, file, fileName));
       }
 
-      // Add new items to portfolio
-      setPortfolioItems(prev => [...prev, ...uploadedItems]);
-      
       // Clear file input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     } catch (error) {
       console.error('Error uploading portfolio items:', error);
-      alert('Failed to upload some files. Please try again.');
+      toast.error('Failed to upload some files. Please try again.');
     } finally {
       setPortfolioUploading(false);
     }
@@ -150,25 +143,13 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
 
   const handleRemovePortfolioItem = async (index: number) => {
     try {
-      const item = portfolioItems[index];
-      
-      // Extract file path from URL
-      const url = new URL(item.url);
-      const pathMatch = url.pathname.match(/\/portfolio\/(.+)$/);
-      
-      if (pathMatch && pathMatch[1]) {
-        const filePath = decodeURIComponent(pathMatch[1]);
-        
-        // Delete from storage
-        const { error } = await supabase.storage
-          .from('portfolio')
-          .remove([filePath]);
-          
-        if (error) {
-          console.error('Error removing file from storage:', error);
-        }
+      const upload = portfolioUploads.uploads.find(item => item.asset?.url === portfolioItems[index].url);
+      if (upload) {
+        await portfolioUploads.remove(upload.id);
+      } else {
+        await removeMedia('portfolio', portfolioItems[index].url);
       }
-      
+
       // Remove from state
       setPortfolioItems(prev => prev.filter((_, i) => i !== index));
     } catch (error) {
@@ -176,6 +157,11 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
     }
   };
 
+  const handleClose = () => {
+    portfolioUploads.discard();
+    onClose();
+  };
+
   const handleAvatarSave = (imageUrl: string) => {
     setAvatarPreview(imageUrl);
     setShowImageUpload(false);
@@ -195,11 +181,12 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
       };
       
       await updateProfile?.(updatedTalent);
-      await refreshData();
+      portfolioUploads.keep();
+      await invalidateQueries(queryKeys.talents);
       onClose();
     } catch (error) {
       console.error('Failed to update profile:', error);
-      alert('Failed to update profile. Please try again.');
+      toast.error('Failed to update profile. Please try again.');
     } finally {
       setLoading(false);
     }
@@ -213,9 +200,9 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
   };
 
   // Calculate talent statistics
-  const totalEarnings = earnings.filter(e => e.talentId === talent.id && e.status === 'paid').reduce((sum, e) => sum + e.amount, 0);
-  const completedJobs = earnings.filter(e => e.talentId === talent.id && e.status === 'paid').length;
-  const pendingEarnings = earnings.filter(e => e.talentId === talent.id && e.status === 'pending').reduce((sum, e) => sum + e.amount, 0);
+  const totalEarnings = earningStats?.paidTotal || 0;
+  const completedJobs = earningStats?.paidCount || 0;
+  const pendingEarnings = earningStats?.pendingTotal || 0;
 
   const getRateLevelColor = (level: number) => {
     switch (level) {
@@ -237,7 +224,7 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
           <div className="flex items-center justify-between p-6 border-b border-gray-200">
             <h2 className="text-xl font-semibold text-gray-900">Profile Settings</h2>
             <button
-              onClick={onClose}
+              onClick={handleClose}
               className="text-gray-400 hover:text-gray-600 transition-colors"
             >
               <X className="h-6 w-6" />
@@ -453,6 +440,12 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
               </div>
             </div>
 
+            {/* Shipping Addresses Section */}
+            <ShippingAddressBook talentId={talent.id} />
+
+            {/* Email Notifications Section */}
+            <EmailPreferencesSection userId={talent.id} role="talent" />
+
             {/* Portfolio Section */}
             <div>
               <h4 className="text-lg font-semibold text-gray-900 mb-4">Portfolio</h4>
@@ -493,6 +486,19 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
                   <p className="text-xs text-gray-500 mt-2">
                     Max file size: 10MB. Supported formats: JPG, PNG, MP4, MOV
                   </p>
+                  {portfolioUploads.uploads.some(upload => upload.status !== 'done') && (
+                    <div className="mt-4 space-y-3 text-left">
+                      {portfolioUploads.uploads.filter(upload => upload.status !== 'done').map(upload => (
+                        <UploadProgress
+                          key={upload.id}
+                          upload={upload}
+                          onPause={() => portfolioUploads.pause(upload.id)}
+                          onResume={() => portfolioUploads.resume(upload.id).then(addPortfolioItem)}
+                          onRemove={() => portfolioUploads.remove(upload.id)}
+                        />
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -505,15 +511,18 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
                       <div key={index} className="relative group">
                         <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden">
                           {item.type === 'image' ? (
-                            <img
-                              src={item.url}
+                            <MediaThumbnail
+                              url={item.url}
+                              type="image"
                               alt={`Portfolio ${index + 1}`}
                               className="w-full h-full object-cover"
                             />
                           ) : (
                             <div className="relative w-full h-full">
-                              <video
-                                src={item.url}
+                              <MediaThumbnail
+                                url={item.url}
+                                type="video"
+                                alt={`Portfolio ${index + 1}`}
                                 className="w-full h-full object-cover"
                                 controls
                               />
@@ -541,14 +550,14 @@ const TalentProfileModal: React.FC<TalentProfileModalProps> = ({ onClose }) => {
             <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
               <button
                 type="button"
-                onClick={onClose}
+                onClick={handleClose}
                 className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
               >
                 Cancel
               </button>
               <button
                 type="submit"
-                disabled={loading || portfolioUploading}
+                disabled={loading || portfolioUploading || portfolioUploads.uploads.some(upload => upload.status === 'uploading' || upload.status === 'processing')}
                 className="inline-flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {loading ? (
@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { X, RotateCcw, AlertCircle } from 'lucide-react';
+import { Order, ReviewMediaFeedback, ReviewSubmission, DEFAULT_REVISION_ROUNDS } from '../../types';
+import { useCampaign } from '../../hooks/useAppData';
+import { getReviewSubmissions } from '../../lib/api';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import { toast } from '../../lib/toast';
+
+interface RequestRevisionModalProps {
+  order: Order;
+  onClose: () => void;
+  onSubmit: (feedback: ReviewMediaFeedback[], summary: string) => Promise<void>;
+}
+
+const RequestRevisionModal: React.FC<RequestRevisionModalProps> = ({ order, onClose, onSubmit }) => {
+  const campaign = useCampaign(order.campaignId);
+  const [submissions, setSubmissions] = useState<ReviewSubmission[]>([]);
+  const [summary, setSummary] = useState('');
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getReviewSubmissions(order.id)
+      .then(setSubmissions)
+      .catch(error => console.error('Error loading review submissions:', error));
+  }, [order.id]);
+
+  const media = order.reviewSubmission?.media || [];
+  const maxRounds = campaign?.maxRevisionRounds ?? DEFAULT_REVISION_ROUNDS;
+  const usedRounds = submissions.filter(s => s.status === 'revision_requested').length;
+  const currentVersion = submissions.find(s => s.status === 'pending')?.version ?? usedRounds + 1;
+  const roundsLeft = Math.max(maxRounds - usedRounds, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!summary.trim()) {
+      toast.error('Please explain what needs to change');
+      return;
+    }
+
+    const feedback = Object.entries(comments)
+      .filter(([, comment]) => comment.trim())
+      .map(([mediaIndex, comment]) => ({ mediaIndex: Number(mediaIndex), comment: comment.trim() }));
+
+    setLoading(true);
+    try {
+      await onSubmit(feedback, summary.trim());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Request Revision</h2>
+            <p className="text-sm text-gray-600">
+              {order.talentName} · Version {currentVersion} · {roundsLeft} of {maxRounds} revision rounds left
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {roundsLeft === 0 ? (
+          <div className="p-6 space-y-4">
+            <div className="flex items-start space-x-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+              <AlertCircle className="h-5 w-5 text-yellow-600 mt-0.5" />
+              <p className="text-sm text-yellow-800">
+                All {maxRounds} revision rounds for this campaign have been used. You can approve this version
+                or discuss any remaining changes with the talent in chat.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            <div>
+              <label htmlFor="summary" className="block text-sm font-medium text-gray-700 mb-2">
+                What needs to change? *
+              </label>
+              <textarea
+                id="summary"
+                value={summary}
+                onChange={e => setSummary(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Overall feedback for the talent"
+              />
+            </div>
+
+            {media.length > 0 && (
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">Feedback per item (optional)</p>
+                <div className="space-y-4">
+                  {media.map((item, idx) => (
+                    <div key={idx} className="flex space-x-4">
+                      <MediaThumbnail url={item.url} type={item.type} alt={`Item ${idx + 1}`} className="w-32 h-24 object-cover rounded-lg flex-shrink-0" />
+                      <textarea
+                        value={comments[idx] || ''}
+                        onChange={e => setComments(prev => ({ ...prev, [idx]: e.target.value }))}
+                        rows={3}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                        placeholder={`Comments on item ${idx + 1}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 text-white bg-orange-600 hover:bg-orange-700 rounded-lg transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>{loading ? 'Sending...' : 'Send Back for Revision'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestRevisionModal;
@@ -1,9 +1,15 @@
-import React, { useState, useRef } from 'react';
-import { X, Package, User, Calendar, DollarSign, FileText, ThumbsUp, ThumbsDown, Star } from 'lucide-react';
+import React, { useEffect, useState, useRef } from 'react';
+import { X, Package, User, Calendar, DollarSign, FileText, ThumbsUp, ThumbsDown, Star, Download, Lock } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Order } from '../../types';
+import { Order, ReviewMediaGrant } from '../../types';
+import { getReviewMediaGrant } from '../../lib/api';
+import { getOriginalDownloadUrl } from '../../lib/mediaAssets';
 import ChatPanel from '../Common/ChatPanel';
+import ReviewSubmissionHistory from '../Common/ReviewSubmissionHistory';
+import ReviewAnnotationLightbox from '../Common/ReviewAnnotationLightbox';
+import MediaCheckChips from '../Common/MediaCheckChips';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import { toast } from '../../lib/toast';
 
 // Helper function to format currency
 const formatCurrency = (amount: number) => {
@@ -27,14 +33,19 @@ const ReviewDetailsModal: React.FC<ReviewDetailsModalProps> = ({
   onReject
 }) => {
   const { user } = useAuth();
-  const { messages, setMessages } = useApp();
 
   // Lightbox state for previewing media
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState(0);
 
-  // Filter messages for this specific order/job
-  const orderMessages = messages.filter(msg => msg.jobId === review.id);
+  // Originals unlock once the order completes with the payment settled
+  const [mediaGrant, setMediaGrant] = useState<ReviewMediaGrant | null>(null);
+
+  useEffect(() => {
+    getReviewMediaGrant(review.id)
+      .then(setMediaGrant)
+      .catch(error => console.error('Error loading review media grant:', error));
+  }, [review.id, review.status]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -72,6 +83,14 @@ const ReviewDetailsModal: React.FC<ReviewDetailsModalProps> = ({
     onClose();
   };
 
+  const handleDownloadOriginal = async (url: string) => {
+    try {
+      window.location.assign(await getOriginalDownloadUrl(url));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download the original. Please try again.');
+    }
+  };
+
   // Open lightbox
   const openLightbox = (idx: number) => {
     setLightboxIndex(idx);
@@ -267,75 +286,57 @@ const ReviewDetailsModal: React.FC<ReviewDetailsModalProps> = ({
               <div className="border-t border-gray-200 pt-6">
                 <h4 className="text-lg font-semibold text-gray-900 mb-4">Submitted Review Content</h4>
                 <div className="bg-green-50 rounded-lg p-6 border border-green-200">
+                  {mediaGrant ? (
+                    <p className="text-sm text-green-700 mb-4">
+                      Originals available since {mediaGrant.grantedAt.toLocaleDateString()}.
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-600 mb-4 flex items-center space-x-2">
+                      <Lock className="h-4 w-4 flex-shrink-0" />
+                      <span>Watermarked previews. Originals unlock once you approve and the payment is settled.</span>
+                    </p>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {review.reviewSubmission.media.map((media, idx) =>
-                      media.type === 'image' ? (
-                        <img
-                          key={idx}
-                          src={media.url}
+                    {review.reviewSubmission.media.map((media, idx) => (
+                      <div key={idx} className="space-y-2">
+                        <MediaThumbnail
+                          url={media.url}
+                          type={media.type}
                           alt={`Review submission ${idx + 1}`}
-                          className="w-full h-48 object-cover rounded-lg border border-green-200 cursor-pointer"
-                          onClick={() => openLightbox(idx)}
-                        />
-                      ) : (
-                        <video
-                          key={idx}
-                          src={media.url}
-                          controls
-                          className="w-full h-48 rounded-lg border border-green-200 cursor-pointer"
+                          size="preview"
+                          controls={media.type === 'video'}
+                          className={`w-full h-48 rounded-lg border border-green-200 cursor-pointer ${media.type === 'image' ? 'object-cover' : ''}`}
                           onClick={() => openLightbox(idx)}
                         />
-                      )
-                    )}
+                        {media.checks && <MediaCheckChips checks={media.checks} />}
+                        {mediaGrant && (
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadOriginal(media.url)}
+                            className="flex items-center space-x-1 text-sm text-green-700 hover:text-green-800"
+                          >
+                            <Download className="h-4 w-4" />
+                            <span>Download original</span>
+                          </button>
+                        )}
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
             )}
 
+            <ReviewSubmissionHistory orderId={review.id} orderStatus={review.status} />
+
             {/* Lightbox Modal for full media preview */}
-            {lightboxOpen && hasMedia && (
-              <div className="fixed inset-0 z-[100] bg-black bg-opacity-80 flex flex-col items-center justify-center transition-all">
-                <button
-                  className="absolute top-6 right-6 text-white text-2xl"
-                  onClick={closeLightbox}
-                  aria-label="Close"
-                >
-                  <X className="w-10 h-10" />
-                </button>
-                <div className="max-w-3xl max-h-[80vh] flex items-center justify-center">
-                  {review.reviewSubmission.media[lightboxIndex].type === 'image' ? (
-                    <img
-                      src={review.reviewSubmission.media[lightboxIndex].url}
-                      alt={`Review submission ${lightboxIndex + 1}`}
-                      className="max-h-[80vh] max-w-full rounded-lg shadow-lg"
-                    />
-                  ) : (
-                    <video
-                      src={review.reviewSubmission.media[lightboxIndex].url}
-                      controls
-                      autoPlay
-                      className="max-h-[80vh] max-w-full rounded-lg shadow-lg"
-                    />
-                  )}
-                </div>
-                {review.reviewSubmission.media.length > 1 && (
-                  <div className="mt-6 flex space-x-4">
-                    {review.reviewSubmission.media.map((m, idx) => (
-                      <button
-                        key={idx}
-                        className={`w-16 h-16 rounded border-2 ${lightboxIndex === idx ? 'border-blue-400' : 'border-transparent'}`}
-                        onClick={() => setLightboxIndex(idx)}
-                      >
-                        {m.type === 'image' ? (
-                          <img src={m.url} alt="" className="w-full h-full object-cover rounded" />
-                        ) : (
-                          <video src={m.url} className="w-full h-full object-cover rounded" />
-                        )}
-                      </button>
-                    ))}
-                  </div>
-                )}
-              </div>
+            {lightboxOpen && hasMedia && review.reviewSubmission && (
+              <ReviewAnnotationLightbox
+                orderId={review.id}
+                media={review.reviewSubmission.media}
+                startIndex={lightboxIndex}
+                editable={review.status === 'review_submitted'}
+                onClose={closeLightbox}
+              />
             )}
           </div>
 
@@ -375,7 +376,6 @@ const ReviewDetailsModal: React.FC<ReviewDetailsModalProps> = ({
           jobId={review.id}
           recipientName={review.talentName}
           recipientRole="talent"
-          messages={orderMessages}
         />
       </div>
     </div>
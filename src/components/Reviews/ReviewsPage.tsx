@@ -1,33 +1,62 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { FileText, Search, Filter, Eye, CheckCircle, Clock, Star, Calendar, User, Package, Download, ThumbsUp, ThumbsDown } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Order, Founder, Transaction, Earning } from '../../types';
+import { useFeePolicy, useOrder, useOrderCount } from '../../hooks/useAppData';
+import { FeePolicy, Order, OrderStatus, ReviewMediaFeedback } from '../../types';
 import ReviewDetailsModal from './ReviewDetailsModal';
-import { deleteReviewMedia, updateOrder, createEarning, createTransaction } from '../../lib/api';
-
-const ReviewsPage: React.FC = () => {
-  const { user, updateProfile } = useAuth();
-  const { orders, setOrders, earnings, setEarnings, transactions, setTransactions, refreshData } = useApp();
+import RequestRevisionModal from './RequestRevisionModal';
+import MediaThumbnail from '../Common/MediaThumbnail';
+import { getFeePolicies, listOrders } from '../../lib/api';
+import { transitionOrder } from '../../lib/orderStateMachine';
+import { describeFeeRule, quotePlatformFee } from '../../lib/fees';
+import { toast } from '../../lib/toast';
+import { navigate } from '../../lib/router';
+import { invalidateQueries, runMutation, updateEntity } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import LoadMore from '../Common/LoadMore';
+
+interface ReviewsPageProps {
+  // The order whose review is open, from `/reviews/:id`
+  reviewId?: string;
+}
+
+const REVIEW_STATUSES: OrderStatus[] = ['delivered', 'review_submitted', 'completed'];
+
+const ReviewsPage: React.FC<ReviewsPageProps> = ({ reviewId }) => {
+  const { user, refreshUser } = useAuth();
+  const feePolicy = useFeePolicy();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [selectedReview, setSelectedReview] = useState<Order | null>(null);
+  const [revisionOrder, setRevisionOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(false);
+  const [feePolicies, setFeePolicies] = useState<FeePolicy[]>([]);
+
+  // Orders are settled under the fee policy that was active when they were approved
+  useEffect(() => {
+    getFeePolicies()
+      .then(setFeePolicies)
+      .catch(error => console.error('Error loading fee policies:', error));
+  }, []);
+
+  // The founder's orders that have been delivered or have reviews, searched and filtered on the
+  // server a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    founderId: user?.id,
+    status: statusFilter === 'all' ? REVIEW_STATUSES : statusFilter as OrderStatus,
+  };
+  const reviewList = usePagedList(cursor => listOrders({ filters, cursor }), [...queryKeys.orders, 'page', filters], 'order');
+  const filteredReviews = reviewList.items;
+  const selectedReview = useOrder(reviewId);
+  const setSelectedReview = (review: Order | null) => navigate(review ? `/reviews/${review.id}` : '/reviews');
 
-  // Filter orders for the current founder that have been delivered or have reviews
-  const founderReviews = orders.filter(order => 
-    order.founderId === user?.id && 
-    (order.status === 'delivered' || order.status === 'review_submitted' || order.status === 'completed')
-  );
-
-  // Apply search and status filters
-  const filteredReviews = founderReviews.filter(review => {
-    const matchesSearch = review.talentName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         review.campaignTitle.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         review.productName.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || review.status === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+  // The cards count all of the founder's reviews, not just the pages loaded
+  const deliveredCount = useOrderCount({ founderId: user?.id, status: 'delivered' });
+  const reviewSubmittedCount = useOrderCount({ founderId: user?.id, status: 'review_submitted' });
+  const completedCount = useOrderCount({ founderId: user?.id, status: 'completed' });
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -88,67 +117,22 @@ const ReviewsPage: React.FC = () => {
     }
   };
 
- const handleApproveReview = async (orderId: string) => {
+ const handleApproveReview = async (order: Order) => {
   setLoading(true);
   try {
-    const order = orders.find(o => o.id === orderId);
-    if (!order) return;
-
-    // Calculate amounts
-    const talentPayment = order.payout;
-    const adminFee = talentPayment * 0.1;
-    const totalDeduction = talentPayment + adminFee;
+    if (!user) return;
 
-    // Update order status in DB
-    await updateOrder(orderId, { status: 'completed' });
+    // Release escrow to the talent, charge the admin fee, record the earning
+    // and complete the order in a single ledger transaction
+    await transitionOrder(order, 'approve_review', user);
 
-    // Create earning record
-    await createEarning({
-      talentId: order.talentId,
-      orderId: order.id,
-      campaignTitle: order.campaignTitle,
-      amount: order.payout,
-      status: 'paid',
-      paidAt: new Date()
-    });
-
-    // Create transaction records
-    await createTransaction({
-      userId: order.talentId,
-      type: 'credit',
-      amount: talentPayment,
-      description: `Payment Received - ${order.campaignTitle}`,
-      relatedJobId: orderId
-    });
-    await createTransaction({
-      userId: order.founderId,
-      type: 'debit',
-      amount: totalDeduction,
-      description: `Campaign Payout - ${order.campaignTitle} (includes 10% admin fee)`,
-      relatedJobId: orderId
-    });
-    await createTransaction({
-      userId: '066e9f3d-9570-405e-8a43-ab1ed542e9a7',
-      type: 'credit',
-      amount: adminFee,
-      description: `Admin Fee (10%) - ${order.campaignTitle}`,
-      relatedJobId: orderId
-    });
-
-    // Update founder wallet
-    const founder = user as Founder;
-    if (founder && updateProfile) {
-      const updatedFounder: Founder = {
-        ...founder,
-        walletBalance: founder.walletBalance - totalDeduction,
-      };
-      await updateProfile(updatedFounder);
-    }
-
-    // Refresh all data/UI
-    await refreshData();
+    // Refetch what settling touched, including the founder's cached wallet balance
+    await Promise.all([
+      invalidateQueries(queryKeys.orders, queryKeys.transactions, queryKeys.accountBalances, queryKeys.earnings),
+      refreshUser(),
+    ]);
   } catch (error) {
-    alert('Failed to approve review. Please try again.');
+    toast.error(error instanceof Error ? error.message : 'Failed to approve review. Please try again.');
     console.error('handleApproveReview error:', error);
   } finally {
     setLoading(false);
@@ -156,47 +140,20 @@ const ReviewsPage: React.FC = () => {
 };
 
 
-  const handleRejectReview = async (orderId: string) => {
-    const order = orders.find(order => order.id === orderId);
-    if (!order) return;
+  const handleRequestRevision = async (order: Order, feedback: ReviewMediaFeedback[], summary: string) => {
+    if (!user) return;
+    const orderId = order.id;
 
     try {
-      // Delete review media from Supabase Storage if exists
-     if (
-      order.reviewSubmission &&
-      Array.isArray(order.reviewSubmission.media) &&
-      order.reviewSubmission.media.length > 0
-    ) {
-      for (const mediaItem of order.reviewSubmission.media) {
-        if (mediaItem.url) {
-          await deleteReviewMedia(order.id, mediaItem.url);
-        }
-      }
-    }
-
-      // Update order in DB (status and nullify review_media)
-      await updateOrder(orderId, {
-        status: 'delivered',
-        review_media: null,
-        review_submitted_at: null,
+      // Archives this version with the feedback and sends the order back to delivered
+      await runMutation(() => transitionOrder(order, 'request_revision', user, { feedback, summary }), {
+        optimistic: () => updateEntity<Order>('order', orderId, o => ({ ...o, status: 'delivered', reviewSubmission: undefined })),
+        invalidates: [queryKeys.orders],
       });
-
-      // Update local state
-      setOrders(prev =>
-        prev.map(o =>
-          o.id === orderId
-            ? { ...o, status: 'delivered', reviewSubmission: undefined }
-            : o
-        )
-      );
-
-      // Refresh all data/UI
-      if (typeof refreshData === 'function') {
-        await refreshData();
-      }
+      setRevisionOrder(null);
     } catch (err: any) {
-      alert('Failed to reject review: ' + (err.message || err));
-      console.error('handleRejectReview error:', err);
+      toast.error('Failed to request revision: ' + (err.message || err));
+      console.error('handleRequestRevision error:', err);
     }
   };
 
@@ -224,7 +181,9 @@ const ReviewsPage: React.FC = () => {
             <h4 className="font-medium text-blue-900 mb-1">Payment Information</h4>
             <p className="text-sm text-blue-700">
               When you approve a review, the talent will receive their payment as shown in the campaign price. 
-              Additionally, a 10% admin fee will be charged to support platform operations.
+              {feePolicy && (feePolicy.chargedTo === 'founder'
+                ? ` Additionally, a platform fee (currently ${describeFeeRule(feePolicy.defaultRule)}) will be charged to support platform operations.`
+                : ` A platform fee (currently ${describeFeeRule(feePolicy.defaultRule)}) is deducted from the talent's payout.`)}
             </p>
           </div>
         </div>
@@ -240,7 +199,7 @@ const ReviewsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Awaiting Reviews</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderReviews.filter(r => r.status === 'delivered').length}
+                {deliveredCount}
               </p>
             </div>
           </div>
@@ -254,7 +213,7 @@ const ReviewsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Pending Approval</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderReviews.filter(r => r.status === 'review_submitted').length}
+                {reviewSubmittedCount}
               </p>
             </div>
           </div>
@@ -268,7 +227,7 @@ const ReviewsPage: React.FC = () => {
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Completed</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderReviews.filter(r => r.status === 'completed').length}
+                {completedCount}
               </p>
             </div>
           </div>
@@ -307,9 +266,13 @@ const ReviewsPage: React.FC = () => {
       {filteredReviews.length > 0 ? (
         <div className="space-y-4">
           {filteredReviews.map((review) => {
-            const talentPayment = review.payout;
-            const adminFee = talentPayment * 0.1;
-            const totalCost = talentPayment + adminFee;
+            const orderPolicy = feePolicies.find(p => p.version === review.feePolicyVersion) || feePolicy;
+            const feeQuote = orderPolicy && review.campaignCategory !== undefined && review.campaignRateLevel !== undefined
+              ? quotePlatformFee(orderPolicy, review.payout, review.campaignCategory, review.campaignRateLevel)
+              : null;
+            const talentPayment = feeQuote ? feeQuote.talentReceives : review.payout;
+            const adminFee = feeQuote ? feeQuote.fee : 0;
+            const totalCost = feeQuote ? feeQuote.founderPays : review.payout;
 
             return (
               <div key={review.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -354,7 +317,9 @@ const ReviewsPage: React.FC = () => {
                             <span className="font-medium text-yellow-900">{formatCurrency(talentPayment)}</span>
                           </div>
                           <div className="flex justify-between">
-                            <span className="text-yellow-700">Admin Fee (10%):</span>
+                            <span className="text-yellow-700">
+                              Platform Fee{feeQuote?.chargedTo === 'talent' ? ' (from talent)' : ''}{feeQuote ? ` (v${feeQuote.policyVersion})` : ''}:
+                            </span>
                             <span className="font-medium text-yellow-900">{formatCurrency(adminFee)}</span>
                           </div>
                           <div className="border-t border-yellow-300 pt-1 mt-2">
@@ -401,22 +366,18 @@ const ReviewsPage: React.FC = () => {
                               Submitted on {review.reviewSubmission.submittedAt.toLocaleDateString()}
                             </p>
                             <div className="flex items-center space-x-3">
-                              {review.reviewSubmission.mediaType === 'image' ? (
-                                <img
-                                  src={review.reviewSubmission.mediaUrl}
-                                  alt="Review submission"
+                              {review.reviewSubmission.media.slice(0, 3).map((media, idx) => (
+                                <MediaThumbnail
+                                  key={idx}
+                                  url={media.url}
+                                  type={media.type}
+                                  alt={`Review submission ${idx + 1}`}
                                   className="w-20 h-20 object-cover rounded-lg border border-green-200"
                                 />
-                              ) : (
-                                <video
-                                  src={review.reviewSubmission.mediaUrl}
-                                  className="w-20 h-20 rounded-lg border border-green-200"
-                                  controls
-                                />
-                              )}
+                              ))}
                               <div className="flex-1">
-                                <p className="text-sm text-green-700 capitalize">
-                                  {review.reviewSubmission.mediaType} content
+                                <p className="text-sm text-green-700">
+                                  {review.reviewSubmission.media.length} file{review.reviewSubmission.media.length === 1 ? '' : 's'}
                                 </p>
                                 <p className="text-xs text-green-600">
                                   Ready for your review and approval
@@ -441,7 +402,7 @@ const ReviewsPage: React.FC = () => {
                     {review.status === 'review_submitted' && (
                       <>
                         <button
-                          onClick={() => handleApproveReview(review.id)}
+                          onClick={() => handleApproveReview(review)}
                           className="px-3 py-1 text-sm text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors flex items-center space-x-1"
                           title="Approve Review"
                         >
@@ -450,7 +411,7 @@ const ReviewsPage: React.FC = () => {
                         </button>
                         
                         <button
-                          onClick={() => handleRejectReview(review.id)}
+                          onClick={() => setRevisionOrder(review)}
                           className="px-3 py-1 text-sm text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors flex items-center space-x-1"
                           title="Request Revision"
                         >
@@ -464,6 +425,16 @@ const ReviewsPage: React.FC = () => {
               </div>
             );
           })}
+          <LoadMore
+            hasMore={reviewList.hasMore}
+            loading={reviewList.loading}
+            onLoadMore={reviewList.loadMore}
+            summary={`Showing ${filteredReviews.length} of ${reviewList.total} reviews`}
+          />
+        </div>
+      ) : reviewList.loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
         </div>
       ) : (
         <div className="text-center py-12">
@@ -485,8 +456,17 @@ const ReviewsPage: React.FC = () => {
         <ReviewDetailsModal
           review={selectedReview}
           onClose={() => setSelectedReview(null)}
-          onApprove={() => handleApproveReview(selectedReview.id)}
-          onReject={() => handleRejectReview(selectedReview.id)}
+          onApprove={() => handleApproveReview(selectedReview)}
+          onReject={() => setRevisionOrder(selectedReview)}
+        />
+      )}
+
+      {/* Request Revision Modal */}
+      {revisionOrder && (
+        <RequestRevisionModal
+          order={revisionOrder}
+          onClose={() => setRevisionOrder(null)}
+          onSubmit={(feedback, summary) => handleRequestRevision(revisionOrder, feedback, summary)}
         />
       )}
     </div>
@@ -1,14 +1,19 @@
 import React, { useState } from 'react';
-import { Wallet, Plus, Search, Filter, TrendingUp, TrendingDown, Calendar, DollarSign, CreditCard, ArrowUpRight, ArrowDownLeft, Receipt, Package, Star, Clock } from 'lucide-react';
+import { Wallet, Plus, Search, Filter, TrendingUp, TrendingDown, Calendar, ArrowUpRight, ArrowDownLeft, Receipt, Package, Star, Clock, Lock } from 'lucide-react';
 import { useAuth } from '../../context/AuthContext';
-import { useApp } from '../../context/AppContext';
-import { Founder, Transaction } from '../../types';
+import { useAccountBalances, useWalletStats } from '../../hooks/useAppData';
+import { invalidateQueries } from '../../lib/queryCache';
+import { queryKeys } from '../../lib/queries';
+import { listTransactions } from '../../lib/api';
+import { usePagedList } from '../../hooks/usePagedList';
+import { useDebouncedValue } from '../../hooks/useDebouncedValue';
+import { Founder, JournalEntryKind, Transaction } from '../../types';
 import TopUpModal from './TopUpModal';
-import { createTransaction } from '../../lib/api';
+import LoadMore from '../Common/LoadMore';
 
 const EWalletPage: React.FC = () => {
-  const { user, updateProfile } = useAuth();
-  const { transactions, refreshData } = useApp();
+  const { user, refreshUser } = useAuth();
+  const accountBalances = useAccountBalances();
   const [searchTerm, setSearchTerm] = useState('');
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [showTopUpModal, setShowTopUpModal] = useState(false);
@@ -16,15 +21,21 @@ const EWalletPage: React.FC = () => {
 
   const founder = user as Founder;
 
-  // Filter transactions for the current founder (use user_id if that's the DB key)
-  const founderTransactions = transactions.filter(transaction => transaction.user_id === founder.id || transaction.userId === founder.id);
-
-  // Apply search and type filters
-  const filteredTransactions = founderTransactions.filter(transaction => {
-    const matchesSearch = transaction.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = typeFilter === 'all' || transaction.type === typeFilter;
-    return matchesSearch && matchesType;
-  });
+  // Wallet history is the founder_wallet side of each ledger entry; escrow legs are shown as a balance only.
+  // Searched and filtered on the server a page at a time
+  const search = useDebouncedValue(searchTerm);
+  const filters = {
+    search,
+    userId: founder.id,
+    account: 'founder_wallet' as const,
+    type: typeFilter === 'all' ? undefined : typeFilter as Transaction['type'],
+  };
+  const transactionList = usePagedList(
+    cursor => listTransactions({ filters, cursor }),
+    [...queryKeys.transactions, 'page', filters],
+    'transaction'
+  );
+  const filteredTransactions = transactionList.items;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('ms-MY', {
@@ -33,14 +44,14 @@ const EWalletPage: React.FC = () => {
     }).format(amount);
   };
 
-  const getTransactionIcon = (type: string, description: string) => {
+  const getTransactionIcon = (type: string, kind: JournalEntryKind) => {
     if (type === 'credit') {
-      if (description.toLowerCase().includes('top up') || description.toLowerCase().includes('deposit')) {
+      if (kind === 'wallet_top_up' || kind === 'opening_balance') {
         return <ArrowDownLeft className="h-5 w-5 text-green-600" />;
       }
       return <TrendingUp className="h-5 w-5 text-green-600" />;
     } else {
-      if (description.toLowerCase().includes('campaign') || description.toLowerCase().includes('payout')) {
+      if (kind === 'escrow_hold' || kind === 'escrow_release' || kind === 'platform_fee') {
         return <Package className="h-5 w-5 text-blue-600" />;
       }
       return <ArrowUpRight className="h-5 w-5 text-red-600" />;
@@ -55,58 +66,25 @@ const EWalletPage: React.FC = () => {
     return type === 'credit' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200';
   };
 
-  const handleTopUpSuccess = async (amount, relatedJobId) => {
-    if (loading) return;
+  // The wallet was credited by the provider callback; pull the new ledger balance and the
+  // cached profile balance shown in the navbar
+  const handleTopUpSuccess = async () => {
+    setShowTopUpModal(false);
     setLoading(true);
 
     try {
-      console.log("bl;abla" + relatedJobId);
-      const newTransaction = {
-        userId: founder.id, // match your DB!
-        type: 'credit',
-        amount: amount,
-        description: `Wallet Top Up - Credit Card`,
-      };
-
-      console.log("lalu sini");
-
-      await createTransaction(newTransaction);
-      // await refreshData();
-console.log("laulalu");
-      // Optionally update local founder's wallet balance for instant feedback
-      const updatedFounder = {
-        ...founder,
-        walletBalance: founder.walletBalance + amount,
-      };
-      updateProfile?.(updatedFounder);
-
-      setShowTopUpModal(false);
-    } catch (error) {
-      alert('Top-up failed. Please try again.');
+      await Promise.all([invalidateQueries(queryKeys.transactions, queryKeys.accountBalances), refreshUser()]);
     } finally {
       setLoading(false);
     }
   };
 
-  // Calculate statistics
-  const totalCredits = founderTransactions
-    .filter(t => t.type === 'credit')
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const totalDebits = founderTransactions
-    .filter(t => t.type === 'debit')
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  const thisMonthTransactions = founderTransactions.filter(t => {
-    const transactionDate = new Date(t.createdAt || t.created_at);
-    const now = new Date();
-    return transactionDate.getMonth() === now.getMonth() &&
-           transactionDate.getFullYear() === now.getFullYear();
-  });
-
-  const thisMonthSpending = thisMonthTransactions
-    .filter(t => t.type === 'debit')
-    .reduce((sum, t) => sum + t.amount, 0);
+  // The totals count the whole wallet history, not just the pages loaded
+  const stats = useWalletStats();
+  const totalCredits = stats?.creditTotal ?? 0;
+  const totalDebits = stats?.debitTotal ?? 0;
+  const thisMonthSpending = stats?.thisMonthDebits ?? 0;
+  const transactionCount = (stats?.credits ?? 0) + (stats?.debits ?? 0);
 
   return (
     <div className="space-y-6">
@@ -130,7 +108,13 @@ console.log("laulalu");
         <div className="flex items-center justify-between mb-6">
           <div>
             <h2 className="text-lg font-medium text-blue-100">Current Balance</h2>
-            <p className="text-4xl font-bold">{formatCurrency(founder.walletBalance)}</p>
+            <p className="text-4xl font-bold">{formatCurrency(accountBalances.founderWallet)}</p>
+            {accountBalances.escrow > 0 && (
+              <p className="flex items-center text-blue-100 text-sm mt-1">
+                <Lock className="h-4 w-4 mr-1" />
+                {formatCurrency(accountBalances.escrow)} held in escrow for active orders
+              </p>
+            )}
           </div>
           <div className="p-4 bg-white bg-opacity-20 rounded-full">
             <Wallet className="h-8 w-8" />
@@ -180,7 +164,7 @@ console.log("laulalu");
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Credits</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderTransactions.filter(t => t.type === 'credit').length}
+                {stats?.credits ?? 0}
               </p>
             </div>
           </div>
@@ -194,7 +178,7 @@ console.log("laulalu");
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Debits</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderTransactions.filter(t => t.type === 'debit').length}
+                {stats?.debits ?? 0}
               </p>
             </div>
           </div>
@@ -208,7 +192,7 @@ console.log("laulalu");
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Total Transactions</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderTransactions.length}
+                {transactionCount}
               </p>
             </div>
           </div>
@@ -222,8 +206,8 @@ console.log("laulalu");
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">Avg Transaction</p>
               <p className="text-2xl font-bold text-gray-900">
-                {founderTransactions.length > 0 
-                  ? formatCurrency((totalCredits + totalDebits) / founderTransactions.length)
+                {transactionCount > 0 
+                  ? formatCurrency((totalCredits + totalDebits) / transactionCount)
                   : formatCurrency(0)
                 }
               </p>
@@ -273,18 +257,18 @@ console.log("laulalu");
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
                     <div className={`p-3 rounded-full border ${getTransactionBg(transaction.type)}`}>
-                      {getTransactionIcon(transaction.type, transaction.description)}
+                      {getTransactionIcon(transaction.type, transaction.kind)}
                     </div>
                     <div className="flex-1">
                       <h4 className="font-medium text-gray-900">{transaction.description}</h4>
                       <div className="flex items-center space-x-4 mt-1">
                         <div className="flex items-center text-sm text-gray-500">
                           <Calendar className="h-4 w-4 mr-1" />
-                          {new Date(transaction.createdAt || transaction.created_at).toLocaleDateString()}
+                          {transaction.createdAt.toLocaleDateString()}
                         </div>
                         <div className="flex items-center text-sm text-gray-500">
                           <Clock className="h-4 w-4 mr-1" />
-                          {new Date(transaction.createdAt || transaction.created_at).toLocaleTimeString()}
+                          {transaction.createdAt.toLocaleTimeString()}
                         </div>
                         {transaction.relatedJobId && (
                           <div className="flex items-center text-sm text-gray-500">
@@ -311,6 +295,16 @@ console.log("laulalu");
                 </div>
               </div>
             ))}
+            <LoadMore
+              hasMore={transactionList.hasMore}
+              loading={transactionList.loading}
+              onLoadMore={transactionList.loadMore}
+              summary={`Showing ${filteredTransactions.length} of ${transactionList.total} transactions`}
+            />
+          </div>
+        ) : transactionList.loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
           </div>
         ) : (
           <div className="text-center py-12">
@@ -333,8 +327,7 @@ console.log("laulalu");
         <TopUpModal
           onClose={() => setShowTopUpModal(false)}
           onSuccess={handleTopUpSuccess}
-          currentBalance={founder.walletBalance}
-          loading={loading}
+          currentBalance={accountBalances.founderWallet}
         />
       )}
     </div>
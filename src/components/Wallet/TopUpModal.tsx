@@ -1,22 +1,40 @@
 import React, { useState } from 'react';
-import { X, CreditCard, DollarSign, Shield, Lock, CheckCircle } from 'lucide-react';
+import { X, CreditCard, DollarSign, Shield, Lock, Landmark, Smartphone, AlertCircle } from 'lucide-react';
+import { MALAYSIAN_BANKS, MALAYSIAN_EWALLETS, TopUpIntent } from '../../types';
+import { createTopUpIntent, waitForTopUpIntent } from '../../lib/api';
+import {
+  getPaymentProvider,
+  ConfirmPaymentIntentParams,
+  PaymentNextAction,
+  ProviderPaymentIntent,
+  MOCK_CARD_TOKENS,
+  MOCK_DECLINED_BANK_CODE,
+  MOCK_ACTION_URL_PREFIX,
+} from '../../lib/payments';
+import { toast } from '../../lib/toast';
 
 interface TopUpModalProps {
   onClose: () => void;
-  onSuccess: (amount: number) => void;
+  onSuccess: () => void;
   currentBalance: number;
-  loading: boolean;
 }
 
-const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBalance, loading }) => {
+type Step = 'details' | 'action' | 'confirming';
+
+const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBalance }) => {
+  const provider = getPaymentProvider();
+  const isMock = provider.id === 'mock';
+
   const [amount, setAmount] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState('credit_card');
-  const [cardDetails, setCardDetails] = useState({
-    number: '',
-    expiry: '',
-    cvv: '',
-    name: '',
-  });
+  const [paymentMethod, setPaymentMethod] = useState<TopUpIntent['method']>('card');
+  // Only the provider's card token is kept, never the card number, expiry or CVV
+  const [cardToken, setCardToken] = useState<string>(MOCK_CARD_TOKENS.success);
+  const [bankCode, setBankCode] = useState('');
+  const [walletCode, setWalletCode] = useState('');
+  const [step, setStep] = useState<Step>('details');
+  const [providerIntent, setProviderIntent] = useState<ProviderPaymentIntent | null>(null);
+  const [intentId, setIntentId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
   const quickAmounts = [50, 100, 250, 500, 1000, 2500];
 
@@ -31,53 +49,129 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
     setAmount(quickAmount.toString());
   };
 
-  const handleCardInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    
-    if (name === 'number') {
-      // Format card number with spaces
-      const formatted = value.replace(/\s/g, '').replace(/(.{4})/g, '$1 ').trim();
-      if (formatted.length <= 19) {
-        setCardDetails(prev => ({ ...prev, [name]: formatted }));
-      }
-    } else if (name === 'expiry') {
-      // Format expiry as MM/YY
-      const formatted = value.replace(/\D/g, '').replace(/(\d{2})(\d)/, '$1/$2');
-      if (formatted.length <= 5) {
-        setCardDetails(prev => ({ ...prev, [name]: formatted }));
-      }
-    } else if (name === 'cvv') {
-      // Limit CVV to 3-4 digits
-      if (value.length <= 4 && /^\d*$/.test(value)) {
-        setCardDetails(prev => ({ ...prev, [name]: value }));
-      }
+  // Wait for the provider callback to reach our backend before reporting the outcome
+  const finish = async (id: string, result: ProviderPaymentIntent) => {
+    if (result.status === 'failed') {
+      setError(result.failureReason || 'Payment failed. Please try another payment method.');
+      setStep('details');
+      return;
+    }
+
+    setStep('confirming');
+    const intent = await waitForTopUpIntent(id);
+
+    if (intent.status === 'succeeded') {
+      onSuccess();
+    } else if (intent.status === 'failed') {
+      setError(intent.failureReason || 'Payment failed. Please try another payment method.');
+      setStep('details');
     } else {
-      setCardDetails(prev => ({ ...prev, [name]: value }));
+      toast.info('Your payment is still being confirmed. Your wallet will be credited as soon as the payment provider confirms it.');
+      onClose();
+    }
+  };
+
+  const handleNextAction = (intent: ProviderPaymentIntent, nextAction: PaymentNextAction) => {
+    setProviderIntent(intent);
+
+    if (nextAction.url.startsWith(MOCK_ACTION_URL_PREFIX)) {
+      setStep('action');
+      return;
     }
+
+    // Real providers host the 3D Secure, FPX or e-wallet page; the callback credits the wallet
+    // even if the payer never returns here
+    window.location.assign(nextAction.url);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const topUpAmount = parseFloat(amount);
-    
+    setError(null);
+
     if (!topUpAmount || topUpAmount <= 0) {
-      alert('Please enter a valid amount');
+      toast.error('Please enter a valid amount');
       return;
     }
 
     if (topUpAmount < 10) {
-      alert('Minimum top-up amount is RM10');
+      toast.error('Minimum top-up amount is RM10');
       return;
     }
 
     if (topUpAmount > 10000) {
-      alert('Maximum top-up amount is RM10,000');
+      toast.error('Maximum top-up amount is RM10,000');
       return;
     }
 
-    onSuccess(topUpAmount);
+    if (paymentMethod === 'fpx' && !bankCode) {
+      toast.error('Please select your bank');
+      return;
+    }
+
+    if (paymentMethod === 'ewallet' && !walletCode) {
+      toast.error('Please select your e-wallet');
+      return;
+    }
+
+    try {
+      setStep('confirming');
+
+      const id = await createTopUpIntent(topUpAmount, paymentMethod, provider.id);
+      setIntentId(id);
+
+      const intent = await provider.createIntent({
+        reference: id,
+        amount: topUpAmount,
+        currency: 'MYR',
+        method: paymentMethod,
+        description: 'GambarKaca wallet top up',
+        returnUrl: window.location.href,
+      });
+
+      const confirmParams: ConfirmPaymentIntentParams =
+        paymentMethod === 'card' ? { paymentToken: cardToken } :
+        paymentMethod === 'fpx' ? { bankCode } :
+        { walletCode };
+
+      const result = await provider.confirmIntent(intent.id, confirmParams);
+
+      if (result.status === 'requires_action' && result.nextAction) {
+        handleNextAction(result, result.nextAction);
+        return;
+      }
+
+      await finish(id, result);
+    } catch (error) {
+      console.error('Top-up error:', error);
+      setError(error instanceof Error ? error.message : 'Top-up failed. Please try again.');
+      setStep('details');
+    }
   };
 
+  // Stands in for the provider's 3D Secure / bank / e-wallet page when using the mock
+  const handleSimulatedAction = async (approved: boolean) => {
+    if (!providerIntent || !intentId) return;
+
+    try {
+      setStep('confirming');
+      const result = await provider.confirmIntent(providerIntent.id, {
+        returnParams: { mock_result: approved ? 'approved' : 'declined' },
+      });
+      await finish(intentId, result);
+    } catch (error) {
+      console.error('Top-up error:', error);
+      setError(error instanceof Error ? error.message : 'Top-up failed. Please try again.');
+      setStep('details');
+    }
+  };
+
+  const methodOptions: { value: TopUpIntent['method']; label: string; icon: React.ReactNode }[] = [
+    { value: 'card', label: 'Credit/Debit Card', icon: <CreditCard className="h-5 w-5 text-gray-400 ml-3 mr-3" /> },
+    { value: 'fpx', label: 'FPX Online Banking', icon: <Landmark className="h-5 w-5 text-gray-400 ml-3 mr-3" /> },
+    { value: 'ewallet', label: 'E-Wallet', icon: <Smartphone className="h-5 w-5 text-gray-400 ml-3 mr-3" /> },
+  ];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
@@ -85,12 +179,47 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
           <h2 className="text-xl font-semibold text-gray-900">Top Up Wallet</h2>
           <button
             onClick={onClose}
-            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={step === 'confirming'}
+            className="text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
           >
             <X className="h-6 w-6" />
           </button>
         </div>
 
+        {step === 'action' && providerIntent ? (
+          <div className="p-6 space-y-6">
+            <div className="text-center">
+              <Shield className="h-12 w-12 text-blue-600 mx-auto mb-3" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                {providerIntent.method === 'card' ? '3D Secure Verification' :
+                 providerIntent.method === 'fpx' ? 'Bank Login' : 'Approve in E-Wallet App'}
+              </h3>
+              <p className="text-sm text-gray-600 mt-1">
+                Simulated provider page for {formatCurrency(providerIntent.amount)}
+              </p>
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => handleSimulatedAction(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => handleSimulatedAction(true)}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Approve
+              </button>
+            </div>
+          </div>
+        ) : step === 'confirming' ? (
+          <div className="p-12 text-center">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-900 font-medium">Confirming your payment...</p>
+            <p className="text-sm text-gray-500 mt-1">Please don't close this window</p>
+          </div>
+        ) : (
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
           {/* Current Balance */}
           <div className="bg-gradient-to-r from-blue-50 to-purple-50 rounded-lg p-4 border border-blue-200">
@@ -105,6 +234,13 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
             </div>
           </div>
 
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-start space-x-2">
+              <AlertCircle className="h-5 w-5 text-red-600 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
           {/* Amount Selection */}
           <div>
             <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
@@ -157,89 +293,82 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
               Payment Method
             </label>
             <div className="space-y-2">
-              <label className="flex items-center p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
-                <input
-                  type="radio"
-                  name="paymentMethod"
-                  value="credit_card"
-                  checked={paymentMethod === 'credit_card'}
-                  onChange={(e) => setPaymentMethod(e.target.value)}
-                  className="text-blue-600 focus:ring-blue-500"
-                />
-                <CreditCard className="h-5 w-5 text-gray-400 ml-3 mr-3" />
-                <span className="text-sm font-medium text-gray-900">Credit/Debit Card</span>
-              </label>
+              {methodOptions
+                .filter(option => provider.supportedMethods.includes(option.value))
+                .map(option => (
+                  <label key={option.value} className="flex items-center p-3 border border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                    <input
+                      type="radio"
+                      name="paymentMethod"
+                      value={option.value}
+                      checked={paymentMethod === option.value}
+                      onChange={() => setPaymentMethod(option.value)}
+                      className="text-blue-600 focus:ring-blue-500"
+                    />
+                    {option.icon}
+                    <span className="text-sm font-medium text-gray-900">{option.label}</span>
+                  </label>
+                ))}
             </div>
           </div>
 
-          {/* Card Details */}
-          {paymentMethod === 'credit_card' && (
-            <div className="space-y-4">
-              <div>
-                <label htmlFor="cardName" className="block text-sm font-medium text-gray-700 mb-2">
-                  Cardholder Name *
-                </label>
-                <input
-                  type="text"
-                  id="cardName"
-                  name="name"
-                  value={cardDetails.name}
-                  onChange={handleCardInputChange}
-                  required
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Ahmad Bin Ali"
-                />
-              </div>
-
-              <div>
-                <label htmlFor="cardNumber" className="block text-sm font-medium text-gray-700 mb-2">
-                  Card Number *
-                </label>
-                <input
-                  type="text"
-                  id="cardNumber"
-                  name="number"
-                  value={cardDetails.number}
-                  onChange={handleCardInputChange}
-                  required
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="1234 5678 9012 3456"
-                />
-              </div>
+          {/* Method Details */}
+          {paymentMethod === 'card' && isMock && (
+            <div>
+              <label htmlFor="cardToken" className="block text-sm font-medium text-gray-700 mb-2">
+                Test Card
+              </label>
+              <select
+                id="cardToken"
+                value={cardToken}
+                onChange={(e) => setCardToken(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value={MOCK_CARD_TOKENS.success}>Visa •••• 4242 (succeeds)</option>
+                <option value={MOCK_CARD_TOKENS.threeDSecure}>Visa •••• 3220 (requires 3D Secure)</option>
+                <option value={MOCK_CARD_TOKENS.decline}>Visa •••• 0002 (declined)</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">Test mode: no real card is charged</p>
+            </div>
+          )}
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label htmlFor="expiry" className="block text-sm font-medium text-gray-700 mb-2">
-                    Expiry Date *
-                  </label>
-                  <input
-                    type="text"
-                    id="expiry"
-                    name="expiry"
-                    value={cardDetails.expiry}
-                    onChange={handleCardInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="MM/YY"
-                  />
-                </div>
+          {paymentMethod === 'fpx' && (
+            <div>
+              <label htmlFor="bankCode" className="block text-sm font-medium text-gray-700 mb-2">
+                Bank *
+              </label>
+              <select
+                id="bankCode"
+                value={bankCode}
+                onChange={(e) => setBankCode(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select your bank</option>
+                {MALAYSIAN_BANKS.map(bank => (
+                  <option key={bank.code} value={bank.code}>{bank.name}</option>
+                ))}
+                {isMock && <option value={MOCK_DECLINED_BANK_CODE}>Test Bank (offline)</option>}
+              </select>
+            </div>
+          )}
 
-                <div>
-                  <label htmlFor="cvv" className="block text-sm font-medium text-gray-700 mb-2">
-                    CVV *
-                  </label>
-                  <input
-                    type="text"
-                    id="cvv"
-                    name="cvv"
-                    value={cardDetails.cvv}
-                    onChange={handleCardInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                    placeholder="123"
-                  />
-                </div>
-              </div>
+          {paymentMethod === 'ewallet' && (
+            <div>
+              <label htmlFor="walletCode" className="block text-sm font-medium text-gray-700 mb-2">
+                E-Wallet *
+              </label>
+              <select
+                id="walletCode"
+                value={walletCode}
+                onChange={(e) => setWalletCode(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Select your e-wallet</option>
+                {MALAYSIAN_EWALLETS.map(wallet => (
+                  <option key={wallet.code} value={wallet.code}>{wallet.name}</option>
+                ))}
+                {isMock && <option value={MOCK_DECLINED_BANK_CODE}>Test Wallet (offline)</option>}
+              </select>
             </div>
           )}
 
@@ -250,7 +379,7 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
               <div>
                 <h4 className="text-sm font-medium text-green-800">Secure Payment</h4>
                 <p className="text-sm text-green-700 mt-1">
-                  Your payment information is encrypted and secure. We use industry-standard SSL encryption.
+                  Payments are processed by our payment provider. Your card details never reach our servers.
                 </p>
               </div>
             </div>
@@ -293,26 +422,18 @@ const TopUpModal: React.FC<TopUpModalProps> = ({ onClose, onSuccess, currentBala
             </button>
             <button
               type="submit"
-              disabled={loading || !amount || parseFloat(amount) <= 0}
+              disabled={!amount || parseFloat(amount) <= 0}
               className="px-6 py-2 bg-gradient-to-r from-green-600 to-blue-600 text-white rounded-lg hover:from-green-700 hover:to-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
             >
-              {loading ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Processing...</span>
-                </>
-              ) : (
-                <>
-                  <Lock className="h-4 w-4" />
-                  <span>Top Up {amount ? formatCurrency(parseFloat(amount)) : 'Wallet'}</span>
-                </>
-              )}
+              <Lock className="h-4 w-4" />
+              <span>Top Up {amount ? formatCurrency(parseFloat(amount)) : 'Wallet'}</span>
             </button>
           </div>
         </form>
+        )}
       </div>
     </div>
   );
 };
 
-export default TopUpModal;
\ No newline at end of file
+export default TopUpModal;
@@ -8,6 +8,7 @@ interface AuthContextType {
   register: (userData: any) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;
   updateProfile?: (userData: User) => Promise<void>;
+  refreshUser: () => Promise<void>;
   loading: boolean;
 }
 
@@ -103,7 +104,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         updates.company = founder.company;
         updates.phone = founder.phone;
         updates.address = founder.address;
-        updates.wallet_balance = founder.walletBalance;
       }
 
       if (userData.role === 'talent') {
@@ -113,7 +113,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         updates.rate_level = talent.rateLevel;
         updates.skills = talent.skills;
         updates.social_media = talent.socialMedia;
-        updates.total_earnings = talent.totalEarnings;
       }
 
       const updatedProfile = await updateUserProfile(userData.id, updates);
@@ -124,6 +123,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Reload the profile after server-side changes such as escrow wallet deductions
+  const refreshUser = async () => {
+    try {
+      const currentUser = await getCurrentUser();
+      if (currentUser) setUser(currentUser);
+    } catch (error) {
+      console.error('Refresh user error:', error);
+    }
+  };
+
   const logout = async () => {
     try {
       await signOut();
@@ -134,7 +143,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, register, logout, updateProfile, loading }}>
+    <AuthContext.Provider value={{ user, login, register, logout, updateProfile, refreshUser, loading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,241 @@
+import { useAuth } from '../context/AuthContext';
+import {
+  countApplications,
+  countOrders,
+  getAccountBalances,
+  getActiveFeePolicy,
+  getCampaign,
+  getCampaignStats,
+  getEarningStats,
+  getFounderActivity,
+  getMessageThreads,
+  getMonthlyActivity,
+  getOrder,
+  getOrdersById,
+  getPaymentStats,
+  getPendingShipments,
+  getProfile,
+  getProfilesById,
+  getProfileStats,
+  getWalletStats,
+  getWithdrawals,
+  listCampaigns,
+  listEarnings,
+  listOrders,
+  listTalents,
+  listTransactions,
+} from '../lib/api';
+import { queryKeys } from '../lib/queries';
+import { useQuery, useQueryData } from './useQuery';
+import { EntityName, QueryKey } from '../lib/queryCache';
+import {
+  AccountBalances,
+  CampaignListFilters,
+  EarningListFilters,
+  Founder,
+  Message,
+  OrderListFilters,
+  Page,
+  ProfileListFilters,
+  Talent,
+  TransactionListFilters,
+} from '../types';
+
+// The app's shared data, so each page only loads and re-renders for what it shows. Campaigns,
+// orders, transactions, earnings and profiles are never loaded whole: pages list them through
+// usePagedList, and the hooks here load records by id, the newest few, or counts and totals
+// summed on the server. Each user sees what their role is allowed: admins get everyone's
+// withdrawals, talents their own
+
+const NONE: never[] = [];
+const EMPTY_BALANCES: AccountBalances = { founderWallet: 0, escrow: 0, talentPayable: 0, withdrawalPending: 0 };
+
+// Admins see every withdrawal, talents their own
+export const useWithdrawals = () => {
+  const { user } = useAuth();
+  const { data } = useQuery(
+    queryKeys.withdrawals,
+    () => getWithdrawals(user?.role === 'admin' ? undefined : user?.id),
+    { entity: 'withdrawal', enabled: user?.role === 'admin' || user?.role === 'talent' }
+  );
+  return data || NONE;
+};
+
+export const useAccountBalances = () => {
+  const { user } = useAuth();
+  const { data } = useQuery(queryKeys.accountBalances, () => getAccountBalances(user?.id || ''), {
+    enabled: Boolean(user) && user?.role !== 'admin',
+  });
+  return data || EMPTY_BALANCES;
+};
+
+// One record by id, e.g. the one open from a URL, without loading the list it is in. It is cached
+// as `entity`, so changing it with updateEntity changes it here too
+const useRecord = <T extends { id: string }>(
+  key: QueryKey,
+  fetcher: () => Promise<T | null>,
+  entity: EntityName,
+  enabled: boolean
+) => {
+  const { data } = useQuery(key, async () => {
+    const record = await fetcher();
+    return record ? [record] : [];
+  }, { entity, enabled });
+  return data?.[0] || null;
+};
+
+export const useCampaign = (campaignId?: string) =>
+  useRecord(
+    [...queryKeys.campaigns, 'detail', campaignId],
+    () => getCampaign(campaignId || ''),
+    'campaign',
+    Boolean(campaignId)
+  );
+
+export const useFounder = (founderId?: string) =>
+  useRecord(
+    [...queryKeys.founders, 'detail', founderId],
+    async () => (await getProfile(founderId || '')) as Founder | null,
+    'founder',
+    Boolean(founderId)
+  );
+
+export const useTalent = (talentId?: string) =>
+  useRecord(
+    [...queryKeys.talents, 'detail', talentId],
+    async () => (await getProfile(talentId || '')) as Talent | null,
+    'talent',
+    Boolean(talentId)
+  );
+
+export const useOrder = (orderId?: string) =>
+  useRecord([...queryKeys.orders, 'detail', orderId], () => getOrder(orderId || ''), 'order', Boolean(orderId));
+
+// The orders a page of other records refers to, e.g. the disputes listed
+export const useOrdersById = (orderIds: string[]) => {
+  const { data } = useQuery([...queryKeys.orders, 'byId', orderIds], () => getOrdersById(orderIds), { entity: 'order' });
+  return data || NONE;
+};
+
+// The talents a campaign refers to, e.g. its applicants
+export const useTalentsById = (talentIds: string[]) => {
+  const { data } = useQuery(
+    [...queryKeys.talents, 'byId', talentIds],
+    async () => (await getProfilesById(talentIds)) as Talent[],
+    { entity: 'talent' }
+  );
+  return data || NONE;
+};
+
+// The first few records of a list in its default order, newest first, e.g. for a dashboard. They
+// sit beside its pages, so they are refetched along with them
+const useLatest = <T extends { id: string }>(
+  key: QueryKey,
+  fetchPage: () => Promise<Page<T>>,
+  entity: EntityName,
+  enabled = true
+) => {
+  const { data } = useQuery(key, async () => (await fetchPage()).items, { entity, enabled });
+  return data || NONE;
+};
+
+export const useLatestCampaigns = (filters: CampaignListFilters, limit: number) =>
+  useLatest([...queryKeys.campaigns, 'latest', filters, limit], () => listCampaigns({ filters, limit }), 'campaign');
+
+export const useLatestOrders = (filters: OrderListFilters, limit: number) =>
+  useLatest([...queryKeys.orders, 'latest', filters, limit], () => listOrders({ filters, limit }), 'order');
+
+export const useLatestTransactions = (filters: TransactionListFilters, limit: number) =>
+  useLatest([...queryKeys.transactions, 'latest', filters, limit], () => listTransactions({ filters, limit }), 'transaction');
+
+export const useLatestEarnings = (filters: EarningListFilters, limit: number) =>
+  useLatest([...queryKeys.earnings, 'latest', filters, limit], () => listEarnings({ filters, limit }), 'earning');
+
+// Only admins list talents
+export const useLatestTalents = (filters: ProfileListFilters, limit: number) => {
+  const { user } = useAuth();
+  return useLatest(
+    [...queryKeys.talents, 'latest', filters, limit],
+    () => listTalents({ filters, limit }),
+    'talent',
+    user?.role === 'admin'
+  );
+};
+
+// Every order the signed in founder still has to ship, loaded once they open bulk shipping
+export const usePendingShipments = (enabled: boolean) => {
+  const { user } = useAuth();
+  const { data } = useQuery(
+    [...queryKeys.orders, 'pendingShipment'],
+    () => getPendingShipments(user?.id || ''),
+    { entity: 'order', enabled: enabled && user?.role === 'founder' }
+  );
+  return data || NONE;
+};
+
+// The stat cards above the paged lists and on the dashboards. Campaign stats cover every
+// campaign the user can see, or only the founder's when one is given
+export const useCampaignStats = (founderId?: string) =>
+  useQuery([...queryKeys.campaigns, 'stats', founderId], () => getCampaignStats(founderId)).data;
+
+export const useProfileStats = (role: 'founder' | 'talent') =>
+  useQuery([...(role === 'founder' ? queryKeys.founders : queryKeys.talents), 'stats'], () => getProfileStats(role)).data;
+
+export const usePaymentStats = () => useQuery([...queryKeys.payments, 'stats'], getPaymentStats).data;
+
+export const useMonthlyActivity = () =>
+  useQuery([...queryKeys.payments, 'monthly'], getMonthlyActivity).data || NONE;
+
+export const useFounderActivity = (founderIds: string[]) =>
+  useQuery([...queryKeys.founders, 'activity', founderIds], () => getFounderActivity(founderIds)).data || NONE;
+
+export const useOrderCount = (filters: Omit<OrderListFilters, 'search'>) =>
+  useQuery([...queryKeys.orders, 'count', filters], () => countOrders(filters)).data ?? 0;
+
+// The cards above the talent's earnings and the founder's wallet history
+export const useEarningStats = () => {
+  const { user } = useAuth();
+  return useQuery([...queryKeys.earnings, 'stats'], getEarningStats, { enabled: user?.role === 'talent' }).data;
+};
+
+export const useWalletStats = () => {
+  const { user } = useAuth();
+  return useQuery([...queryKeys.transactions, 'stats'], getWalletStats, { enabled: user?.role === 'founder' }).data;
+};
+
+// How many campaigns the signed in talent has applied to and been approved for
+export const useApplicationCounts = () => {
+  const { user } = useAuth();
+  const enabled = user?.role === 'talent';
+  const applied = useQuery(
+    [...queryKeys.campaigns, 'applications', 'pending'],
+    () => countApplications(user?.id || '', 'pending'),
+    { enabled }
+  );
+  const approved = useQuery(
+    [...queryKeys.campaigns, 'applications', 'approved'],
+    () => countApplications(user?.id || '', 'approved'),
+    { enabled }
+  );
+  return { applied: applied.data ?? 0, approved: approved.data ?? 0 };
+};
+
+// Every role quotes platform fees against the active policy
+export const useFeePolicy = () => {
+  const { user } = useAuth();
+  const { data } = useQuery(queryKeys.feePolicy, getActiveFeePolicy, { enabled: Boolean(user) });
+  return data || null;
+};
+
+// The inbox's conversations, and the total of their unread messages. Admins have no inbox
+export const useMessageThreads = () => {
+  const { user } = useAuth();
+  const { data } = useQuery(queryKeys.threads, () => getMessageThreads(), {
+    enabled: Boolean(user) && user?.role !== 'admin',
+  });
+  const threads = data || NONE;
+  return { threads, unreadCount: threads.reduce((sum, thread) => sum + thread.unreadCount, 0) };
+};
+
+// The messages of one order's chat loaded so far, plus any that arrived since
+export const useChatMessages = (orderId: string) => useQueryData<Message[]>(queryKeys.messages(orderId)) || NONE;
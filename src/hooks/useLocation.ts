@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getLocation, subscribeToLocation } from '../lib/router';
+
+// The current path and query, re-rendering on every navigation and back or forward
+export const useLocation = () => {
+  const location = useSyncExternalStore(subscribeToLocation, getLocation);
+  const url = new URL(location, window.location.origin);
+  return { location, pathname: url.pathname, searchParams: url.searchParams };
+};
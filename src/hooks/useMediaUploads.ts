@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from 'react';
+import { MediaAsset, MediaBucket } from '../types';
+import { cancelMediaUpload, removeMedia, uploadMedia, UploadMediaOptions } from '../lib/mediaAssets';
+import { UploadAbortedError } from '../lib/resumableUpload';
+
+export type MediaUploadStatus = 'uploading' | 'processing' | 'paused' | 'failed' | 'done';
+
+export interface MediaUpload {
+  // Chosen by the caller, e.g. the object URL of the file's local preview
+  id: string;
+  file: File;
+  path: string;
+  status: MediaUploadStatus;
+  // Fraction of the original uploaded
+  progress: number;
+  error?: string;
+  asset?: MediaAsset;
+}
+
+// Uploads files to one bucket with per-file progress, pause, resume and retry. Files that are
+// uploaded but never used are deleted by `discard`, e.g. when a form is closed without saving
+export const useMediaUploads = (bucket: MediaBucket, options: Pick<UploadMediaOptions, 'watermark'> = {}) => {
+  const [uploads, setUploads] = useState<MediaUpload[]>([]);
+  // Mirrors `uploads` for handlers that outlive the render they were created in
+  const uploadsRef = useRef<MediaUpload[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  // The upload of each file in progress
+  const running = useRef(new Map<string, Promise<MediaAsset | null>>());
+
+  const updateUploads = (next: (list: MediaUpload[]) => MediaUpload[]) => {
+    uploadsRef.current = next(uploadsRef.current);
+    setUploads(uploadsRef.current);
+  };
+
+  const updateUpload = (id: string, patch: Partial<MediaUpload>) =>
+    updateUploads(list => list.map(upload => (upload.id === id ? { ...upload, ...patch } : upload)));
+
+  const send = async (id: string): Promise<MediaAsset | null> => {
+    const upload = uploadsRef.current.find(item => item.id === id);
+    if (!upload) return null;
+    if (upload.asset) return upload.asset;
+
+    const controller = new AbortController();
+    controllers.current.set(id, controller);
+    updateUpload(id, { status: 'uploading', error: undefined });
+
+    try {
+      const asset = await uploadMedia(upload.file, bucket, upload.path, {
+        ...options,
+        signal: controller.signal,
+        onProgress: progress => updateUpload(id, progress < 1 ? { progress } : { progress, status: 'processing' }),
+      });
+      updateUpload(id, { status: 'done', progress: 1, asset });
+      return asset;
+    } catch (error) {
+      if (error instanceof UploadAbortedError) {
+        updateUpload(id, { status: 'paused' });
+      } else {
+        console.error('Error uploading file:', error);
+        updateUpload(id, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      }
+      return null;
+    } finally {
+      controllers.current.delete(id);
+    }
+  };
+
+  // Starting a file that is already uploading, e.g. a double-clicked resume, waits for that
+  // upload rather than sending the file twice
+  const run = (id: string): Promise<MediaAsset | null> => {
+    const active = running.current.get(id);
+    if (active) return active;
+
+    const next = send(id).finally(() => running.current.delete(id));
+    running.current.set(id, next);
+    return next;
+  };
+
+  // Starts uploading a file, or resumes it when `id` is already known. Resolves to null when the
+  // upload is paused or fails; its status says which
+  const upload = (id: string, file: File, path: string): Promise<MediaAsset | null> => {
+    if (!uploadsRef.current.some(item => item.id === id)) {
+      updateUploads(list => [...list, { id, file, path, status: 'uploading', progress: 0 }]);
+    }
+    return run(id);
+  };
+
+  // Only the original can be paused; making and saving the smaller copies runs to the end
+  const pause = (id: string) => controllers.current.get(id)?.abort();
+
+  const resume = (id: string) => run(id);
+
+  // Deletes a file whether it is still uploading or already done
+  const remove = async (id: string) => {
+    const item = uploadsRef.current.find(upload => upload.id === id);
+    if (!item) return;
+
+    controllers.current.get(id)?.abort();
+    updateUploads(list => list.filter(upload => upload.id !== id));
+    if (item.asset) {
+      await removeMedia(bucket, item.asset.url);
+    } else {
+      await cancelMediaUpload(bucket, item.path);
+    }
+  };
+
+  // Deletes every file this hook uploaded that was not kept
+  const discard = () => Promise.all(uploadsRef.current.map(item => remove(item.id)));
+
+  // Forgets the uploads so `discard` leaves them alone, once they are saved somewhere
+  const keep = (ids?: string[]) =>
+    updateUploads(list => (ids ? list.filter(upload => !ids.includes(upload.id)) : []));
+
+  // Pauses whatever is still uploading when the component goes away; the caller decides whether
+  // to discard first
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach(controller => controller.abort());
+  }, []);
+
+  return { uploads, upload, pause, resume, remove, discard, keep };
+};
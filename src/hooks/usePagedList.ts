@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { Page } from '../types';
+import { toast } from '../lib/toast';
+import { EntityName, invalidateQueries, QueryKey, setQueryData } from '../lib/queryCache';
+import { useQuery, useQueryData } from './useQuery';
+
+interface PageInfo {
+  total: number;
+  nextCursor: string | null;
+}
+
+const NONE: never[] = [];
+
+// One list loaded a page at a time, e.g. through listCampaigns. `queryKey` names the filters and
+// sort the pages are for: when it changes the list starts again from the first page. The records
+// are cached as `entity`, so changing one with updateEntity changes it here too, and the list is
+// refetched from the first page when its key is invalidated
+export const usePagedList = <T extends { id: string }>(
+  fetchPage: (cursor: string | null) => Promise<Page<T>>,
+  queryKey: QueryKey,
+  entity: EntityName
+) => {
+  const pageInfoKey = [...queryKey, 'pageInfo'];
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const { data, loading, error } = useQuery(queryKey, async () => {
+    const page = await fetchPage(null);
+    setQueryData<PageInfo>(pageInfoKey, () => ({ total: page.total, nextCursor: page.nextCursor }));
+    return page.items;
+  }, { entity });
+  const pageInfo = useQueryData<PageInfo>(pageInfoKey);
+
+  useEffect(() => {
+    if (error) toast.error('Failed to load the list. Please try again.');
+  }, [error]);
+
+  const loadMore = async () => {
+    if (!pageInfo?.nextCursor || loading || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(pageInfo.nextCursor);
+      // A refetch of the first page may have overlapped this one
+      setQueryData<T[]>(queryKey, (items = []) => [
+        ...items,
+        ...page.items.filter(item => !items.some(loaded => loaded.id === item.id)),
+      ], entity);
+      setQueryData<PageInfo>(pageInfoKey, info => ({ total: info?.total ?? page.total, nextCursor: page.nextCursor }));
+    } catch (error) {
+      console.error('Error loading more:', error);
+      toast.error('Failed to load more. Please try again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  return {
+    items: data || NONE,
+    total: pageInfo?.total ?? 0,
+    hasMore: Boolean(pageInfo?.nextCursor),
+    loading: loading || loadingMore,
+    loadMore,
+    // Starts again from the first page, e.g. after an item was added or removed
+    reload: () => invalidateQueries(queryKey),
+  };
+};
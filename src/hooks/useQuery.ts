@@ -0,0 +1,43 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  getQuerySnapshot,
+  invalidateQueries,
+  observeQuery,
+  QueryKey,
+  QueryOptions,
+  subscribeToQueries,
+} from '../lib/queryCache';
+
+// One query from the cache: cached data is returned straight away, and fetched or refetched in
+// the background while the component is mounted. Re-renders only when this query's data changes
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, entity, staleTime }: QueryOptions & { enabled?: boolean } = {}
+) => {
+  const hash = JSON.stringify(key);
+  const snapshot = useSyncExternalStore(subscribeToQueries, () => getQuerySnapshot<T>(key));
+  // Mirror the key and fetcher, which are rebuilt every render, for the effect keyed on the hash
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return observeQuery(keyRef.current, () => fetcherRef.current(), { entity, staleTime });
+  }, [hash, enabled, entity, staleTime]);
+
+  return {
+    data: snapshot.data,
+    // Nothing to show yet; a background refetch of cached data does not count
+    loading: enabled && snapshot.data === undefined && !snapshot.error,
+    fetching: snapshot.fetching,
+    error: snapshot.error,
+    refetch: () => invalidateQueries(key),
+  };
+};
+
+// A query that is only ever filled with setQueryData, such as a chat's messages
+export const useQueryData = <T>(key: QueryKey) =>
+  useSyncExternalStore(subscribeToQueries, () => getQuerySnapshot<T>(key)).data;
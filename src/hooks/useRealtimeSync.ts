@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { subscribeToTableChanges, subscribeToUserMessages } from '../lib/api';
+import { clearQueryCache, invalidateQueries } from '../lib/queryCache';
+import { invalidateTable, LIVE_TABLES, queryKeys, receiveMessage, replaceMessage } from '../lib/queries';
+
+// Keeps the query cache in step with the server while a user is signed in: a change to a table
+// refetches only the queries built from it, and messages are merged as they arrive. The cache is
+// cleared whenever the user changes, so nobody sees the previous user's data
+export const useRealtimeSync = () => {
+  const { user } = useAuth();
+  // The user's profile is reloaded after every payment, which must not empty the cache
+  const userId = user?.id;
+  const role = user?.role;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const changes = subscribeToTableChanges(userId, LIVE_TABLES, invalidateTable);
+
+    // The sender already added their own message when it was saved, so messages are merged by id
+    const messages = subscribeToUserMessages(userId, message => {
+      // The first message of a conversation
+      if (!receiveMessage(message, userId) && role !== 'admin') {
+        invalidateQueries(queryKeys.threads);
+      }
+    }, replaceMessage);
+
+    return () => {
+      changes.unsubscribe();
+      messages.unsubscribe();
+      clearQueryCache();
+    };
+  }, [userId, role]);
+};
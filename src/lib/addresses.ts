@@ -0,0 +1,60 @@
+import { MalaysianState, OrderShippingAddress, ShippingAddress } from '../types';
+
+// Mirrors postcode_in_state() in the database
+const POSTCODE_RANGES: Record<MalaysianState, [number, number][]> = {
+  Perlis: [[1000, 2999]],
+  Kedah: [[5000, 9999]],
+  'Pulau Pinang': [[10000, 14999]],
+  Kelantan: [[15000, 18999]],
+  Terengganu: [[20000, 24999]],
+  Pahang: [[25000, 28999], [39000, 39999], [49000, 49999], [69000, 69999]],
+  Perak: [[30000, 36999]],
+  Selangor: [[40000, 48999], [63000, 68999]],
+  'Wilayah Persekutuan Kuala Lumpur': [[50000, 60999]],
+  'Wilayah Persekutuan Putrajaya': [[62000, 62999]],
+  'Negeri Sembilan': [[70000, 73999]],
+  Melaka: [[75000, 78999]],
+  Johor: [[79000, 86999]],
+  'Wilayah Persekutuan Labuan': [[87000, 87999]],
+  Sabah: [[88000, 91999]],
+  Sarawak: [[93000, 98999]],
+};
+
+export type ShippingAddressInput = Omit<ShippingAddress, 'id' | 'isDefault'>;
+
+export const isPostcodeInState = (postcode: string, state: MalaysianState): boolean => {
+  if (!/^\d{5}$/.test(postcode)) return false;
+  const value = Number(postcode);
+  return POSTCODE_RANGES[state].some(([from, to]) => value >= from && value <= to);
+};
+
+// Returns why each field is invalid, keyed by field; empty when the address can be saved
+export const validateShippingAddress = (address: ShippingAddressInput): Partial<Record<keyof ShippingAddressInput, string>> => {
+  const errors: Partial<Record<keyof ShippingAddressInput, string>> = {};
+  const postcode = address.postcode.trim();
+
+  if (!address.recipientName.trim()) errors.recipientName = 'Recipient name is required';
+  if (!/^\+?\d{9,13}$/.test(address.phone.replace(/[\s()-]/g, ''))) {
+    errors.phone = 'Enter a phone number the courier can call, e.g. 012-345 6789';
+  }
+  if (!address.line1.trim()) errors.line1 = 'Address line 1 is required';
+  if (!address.city.trim()) errors.city = 'City is required';
+
+  if (!/^\d{5}$/.test(postcode)) {
+    errors.postcode = 'Postcodes have 5 digits';
+  } else if (!isPostcodeInState(postcode, address.state)) {
+    errors.postcode = `${postcode} is not a ${address.state} postcode`;
+  }
+
+  return errors;
+};
+
+// The address as a courier label would print it
+export const formatShippingAddress = (address: Omit<OrderShippingAddress, 'orderId'>): string =>
+  [
+    `${address.recipientName} (${address.phone})`,
+    address.line1,
+    address.line2,
+    `${address.postcode} ${address.city}`,
+    address.state,
+  ].filter(Boolean).join('\n');
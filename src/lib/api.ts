@@ -1,14 +1,39 @@
 import { supabase } from './supabase';
-import { Database } from './database.types';
-import { User, Founder, Talent, Campaign, Order, Transaction, Earning, Message } from '../types';
+import { Database, Json } from './database.types';
+import { DEFAULT_LOW_BALANCE_THRESHOLD, EmailEvent, EmailPreferences } from './email';
+import { User, Founder, Talent, Campaign, CampaignDeliverable, ContentDuration, Order, OrderStatus, OrderStatusChange, ShipmentTrackingEvent, ReviewSubmission, ReviewMedia, ReviewMediaFeedback, ReviewAnnotation, MediaInspection, MediaCheck, ContentLicense, OrderDispute, DisputeReason, DisputeResolution, UsageRights, Transaction, Earning, Message, MessageAttachment, MessageThread, ChatParticipant, AppNotification, AccountBalances, FeePolicy, FeeRule, BankAccount, ShippingAddress, OrderShippingAddress, MalaysianState, MediaAsset, MediaBucket, ReviewMediaGrant, WithdrawalRequest, PayoutBatch, TopUpIntent, Payment, Page, ListQuery, CampaignListFilters, CampaignSortField, ProfileListFilters, ProfileSortField, PaymentListFilters, PaymentSortField, OrderListFilters, OrderSortField, TransactionListFilters, TransactionSortField, EarningListFilters, EarningSortField, PaymentType, CampaignStats, ProfileStats, FounderActivity, PaymentStats, EarningStats, WalletStats, MonthlyActivity, DEFAULT_REVISION_ROUNDS, DEFAULT_USAGE_RIGHTS } from '../types';
 
 type Tables = Database['public']['Tables'];
 type ProfileRow = Tables['profiles']['Row'];
 type CampaignRow = Tables['campaigns']['Row'];
+type CampaignDeliverableRow = Tables['campaign_deliverables']['Row'];
+type CampaignApplicationRow = Tables['campaign_applications']['Row'];
 type OrderRow = Tables['orders']['Row'];
-type TransactionRow = Tables['transactions']['Row'];
+type OrderListRow = Database['public']['Views']['order_list']['Row'];
+type OrderStatusHistoryRow = Tables['order_status_history']['Row'];
+type ShipmentTrackingEventRow = Tables['shipment_tracking_events']['Row'];
+type ReviewSubmissionRow = Tables['review_submissions']['Row'];
+type ReviewAnnotationRow = Tables['review_annotations']['Row'];
+type ContentLicenseRow = Tables['content_licenses']['Row'];
+type OrderDisputeRow = Tables['order_disputes']['Row'];
+type LedgerTransactionRow = Database['public']['Views']['ledger_transactions']['Row'];
 type EarningRow = Tables['earnings']['Row'];
+type PaymentHistoryRow = Database['public']['Views']['payment_history']['Row'];
+type PlatformSettingsRow = Tables['platform_settings']['Row'];
+type BankAccountRow = Tables['talent_bank_accounts']['Row'];
+type TalentAddressRow = Tables['talent_addresses']['Row'];
+type OrderShippingAddressRow = Tables['order_shipping_addresses']['Row'];
+type WithdrawalRequestRow = Tables['withdrawal_requests']['Row'];
+type PayoutBatchRow = Tables['payout_batches']['Row'];
+type PaymentIntentRow = Tables['payment_intents']['Row'];
 type MessageRow = Tables['messages']['Row'];
+type MediaAssetRow = Tables['media_assets']['Row'];
+type ReviewMediaGrantRow = Tables['review_media_grants']['Row'];
+type NotificationRow = Tables['notifications']['Row'];
+type MessageThreadRow = Database['public']['Functions']['get_message_threads']['Returns'][number];
+type FounderActivityRow = Database['public']['Functions']['founder_activity']['Returns'][number];
+type PaymentStatsRow = Database['public']['Functions']['payment_stats']['Returns'][number];
+type MonthlyActivityRow = Database['public']['Functions']['monthly_activity']['Returns'][number];
 
 // Helper function to convert database profile to app user type
 const convertProfileToUser = (profile: ProfileRow): User | Founder | Talent => {
@@ -51,15 +76,152 @@ const convertProfileToUser = (profile: ProfileRow): User | Founder | Talent => {
   return baseUser;
 };
 
-// Helper function to convert database campaign to app campaign type
-const convertCampaignToApp = (campaign: CampaignRow, applicants: string[] = [], approvedTalents: string[] = []): Campaign => ({
+// campaigns.usage_rights / orders.usage_rights jsonb
+type UsageRightsJson = {
+  usage: UsageRights['usage'];
+  duration_months: number;
+  territories: string[];
+  name_and_likeness: boolean;
+  whitelisting: boolean;
+};
+
+const convertUsageRightsToApp = (json: Json | null): UsageRights => {
+  if (!json) return DEFAULT_USAGE_RIGHTS;
+  const rights = json as UsageRightsJson;
+  return {
+    usage: rights.usage,
+    durationMonths: rights.duration_months,
+    territories: rights.territories || [],
+    nameAndLikeness: Boolean(rights.name_and_likeness),
+    whitelisting: Boolean(rights.whitelisting),
+  };
+};
+
+export const convertUsageRightsToDb = (rights: UsageRights): Json => ({
+  usage: rights.usage,
+  duration_months: rights.durationMonths,
+  territories: rights.territories,
+  name_and_likeness: rights.nameAndLikeness,
+  whitelisting: rights.whitelisting,
+});
+
+const convertCampaignDeliverableToApp = (row: CampaignDeliverableRow): CampaignDeliverable => ({
+  id: row.id,
+  kind: row.kind,
+  platform: row.platform,
+  quantity: row.quantity,
+  duration: row.duration || undefined,
+  aspectRatio: row.aspect_ratio || undefined,
+  minResolution: row.min_resolution || undefined,
+  requiredTags: row.required_tags || [],
+  dos: row.dos || undefined,
+  donts: row.donts || undefined,
+});
+
+export const convertCampaignDeliverablesToDb = (deliverables: Omit<CampaignDeliverable, 'id'>[]): Json =>
+  deliverables.map(deliverable => ({
+    kind: deliverable.kind,
+    platform: deliverable.platform,
+    quantity: deliverable.quantity,
+    duration: deliverable.kind === 'video' ? deliverable.duration || '30sec' : null,
+    aspect_ratio: deliverable.aspectRatio || null,
+    min_resolution: deliverable.minResolution || null,
+    required_tags: deliverable.requiredTags,
+    dos: deliverable.dos || null,
+    donts: deliverable.donts || null,
+  }));
+
+// Items of review_submissions.media / orders.review_media jsonb
+type ReviewMediaRow = {
+  url: string;
+  type: 'image' | 'video';
+  deliverable_id?: string | null;
+  inspection?: {
+    width: number;
+    height: number;
+    orientation: MediaInspection['orientation'];
+    duration_seconds?: number | null;
+    size_bytes: number;
+    mime_type: string;
+    codec?: string | null;
+  } | null;
+  checks?: MediaCheck[] | null;
+};
+
+const convertReviewMediaToApp = (item: ReviewMediaRow): ReviewMedia => ({
+  url: item.url,
+  type: item.type,
+  deliverableId: item.deliverable_id || undefined,
+  inspection: item.inspection ? {
+    width: item.inspection.width,
+    height: item.inspection.height,
+    orientation: item.inspection.orientation,
+    durationSeconds: item.inspection.duration_seconds ?? undefined,
+    sizeBytes: item.inspection.size_bytes,
+    mimeType: item.inspection.mime_type,
+    codec: item.inspection.codec || undefined,
+  } : undefined,
+  checks: item.checks || undefined,
+});
+
+// Items of messages.attachments jsonb
+type MessageAttachmentRow = {
+  url: string;
+  path: string;
+  name: string;
+  type: MessageAttachment['type'];
+  mime_type: string;
+  size_bytes: number;
+};
+
+const convertMessageToApp = (message: MessageRow): Message => ({
+  id: message.id,
+  jobId: message.order_id,
+  senderId: message.sender_id,
+  content: message.content,
+  attachments: ((message.attachments || []) as MessageAttachmentRow[]).map(attachment => ({
+    url: attachment.url,
+    path: attachment.path,
+    name: attachment.name,
+    type: attachment.type,
+    mimeType: attachment.mime_type,
+    sizeBytes: attachment.size_bytes,
+  })),
+  timestamp: new Date(message.created_at || ''),
+  read: message.read || false,
+  readAt: message.read_at ? new Date(message.read_at) : undefined,
+});
+
+const convertReviewMediaToDb = (item: ReviewMedia): Json => ({
+  url: item.url,
+  type: item.type,
+  deliverable_id: item.deliverableId ?? null,
+  inspection: item.inspection ? {
+    width: item.inspection.width,
+    height: item.inspection.height,
+    orientation: item.inspection.orientation,
+    duration_seconds: item.inspection.durationSeconds ?? null,
+    size_bytes: item.inspection.sizeBytes,
+    mime_type: item.inspection.mimeType,
+    codec: item.inspection.codec || null,
+  } : null,
+  checks: item.checks ? item.checks.map(check => ({ ...check })) : null,
+});
+
+// Helper function to convert database campaign to app campaign type.
+// Deliverables come from a `campaign_deliverables(*)` join when it was selected
+const convertCampaignToApp = (
+  campaign: CampaignRow & { campaign_deliverables?: CampaignDeliverableRow[] },
+  applicants: string[] = [],
+  approvedTalents: string[] = []
+): Campaign => ({
   id: campaign.id,
   founderId: campaign.founder_id,
   title: campaign.title,
   description: campaign.description,
   productName: campaign.product_name,
   category: campaign.category,
-  duration: campaign.duration as '30sec' | '1min' | '3min',
+  duration: campaign.duration as ContentDuration,
   productImages: (campaign.product_images as string[]) || [],
   rateLevel: campaign.rate_level as 1 | 2 | 3,
   mediaType: campaign.media_type as 'image' | 'video' | 'both',
@@ -70,35 +232,328 @@ const convertCampaignToApp = (campaign: CampaignRow, applicants: string[] = [],
   approvedTalents,
   createdAt: new Date(campaign.created_at || ''),
   deadline: campaign.deadline ? new Date(campaign.deadline) : undefined,
+  maxRevisionRounds: campaign.max_revision_rounds ?? DEFAULT_REVISION_ROUNDS,
+  usageRights: convertUsageRightsToApp(campaign.usage_rights),
+  deliverables: (campaign.campaign_deliverables || [])
+    .sort((a, b) => a.position - b.position)
+    .map(convertCampaignDeliverableToApp),
 });
 
+// Campaigns are always read with their deliverables and applications in the one query
+const CAMPAIGN_SELECT = '*, campaign_deliverables(*), campaign_applications(talent_id, status)';
+
+type CampaignWithRelations = CampaignRow & {
+  campaign_deliverables?: CampaignDeliverableRow[];
+  campaign_applications?: Pick<CampaignApplicationRow, 'talent_id' | 'status'>[];
+};
+
+const convertJoinedCampaignToApp = (campaign: CampaignWithRelations): Campaign => {
+  const applications = campaign.campaign_applications || [];
+  return convertCampaignToApp(
+    campaign,
+    applications.filter(app => app.status === 'pending').map(app => app.talent_id),
+    applications.filter(app => app.status === 'approved').map(app => app.talent_id)
+  );
+};
+
 // Helper function to convert database order to app order type
-const convertOrderToApp = (order: OrderRow, campaignTitle: string, talentName: string, productName: string): Order => ({
-  id: order.id,
-  campaignId: order.campaign_id,
-  talentId: order.talent_id,
-  founderId: order.founder_id,
-  talentName,
-  campaignTitle,
-  productName,
-  status: order.status as 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed',
-  payout: Number(order.payout) || 0,
-  createdAt: new Date(order.created_at || ''),
-  updatedAt: order.updated_at ? new Date(order.updated_at) : undefined,
-  deliveryInfo: order.delivery_address ? {
-    address: order.delivery_address,
-    trackingNumber: order.tracking_number || undefined,
-    courier: order.courier || undefined,
-  } : undefined,
-  reviewSubmission: order.review_media && Array.isArray(order.review_media) && order.review_media.length > 0 ? {
-    media: order.review_media.map((item: any) => ({
-      url: item.url,
-      type: item.type,
-    })),
-    submittedAt: order.review_submitted_at ? new Date(order.review_submitted_at) : new Date(),
+const convertOrderToApp = (order: OrderRow, campaignTitle: string, talentName: string, productName: string): Order => {
+  const reviewMedia = Array.isArray(order.review_media) ? (order.review_media as unknown as ReviewMediaRow[]) : [];
+
+  return {
+    id: order.id,
+    campaignId: order.campaign_id,
+    talentId: order.talent_id,
+    founderId: order.founder_id,
+    talentName,
+    campaignTitle,
+    productName,
+    status: order.status as OrderStatus,
+    payout: Number(order.payout) || 0,
+    feePolicyVersion: order.fee_policy_version ?? undefined,
+    trackingStatus: order.tracking_status || undefined,
+    trackingCheckedAt: order.tracking_checked_at ? new Date(order.tracking_checked_at) : undefined,
+    createdAt: new Date(order.created_at || ''),
+    updatedAt: order.updated_at ? new Date(order.updated_at) : undefined,
+    deliveryInfo: order.delivery_address ? {
+      address: order.delivery_address,
+      trackingNumber: order.tracking_number || undefined,
+      courier: order.courier || undefined,
+    } : undefined,
+    reviewSubmission: reviewMedia.length > 0 ? {
+      media: reviewMedia.map(convertReviewMediaToApp),
+      submittedAt: order.review_submitted_at ? new Date(order.review_submitted_at) : new Date(),
+    } : undefined,
+  };
+};
+
+
+// Order row as returned by the `campaigns!inner(...)` / `profiles!orders_talent_id_fkey(...)` join
+type OrderWithRelations = OrderRow & {
+  campaigns: { title: string; product_name: string };
+  profiles: { name: string };
+};
+
+const convertJoinedOrderToApp = (order: OrderWithRelations): Order =>
+  convertOrderToApp(order, order.campaigns.title, order.profiles.name, order.campaigns.product_name);
+
+const convertOrderListRowToApp = (row: OrderListRow): Order => ({
+  ...convertOrderToApp(row as unknown as OrderRow, row.campaign_title, row.talent_name, row.product_name),
+  campaignCategory: row.campaign_category,
+  campaignRateLevel: row.campaign_rate_level as 1 | 2 | 3,
+});
+
+// History row, optionally joined with `profiles!order_status_history_changed_by_fkey(name)`
+const convertOrderStatusChangeToApp = (row: OrderStatusHistoryRow & { profiles?: { name: string } | null }): OrderStatusChange => ({
+  id: row.id,
+  orderId: row.order_id,
+  fromStatus: row.from_status || undefined,
+  toStatus: row.to_status,
+  changedBy: row.changed_by || undefined,
+  changedByName: row.profiles?.name,
+  note: row.note || undefined,
+  createdAt: new Date(row.created_at || ''),
+});
+
+const convertShipmentTrackingEventToApp = (row: ShipmentTrackingEventRow): ShipmentTrackingEvent => ({
+  id: row.id,
+  orderId: row.order_id,
+  courier: row.courier,
+  trackingNumber: row.tracking_number,
+  status: row.status,
+  description: row.description,
+  location: row.location || undefined,
+  occurredAt: new Date(row.occurred_at),
+});
+
+const convertReviewSubmissionToApp = (row: ReviewSubmissionRow): ReviewSubmission => ({
+  id: row.id,
+  orderId: row.order_id,
+  version: row.version,
+  media: ((row.media as ReviewMediaRow[]) || []).map(convertReviewMediaToApp),
+  notes: row.notes || undefined,
+  status: row.status,
+  feedback: ((row.feedback as { media_index: number; comment: string }[]) || []).map(item => ({
+    mediaIndex: item.media_index,
+    comment: item.comment,
+  })),
+  feedbackSummary: row.feedback_summary || undefined,
+  submittedAt: new Date(row.submitted_at || ''),
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+});
+
+const convertReviewAnnotationToApp = (row: ReviewAnnotationRow): ReviewAnnotation => ({
+  id: row.id,
+  orderId: row.order_id,
+  submissionVersion: row.submission_version,
+  mediaUrl: row.media_url,
+  kind: row.kind,
+  timestampSeconds: row.timestamp_seconds !== null ? Number(row.timestamp_seconds) : undefined,
+  region: row.region_x !== null && row.region_y !== null && row.region_width !== null && row.region_height !== null ? {
+    x: Number(row.region_x),
+    y: Number(row.region_y),
+    width: Number(row.region_width),
+    height: Number(row.region_height),
   } : undefined,
+  comment: row.comment,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at || ''),
+});
+
+// Dispute row joined with `profiles!order_disputes_opened_by_fkey(name)`
+const convertOrderDisputeToApp = (row: OrderDisputeRow & { profiles?: { name: string } | null }): OrderDispute => ({
+  id: row.id,
+  orderId: row.order_id,
+  openedBy: row.opened_by,
+  openedByName: row.profiles?.name,
+  reason: row.reason,
+  description: row.description,
+  status: row.status,
+  resolution: row.resolution || undefined,
+  talentAmount: row.talent_amount !== null ? Number(row.talent_amount) : undefined,
+  founderAmount: row.founder_amount !== null ? Number(row.founder_amount) : undefined,
+  resolutionNote: row.resolution_note || undefined,
+  resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+  createdAt: new Date(row.created_at || ''),
+});
+
+// License row joined with `campaigns(title, product_name)` and both parties' names
+type ContentLicenseWithRelations = ContentLicenseRow & {
+  campaigns: { title: string; product_name: string } | null;
+  founder: { name: string } | null;
+  talent: { name: string } | null;
+};
+
+const convertContentLicenseToApp = (row: ContentLicenseWithRelations): ContentLicense => ({
+  id: row.id,
+  licenseNumber: row.license_number,
+  orderId: row.order_id,
+  campaignId: row.campaign_id,
+  campaignTitle: row.campaigns?.title || '',
+  productName: row.campaigns?.product_name || '',
+  founderId: row.founder_id,
+  founderName: row.founder?.name || '',
+  talentId: row.talent_id,
+  talentName: row.talent?.name || '',
+  usage: row.usage,
+  durationMonths: row.duration_months,
+  territories: row.territories,
+  nameAndLikeness: row.name_and_likeness,
+  whitelisting: row.whitelisting,
+  startsAt: new Date(row.starts_at),
+  expiresAt: new Date(row.expires_at),
+  createdAt: new Date(row.created_at || ''),
+});
+
+// Helper function to convert a ledger posting to the app transaction type
+const convertLedgerTransactionToApp = (row: LedgerTransactionRow): Transaction => ({
+  id: row.id,
+  entryId: row.entry_id,
+  userId: row.user_id || undefined,
+  account: row.account_type,
+  kind: row.kind,
+  type: row.type,
+  amount: Number(row.amount) || 0,
+  description: row.description,
+  relatedJobId: row.related_order_id || undefined,
+  createdAt: new Date(row.created_at || ''),
+});
+
+// Helper function to convert a platform_settings row to the app fee policy type
+const convertFeePolicyToApp = (row: PlatformSettingsRow): FeePolicy => ({
+  id: row.id,
+  version: row.version,
+  defaultRule: {
+    type: row.fee_type,
+    value: Number(row.fee_value) || 0,
+    cap: row.fee_cap !== null ? Number(row.fee_cap) : undefined,
+  },
+  chargedTo: row.charged_to,
+  categoryOverrides: (row.category_overrides as unknown as Record<string, FeeRule>) || {},
+  rateLevelOverrides: (row.rate_level_overrides as unknown as FeePolicy['rateLevelOverrides']) || {},
+  isActive: row.is_active,
+  createdAt: new Date(row.created_at || ''),
+});
+
+const convertShippingAddressToApp = (row: TalentAddressRow): ShippingAddress => ({
+  id: row.id,
+  label: row.label,
+  recipientName: row.recipient_name,
+  phone: row.phone,
+  line1: row.line1,
+  line2: row.line2 || undefined,
+  postcode: row.postcode,
+  city: row.city,
+  state: row.state as MalaysianState,
+  isDefault: row.is_default,
+});
+
+const convertMediaAssetToApp = (row: MediaAssetRow): MediaAsset => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  bucket: row.bucket as MediaBucket,
+  path: row.path,
+  url: row.url,
+  mediaType: row.media_type,
+  mimeType: row.mime_type,
+  width: row.width,
+  height: row.height,
+  durationSeconds: row.duration_seconds ?? undefined,
+  sizeBytes: row.size_bytes,
+  variants: (row.variants as MediaAsset['variants']) || {},
+  watermarked: row.watermarked,
+  createdAt: new Date(row.created_at || Date.now()),
+});
+
+const convertReviewMediaGrantToApp = (row: ReviewMediaGrantRow): ReviewMediaGrant => ({
+  orderId: row.order_id,
+  founderId: row.founder_id,
+  talentId: row.talent_id,
+  grantedAt: new Date(row.granted_at),
+});
+
+const convertOrderShippingAddressToApp = (row: OrderShippingAddressRow): OrderShippingAddress => ({
+  orderId: row.order_id,
+  recipientName: row.recipient_name,
+  phone: row.phone,
+  line1: row.line1,
+  line2: row.line2 || undefined,
+  postcode: row.postcode,
+  city: row.city,
+  state: row.state as MalaysianState,
 });
 
+const convertBankAccountToApp = (row: BankAccountRow): BankAccount => ({
+  talentId: row.talent_id,
+  bankCode: row.bank_code,
+  bankName: row.bank_name,
+  accountNumber: row.account_number,
+  accountHolderName: row.account_holder_name,
+  updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+});
+
+// Withdrawal row, optionally joined with `profiles!withdrawal_requests_talent_id_fkey(name)`
+const convertWithdrawalToApp = (row: WithdrawalRequestRow & { profiles?: { name: string } | null }): WithdrawalRequest => ({
+  id: row.id,
+  talentId: row.talent_id,
+  talentName: row.profiles?.name,
+  amount: Number(row.amount) || 0,
+  status: row.status,
+  bankCode: row.bank_code,
+  bankName: row.bank_name,
+  accountNumber: row.account_number,
+  accountHolderName: row.account_holder_name,
+  batchId: row.batch_id || undefined,
+  adminNote: row.admin_note || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+  createdAt: new Date(row.created_at || ''),
+});
+
+const convertTopUpIntentToApp = (row: PaymentIntentRow): TopUpIntent => ({
+  id: row.id,
+  provider: row.provider,
+  providerIntentId: row.provider_intent_id || undefined,
+  method: row.method,
+  amount: Number(row.amount) || 0,
+  status: row.status,
+  failureReason: row.failure_reason || undefined,
+  createdAt: new Date(row.created_at || ''),
+});
+
+const convertEarningToApp = (row: EarningRow): Earning => ({
+  id: row.id,
+  talentId: row.talent_id,
+  orderId: row.order_id,
+  campaignTitle: row.campaign_title,
+  amount: Number(row.amount) || 0,
+  status: row.status,
+  payoutStatus: row.payout_status || 'available',
+  earnedAt: new Date(row.earned_at || ''),
+  paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+});
+
+const convertPaymentToApp = (row: PaymentHistoryRow): Payment => ({
+  id: row.id,
+  type: row.payment_type,
+  orderId: row.order_id,
+  campaignTitle: row.campaign_title,
+  talentName: row.talent_name || undefined,
+  founderName: row.founder_name || undefined,
+  amount: Number(row.amount) || 0,
+  status: row.status,
+  createdAt: row.created_at ? new Date(row.created_at) : new Date(),
+});
+
+const convertPayoutBatchToApp = (row: PayoutBatchRow): PayoutBatch => ({
+  id: row.id,
+  reference: row.reference,
+  status: row.status,
+  totalAmount: Number(row.total_amount) || 0,
+  createdAt: new Date(row.created_at || ''),
+  exportedAt: row.exported_at ? new Date(row.exported_at) : undefined,
+  paidAt: row.paid_at ? new Date(row.paid_at) : undefined,
+});
 
 // Authentication functions
 export const signUp = async (email: string, password: string, userData: any) => {
@@ -278,78 +733,405 @@ export const updateProfile = async (userId: string, updates: Partial<ProfileRow>
   return convertProfileToUser(data);
 };
 
-// Admin functions for managing users
-export const getFounders = async (): Promise<Founder[]> => {
-  try {
-    console.log('Fetching founders from database...');
-    
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('role', 'founder')
-      .order('created_at', { ascending: false });
+// Lists load a page at a time in a stable order: the sort column, then the id to break ties. A
+// cursor holds the last row's place in that order, and the total counted with the first page.
+// Empty sort values sort last going up and first going down, as Postgres orders them by default
+export const LIST_PAGE_SIZE = 20;
 
-    if (error) {
-      console.error('Error fetching founders:', error);
-      throw error;
-    }
+type ListCursor = { value: string | number | null; id: string; total: number };
 
-    console.log('Raw founders data:', data);
-    
-    if (!data || data.length === 0) {
-      console.log('No founders found in database');
-      return [];
-    }
+// The part of a select query that paging adds to, whatever table and filters it has
+interface PageableQuery<Row> extends PromiseLike<{ data: Row[] | null; error: { message: string } | null; count: number | null }> {
+  or(filters: string): PageableQuery<Row>;
+  order(column: string, options: { ascending: boolean; nullsFirst?: boolean }): PageableQuery<Row>;
+  limit(count: number): PageableQuery<Row>;
+}
 
-    const convertedFounders = data.map(profile => {
-      console.log('Converting founder profile:', profile);
-      return convertProfileToUser(profile);
-    }) as Founder[];
-    
-    console.log('Converted founders:', convertedFounders);
-    return convertedFounders;
-  } catch (error) {
-    console.error('getFounders error:', error);
-    throw error;
+// Values in `or` filters are quoted so commas, dots and brackets in them are read literally
+const quoteFilterValue = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+// The rows after the cursor in the list's order, as an `or` filter
+const keysetFilter = (column: string, ascending: boolean, after: ListCursor) => {
+  const op = ascending ? 'gt' : 'lt';
+  const tie = `id.${op}.${after.id}`;
+
+  if (after.value === null) {
+    return ascending ? `and(${column}.is.null,${tie})` : `and(${column}.is.null,${tie}),${column}.not.is.null`;
   }
+
+  const value = quoteFilterValue(after.value);
+  const filter = `${column}.${op}.${value},and(${column}.eq.${value},${tie})`;
+  return ascending ? `${filter},${column}.is.null` : filter;
 };
 
-export const getTalents = async (): Promise<Talent[]> => {
-  try {
-    console.log('Fetching talents from database...');
-    
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('role', 'talent')
-      .order('created_at', { ascending: false });
+// An ILIKE pattern matching the term anywhere, with its own wildcards taken literally
+const toSearchPattern = (term: string) => `%${term.trim().toLowerCase().replace(/[\\%_]/g, '\\$&')}%`;
 
-    if (error) {
-      console.error('Error fetching talents:', error);
-      throw error;
-    }
+// Runs a filtered select for one page. Callers ask for an exact count only on the first page
+const fetchPage = async <Row extends { id: string }>(
+  query: PageableQuery<Row>,
+  sortColumn: string & keyof Row,
+  { ascending = false, cursor, limit = LIST_PAGE_SIZE }: { ascending?: boolean; cursor?: string | null; limit?: number }
+): Promise<{ rows: Row[]; total: number; nextCursor: string | null }> => {
+  const after = cursor ? (JSON.parse(cursor) as ListCursor) : null;
+  if (after) query = query.or(keysetFilter(sortColumn, ascending, after));
 
-    console.log('Raw talents data:', data);
-    console.log('Number of talents found:', data?.length || 0);
-    
-    if (!data || data.length === 0) {
-      console.log('No talents found in database');
-      return [];
-    }
+  const { data, error, count } = await query
+    .order(sortColumn, { ascending, nullsFirst: !ascending })
+    .order('id', { ascending })
+    .limit(limit + 1);
 
-    const convertedTalents = data.map(profile => {
-      console.log('Converting talent profile:', profile);
-      return convertProfileToUser(profile);
-    }) as Talent[];
-    
-    console.log('Converted talents:', convertedTalents);
-    return convertedTalents;
-  } catch (error) {
-    console.error('getTalents error:', error);
-    throw error;
+  if (error) throw error;
+  const rows = data || [];
+  const total = after ? after.total : count ?? rows.length;
+  const last = rows.length > limit ? rows[limit - 1] : null;
+  return {
+    rows: rows.slice(0, limit),
+    total,
+    nextCursor: last
+      ? JSON.stringify({ value: (last[sortColumn] ?? null) as ListCursor['value'], id: last.id, total })
+      : null,
+  };
+};
+
+const CAMPAIGN_SORT_COLUMNS: Record<CampaignSortField, keyof CampaignRow & string> = {
+  createdAt: 'created_at',
+  price: 'price',
+  title: 'title',
+};
+
+export const listCampaigns = async (
+  { filters = {}, sort, cursor, limit }: ListQuery<CampaignListFilters, CampaignSortField> = {}
+): Promise<Page<Campaign>> => {
+  let query = supabase
+    .from('campaigns')
+    .select(
+      [
+        CAMPAIGN_SELECT,
+        filters.notAppliedBy && 'mine:campaign_applications()',
+        filters.pendingApplicationBy && 'pending:campaign_applications!inner()',
+      ].filter(Boolean).join(', '),
+      { count: cursor ? undefined : 'exact' }
+    );
+
+  if (filters.search?.trim()) query = query.ilike('search_text', toSearchPattern(filters.search));
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.category) query = query.eq('category', filters.category);
+  if (filters.rateLevel) query = query.eq('rate_level', filters.rateLevel);
+  if (filters.maxRateLevel) query = query.lte('rate_level', filters.maxRateLevel);
+  if (filters.founderId) query = query.eq('founder_id', filters.founderId);
+  // An anti-join: campaigns with none of the talent's applications
+  if (filters.notAppliedBy) query = query.eq('mine.talent_id', filters.notAppliedBy).is('mine', null);
+  // An inner join: campaigns with one of the talent's applications still pending
+  if (filters.pendingApplicationBy) {
+    query = query.eq('pending.talent_id', filters.pendingApplicationBy).eq('pending.status', 'pending');
+  }
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<CampaignWithRelations>,
+    CAMPAIGN_SORT_COLUMNS[sort?.field || 'createdAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertJoinedCampaignToApp), total: page.total, nextCursor: page.nextCursor };
+};
+
+const PROFILE_SORT_COLUMNS: Record<ProfileSortField, keyof ProfileRow & string> = {
+  createdAt: 'created_at',
+  name: 'name',
+};
+
+const listProfiles = async (
+  role: 'founder' | 'talent',
+  { filters = {}, sort, cursor, limit }: ListQuery<ProfileListFilters, ProfileSortField>
+) => {
+  let query = supabase
+    .from('profiles')
+    .select('*', { count: cursor ? undefined : 'exact' })
+    .eq('role', role);
+
+  if (filters.search?.trim()) query = query.ilike('search_text', toSearchPattern(filters.search));
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.rateLevel) query = query.eq('rate_level', filters.rateLevel);
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<ProfileRow>,
+    PROFILE_SORT_COLUMNS[sort?.field || 'createdAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertProfileToUser), total: page.total, nextCursor: page.nextCursor };
+};
+
+export const listFounders = async (query: ListQuery<ProfileListFilters, ProfileSortField> = {}): Promise<Page<Founder>> =>
+  listProfiles('founder', query) as Promise<Page<Founder>>;
+
+export const listTalents = async (query: ListQuery<ProfileListFilters, ProfileSortField> = {}): Promise<Page<Talent>> =>
+  listProfiles('talent', query) as Promise<Page<Talent>>;
+
+const PAYMENT_SORT_COLUMNS: Record<PaymentSortField, keyof PaymentHistoryRow & string> = {
+  createdAt: 'created_at',
+  amount: 'amount',
+};
+
+export const listPayments = async (
+  { filters = {}, sort, cursor, limit }: ListQuery<PaymentListFilters, PaymentSortField> = {}
+): Promise<Page<Payment>> => {
+  let query = supabase
+    .from('payment_history')
+    .select('*', { count: cursor ? undefined : 'exact' });
+
+  const search = filters.search?.trim();
+  if (search) {
+    const pattern = quoteFilterValue(toSearchPattern(search));
+    query = query.or(`campaign_title.ilike.${pattern},talent_name.ilike.${pattern},founder_name.ilike.${pattern}`);
   }
+  if (filters.type) query = query.eq('payment_type', filters.type);
+  if (filters.status) query = query.eq('status', filters.status);
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<PaymentHistoryRow>,
+    PAYMENT_SORT_COLUMNS[sort?.field || 'createdAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertPaymentToApp), total: page.total, nextCursor: page.nextCursor };
+};
+
+const ORDER_SORT_COLUMNS: Record<OrderSortField, keyof OrderListRow & string> = {
+  createdAt: 'created_at',
+  payout: 'payout',
+};
+
+// Reads the order_list view, which carries the campaign and talent names the search matches
+export const listOrders = async (
+  { filters = {}, sort, cursor, limit }: ListQuery<OrderListFilters, OrderSortField> = {}
+): Promise<Page<Order>> => {
+  let query = supabase
+    .from('order_list')
+    .select('*', { count: cursor ? undefined : 'exact' });
+
+  if (filters.search?.trim()) query = query.ilike('search_text', toSearchPattern(filters.search));
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+  if (filters.founderId) query = query.eq('founder_id', filters.founderId);
+  if (filters.talentId) query = query.eq('talent_id', filters.talentId);
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<OrderListRow>,
+    ORDER_SORT_COLUMNS[sort?.field || 'createdAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertOrderListRowToApp), total: page.total, nextCursor: page.nextCursor };
+};
+
+const TRANSACTION_SORT_COLUMNS: Record<TransactionSortField, keyof LedgerTransactionRow & string> = {
+  createdAt: 'created_at',
+  amount: 'amount',
+};
+
+export const listTransactions = async (
+  { filters = {}, sort, cursor, limit }: ListQuery<TransactionListFilters, TransactionSortField> = {}
+): Promise<Page<Transaction>> => {
+  let query = supabase
+    .from('ledger_transactions')
+    .select('*', { count: cursor ? undefined : 'exact' });
+
+  if (filters.search?.trim()) query = query.ilike('description', toSearchPattern(filters.search));
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.account) query = query.eq('account_type', filters.account);
+  if (filters.type) query = query.eq('type', filters.type);
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<LedgerTransactionRow>,
+    TRANSACTION_SORT_COLUMNS[sort?.field || 'createdAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertLedgerTransactionToApp), total: page.total, nextCursor: page.nextCursor };
+};
+
+const EARNING_SORT_COLUMNS: Record<EarningSortField, keyof EarningRow & string> = {
+  earnedAt: 'earned_at',
+  amount: 'amount',
+};
+
+export const listEarnings = async (
+  { filters = {}, sort, cursor, limit }: ListQuery<EarningListFilters, EarningSortField> = {}
+): Promise<Page<Earning>> => {
+  let query = supabase
+    .from('earnings')
+    .select('*', { count: cursor ? undefined : 'exact' });
+
+  if (filters.search?.trim()) query = query.ilike('campaign_title', toSearchPattern(filters.search));
+  if (filters.talentId) query = query.eq('talent_id', filters.talentId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.payoutStatus) query = query.eq('payout_status', filters.payoutStatus);
+  if (filters.earnedSince) query = query.gte('earned_at', filters.earnedSince);
+
+  const page = await fetchPage(
+    query as unknown as PageableQuery<EarningRow>,
+    EARNING_SORT_COLUMNS[sort?.field || 'earnedAt'],
+    { ascending: sort?.ascending, cursor, limit }
+  );
+  return { items: page.rows.map(convertEarningToApp), total: page.total, nextCursor: page.nextCursor };
+};
+
+// The stat cards' totals, counted on the server so the pages never load a whole table for them
+// Every campaign the user can see, or only the founder's
+export const getCampaignStats = async (founderId?: string): Promise<CampaignStats> => {
+  const { data, error } = await supabase.rpc('campaign_stats', { p_founder_id: founderId });
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    total: Number(row?.total_count) || 0,
+    active: Number(row?.active_count) || 0,
+    paused: Number(row?.paused_count) || 0,
+    drafts: Number(row?.draft_count) || 0,
+    applicants: Number(row?.applicant_count) || 0,
+    totalBudget: Number(row?.total_budget) || 0,
+    totalPrice: Number(row?.total_price) || 0,
+  };
+};
+
+export const getProfileStats = async (role: 'founder' | 'talent'): Promise<ProfileStats> => {
+  const { data, error } = await supabase.rpc('profile_stats', { p_role: role });
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    total: Number(row?.total_count) || 0,
+    joinedThisMonth: Number(row?.this_month_count) || 0,
+    active: Number(row?.active_count) || 0,
+    pending: Number(row?.pending_count) || 0,
+    withCompany: Number(row?.company_count) || 0,
+    walletTotal: Number(row?.wallet_total) || 0,
+    earningsTotal: Number(row?.earnings_total) || 0,
+  };
+};
+
+// For the founders on one page of the list
+export const getFounderActivity = async (founderIds: string[]): Promise<FounderActivity[]> => {
+  if (founderIds.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('founder_activity', { p_founder_ids: founderIds });
+  if (error) throw error;
+
+  return ((data || []) as FounderActivityRow[]).map(row => ({
+    founderId: row.founder_id,
+    campaignCount: Number(row.campaign_count) || 0,
+    totalSpent: Number(row.total_spent) || 0,
+  }));
+};
+
+const PAYMENT_TYPES: PaymentType[] = ['talent_payment', 'admin_fee', 'wallet_topup', 'campaign_payout', 'talent_withdrawal'];
+
+export const getPaymentStats = async (): Promise<PaymentStats> => {
+  const { data, error } = await supabase.rpc('payment_stats');
+  if (error) throw error;
+
+  return Object.fromEntries(PAYMENT_TYPES.map(type => {
+    const row = ((data || []) as PaymentStatsRow[]).find(item => item.payment_type === type);
+    return [type, {
+      count: Number(row?.payment_count) || 0,
+      total: Number(row?.total_amount) || 0,
+      thisMonth: Number(row?.this_month_amount) || 0,
+    }];
+  })) as PaymentStats;
+};
+
+// The signed in talent's earnings and the signed in founder's wallet
+export const getEarningStats = async (): Promise<EarningStats> => {
+  const { data, error } = await supabase.rpc('earning_stats');
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    lifetime: Number(row?.lifetime_total) || 0,
+    paidCount: Number(row?.paid_count) || 0,
+    paidTotal: Number(row?.paid_total) || 0,
+    pendingTotal: Number(row?.pending_total) || 0,
+    thisMonth: Number(row?.this_month_total) || 0,
+  };
+};
+
+export const getWalletStats = async (): Promise<WalletStats> => {
+  const { data, error } = await supabase.rpc('wallet_stats');
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    credits: Number(row?.credit_count) || 0,
+    creditTotal: Number(row?.credit_total) || 0,
+    debits: Number(row?.debit_count) || 0,
+    debitTotal: Number(row?.debit_total) || 0,
+    thisMonthDebits: Number(row?.this_month_debit_total) || 0,
+  };
+};
+
+export const getMonthlyActivity = async (): Promise<MonthlyActivity[]> => {
+  const { data, error } = await supabase.rpc('monthly_activity');
+  if (error) throw error;
+
+  return ((data || []) as MonthlyActivityRow[]).map(row => ({
+    month: row.month,
+    revenue: Number(row.revenue) || 0,
+    talentPayments: Number(row.talent_payments) || 0,
+    campaigns: Number(row.campaign_count) || 0,
+  }));
 };
 
+export const countOrders = async (filters: Omit<OrderListFilters, 'search'> = {}): Promise<number> => {
+  let query = supabase
+    .from('orders')
+    .select('id', { count: 'exact', head: true });
+
+  if (Array.isArray(filters.status)) query = query.in('status', filters.status);
+  else if (filters.status) query = query.eq('status', filters.status);
+  if (filters.founderId) query = query.eq('founder_id', filters.founderId);
+  if (filters.talentId) query = query.eq('talent_id', filters.talentId);
+
+  const { count, error } = await query;
+  if (error) throw error;
+  return count || 0;
+};
+
+// How many campaigns a talent has a pending or approved application for
+export const countApplications = async (talentId: string, status: 'pending' | 'approved'): Promise<number> => {
+  const { count, error } = await supabase
+    .from('campaign_applications')
+    .select('id', { count: 'exact', head: true })
+    .eq('talent_id', talentId)
+    .eq('status', status);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+// One founder or talent, e.g. the one open from a URL. Null when there is none the user can see
+export const getProfile = async (userId: string): Promise<User | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? convertProfileToUser(data) : null;
+};
+
+// The founders or talents of the given ids the user can see, e.g. a campaign's applicants
+export const getProfilesById = async (userIds: string[]): Promise<User[]> => {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .in('id', userIds);
+
+  if (error) throw error;
+  return (data || []).map(convertProfileToUser);
+};
+
+// Admin functions for managing users
 export const updateUserStatus = async (userId: string, status: 'active' | 'pending' | 'suspended') => {
   try {
     console.log('Updating user status:', userId, 'to:', status);
@@ -378,56 +1160,25 @@ export const updateUserStatus = async (userId: string, status: 'active' | 'pendi
 };
 
 // Campaign functions
-export const getCampaigns = async (): Promise<Campaign[]> => {
-  try {
-    console.log('Fetching campaigns from database...');
-    
-    const { data: campaigns, error } = await supabase
-      .from('campaigns')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching campaigns:', error);
-      throw error;
-    }
-
-    console.log('Raw campaigns data:', campaigns);
-
-    if (!campaigns || campaigns.length === 0) {
-      console.log('No campaigns found in database');
-      return [];
-    }
-
-    // Get applications for each campaign
-    const campaignsWithApplications = await Promise.all(
-      campaigns.map(async (campaign) => {
-        const { data: applications, error: appError } = await supabase
-          .from('campaign_applications')
-          .select('talent_id, status')
-          .eq('campaign_id', campaign.id);
-
-        if (appError) {
-          console.error('Error fetching applications for campaign:', campaign.id, appError);
-          return convertCampaignToApp(campaign, [], []);
-        }
 
-        const applicants = applications?.filter(app => app.status === 'pending').map(app => app.talent_id) || [];
-        const approvedTalents = applications?.filter(app => app.status === 'approved').map(app => app.talent_id) || [];
-
-        return convertCampaignToApp(campaign, applicants, approvedTalents);
-      })
-    );
+// One campaign, e.g. the one open from a URL. Null when there is none the user can see
+export const getCampaign = async (campaignId: string): Promise<Campaign | null> => {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .select(CAMPAIGN_SELECT)
+    .eq('id', campaignId)
+    .maybeSingle();
 
-    console.log('Campaigns with applications:', campaignsWithApplications);
-    return campaignsWithApplications;
-  } catch (error) {
-    console.error('getCampaigns error:', error);
-    throw error;
-  }
+  if (error) throw error;
+  return data ? convertJoinedCampaignToApp(data as unknown as CampaignWithRelations) : null;
 };
 
-export const createCampaign = async (campaignData: Omit<Campaign, 'id' | 'createdAt' | 'applicants' | 'approvedTalents'>) => {
+// The deliverables are saved after the campaign; the campaign is removed again if they are refused
+export const createCampaign = async (
+  campaignData: Omit<Campaign, 'id' | 'createdAt' | 'applicants' | 'approvedTalents' | 'deliverables'> & {
+    deliverables: Omit<CampaignDeliverable, 'id'>[];
+  }
+) => {
   const { data, error } = await supabase
     .from('campaigns')
     .insert({
@@ -444,24 +1195,58 @@ export const createCampaign = async (campaignData: Omit<Campaign, 'id' | 'create
       price: campaignData.price,
       status: campaignData.status,
       deadline: campaignData.deadline?.toISOString(),
+      max_revision_rounds: campaignData.maxRevisionRounds,
+      usage_rights: convertUsageRightsToDb(campaignData.usageRights),
     })
     .select()
     .single();
 
   if (error) throw error;
+
+  try {
+    await saveCampaignDeliverables(data.id, campaignData.deliverables);
+  } catch (deliverablesError) {
+    await deleteCampaign(data.id);
+    throw deliverablesError;
+  }
+
   return convertCampaignToApp(data);
 };
 
-export const updateCampaign = async (campaignId: string, updates: Partial<CampaignRow>) => {
+export const getCampaignDeliverables = async (campaignId: string): Promise<CampaignDeliverable[]> => {
   const { data, error } = await supabase
-    .from('campaigns')
-    .update({
-      ...updates,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', campaignId)
-    .select()
-    .single();
+    .from('campaign_deliverables')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(convertCampaignDeliverableToApp);
+};
+
+// Replaces the campaign's deliverables. Refused once a talent has been approved
+export const saveCampaignDeliverables = async (campaignId: string, deliverables: Omit<CampaignDeliverable, 'id'>[]) => {
+  const { error } = await supabase.rpc('save_campaign_deliverables', {
+    p_campaign_id: campaignId,
+    p_deliverables: convertCampaignDeliverablesToDb(deliverables),
+  });
+
+  if (error) {
+    console.error('Error saving campaign deliverables:', error);
+    throw new Error(error.message || 'Failed to save the deliverables. Please try again.');
+  }
+};
+
+export const updateCampaign = async (campaignId: string, updates: Partial<CampaignRow>) => {
+  const { data, error } = await supabase
+    .from('campaigns')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', campaignId)
+    .select()
+    .single();
 
   if (error) throw error;
   return convertCampaignToApp(data);
@@ -477,7 +1262,8 @@ export const deleteCampaign = async (campaignId: string) => {
 };
 
 // Campaign application functions
-export const applyCampaign = async (campaignId: string, talentId: string) => {
+// The address is what the founder ships to once the application is approved
+export const applyCampaign = async (campaignId: string, talentId: string, addressId: string) => {
   // Check if already applied
   const { data: existingApplications } = await supabase
     .from('campaign_applications')
@@ -495,6 +1281,7 @@ export const applyCampaign = async (campaignId: string, talentId: string) => {
       campaign_id: campaignId,
       talent_id: talentId,
       status: 'pending',
+      address_id: addressId,
     })
     .select()
     .single();
@@ -516,53 +1303,86 @@ export const updateApplicationStatus = async (campaignId: string, talentId: stri
   return data;
 };
 
-// Order functions
-export const getOrders = async (userId?: string): Promise<Order[]> => {
+// Approves a pending application and moves the campaign price into escrow in one
+// database transaction, so the approval, the order and the hold succeed or fail together.
+export const approveApplication = async (campaignId: string, talentId: string): Promise<Order> => {
   try {
-    console.log('Fetching orders from database for user:', userId);
-    
-    let query = supabase
+    console.log('Approving application with escrow:', campaignId, talentId);
+
+    const { data: orderId, error } = await supabase.rpc('approve_application_with_escrow', {
+      p_campaign_id: campaignId,
+      p_talent_id: talentId,
+    });
+
+    if (error) {
+      console.error('Error approving application:', error);
+      if (error.message.includes('Insufficient wallet balance')) {
+        throw new Error('Insufficient wallet balance. Please top up your wallet before approving talents.');
+      }
+      throw new Error(error.message || 'Failed to approve talent. Please try again.');
+    }
+
+    const { data, error: orderError } = await supabase
       .from('orders')
       .select(`
         *,
         campaigns!inner(title, product_name),
         profiles!orders_talent_id_fkey(name)
       `)
-      .order('created_at', { ascending: false });
+      .eq('id', orderId)
+      .single();
 
-    if (userId) {
-      query = query.or(`founder_id.eq.${userId},talent_id.eq.${userId}`);
+    if (orderError) {
+      console.error('Error fetching approved order:', orderError);
+      throw orderError;
     }
 
-    const { data, error } = await query;
+    return convertJoinedOrderToApp(data as unknown as OrderWithRelations);
+  } catch (error) {
+    console.error('approveApplication error:', error);
+    throw error;
+  }
+};
 
-    if (error) {
-      console.error('Error fetching orders:', error);
-      throw error;
-    }
+// Order functions
+const ORDER_SELECT = '*, campaigns!inner(title, product_name), profiles!orders_talent_id_fkey(name)';
 
-    console.log('Raw orders data:', data);
+// One order, e.g. the one open from a URL. Null when there is none the user can see
+export const getOrder = async (orderId: string): Promise<Order | null> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('id', orderId)
+    .maybeSingle();
 
-    if (!data || data.length === 0) {
-      console.log('No orders found in database');
-      return [];
-    }
+  if (error) throw error;
+  return data ? convertJoinedOrderToApp(data as unknown as OrderWithRelations) : null;
+};
 
-    const convertedOrders = data.map(order => 
-      convertOrderToApp(
-        order,
-        (order.campaigns as any).title,
-        (order.profiles as any).name,
-        (order.campaigns as any).product_name
-      )
-    );
+// The orders of the given ids the user can see, e.g. those a list of disputes refers to
+export const getOrdersById = async (orderIds: string[]): Promise<Order[]> => {
+  if (orderIds.length === 0) return [];
 
-    console.log('Converted orders:', convertedOrders);
-    return convertedOrders;
-  } catch (error) {
-    console.error('getOrders error:', error);
-    throw error;
-  }
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_SELECT)
+    .in('id', orderIds);
+
+  if (error) throw error;
+  return (data || []).map(order => convertJoinedOrderToApp(order as unknown as OrderWithRelations));
+};
+
+// Every order the founder still has to ship, for shipping them in bulk
+export const getPendingShipments = async (founderId: string): Promise<Order[]> => {
+  const { data, error } = await supabase
+    .from('orders')
+    .select(ORDER_SELECT)
+    .eq('founder_id', founderId)
+    .eq('status', 'pending_shipment')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(order => convertJoinedOrderToApp(order as unknown as OrderWithRelations));
 };
 
 export const createOrder = async (orderData: Omit<Order, 'id' | 'createdAt' | 'talentName' | 'campaignTitle' | 'productName'>) => {
@@ -595,7 +1415,12 @@ export const createOrder = async (orderData: Omit<Order, 'id' | 'createdAt' | 't
   );
 };
 
-export const updateOrder = async (orderId: string, updates: Partial<OrderRow> & { review_media?: { url: string, type: 'image' | 'video' }[] }) => {
+type OrderUpdates = Omit<Partial<OrderRow>, 'status'> & {
+  review_media?: { url: string, type: 'image' | 'video' }[] | null;
+  notes?: string;
+};
+
+const writeOrder = async (orderId: string, updates: OrderUpdates & { status?: OrderStatus }) => {
   const { data, error } = await supabase
     .from('orders')
     .update({
@@ -621,199 +1446,655 @@ export const updateOrder = async (orderId: string, updates: Partial<OrderRow> &
   );
 };
 
-// Transaction functions
-export const getTransactions = async (userId?: string): Promise<Transaction[]> => {
+// Status changes go through `transitionOrder` in orderStateMachine, never through here
+export const updateOrder = async (orderId: string, updates: OrderUpdates) => writeOrder(orderId, updates);
+
+// Moves the order to a new status; the database trigger rejects illegal transitions
+export const updateOrderStatus = async (orderId: string, status: OrderStatus, updates: OrderUpdates = {}) => {
   try {
-    console.log('Fetching transactions from database for user:', userId);
-    
-    let query = supabase
-      .from('transactions')
-      .select('*')
-      .order('created_at', { ascending: false });
+    return await writeOrder(orderId, { ...updates, status });
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    throw new Error((error as { message?: string }).message || 'Failed to update order status. Please try again.');
+  }
+};
 
-    if (userId) {
-      query = query.eq('user_id', userId);
-    }
+export const getOrderStatusHistory = async (orderId: string): Promise<OrderStatusChange[]> => {
+  const { data, error } = await supabase
+    .from('order_status_history')
+    .select('*, profiles!order_status_history_changed_by_fkey(name)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
 
-    const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(row => convertOrderStatusChangeToApp(row as unknown as OrderStatusHistoryRow & { profiles: { name: string } | null }));
+};
 
-    if (error) {
-      console.error('Error fetching transactions:', error);
-      throw error;
-    }
+// Newest first. Written only by the poll-shipments edge function
+export const getShipmentTrackingEvents = async (orderId: string): Promise<ShipmentTrackingEvent[]> => {
+  const { data, error } = await supabase
+    .from('shipment_tracking_events')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('occurred_at', { ascending: false });
 
-    console.log('Raw transactions data:', data);
+  if (error) throw error;
+  return (data || []).map(convertShipmentTrackingEventToApp);
+};
 
-    if (!data || data.length === 0) {
-      console.log('No transactions found in database');
-      return [];
-    }
+// Review submission functions
+export const getReviewSubmissions = async (orderId?: string): Promise<ReviewSubmission[]> => {
+  let query = supabase
+    .from('review_submissions')
+    .select('*')
+    .order('version', { ascending: true });
 
-    const convertedTransactions = data.map(transaction => ({
-      id: transaction.id,
-      userId: transaction.user_id,
-      type: transaction.type as 'credit' | 'debit',
-      amount: Number(transaction.amount) || 0,
-      description: transaction.description,
-      relatedJobId: transaction.related_order_id || undefined,
-      createdAt: new Date(transaction.created_at || ''),
-    })) as Transaction[];
-
-    console.log('Converted transactions:', convertedTransactions);
-    return convertedTransactions;
-  } catch (error) {
-    console.error('getTransactions error:', error);
-    throw error;
+  if (orderId) {
+    query = query.eq('order_id', orderId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(convertReviewSubmissionToApp);
+};
+
+// Records the media as the next version and moves the order to review_submitted
+export const submitReviewSubmission = async (orderId: string, media: ReviewSubmission['media'], notes?: string) => {
+  const { data, error } = await supabase.rpc('submit_review_submission', {
+    p_order_id: orderId,
+    p_media: media.map(convertReviewMediaToDb),
+    p_notes: notes || null,
+  });
+
+  if (error) {
+    console.error('Error submitting review:', error);
+    throw new Error(error.message || 'Failed to submit review. Please try again.');
+  }
+
+  return data;
+};
+
+// Archives the pending version with the founder's feedback and returns the order to delivered
+export const requestReviewRevision = async (orderId: string, feedback: ReviewMediaFeedback[], summary: string) => {
+  const { error } = await supabase.rpc('request_review_revision', {
+    p_order_id: orderId,
+    p_feedback: feedback.map(item => ({ media_index: item.mediaIndex, comment: item.comment })),
+    p_summary: summary,
+  });
+
+  if (error) {
+    console.error('Error requesting revision:', error);
+    throw new Error(error.message || 'Failed to request a revision. Please try again.');
   }
 };
 
-export const createTransaction = async (transactionData: Omit<Transaction, 'id' | 'createdAt'>) => {
-  console.log("test test", transactionData);
+// Review annotation functions
+export const getReviewAnnotations = async (orderId: string): Promise<ReviewAnnotation[]> => {
   const { data, error } = await supabase
-    .from('transactions') 
-    .insert([{
-      user_id: transactionData.userId, 
-      type: transactionData.type, 
-      amount: transactionData.amount,
-      description: transactionData.description, 
-      related_order_id: transactionData.relatedJobId
-    }])
-    .select();
+    .from('review_annotations')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
 
-  console.log("Transaction created:", transactionData.relatedJobId);
+  if (error) throw error;
+  return (data || []).map(convertReviewAnnotationToApp);
+};
 
+export const createReviewAnnotation = async (annotation: Omit<ReviewAnnotation, 'id' | 'createdAt'>): Promise<ReviewAnnotation> => {
+  const { data, error } = await supabase
+    .from('review_annotations')
+    .insert({
+      order_id: annotation.orderId,
+      submission_version: annotation.submissionVersion,
+      media_url: annotation.mediaUrl,
+      kind: annotation.kind,
+      timestamp_seconds: annotation.timestampSeconds ?? null,
+      region_x: annotation.region?.x ?? null,
+      region_y: annotation.region?.y ?? null,
+      region_width: annotation.region?.width ?? null,
+      region_height: annotation.region?.height ?? null,
+      comment: annotation.comment,
+      created_by: annotation.createdBy,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating review annotation:', error);
+    throw new Error(error.message || 'Failed to save the comment. Please try again.');
+  }
+
+  return convertReviewAnnotationToApp(data);
+};
+
+export const deleteReviewAnnotation = async (annotationId: string) => {
+  const { error } = await supabase
+    .from('review_annotations')
+    .delete()
+    .eq('id', annotationId);
 
   if (error) throw error;
+};
 
-    
-  if (data && data.length > 0) {
-    return {
-      id: data[0].id,
-      userId: data[0].user_id,
-      type: data[0].type as 'credit' | 'debit',
-      amount: Number(data[0].amount) || 0,
-      description: data[0].description,
-      relatedJobId: data[0].related_order_id || undefined,
-      createdAt: new Date(data[0].created_at || ''),
-    } as Transaction;
+// Content license functions
+const CONTENT_LICENSE_SELECT = `
+  *,
+  campaigns(title, product_name),
+  founder:profiles!content_licenses_founder_id_fkey(name),
+  talent:profiles!content_licenses_talent_id_fkey(name)
+`;
+
+// Licenses the current user is a party to (all licenses for admins), soonest to expire first
+export const getContentLicenses = async (): Promise<ContentLicense[]> => {
+  const { data, error } = await supabase
+    .from('content_licenses')
+    .select(CONTENT_LICENSE_SELECT)
+    .order('expires_at', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as unknown as ContentLicenseWithRelations[]).map(convertContentLicenseToApp);
+};
+
+// Null until the founder approves the order's review
+export const getContentLicense = async (orderId: string): Promise<ContentLicense | null> => {
+  const { data, error } = await supabase
+    .from('content_licenses')
+    .select(CONTENT_LICENSE_SELECT)
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? convertContentLicenseToApp(data as unknown as ContentLicenseWithRelations) : null;
+};
+
+// Ledger functions
+export const getAccountBalances = async (ownerId: string): Promise<AccountBalances> => {
+  const { data, error } = await supabase
+    .from('ledger_account_balances')
+    .select('type, balance')
+    .eq('owner_id', ownerId);
+
+  if (error) throw error;
+
+  const balanceOf = (type: string) =>
+    Number(data?.find(account => account.type === type)?.balance) || 0;
+
+  return {
+    founderWallet: balanceOf('founder_wallet'),
+    escrow: balanceOf('escrow'),
+    talentPayable: balanceOf('talent_payable'),
+    withdrawalPending: balanceOf('talent_withdrawal_pending'),
+  };
+};
+
+// Records the attempt before the provider is contacted; its id is the provider reference
+export const createTopUpIntent = async (amount: number, method: TopUpIntent['method'], provider: string) => {
+  const { data, error } = await supabase.rpc('create_top_up_intent', {
+    p_amount: amount,
+    p_method: method,
+    p_provider: provider,
+  });
+
+  if (error) {
+    console.error('Error creating top up intent:', error);
+    throw new Error(error.message || 'Top-up failed. Please try again.');
   }
 
-  return transactionData;
+  return data;
 };
 
-// Earnings functions
-export const getEarnings = async (talentId?: string): Promise<Earning[]> => {
-  try {
-    console.log('Fetching earnings from database for talent:', talentId);
-    
-    let query = supabase
-      .from('earnings')
-      .select('*')
-      .order('earned_at', { ascending: false });
+export const getTopUpIntent = async (intentId: string): Promise<TopUpIntent> => {
+  const { data, error } = await supabase
+    .from('payment_intents')
+    .select('*')
+    .eq('id', intentId)
+    .single();
+
+  if (error) throw error;
+  return convertTopUpIntentToApp(data);
+};
 
-    if (talentId) {
-      query = query.eq('talent_id', talentId);
+// The provider callback is applied asynchronously, so poll until it has settled the intent
+export const waitForTopUpIntent = async (intentId: string, timeoutMs = 15000): Promise<TopUpIntent> => {
+  const deadline = Date.now() + timeoutMs;
+  let intent = await getTopUpIntent(intentId);
+
+  while (!['succeeded', 'failed', 'refunded'].includes(intent.status) && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    intent = await getTopUpIntent(intentId);
+  }
+
+  return intent;
+};
+
+// Completes the order and settles escrow release, platform fee and earning in one transaction
+export const settleOrderPayment = async (orderId: string) => {
+  const { error } = await supabase.rpc('settle_order_payment', {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    console.error('Error settling order payment:', error);
+    if (error.message.includes('Insufficient wallet balance')) {
+      throw new Error('Insufficient wallet balance to cover the admin fee. Please top up your wallet first.');
     }
+    throw new Error(error.message || 'Failed to approve review. Please try again.');
+  }
+};
 
-    const { data, error } = await query;
+// Dispute functions
+// Newest first; every dispute visible to the caller when no order is given
+export const getOrderDisputes = async (orderId?: string): Promise<OrderDispute[]> => {
+  let query = supabase
+    .from('order_disputes')
+    .select('*, profiles!order_disputes_opened_by_fkey(name)')
+    .order('created_at', { ascending: false });
 
-    if (error) {
-      console.error('Error fetching earnings:', error);
-      throw error;
+  if (orderId) {
+    query = query.eq('order_id', orderId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(row => convertOrderDisputeToApp(row as unknown as OrderDisputeRow & { profiles: { name: string } | null }));
+};
+
+// Escalates the order to the admins and freezes its escrow until they resolve it
+export const openOrderDispute = async (orderId: string, reason: DisputeReason, description: string) => {
+  const { data, error } = await supabase.rpc('open_order_dispute', {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_description: description,
+  });
+
+  if (error) {
+    console.error('Error opening dispute:', error);
+    throw new Error(error.message || 'Failed to open the dispute. Please try again.');
+  }
+
+  return data;
+};
+
+// Admin only. Splits the frozen escrow between the parties and closes the order
+export const resolveOrderDispute = async (disputeId: string, resolution: DisputeResolution, talentAmount?: number, note?: string) => {
+  const { error } = await supabase.rpc('resolve_order_dispute', {
+    p_dispute_id: disputeId,
+    p_resolution: resolution,
+    p_talent_amount: resolution === 'split' ? talentAmount ?? null : null,
+    p_note: note || null,
+  });
+
+  if (error) {
+    console.error('Error resolving dispute:', error);
+    throw new Error(error.message || 'Failed to resolve the dispute. Please try again.');
+  }
+};
+
+// Fee policy functions
+export const getFeePolicies = async (): Promise<FeePolicy[]> => {
+  const { data, error } = await supabase
+    .from('platform_settings')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertFeePolicyToApp);
+};
+
+export const getActiveFeePolicy = async (): Promise<FeePolicy | null> => {
+  const { data, error } = await supabase
+    .from('platform_settings')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? convertFeePolicyToApp(data) : null;
+};
+
+// Publishes a new policy version; orders approved from now on are charged under it
+export const publishFeePolicy = async (policy: Pick<FeePolicy, 'defaultRule' | 'chargedTo' | 'categoryOverrides' | 'rateLevelOverrides'>) => {
+  const { data, error } = await supabase.rpc('publish_fee_policy', {
+    p_fee_type: policy.defaultRule.type,
+    p_fee_value: policy.defaultRule.value,
+    p_fee_cap: policy.defaultRule.cap ?? null,
+    p_charged_to: policy.chargedTo,
+    p_category_overrides: policy.categoryOverrides as unknown as Json,
+    p_rate_level_overrides: policy.rateLevelOverrides as unknown as Json,
+  });
+
+  if (error) {
+    console.error('Error publishing fee policy:', error);
+    throw new Error(error.message || 'Failed to save fee policy. Please try again.');
+  }
+
+  return data;
+};
+
+// Withdrawal functions
+export const getBankAccount = async (talentId: string): Promise<BankAccount | null> => {
+  const { data, error } = await supabase
+    .from('talent_bank_accounts')
+    .select('*')
+    .eq('talent_id', talentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? convertBankAccountToApp(data) : null;
+};
+
+export const saveBankAccount = async (account: Omit<BankAccount, 'talentId' | 'updatedAt'>) => {
+  const { error } = await supabase.rpc('save_bank_account', {
+    p_bank_code: account.bankCode,
+    p_bank_name: account.bankName,
+    p_account_number: account.accountNumber,
+    p_account_holder_name: account.accountHolderName,
+  });
+
+  if (error) {
+    console.error('Error saving bank account:', error);
+    if (error.message.includes('account_number')) {
+      throw new Error('Please enter a valid bank account number (digits only).');
     }
+    throw new Error(error.message || 'Failed to save bank details. Please try again.');
+  }
+};
 
-    console.log('Raw earnings data:', data);
+// Email preference functions
+export const getEmailPreferences = async (userId: string): Promise<EmailPreferences> => {
+  const { data, error } = await supabase
+    .from('email_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
 
-    if (!data || data.length === 0) {
-      console.log('No earnings found in database');
-      return [];
+  if (error) throw error;
+  return {
+    locale: data?.locale || 'en',
+    disabledEvents: (data?.disabled_events || []) as EmailEvent[],
+    lowBalanceThreshold: data ? Number(data.low_balance_threshold) : DEFAULT_LOW_BALANCE_THRESHOLD,
+  };
+};
+
+export const saveEmailPreferences = async (userId: string, preferences: EmailPreferences) => {
+  const { error } = await supabase
+    .from('email_preferences')
+    .upsert({
+      user_id: userId,
+      locale: preferences.locale,
+      disabled_events: preferences.disabledEvents,
+      low_balance_threshold: preferences.lowBalanceThreshold,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error('Error saving email preferences:', error);
+    throw new Error(error.message || 'Failed to save email settings. Please try again.');
+  }
+};
+
+// Shipping address functions
+export const getShippingAddresses = async (talentId: string): Promise<ShippingAddress[]> => {
+  const { data, error } = await supabase
+    .from('talent_addresses')
+    .select('*')
+    .eq('talent_id', talentId)
+    .order('is_default', { ascending: false })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(convertShippingAddressToApp);
+};
+
+export const saveShippingAddress = async (address: Omit<ShippingAddress, 'id'> & { id?: string }): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_shipping_address', {
+    p_address_id: address.id ?? null,
+    p_label: address.label,
+    p_recipient_name: address.recipientName,
+    p_phone: address.phone,
+    p_line1: address.line1,
+    p_line2: address.line2 ?? null,
+    p_postcode: address.postcode,
+    p_city: address.city,
+    p_state: address.state,
+    p_is_default: address.isDefault,
+  });
+
+  if (error) {
+    console.error('Error saving shipping address:', error);
+    if (error.message.includes('phone')) {
+      throw new Error('Please enter a valid phone number.');
     }
+    throw new Error(error.message || 'Failed to save the address. Please try again.');
+  }
 
-    const convertedEarnings = data.map(earning => ({
-      id: earning.id,
-      talentId: earning.talent_id,
-      orderId: earning.order_id,
-      campaignTitle: earning.campaign_title,
-      amount: Number(earning.amount) || 0,
-      status: earning.status as 'pending' | 'paid' | 'cancelled',
-      earnedAt: new Date(earning.earned_at || ''),
-      paidAt: earning.paid_at ? new Date(earning.paid_at) : undefined,
-    })) as Earning[];
-
-    console.log('Converted earnings:', convertedEarnings);
-    return convertedEarnings;
-  } catch (error) {
-    console.error('getEarnings error:', error);
-    throw error;
+  return data;
+};
+
+export const deleteShippingAddress = async (addressId: string) => {
+  const { error } = await supabase.rpc('delete_shipping_address', { p_address_id: addressId });
+
+  if (error) {
+    console.error('Error deleting shipping address:', error);
+    throw new Error(error.message || 'Failed to delete the address. Please try again.');
   }
 };
 
-export const createEarning = async (earningData: Omit<Earning, 'id' | 'earnedAt'>) => {
+// Null once the order has closed for the founder, or when the talent applied without an address
+export const getOrderShippingAddress = async (orderId: string): Promise<OrderShippingAddress | null> => {
   const { data, error } = await supabase
-    .from('earnings')
+    .from('order_shipping_addresses')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? convertOrderShippingAddressToApp(data) : null;
+};
+
+// Only the orders whose address the founder can still see are returned
+export const getOrderShippingAddresses = async (orderIds: string[]): Promise<OrderShippingAddress[]> => {
+  if (orderIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('order_shipping_addresses')
+    .select('*')
+    .in('order_id', orderIds);
+
+  if (error) throw error;
+  return (data || []).map(convertOrderShippingAddressToApp);
+};
+
+// Ships every order or none. Each is sent to the address the talent applied with
+export const bulkShipOrders = async (shipments: { orderId: string; courier: string; trackingNumber: string }[]) => {
+  const { data, error } = await supabase.rpc('bulk_ship_orders', {
+    p_shipments: shipments.map(shipment => ({
+      order_id: shipment.orderId,
+      courier: shipment.courier,
+      tracking_number: shipment.trackingNumber,
+    })),
+  });
+
+  if (error) {
+    console.error('Error shipping orders:', error);
+    throw new Error(error.message || 'Failed to ship the orders. Please try again.');
+  }
+
+  return data;
+};
+
+export const createMediaAsset = async (asset: Omit<MediaAsset, 'id' | 'createdAt'>): Promise<MediaAsset> => {
+  const { data, error } = await supabase
+    .from('media_assets')
     .insert({
-      talent_id: earningData.talentId,
-      order_id: earningData.orderId,
-      campaign_title: earningData.campaignTitle,
-      amount: earningData.amount,
-      status: earningData.status,
-      paid_at: earningData.paidAt?.toISOString(),
+      owner_id: asset.ownerId,
+      bucket: asset.bucket,
+      path: asset.path,
+      url: asset.url,
+      media_type: asset.mediaType,
+      mime_type: asset.mimeType,
+      width: asset.width,
+      height: asset.height,
+      duration_seconds: asset.durationSeconds ?? null,
+      size_bytes: asset.sizeBytes,
+      variants: asset.variants as Json,
+      watermarked: asset.watermarked,
     })
     .select()
     .single();
 
+  if (error) {
+    console.error('Error recording media asset:', error);
+    throw new Error(error.message || 'Failed to save the upload. Please try again.');
+  }
+
+  return convertMediaAssetToApp(data);
+};
+
+// Files uploaded before media assets were recorded have no row and are left out
+export const getMediaAssetsByUrl = async (urls: string[]): Promise<MediaAsset[]> => {
+  if (urls.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('media_assets')
+    .select('*')
+    .in('url', urls);
+
   if (error) throw error;
+  return (data || []).map(convertMediaAssetToApp);
+};
 
-  return {
-    id: data.id,
-    talentId: data.talent_id,
-    orderId: data.order_id,
-    campaignTitle: data.campaign_title,
-    amount: Number(data.amount) || 0,
-    status: data.status as 'pending' | 'paid' | 'cancelled',
-    earnedAt: new Date(data.earned_at || ''),
-    paidAt: data.paid_at ? new Date(data.paid_at) : undefined,
-  } as Earning;
+export const deleteMediaAsset = async (assetId: string) => {
+  const { error } = await supabase
+    .from('media_assets')
+    .delete()
+    .eq('id', assetId);
+
+  if (error) {
+    console.error('Error deleting media asset:', error);
+    throw new Error(error.message || 'Failed to delete the file. Please try again.');
+  }
 };
 
-export const updateEarning = async (earningId: string, updates: Partial<EarningRow>) => {
+// Null until the order completes and the founder can download the original files
+export const getReviewMediaGrant = async (orderId: string): Promise<ReviewMediaGrant | null> => {
   const { data, error } = await supabase
-    .from('earnings')
-    .update(updates)
-    .eq('id', earningId)
-    .select()
-    .single();
+    .from('review_media_grants')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
 
   if (error) throw error;
+  return data ? convertReviewMediaGrantToApp(data) : null;
+};
 
-  return {
-    id: data.id,
-    talentId: data.talent_id,
-    orderId: data.order_id,
-    campaignTitle: data.campaign_title,
-    amount: Number(data.amount) || 0,
-    status: data.status as 'pending' | 'paid' | 'cancelled',
-    earnedAt: new Date(data.earned_at || ''),
-    paidAt: data.paid_at ? new Date(data.paid_at) : undefined,
-  } as Earning;
+export const getWithdrawals = async (talentId?: string): Promise<WithdrawalRequest[]> => {
+  let query = supabase
+    .from('withdrawal_requests')
+    .select('*, profiles!withdrawal_requests_talent_id_fkey(name)')
+    .order('created_at', { ascending: false });
+
+  if (talentId) {
+    query = query.eq('talent_id', talentId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).map(row => convertWithdrawalToApp(row as unknown as WithdrawalRequestRow & { profiles: { name: string } | null }));
+};
+
+// Moves the amount from the talent's available balance to pending withdrawal
+export const requestWithdrawal = async (amount: number) => {
+  const { data, error } = await supabase.rpc('request_withdrawal', {
+    p_amount: amount,
+  });
+
+  if (error) {
+    console.error('Error requesting withdrawal:', error);
+    throw new Error(error.message || 'Withdrawal request failed. Please try again.');
+  }
+
+  return data;
+};
+
+// Rejecting returns the amount to the talent's available balance
+export const reviewWithdrawal = async (withdrawalId: string, approve: boolean, note?: string) => {
+  const { error } = await supabase.rpc('review_withdrawal', {
+    p_withdrawal_id: withdrawalId,
+    p_approve: approve,
+    p_note: note || null,
+  });
+
+  if (error) {
+    console.error('Error reviewing withdrawal:', error);
+    throw new Error(error.message || 'Failed to update withdrawal. Please try again.');
+  }
+};
+
+export const getPayoutBatches = async (): Promise<PayoutBatch[]> => {
+  const { data, error } = await supabase
+    .from('payout_batches')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertPayoutBatchToApp);
+};
+
+export const createPayoutBatch = async (withdrawalIds: string[]) => {
+  const { data, error } = await supabase.rpc('create_payout_batch', {
+    p_withdrawal_ids: withdrawalIds,
+  });
+
+  if (error) {
+    console.error('Error creating payout batch:', error);
+    throw new Error(error.message || 'Failed to create payout batch. Please try again.');
+  }
+
+  return data;
+};
+
+export const markPayoutBatchExported = async (batchId: string) => {
+  const { error } = await supabase.rpc('mark_payout_batch_exported', {
+    p_batch_id: batchId,
+  });
+
+  if (error) {
+    console.error('Error marking payout batch exported:', error);
+    throw new Error(error.message || 'Failed to update payout batch. Please try again.');
+  }
+};
+
+// Posts the payout to the ledger for every withdrawal in the batch
+export const markPayoutBatchPaid = async (batchId: string) => {
+  const { error } = await supabase.rpc('mark_payout_batch_paid', {
+    p_batch_id: batchId,
+  });
+
+  if (error) {
+    console.error('Error marking payout batch paid:', error);
+    throw new Error(error.message || 'Failed to mark payout batch as paid. Please try again.');
+  }
 };
 
 // Message functions
-export const getMessages = async (orderId?: string): Promise<Message[]> => {
+export const MESSAGE_PAGE_SIZE = 30;
+export const MESSAGE_THREAD_PAGE_SIZE = 50;
+
+// The whole of an order's chat, for the admin's dispute log. Chats in the app load a page at a time
+export const getMessages = async (orderId: string): Promise<Message[]> => {
   try {
     console.log('Fetching messages from database for order:', orderId);
     
-    let query = supabase
+    const { data, error } = await supabase
       .from('messages')
       .select('*')
+      .eq('order_id', orderId)
       .order('created_at', { ascending: true });
 
-    if (orderId) {
-      query = query.eq('order_id', orderId);
-    }
-
-    const { data, error } = await query;
-
     if (error) {
       console.error('Error fetching messages:', error);
       throw error;
@@ -826,14 +2107,7 @@ export const getMessages = async (orderId?: string): Promise<Message[]> => {
       return [];
     }
 
-    const convertedMessages = data.map(message => ({
-      id: message.id,
-      jobId: message.order_id,
-      senderId: message.sender_id,
-      content: message.content,
-      timestamp: new Date(message.created_at || ''),
-      read: message.read || false,
-    })) as Message[];
+    const convertedMessages = data.map(convertMessageToApp);
 
     console.log('Converted messages:', convertedMessages);
     return convertedMessages;
@@ -843,7 +2117,57 @@ export const getMessages = async (orderId?: string): Promise<Message[]> => {
   }
 };
 
-export const createMessage = async (messageData: Omit<Message, 'id' | 'timestamp'>) => {
+// The latest messages of an order sent before `before`, oldest first
+export const getMessagesPage = async (
+  orderId: string,
+  before?: Date,
+  limit = MESSAGE_PAGE_SIZE
+): Promise<{ messages: Message[]; hasMore: boolean }> => {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: false })
+    .limit(limit + 1);
+
+  if (before) {
+    query = query.lt('created_at', before.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return {
+    messages: data.slice(0, limit).reverse().map(convertMessageToApp),
+    hasMore: data.length > limit,
+  };
+};
+
+export const getMessageThreads = async (search?: string, offset = 0): Promise<MessageThread[]> => {
+  const { data, error } = await supabase.rpc('get_message_threads', {
+    p_search: search || null,
+    p_limit: MESSAGE_THREAD_PAGE_SIZE,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+  return (data as MessageThreadRow[]).map(row => ({
+    orderId: row.order_id,
+    campaignTitle: row.campaign_title,
+    counterpartId: row.counterpart_id,
+    counterpartName: row.counterpart_name,
+    counterpartAvatar: row.counterpart_avatar || undefined,
+    lastMessage: {
+      content: row.last_content,
+      senderId: row.last_sender_id,
+      attachmentCount: row.last_attachment_count,
+      timestamp: new Date(row.last_created_at),
+    },
+    unreadCount: row.unread_count,
+  }));
+};
+
+export const createMessage = async (messageData: Omit<Message, 'id' | 'timestamp' | 'readAt'>) => {
   try {
     console.log('Creating new message:', messageData);
     
@@ -854,6 +2178,14 @@ export const createMessage = async (messageData: Omit<Message, 'id' | 'timestamp
         sender_id: messageData.senderId,
         content: messageData.content,
         read: messageData.read,
+        attachments: messageData.attachments.map(attachment => ({
+          url: attachment.url,
+          path: attachment.path,
+          name: attachment.name,
+          type: attachment.type,
+          mime_type: attachment.mimeType,
+          size_bytes: attachment.sizeBytes,
+        })),
       })
       .select()
       .single();
@@ -865,102 +2197,177 @@ export const createMessage = async (messageData: Omit<Message, 'id' | 'timestamp
 
     console.log('Message created successfully:', data);
 
-    return {
-      id: data.id,
-      jobId: data.order_id,
-      senderId: data.sender_id,
-      content: data.content,
-      timestamp: new Date(data.created_at || ''),
-      read: data.read || false,
-    } as Message;
+    return convertMessageToApp(data);
   } catch (error) {
     console.error('createMessage error:', error);
     throw error;
   }
 };
 
-// Real-time subscriptions
-export const subscribeToMessages = (orderId: string, callback: (message: Message) => void) => {
+// Marks the other party's messages in the order as read; returns how many were unread
+export const markMessagesRead = async (orderId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('mark_messages_read', { p_order_id: orderId });
+
+  if (error) {
+    console.error('Error marking messages as read:', error);
+    throw new Error(error.message || 'Failed to mark messages as read.');
+  }
+  return data;
+};
+
+// Real-time subscriptions. One channel carries every message the user can read, since realtime
+// only delivers rows that pass the messages policies. `onUpdate` receives messages as they are read
+export const subscribeToUserMessages = (userId: string, onInsert: (message: Message) => void, onUpdate: (message: Message) => void) => {
   return supabase
-    .channel(`messages:${orderId}`)
+    .channel(`messages:user:${userId}`)
     .on(
       'postgres_changes',
       {
         event: 'INSERT',
         schema: 'public',
         table: 'messages',
-        filter: `order_id=eq.${orderId}`,
       },
       (payload) => {
-        const message = {
-          id: payload.new.id,
-          jobId: payload.new.order_id,
-          senderId: payload.new.sender_id,
-          content: payload.new.content,
-          timestamp: new Date(payload.new.created_at),
-          read: payload.new.read || false,
-        } as Message;
-        callback(message);
+        onInsert(convertMessageToApp(payload.new as MessageRow));
       }
     )
-    .subscribe();
-};
-
-export const subscribeToOrders = (userId: string, callback: (order: any) => void) => {
-  return supabase
-    .channel(`orders:${userId}`)
     .on(
       'postgres_changes',
       {
-        event: '*',
+        event: 'UPDATE',
         schema: 'public',
-        table: 'orders',
+        table: 'messages',
       },
       (payload) => {
-        callback(payload);
+        onUpdate(convertMessageToApp(payload.new as MessageRow));
       }
     )
     .subscribe();
 };
 
-export async function deleteReviewMedia(orderId: string, mediaUrl: string): Promise<boolean> {
-  try {
-    // 1. Delete from Supabase Storage
-    const url = new URL(mediaUrl);
-    const pathParts = url.pathname.split('/');
-    const idx = pathParts.findIndex(p => p === 'review-submissions');
-    if (idx === -1 || idx === pathParts.length - 1) {
-      throw new Error('Invalid review media URL. File path not found.');
-    }
-    const filePath = pathParts.slice(idx + 1).join('/');
+// Who has the order's chat open and who is typing, over Realtime presence and broadcast. Nothing
+// is stored; `sendTyping` should be throttled by the caller
+export const subscribeToChatPresence = (
+  orderId: string,
+  me: ChatParticipant,
+  handlers: {
+    onPresence: (participants: ChatParticipant[]) => void;
+    onTyping: (participant: ChatParticipant) => void;
+  }
+) => {
+  const channel = supabase.channel(`chat:${orderId}`, {
+    config: { presence: { key: me.userId } },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<{ user_id: string; name: string }>();
+      handlers.onPresence(
+        Object.values(state).map(presences => ({ userId: presences[0].user_id, name: presences[0].name }))
+      );
+    })
+    .on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (payload.user_id !== me.userId) {
+        handlers.onTyping({ userId: payload.user_id, name: payload.name });
+      }
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        channel.track({ user_id: me.userId, name: me.name });
+      }
+    });
 
-    const { error: storageError } = await supabase
-      .storage
-      .from('review-submissions')
-      .remove([filePath]);
-    if (storageError) throw new Error(storageError.message || 'Failed to delete file from storage.');
+  return {
+    sendTyping: () => channel.send({ type: 'broadcast', event: 'typing', payload: { user_id: me.userId, name: me.name } }),
+    unsubscribe: () => supabase.removeChannel(channel),
+  };
+};
 
-    // 2. Remove from review_media in the database
-    // Fetch the current review_media array for the order
-    const { data: orderRow, error: fetchError } = await supabase
-      .from('orders')
-      .select('review_media')
-      .eq('id', orderId)
-      .single();
-    if (fetchError) throw new Error('Failed to fetch order for review_media update.');
+// Inserts, updates and deletes in the given tables, for refetching the data built from them.
+// Only rows that pass each table's select policies are delivered
+export const subscribeToTableChanges = (userId: string, tables: string[], onChange: (table: string) => void) => {
+  const channel = supabase.channel(`changes:${userId}`);
+  tables.forEach(table => {
+    channel.on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table,
+      },
+      () => {
+        onChange(table);
+      }
+    );
+  });
+  return channel.subscribe();
+};
 
-    let updatedMedia = (orderRow?.review_media || []).filter((m: any) => m.url !== mediaUrl);
+export const NOTIFICATION_PAGE_SIZE = 20;
 
-    // Update order
-    const { error: updateError } = await supabase
-      .from('orders')
-      .update({ review_media: updatedMedia.length > 0 ? updatedMedia : null })
-      .eq('id', orderId);
-    if (updateError) throw new Error('Failed to update review_media in order.');
+const convertNotificationToApp = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  body: row.body,
+  link: { page: row.link_page, id: row.link_id || undefined },
+  createdAt: new Date(row.created_at),
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+});
 
-    return true;
-  } catch (err: any) {
-    console.error('[deleteReviewMedia] Error:', err);
-    throw new Error('Failed to delete review media: ' + (err.message || err));
+// The user's latest notifications, newest first
+export const getNotifications = async (limit = NOTIFICATION_PAGE_SIZE): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data.map(convertNotificationToApp);
+};
+
+export const getUnreadNotificationCount = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+
+  if (error) throw error;
+  return count || 0;
+};
+
+// Marks the given notifications as read, or all of them when no ids are given
+export const markNotificationsRead = async (ids?: string[]): Promise<number> => {
+  const { data, error } = await supabase.rpc('mark_notifications_read', { p_ids: ids || null });
+
+  if (error) {
+    console.error('Error marking notifications as read:', error);
+    throw new Error(error.message || 'Failed to mark notifications as read.');
   }
+  return data;
+};
+
+// New notifications, and changes to existing ones: message notifications brought up to date by a
+// later message, and notifications read in another tab
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notification: AppNotification, isNew: boolean) => void
+) => {
+  return supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'notifications',
+        filter: `user_id=eq.${userId}`,
+      },
+      (payload) => {
+        if (payload.eventType === 'DELETE') return;
+        onChange(convertNotificationToApp(payload.new as NotificationRow), payload.eventType === 'INSERT');
+      }
+    )
+    .subscribe();
 };
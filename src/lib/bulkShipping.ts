@@ -0,0 +1,113 @@
+import { Order } from '../types';
+import { COURIER_ADAPTERS, findCourierAdapter } from './couriers';
+import { escapeCsvValue } from './payouts';
+
+export const SHIPMENT_CSV_HEADERS = ['order_id', 'talent', 'courier', 'tracking_number'];
+
+export interface ShipmentCsvRow {
+  line: number;
+  orderId: string;
+  order?: Order;
+  courier: string;
+  trackingNumber: string;
+  error?: string;
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+// Pre-filled with the orders to ship, so the founder only adds couriers and tracking numbers
+export const buildShipmentCsvTemplate = (orders: Order[]): string =>
+  [SHIPMENT_CSV_HEADERS, ...orders.map(order => [order.id, order.talentName, '', ''])]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n');
+
+// Matches each row to one of the orders being shipped and checks its courier and tracking number.
+// Couriers we have no adapter for are accepted as typed, and are not tracked automatically
+export const parseShipmentCsv = (csv: string, orders: Order[]): ShipmentCsvRow[] => {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  const orderIdIndex = columns.indexOf('order_id');
+  const courierIndex = columns.indexOf('courier');
+  const trackingIndex = columns.indexOf('tracking_number');
+  if (orderIdIndex === -1 || courierIndex === -1 || trackingIndex === -1) {
+    throw new Error('The file needs order_id, courier and tracking_number columns');
+  }
+
+  const seen = new Set<string>();
+
+  return rows.map((values, index) => {
+    const orderId = (values[orderIdIndex] || '').trim();
+    const courierInput = (values[courierIndex] || '').trim();
+    const trackingNumber = (values[trackingIndex] || '').trim();
+
+    // Couriers may be given by name or adapter id, e.g. "J&T Express" or "jnt"
+    const adapter = findCourierAdapter(courierInput) ||
+      COURIER_ADAPTERS.find(a => a.id === courierInput.toLowerCase());
+    const order = orders.find(o => o.id === orderId);
+
+    const row: ShipmentCsvRow = {
+      line: index + 2,
+      orderId,
+      order,
+      courier: adapter ? adapter.name : courierInput,
+      trackingNumber: adapter ? trackingNumber.replace(/\s+/g, '').toUpperCase() : trackingNumber,
+    };
+
+    if (!order) {
+      row.error = 'Not one of the orders waiting to ship';
+    } else if (seen.has(orderId)) {
+      row.error = 'Order appears more than once';
+    } else if (!courierInput || !trackingNumber) {
+      row.error = 'Courier and tracking number are required';
+    } else if (adapter) {
+      row.error = adapter.validateTrackingNumber(trackingNumber) || undefined;
+    }
+
+    seen.add(orderId);
+    return row;
+  });
+};
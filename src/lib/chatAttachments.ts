@@ -0,0 +1,73 @@
+import { MessageAttachment } from '../types';
+import { supabase } from './supabase';
+import { removeMedia, uploadMedia } from './mediaAssets';
+import { forgetResumableUpload, uploadResumable } from './resumableUpload';
+
+const BUCKET = 'chat-attachments';
+
+// Matches the bucket's file_size_limit
+export const MAX_CHAT_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+
+// Signed links to documents only need to last until the download starts
+const DOWNLOAD_URL_SECONDS = 60;
+
+const getAttachmentType = (file: File): MessageAttachment['type'] => {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  return 'file';
+};
+
+// Uploads a file shared in an order's chat. Photos and videos go through the shared uploader so the
+// thread shows their thumbnails; documents are stored as they are
+export const uploadChatAttachment = async (orderId: string, file: File, onProgress?: (fraction: number) => void): Promise<MessageAttachment> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const type = getAttachmentType(file);
+  // Storage keys cannot hold every character a file name can
+  const path = `${user.id}/${orderId}/${Date.now()}_${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+  let url: string;
+  if (type === 'file') {
+    await uploadResumable(BUCKET, path, file, { onProgress });
+    await forgetResumableUpload(BUCKET, path);
+    url = supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+  } else {
+    url = (await uploadMedia(file, BUCKET, path, { onProgress })).url;
+  }
+
+  return {
+    url,
+    path,
+    name: file.name,
+    type,
+    mimeType: file.type || 'application/octet-stream',
+    sizeBytes: file.size,
+  };
+};
+
+// Deletes an attachment that never made it into a message, with its thumbnails
+export const removeChatAttachment = async (attachment: MessageAttachment) => {
+  if (attachment.type !== 'file') {
+    await removeMedia(BUCKET, attachment.url);
+    return;
+  }
+
+  const { error } = await supabase.storage.from(BUCKET).remove([attachment.path]);
+  if (error) {
+    console.error('Error removing chat attachment:', error);
+  }
+};
+
+// A short lived link to an attachment, which saves it under its original name
+export const getChatAttachmentDownloadUrl = async (attachment: MessageAttachment): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(attachment.path, DOWNLOAD_URL_SECONDS, { download: attachment.name });
+
+  if (error) {
+    console.error('Error signing chat attachment:', error);
+    throw new Error('Failed to open the attachment. Please try again.');
+  }
+  return data.signedUrl;
+};
@@ -0,0 +1,248 @@
+import type { CourierAdapter, CourierApiConfig, TrackingEvent, TrackingStatus } from './types.ts';
+import { CourierTrackingError } from './types.ts';
+
+// One adapter per courier we can track automatically. Each speaks its courier's tracking API and
+// maps the courier's own status codes onto ours; the mock tracking server answers in the same
+// shapes, so these run unchanged against it.
+
+const normalizeTrackingNumber = (trackingNumber: string) => trackingNumber.replace(/\s+/g, '').toUpperCase();
+
+// Couriers that report local time without an offset report Malaysian time
+const malaysiaTimeToIso = (localDateTime: string) => new Date(`${localDateTime.replace(' ', 'T')}+08:00`).toISOString();
+
+const byOccurredAt = (a: TrackingEvent, b: TrackingEvent) => a.occurredAt.localeCompare(b.occurredAt);
+
+const expectArray = <T>(value: unknown, courier: string): T[] => {
+  if (!Array.isArray(value)) {
+    throw new CourierTrackingError(`Unexpected tracking response from ${courier}`);
+  }
+  return value as T[];
+};
+
+const validateFormat = (pattern: RegExp, courier: string, example: string) => (trackingNumber: string) =>
+  pattern.test(normalizeTrackingNumber(trackingNumber))
+    ? null
+    : `That does not look like a ${courier} tracking number (for example ${example})`;
+
+// DHL Shipment Tracking API: events newest first, with a coarse status code and free text
+const dhl: CourierAdapter = {
+  id: 'dhl',
+  name: 'DHL',
+  trackingNumberExample: '1234567890',
+  // 10-digit Express waybills, or eCommerce numbers such as MYCGU1234567890
+  validateTrackingNumber: validateFormat(/^(\d{10}|MY[A-Z0-9]{10,20})$/, 'DHL', '1234567890'),
+  getTrackingUrl: trackingNumber =>
+    `https://www.dhl.com/my-en/home/tracking.html?tracking-id=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`,
+  buildTrackingRequest: (trackingNumber: string, config: CourierApiConfig) =>
+    new Request(`${config.baseUrl}/track/shipments?trackingNumber=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`, {
+      headers: { 'DHL-API-Key': config.apiKey || '' },
+    }),
+  normalizeEvents: body => {
+    const shipments = expectArray<{ events?: unknown }>((body as { shipments?: unknown })?.shipments, 'DHL');
+    const events = expectArray<{
+      timestamp: string;
+      statusCode: string;
+      description: string;
+      location?: { address?: { addressLocality?: string } };
+    }>(shipments[0]?.events ?? [], 'DHL');
+
+    return events.map(event => {
+      const text = event.description.toLowerCase();
+      const status: TrackingStatus =
+        event.statusCode === 'delivered' ? 'delivered' :
+        event.statusCode === 'pre-transit' ? 'info_received' :
+        event.statusCode === 'failure' ? (text.includes('return') ? 'returned' : 'failed_attempt') :
+        text.includes('out for delivery') || text.includes('with delivery courier') ? 'out_for_delivery' :
+        event.statusCode === 'transit' ? 'in_transit' :
+        'exception';
+
+      return {
+        status,
+        description: event.description,
+        location: event.location?.address?.addressLocality,
+        occurredAt: new Date(event.timestamp).toISOString(),
+      };
+    }).sort(byOccurredAt);
+  },
+};
+
+// J&T Express Malaysia: a POST per waybill, scans reported in local time
+const jnt: CourierAdapter = {
+  id: 'jnt',
+  name: 'J&T Express',
+  trackingNumberExample: '630012345678',
+  validateTrackingNumber: validateFormat(/^\d{12}$/, 'J&T Express', '630012345678'),
+  getTrackingUrl: trackingNumber =>
+    `https://www.jtexpress.my/tracking/${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`,
+  buildTrackingRequest: (trackingNumber: string, config: CourierApiConfig) =>
+    new Request(`${config.baseUrl}/api/track`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', apiAccount: config.apiKey || '' },
+      body: JSON.stringify({ billcode: normalizeTrackingNumber(trackingNumber) }),
+    }),
+  normalizeEvents: body => {
+    const response = body as { code?: string; msg?: string; data?: { details?: unknown } };
+    if (response?.code !== '1') {
+      throw new CourierTrackingError(`J&T Express: ${response?.msg || 'tracking lookup failed'}`);
+    }
+
+    const scans = expectArray<{ scantime: string; scantype: string; desc: string; city?: string }>(
+      response.data?.details ?? [], 'J&T Express'
+    );
+
+    const statuses: Record<string, TrackingStatus> = {
+      'Order Created': 'info_received',
+      'Pick Up': 'in_transit',
+      Departure: 'in_transit',
+      Arrival: 'in_transit',
+      Delivery: 'out_for_delivery',
+      Signature: 'delivered',
+      Problematic: 'failed_attempt',
+      Return: 'returned',
+    };
+
+    return scans.map(scan => ({
+      status: statuses[scan.scantype] ?? 'exception',
+      description: scan.desc,
+      location: scan.city,
+      occurredAt: malaysiaTimeToIso(scan.scantime),
+    })).sort(byOccurredAt);
+  },
+};
+
+// Pos Laju: UPU S10 item numbers and UPU EMSEVT event codes
+const poslaju: CourierAdapter = {
+  id: 'poslaju',
+  name: 'Pos Malaysia',
+  trackingNumberExample: 'EP123456789MY',
+  validateTrackingNumber: validateFormat(/^[A-Z]{2}\d{9}MY$/, 'Pos Malaysia', 'EP123456789MY'),
+  getTrackingUrl: trackingNumber =>
+    `https://tracking.pos.com.my/tracking/${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`,
+  buildTrackingRequest: (trackingNumber: string, config: CourierApiConfig) =>
+    new Request(`${config.baseUrl}/v1/tracking?id=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`, {
+      headers: { Authorization: `Bearer ${config.apiKey || ''}` },
+    }),
+  normalizeEvents: body => {
+    const events = expectArray<{ date: string; event_code: string; process: string; office?: string }>(
+      (body as { data?: unknown })?.data, 'Pos Malaysia'
+    );
+
+    const statuses: Record<string, TrackingStatus> = {
+      EMA: 'info_received',
+      EMB: 'in_transit',
+      EMC: 'in_transit',
+      EMD: 'in_transit',
+      EMG: 'out_for_delivery',
+      EMH: 'failed_attempt',
+      EMI: 'delivered',
+      EMJ: 'returned',
+    };
+
+    return events.map(event => ({
+      status: statuses[event.event_code] ?? 'exception',
+      description: event.process,
+      location: event.office,
+      occurredAt: new Date(event.date).toISOString(),
+    })).sort(byOccurredAt);
+  },
+};
+
+// City-Link Express: short event codes, date and time reported separately in local time
+const citylink: CourierAdapter = {
+  id: 'citylink',
+  name: 'City-Link Express',
+  trackingNumberExample: '060301234567',
+  validateTrackingNumber: validateFormat(/^\d{12,13}$/, 'City-Link Express', '060301234567'),
+  getTrackingUrl: trackingNumber =>
+    `https://www.citylinkexpress.com/tracking-result/?track0=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`,
+  buildTrackingRequest: (trackingNumber: string, config: CourierApiConfig) =>
+    new Request(`${config.baseUrl}/tracking/${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`, {
+      headers: { 'X-API-Key': config.apiKey || '' },
+    }),
+  normalizeEvents: body => {
+    const events = expectArray<{ date: string; time: string; code: string; status: string; location?: string }>(
+      (body as { result?: { events?: unknown } })?.result?.events, 'City-Link Express'
+    );
+
+    const statuses: Record<string, TrackingStatus> = {
+      BKD: 'info_received',
+      PU: 'in_transit',
+      HUB: 'in_transit',
+      OFD: 'out_for_delivery',
+      POD: 'delivered',
+      UD: 'failed_attempt',
+      RTS: 'returned',
+    };
+
+    return events.map(event => {
+      // Dates arrive as DD/MM/YYYY
+      const [day, month, year] = event.date.split('/');
+      return {
+        status: statuses[event.code] ?? 'exception',
+        description: event.status,
+        location: event.location,
+        occurredAt: malaysiaTimeToIso(`${year}-${month}-${day} ${event.time}:00`),
+      };
+    }).sort(byOccurredAt);
+  },
+};
+
+// GDex: consignment note statuses are plain text
+const gdex: CourierAdapter = {
+  id: 'gdex',
+  name: 'GDex',
+  trackingNumberExample: 'MY37012345678',
+  validateTrackingNumber: validateFormat(/^(MY)?\d{11}$/, 'GDex', 'MY37012345678'),
+  getTrackingUrl: trackingNumber =>
+    `https://gdexpress.com/tracking/?consignmentno=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`,
+  buildTrackingRequest: (trackingNumber: string, config: CourierApiConfig) =>
+    new Request(`${config.baseUrl}/api/consignment/track?cn=${encodeURIComponent(normalizeTrackingNumber(trackingNumber))}`, {
+      headers: { ApiToken: config.apiKey || '' },
+    }),
+  normalizeEvents: body => {
+    const response = body as { s?: string; e?: string; r?: unknown };
+    if (response?.s !== 'success') {
+      throw new CourierTrackingError(`GDex: ${response?.e || 'tracking lookup failed'}`);
+    }
+
+    const events = expectArray<{ dtCreate: string; consignmentNoteStatus: string; location?: string }>(response.r, 'GDex');
+
+    return events.map(event => {
+      const text = event.consignmentNoteStatus.toLowerCase();
+      const status: TrackingStatus =
+        text.includes('delivered') && !text.includes('undelivered') ? 'delivered' :
+        text.includes('out for delivery') ? 'out_for_delivery' :
+        text.includes('undelivered') || text.includes('attempt') ? 'failed_attempt' :
+        text.includes('return') ? 'returned' :
+        text.includes('pickup') || text.includes('picked up') || text.includes('in transit') || text.includes('arrived') ? 'in_transit' :
+        text.includes('created') ? 'info_received' :
+        'exception';
+
+      return {
+        status,
+        description: event.consignmentNoteStatus,
+        location: event.location,
+        occurredAt: malaysiaTimeToIso(event.dtCreate),
+      };
+    }).sort(byOccurredAt);
+  },
+};
+
+export const COURIER_ADAPTERS: CourierAdapter[] = [jnt, poslaju, citylink, gdex, dhl];
+
+// orders.courier holds the courier's display name
+export const findCourierAdapter = (courier?: string | null): CourierAdapter | undefined =>
+  COURIER_ADAPTERS.find(adapter => adapter.name.toLowerCase() === courier?.trim().toLowerCase());
+
+// Fetches and normalizes a shipment's events. Server side only: courier API keys never reach the browser
+export const fetchTrackingEvents = async (
+  adapter: CourierAdapter,
+  trackingNumber: string,
+  config: CourierApiConfig
+): Promise<TrackingEvent[]> => {
+  const response = await fetch(adapter.buildTrackingRequest(trackingNumber, config));
+  if (!response.ok) {
+    throw new CourierTrackingError(`${adapter.name} tracking request failed with status ${response.status}`);
+  }
+  return adapter.normalizeEvents(await response.json());
+};
@@ -0,0 +1,6 @@
+export * from './types';
+export { COURIER_ADAPTERS, findCourierAdapter } from './adapters';
+
+// Offered when shipping alongside the tracked couriers. Orders sent with any other courier have
+// no automatic tracking and are marked delivered by hand
+export const OTHER_COURIER = 'Other';
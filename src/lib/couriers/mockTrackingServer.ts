@@ -0,0 +1,183 @@
+import type { CourierId, TrackingStatus } from './types.ts';
+import { COURIER_ADAPTERS } from './adapters.ts';
+
+// A stand-in for every courier's tracking API, answering in each courier's own response shape.
+// A shipment advances one step each interval after it is first looked up, so a poller sees the
+// same progression a real parcel would. Tracking numbers pick the outcome:
+//   - ending in 9: a failed delivery attempt, then returned to sender
+//   - ending in 8: never found, as if the number was mistyped
+//   - anything else: delivered
+
+interface MockStep {
+  status: TrackingStatus;
+  description: string;
+  location: string;
+}
+
+const DELIVERED_STEPS: MockStep[] = [
+  { status: 'info_received', description: 'Shipment information received', location: 'Shah Alam' },
+  { status: 'in_transit', description: 'Parcel picked up by courier', location: 'Shah Alam' },
+  { status: 'in_transit', description: 'Arrived at sorting hub', location: 'Kuala Lumpur' },
+  { status: 'out_for_delivery', description: 'Out for delivery', location: 'Petaling Jaya' },
+  { status: 'delivered', description: 'Delivered', location: 'Petaling Jaya' },
+];
+
+const RETURNED_STEPS: MockStep[] = [
+  ...DELIVERED_STEPS.slice(0, 4),
+  { status: 'failed_attempt', description: 'Delivery attempted, recipient not available', location: 'Petaling Jaya' },
+  { status: 'returned', description: 'Returned to sender', location: 'Shah Alam' },
+];
+
+// Each courier's own code for our status, inverting what its adapter maps
+const COURIER_CODES: Record<Exclude<CourierId, 'dhl' | 'gdex'>, Record<TrackingStatus, string>> = {
+  jnt: {
+    info_received: 'Order Created', in_transit: 'Arrival', out_for_delivery: 'Delivery',
+    delivered: 'Signature', failed_attempt: 'Problematic', returned: 'Return', exception: 'Problematic',
+  },
+  poslaju: {
+    info_received: 'EMA', in_transit: 'EMD', out_for_delivery: 'EMG',
+    delivered: 'EMI', failed_attempt: 'EMH', returned: 'EMJ', exception: 'EMX',
+  },
+  citylink: {
+    info_received: 'BKD', in_transit: 'HUB', out_for_delivery: 'OFD',
+    delivered: 'POD', failed_attempt: 'UD', returned: 'RTS', exception: 'EXC',
+  },
+};
+
+const DHL_CODES: Record<TrackingStatus, string> = {
+  info_received: 'pre-transit', in_transit: 'transit', out_for_delivery: 'transit',
+  delivered: 'delivered', failed_attempt: 'failure', returned: 'failure', exception: 'unknown',
+};
+
+interface MockTrackingServerOptions {
+  // How long each step takes, in seconds
+  stepSeconds?: number;
+}
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Local wall-clock time in Malaysia, as the couriers that omit an offset report it
+const toMalaysiaTime = (date: Date) => new Date(date.getTime() + 8 * 60 * 60 * 1000).toISOString().slice(0, 19);
+
+export const createMockTrackingHandler = (options: MockTrackingServerOptions = {}) => {
+  const stepMs = (options.stepSeconds ?? 60) * 1000;
+  const firstSeen = new Map<string, number>();
+
+  const getEvents = (trackingNumber: string) => {
+    const now = Date.now();
+    if (!firstSeen.has(trackingNumber)) {
+      firstSeen.set(trackingNumber, now);
+    }
+    const start = firstSeen.get(trackingNumber)!;
+
+    const steps = trackingNumber.endsWith('9') ? RETURNED_STEPS : DELIVERED_STEPS;
+    const reached = Math.min(steps.length, Math.floor((now - start) / stepMs) + 1);
+
+    return steps.slice(0, reached).map((step, index) => ({ ...step, at: new Date(start + index * stepMs) }));
+  };
+
+  const respond = (courier: CourierId, trackingNumber: string) => {
+    if (trackingNumber.endsWith('8')) {
+      switch (courier) {
+        case 'jnt':  return json(200, { code: '0', msg: 'Waybill not found' });
+        case 'gdex': return json(200, { s: 'fail', e: 'Consignment note not found' });
+        default:     return json(404, { error: 'Shipment not found' });
+      }
+    }
+
+    const events = getEvents(trackingNumber);
+
+    switch (courier) {
+      case 'dhl':
+        return json(200, {
+          shipments: [{
+            id: trackingNumber,
+            events: [...events].reverse().map(event => ({
+              timestamp: event.at.toISOString(),
+              statusCode: DHL_CODES[event.status],
+              description: event.description,
+              location: { address: { addressLocality: event.location } },
+            })),
+          }],
+        });
+      case 'jnt':
+        return json(200, {
+          code: '1',
+          msg: 'success',
+          data: {
+            billcode: trackingNumber,
+            details: events.map(event => ({
+              scantime: toMalaysiaTime(event.at).replace('T', ' '),
+              scantype: COURIER_CODES.jnt[event.status],
+              desc: event.description,
+              city: event.location,
+            })),
+          },
+        });
+      case 'poslaju':
+        return json(200, {
+          data: events.map(event => ({
+            date: event.at.toISOString(),
+            event_code: COURIER_CODES.poslaju[event.status],
+            process: event.description,
+            office: event.location,
+          })),
+        });
+      case 'citylink':
+        return json(200, {
+          result: {
+            events: events.map(event => {
+              const [date, time] = toMalaysiaTime(event.at).split('T');
+              const [year, month, day] = date.split('-');
+              return {
+                date: `${day}/${month}/${year}`,
+                time: time.slice(0, 5),
+                code: COURIER_CODES.citylink[event.status],
+                status: event.description,
+                location: event.location,
+              };
+            }),
+          },
+        });
+      case 'gdex':
+        return json(200, {
+          s: 'success',
+          r: events.map(event => ({
+            dtCreate: toMalaysiaTime(event.at),
+            consignmentNoteStatus: event.status === 'info_received' ? 'Consignment created' : event.description,
+            location: event.location,
+          })),
+        });
+    }
+  };
+
+  // Routes on the first path segment naming a courier, so it works behind any prefix
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/');
+    const courierIndex = segments.findIndex(segment => COURIER_ADAPTERS.some(adapter => adapter.id === segment));
+    if (courierIndex === -1) {
+      return json(404, { error: 'Unknown courier' });
+    }
+    const courier = segments[courierIndex] as CourierId;
+
+    let trackingNumber: string | null;
+    switch (courier) {
+      case 'dhl':      trackingNumber = url.searchParams.get('trackingNumber'); break;
+      case 'poslaju':  trackingNumber = url.searchParams.get('id'); break;
+      case 'gdex':     trackingNumber = url.searchParams.get('cn'); break;
+      case 'citylink': trackingNumber = segments[segments.length - 1] || null; break;
+      case 'jnt':      trackingNumber = req.method === 'POST' ? (await req.json()).billcode ?? null : null; break;
+    }
+
+    if (!trackingNumber) {
+      return json(400, { error: 'Missing tracking number' });
+    }
+
+    return respond(courier, decodeURIComponent(trackingNumber));
+  };
+};
@@ -0,0 +1,51 @@
+// Courier-neutral tracking types. This module has no imports so the Supabase edge functions
+// can share it with the browser.
+
+export type CourierId = 'dhl' | 'jnt' | 'poslaju' | 'citylink' | 'gdex';
+
+// Every courier's own status codes are mapped onto these
+export type TrackingStatus =
+  | 'info_received'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed_attempt'
+  | 'returned'
+  | 'exception';
+
+export interface TrackingEvent {
+  status: TrackingStatus;
+  description: string;
+  location?: string;
+  // ISO 8601, in UTC
+  occurredAt: string;
+}
+
+// Where an adapter fetches from. In development every courier points at the mock tracking server
+export interface CourierApiConfig {
+  baseUrl: string;
+  apiKey?: string;
+}
+
+export interface CourierAdapter {
+  readonly id: CourierId;
+  // Shown to users and stored on orders.courier
+  readonly name: string;
+  // Example shown as the tracking number placeholder
+  readonly trackingNumberExample: string;
+  // Returns why the tracking number cannot belong to this courier, or null when it can
+  validateTrackingNumber(trackingNumber: string): string | null;
+  // The courier's public tracking page, for people who want more detail than we store
+  getTrackingUrl(trackingNumber: string): string;
+  // Builds the request for the courier's tracking API
+  buildTrackingRequest(trackingNumber: string, config: CourierApiConfig): Request;
+  // Turns the courier's response body into our events, oldest first
+  normalizeEvents(body: unknown): TrackingEvent[];
+}
+
+export class CourierTrackingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CourierTrackingError';
+  }
+}
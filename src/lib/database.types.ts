@@ -27,6 +27,7 @@ export interface Database {
           skills: Json | null
           social_media: Json | null
           total_earnings: number | null
+          search_text: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -87,6 +88,9 @@ export interface Database {
           price: number
           status: 'draft' | 'active' | 'paused' | 'completed' | 'rejected'
           deadline: string | null
+          max_revision_rounds: number
+          usage_rights: Json
+          search_text: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -105,6 +109,8 @@ export interface Database {
           price: number
           status?: 'draft' | 'active' | 'paused' | 'completed' | 'rejected'
           deadline?: string | null
+          max_revision_rounds?: number
+          usage_rights?: Json
           created_at?: string | null
           updated_at?: string | null
         }
@@ -123,6 +129,8 @@ export interface Database {
           price?: number
           status?: 'draft' | 'active' | 'paused' | 'completed' | 'rejected'
           deadline?: string | null
+          max_revision_rounds?: number
+          usage_rights?: Json
           created_at?: string | null
           updated_at?: string | null
         }
@@ -133,6 +141,7 @@ export interface Database {
           campaign_id: string
           talent_id: string
           status: string | null
+          address_id: string | null
           applied_at: string | null
         }
         Insert: {
@@ -140,6 +149,7 @@ export interface Database {
           campaign_id: string
           talent_id: string
           status?: string | null
+          address_id?: string | null
           applied_at?: string | null
         }
         Update: {
@@ -147,6 +157,7 @@ export interface Database {
           campaign_id?: string
           talent_id?: string
           status?: string | null
+          address_id?: string | null
           applied_at?: string | null
         }
       }
@@ -156,14 +167,19 @@ export interface Database {
           campaign_id: string
           talent_id: string
           founder_id: string
-          status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed'
+          status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
           payout: number
           delivery_address: string | null
           tracking_number: string | null
           courier: string | null
           review_media_url: string | null
           review_media_type: 'image' | 'video' | 'both' | null
+          review_media: Json | null
           review_submitted_at: string | null
+          fee_policy_version: number | null
+          usage_rights: Json | null
+          tracking_status: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception' | null
+          tracking_checked_at: string | null
           created_at: string | null
           updated_at: string | null
         }
@@ -172,14 +188,19 @@ export interface Database {
           campaign_id: string
           talent_id: string
           founder_id: string
-          status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed'
+          status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
           payout: number
           delivery_address?: string | null
           tracking_number?: string | null
           courier?: string | null
           review_media_url?: string | null
           review_media_type?: 'image' | 'video' | 'both' | null
+          review_media?: Json | null
           review_submitted_at?: string | null
+          fee_policy_version?: number | null
+          usage_rights?: Json | null
+          tracking_status?: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception' | null
+          tracking_checked_at?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -188,14 +209,19 @@ export interface Database {
           campaign_id?: string
           talent_id?: string
           founder_id?: string
-          status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed'
+          status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
           payout?: number
           delivery_address?: string | null
           tracking_number?: string | null
           courier?: string | null
           review_media_url?: string | null
           review_media_type?: 'image' | 'video' | 'both' | null
+          review_media?: Json | null
           review_submitted_at?: string | null
+          fee_policy_version?: number | null
+          usage_rights?: Json | null
+          tracking_status?: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception' | null
+          tracking_checked_at?: string | null
           created_at?: string | null
           updated_at?: string | null
         }
@@ -237,6 +263,7 @@ export interface Database {
           campaign_title: string
           amount: number
           status: 'pending' | 'paid' | 'cancelled'
+          payout_status: 'available' | 'withdrawal_pending' | 'withdrawn'
           earned_at: string | null
           paid_at: string | null
         }
@@ -247,6 +274,7 @@ export interface Database {
           campaign_title: string
           amount: number
           status?: 'pending' | 'paid' | 'cancelled'
+          payout_status?: 'available' | 'withdrawal_pending' | 'withdrawn'
           earned_at?: string | null
           paid_at?: string | null
         }
@@ -257,6 +285,7 @@ export interface Database {
           campaign_title?: string
           amount?: number
           status?: 'pending' | 'paid' | 'cancelled'
+          payout_status?: 'available' | 'withdrawal_pending' | 'withdrawn'
           earned_at?: string | null
           paid_at?: string | null
         }
@@ -268,6 +297,8 @@ export interface Database {
           sender_id: string
           content: string
           read: boolean | null
+          read_at: string | null
+          attachments: Json
           created_at: string | null
         }
         Insert: {
@@ -276,6 +307,8 @@ export interface Database {
           sender_id: string
           content: string
           read?: boolean | null
+          read_at?: string | null
+          attachments?: Json
           created_at?: string | null
         }
         Update: {
@@ -284,12 +317,953 @@ export interface Database {
           sender_id?: string
           content?: string
           read?: boolean | null
+          read_at?: string | null
+          attachments?: Json
           created_at?: string | null
         }
       }
+      escrow_holds: {
+        Row: {
+          id: string
+          order_id: string
+          founder_id: string
+          talent_id: string
+          amount: number
+          fee_amount: number | null
+          status: 'held' | 'frozen' | 'released' | 'refunded'
+          created_at: string | null
+          released_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          founder_id: string
+          talent_id: string
+          amount: number
+          fee_amount?: number | null
+          status?: 'held' | 'frozen' | 'released' | 'refunded'
+          created_at?: string | null
+          released_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          founder_id?: string
+          talent_id?: string
+          amount?: number
+          fee_amount?: number | null
+          status?: 'held' | 'frozen' | 'released' | 'refunded'
+          created_at?: string | null
+          released_at?: string | null
+        }
+      }
+      ledger_accounts: {
+        Row: {
+          id: string
+          owner_id: string | null
+          type: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          owner_id?: string | null
+          type: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          owner_id?: string | null
+          type?: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+          created_at?: string | null
+        }
+      }
+      journal_entries: {
+        Row: {
+          id: string
+          kind: 'opening_balance' | 'wallet_top_up' | 'escrow_hold' | 'escrow_release' | 'escrow_refund' | 'platform_fee' | 'talent_payout' | 'withdrawal_request' | 'withdrawal_reversal' | 'wallet_top_up_refund'
+          description: string
+          order_id: string | null
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          kind: 'opening_balance' | 'wallet_top_up' | 'escrow_hold' | 'escrow_release' | 'escrow_refund' | 'platform_fee' | 'talent_payout' | 'withdrawal_request' | 'withdrawal_reversal' | 'wallet_top_up_refund'
+          description: string
+          order_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          kind?: 'opening_balance' | 'wallet_top_up' | 'escrow_hold' | 'escrow_release' | 'escrow_refund' | 'platform_fee' | 'talent_payout' | 'withdrawal_request' | 'withdrawal_reversal' | 'wallet_top_up_refund'
+          description?: string
+          order_id?: string | null
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      ledger_postings: {
+        Row: {
+          id: string
+          entry_id: string
+          account_id: string
+          amount: number
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          entry_id: string
+          account_id: string
+          amount: number
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          entry_id?: string
+          account_id?: string
+          amount?: number
+          created_at?: string | null
+        }
+      }
+      platform_settings: {
+        Row: {
+          id: string
+          version: number
+          fee_type: 'percentage' | 'flat'
+          fee_value: number
+          fee_cap: number | null
+          charged_to: 'founder' | 'talent'
+          category_overrides: Json
+          rate_level_overrides: Json
+          is_active: boolean
+          created_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          version: number
+          fee_type: 'percentage' | 'flat'
+          fee_value: number
+          fee_cap?: number | null
+          charged_to?: 'founder' | 'talent'
+          category_overrides?: Json
+          rate_level_overrides?: Json
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          version?: number
+          fee_type?: 'percentage' | 'flat'
+          fee_value?: number
+          fee_cap?: number | null
+          charged_to?: 'founder' | 'talent'
+          category_overrides?: Json
+          rate_level_overrides?: Json
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string | null
+        }
+      }
+      talent_bank_accounts: {
+        Row: {
+          talent_id: string
+          bank_code: string
+          bank_name: string
+          account_number: string
+          account_holder_name: string
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          talent_id: string
+          bank_code: string
+          bank_name: string
+          account_number: string
+          account_holder_name: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          talent_id?: string
+          bank_code?: string
+          bank_name?: string
+          account_number?: string
+          account_holder_name?: string
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      payout_batches: {
+        Row: {
+          id: string
+          reference: string
+          status: 'pending' | 'exported' | 'paid'
+          total_amount: number
+          created_by: string | null
+          created_at: string | null
+          exported_at: string | null
+          paid_at: string | null
+        }
+        Insert: {
+          id?: string
+          reference: string
+          status?: 'pending' | 'exported' | 'paid'
+          total_amount?: number
+          created_by?: string | null
+          created_at?: string | null
+          exported_at?: string | null
+          paid_at?: string | null
+        }
+        Update: {
+          id?: string
+          reference?: string
+          status?: 'pending' | 'exported' | 'paid'
+          total_amount?: number
+          created_by?: string | null
+          created_at?: string | null
+          exported_at?: string | null
+          paid_at?: string | null
+        }
+      }
+      withdrawal_requests: {
+        Row: {
+          id: string
+          talent_id: string
+          amount: number
+          status: 'pending' | 'approved' | 'rejected' | 'paid'
+          bank_code: string
+          bank_name: string
+          account_number: string
+          account_holder_name: string
+          batch_id: string | null
+          admin_note: string | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          paid_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          talent_id: string
+          amount: number
+          status?: 'pending' | 'approved' | 'rejected' | 'paid'
+          bank_code: string
+          bank_name: string
+          account_number: string
+          account_holder_name: string
+          batch_id?: string | null
+          admin_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          paid_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          talent_id?: string
+          amount?: number
+          status?: 'pending' | 'approved' | 'rejected' | 'paid'
+          bank_code?: string
+          bank_name?: string
+          account_number?: string
+          account_holder_name?: string
+          batch_id?: string | null
+          admin_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          paid_at?: string | null
+          created_at?: string | null
+        }
+      }
+      payment_intents: {
+        Row: {
+          id: string
+          founder_id: string
+          provider: string
+          provider_intent_id: string | null
+          method: 'card' | 'fpx' | 'ewallet'
+          amount: number
+          currency: string
+          status: 'requires_confirmation' | 'requires_action' | 'processing' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason: string | null
+          journal_entry_id: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          founder_id: string
+          provider: string
+          provider_intent_id?: string | null
+          method: 'card' | 'fpx' | 'ewallet'
+          amount: number
+          currency?: string
+          status?: 'requires_confirmation' | 'requires_action' | 'processing' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason?: string | null
+          journal_entry_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          founder_id?: string
+          provider?: string
+          provider_intent_id?: string | null
+          method?: 'card' | 'fpx' | 'ewallet'
+          amount?: number
+          currency?: string
+          status?: 'requires_confirmation' | 'requires_action' | 'processing' | 'succeeded' | 'failed' | 'refunded'
+          failure_reason?: string | null
+          journal_entry_id?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      payment_webhook_events: {
+        Row: {
+          id: string
+          provider: string
+          event_id: string
+          event_type: string
+          payment_intent_id: string | null
+          payload: Json
+          received_at: string | null
+        }
+        Insert: {
+          id?: string
+          provider: string
+          event_id: string
+          event_type: string
+          payment_intent_id?: string | null
+          payload: Json
+          received_at?: string | null
+        }
+        Update: {
+          id?: string
+          provider?: string
+          event_id?: string
+          event_type?: string
+          payment_intent_id?: string | null
+          payload?: Json
+          received_at?: string | null
+        }
+      }
+      order_status_history: {
+        Row: {
+          id: string
+          order_id: string
+          from_status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded' | null
+          to_status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
+          changed_by: string | null
+          note: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          from_status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded' | null
+          to_status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
+          changed_by?: string | null
+          note?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          from_status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded' | null
+          to_status?: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
+          changed_by?: string | null
+          note?: string | null
+          created_at?: string | null
+        }
+      }
+      review_submissions: {
+        Row: {
+          id: string
+          order_id: string
+          version: number
+          media: Json
+          notes: string | null
+          status: 'pending' | 'approved' | 'revision_requested'
+          feedback: Json
+          feedback_summary: string | null
+          submitted_at: string | null
+          reviewed_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          version: number
+          media: Json
+          notes?: string | null
+          status?: 'pending' | 'approved' | 'revision_requested'
+          feedback?: Json
+          feedback_summary?: string | null
+          submitted_at?: string | null
+          reviewed_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          version?: number
+          media?: Json
+          notes?: string | null
+          status?: 'pending' | 'approved' | 'revision_requested'
+          feedback?: Json
+          feedback_summary?: string | null
+          submitted_at?: string | null
+          reviewed_at?: string | null
+        }
+      }
+      review_annotations: {
+        Row: {
+          id: string
+          order_id: string
+          submission_version: number
+          media_url: string
+          kind: 'timestamp' | 'region'
+          timestamp_seconds: number | null
+          region_x: number | null
+          region_y: number | null
+          region_width: number | null
+          region_height: number | null
+          comment: string
+          created_by: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          submission_version: number
+          media_url: string
+          kind: 'timestamp' | 'region'
+          timestamp_seconds?: number | null
+          region_x?: number | null
+          region_y?: number | null
+          region_width?: number | null
+          region_height?: number | null
+          comment: string
+          created_by: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          submission_version?: number
+          media_url?: string
+          kind?: 'timestamp' | 'region'
+          timestamp_seconds?: number | null
+          region_x?: number | null
+          region_y?: number | null
+          region_width?: number | null
+          region_height?: number | null
+          comment?: string
+          created_by?: string
+          created_at?: string | null
+        }
+      }
+      content_licenses: {
+        Row: {
+          id: string
+          license_number: string
+          order_id: string
+          campaign_id: string
+          founder_id: string
+          talent_id: string
+          usage: 'organic' | 'paid_ads'
+          duration_months: number
+          territories: string[]
+          name_and_likeness: boolean
+          whitelisting: boolean
+          starts_at: string
+          expires_at: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          license_number: string
+          order_id: string
+          campaign_id: string
+          founder_id: string
+          talent_id: string
+          usage: 'organic' | 'paid_ads'
+          duration_months: number
+          territories: string[]
+          name_and_likeness?: boolean
+          whitelisting?: boolean
+          starts_at: string
+          expires_at: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          license_number?: string
+          order_id?: string
+          campaign_id?: string
+          founder_id?: string
+          talent_id?: string
+          usage?: 'organic' | 'paid_ads'
+          duration_months?: number
+          territories?: string[]
+          name_and_likeness?: boolean
+          whitelisting?: boolean
+          starts_at?: string
+          expires_at?: string
+          created_at?: string | null
+        }
+      }
+      order_disputes: {
+        Row: {
+          id: string
+          order_id: string
+          opened_by: string
+          reason: 'product_not_received' | 'review_rejected_unfairly' | 'content_not_as_agreed' | 'no_response' | 'other'
+          description: string
+          status: 'open' | 'resolved'
+          resolution: 'refund_founder' | 'release_talent' | 'split' | null
+          talent_amount: number | null
+          founder_amount: number | null
+          resolution_note: string | null
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          opened_by: string
+          reason: 'product_not_received' | 'review_rejected_unfairly' | 'content_not_as_agreed' | 'no_response' | 'other'
+          description: string
+          status?: 'open' | 'resolved'
+          resolution?: 'refund_founder' | 'release_talent' | 'split' | null
+          talent_amount?: number | null
+          founder_amount?: number | null
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          opened_by?: string
+          reason?: 'product_not_received' | 'review_rejected_unfairly' | 'content_not_as_agreed' | 'no_response' | 'other'
+          description?: string
+          status?: 'open' | 'resolved'
+          resolution?: 'refund_founder' | 'release_talent' | 'split' | null
+          talent_amount?: number | null
+          founder_amount?: number | null
+          resolution_note?: string | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string | null
+        }
+      }
+      shipment_tracking_events: {
+        Row: {
+          id: string
+          order_id: string
+          courier: string
+          tracking_number: string
+          status: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception'
+          description: string
+          location: string | null
+          occurred_at: string
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          courier: string
+          tracking_number: string
+          status: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception'
+          description: string
+          location?: string | null
+          occurred_at: string
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          courier?: string
+          tracking_number?: string
+          status?: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception'
+          description?: string
+          location?: string | null
+          occurred_at?: string
+          created_at?: string | null
+        }
+      }
+      talent_addresses: {
+        Row: {
+          id: string
+          talent_id: string
+          label: string
+          recipient_name: string
+          phone: string
+          line1: string
+          line2: string | null
+          postcode: string
+          city: string
+          state: string
+          is_default: boolean
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          talent_id: string
+          label?: string
+          recipient_name: string
+          phone: string
+          line1: string
+          line2?: string | null
+          postcode: string
+          city: string
+          state: string
+          is_default?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          talent_id?: string
+          label?: string
+          recipient_name?: string
+          phone?: string
+          line1?: string
+          line2?: string | null
+          postcode?: string
+          city?: string
+          state?: string
+          is_default?: boolean
+          created_at?: string | null
+          updated_at?: string | null
+        }
+      }
+      order_shipping_addresses: {
+        Row: {
+          order_id: string
+          talent_id: string
+          recipient_name: string
+          phone: string
+          line1: string
+          line2: string | null
+          postcode: string
+          city: string
+          state: string
+          created_at: string | null
+        }
+        Insert: {
+          order_id: string
+          talent_id: string
+          recipient_name: string
+          phone: string
+          line1: string
+          line2?: string | null
+          postcode: string
+          city: string
+          state: string
+          created_at?: string | null
+        }
+        Update: {
+          order_id?: string
+          talent_id?: string
+          recipient_name?: string
+          phone?: string
+          line1?: string
+          line2?: string | null
+          postcode?: string
+          city?: string
+          state?: string
+          created_at?: string | null
+        }
+      }
+      campaign_deliverables: {
+        Row: {
+          id: string
+          campaign_id: string
+          position: number
+          kind: 'video' | 'photo' | 'story'
+          platform: string
+          quantity: number
+          duration: '30sec' | '1min' | '3min' | null
+          aspect_ratio: string | null
+          min_resolution: number | null
+          required_tags: string[]
+          dos: string | null
+          donts: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          campaign_id: string
+          position?: number
+          kind: 'video' | 'photo' | 'story'
+          platform?: string
+          quantity?: number
+          duration?: '30sec' | '1min' | '3min' | null
+          aspect_ratio?: string | null
+          min_resolution?: number | null
+          required_tags?: string[]
+          dos?: string | null
+          donts?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          campaign_id?: string
+          position?: number
+          kind?: 'video' | 'photo' | 'story'
+          platform?: string
+          quantity?: number
+          duration?: '30sec' | '1min' | '3min' | null
+          aspect_ratio?: string | null
+          min_resolution?: number | null
+          required_tags?: string[]
+          dos?: string | null
+          donts?: string | null
+          created_at?: string | null
+        }
+      }
+      media_assets: {
+        Row: {
+          id: string
+          owner_id: string
+          bucket: string
+          path: string
+          url: string
+          media_type: 'image' | 'video'
+          mime_type: string
+          width: number
+          height: number
+          duration_seconds: number | null
+          size_bytes: number
+          variants: Json
+          watermarked: boolean
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          bucket: string
+          path: string
+          url: string
+          media_type: 'image' | 'video'
+          mime_type: string
+          width: number
+          height: number
+          duration_seconds?: number | null
+          size_bytes: number
+          variants?: Json
+          watermarked?: boolean
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          owner_id?: string
+          bucket?: string
+          path?: string
+          url?: string
+          media_type?: 'image' | 'video'
+          mime_type?: string
+          width?: number
+          height?: number
+          duration_seconds?: number | null
+          size_bytes?: number
+          variants?: Json
+          watermarked?: boolean
+          created_at?: string | null
+        }
+      }
+      review_media_grants: {
+        Row: {
+          id: string
+          order_id: string
+          founder_id: string
+          talent_id: string
+          granted_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          founder_id: string
+          talent_id: string
+          granted_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          founder_id?: string
+          talent_id?: string
+          granted_at?: string
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: 'application_received' | 'application_rejected' | 'order_created' | 'order_status' | 'message' | 'withdrawal_status'
+          title: string
+          body: string
+          link_page: string
+          link_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: 'application_received' | 'application_rejected' | 'order_created' | 'order_status' | 'message' | 'withdrawal_status'
+          title: string
+          body?: string
+          link_page: string
+          link_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: 'application_received' | 'application_rejected' | 'order_created' | 'order_status' | 'message' | 'withdrawal_status'
+          title?: string
+          body?: string
+          link_page?: string
+          link_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      email_preferences: {
+        Row: {
+          user_id: string
+          locale: 'en' | 'ms'
+          disabled_events: string[]
+          low_balance_threshold: number
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          locale?: 'en' | 'ms'
+          disabled_events?: string[]
+          low_balance_threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          locale?: 'en' | 'ms'
+          disabled_events?: string[]
+          low_balance_threshold?: number
+          updated_at?: string
+        }
+      }
+      email_outbox: {
+        Row: {
+          id: string
+          user_id: string
+          event: 'application_approved' | 'product_shipped' | 'revision_requested' | 'review_submitted' | 'low_wallet_balance' | 'campaign_approved'
+          data: Json
+          status: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts: number
+          last_error: string | null
+          next_attempt_at: string
+          sent_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          event: 'application_approved' | 'product_shipped' | 'revision_requested' | 'review_submitted' | 'low_wallet_balance' | 'campaign_approved'
+          data?: Json
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          event?: 'application_approved' | 'product_shipped' | 'revision_requested' | 'review_submitted' | 'low_wallet_balance' | 'campaign_approved'
+          data?: Json
+          status?: 'pending' | 'sending' | 'sent' | 'failed'
+          attempts?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sent_at?: string | null
+          created_at?: string
+        }
+      }
     }
     Views: {
-      [_ in never]: never
+      ledger_account_balances: {
+        Row: {
+          account_id: string
+          owner_id: string | null
+          type: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+          balance: number
+        }
+      }
+      ledger_transactions: {
+        Row: {
+          id: string
+          entry_id: string
+          user_id: string | null
+          account_type: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+          kind: 'opening_balance' | 'wallet_top_up' | 'escrow_hold' | 'escrow_release' | 'escrow_refund' | 'platform_fee' | 'talent_payout' | 'withdrawal_request' | 'withdrawal_reversal' | 'wallet_top_up_refund'
+          type: 'credit' | 'debit'
+          amount: number
+          description: string
+          related_order_id: string | null
+          created_at: string | null
+        }
+      }
+      payment_history: {
+        Row: {
+          id: string
+          payment_type: 'talent_payment' | 'admin_fee' | 'wallet_topup' | 'campaign_payout' | 'talent_withdrawal'
+          order_id: string | null
+          campaign_title: string
+          talent_name: string | null
+          founder_name: string | null
+          amount: number
+          status: 'completed' | 'pending' | 'failed'
+          created_at: string | null
+        }
+      }
+      order_list: {
+        Row: {
+          id: string
+          campaign_id: string
+          talent_id: string
+          founder_id: string
+          status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
+          payout: number
+          delivery_address: string | null
+          tracking_number: string | null
+          courier: string | null
+          review_media_url: string | null
+          review_media_type: 'image' | 'video' | 'both' | null
+          review_media: Json | null
+          review_submitted_at: string | null
+          fee_policy_version: number | null
+          usage_rights: Json | null
+          tracking_status: 'info_received' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'failed_attempt' | 'returned' | 'exception' | null
+          tracking_checked_at: string | null
+          created_at: string | null
+          updated_at: string | null
+          campaign_title: string
+          product_name: string
+          campaign_category: string
+          campaign_rate_level: number
+          talent_name: string
+          search_text: string
+        }
+      }
     }
     Functions: {
       calculate_campaign_price: {
@@ -299,16 +1273,314 @@ export interface Database {
         }
         Returns: number
       }
+      approve_application_with_escrow: {
+        Args: {
+          p_campaign_id: string
+          p_talent_id: string
+        }
+        Returns: string
+      }
+      submit_review_submission: {
+        Args: {
+          p_order_id: string
+          p_media: Json
+          p_notes: string | null
+        }
+        Returns: string
+      }
+      request_review_revision: {
+        Args: {
+          p_order_id: string
+          p_feedback: Json
+          p_summary: string
+        }
+        Returns: undefined
+      }
+      open_order_dispute: {
+        Args: {
+          p_order_id: string
+          p_reason: string
+          p_description: string
+        }
+        Returns: string
+      }
+      resolve_order_dispute: {
+        Args: {
+          p_dispute_id: string
+          p_resolution: 'refund_founder' | 'release_talent' | 'split'
+          p_talent_amount?: number | null
+          p_note?: string | null
+        }
+        Returns: undefined
+      }
+      record_shipment_tracking: {
+        Args: {
+          p_order_id: string
+          p_events: Json
+        }
+        Returns: boolean
+      }
+      save_shipping_address: {
+        Args: {
+          p_address_id: string | null
+          p_label: string
+          p_recipient_name: string
+          p_phone: string
+          p_line1: string
+          p_line2: string | null
+          p_postcode: string
+          p_city: string
+          p_state: string
+          p_is_default: boolean
+        }
+        Returns: string
+      }
+      delete_shipping_address: {
+        Args: {
+          p_address_id: string
+        }
+        Returns: undefined
+      }
+      bulk_ship_orders: {
+        Args: {
+          p_shipments: Json
+        }
+        Returns: number
+      }
+      save_campaign_deliverables: {
+        Args: {
+          p_campaign_id: string
+          p_deliverables: Json
+        }
+        Returns: undefined
+      }
+      can_read_review_media: {
+        Args: {
+          p_name: string
+        }
+        Returns: boolean
+      }
+      mark_messages_read: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: number
+      }
+      get_message_threads: {
+        Args: {
+          p_search?: string | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          order_id: string
+          campaign_title: string
+          counterpart_id: string
+          counterpart_name: string
+          counterpart_avatar: string | null
+          last_content: string
+          last_sender_id: string
+          last_attachment_count: number
+          last_created_at: string
+          unread_count: number
+        }[]
+      }
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[] | null
+        }
+        Returns: number
+      }
+      claim_email_outbox: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          event: string
+          data: Json
+          attempts: number
+          email: string
+          name: string
+          locale: string
+        }[]
+      }
+      create_top_up_intent: {
+        Args: {
+          p_amount: number
+          p_method: 'card' | 'fpx' | 'ewallet'
+          p_provider: string
+        }
+        Returns: string
+      }
+      apply_payment_webhook_event: {
+        Args: {
+          p_provider: string
+          p_event_id: string
+          p_event_type: string
+          p_reference: string
+          p_provider_intent_id: string
+          p_amount: number
+          p_failure_reason: string | null
+          p_payload: Json
+        }
+        Returns: boolean
+      }
+      settle_order_payment: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      calculate_platform_fee: {
+        Args: {
+          p_policy_version: number
+          p_amount: number
+          p_category: string
+          p_rate_level: number
+        }
+        Returns: number
+      }
+      publish_fee_policy: {
+        Args: {
+          p_fee_type: 'percentage' | 'flat'
+          p_fee_value: number
+          p_fee_cap: number | null
+          p_charged_to: 'founder' | 'talent'
+          p_category_overrides: Json
+          p_rate_level_overrides: Json
+        }
+        Returns: number
+      }
+      save_bank_account: {
+        Args: {
+          p_bank_code: string
+          p_bank_name: string
+          p_account_number: string
+          p_account_holder_name: string
+        }
+        Returns: undefined
+      }
+      request_withdrawal: {
+        Args: {
+          p_amount: number
+        }
+        Returns: string
+      }
+      review_withdrawal: {
+        Args: {
+          p_withdrawal_id: string
+          p_approve: boolean
+          p_note?: string | null
+        }
+        Returns: undefined
+      }
+      create_payout_batch: {
+        Args: {
+          p_withdrawal_ids: string[]
+        }
+        Returns: string
+      }
+      mark_payout_batch_exported: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: undefined
+      }
+      mark_payout_batch_paid: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: undefined
+      }
+      campaign_stats: {
+        Args: {
+          p_founder_id?: string
+        }
+        Returns: {
+          total_count: number
+          active_count: number
+          paused_count: number
+          draft_count: number
+          applicant_count: number
+          total_budget: number
+          total_price: number
+        }[]
+      }
+      profile_stats: {
+        Args: {
+          p_role: 'founder' | 'talent'
+        }
+        Returns: {
+          total_count: number
+          this_month_count: number
+          active_count: number
+          pending_count: number
+          company_count: number
+          wallet_total: number
+          earnings_total: number
+        }[]
+      }
+      founder_activity: {
+        Args: {
+          p_founder_ids: string[]
+        }
+        Returns: {
+          founder_id: string
+          campaign_count: number
+          total_spent: number
+        }[]
+      }
+      payment_stats: {
+        Args: Record<string, never>
+        Returns: {
+          payment_type: string
+          payment_count: number
+          total_amount: number
+          this_month_amount: number
+        }[]
+      }
+      earning_stats: {
+        Args: Record<string, never>
+        Returns: {
+          lifetime_total: number
+          paid_count: number
+          paid_total: number
+          pending_total: number
+          this_month_total: number
+        }[]
+      }
+      wallet_stats: {
+        Args: Record<string, never>
+        Returns: {
+          credit_count: number
+          credit_total: number
+          debit_count: number
+          debit_total: number
+          this_month_debit_total: number
+        }[]
+      }
+      monthly_activity: {
+        Args: Record<string, never>
+        Returns: {
+          month: string
+          revenue: number
+          talent_payments: number
+          campaign_count: number
+        }[]
+      }
     }
     Enums: {
       user_role: 'admin' | 'founder' | 'talent'
       user_status: 'active' | 'pending' | 'suspended'
       campaign_status: 'draft' | 'active' | 'paused' | 'completed' | 'rejected'
-      order_status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed'
+      order_status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded'
       transaction_type: 'credit' | 'debit'
       earning_status: 'pending' | 'paid' | 'cancelled'
       media_type: 'image' | 'video' | 'both'
       duration_type: '30sec' | '1min' | '3min'
+      ledger_account_type: 'founder_wallet' | 'escrow' | 'talent_payable' | 'talent_withdrawal_pending' | 'platform_revenue' | 'payment_clearing'
+      journal_entry_kind: 'opening_balance' | 'wallet_top_up' | 'escrow_hold' | 'escrow_release' | 'escrow_refund' | 'platform_fee' | 'talent_payout' | 'withdrawal_request' | 'withdrawal_reversal' | 'wallet_top_up_refund'
     }
     CompositeTypes: {
       [_ in never]: never
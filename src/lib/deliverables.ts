@@ -0,0 +1,52 @@
+import { CampaignDeliverable, CONTENT_DURATIONS, DELIVERABLE_KINDS, MAX_DELIVERABLE_QUANTITY } from '../types';
+
+type DeliverableSpec = Omit<CampaignDeliverable, 'id'>;
+
+// e.g. "1 TikTok video (30 Seconds)" or "3 photos"
+export const describeDeliverable = (deliverable: DeliverableSpec): string => {
+  const kind = DELIVERABLE_KINDS.find(k => k.value === deliverable.kind)?.label.toLowerCase() || deliverable.kind;
+  const platform = deliverable.platform && deliverable.platform !== 'Any' ? `${deliverable.platform} ` : '';
+  const duration = deliverable.kind === 'video' && deliverable.duration
+    ? ` (${CONTENT_DURATIONS.find(d => d.value === deliverable.duration)?.label})`
+    : '';
+
+  return `${deliverable.quantity} ${platform}${kind}${deliverable.quantity > 1 ? 's' : ''}${duration}`;
+};
+
+export const summarizeDeliverables = (deliverables: DeliverableSpec[]): string =>
+  deliverables.map(describeDeliverable).join(' + ');
+
+// Format requirements a talent must meet, in the order they are shown on the brief
+export const describeDeliverableRequirements = (deliverable: DeliverableSpec): string[] => {
+  const requirements: string[] = [];
+  if (deliverable.aspectRatio) requirements.push(`${deliverable.aspectRatio} aspect ratio`);
+  if (deliverable.minResolution) requirements.push(`At least ${deliverable.minResolution}p`);
+  if (deliverable.requiredTags.length > 0) requirements.push(`Include ${deliverable.requiredTags.join(' ')}`);
+  return requirements;
+};
+
+// Hashtags and mentions typed in one line; bare words become hashtags
+export const parseRequiredTags = (value: string): string[] => {
+  const tags = value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(tag => (tag.startsWith('#') || tag.startsWith('@') ? tag : `#${tag}`));
+  return Array.from(new Set(tags));
+};
+
+export const validateDeliverables = (deliverables: DeliverableSpec[]): string | null => {
+  if (deliverables.length === 0) {
+    return 'Add at least one deliverable';
+  }
+  if (deliverables.some(d => !Number.isInteger(d.quantity) || d.quantity < 1 || d.quantity > MAX_DELIVERABLE_QUANTITY)) {
+    return `Each deliverable needs a quantity between 1 and ${MAX_DELIVERABLE_QUANTITY}`;
+  }
+  return null;
+};
+
+// Stories may be a photo or a video
+export const acceptsMediaType = (deliverable: DeliverableSpec, type: 'image' | 'video'): boolean => {
+  if (deliverable.kind === 'video') return type === 'video';
+  if (deliverable.kind === 'photo') return type === 'image';
+  return true;
+};
@@ -0,0 +1,26 @@
+import { DisputeResolution, OrderDispute } from '../types';
+
+export const DISPUTE_RESOLUTION_LABELS: Record<DisputeResolution, string> = {
+  refund_founder: 'Full refund to the founder',
+  release_talent: 'Full release to the talent',
+  split: 'Split between both parties',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('ms-MY', {
+    style: 'currency',
+    currency: 'MYR',
+  }).format(amount);
+};
+
+export const describeDisputeOutcome = (dispute: OrderDispute): string => {
+  if (!dispute.resolution) return 'Awaiting an admin decision';
+
+  const parts = [];
+  if (dispute.talentAmount) parts.push(`${formatCurrency(dispute.talentAmount)} paid to the talent`);
+  if (dispute.founderAmount) parts.push(`${formatCurrency(dispute.founderAmount)} refunded to the founder`);
+
+  return parts.length > 0
+    ? `${DISPUTE_RESOLUTION_LABELS[dispute.resolution]}: ${parts.join(', ')}`
+    : DISPUTE_RESOLUTION_LABELS[dispute.resolution];
+};
@@ -0,0 +1,20 @@
+import { EmailEvent } from './types';
+
+export * from './types';
+
+// The emails a user can turn off from their profile, by the role that receives them
+export const EMAIL_EVENT_OPTIONS: Record<'founder' | 'talent', { event: EmailEvent; label: string; description: string }[]> = {
+  talent: [
+    { event: 'application_approved', label: 'Application approved', description: 'When a founder approves you for a campaign' },
+    { event: 'product_shipped', label: 'Product shipped', description: 'When the product for a job is on its way' },
+    { event: 'revision_requested', label: 'Changes requested', description: 'When a founder asks for changes to your review' },
+  ],
+  founder: [
+    { event: 'review_submitted', label: 'Review submitted', description: 'When a talent submits a review for you to check' },
+    { event: 'low_wallet_balance', label: 'Low wallet balance', description: 'When your wallet drops below the amount you set' },
+    { event: 'campaign_approved', label: 'Campaign approved', description: 'When an admin approves your campaign' },
+  ],
+};
+
+// Used until a founder picks their own
+export const DEFAULT_LOW_BALANCE_THRESHOLD = 100;
@@ -0,0 +1,174 @@
+import type { EmailEvent, EmailEventData, EmailLocale, EmailMessage } from './types.ts';
+
+// Subject, body and call to action of every email, in English and Malay. Each renders to an HTML
+// and a plain-text part with the same content, as some mail clients show only the text.
+
+interface RenderOptions {
+  locale: EmailLocale;
+  recipientName: string;
+  // Where the call to action links to, e.g. https://app.gambarkaca.my
+  appUrl: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  // Paragraphs, as plain text
+  body: string[];
+  action: string;
+}
+
+type Templates = { [E in EmailEvent]: (data: EmailEventData[E]) => TemplateContent };
+
+const formatAmount = (amount: number) => `RM${amount.toFixed(2)}`;
+
+const TEMPLATES: Record<EmailLocale, Templates> = {
+  en: {
+    application_approved: ({ campaignTitle }) => ({
+      subject: `You're in: ${campaignTitle}`,
+      body: [
+        `Your application to ${campaignTitle} has been approved.`,
+        'The founder will ship the product to you soon. We will let you know once it is on its way.',
+      ],
+      action: 'View my jobs',
+    }),
+    product_shipped: ({ campaignTitle, courier, trackingNumber }) => ({
+      subject: `Your product for ${campaignTitle} has shipped`,
+      body: [
+        `The founder has shipped the product for ${campaignTitle} with ${courier}.`,
+        `Tracking number: ${trackingNumber}`,
+      ],
+      action: 'Track my job',
+    }),
+    revision_requested: ({ campaignTitle }) => ({
+      subject: `Changes requested for ${campaignTitle}`,
+      body: [
+        `The founder has asked for changes to your review for ${campaignTitle}.`,
+        'Their comments are on each photo and video. Submit the updated review when it is ready.',
+      ],
+      action: 'See the comments',
+    }),
+    review_submitted: ({ campaignTitle, talentName }) => ({
+      subject: `${talentName} submitted a review for ${campaignTitle}`,
+      body: [
+        `${talentName} has submitted their review for ${campaignTitle}.`,
+        'Approve it to release the payment, or ask for changes.',
+      ],
+      action: 'Check the review',
+    }),
+    low_wallet_balance: ({ balance, threshold }) => ({
+      subject: 'Your wallet balance is running low',
+      body: [
+        `Your wallet balance is ${formatAmount(balance)}, below the ${formatAmount(threshold)} you asked us to watch for.`,
+        'Top up to keep approving talents for your campaigns.',
+      ],
+      action: 'Top up my wallet',
+    }),
+    campaign_approved: ({ campaignTitle }) => ({
+      subject: `${campaignTitle} is live`,
+      body: [
+        `Your campaign ${campaignTitle} has been approved and is now open to talents.`,
+        'We will email you as reviews come in.',
+      ],
+      action: 'View my campaigns',
+    }),
+  },
+  ms: {
+    application_approved: ({ campaignTitle }) => ({
+      subject: `Permohonan diluluskan: ${campaignTitle}`,
+      body: [
+        `Permohonan anda untuk ${campaignTitle} telah diluluskan.`,
+        'Pengasas akan menghantar produk kepada anda tidak lama lagi. Kami akan memaklumkan anda sebaik sahaja ia dihantar.',
+      ],
+      action: 'Lihat kerja saya',
+    }),
+    product_shipped: ({ campaignTitle, courier, trackingNumber }) => ({
+      subject: `Produk anda untuk ${campaignTitle} telah dihantar`,
+      body: [
+        `Pengasas telah menghantar produk untuk ${campaignTitle} melalui ${courier}.`,
+        `Nombor penjejakan: ${trackingNumber}`,
+      ],
+      action: 'Jejak kerja saya',
+    }),
+    revision_requested: ({ campaignTitle }) => ({
+      subject: `Pindaan diminta untuk ${campaignTitle}`,
+      body: [
+        `Pengasas telah meminta pindaan pada ulasan anda untuk ${campaignTitle}.`,
+        'Komen mereka ada pada setiap foto dan video. Hantar ulasan yang dikemas kini apabila sudah siap.',
+      ],
+      action: 'Lihat komen',
+    }),
+    review_submitted: ({ campaignTitle, talentName }) => ({
+      subject: `${talentName} telah menghantar ulasan untuk ${campaignTitle}`,
+      body: [
+        `${talentName} telah menghantar ulasan mereka untuk ${campaignTitle}.`,
+        'Luluskan untuk melepaskan bayaran, atau minta pindaan.',
+      ],
+      action: 'Semak ulasan',
+    }),
+    low_wallet_balance: ({ balance, threshold }) => ({
+      subject: 'Baki dompet anda semakin rendah',
+      body: [
+        `Baki dompet anda ialah ${formatAmount(balance)}, di bawah had ${formatAmount(threshold)} yang anda tetapkan.`,
+        'Tambah nilai untuk terus meluluskan bakat bagi kempen anda.',
+      ],
+      action: 'Tambah nilai dompet',
+    }),
+    campaign_approved: ({ campaignTitle }) => ({
+      subject: `${campaignTitle} kini aktif`,
+      body: [
+        `Kempen anda ${campaignTitle} telah diluluskan dan kini dibuka kepada bakat.`,
+        'Kami akan menghantar e-mel kepada anda apabila ulasan diterima.',
+      ],
+      action: 'Lihat kempen saya',
+    }),
+  },
+};
+
+const GREETINGS: Record<EmailLocale, (name: string) => string> = {
+  en: name => `Hi ${name},`,
+  ms: name => `Hai ${name},`,
+};
+
+const FOOTERS: Record<EmailLocale, string> = {
+  en: 'You are receiving this because of your email settings on GambarKaca. Change them from Profile Settings.',
+  ms: 'Anda menerima e-mel ini kerana tetapan e-mel anda di GambarKaca. Ubahnya di Tetapan Profil.',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const renderEmail = <E extends EmailEvent>(
+  event: E,
+  data: EmailEventData[E],
+  { locale, recipientName, appUrl }: RenderOptions
+): Omit<EmailMessage, 'to'> => {
+  const template = TEMPLATES[locale][event] as (data: EmailEventData[E]) => TemplateContent;
+  const { subject, body, action } = template(data);
+  const greeting = GREETINGS[locale](recipientName);
+  const footer = FOOTERS[locale];
+
+  const text = [greeting, ...body, `${action}: ${appUrl}`, '--', footer].join('\n\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="${locale}">
+<head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:32px">
+    <h1 style="margin:0 0 24px;font-size:22px;color:#2563eb">GambarKaca</h1>
+    <p style="margin:0 0 16px;font-size:15px;line-height:1.5">${escapeHtml(greeting)}</p>
+    ${body.map(paragraph => `<p style="margin:0 0 16px;font-size:15px;line-height:1.5">${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    <p style="margin:24px 0">
+      <a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:6px;font-size:15px">${escapeHtml(action)}</a>
+    </p>
+    <p style="margin:24px 0 0;font-size:12px;line-height:1.5;color:#6b7280">${escapeHtml(footer)}</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, html, text };
+};
@@ -0,0 +1,55 @@
+// Transport-neutral email types. This module has no imports so the Supabase edge functions
+// can share it with the browser.
+
+export type EmailLocale = 'en' | 'ms';
+
+export type EmailEvent =
+  | 'application_approved'
+  | 'product_shipped'
+  | 'revision_requested'
+  | 'review_submitted'
+  | 'low_wallet_balance'
+  | 'campaign_approved';
+
+// What each event's template fills in, as queued by the database triggers
+export interface EmailEventData {
+  application_approved: { campaignTitle: string };
+  product_shipped: { campaignTitle: string; courier: string; trackingNumber: string };
+  revision_requested: { campaignTitle: string };
+  review_submitted: { campaignTitle: string; talentName: string };
+  low_wallet_balance: { balance: number; threshold: number };
+  campaign_approved: { campaignTitle: string };
+}
+
+// A user's email settings; users who never changed them get every email in English
+export interface EmailPreferences {
+  locale: EmailLocale;
+  disabledEvents: EmailEvent[];
+  // Founders only: the wallet balance below which they are warned
+  lowBalanceThreshold: number;
+}
+
+export interface EmailRecipient {
+  email: string;
+  name: string;
+}
+
+export interface EmailMessage {
+  to: EmailRecipient;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Sends a rendered email. Each transport (SMTP, an HTTP API) implements this
+export interface Mailer {
+  readonly id: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export class MailerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailerError';
+  }
+}
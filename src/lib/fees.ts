@@ -0,0 +1,41 @@
+import { FeePolicy, FeeQuote, FeeRule } from '../types';
+
+// Mirrors calculate_platform_fee() in the database, which remains the source of truth
+// when an order is settled. Category overrides win over rate level overrides.
+export const resolveFeeRule = (policy: FeePolicy, category: string, rateLevel: 1 | 2 | 3): FeeRule => {
+  return policy.categoryOverrides[category] || policy.rateLevelOverrides[rateLevel] || policy.defaultRule;
+};
+
+export const calculatePlatformFee = (policy: FeePolicy, amount: number, category: string, rateLevel: 1 | 2 | 3): number => {
+  const rule = resolveFeeRule(policy, category, rateLevel);
+
+  let fee = rule.type === 'flat' ? rule.value : amount * rule.value / 100;
+
+  if (rule.cap !== undefined) {
+    fee = Math.min(fee, rule.cap);
+  }
+
+  // A fee withheld from the talent can never exceed what they are paid
+  if (policy.chargedTo === 'talent') {
+    fee = Math.min(fee, amount);
+  }
+
+  return Math.round(Math.max(fee, 0) * 100) / 100;
+};
+
+export const quotePlatformFee = (policy: FeePolicy, amount: number, category: string, rateLevel: 1 | 2 | 3): FeeQuote => {
+  const fee = calculatePlatformFee(policy, amount, category, rateLevel);
+
+  return {
+    policyVersion: policy.version,
+    fee,
+    chargedTo: policy.chargedTo,
+    founderPays: policy.chargedTo === 'founder' ? amount + fee : amount,
+    talentReceives: policy.chargedTo === 'talent' ? amount - fee : amount,
+  };
+};
+
+export const describeFeeRule = (rule: FeeRule): string => {
+  const base = rule.type === 'flat' ? `RM${rule.value.toFixed(2)} flat` : `${rule.value}%`;
+  return rule.cap !== undefined ? `${base} (max RM${rule.cap.toFixed(2)})` : base;
+};
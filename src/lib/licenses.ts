@@ -0,0 +1,89 @@
+import { ContentLicense, UsageRights, LICENSE_EXPIRY_WARNING_DAYS } from '../types';
+
+export type LicenseExpiryState = 'active' | 'expiring' | 'expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getDaysUntilExpiry = (license: ContentLicense, now = new Date()): number => {
+  return Math.ceil((license.expiresAt.getTime() - now.getTime()) / DAY_MS);
+};
+
+export const getLicenseExpiryState = (license: ContentLicense, now = new Date()): LicenseExpiryState => {
+  const days = getDaysUntilExpiry(license, now);
+  if (days <= 0) return 'expired';
+  if (days <= LICENSE_EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'active';
+};
+
+// One line per right, in the order they appear on the license document
+export const describeUsageRights = (rights: UsageRights): { label: string; value: string }[] => [
+  { label: 'Usage', value: rights.usage === 'paid_ads' ? 'Organic and paid ads' : 'Organic social only' },
+  { label: 'Duration', value: `${rights.durationMonths} months` },
+  { label: 'Territories', value: rights.territories.join(', ') },
+  { label: 'Name & likeness', value: rights.nameAndLikeness ? 'Granted' : 'Not granted' },
+  { label: 'Whitelisting / Spark Ads', value: rights.whitelisting ? 'Granted' : 'Not granted' },
+];
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-MY', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// A standalone page both parties can keep or print to PDF
+export const buildLicenseDocument = (license: ContentLicense): string => {
+  const terms = describeUsageRights(license)
+    .map(term => `<tr><th>${escapeHtml(term.label)}</th><td>${escapeHtml(term.value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Content License ${escapeHtml(license.licenseNumber)}</title>
+<style>
+  body { font-family: Arial, sans-serif; color: #111827; max-width: 720px; margin: 40px auto; line-height: 1.5; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin: 16px 0; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; }
+  th { width: 40%; color: #4b5563; font-weight: normal; }
+  .muted { color: #6b7280; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>UGC Content License</h1>
+<p class="muted">License ${escapeHtml(license.licenseNumber)} · Issued ${formatDate(license.createdAt)}</p>
+<table>
+  <tr><th>Licensor (talent)</th><td>${escapeHtml(license.talentName)}</td></tr>
+  <tr><th>Licensee (founder)</th><td>${escapeHtml(license.founderName)}</td></tr>
+  <tr><th>Campaign</th><td>${escapeHtml(license.campaignTitle)}</td></tr>
+  <tr><th>Product</th><td>${escapeHtml(license.productName)}</td></tr>
+  <tr><th>Order</th><td>${escapeHtml(license.orderId)}</td></tr>
+  <tr><th>Valid from</th><td>${formatDate(license.startsAt)}</td></tr>
+  <tr><th>Valid until</th><td>${formatDate(license.expiresAt)}</td></tr>
+</table>
+<h2>Granted rights</h2>
+<table>${terms}</table>
+<p class="muted">
+  The licensee may use the content delivered for this order only within the rights above and until the
+  expiry date. Any use beyond these terms requires a new agreement with the licensor.
+</p>
+</body>
+</html>`;
+};
+
+export const downloadLicense = (license: ContentLicense) => {
+  const blob = new Blob([buildLicenseDocument(license)], { type: 'text/html;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${license.licenseNumber}.html`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
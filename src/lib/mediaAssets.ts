@@ -0,0 +1,438 @@
+import { MediaAsset, MediaBucket, MediaVariant, MediaVariantName } from '../types';
+import { supabase } from './supabase';
+import { createMediaAsset, deleteMediaAsset, getMediaAssetsByUrl } from './api';
+import { forgetResumableUpload, uploadResumable } from './resumableUpload';
+
+// Longest side of each variant, in pixels
+const VARIANT_SIZES: Record<MediaVariantName, number> = {
+  thumbnail: 320,
+  preview: 1280,
+  poster: 1280,
+};
+
+// Watermarked preview videos are 480p, enough to judge the content but not to publish it
+const PREVIEW_VIDEO_SIZE = 854;
+const PREVIEW_VIDEO_BITRATE = 1_000_000;
+const PREVIEW_VIDEO_FPS = 30;
+
+const WEBP_QUALITY = 0.8;
+
+// The poster frame is taken this far in, or halfway through shorter videos
+const POSTER_SECONDS = 1;
+
+// Buckets whose files are only reachable through signed URLs
+const PRIVATE_BUCKETS: MediaBucket[] = ['review-submissions', 'chat-attachments'];
+const SIGNED_URL_SECONDS = 60 * 60;
+
+interface SourceFrame {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  durationSeconds?: number;
+  release: () => void;
+}
+
+const loadImageFrame = (url: string): Promise<SourceFrame> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ source: image, width: image.naturalWidth, height: image.naturalHeight, release: () => {} });
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = url;
+  });
+
+const loadVideoFrame = (url: string): Promise<SourceFrame> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      video.currentTime = Number.isFinite(video.duration) ? Math.min(POSTER_SECONDS, video.duration / 2) : 0;
+    };
+    video.onseeked = () => resolve({
+      source: video,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      durationSeconds: Number.isFinite(video.duration) ? video.duration : undefined,
+      release: () => video.removeAttribute('src'),
+    });
+    video.onerror = () => reject(new Error('Could not read the video'));
+    video.src = url;
+  });
+
+// Even dimensions, which video encoders require
+const getScaledSize = (width: number, height: number, maxSide: number) => {
+  const scale = Math.min(1, maxSide / Math.max(width, height));
+  return {
+    width: Math.max(2, Math.round((width * scale) / 2) * 2),
+    height: Math.max(2, Math.round((height * scale) / 2) * 2),
+  };
+};
+
+// Repeats the text diagonally across the frame, so cropping one corner does not remove it
+const drawWatermark = (context: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 16));
+  const spacing = fontSize * 4;
+  const diagonal = Math.hypot(width, height);
+
+  context.save();
+  context.translate(width / 2, height / 2);
+  context.rotate(-Math.PI / 6);
+  context.font = `bold ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.lineWidth = Math.max(1, fontSize / 12);
+  context.strokeStyle = 'rgba(0, 0, 0, 0.3)';
+  context.fillStyle = 'rgba(255, 255, 255, 0.45)';
+
+  for (let row = -Math.ceil(diagonal / spacing / 2); row <= Math.ceil(diagonal / spacing / 2); row++) {
+    const offset = (row % 2) * fontSize * 3;
+    context.strokeText(text, offset, row * spacing);
+    context.fillText(text, offset, row * spacing);
+  }
+
+  context.restore();
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  return { canvas, context };
+};
+
+// Browsers without WebP encoding return a PNG from toBlob, which is still far smaller than the original
+const renderVariant = (frame: SourceFrame, maxSide: number, watermark?: string): Promise<{ blob: Blob; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const { width, height } = getScaledSize(frame.width, frame.height, maxSide);
+    const { canvas, context } = createCanvas(width, height);
+
+    context.drawImage(frame.source, 0, 0, width, height);
+    if (watermark) drawWatermark(context, width, height, watermark);
+    canvas.toBlob(
+      blob => (blob ? resolve({ blob, width, height }) : reject(new Error('Could not encode the variant'))),
+      'image/webp',
+      WEBP_QUALITY
+    );
+  });
+
+// Plays the video through a canvas and records it. This takes as long as the video, and the tab
+// must stay in front, as browsers slow timers down in background tabs
+const recordPreviewVideo = (url: string, watermark: string): Promise<{ blob: Blob; width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const mimeType = typeof MediaRecorder === 'undefined'
+      ? undefined
+      : ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+      reject(new Error('This browser cannot prepare video previews. Please submit from an up to date Chrome, Firefox, Edge or Safari.'));
+      return;
+    }
+
+    const video = document.createElement('video');
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onerror = () => reject(new Error('Could not read the video'));
+
+    video.onloadedmetadata = async () => {
+      const { width, height } = getScaledSize(video.videoWidth, video.videoHeight, PREVIEW_VIDEO_SIZE);
+      const { canvas, context } = createCanvas(width, height);
+      const stream = canvas.captureStream(PREVIEW_VIDEO_FPS);
+
+      // Sound goes through Web Audio so it is recorded without playing out loud
+      const audioContext = new AudioContext();
+      const audioDestination = audioContext.createMediaStreamDestination();
+      audioContext.createMediaElementSource(video).connect(audioDestination);
+      audioDestination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+
+      const drawFrame = () => {
+        context.drawImage(video, 0, 0, width, height);
+        drawWatermark(context, width, height, watermark);
+      };
+      drawFrame();
+      const timer = window.setInterval(drawFrame, 1000 / PREVIEW_VIDEO_FPS);
+
+      const cleanUp = () => {
+        window.clearInterval(timer);
+        audioContext.close();
+        video.removeAttribute('src');
+      };
+
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: PREVIEW_VIDEO_BITRATE });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        cleanUp();
+        resolve({ blob: new Blob(chunks, { type: mimeType.split(';')[0] }), width, height });
+      };
+      video.onended = () => {
+        drawFrame();
+        recorder.stop();
+      };
+
+      recorder.start(1000);
+      try {
+        await audioContext.resume();
+        await video.play();
+      } catch {
+        // Without a recent click the browser only plays muted; the preview is then silent
+        video.muted = true;
+        await video.play().catch(error => {
+          recorder.onstop = null;
+          recorder.stop();
+          cleanUp();
+          reject(error);
+        });
+      }
+    };
+
+    video.src = url;
+  });
+
+const getPublicUrl = (bucket: MediaBucket, path: string) =>
+  supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+
+const uploadFile = async (bucket: MediaBucket, path: string, file: Blob) => {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, file, { cacheControl: '3600', contentType: file.type });
+
+  if (error) throw error;
+};
+
+// e.g. `uid/portfolio-1.mov` -> `uid/portfolio-1.thumbnail.webp`
+const getVariantPath = (path: string, name: MediaVariantName, blob: Blob) => {
+  const extension = blob.type.split('/')[1] || 'bin';
+  return `${path.replace(/\.[^./]+$/, '')}.${name}.${extension}`;
+};
+
+// Cards ask for assets one URL at a time; lookups made in the same tick go to the database together
+const assetCache = new Map<string, Promise<MediaAsset | null>>();
+let queued = new Map<string, (asset: MediaAsset | null) => void>();
+
+const flushQueued = async () => {
+  const batch = queued;
+  queued = new Map();
+
+  try {
+    const assets = await getMediaAssetsByUrl(Array.from(batch.keys()));
+    batch.forEach((resolve, url) => resolve(assets.find(asset => asset.url === url) || null));
+  } catch (error) {
+    console.error('Error loading media assets:', error);
+    batch.forEach(resolve => resolve(null));
+  }
+};
+
+export const getMediaAsset = (url: string): Promise<MediaAsset | null> => {
+  let asset = assetCache.get(url);
+  if (!asset) {
+    if (queued.size === 0) setTimeout(flushQueued, 0);
+    asset = new Promise(resolve => queued.set(url, resolve));
+    assetCache.set(url, asset);
+  }
+  return asset;
+};
+
+// After a failed upload the variants are made again on the next attempt, while the original is kept
+// so it is not uploaded twice. cancelMediaUpload removes it when the upload is given up on
+const removeVariants = async (bucket: MediaBucket, variants: MediaAsset['variants']) => {
+  const paths = Object.values(variants).map(variant => variant.path);
+  if (paths.length > 0) {
+    await supabase.storage.from(bucket).remove(paths);
+  }
+};
+
+export interface UploadMediaOptions {
+  // Drawn over every variant. The bucket's policies then hold the original back, so the variants
+  // must be made; the upload fails when they cannot be
+  watermark?: string;
+  // Fraction of the original uploaded. The variants are made once it reaches 1
+  onProgress?: (fraction: number) => void;
+  // Pauses the upload of the original with an UploadAbortedError
+  signal?: AbortSignal;
+}
+
+// Uploads a file and its thumbnail and preview (or poster frame for videos), and records them in
+// media_assets. `path` must start with the uploader's user id. Without a watermark, a file whose
+// variants cannot be made in this browser is still uploaded and recorded, and is shown at full size.
+// The original goes up in resumable chunks; calling this again with the same path after a pause or
+// failure carries on where it stopped
+export const uploadMedia = async (file: File, bucket: MediaBucket, path: string, options: UploadMediaOptions = {}): Promise<MediaAsset> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+
+  const mediaType = file.type.startsWith('video/') ? 'video' : 'image';
+  await uploadResumable(bucket, path, file, { onProgress: options.onProgress, signal: options.signal });
+
+  const objectUrl = URL.createObjectURL(file);
+  const variants: MediaAsset['variants'] = {};
+  let dimensions: { width: number; height: number; durationSeconds?: number } = { width: 0, height: 0 };
+
+  const addVariant = async (name: MediaVariantName, variant: { blob: Blob; width: number; height: number }) => {
+    const variantPath = getVariantPath(path, name, variant.blob);
+    await uploadFile(bucket, variantPath, variant.blob);
+    variants[name] = { path: variantPath, url: getPublicUrl(bucket, variantPath), width: variant.width, height: variant.height };
+  };
+
+  try {
+    const frame = mediaType === 'image' ? await loadImageFrame(objectUrl) : await loadVideoFrame(objectUrl);
+    dimensions = { width: frame.width, height: frame.height, durationSeconds: frame.durationSeconds };
+
+    const names: MediaVariantName[] = mediaType === 'image' ? ['thumbnail', 'preview'] : ['thumbnail', 'poster'];
+    for (const name of names) {
+      await addVariant(name, await renderVariant(frame, VARIANT_SIZES[name], options.watermark));
+    }
+    frame.release();
+
+    if (mediaType === 'video' && options.watermark) {
+      await addVariant('preview', await recordPreviewVideo(objectUrl, options.watermark));
+    }
+  } catch (error) {
+    console.error('Error generating media variants:', error);
+    if (options.watermark) {
+      await removeVariants(bucket, variants);
+      throw error;
+    }
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  let asset: MediaAsset;
+  try {
+    asset = await createMediaAsset({
+      ownerId: user.id,
+      bucket,
+      path,
+      url: getPublicUrl(bucket, path),
+      mediaType,
+      mimeType: file.type,
+      width: dimensions.width,
+      height: dimensions.height,
+      durationSeconds: dimensions.durationSeconds,
+      sizeBytes: file.size,
+      variants,
+      watermarked: Boolean(options.watermark),
+    });
+  } catch (error) {
+    await removeVariants(bucket, variants);
+    throw error;
+  }
+  await forgetResumableUpload(bucket, path);
+
+  assetCache.set(asset.url, Promise.resolve(asset));
+  return asset;
+};
+
+// Removes whatever an unfinished uploadMedia call left behind: the chunks stored so far, or the
+// original when its variants or record could not be saved
+export const cancelMediaUpload = async (bucket: MediaBucket, path: string) => {
+  await forgetResumableUpload(bucket, path);
+  const { error } = await supabase.storage.from(bucket).remove([path]);
+  if (error) {
+    console.error('Error removing file from storage:', error);
+  }
+};
+
+// Files uploaded before media assets have no row, so their bucket and path are read from the URL
+const parseStorageUrl = (url: string): { bucket: MediaBucket; path: string } | null => {
+  const match = new URL(url).pathname.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+  return match ? { bucket: match[1] as MediaBucket, path: decodeURIComponent(match[2]) } : null;
+};
+
+// Deletes an uploaded file with its variants
+export const removeMedia = async (bucket: MediaBucket, url: string) => {
+  const asset = await getMediaAsset(url);
+  const legacy = asset ? null : parseStorageUrl(url);
+  const paths = asset
+    ? [asset.path, ...Object.values(asset.variants).map(variant => variant.path)]
+    : legacy ? [legacy.path] : [];
+
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) {
+      console.error('Error removing file from storage:', error);
+    }
+  }
+
+  if (asset) {
+    await deleteMediaAsset(asset.id);
+  }
+  assetCache.delete(url);
+};
+
+// A larger still stands in for a missing thumbnail; undefined means the original should be used
+export const getMediaVariant = (asset: MediaAsset | null, name: MediaVariantName): MediaVariant | undefined => {
+  if (!asset) return undefined;
+  if (asset.variants[name]) return asset.variants[name];
+  if (name !== 'thumbnail') return undefined;
+  return asset.mediaType === 'image' ? asset.variants.preview : asset.variants.poster;
+};
+
+const signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+// Public files are returned as they are. Private ones get a signed URL, reused until shortly
+// before it expires; storage refuses to sign what the user may not read
+const getReadableUrl = async (bucket: MediaBucket, path: string, publicUrl: string): Promise<string> => {
+  if (!PRIVATE_BUCKETS.includes(bucket)) return publicUrl;
+
+  const key = `${bucket}/${path}`;
+  const cached = signedUrls.get(key);
+  if (cached && cached.expiresAt > Date.now() + 60 * 1000) return cached.url;
+
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  signedUrls.set(key, { url: data.signedUrl, expiresAt: Date.now() + SIGNED_URL_SECONDS * 1000 });
+  return data.signedUrl;
+};
+
+export interface MediaSource {
+  type: 'image' | 'video';
+  // The image, or the video to play. Watermarked videos play their preview
+  src: string;
+  // Still frame for videos
+  poster?: string;
+}
+
+// Works out what to load for a stored file, signing private files. `type` is used for files that
+// have no media asset
+export const resolveMediaSource = async (url: string, type: 'image' | 'video', size: 'thumbnail' | 'preview'): Promise<MediaSource> => {
+  const asset = await getMediaAsset(url);
+
+  if (!asset) {
+    const legacy = parseStorageUrl(url);
+    return { type, src: legacy ? await getReadableUrl(legacy.bucket, legacy.path, url) : url };
+  }
+
+  const readable = (variant: MediaVariant | undefined) =>
+    variant ? getReadableUrl(asset.bucket, variant.path, variant.url) : getReadableUrl(asset.bucket, asset.path, asset.url);
+
+  if (asset.mediaType === 'image') {
+    return { type: 'image', src: await readable(getMediaVariant(asset, size)) };
+  }
+
+  const poster = getMediaVariant(asset, size === 'thumbnail' ? 'thumbnail' : 'poster');
+  return {
+    type: 'video',
+    src: await readable(asset.watermarked ? asset.variants.preview : undefined),
+    poster: poster ? await readable(poster) : undefined,
+  };
+};
+
+// A short lived link that downloads the original. Storage refuses it until the founder has a grant
+export const getOriginalDownloadUrl = async (url: string): Promise<string> => {
+  const asset = await getMediaAsset(url);
+  const stored = asset ? { bucket: asset.bucket, path: asset.path } : parseStorageUrl(url);
+  if (!stored) return url;
+  if (!PRIVATE_BUCKETS.includes(stored.bucket)) return url;
+
+  const { data, error } = await supabase.storage.from(stored.bucket).createSignedUrl(stored.path, 60, { download: true });
+  if (error) {
+    console.error('Error signing original download:', error);
+    throw new Error('The original is available once the review is approved and paid.');
+  }
+  return data.signedUrl;
+};
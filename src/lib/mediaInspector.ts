@@ -0,0 +1,227 @@
+import { CampaignDeliverable, MediaCheck, MediaInspection, CONTENT_DURATIONS, ContentDuration } from '../types';
+import { acceptsMediaType } from './deliverables';
+
+type DeliverableSpec = Omit<CampaignDeliverable, 'id'>;
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 50 * 1024 * 1024;
+
+// Files within this share of the required aspect ratio still match it
+const ASPECT_RATIO_TOLERANCE = 0.03;
+
+// Videos within this share of the brief's length still match it
+const DURATION_TOLERANCE = 0.1;
+
+const DURATION_SECONDS: Record<ContentDuration, number> = {
+  '30sec': 30,
+  '1min': 60,
+  '3min': 180,
+};
+
+// Sample entry types in an MP4/MOV stsd box
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC',
+  hev1: 'HEVC',
+  av01: 'AV1',
+  vp09: 'VP9',
+  mp4v: 'MPEG-4',
+};
+
+// Codec IDs in a WebM/Matroska track entry
+const WEBM_CODECS: Record<string, string> = {
+  V_VP8: 'VP8',
+  V_VP9: 'VP9',
+  V_AV1: 'AV1',
+  'V_MPEG4/ISO/AVC': 'H.264',
+};
+
+const IMAGE_CODECS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+  'image/gif': 'GIF',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+};
+
+// Codecs every browser a founder reviews on can play or show
+const PLAYABLE_CODECS = ['H.264', 'VP8', 'VP9', 'AV1', 'JPEG', 'PNG', 'WebP', 'GIF'];
+
+// The moov box holding the codec is at the start of web-optimised files and at the end of
+// files straight off a phone, so only those two ends are read
+const SNIFF_BYTES = 512 * 1024;
+
+const readAsLatin1 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
+
+const findMp4Codec = (text: string): string | undefined => {
+  // size(4) 'stsd' version/flags(4) entry_count(4) entry size(4) then the sample entry type
+  for (let index = text.indexOf('stsd'); index !== -1; index = text.indexOf('stsd', index + 4)) {
+    const codec = MP4_CODECS[text.substr(index + 16, 4)];
+    if (codec) return codec;
+  }
+  return undefined;
+};
+
+const findWebmCodec = (text: string): string | undefined => {
+  const id = Object.keys(WEBM_CODECS).find(codecId => text.includes(codecId));
+  return id ? WEBM_CODECS[id] : undefined;
+};
+
+const detectVideoCodec = async (file: File): Promise<string | undefined> => {
+  const head = await readAsLatin1(file.slice(0, SNIFF_BYTES));
+  const tail = file.size > SNIFF_BYTES ? await readAsLatin1(file.slice(Math.max(SNIFF_BYTES, file.size - SNIFF_BYTES))) : '';
+
+  // Matroska files start with the EBML magic number
+  if (head.startsWith('\x1a\x45\xdf\xa3')) {
+    return findWebmCodec(head);
+  }
+  return findMp4Codec(head) || findMp4Codec(tail);
+};
+
+const readDimensions = (url: string, type: 'image' | 'video'): Promise<{ width: number; height: number; durationSeconds?: number }> =>
+  new Promise((resolve, reject) => {
+    if (type === 'image') {
+      const image = new Image();
+      image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => reject(new Error('Could not read the image'));
+      image.src = url;
+    } else {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () => resolve({
+        width: video.videoWidth,
+        height: video.videoHeight,
+        durationSeconds: Number.isFinite(video.duration) ? video.duration : undefined,
+      });
+      video.onerror = () => reject(new Error('Could not read the video'));
+      video.src = url;
+    }
+  });
+
+const getOrientation = (width: number, height: number): MediaInspection['orientation'] => {
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+};
+
+// Reads what the browser can tell about a file before it is uploaded. `url` is an object URL for it
+export const inspectMedia = async (file: File, url: string, type: 'image' | 'video'): Promise<MediaInspection> => {
+  const { width, height, durationSeconds } = await readDimensions(url, type);
+  const codec = type === 'image'
+    ? IMAGE_CODECS[file.type]
+    : await detectVideoCodec(file).catch(() => undefined);
+
+  return {
+    width,
+    height,
+    orientation: getOrientation(width, height),
+    durationSeconds,
+    sizeBytes: file.size,
+    mimeType: file.type,
+    codec,
+  };
+};
+
+export const formatFileSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+export const formatMediaDuration = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+// Campaigns from before deliverables only have a length and media type to check against
+export const deliverableFromCampaign = (campaign: { duration: ContentDuration; mediaType: 'image' | 'video' | 'both' }): DeliverableSpec => ({
+  kind: campaign.mediaType === 'image' ? 'photo' : campaign.mediaType === 'video' ? 'video' : 'story',
+  platform: 'Any',
+  quantity: 1,
+  duration: campaign.mediaType === 'image' ? undefined : campaign.duration,
+  requiredTags: [],
+});
+
+// Compares an inspected file with the brief. Only the checks the brief asks for are returned,
+// plus file size and codec, which apply to every upload
+export const checkMediaAgainstBrief = (inspection: MediaInspection, type: 'image' | 'video', deliverable: DeliverableSpec | null): MediaCheck[] => {
+  const checks: MediaCheck[] = [];
+  const dimensions = `${inspection.width}x${inspection.height}`;
+
+  if (deliverable) {
+    const accepted = acceptsMediaType(deliverable, type);
+    checks.push({
+      id: 'media_type',
+      label: 'Type',
+      passed: accepted,
+      detail: accepted ? (type === 'image' ? 'Photo' : 'Video') : `Expected a ${deliverable.kind === 'photo' ? 'photo' : 'video'}`,
+    });
+  }
+
+  if (type === 'video' && deliverable?.duration) {
+    const expected = DURATION_SECONDS[deliverable.duration];
+    const label = CONTENT_DURATIONS.find(d => d.value === deliverable.duration)?.label || deliverable.duration;
+    checks.push(inspection.durationSeconds === undefined ? {
+      id: 'duration',
+      label: 'Duration',
+      passed: false,
+      detail: `Could not read the length (expected ${label})`,
+    } : {
+      id: 'duration',
+      label: 'Duration',
+      passed: Math.abs(inspection.durationSeconds - expected) <= expected * DURATION_TOLERANCE,
+      detail: `${formatMediaDuration(inspection.durationSeconds)} (expected ${formatMediaDuration(expected)})`,
+    });
+  }
+
+  if (deliverable?.minResolution) {
+    checks.push({
+      id: 'resolution',
+      label: 'Resolution',
+      passed: Math.min(inspection.width, inspection.height) >= deliverable.minResolution,
+      detail: `${dimensions} (at least ${deliverable.minResolution}p)`,
+    });
+  }
+
+  if (deliverable?.aspectRatio) {
+    const [w, h] = deliverable.aspectRatio.split(':').map(Number);
+    const expectedOrientation = getOrientation(w, h);
+    checks.push({
+      id: 'orientation',
+      label: 'Orientation',
+      passed: inspection.orientation === expectedOrientation,
+      detail: `${inspection.orientation} (expected ${expectedOrientation})`,
+    });
+    checks.push({
+      id: 'aspect_ratio',
+      label: 'Aspect ratio',
+      passed: Math.abs(inspection.width / inspection.height - w / h) / (w / h) <= ASPECT_RATIO_TOLERANCE,
+      detail: `${dimensions} (expected ${deliverable.aspectRatio})`,
+    });
+  }
+
+  const maxBytes = type === 'image' ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+  checks.push({
+    id: 'file_size',
+    label: 'File size',
+    passed: inspection.sizeBytes <= maxBytes,
+    detail: `${formatFileSize(inspection.sizeBytes)} (max ${formatFileSize(maxBytes)})`,
+  });
+
+  if (inspection.codec) {
+    const playable = PLAYABLE_CODECS.includes(inspection.codec);
+    checks.push({
+      id: 'codec',
+      label: 'Codec',
+      passed: playable,
+      detail: playable ? inspection.codec : `${inspection.codec} may not play in every browser`,
+    });
+  }
+
+  return checks;
+};
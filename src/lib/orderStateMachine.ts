@@ -0,0 +1,176 @@
+import { Order, OrderStatus, OrderStatusChange, ReviewMedia, ReviewMediaFeedback, User } from '../types';
+import { requestReviewRevision, settleOrderPayment, submitReviewSubmission, updateOrderStatus } from './api';
+
+// Mirrors enforce_order_status_transition() in the database, which rejects anything that gets
+// past these guards. Side effects run here; the trigger only checks their result.
+
+export interface OrderTransitionData {
+  ship: { address: string; trackingNumber: string; courier: string };
+  mark_delivered: undefined;
+  submit_review: { media: ReviewMedia[]; notes?: string };
+  request_revision: { feedback: ReviewMediaFeedback[]; summary: string };
+  approve_review: undefined;
+}
+
+export type OrderTransitionEvent = keyof OrderTransitionData;
+
+type OrderActor = Pick<User, 'id'>;
+
+interface OrderTransition<E extends OrderTransitionEvent> {
+  from: OrderStatus;
+  to: OrderStatus;
+  label: string;
+  // Timeline title once it has happened
+  doneLabel: string;
+  // Who may trigger it, relative to the order
+  actors: ('founder' | 'talent')[];
+  // Returns why the data is not enough to make the transition, if it is not
+  validate?: (data: OrderTransitionData[E]) => string | null;
+  effect: (order: Order, data: OrderTransitionData[E]) => Promise<void>;
+}
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+export const ORDER_TRANSITIONS: { [E in OrderTransitionEvent]: OrderTransition<E> } = {
+  ship: {
+    from: 'pending_shipment',
+    to: 'shipped',
+    label: 'Ship product',
+    doneLabel: 'Product Shipped',
+    actors: ['founder'],
+    validate: data =>
+      !data.address.trim() || !data.courier.trim() || !data.trackingNumber.trim()
+        ? 'Delivery address, courier and tracking number are required'
+        : null,
+    effect: async (order, data) => {
+      await updateOrderStatus(order.id, 'shipped', {
+        delivery_address: data.address,
+        tracking_number: data.trackingNumber,
+        courier: data.courier,
+      });
+    },
+  },
+  mark_delivered: {
+    from: 'shipped',
+    to: 'delivered',
+    label: 'Mark as delivered',
+    doneLabel: 'Product Delivered',
+    actors: ['founder', 'talent'],
+    effect: async order => {
+      await updateOrderStatus(order.id, 'delivered');
+    },
+  },
+  submit_review: {
+    from: 'delivered',
+    to: 'review_submitted',
+    label: 'Submit review',
+    doneLabel: 'Review Submitted',
+    actors: ['talent'],
+    validate: data => (data.media.length === 0 ? 'At least one photo or video is required' : null),
+    // Recorded as the next version of the order's review submissions
+    effect: async (order, data) => {
+      await submitReviewSubmission(order.id, data.media, data.notes);
+    },
+  },
+  request_revision: {
+    from: 'review_submitted',
+    to: 'delivered',
+    label: 'Request revision',
+    doneLabel: 'Revision Requested',
+    actors: ['founder'],
+    validate: data => (!data.summary.trim() ? 'Please explain what needs to change' : null),
+    // The submission is archived with the feedback, and the talent uploads the next version.
+    // The database refuses once the campaign's revision rounds are used up
+    effect: async (order, data) => {
+      await requestReviewRevision(order.id, data.feedback, data.summary);
+    },
+  },
+  approve_review: {
+    from: 'review_submitted',
+    to: 'completed',
+    label: 'Approve review',
+    doneLabel: 'Review Approved',
+    actors: ['founder'],
+    // Releases escrow, charges the platform fee and records the earning with the status change
+    effect: async order => {
+      await settleOrderPayment(order.id);
+    },
+  },
+};
+
+const getActorRole = (order: Order, actor: OrderActor): 'founder' | 'talent' | null => {
+  if (actor.id === order.founderId) return 'founder';
+  if (actor.id === order.talentId) return 'talent';
+  return null;
+};
+
+// Returns why the actor cannot trigger the event on this order, or null when they can
+export const getTransitionBlocker = (order: Order, event: OrderTransitionEvent, actor: OrderActor): string | null => {
+  const transition = ORDER_TRANSITIONS[event];
+
+  if (order.status !== transition.from) {
+    return `Cannot ${transition.label.toLowerCase()} while the order is ${order.status.replace('_', ' ')}`;
+  }
+
+  const role = getActorRole(order, actor);
+  if (!role || !transition.actors.includes(role)) {
+    return `Only the ${transition.actors.join(' or ')} can ${transition.label.toLowerCase()}`;
+  }
+
+  return null;
+};
+
+export const canTransition = (order: Order, event: OrderTransitionEvent, actor: OrderActor): boolean =>
+  getTransitionBlocker(order, event, actor) === null;
+
+// Events leaving the given status, whoever may trigger them
+export const getNextTransitions = (status: OrderStatus): OrderTransitionEvent[] =>
+  (Object.keys(ORDER_TRANSITIONS) as OrderTransitionEvent[]).filter(event => ORDER_TRANSITIONS[event].from === status);
+
+// What the order is waiting on in each status, for the next step on the timeline
+export const ORDER_WAITING_LABELS: Record<OrderStatus, string | null> = {
+  pending_shipment: 'Waiting for the founder to ship the product',
+  shipped: 'Product is in transit',
+  delivered: 'Waiting for the talent to submit review content',
+  review_submitted: 'Waiting for the founder to approve the review',
+  completed: null,
+  refunded: null,
+};
+
+export const describeStatusChange = (change: Pick<OrderStatusChange, 'fromStatus' | 'toStatus'>): string => {
+  if (!change.fromStatus) return 'Order Created';
+  // Only a dispute resolution refunds an order, or completes one without an approved review
+  if (change.toStatus === 'refunded') return 'Refunded After Dispute';
+  if (change.toStatus === 'completed' && change.fromStatus !== 'review_submitted') return 'Settled After Dispute';
+
+  const event = getNextTransitions(change.fromStatus).find(e => ORDER_TRANSITIONS[e].to === change.toStatus);
+  return event ? ORDER_TRANSITIONS[event].doneLabel : `Moved to ${change.toStatus.replace('_', ' ')}`;
+};
+
+export const transitionOrder = async <E extends OrderTransitionEvent>(
+  order: Order,
+  event: E,
+  actor: OrderActor,
+  ...[data]: OrderTransitionData[E] extends undefined ? [] : [OrderTransitionData[E]]
+): Promise<OrderStatus> => {
+  const blocker = getTransitionBlocker(order, event, actor);
+  if (blocker) {
+    throw new OrderTransitionError(blocker);
+  }
+
+  const transition = ORDER_TRANSITIONS[event] as OrderTransition<E>;
+  const payload = data as OrderTransitionData[E];
+
+  const invalid = transition.validate?.(payload);
+  if (invalid) {
+    throw new OrderTransitionError(invalid);
+  }
+
+  await transition.effect(order, payload);
+  return transition.to;
+};
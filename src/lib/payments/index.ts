@@ -0,0 +1,35 @@
+import { PaymentProvider } from './types';
+import { createMockPaymentProvider } from './mockProvider';
+
+export * from './types';
+export { MOCK_CARD_TOKENS, MOCK_DECLINED_BANK_CODE, MOCK_ACTION_URL_PREFIX } from './mockProvider';
+
+let provider: PaymentProvider | null = null;
+
+// The provider is chosen by VITE_PAYMENT_PROVIDER. Only the mock ships today; a real gateway
+// plugs in here with its own PaymentProvider implementation and publishable key.
+export const getPaymentProvider = (): PaymentProvider => {
+  if (provider) return provider;
+
+  const providerId = import.meta.env.VITE_PAYMENT_PROVIDER || 'mock';
+
+  switch (providerId) {
+    case 'mock': {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+      // The mock signs its own callbacks, so its secret is only ever a local development value
+      provider = createMockPaymentProvider({
+        webhookSecret: import.meta.env.VITE_MOCK_PAYMENT_WEBHOOK_SECRET || 'mock_webhook_secret',
+        webhookUrl: `${supabaseUrl}/functions/v1/payment-webhook?provider=mock`,
+        webhookHeaders: {
+          apikey: anonKey,
+          Authorization: `Bearer ${anonKey}`,
+        },
+      });
+      return provider;
+    }
+    default:
+      throw new Error(`Unsupported payment provider: ${providerId}`);
+  }
+};
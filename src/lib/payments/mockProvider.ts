@@ -0,0 +1,217 @@
+import type {
+  ConfirmPaymentIntentParams,
+  CreatePaymentIntentParams,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  ProviderPaymentIntent,
+} from './types.ts';
+import { PaymentWebhookVerificationError } from './types.ts';
+
+// Test tokens standing in for what a provider's hosted card fields would return
+export const MOCK_CARD_TOKENS = {
+  success: 'tok_mock_success',
+  decline: 'tok_mock_decline',
+  threeDSecure: 'tok_mock_3ds',
+} as const;
+
+// Any FPX bank or e-wallet redirects; these codes decline before the redirect
+export const MOCK_DECLINED_BANK_CODE = 'MOCK_DECLINE';
+
+// Next actions from the mock point here instead of a real bank page; the UI simulates the page
+export const MOCK_ACTION_URL_PREFIX = 'mock-payments://action/';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+interface MockPaymentProviderOptions {
+  webhookSecret: string;
+  // Where signed callbacks are POSTed; without it no callbacks are sent
+  webhookUrl?: string;
+  webhookHeaders?: Record<string, string>;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hmacSha256 = async (secret: string, payload: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+// A deterministic in-memory provider: the outcome depends only on the token, bank code or
+// simulated return parameters, and ids are derived from our reference.
+export const createMockPaymentProvider = (options: MockPaymentProviderOptions): PaymentProvider => {
+  const intents = new Map<string, ProviderPaymentIntent>();
+
+  const getIntent = (intentId: string) => {
+    const intent = intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Unknown payment intent ${intentId}`);
+    }
+    return intent;
+  };
+
+  const emit = async (type: PaymentWebhookEventType, intent: ProviderPaymentIntent) => {
+    if (!options.webhookUrl) return;
+
+    const event: PaymentWebhookEvent = {
+      id: `mock_evt_${intent.id}_${type.split('.')[1]}`,
+      type,
+      intent,
+      createdAt: new Date().toISOString(),
+    };
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await hmacSha256(options.webhookSecret, `${timestamp}.${body}`);
+
+    const response = await fetch(options.webhookUrl, {
+      method: 'POST',
+      headers: {
+        ...options.webhookHeaders,
+        'Content-Type': 'application/json',
+        [MOCK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+      },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mock webhook delivery failed with status ${response.status}`);
+    }
+  };
+
+  const settle = async (
+    intent: ProviderPaymentIntent,
+    status: 'succeeded' | 'failed' | 'requires_action',
+    failureReason?: string
+  ) => {
+    const updated: ProviderPaymentIntent = {
+      ...intent,
+      status,
+      failureReason,
+      nextAction: status === 'requires_action'
+        ? { type: 'redirect', url: `${MOCK_ACTION_URL_PREFIX}${intent.id}` }
+        : undefined,
+    };
+    intents.set(intent.id, updated);
+
+    const eventType: PaymentWebhookEventType =
+      status === 'succeeded' ? 'payment_intent.succeeded' :
+      status === 'failed' ? 'payment_intent.failed' :
+      'payment_intent.requires_action';
+    await emit(eventType, updated);
+
+    return updated;
+  };
+
+  return {
+    id: 'mock',
+    supportedMethods: ['card', 'fpx', 'ewallet'],
+
+    async createIntent(params: CreatePaymentIntentParams) {
+      const intent: ProviderPaymentIntent = {
+        id: `mock_pi_${params.reference}`,
+        reference: params.reference,
+        amount: params.amount,
+        currency: params.currency,
+        method: params.method,
+        status: 'requires_confirmation',
+      };
+      intents.set(intent.id, intent);
+      return intent;
+    },
+
+    async confirmIntent(intentId: string, params: ConfirmPaymentIntentParams) {
+      const intent = getIntent(intentId);
+
+      // Returning from a (simulated) 3DS page, bank login or wallet approval
+      if (intent.status === 'requires_action') {
+        return params.returnParams?.mock_result === 'approved'
+          ? settle(intent, 'succeeded')
+          : settle(intent, 'failed', 'Authentication was not completed');
+      }
+
+      if (intent.status !== 'requires_confirmation') {
+        return intent;
+      }
+
+      if (intent.method === 'card') {
+        switch (params.paymentToken) {
+          case MOCK_CARD_TOKENS.success:      return settle(intent, 'succeeded');
+          case MOCK_CARD_TOKENS.threeDSecure: return settle(intent, 'requires_action');
+          case MOCK_CARD_TOKENS.decline:      return settle(intent, 'failed', 'Your card was declined');
+          default:                            return settle(intent, 'failed', 'Invalid payment token');
+        }
+      }
+
+      const code = intent.method === 'fpx' ? params.bankCode : params.walletCode;
+      if (!code) {
+        return settle(intent, 'failed', intent.method === 'fpx' ? 'No bank selected' : 'No e-wallet selected');
+      }
+      if (code === MOCK_DECLINED_BANK_CODE) {
+        return settle(intent, 'failed', 'The bank is currently unavailable');
+      }
+      return settle(intent, 'requires_action');
+    },
+
+    async verifyWebhook(rawBody: string, headers: Headers) {
+      const header = headers.get(MOCK_SIGNATURE_HEADER);
+      const parts = Object.fromEntries((header || '').split(',').map(part => part.split('=', 2)));
+      const timestamp = Number(parts.t);
+
+      if (!parts.v1 || !timestamp) {
+        throw new PaymentWebhookVerificationError('Missing webhook signature');
+      }
+
+      if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+        throw new PaymentWebhookVerificationError('Webhook signature has expired');
+      }
+
+      const expected = await hmacSha256(options.webhookSecret, `${timestamp}.${rawBody}`);
+      if (!timingSafeEqual(expected, parts.v1)) {
+        throw new PaymentWebhookVerificationError('Invalid webhook signature');
+      }
+
+      return JSON.parse(rawBody) as PaymentWebhookEvent;
+    },
+
+    async refund(intentId: string, amount?: number): Promise<PaymentRefund> {
+      const intent = getIntent(intentId);
+      if (intent.status !== 'succeeded') {
+        throw new Error('Only succeeded payments can be refunded');
+      }
+      if (amount !== undefined && amount !== intent.amount) {
+        throw new Error('The mock provider only supports full refunds');
+      }
+
+      const refunded: ProviderPaymentIntent = { ...intent, status: 'refunded' };
+      intents.set(intentId, refunded);
+      await emit('payment_intent.refunded', refunded);
+
+      return {
+        id: `mock_re_${intentId}`,
+        intentId,
+        amount: intent.amount,
+        status: 'succeeded',
+      };
+    },
+  };
+};
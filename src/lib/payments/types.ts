@@ -0,0 +1,87 @@
+// Provider-neutral payment types. This module has no imports so the Supabase edge functions
+// can share it with the browser.
+
+export type PaymentMethodType = 'card' | 'fpx' | 'ewallet';
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'refunded';
+
+// Something the payer has to do before the payment can finish: a 3DS challenge, an FPX bank
+// login or an e-wallet app approval. Providers hand back a page to send the payer to.
+export interface PaymentNextAction {
+  type: 'redirect';
+  url: string;
+}
+
+export interface CreatePaymentIntentParams {
+  // Our own payment_intents.id, echoed back in webhooks so the callback can be matched
+  reference: string;
+  amount: number;
+  currency: 'MYR';
+  method: PaymentMethodType;
+  description: string;
+  returnUrl?: string;
+}
+
+// Card details are collected by the provider's hosted fields and arrive here only as a token;
+// FPX and e-wallet payments pick a bank or wallet and then redirect.
+export interface ConfirmPaymentIntentParams {
+  paymentToken?: string;
+  bankCode?: string;
+  walletCode?: string;
+  // Query parameters the provider appended to returnUrl after a next action was completed
+  returnParams?: Record<string, string>;
+}
+
+export interface ProviderPaymentIntent {
+  id: string;
+  reference: string;
+  amount: number;
+  currency: 'MYR';
+  method: PaymentMethodType;
+  status: PaymentIntentStatus;
+  nextAction?: PaymentNextAction;
+  failureReason?: string;
+}
+
+export type PaymentWebhookEventType =
+  | 'payment_intent.requires_action'
+  | 'payment_intent.succeeded'
+  | 'payment_intent.failed'
+  | 'payment_intent.refunded';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intent: ProviderPaymentIntent;
+  createdAt: string;
+}
+
+export interface PaymentRefund {
+  id: string;
+  intentId: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export interface PaymentProvider {
+  readonly id: string;
+  readonly supportedMethods: PaymentMethodType[];
+  createIntent(params: CreatePaymentIntentParams): Promise<ProviderPaymentIntent>;
+  confirmIntent(intentId: string, params: ConfirmPaymentIntentParams): Promise<ProviderPaymentIntent>;
+  // Server side only: checks the provider's signature and parses the callback body
+  verifyWebhook(rawBody: string, headers: Headers): Promise<PaymentWebhookEvent>;
+  refund(intentId: string, amount?: number): Promise<PaymentRefund>;
+}
+
+export class PaymentWebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaymentWebhookVerificationError';
+  }
+}
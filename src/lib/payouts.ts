@@ -0,0 +1,52 @@
+import { PayoutBatch, WithdrawalRequest } from '../types';
+
+const BULK_PAYMENT_HEADERS = [
+  'Beneficiary Name',
+  'Beneficiary Bank Code',
+  'Beneficiary Bank Name',
+  'Beneficiary Account Number',
+  'Amount (MYR)',
+  'Payment Reference',
+  'Payment Description',
+];
+
+// Bank references are limited to 20 characters. Row references are the batch reference without
+// its hyphen plus the row number, e.g. PB20250712ABCDEF-999, which leaves room for 999 rows.
+// create_payout_batch refuses larger batches too
+export const MAX_PAYOUT_BATCH_SIZE = 999;
+
+export const escapeCsvValue = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Spreadsheets run cells that start with these as formulas, so they are quoted as text instead
+const neutraliseFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+// One row per withdrawal in the layout most Malaysian bank bulk-payment uploads accept
+export const buildPayoutBatchCsv = (batch: PayoutBatch, withdrawals: WithdrawalRequest[]): string => {
+  const rows = withdrawals.map((withdrawal, index) => [
+    withdrawal.accountHolderName,
+    withdrawal.bankCode,
+    withdrawal.bankName,
+    withdrawal.accountNumber,
+    withdrawal.amount.toFixed(2),
+    `${batch.reference.replace('-', '')}-${index + 1}`,
+    'GambarKaca Earnings Withdrawal',
+  ]);
+
+  return [BULK_PAYMENT_HEADERS, ...rows]
+    .map(row => row.map(value => escapeCsvValue(neutraliseFormula(value))).join(','))
+    .join('\r\n');
+};
+
+export const downloadCsv = (filename: string, csv: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,117 @@
+import { Message, MessageThread } from '../types';
+import { getMessageThreads, markMessagesRead, MESSAGE_THREAD_PAGE_SIZE } from './api';
+import { getQuerySnapshot, invalidateQueries, QueryKey, setQueryData } from './queryCache';
+
+// The cache keys of the app's shared data. Each user's data is cached under the same keys, since
+// the cache is cleared when the user changes. Paged lists sit under the key of what they list, e.g.
+// [...queryKeys.founders, 'page', filters], so they are refetched along with it
+export const queryKeys = {
+  campaigns: ['campaigns'],
+  orders: ['orders'],
+  transactions: ['transactions'],
+  accountBalances: ['accountBalances'],
+  earnings: ['earnings'],
+  founders: ['founders'],
+  talents: ['talents'],
+  withdrawals: ['withdrawals'],
+  feePolicy: ['feePolicy'],
+  payments: ['payments'],
+  threads: ['threads'],
+  messages: (orderId: string) => ['messages', orderId],
+} as const;
+
+// The keys under `key` for the given kinds of query, e.g. its pages and stats
+const scoped = (key: QueryKey, ...kinds: string[]) => kinds.map(kind => [...key, kind]);
+
+// The queries built from each table, refetched when realtime reports a change to it. Messages
+// arrive whole and are merged instead. None of them load a whole table
+const TABLE_QUERIES: Record<string, QueryKey[]> = {
+  campaigns: [queryKeys.campaigns, [...queryKeys.payments, 'monthly']],
+  campaign_applications: [queryKeys.campaigns],
+  orders: [queryKeys.orders],
+  // Postings also move the balances kept on profiles, which are not live themselves: founders'
+  // wallets and talents' lifetime earnings. Only the founder and talent queries that show them or
+  // sum them are refetched, not e.g. the newest talents on the admin dashboard
+  ledger_postings: [
+    ...scoped(queryKeys.transactions, 'page', 'latest', 'stats'),
+    queryKeys.accountBalances,
+    ...scoped(queryKeys.payments, 'page', 'stats', 'monthly'),
+    [...queryKeys.earnings, 'stats'],
+    ...scoped(queryKeys.founders, 'page', 'detail', 'stats', 'activity'),
+    ...scoped(queryKeys.talents, 'page', 'detail', 'byId', 'stats'),
+  ],
+  earnings: [queryKeys.earnings],
+  withdrawal_requests: [queryKeys.withdrawals],
+  platform_settings: [queryKeys.feePolicy],
+};
+
+export const LIVE_TABLES = Object.keys(TABLE_QUERIES);
+
+export const invalidateTable = (table: string) => invalidateQueries(...(TABLE_QUERIES[table] || []));
+
+// Adds messages to a chat, leaving out any it already has. Pages of earlier messages go before
+// the ones cached, new messages after
+export const addChatMessages = (orderId: string, messages: Message[], position: 'before' | 'after' = 'after') => {
+  setQueryData<Message[]>(queryKeys.messages(orderId), (current = []) => {
+    const added = messages.filter(message => !current.some(cached => cached.id === message.id));
+    if (!added.length) return current;
+    return position === 'before' ? [...added, ...current] : [...current, ...added];
+  });
+};
+
+// A message that arrived over realtime: added to its chat, and its conversation moved to the top
+// of the inbox. Returns false when the inbox has no conversation for it yet
+export const receiveMessage = (message: Message, userId: string) => {
+  addChatMessages(message.jobId, [message]);
+
+  const threads = getQuerySnapshot<MessageThread[]>(queryKeys.threads).data;
+  const thread = threads?.find(item => item.orderId === message.jobId);
+  if (!threads || !thread) return false;
+
+  setQueryData<MessageThread[]>(queryKeys.threads, () => [
+    {
+      ...thread,
+      lastMessage: {
+        content: message.content,
+        senderId: message.senderId,
+        attachmentCount: message.attachments.length,
+        timestamp: message.timestamp,
+      },
+      unreadCount: thread.unreadCount + (message.senderId === userId ? 0 : 1),
+    },
+    ...threads.filter(item => item !== thread),
+  ]);
+  return true;
+};
+
+// A message changed over realtime, e.g. read by the other party
+export const replaceMessage = (message: Message) => {
+  setQueryData<Message[]>(queryKeys.messages(message.jobId), (current = []) =>
+    current.map(cached => (cached.id === message.id ? message : cached))
+  );
+};
+
+export const markThreadRead = async (orderId: string, userId: string) => {
+  await markMessagesRead(orderId);
+
+  const readAt = new Date();
+  setQueryData<Message[]>(queryKeys.messages(orderId), (current = []) =>
+    current.map(message =>
+      message.senderId !== userId && !message.read ? { ...message, read: true, readAt } : message
+    )
+  );
+  setQueryData<MessageThread[]>(queryKeys.threads, (current = []) =>
+    current.map(thread => (thread.orderId === orderId ? { ...thread, unreadCount: 0 } : thread))
+  );
+};
+
+// Adds the next page of conversations to the inbox; resolves to whether there are more after it
+export const loadMoreThreads = async () => {
+  const loaded = getQuerySnapshot<MessageThread[]>(queryKeys.threads).data || [];
+  const page = await getMessageThreads(undefined, loaded.length);
+  setQueryData<MessageThread[]>(queryKeys.threads, (current = []) => [
+    ...current,
+    ...page.filter(thread => !current.some(item => item.orderId === thread.orderId)),
+  ]);
+  return page.length === MESSAGE_THREAD_PAGE_SIZE;
+};
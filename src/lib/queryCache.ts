@@ -0,0 +1,259 @@
+// A normalized cache for server data. Queries are keyed by arrays such as ['orders'] or
+// ['messages', orderId]. A query that returns records of one entity stores their ids, and the
+// records themselves live once in that entity's table, so a record changed by a mutation or a
+// refetch changes in every list that shows it. Cached data is served straight away and refetched
+// in the background once stale (stale-while-revalidate). Invalidating a key prefix refetches every
+// query under it that is on screen and marks the rest stale for when they are next shown.
+
+export type QueryKey = readonly unknown[];
+
+export type EntityName =
+  | 'campaign'
+  | 'order'
+  | 'transaction'
+  | 'earning'
+  | 'founder'
+  | 'talent'
+  | 'withdrawal'
+  | 'payment';
+
+type Entity = { id: string };
+
+export interface QuerySnapshot<T> {
+  data: T | undefined;
+  error: unknown;
+  fetching: boolean;
+}
+
+export interface QueryOptions {
+  // Set for queries that return a list of this entity's records
+  entity?: EntityName;
+  // How long data counts as fresh once fetched; stale data is refetched when it is next shown
+  staleTime?: number;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  entity?: EntityName;
+  ids?: string[];
+  value?: unknown;
+  hasData: boolean;
+  error: unknown;
+  fetching: boolean;
+  stale: boolean;
+  // Set when the query is invalidated while a fetch is in flight, whose data may predate the change
+  invalidated: boolean;
+  updatedAt: number;
+  fetcher?: () => Promise<unknown>;
+  // Components showing the query; only observed queries are refetched on invalidation
+  observers: number;
+  promise?: Promise<void>;
+  snapshot: QuerySnapshot<unknown>;
+}
+
+const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+const queries = new Map<string, QueryEntry>();
+const entities = new Map<EntityName, Map<string, Entity>>();
+const listeners = new Set<() => void>();
+// Bumped when the cache is cleared, so requests sent before then are ignored when they resolve
+let generation = 0;
+
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+const matchesPrefix = (prefix: QueryKey, key: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, index) => hashKey([part]) === hashKey([key[index]]));
+
+const getTable = (entity: EntityName) => {
+  let table = entities.get(entity);
+  if (!table) {
+    table = new Map();
+    entities.set(entity, table);
+  }
+  return table;
+};
+
+const readData = (entry: QueryEntry): unknown => {
+  if (!entry.hasData) return undefined;
+  if (!entry.entity || !entry.ids) return entry.value;
+  const table = getTable(entry.entity);
+  return entry.ids.map(id => table.get(id)).filter(Boolean);
+};
+
+const sameData = (a: unknown, b: unknown) =>
+  a === b ||
+  (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => item === b[index]));
+
+// Snapshots only change when what they hold does, so components showing other data do not re-render
+const notify = () => {
+  queries.forEach(entry => {
+    const data = readData(entry);
+    const { snapshot } = entry;
+    if (sameData(snapshot.data, data) && snapshot.error === entry.error && snapshot.fetching === entry.fetching) return;
+    entry.snapshot = { data, error: entry.error, fetching: entry.fetching };
+  });
+  listeners.forEach(listener => listener());
+};
+
+const getEntry = (key: QueryKey) => {
+  const hash = hashKey(key);
+  let entry = queries.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      hasData: false,
+      error: null,
+      fetching: false,
+      stale: true,
+      invalidated: false,
+      updatedAt: 0,
+      observers: 0,
+      snapshot: { data: undefined, error: null, fetching: false },
+    };
+    queries.set(hash, entry);
+  }
+  return entry;
+};
+
+const writeData = (entry: QueryEntry, data: unknown) => {
+  if (entry.entity && Array.isArray(data)) {
+    const table = getTable(entry.entity);
+    (data as Entity[]).forEach(record => table.set(record.id, record));
+    entry.ids = (data as Entity[]).map(record => record.id);
+  } else {
+    entry.value = data;
+  }
+  entry.hasData = true;
+};
+
+const fetchEntry = (entry: QueryEntry): Promise<void> | undefined => {
+  if (entry.promise || !entry.fetcher) return entry.promise;
+
+  const sentIn = generation;
+  entry.fetching = true;
+  entry.invalidated = false;
+  entry.promise = entry.fetcher()
+    .then(data => {
+      if (sentIn !== generation) return;
+      writeData(entry, data);
+      entry.error = null;
+      entry.stale = entry.invalidated;
+      entry.updatedAt = Date.now();
+    })
+    .catch(error => {
+      // Whatever was cached stays on screen
+      console.error('Error fetching query:', entry.key, error);
+      if (sentIn === generation) entry.error = error;
+    })
+    .finally(() => {
+      if (sentIn !== generation) return;
+      entry.fetching = false;
+      entry.promise = undefined;
+      notify();
+      // Invalidated while in flight: fetched again, and whoever waits on this fetch waits for that one
+      if (entry.invalidated && entry.observers > 0) return fetchEntry(entry);
+    });
+  notify();
+  return entry.promise;
+};
+
+// Returns a function that stops listening
+export const subscribeToQueries = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getQuerySnapshot = <T>(key: QueryKey) => getEntry(key).snapshot as QuerySnapshot<T>;
+
+// Shows a query on screen: fetches it unless it is cached and fresh. Returns a function that
+// stops observing it
+export const observeQuery = (key: QueryKey, fetcher: () => Promise<unknown>, options: QueryOptions = {}) => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+  entry.entity = options.entity;
+  entry.observers += 1;
+
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME_MS;
+  if (!entry.hasData || entry.stale || Date.now() - entry.updatedAt > staleTime) {
+    fetchEntry(entry);
+  }
+
+  return () => {
+    entry.observers -= 1;
+  };
+};
+
+// Refetches the queries under each prefix that are on screen, and marks the others stale. A query
+// already fetching is fetched again once that fetch is done. Resolves once the refetches have finished
+export const invalidateQueries = (...prefixes: QueryKey[]) => {
+  const refetches: Promise<void>[] = [];
+  queries.forEach(entry => {
+    if (!prefixes.some(prefix => matchesPrefix(prefix, entry.key))) return;
+    entry.stale = true;
+    if (entry.promise) entry.invalidated = true;
+    const refetch = entry.observers > 0 ? fetchEntry(entry) : undefined;
+    if (refetch) refetches.push(refetch);
+  });
+  return Promise.all(refetches).then(() => undefined);
+};
+
+// Changes a query's data in place, e.g. adding a message that arrived over realtime. Lists of
+// records go through the entity table, so the records change in every list that holds them
+export const setQueryData = <T>(key: QueryKey, update: (data: T | undefined) => T, entity?: EntityName) => {
+  const entry = getEntry(key);
+  if (entity) entry.entity = entity;
+  writeData(entry, update(readData(entry) as T | undefined));
+  notify();
+};
+
+// Changes one record wherever it is shown. Returns a function that puts it back, for rolling an
+// optimistic change back when the request fails
+export const updateEntity = <T extends Entity>(entity: EntityName, id: string, update: (record: T) => T) => {
+  const table = getTable(entity);
+  const previous = table.get(id) as T | undefined;
+  if (!previous) return () => {};
+
+  table.set(id, update(previous));
+  notify();
+  return () => {
+    table.set(id, previous);
+    notify();
+  };
+};
+
+// Runs a request that changes server data. `optimistic` changes the cache straight away and
+// returns how to undo that, which happens if the request fails. The queries under `invalidates`
+// are refetched either way, so the cache ends up as the server has it
+export const runMutation = async <T>(
+  request: () => Promise<T>,
+  { optimistic, invalidates = [] }: { optimistic?: () => () => void; invalidates?: QueryKey[] } = {}
+): Promise<T> => {
+  const rollback = optimistic?.();
+  try {
+    return await request();
+  } catch (error) {
+    rollback?.();
+    throw error;
+  } finally {
+    invalidateQueries(...invalidates);
+  }
+};
+
+// Forgets everything, e.g. when the user signs out so the next user never sees their data
+export const clearQueryCache = () => {
+  generation += 1;
+  queries.forEach(entry => {
+    entry.hasData = false;
+    entry.ids = undefined;
+    entry.value = undefined;
+    entry.error = null;
+    entry.stale = true;
+    entry.invalidated = false;
+    entry.fetching = false;
+    entry.promise = undefined;
+  });
+  entities.clear();
+  notify();
+};
@@ -0,0 +1,224 @@
+import { MediaBucket } from '../types';
+import { supabase } from './supabase';
+
+// Supabase Storage's TUS endpoint only accepts chunks of exactly this size, bar the last one
+const CHUNK_BYTES = 6 * 1024 * 1024;
+
+// Waits before each retry of a failed request. The count starts over after every chunk that
+// gets through, so a long upload on a flaky connection is not given up on
+const RETRY_DELAYS_MS = [1000, 3000, 5000, 10000, 20000];
+
+const TUS_VERSION = '1.0.0';
+
+const endpoint = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super('Upload paused');
+    this.name = 'UploadAbortedError';
+  }
+}
+
+// The server's answer, or a network failure that is worth retrying
+class UploadRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UploadRequestError';
+  }
+}
+
+interface ResumableUploadOptions {
+  // Fraction of the file stored so far, between 0 and 1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Where each upload of this session lives on the server, by bucket and path, so a paused or
+// failed upload carries on from the last stored chunk instead of starting over
+const uploads = new Map<string, { url: string; complete: boolean }>();
+
+const getUploadKey = (bucket: MediaBucket, path: string) => `${bucket}/${path}`;
+
+const getHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('User not authenticated');
+
+  return {
+    authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    'tus-resumable': TUS_VERSION,
+  };
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(String.fromCharCode(...new TextEncoder().encode(value)))}`)
+    .join(',');
+
+const isRetryable = (error: unknown) =>
+  error instanceof UploadRequestError && (error.status === 0 || error.status === 423 || error.status >= 500);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new UploadAbortedError());
+
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    };
+    const abort = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      reject(new UploadAbortedError());
+    };
+    // Offline phones retry as soon as the connection is back rather than after the full delay
+    const timer = setTimeout(done, ms);
+    if (!navigator.onLine) window.addEventListener('online', done, { once: true });
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+
+const request = async (method: string, url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method, headers: { ...(await getHeaders()), ...headers }, signal });
+  } catch (error) {
+    if (signal?.aborted) throw new UploadAbortedError();
+    throw new UploadRequestError(error instanceof Error ? error.message : 'Network error', 0);
+  }
+  if (!response.ok) {
+    throw new UploadRequestError((await response.text()) || `Upload failed with status ${response.status}`, response.status);
+  }
+  return response;
+};
+
+const createUpload = async (bucket: MediaBucket, path: string, file: Blob, signal?: AbortSignal): Promise<string> => {
+  const response = await request('POST', endpoint, {
+    'upload-length': String(file.size),
+    'upload-metadata': encodeMetadata({
+      bucketName: bucket,
+      objectName: path,
+      contentType: file.type,
+      cacheControl: '3600',
+    }),
+  }, signal);
+
+  const location = response.headers.get('location');
+  if (!location) throw new Error('The storage server did not return an upload URL');
+  return new URL(location, endpoint).toString();
+};
+
+// Returns how much of the file the server has, or null when the upload has expired
+const getOffset = async (url: string, signal?: AbortSignal): Promise<number | null> => {
+  try {
+    const response = await request('HEAD', url, {}, signal);
+    return Number(response.headers.get('upload-offset'));
+  } catch (error) {
+    if (error instanceof UploadRequestError && [403, 404, 410].includes(error.status)) return null;
+    throw error;
+  }
+};
+
+// XHR rather than fetch, which cannot report how much of a request body has been sent
+const sendChunk = async (url: string, chunk: Blob, offset: number, onSent: (bytes: number) => void, signal?: AbortSignal): Promise<number> => {
+  const headers = await getHeaders();
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PATCH', url);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.setRequestHeader('upload-offset', String(offset));
+    xhr.setRequestHeader('content-type', 'application/offset+octet-stream');
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    xhr.upload.onprogress = event => onSent(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(Number(xhr.getResponseHeader('upload-offset')));
+      } else {
+        reject(new UploadRequestError(xhr.responseText || `Upload failed with status ${xhr.status}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new UploadRequestError('Network error', 0));
+    };
+    xhr.onabort = () => reject(new UploadAbortedError());
+
+    xhr.send(chunk);
+  });
+};
+
+// Uploads a file in chunks over TUS, retrying failed chunks with backoff. Aborting the signal
+// pauses the upload with an UploadAbortedError; calling this again for the same bucket and path
+// resumes it. A file that was already fully uploaded returns straight away
+export const uploadResumable = async (bucket: MediaBucket, path: string, file: Blob, options: ResumableUploadOptions = {}) => {
+  const { onProgress, signal } = options;
+  const key = getUploadKey(bucket, path);
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      if (signal?.aborted) throw new UploadAbortedError();
+      const existing = uploads.get(key);
+      if (existing?.complete) {
+        onProgress?.(1);
+        return;
+      }
+
+      let offset = existing ? await getOffset(existing.url, signal) : null;
+      let url = existing?.url;
+      if (!url || offset === null) {
+        url = await createUpload(bucket, path, file, signal);
+        uploads.set(key, { url, complete: false });
+        offset = 0;
+      }
+
+      while (offset < file.size) {
+        const start: number = offset;
+        onProgress?.(start / file.size);
+        offset = await sendChunk(
+          url,
+          file.slice(start, start + CHUNK_BYTES),
+          start,
+          sent => onProgress?.(Math.min(start + sent, file.size) / file.size),
+          signal,
+        );
+        attempt = 0;
+      }
+
+      uploads.set(key, { url, complete: true });
+      onProgress?.(1);
+      return;
+    } catch (error) {
+      // 409: the server holds a different offset than the chunk was sent at, e.g. after a chunk
+      // whose response was lost. The loop reads the offset again with HEAD and carries on from it
+      if (error instanceof UploadRequestError && error.status === 409 && attempt < RETRY_DELAYS_MS.length) {
+        attempt++;
+        continue;
+      }
+      if (error instanceof UploadAbortedError || !isRetryable(error) || attempt >= RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+      console.warn(`Upload of ${path} failed, retrying:`, error);
+      await wait(RETRY_DELAYS_MS[attempt], signal);
+      attempt++;
+    }
+  }
+};
+
+// Drops what this session knows about an upload. Unfinished uploads are also deleted on the
+// server, so the stored chunks do not linger until they expire
+export const forgetResumableUpload = async (bucket: MediaBucket, path: string) => {
+  const key = getUploadKey(bucket, path);
+  const upload = uploads.get(key);
+  uploads.delete(key);
+
+  if (upload && !upload.complete) {
+    await request('DELETE', upload.url, {}).catch(error => console.error('Error cancelling upload:', error));
+  }
+};
@@ -0,0 +1,70 @@
+// A small router over the History API: the path is the source of truth for which page, and which
+// modal on it, is open. Pages read their params from the route App matched and navigate() to
+// open or close things, so links, refresh and the back button all work.
+
+type LocationListener = () => void;
+
+const listeners = new Set<LocationListener>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+window.addEventListener('popstate', notify);
+
+export const getLocation = () => window.location.pathname + window.location.search;
+
+export const navigate = (to: string, { replace = false }: { replace?: boolean } = {}) => {
+  if (to === getLocation()) return;
+  window.history[replace ? 'replaceState' : 'pushState'](null, '', to);
+  notify();
+};
+
+// Returns a function that stops listening
+export const subscribeToLocation = (listener: LocationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export type RouteParams = Record<string, string>;
+
+// Matches patterns such as `/orders/:id` against a path, returning the params or null. A param
+// that is not valid percent-encoding, e.g. `/orders/%E0`, does not match, so the 404 page shows
+export const matchPath = (pattern: string, pathname: string): RouteParams | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: RouteParams = {};
+  for (const [index, part] of patternParts.entries()) {
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(pathParts[index]);
+      } catch {
+        return null;
+      }
+    } else if (part !== pathParts[index]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// The same path with a query parameter set, or removed when `value` is null
+export const withSearchParam = (location: string, key: string, value: string | null) => {
+  const url = new URL(location, window.location.origin);
+  if (value === null) {
+    url.searchParams.delete(key);
+  } else {
+    url.searchParams.set(key, value);
+  }
+  return url.pathname + url.search;
+};
+
+// Where a notification's link opens. Campaign notifications are about applicants, and
+// withdrawals are listed on the earnings page rather than opened one by one
+export const getNotificationPath = ({ page, id }: { page: string; id?: string }) => {
+  if (!id || page === 'earnings') return `/${page}`;
+  if (page === 'campaigns') return `/campaigns/${id}/applicants`;
+  return `/${page}/${id}`;
+};
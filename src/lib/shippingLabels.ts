@@ -0,0 +1,169 @@
+import { OrderShippingAddress } from '../types';
+
+export interface ShippingLabel {
+  orderId: string;
+  campaignTitle: string;
+  productName: string;
+  to: OrderShippingAddress;
+  from: {
+    name: string;
+    company?: string;
+    phone?: string;
+    address?: string;
+  };
+}
+
+// A6 portrait in points, the size most thermal label printers and couriers take
+const PAGE_WIDTH = 297.64;
+const PAGE_HEIGHT = 419.53;
+const MARGIN = 14;
+
+type FontName = 'regular' | 'bold';
+
+// A minimal PDF writer: text in the standard Helvetica fonts and straight lines, which is all a
+// label needs. The standard fonts only cover WinAnsi, so anything outside Latin-1 prints as '?'
+const createPdfPage = () => {
+  const ops: string[] = [];
+
+  return {
+    text(value: string, x: number, y: number, size: number, font: FontName = 'regular') {
+      const escaped = toLatin1(value).replace(/[\\()]/g, match => `\\${match}`);
+      ops.push(`BT /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escaped}) Tj ET`);
+    },
+    line(x1: number, y1: number, x2: number, y2: number, width = 0.8) {
+      ops.push(`${width} w ${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`);
+    },
+    rect(x: number, y: number, w: number, h: number, width = 1.2) {
+      ops.push(`${width} w ${x.toFixed(2)} ${y.toFixed(2)} ${w.toFixed(2)} ${h.toFixed(2)} re S`);
+    },
+    get content() {
+      return ops.join('\n');
+    },
+  };
+};
+
+type PdfPage = ReturnType<typeof createPdfPage>;
+
+const toLatin1 = (value: string) => value.replace(/[^\x20-\xff]/g, '?');
+
+const buildPdf = (pages: PdfPage[]): Uint8Array => {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index];
+    const content = page.content;
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Helvetica averages about half an em per character, close enough to wrap on
+const wrapText = (value: string, size: number, width: number): string[] => {
+  const maxChars = Math.max(1, Math.floor(width / (size * 0.52)));
+  const lines: string[] = [];
+
+  value.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const next = line ? `${line} ${word}` : word;
+      if (next.length > maxChars && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    });
+    if (line) lines.push(line);
+  });
+
+  return lines;
+};
+
+const drawLabel = (label: ShippingLabel): PdfPage => {
+  const page = createPdfPage();
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = PAGE_HEIGHT - MARGIN - 18;
+
+  const write = (value: string, size: number, font: FontName = 'regular', gap = 1.3) => {
+    wrapText(value, size, contentWidth - 8).forEach(line => {
+      page.text(line, MARGIN + 6, y, size, font);
+      y -= size * gap;
+    });
+  };
+
+  const divider = () => {
+    y += 4;
+    page.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y -= 16;
+  };
+
+  page.rect(MARGIN, MARGIN, contentWidth, PAGE_HEIGHT - MARGIN * 2);
+
+  write('SHIP TO', 9, 'bold');
+  y -= 4;
+  write(label.to.recipientName, 16, 'bold');
+  write(label.to.phone, 11);
+  y -= 4;
+  write(label.to.line1, 12);
+  if (label.to.line2) write(label.to.line2, 12);
+  write(`${label.to.postcode} ${label.to.city}`, 14, 'bold');
+  write(label.to.state.toUpperCase(), 12);
+  y -= 6;
+  divider();
+
+  write('FROM', 9, 'bold');
+  write(label.from.company ? `${label.from.company} (${label.from.name})` : label.from.name, 10, 'bold');
+  if (label.from.phone) write(label.from.phone, 9);
+  if (label.from.address) write(label.from.address, 9);
+  y -= 4;
+  divider();
+
+  write('ORDER', 9, 'bold');
+  write(`${label.campaignTitle} - ${label.productName}`, 9);
+  page.text(`Ref ${label.orderId}`, MARGIN + 6, MARGIN + 10, 7);
+
+  return page;
+};
+
+export const buildShippingLabelsPdf = (labels: ShippingLabel[]): Blob =>
+  new Blob([buildPdf(labels.map(drawLabel))], { type: 'application/pdf' });
+
+export const downloadShippingLabels = (filename: string, labels: ShippingLabel[]) => {
+  const url = URL.createObjectURL(buildShippingLabelsPdf(labels));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,36 @@
+// Short messages shown in the corner of the screen, in place of alert(). Anything can raise one;
+// the Toaster mounted at the root of the app shows them.
+
+export type ToastKind = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: number;
+  kind: ToastKind;
+  message: string;
+  // Runs when the toast is clicked, e.g. to open what a notification is about
+  onClick?: () => void;
+}
+
+type ToastListener = (toast: Toast) => void;
+
+const listeners = new Set<ToastListener>();
+let nextId = 1;
+
+const show = (kind: ToastKind, message: string, onClick?: () => void) => {
+  const toast = { id: nextId++, kind, message, onClick };
+  listeners.forEach(listener => listener(toast));
+};
+
+export const toast = {
+  success: (message: string, onClick?: () => void) => show('success', message, onClick),
+  error: (message: string, onClick?: () => void) => show('error', message, onClick),
+  info: (message: string, onClick?: () => void) => show('info', message, onClick),
+};
+
+// Returns a function that stops listening
+export const onToast = (listener: ToastListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -28,6 +28,37 @@ export interface Talent extends User {
   totalEarnings: number;
 }
 
+// License terms the founder buys with the content, priced by calculateUsageRightsSurcharges
+export interface UsageRights {
+  usage: 'organic' | 'paid_ads';
+  durationMonths: number;
+  territories: string[];
+  nameAndLikeness: boolean;
+  // Whitelisting / Spark Ads: the founder may run ads through the talent's own account
+  whitelisting: boolean;
+}
+
+export type ContentDuration = '30sec' | '1min' | '3min';
+
+export type DeliverableKind = 'video' | 'photo' | 'story';
+
+// One piece of content each approved talent must deliver, `quantity` times over
+export interface CampaignDeliverable {
+  id: string;
+  kind: DeliverableKind;
+  platform: string;
+  quantity: number;
+  // Videos only
+  duration?: ContentDuration;
+  aspectRatio?: string;
+  // Pixels on the shorter side, e.g. 1080
+  minResolution?: number;
+  // Hashtags and @mentions the post must include
+  requiredTags: string[];
+  dos?: string;
+  donts?: string;
+}
+
 export interface Campaign {
   id: string;
   founderId: string;
@@ -35,7 +66,8 @@ export interface Campaign {
   description: string;
   productName: string;
   category: string;
-  duration: '30sec' | '1min' | '3min';
+  // Summaries of `deliverables`, kept for campaigns listed before deliverables existed
+  duration: ContentDuration;
   productImages: string[];
   rateLevel: 1 | 2 | 3;
   mediaType: 'image' | 'video' | 'both';
@@ -46,6 +78,9 @@ export interface Campaign {
   approvedTalents: string[];
   createdAt: Date;
   deadline?: Date;
+  maxRevisionRounds: number;
+  usageRights: UsageRights;
+  deliverables: CampaignDeliverable[];
 }
 
 export interface Job {
@@ -69,6 +104,8 @@ export interface Job {
   courier?: string;
 }
 
+export type OrderStatus = 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed' | 'refunded';
+
 export interface Order {
   id: string;
   campaignId: string;
@@ -77,7 +114,7 @@ export interface Order {
   talentName: string;
   campaignTitle: string;
   productName: string;
-  status: 'pending_shipment' | 'shipped' | 'delivered' | 'review_submitted' | 'completed';
+  status: OrderStatus;
   payout: number;
   updatedAt?: Date;
   createdAt: Date;
@@ -87,25 +124,308 @@ export interface Order {
     courier?: string;
   };
   reviewSubmission?: {
-    media: { url: string; type: 'image' | 'video' }[];
+    media: ReviewMedia[];
     submittedAt: Date;
   };
   trackingNumber?: string;
   courier?: string;
+  // Latest status from the courier's tracking, for couriers we track automatically
+  trackingStatus?: ShipmentTrackingStatus;
+  trackingCheckedAt?: Date;
+  feePolicyVersion?: number;
+  // The campaign's category and rate level, for quoting its fee. Set on the orders of paged lists
+  campaignCategory?: string;
+  campaignRateLevel?: 1 | 2 | 3;
+}
+
+// One row of an order's timeline; fromStatus is empty for the row recording the order's creation
+export interface OrderStatusChange {
+  id: string;
+  orderId: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  changedBy?: string;
+  changedByName?: string;
+  note?: string;
+  createdAt: Date;
+}
+
+export type ShipmentTrackingStatus =
+  | 'info_received'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'failed_attempt'
+  | 'returned'
+  | 'exception';
+
+// A courier tracking event, normalized from whatever the courier reported
+export interface ShipmentTrackingEvent {
+  id: string;
+  orderId: string;
+  courier: string;
+  trackingNumber: string;
+  status: ShipmentTrackingStatus;
+  description: string;
+  location?: string;
+  occurredAt: Date;
+}
+
+export type DisputeReason = 'product_not_received' | 'review_rejected_unfairly' | 'content_not_as_agreed' | 'no_response' | 'other';
+
+export type DisputeResolution = 'refund_founder' | 'release_talent' | 'split';
+
+// An order disagreement escalated to the admins; the order's escrow is frozen while it is open
+export interface OrderDispute {
+  id: string;
+  orderId: string;
+  openedBy: string;
+  openedByName?: string;
+  reason: DisputeReason;
+  description: string;
+  status: 'open' | 'resolved';
+  resolution?: DisputeResolution;
+  talentAmount?: number;
+  founderAmount?: number;
+  resolutionNote?: string;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+export const DISPUTE_REASONS: Record<DisputeReason, string> = {
+  product_not_received: 'Product never arrived',
+  review_rejected_unfairly: 'Review rejected without a fair reason',
+  content_not_as_agreed: 'Content not as agreed',
+  no_response: 'Other party is not responding',
+  other: 'Something else',
+};
+
+export interface ReviewMediaFeedback {
+  mediaIndex: number;
+  comment: string;
+}
+
+// What the browser could read from a file before it was uploaded
+export interface MediaInspection {
+  width: number;
+  height: number;
+  orientation: 'portrait' | 'landscape' | 'square';
+  // Videos only
+  durationSeconds?: number;
+  sizeBytes: number;
+  mimeType: string;
+  // e.g. H.264 or JPEG, when it could be detected
+  codec?: string;
+}
+
+export type MediaCheckId = 'media_type' | 'duration' | 'resolution' | 'aspect_ratio' | 'orientation' | 'file_size' | 'codec';
+
+// One comparison of an uploaded file against the campaign brief
+export interface MediaCheck {
+  id: MediaCheckId;
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface ReviewMedia {
+  url: string;
+  type: 'image' | 'video';
+  // The campaign deliverable the file was uploaded for
+  deliverableId?: string;
+  // Recorded by the talent's browser when the file was submitted
+  inspection?: MediaInspection;
+  checks?: MediaCheck[];
+}
+
+// Storage buckets that go through the shared uploader
+export type MediaBucket = 'campaign-media' | 'portfolio' | 'review-submissions' | 'chat-attachments';
+
+// Smaller copies rendered in place of the original. Images get a preview image; videos get a poster
+// frame, and a preview video when they are watermarked
+export type MediaVariantName = 'thumbnail' | 'preview' | 'poster';
+
+export interface MediaVariant {
+  path: string;
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface MediaAsset {
+  id: string;
+  ownerId: string;
+  bucket: MediaBucket;
+  path: string;
+  url: string;
+  mediaType: 'image' | 'video';
+  mimeType: string;
+  width: number;
+  height: number;
+  durationSeconds?: number;
+  sizeBytes: number;
+  variants: Partial<Record<MediaVariantName, MediaVariant>>;
+  // Review uploads: the variants carry a watermark and the original is held back until payment
+  watermarked: boolean;
+  createdAt: Date;
+}
+
+// When a founder got access to an order's original review files
+export interface ReviewMediaGrant {
+  orderId: string;
+  founderId: string;
+  talentId: string;
+  grantedAt: Date;
+}
+
+// One version of the talent's review content for an order
+export interface ReviewSubmission {
+  id: string;
+  orderId: string;
+  version: number;
+  media: ReviewMedia[];
+  notes?: string;
+  status: 'pending' | 'approved' | 'revision_requested';
+  feedback: ReviewMediaFeedback[];
+  feedbackSummary?: string;
+  submittedAt: Date;
+  reviewedAt?: Date;
+}
+
+// Fractions of the image's width and height, so a region lines up at any display size
+export interface ReviewAnnotationRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A founder comment pinned to a video timestamp or an image region of one submission version
+export interface ReviewAnnotation {
+  id: string;
+  orderId: string;
+  submissionVersion: number;
+  mediaUrl: string;
+  kind: 'timestamp' | 'region';
+  timestampSeconds?: number;
+  region?: ReviewAnnotationRegion;
+  comment: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Issued when the founder approves an order's review, from the terms agreed when it was created
+export interface ContentLicense extends UsageRights {
+  id: string;
+  licenseNumber: string;
+  orderId: string;
+  campaignId: string;
+  campaignTitle: string;
+  productName: string;
+  founderId: string;
+  founderName: string;
+  talentId: string;
+  talentName: string;
+  startsAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface MessageAttachment {
+  url: string;
+  path: string;
+  name: string;
+  // 'file' for documents, which are downloaded rather than previewed
+  type: 'image' | 'video' | 'file';
+  mimeType: string;
+  sizeBytes: number;
 }
 
 export interface Message {
   id: string;
   jobId: string;
   senderId: string;
+  // Empty for messages that only carry attachments
   content: string;
+  attachments: MessageAttachment[];
   timestamp: Date;
   read: boolean;
+  readAt?: Date;
+}
+
+// An order's conversation as listed in the inbox
+export interface MessageThread {
+  orderId: string;
+  campaignTitle: string;
+  counterpartId: string;
+  counterpartName: string;
+  counterpartAvatar?: string;
+  lastMessage: {
+    content: string;
+    senderId: string;
+    attachmentCount: number;
+    timestamp: Date;
+  };
+  // The other party's messages the current user has not read
+  unreadCount: number;
+}
+
+// Someone with an order's chat open, as shared over Realtime presence
+export interface ChatParticipant {
+  userId: string;
+  name: string;
+}
+
+export type NotificationType =
+  | 'application_received'
+  | 'application_rejected'
+  | 'order_created'
+  | 'order_status'
+  | 'message'
+  | 'withdrawal_status';
+
+// Named so it does not shadow the browser's Notification
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  // The page it opens, and the order, campaign or withdrawal there that it is about
+  link: {
+    page: string;
+    id?: string;
+  };
+  createdAt: Date;
+  readAt?: Date;
 }
 
+export type LedgerAccountType =
+  | 'founder_wallet'
+  | 'escrow'
+  | 'talent_payable'
+  | 'talent_withdrawal_pending'
+  | 'platform_revenue'
+  | 'payment_clearing';
+
+export type JournalEntryKind =
+  | 'opening_balance'
+  | 'wallet_top_up'
+  | 'escrow_hold'
+  | 'escrow_release'
+  | 'escrow_refund'
+  | 'platform_fee'
+  | 'talent_payout'
+  | 'withdrawal_request'
+  | 'withdrawal_reversal'
+  | 'wallet_top_up_refund';
+
+// One leg of a ledger journal entry, as seen from the account it was posted to
 export interface Transaction {
   id: string;
-  userId: string;
+  entryId: string;
+  userId?: string; // Undefined for platform accounts
+  account: LedgerAccountType;
+  kind: JournalEntryKind;
   type: 'credit' | 'debit';
   amount: number;
   description: string;
@@ -113,6 +433,26 @@ export interface Transaction {
   createdAt: Date;
 }
 
+export interface AccountBalances {
+  founderWallet: number;
+  escrow: number;
+  talentPayable: number;
+  withdrawalPending: number;
+}
+
+// A wallet top-up attempt with the payment provider; the wallet is only credited once the
+// provider's verified callback marks it succeeded
+export interface TopUpIntent {
+  id: string;
+  provider: string;
+  providerIntentId?: string;
+  method: 'card' | 'fpx' | 'ewallet';
+  amount: number;
+  status: 'requires_confirmation' | 'requires_action' | 'processing' | 'succeeded' | 'failed' | 'refunded';
+  failureReason?: string;
+  createdAt: Date;
+}
+
 export interface Earning {
   id: string;
   talentId: string;
@@ -120,31 +460,454 @@ export interface Earning {
   campaignTitle: string;
   amount: number;
   status: 'pending' | 'paid' | 'cancelled';
+  payoutStatus: EarningPayoutStatus;
   earnedAt: Date;
   paidAt?: Date;
 }
 
-// Updated pricing configuration with your exact prices
+// Where a settled earning's money is: still in the talent's balance, requested, or paid out
+export type EarningPayoutStatus = 'available' | 'withdrawal_pending' | 'withdrawn';
+
+export interface BankAccount {
+  talentId: string;
+  bankCode: string;
+  bankName: string;
+  accountNumber: string;
+  accountHolderName: string;
+  updatedAt?: Date;
+}
+
+export interface WithdrawalRequest {
+  id: string;
+  talentId: string;
+  talentName?: string;
+  amount: number;
+  status: 'pending' | 'approved' | 'rejected' | 'paid';
+  bankCode: string;
+  bankName: string;
+  accountNumber: string;
+  accountHolderName: string;
+  batchId?: string;
+  adminNote?: string;
+  reviewedAt?: Date;
+  paidAt?: Date;
+  createdAt: Date;
+}
+
+export interface PayoutBatch {
+  id: string;
+  reference: string;
+  status: 'pending' | 'exported' | 'paid';
+  totalAmount: number;
+  createdAt: Date;
+  exportedAt?: Date;
+  paidAt?: Date;
+}
+
+// States and federal territories, as written on Malaysian addresses
+export const MALAYSIAN_STATES = [
+  'Johor',
+  'Kedah',
+  'Kelantan',
+  'Melaka',
+  'Negeri Sembilan',
+  'Pahang',
+  'Perak',
+  'Perlis',
+  'Pulau Pinang',
+  'Sabah',
+  'Sarawak',
+  'Selangor',
+  'Terengganu',
+  'Wilayah Persekutuan Kuala Lumpur',
+  'Wilayah Persekutuan Labuan',
+  'Wilayah Persekutuan Putrajaya',
+] as const;
+
+export type MalaysianState = typeof MALAYSIAN_STATES[number];
+
+// An entry in a talent's address book; only the talent can read it
+export interface ShippingAddress {
+  id: string;
+  label: string;
+  recipientName: string;
+  phone: string;
+  line1: string;
+  line2?: string;
+  postcode: string;
+  city: string;
+  state: MalaysianState;
+  isDefault: boolean;
+}
+
+// The address copied onto an order at approval. The founder can read it until the order closes
+export interface OrderShippingAddress extends Omit<ShippingAddress, 'id' | 'label' | 'isDefault'> {
+  orderId: string;
+}
+
+export const MIN_WITHDRAWAL_AMOUNT = 20;
+
+// Banks supported for payouts; `code` is the SWIFT/BIC used in bulk payment files
+export const MALAYSIAN_BANKS = [
+  { code: 'MBBEMYKL', name: 'Maybank' },
+  { code: 'CIBBMYKL', name: 'CIMB Bank' },
+  { code: 'PBBEMYKL', name: 'Public Bank' },
+  { code: 'RHBBMYKL', name: 'RHB Bank' },
+  { code: 'HLBBMYKL', name: 'Hong Leong Bank' },
+  { code: 'ARBKMYKL', name: 'AmBank' },
+  { code: 'BIMBMYKL', name: 'Bank Islam' },
+  { code: 'BKRMMYKL', name: 'Bank Rakyat' },
+  { code: 'BSNAMYK1', name: 'Bank Simpanan Nasional' },
+  { code: 'PHBMMYKL', name: 'Affin Bank' },
+  { code: 'MFBBMYKL', name: 'Alliance Bank' },
+  { code: 'BMMBMYKL', name: 'Bank Muamalat' },
+  { code: 'AGOBMYKL', name: 'Agrobank' },
+  { code: 'OCBCMYKL', name: 'OCBC Bank' },
+  { code: 'UOVBMYKL', name: 'UOB Malaysia' },
+  { code: 'HBMBMYKL', name: 'HSBC Bank Malaysia' },
+  { code: 'SCBLMYKX', name: 'Standard Chartered Malaysia' },
+];
+
+export const MALAYSIAN_EWALLETS = [
+  { code: 'TNG', name: "Touch 'n Go eWallet" },
+  { code: 'GRABPAY', name: 'GrabPay' },
+  { code: 'BOOST', name: 'Boost' },
+  { code: 'SHOPEEPAY', name: 'ShopeePay' },
+];
+
+export type FeeType = 'percentage' | 'flat';
+
+// A fee rule: `value` is a percent of the payout for percentage fees, or RM for flat fees
+export interface FeeRule {
+  type: FeeType;
+  value: number;
+  cap?: number;
+}
+
+export interface FeePolicy {
+  id: string;
+  version: number;
+  defaultRule: FeeRule;
+  chargedTo: 'founder' | 'talent';
+  categoryOverrides: Record<string, FeeRule>;
+  rateLevelOverrides: Partial<Record<1 | 2 | 3, FeeRule>>;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface FeeQuote {
+  policyVersion: number;
+  fee: number;
+  chargedTo: 'founder' | 'talent';
+  founderPays: number;
+  talentReceives: number;
+}
+
+// A money movement as the admin's payments list shows it, from the payment_history view
+export type PaymentType = 'talent_payment' | 'admin_fee' | 'wallet_topup' | 'campaign_payout' | 'talent_withdrawal';
+
+export interface Payment {
+  id: string;
+  type: PaymentType;
+  orderId: string | null;
+  campaignTitle: string;
+  talentName?: string;
+  founderName?: string;
+  amount: number;
+  status: 'completed' | 'pending' | 'failed';
+  createdAt: Date;
+}
+
+// One request for a page of a list. `cursor` is the `nextCursor` of the page before, and the
+// filters and sort must stay the same while paging
+export interface ListQuery<Filters, SortField extends string> {
+  filters?: Filters;
+  sort?: { field: SortField; ascending?: boolean };
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  // Everything matching the filters, not just this page
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface CampaignListFilters {
+  search?: string;
+  status?: Campaign['status'];
+  category?: string;
+  rateLevel?: number;
+  maxRateLevel?: number;
+  founderId?: string;
+  // Leaves out campaigns this talent has applied to or been approved for
+  notAppliedBy?: string;
+  // Only campaigns this talent's application is still pending for
+  pendingApplicationBy?: string;
+}
+
+export type CampaignSortField = 'createdAt' | 'price' | 'title';
+
+export interface ProfileListFilters {
+  search?: string;
+  status?: User['status'];
+  rateLevel?: number;
+}
+
+export type ProfileSortField = 'createdAt' | 'name';
+
+export interface PaymentListFilters {
+  search?: string;
+  type?: PaymentType;
+  status?: Payment['status'];
+}
+
+export type PaymentSortField = 'createdAt' | 'amount';
+
+export interface OrderListFilters {
+  search?: string;
+  // One status, or any of several
+  status?: OrderStatus | OrderStatus[];
+  founderId?: string;
+  talentId?: string;
+}
+
+export type OrderSortField = 'createdAt' | 'payout';
+
+export interface TransactionListFilters {
+  search?: string;
+  userId?: string;
+  account?: LedgerAccountType;
+  type?: Transaction['type'];
+}
+
+export type TransactionSortField = 'createdAt' | 'amount';
+
+export interface EarningListFilters {
+  search?: string;
+  talentId?: string;
+  status?: Earning['status'];
+  payoutStatus?: EarningPayoutStatus;
+  // An ISO timestamp; leaves out what was earned before it
+  earnedSince?: string;
+}
+
+export type EarningSortField = 'earnedAt' | 'amount';
+
+// Totals for the stat cards above the paged lists, counted on the server over every row the user
+// can read rather than the pages loaded
+export interface CampaignStats {
+  total: number;
+  active: number;
+  paused: number;
+  drafts: number;
+  // Pending applications across the campaigns counted
+  applicants: number;
+  totalBudget: number;
+  totalPrice: number;
+}
+
+export interface ProfileStats {
+  total: number;
+  joinedThisMonth: number;
+  active: number;
+  pending: number;
+  withCompany: number;
+  walletTotal: number;
+  earningsTotal: number;
+}
+
+export interface FounderActivity {
+  founderId: string;
+  campaignCount: number;
+  // Everything debited from the founder's wallet
+  totalSpent: number;
+}
+
+export interface PaymentTypeStats {
+  count: number;
+  total: number;
+  thisMonth: number;
+}
+
+export type PaymentStats = Record<PaymentType, PaymentTypeStats>;
+
+// The signed in talent's earnings
+export interface EarningStats {
+  // Everything credited to their payable balance, less withdrawals returned to it
+  lifetime: number;
+  paidCount: number;
+  paidTotal: number;
+  pendingTotal: number;
+  thisMonth: number;
+}
+
+// The signed in founder's wallet
+export interface WalletStats {
+  credits: number;
+  creditTotal: number;
+  debits: number;
+  debitTotal: number;
+  thisMonthDebits: number;
+}
+
+// Platform fees, talent payments and campaigns created in one month, e.g. '2025-08'
+export interface MonthlyActivity {
+  month: string;
+  revenue: number;
+  talentPayments: number;
+  campaigns: number;
+}
+
+// Bounds for campaigns.max_revision_rounds
+export const DEFAULT_REVISION_ROUNDS = 2;
+export const MAX_REVISION_ROUNDS = 5;
+
+export const USAGE_RIGHTS_DURATIONS = [3, 6, 12, 24];
+
+export const USAGE_TERRITORIES = [
+  'Malaysia',
+  'Singapore',
+  'Indonesia',
+  'Thailand',
+  'Philippines',
+  'Vietnam',
+  'Worldwide',
+];
+
+// Matches the column default on campaigns.usage_rights
+export const DEFAULT_USAGE_RIGHTS: UsageRights = {
+  usage: 'organic',
+  durationMonths: 3,
+  territories: ['Malaysia'],
+  nameAndLikeness: false,
+  whitelisting: false,
+};
+
+// Licenses expiring within this many days are flagged to both parties
+export const LICENSE_EXPIRY_WARNING_DAYS = 30;
+
+export const CAMPAIGN_CATEGORIES = [
+  'Technology',
+  'Fashion & Beauty',
+  'Food & Beverage',
+  'Health & Fitness',
+  'Travel & Lifestyle',
+  'Gaming',
+  'Education',
+  'Home & Garden',
+  'Sports',
+  'Entertainment',
+  'Business & Finance',
+  'Automotive',
+  'Other'
+];
+
+export const DELIVERABLE_KINDS: { value: DeliverableKind; label: string }[] = [
+  { value: 'video', label: 'Video' },
+  { value: 'photo', label: 'Photo' },
+  { value: 'story', label: 'Story' },
+];
+
+export const CONTENT_DURATIONS: { value: ContentDuration; label: string }[] = [
+  { value: '30sec', label: '30 Seconds' },
+  { value: '1min', label: '1 Minute' },
+  { value: '3min', label: '3 Minutes' },
+];
+
+export const DELIVERABLE_PLATFORMS = ['Any', 'TikTok', 'Instagram', 'Facebook', 'YouTube', 'Xiaohongshu'];
+
+export const ASPECT_RATIOS = ['9:16', '4:5', '1:1', '16:9'];
+
+export const MIN_RESOLUTIONS = [720, 1080, 2160];
+
+export const MAX_DELIVERABLE_QUANTITY = 10;
+
+export const DEFAULT_DELIVERABLE: Omit<CampaignDeliverable, 'id'> = {
+  kind: 'video',
+  platform: 'TikTok',
+  quantity: 1,
+  duration: '30sec',
+  aspectRatio: '9:16',
+  requiredTags: [],
+};
+
+// Price of a single piece of content, by rate level. Videos are priced by length
 export const PRICING_CONFIG = {
   rateLevel: {
     1: { // 1 Star Level
       '30sec': 65,
       '1min': 70,
       '3min': 125,
+      photo: 25,
+      story: 30,
     },
     2: { // 2 Star Level
       '30sec': 97.50,
       '1min': 105,
       '3min': 187.50,
+      photo: 37.50,
+      story: 45,
     },
     3: { // 3 Star Level
       '30sec': 130,
       '1min': 140,
       '3min': 250,
+      photo: 50,
+      story: 60,
     },
   },
 };
 
-export const calculateCampaignPrice = (rateLevel: 1 | 2 | 3, duration: '30sec' | '1min' | '3min'): number => {
-  return PRICING_CONFIG.rateLevel[rateLevel][duration];
+// Each right adds a share of the base content price
+export const USAGE_RIGHTS_PRICING = {
+  paidAds: 0.5,
+  durationMonths: { 3: 0, 6: 0.15, 12: 0.3, 24: 0.5 } as Record<number, number>,
+  // Every territory beyond the first; Worldwide replaces any others
+  additionalTerritory: 0.1,
+  worldwide: 0.5,
+  nameAndLikeness: 0.2,
+  whitelisting: 0.4,
+};
+
+export const calculateUsageRightsSurcharges = (basePrice: number, rights: UsageRights): { label: string; amount: number }[] => {
+  const pricing = USAGE_RIGHTS_PRICING;
+  const surcharges: { label: string; rate: number }[] = [];
+
+  if (rights.usage === 'paid_ads') {
+    surcharges.push({ label: 'Paid ads usage', rate: pricing.paidAds });
+  }
+  if (pricing.durationMonths[rights.durationMonths]) {
+    surcharges.push({ label: `${rights.durationMonths} month license`, rate: pricing.durationMonths[rights.durationMonths] });
+  }
+  if (rights.territories.includes('Worldwide')) {
+    surcharges.push({ label: 'Worldwide territory', rate: pricing.worldwide });
+  } else if (rights.territories.length > 1) {
+    const extra = rights.territories.length - 1;
+    surcharges.push({ label: `${extra} additional ${extra > 1 ? 'territories' : 'territory'}`, rate: extra * pricing.additionalTerritory });
+  }
+  if (rights.nameAndLikeness) {
+    surcharges.push({ label: 'Name & likeness', rate: pricing.nameAndLikeness });
+  }
+  if (rights.whitelisting) {
+    surcharges.push({ label: 'Whitelisting / Spark Ads', rate: pricing.whitelisting });
+  }
+
+  return surcharges.map(({ label, rate }) => ({ label, amount: Math.round(basePrice * rate * 100) / 100 }));
+};
+
+export const calculateDeliverablePrice = (rateLevel: 1 | 2 | 3, deliverable: Omit<CampaignDeliverable, 'id'>): number => {
+  const prices = PRICING_CONFIG.rateLevel[rateLevel];
+  const unitPrice = deliverable.kind === 'video' ? prices[deliverable.duration || '30sec'] : prices[deliverable.kind];
+  return unitPrice * deliverable.quantity;
+};
+
+// The content price is the sum of the deliverables; usage rights are charged on top of it
+export const calculateCampaignPrice = (rateLevel: 1 | 2 | 3, deliverables: Omit<CampaignDeliverable, 'id'>[], usageRights?: UsageRights): number => {
+  const basePrice = Math.round(deliverables.reduce((sum, d) => sum + calculateDeliverablePrice(rateLevel, d), 0) * 100) / 100;
+  if (!usageRights) return basePrice;
+
+  const surcharges = calculateUsageRightsSurcharges(basePrice, usageRights);
+  return Math.round((basePrice + surcharges.reduce((sum, s) => sum + s.amount, 0)) * 100) / 100;
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+/*
+  # mock-courier-tracking
+
+  A stand-in for the courier tracking APIs, for local development. Requests are routed
+  by courier, e.g. `/mock-courier-tracking/jnt/api/track`, and answered in that courier's own
+  response shape. See `src/lib/couriers/mockTrackingServer.ts` for how tracking numbers pick the
+  outcome.
+
+  Deploy it with `--no-verify-jwt`: the courier adapters send each courier's own auth headers.
+
+  Environment:
+    - COURIERS_ALLOW_MOCK=true, or every request is refused
+    - MOCK_TRACKING_STEP_SECONDS (default 60): how long a shipment takes to advance a step
+*/
+
+import { createMockTrackingHandler } from '../../../src/lib/couriers/mockTrackingServer.ts';
+
+const handler = createMockTrackingHandler({
+  stepSeconds: Number(Deno.env.get('MOCK_TRACKING_STEP_SECONDS')) || 60,
+});
+
+Deno.serve((req) => {
+  if (Deno.env.get('COURIERS_ALLOW_MOCK') !== 'true') {
+    return new Response(JSON.stringify({ error: 'Mock courier tracking is disabled' }), {
+      status: 403,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+  return handler(req);
+});
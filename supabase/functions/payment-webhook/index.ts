@@ -0,0 +1,87 @@
+/*
+  # payment-webhook
+
+  Receives payment provider callbacks, verifies their signature with the provider adapter and
+  applies them through `apply_payment_webhook_event`. This is the only path that credits a
+  founder wallet for a top-up.
+
+  Providers call this without a Supabase JWT, so deploy it with `--no-verify-jwt`.
+
+  Environment:
+    - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+    - PAYMENTS_ALLOW_MOCK=true and MOCK_PAYMENT_WEBHOOK_SECRET to accept the mock provider.
+      Never enable the mock in production: its secret is shipped to the browser.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { PaymentProvider } from '../../../src/lib/payments/types.ts';
+import { PaymentWebhookVerificationError } from '../../../src/lib/payments/types.ts';
+import { createMockPaymentProvider } from '../../../src/lib/payments/mockProvider.ts';
+
+const json = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const getProvider = (providerId: string | null): PaymentProvider | null => {
+  switch (providerId) {
+    case 'mock':
+      if (Deno.env.get('PAYMENTS_ALLOW_MOCK') !== 'true') return null;
+      return createMockPaymentProvider({
+        webhookSecret: Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET') || 'mock_webhook_secret',
+      });
+    default:
+      return null;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json(405, { error: 'Method not allowed' });
+  }
+
+  const providerId = new URL(req.url).searchParams.get('provider');
+  const provider = getProvider(providerId);
+  if (!provider) {
+    return json(400, { error: `Unknown or disabled payment provider: ${providerId}` });
+  }
+
+  const rawBody = await req.text();
+
+  let event;
+  try {
+    event = await provider.verifyWebhook(rawBody, req.headers);
+  } catch (error) {
+    if (error instanceof PaymentWebhookVerificationError) {
+      console.warn(`Rejected ${provider.id} webhook:`, error.message);
+      return json(401, { error: error.message });
+    }
+    console.error('Malformed payment webhook:', error);
+    return json(400, { error: 'Malformed webhook payload' });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const { data: applied, error } = await supabase.rpc('apply_payment_webhook_event', {
+    p_provider: provider.id,
+    p_event_id: event.id,
+    p_event_type: event.type,
+    p_reference: event.intent.reference,
+    p_provider_intent_id: event.intent.id,
+    p_amount: event.intent.amount,
+    p_failure_reason: event.intent.failureReason ?? null,
+    p_payload: event,
+  });
+
+  if (error) {
+    // A non-2xx response makes the provider retry the delivery later
+    console.error(`Failed to apply ${provider.id} event ${event.id}:`, error);
+    return json(500, { error: 'Failed to apply payment event' });
+  }
+
+  return json(200, { received: true, duplicate: applied === false });
+});
@@ -0,0 +1,103 @@
+/*
+  # poll-shipments
+
+  Asks each courier for the tracking events of shipped orders and applies them through
+  `record_shipment_tracking`, which marks an order delivered once its courier confirms delivery.
+  The least recently checked shipments go first, a batch per run; orders sent with a courier we
+  have no adapter for are left for the founder or talent to mark delivered.
+
+  Runs on a pg_cron schedule (see the swift_courier migration) and accepts only the service role.
+
+  Environment:
+    - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+    - COURIER_<ID>_API_URL and COURIER_<ID>_API_KEY for each courier, e.g. COURIER_JNT_API_URL
+    - COURIERS_USE_MOCK=true to send every courier's requests to the `mock-courier-tracking`
+      function instead. Never enable it in production
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { CourierAdapter, CourierApiConfig } from '../../../src/lib/couriers/types.ts';
+import { fetchTrackingEvents, findCourierAdapter } from '../../../src/lib/couriers/adapters.ts';
+
+const BATCH_SIZE = 50;
+
+const json = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const getApiConfig = (adapter: CourierAdapter): CourierApiConfig | null => {
+  if (Deno.env.get('COURIERS_USE_MOCK') === 'true') {
+    return { baseUrl: `${Deno.env.get('SUPABASE_URL')}/functions/v1/mock-courier-tracking/${adapter.id}` };
+  }
+
+  const prefix = `COURIER_${adapter.id.toUpperCase()}`;
+  const baseUrl = Deno.env.get(`${prefix}_API_URL`);
+  if (!baseUrl) return null;
+  return { baseUrl, apiKey: Deno.env.get(`${prefix}_API_KEY`) };
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json(405, { error: 'Method not allowed' });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json(401, { error: 'Unauthorized' });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select('id, courier, tracking_number')
+    .eq('status', 'shipped')
+    .not('tracking_number', 'is', null)
+    .order('tracking_checked_at', { ascending: true, nullsFirst: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Failed to load shipped orders:', error);
+    return json(500, { error: 'Failed to load shipped orders' });
+  }
+
+  let checked = 0;
+  let delivered = 0;
+  let failed = 0;
+
+  // One at a time: couriers rate limit their tracking APIs
+  for (const order of orders) {
+    const adapter = findCourierAdapter(order.courier);
+    const config = adapter ? getApiConfig(adapter) : null;
+    if (!adapter || !config) continue;
+
+    try {
+      const events = await fetchTrackingEvents(adapter, order.tracking_number, config);
+
+      const { data: wasDelivered, error: recordError } = await supabase.rpc('record_shipment_tracking', {
+        p_order_id: order.id,
+        p_events: events.map(event => ({
+          status: event.status,
+          description: event.description,
+          location: event.location ?? null,
+          occurred_at: event.occurredAt,
+        })),
+      });
+      if (recordError) throw recordError;
+
+      checked++;
+      if (wasDelivered) delivered++;
+    } catch (trackingError) {
+      console.error(`Failed to track order ${order.id} with ${adapter.name}:`, trackingError);
+      failed++;
+
+      // Recording no events still moves the order to the back of the queue, so a shipment the
+      // courier cannot find does not hold up the rest
+      await supabase.rpc('record_shipment_tracking', { p_order_id: order.id, p_events: [] });
+    }
+  }
+
+  return json(200, { checked, delivered, failed });
+});
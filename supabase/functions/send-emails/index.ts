@@ -0,0 +1,105 @@
+/*
+  # send-emails
+
+  Sends the emails queued in `email_outbox`: claims a batch through `claim_email_outbox`, renders
+  each in the recipient's language and hands it to the configured mailer. Failures are retried
+  after 1, 4, 9 and 16 minutes, then left as failed with the last error.
+
+  Runs on a pg_cron schedule (see the steady_postbox migration) and accepts only the service role.
+
+  Environment:
+    - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (provided by Supabase)
+    - APP_URL: where the links in emails point
+    - EMAIL_FROM (default `GambarKaca <no-reply@gambarkaca.my>`)
+    - MAILER=smtp (default) with SMTP_HOST, SMTP_PORT (default 1025), SMTP_USER, SMTP_PASS and
+      SMTP_TLS=true for relays that need it. For local development point it at Mailpit, e.g.
+      SMTP_HOST=host.docker.internal, and read the emails in Mailpit's web UI
+    - MAILER=resend with RESEND_API_KEY, for production
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { EmailEvent, EmailEventData, EmailLocale } from '../../../src/lib/email/types.ts';
+import { renderEmail } from '../../../src/lib/email/templates.ts';
+import { getMailer } from './mailers.ts';
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 5;
+
+const json = (status: number, body: Record<string, unknown>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+interface ClaimedEmail {
+  id: string;
+  event: EmailEvent;
+  data: EmailEventData[EmailEvent];
+  attempts: number;
+  email: string;
+  name: string;
+  locale: EmailLocale;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json(405, { error: 'Method not allowed' });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json(401, { error: 'Unauthorized' });
+  }
+
+  // Left queued rather than claimed, so nothing is lost while the mailer is being set up
+  const mailer = getMailer();
+  if (!mailer) {
+    console.error('No mailer configured; check MAILER and its settings');
+    return json(500, { error: 'No mailer configured' });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+  const appUrl = Deno.env.get('APP_URL') || 'http://localhost:5173';
+
+  const { data: emails, error } = await supabase.rpc('claim_email_outbox', { p_limit: BATCH_SIZE });
+
+  if (error) {
+    console.error('Failed to claim queued emails:', error);
+    return json(500, { error: 'Failed to claim queued emails' });
+  }
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const email of emails as ClaimedEmail[]) {
+    try {
+      const rendered = renderEmail(email.event, email.data, {
+        locale: email.locale,
+        recipientName: email.name,
+        appUrl,
+      });
+      await mailer.send({ to: { email: email.email, name: email.name }, ...rendered });
+
+      await supabase
+        .from('email_outbox')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', email.id);
+      sent++;
+    } catch (sendError) {
+      console.error(`Failed to send email ${email.id} with ${mailer.id}:`, sendError);
+      failed++;
+
+      const giveUp = email.attempts >= MAX_ATTEMPTS;
+      await supabase
+        .from('email_outbox')
+        .update({
+          status: giveUp ? 'failed' : 'pending',
+          last_error: sendError instanceof Error ? sendError.message : String(sendError),
+          next_attempt_at: new Date(Date.now() + email.attempts * email.attempts * 60_000).toISOString(),
+        })
+        .eq('id', email.id);
+    }
+  }
+
+  return json(200, { sent, failed });
+});
@@ -0,0 +1,103 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import type { EmailMessage, Mailer } from '../../../src/lib/email/types.ts';
+import { MailerError } from '../../../src/lib/email/types.ts';
+
+// The transports `send-emails` can use. SMTP covers local catchers such as Mailpit as well as
+// real relays; Resend is for hosts that block outbound SMTP, as Supabase's edge runtime does on
+// ports 25 and 587.
+
+const formatAddress = ({ email, name }: EmailMessage['to']) => `${name.replace(/["<>]/g, '')} <${email}>`;
+
+interface SmtpConfig {
+  hostname: string;
+  port: number;
+  // Mailpit and other local catchers take plain, unauthenticated connections
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export const createSmtpMailer = (config: SmtpConfig): Mailer => ({
+  id: 'smtp',
+  async send(message) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.tls,
+        auth: config.username ? { username: config.username, password: config.password || '' } : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: config.from,
+        to: formatAddress(message.to),
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } catch (error) {
+      throw new MailerError(`SMTP send failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await client.close();
+    }
+  },
+});
+
+interface ResendConfig {
+  apiKey: string;
+  from: string;
+}
+
+export const createResendMailer = (config: ResendConfig): Mailer => ({
+  id: 'resend',
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        from: config.from,
+        to: [formatAddress(message.to)],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new MailerError(`Resend responded ${response.status}: ${await response.text()}`);
+    }
+  },
+});
+
+// Picked by MAILER; see the environment notes in index.ts
+export const getMailer = (): Mailer | null => {
+  const from = Deno.env.get('EMAIL_FROM') || 'GambarKaca <no-reply@gambarkaca.my>';
+
+  switch (Deno.env.get('MAILER') || 'smtp') {
+    case 'smtp': {
+      const hostname = Deno.env.get('SMTP_HOST');
+      if (!hostname) return null;
+      return createSmtpMailer({
+        hostname,
+        port: Number(Deno.env.get('SMTP_PORT')) || 1025,
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASS'),
+        from,
+      });
+    }
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) return null;
+      return createResendMailer({ apiKey, from });
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,142 @@
+/*
+  # Atomic Talent Approval with Escrow
+
+  1. New Tables
+    - `escrow_holds` - Campaign payment moved out of a founder's wallet and held against an order
+      - `order_id` is unique, so an order can only ever carry one hold
+      - `status` is `held` until the review is approved (`released`) or the order is cancelled (`refunded`)
+
+  2. New Functions
+    - `approve_application_with_escrow(p_campaign_id, p_talent_id)` - In a single transaction:
+      locks the founder's profile row, checks and decrements `wallet_balance`, creates the order,
+      records the escrow hold and its "Payment Hold" transaction, then approves the application.
+      Returns the new order id.
+    - `release_escrow_hold(p_order_id)` - Marks an order's hold as released and returns the amount
+      that was held (0 for orders created before escrow existed).
+
+  3. Security
+    - Enable RLS on `escrow_holds`; founders and talents can read holds on their own orders, admins can read all
+    - Both functions are SECURITY DEFINER and only act for the founder who owns the campaign
+*/
+
+CREATE TABLE IF NOT EXISTS escrow_holds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  founder_id uuid NOT NULL REFERENCES profiles(id),
+  talent_id uuid NOT NULL REFERENCES profiles(id),
+  amount numeric(10,2) NOT NULL CHECK (amount >= 0),
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'released', 'refunded')),
+  created_at timestamptz DEFAULT now(),
+  released_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS escrow_holds_founder_id_idx ON escrow_holds(founder_id);
+CREATE INDEX IF NOT EXISTS escrow_holds_talent_id_idx ON escrow_holds(talent_id);
+
+ALTER TABLE escrow_holds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties can view their escrow holds" ON escrow_holds;
+CREATE POLICY "Parties can view their escrow holds"
+ON escrow_holds
+FOR SELECT
+TO authenticated
+USING (
+  founder_id = auth.uid() OR
+  talent_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Approve a pending application and move the campaign price into escrow atomically
+CREATE OR REPLACE FUNCTION approve_application_with_escrow(p_campaign_id uuid, p_talent_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_application_id uuid;
+  v_balance numeric;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the campaign owner can approve applicants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_application_id
+  FROM campaign_applications
+  WHERE campaign_id = p_campaign_id AND talent_id = p_talent_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending application found for this talent';
+  END IF;
+
+  -- Lock the founder's row so concurrent approvals see each other's deductions
+  SELECT COALESCE(wallet_balance, 0) INTO v_balance
+  FROM profiles
+  WHERE id = v_campaign.founder_id
+  FOR UPDATE;
+
+  IF v_balance < v_campaign.price THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  UPDATE profiles
+  SET wallet_balance = v_balance - v_campaign.price,
+      updated_at = now()
+  WHERE id = v_campaign.founder_id;
+
+  INSERT INTO orders (campaign_id, talent_id, founder_id, status, payout)
+  VALUES (p_campaign_id, p_talent_id, v_campaign.founder_id, 'pending_shipment', v_campaign.price)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO escrow_holds (order_id, founder_id, talent_id, amount)
+  VALUES (v_order_id, v_campaign.founder_id, p_talent_id, v_campaign.price);
+
+  INSERT INTO transactions (user_id, type, amount, description, related_order_id)
+  VALUES (
+    v_campaign.founder_id,
+    'debit',
+    v_campaign.price,
+    'Payment Hold - ' || v_campaign.title || ' (Talent Approved)',
+    v_order_id
+  );
+
+  UPDATE campaign_applications SET status = 'approved' WHERE id = v_application_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Release an order's escrow hold once its review has been approved
+CREATE OR REPLACE FUNCTION release_escrow_hold(p_order_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_amount numeric;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM orders WHERE id = p_order_id AND founder_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the order owner can release its escrow' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE escrow_holds
+  SET status = 'released',
+      released_at = now()
+  WHERE order_id = p_order_id AND status = 'held'
+  RETURNING amount INTO v_amount;
+
+  RETURN COALESCE(v_amount, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION approve_application_with_escrow(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_escrow_hold(uuid) TO authenticated;
@@ -0,0 +1,547 @@
+/*
+  # Double-Entry Ledger
+
+  1. New Types
+    - `ledger_account_type` - founder_wallet, escrow, talent_payable, platform_revenue and
+      payment_clearing (the counterpart for money entering or leaving the platform)
+    - `journal_entry_kind` - what a journal entry records, replacing free-text classification
+
+  2. New Tables
+    - `ledger_accounts` - One account per (owner, type); platform accounts have no owner
+    - `journal_entries` - A single money movement with its `kind`, description and related order
+    - `ledger_postings` - The legs of a journal entry. A positive amount increases the account's
+      balance, a negative amount decreases it, and every entry must sum to zero
+
+  3. New Views
+    - `ledger_account_balances` - Current balance of every account
+    - `ledger_transactions` - Per-account postings shaped like the legacy `transactions` rows
+
+  4. Functions
+    - `ledger_transfer(...)` - Internal helper that posts a balanced two-legged entry
+    - `record_wallet_top_up(p_amount)` - Credits the caller's founder wallet
+    - `approve_application_with_escrow(...)` - Now posts founder_wallet -> escrow to the ledger
+    - `settle_order_payment(p_order_id)` - Completes an order: releases escrow to the talent,
+      charges the platform fee and records the earning, all in one transaction
+    - `release_escrow_hold(uuid)` is dropped in favour of `settle_order_payment`
+
+  5. Data Migration
+    - Existing `profiles.wallet_balance`, `profiles.total_earnings` and held escrow amounts are
+      carried over as `opening_balance` entries. The `transactions` table is kept read-only for
+      reference and is no longer written to.
+
+  6. Balance Cache
+    - `profiles.wallet_balance` and `profiles.total_earnings` are now a cache maintained by a
+      trigger on `ledger_postings`; direct client updates to them are ignored.
+*/
+
+DO $$
+BEGIN
+  CREATE TYPE ledger_account_type AS ENUM (
+    'founder_wallet',
+    'escrow',
+    'talent_payable',
+    'platform_revenue',
+    'payment_clearing'
+  );
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
+
+DO $$
+BEGIN
+  CREATE TYPE journal_entry_kind AS ENUM (
+    'opening_balance',
+    'wallet_top_up',
+    'escrow_hold',
+    'escrow_release',
+    'escrow_refund',
+    'platform_fee',
+    'talent_payout'
+  );
+EXCEPTION WHEN duplicate_object THEN
+  NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  type ledger_account_type NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Platform accounts have a NULL owner, so uniqueness is enforced on a coalesced key
+CREATE UNIQUE INDEX IF NOT EXISTS ledger_accounts_owner_type_idx
+ON ledger_accounts ((COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::uuid)), type);
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind journal_entry_kind NOT NULL,
+  description text NOT NULL,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS journal_entries_order_id_idx ON journal_entries(order_id);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES journal_entries(id) ON DELETE RESTRICT,
+  account_id uuid NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+  amount numeric(12,2) NOT NULL CHECK (amount <> 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ledger_postings_entry_id_idx ON ledger_postings(entry_id);
+CREATE INDEX IF NOT EXISTS ledger_postings_account_id_idx ON ledger_postings(account_id);
+
+-- Every journal entry must balance once the transaction commits
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (SELECT COALESCE(SUM(amount), 0) FROM ledger_postings WHERE entry_id = NEW.entry_id) <> 0 THEN
+    RAISE EXCEPTION 'Journal entry % is not balanced', NEW.entry_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_postings_balanced ON ledger_postings;
+CREATE CONSTRAINT TRIGGER ledger_postings_balanced
+AFTER INSERT ON ledger_postings
+DEFERRABLE INITIALLY DEFERRED
+FOR EACH ROW EXECUTE FUNCTION check_journal_entry_balanced();
+
+-- Postings are append-only; corrections are made with new entries
+CREATE OR REPLACE FUNCTION prevent_ledger_posting_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Ledger postings cannot be modified or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_postings_append_only ON ledger_postings;
+CREATE TRIGGER ledger_postings_append_only
+BEFORE UPDATE OR DELETE ON ledger_postings
+FOR EACH ROW EXECUTE FUNCTION prevent_ledger_posting_changes();
+
+-- Row level security: users read their own accounts and postings, admins read everything.
+-- There are no write policies; all writes go through the SECURITY DEFINER functions below.
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ledger_postings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their ledger accounts" ON ledger_accounts;
+CREATE POLICY "Users can view their ledger accounts"
+ON ledger_accounts
+FOR SELECT
+TO authenticated
+USING (
+  owner_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Users can view journal entries touching their accounts" ON journal_entries;
+CREATE POLICY "Users can view journal entries touching their accounts"
+ON journal_entries
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM ledger_postings p
+    JOIN ledger_accounts a ON a.id = p.account_id
+    WHERE p.entry_id = journal_entries.id AND a.owner_id = auth.uid()
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Users can view postings on their accounts" ON ledger_postings;
+CREATE POLICY "Users can view postings on their accounts"
+ON ledger_postings
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM ledger_accounts a WHERE a.id = account_id AND a.owner_id = auth.uid()) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE VIEW ledger_account_balances
+WITH (security_invoker = true) AS
+SELECT
+  a.id AS account_id,
+  a.owner_id,
+  a.type,
+  COALESCE(SUM(p.amount), 0)::numeric(12,2) AS balance
+FROM ledger_accounts a
+LEFT JOIN ledger_postings p ON p.account_id = a.id
+GROUP BY a.id, a.owner_id, a.type;
+
+CREATE OR REPLACE VIEW ledger_transactions
+WITH (security_invoker = true) AS
+SELECT
+  p.id,
+  p.entry_id,
+  a.owner_id AS user_id,
+  a.type AS account_type,
+  e.kind,
+  CASE WHEN p.amount > 0 THEN 'credit' ELSE 'debit' END AS type,
+  ABS(p.amount)::numeric(12,2) AS amount,
+  e.description,
+  e.order_id AS related_order_id,
+  p.created_at
+FROM ledger_postings p
+JOIN ledger_accounts a ON a.id = p.account_id
+JOIN journal_entries e ON e.id = p.entry_id
+WHERE a.type <> 'payment_clearing';
+
+-- Get (or lazily create) the account of the given type for an owner; NULL owner means platform
+CREATE OR REPLACE FUNCTION ledger_account_id(p_owner_id uuid, p_type ledger_account_type)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account_id uuid;
+BEGIN
+  INSERT INTO ledger_accounts (owner_id, type)
+  VALUES (p_owner_id, p_type)
+  ON CONFLICT ((COALESCE(owner_id, '00000000-0000-0000-0000-000000000000'::uuid)), type) DO NOTHING;
+
+  SELECT id INTO v_account_id
+  FROM ledger_accounts
+  WHERE owner_id IS NOT DISTINCT FROM p_owner_id AND type = p_type;
+
+  RETURN v_account_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ledger_balance(p_owner_id uuid, p_type ledger_account_type)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(p.amount), 0)
+  FROM ledger_postings p
+  JOIN ledger_accounts a ON a.id = p.account_id
+  WHERE a.owner_id IS NOT DISTINCT FROM p_owner_id AND a.type = p_type;
+$$;
+
+-- Post a balanced entry moving p_amount from one account to another
+CREATE OR REPLACE FUNCTION ledger_transfer(
+  p_kind journal_entry_kind,
+  p_description text,
+  p_order_id uuid,
+  p_from_account uuid,
+  p_to_account uuid,
+  p_amount numeric
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id uuid;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Ledger transfer amount must be positive';
+  END IF;
+
+  INSERT INTO journal_entries (kind, description, order_id, created_by)
+  VALUES (p_kind, p_description, p_order_id, auth.uid())
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO ledger_postings (entry_id, account_id, amount)
+  VALUES
+    (v_entry_id, p_from_account, -p_amount),
+    (v_entry_id, p_to_account, p_amount);
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Opening balances from the legacy columns, posted before the cache trigger exists
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN SELECT id, wallet_balance FROM profiles WHERE role = 'founder' AND COALESCE(wallet_balance, 0) > 0 LOOP
+    PERFORM ledger_transfer(
+      'opening_balance',
+      'Opening balance (migrated wallet balance)',
+      NULL,
+      ledger_account_id(NULL, 'payment_clearing'),
+      ledger_account_id(r.id, 'founder_wallet'),
+      r.wallet_balance
+    );
+  END LOOP;
+
+  FOR r IN SELECT id, total_earnings FROM profiles WHERE role = 'talent' AND COALESCE(total_earnings, 0) > 0 LOOP
+    PERFORM ledger_transfer(
+      'opening_balance',
+      'Opening balance (migrated earnings)',
+      NULL,
+      ledger_account_id(NULL, 'payment_clearing'),
+      ledger_account_id(r.id, 'talent_payable'),
+      r.total_earnings
+    );
+  END LOOP;
+
+  FOR r IN SELECT order_id, founder_id, amount FROM escrow_holds WHERE status = 'held' AND amount > 0 LOOP
+    PERFORM ledger_transfer(
+      'opening_balance',
+      'Opening balance (migrated escrow hold)',
+      r.order_id,
+      ledger_account_id(NULL, 'payment_clearing'),
+      ledger_account_id(r.founder_id, 'escrow'),
+      r.amount
+    );
+  END LOOP;
+END $$;
+
+-- Keep the cached balance columns on profiles in step with the ledger
+CREATE OR REPLACE FUNCTION sync_profile_balances_from_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account ledger_accounts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_account FROM ledger_accounts WHERE id = NEW.account_id;
+
+  IF v_account.owner_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('app.ledger_sync', 'on', true);
+
+  IF v_account.type = 'founder_wallet' THEN
+    UPDATE profiles
+    SET wallet_balance = COALESCE(wallet_balance, 0) + NEW.amount
+    WHERE id = v_account.owner_id;
+  ELSIF v_account.type = 'talent_payable' AND NEW.amount > 0 THEN
+    -- total_earnings is lifetime earnings, so payouts do not reduce it
+    UPDATE profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + NEW.amount
+    WHERE id = v_account.owner_id;
+  END IF;
+
+  PERFORM set_config('app.ledger_sync', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ledger_postings_sync_profile ON ledger_postings;
+CREATE TRIGGER ledger_postings_sync_profile
+AFTER INSERT ON ledger_postings
+FOR EACH ROW EXECUTE FUNCTION sync_profile_balances_from_ledger();
+
+-- Only the ledger may change the cached balance columns
+CREATE OR REPLACE FUNCTION protect_profile_balances()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(current_setting('app.ledger_sync', true), 'off') <> 'on' THEN
+    NEW.wallet_balance := OLD.wallet_balance;
+    NEW.total_earnings := OLD.total_earnings;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_balances ON profiles;
+CREATE TRIGGER profiles_protect_balances
+BEFORE UPDATE ON profiles
+FOR EACH ROW EXECUTE FUNCTION protect_profile_balances();
+
+-- Wallet top-up for the calling founder
+CREATE OR REPLACE FUNCTION record_wallet_top_up(p_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'founder') THEN
+    RAISE EXCEPTION 'Only founders can top up a wallet' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount < 10 OR p_amount > 10000 THEN
+    RAISE EXCEPTION 'Top-up amount must be between RM10 and RM10,000';
+  END IF;
+
+  RETURN ledger_transfer(
+    'wallet_top_up',
+    'Wallet Top Up - Credit Card',
+    NULL,
+    ledger_account_id(NULL, 'payment_clearing'),
+    ledger_account_id(auth.uid(), 'founder_wallet'),
+    p_amount
+  );
+END;
+$$;
+
+-- Same contract as before, but the balance now comes from the ledger
+CREATE OR REPLACE FUNCTION approve_application_with_escrow(p_campaign_id uuid, p_talent_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_application_id uuid;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the campaign owner can approve applicants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_application_id
+  FROM campaign_applications
+  WHERE campaign_id = p_campaign_id AND talent_id = p_talent_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending application found for this talent';
+  END IF;
+
+  -- The founder's profile row serialises concurrent spends from the same wallet
+  PERFORM 1 FROM profiles WHERE id = v_campaign.founder_id FOR UPDATE;
+
+  IF ledger_balance(v_campaign.founder_id, 'founder_wallet') < v_campaign.price THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  INSERT INTO orders (campaign_id, talent_id, founder_id, status, payout)
+  VALUES (p_campaign_id, p_talent_id, v_campaign.founder_id, 'pending_shipment', v_campaign.price)
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO escrow_holds (order_id, founder_id, talent_id, amount)
+  VALUES (v_order_id, v_campaign.founder_id, p_talent_id, v_campaign.price);
+
+  PERFORM ledger_transfer(
+    'escrow_hold',
+    'Payment Hold - ' || v_campaign.title || ' (Talent Approved)',
+    v_order_id,
+    ledger_account_id(v_campaign.founder_id, 'founder_wallet'),
+    ledger_account_id(v_campaign.founder_id, 'escrow'),
+    v_campaign.price
+  );
+
+  UPDATE campaign_applications SET status = 'approved' WHERE id = v_application_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Complete an order whose review was approved and settle every payment it involves
+CREATE OR REPLACE FUNCTION settle_order_payment(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_campaign_title text;
+  v_hold escrow_holds%ROWTYPE;
+  v_fee numeric;
+  v_from_wallet numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the order owner can approve its review' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status <> 'review_submitted' THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  SELECT title INTO v_campaign_title FROM campaigns WHERE id = v_order.campaign_id;
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = p_order_id AND status = 'held' FOR UPDATE;
+
+  v_fee := round(v_order.payout * 0.10, 2);
+  -- Orders approved before escrow existed pay the talent straight from the wallet
+  v_from_wallet := v_fee + CASE WHEN v_hold.id IS NULL THEN v_order.payout ELSE 0 END;
+
+  IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_from_wallet THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Payment Received - ' || v_campaign_title,
+      p_order_id,
+      ledger_account_id(v_order.founder_id, 'escrow'),
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_hold.amount
+    );
+
+    UPDATE escrow_holds SET status = 'released', released_at = now() WHERE id = v_hold.id;
+  ELSE
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Payment Received - ' || v_campaign_title,
+      p_order_id,
+      ledger_account_id(v_order.founder_id, 'founder_wallet'),
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_order.payout
+    );
+  END IF;
+
+  IF v_fee > 0 THEN
+    PERFORM ledger_transfer(
+      'platform_fee',
+      'Admin Fee (10%) - ' || v_campaign_title,
+      p_order_id,
+      ledger_account_id(v_order.founder_id, 'founder_wallet'),
+      ledger_account_id(NULL, 'platform_revenue'),
+      v_fee
+    );
+  END IF;
+
+  INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+  VALUES (v_order.talent_id, p_order_id, v_campaign_title, v_order.payout, 'paid', now());
+
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS release_escrow_hold(uuid);
+
+COMMENT ON TABLE transactions IS 'Deprecated: superseded by journal_entries and ledger_postings. Kept read-only for reference.';
+
+REVOKE EXECUTE ON FUNCTION ledger_account_id(uuid, ledger_account_type) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_balance(uuid, ledger_account_type) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ledger_transfer(journal_entry_kind, text, uuid, uuid, uuid, numeric) FROM PUBLIC, anon, authenticated;
+
+GRANT SELECT ON ledger_account_balances TO authenticated;
+GRANT SELECT ON ledger_transactions TO authenticated;
+GRANT EXECUTE ON FUNCTION record_wallet_top_up(numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION settle_order_payment(uuid) TO authenticated;
@@ -0,0 +1,327 @@
+/*
+  # Configurable Platform Fee Policies
+
+  1. New Tables
+    - `platform_settings` - Versioned platform fee policies. Each row is one immutable version;
+      exactly one version is active at a time.
+      - `fee_type` - `percentage` (fee_value is a percent of the payout) or `flat` (fee_value in RM)
+      - `fee_cap` - Optional maximum fee in RM
+      - `charged_to` - `founder` (added on top of the payout) or `talent` (withheld from the payout)
+      - `category_overrides` / `rate_level_overrides` - `{ "<key>": { "type", "value", "cap" } }`.
+        A category override wins over a rate level override, which wins over the default.
+
+  2. Modified Tables
+    - `orders.fee_policy_version` - The policy version in force when the talent was approved
+
+  3. Functions
+    - `calculate_platform_fee(p_policy_version, p_amount, p_category, p_rate_level)` - Fee for a payout
+    - `publish_fee_policy(...)` - Admin-only; activates a new policy version
+    - `approve_application_with_escrow(...)` - Now stamps the active policy version on the order
+    - `settle_order_payment(p_order_id)` - Charges the fee under the order's policy version,
+      either from the founder's wallet or withheld from the talent's escrow release
+
+  4. Seed Data
+    - Version 1 reproduces the previous behaviour: 10% of the payout, charged to the founder
+*/
+
+CREATE TABLE IF NOT EXISTS platform_settings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  version integer NOT NULL UNIQUE,
+  fee_type text NOT NULL CHECK (fee_type IN ('percentage', 'flat')),
+  fee_value numeric(10,2) NOT NULL CHECK (fee_value >= 0),
+  fee_cap numeric(10,2) CHECK (fee_cap IS NULL OR fee_cap >= 0),
+  charged_to text NOT NULL DEFAULT 'founder' CHECK (charged_to IN ('founder', 'talent')),
+  category_overrides jsonb NOT NULL DEFAULT '{}'::jsonb,
+  rate_level_overrides jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_active boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS platform_settings_single_active_idx
+ON platform_settings (is_active)
+WHERE is_active;
+
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Fee policies are visible to signed in users" ON platform_settings;
+CREATE POLICY "Fee policies are visible to signed in users"
+ON platform_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+INSERT INTO platform_settings (version, fee_type, fee_value, charged_to, is_active)
+VALUES (1, 'percentage', 10, 'founder', true)
+ON CONFLICT (version) DO NOTHING;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'fee_policy_version'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN fee_policy_version integer REFERENCES platform_settings(version);
+    UPDATE orders SET fee_policy_version = 1;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION active_fee_policy_version()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT version FROM platform_settings WHERE is_active;
+$$;
+
+-- Resolve the rule for a payout (category > rate level > default) and apply it
+CREATE OR REPLACE FUNCTION calculate_platform_fee(
+  p_policy_version integer,
+  p_amount numeric,
+  p_category text,
+  p_rate_level integer
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_policy platform_settings%ROWTYPE;
+  v_rule jsonb;
+  v_fee numeric;
+BEGIN
+  SELECT * INTO v_policy FROM platform_settings WHERE version = p_policy_version;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fee policy version % not found', p_policy_version;
+  END IF;
+
+  v_rule := COALESCE(
+    v_policy.category_overrides -> p_category,
+    v_policy.rate_level_overrides -> p_rate_level::text,
+    jsonb_build_object('type', v_policy.fee_type, 'value', v_policy.fee_value, 'cap', v_policy.fee_cap)
+  );
+
+  IF v_rule ->> 'type' = 'flat' THEN
+    v_fee := (v_rule ->> 'value')::numeric;
+  ELSE
+    v_fee := p_amount * (v_rule ->> 'value')::numeric / 100;
+  END IF;
+
+  IF v_rule ->> 'cap' IS NOT NULL THEN
+    v_fee := LEAST(v_fee, (v_rule ->> 'cap')::numeric);
+  END IF;
+
+  -- A fee withheld from the talent can never exceed what they are paid
+  IF v_policy.charged_to = 'talent' THEN
+    v_fee := LEAST(v_fee, p_amount);
+  END IF;
+
+  RETURN round(GREATEST(v_fee, 0), 2);
+END;
+$$;
+
+-- Publish a new fee policy version and make it the active one
+CREATE OR REPLACE FUNCTION publish_fee_policy(
+  p_fee_type text,
+  p_fee_value numeric,
+  p_fee_cap numeric,
+  p_charged_to text,
+  p_category_overrides jsonb,
+  p_rate_level_overrides jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the fee policy' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_fee_type = 'percentage' AND p_fee_value > 100 THEN
+    RAISE EXCEPTION 'Percentage fees cannot exceed 100%%';
+  END IF;
+
+  -- Serialise publishers so version numbers stay gap-free
+  LOCK TABLE platform_settings IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version FROM platform_settings;
+
+  UPDATE platform_settings SET is_active = false WHERE is_active;
+
+  INSERT INTO platform_settings (
+    version, fee_type, fee_value, fee_cap, charged_to,
+    category_overrides, rate_level_overrides, is_active, created_by
+  )
+  VALUES (
+    v_version, p_fee_type, p_fee_value, p_fee_cap, p_charged_to,
+    COALESCE(p_category_overrides, '{}'::jsonb), COALESCE(p_rate_level_overrides, '{}'::jsonb),
+    true, auth.uid()
+  );
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_application_with_escrow(p_campaign_id uuid, p_talent_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_application_id uuid;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the campaign owner can approve applicants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_application_id
+  FROM campaign_applications
+  WHERE campaign_id = p_campaign_id AND talent_id = p_talent_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending application found for this talent';
+  END IF;
+
+  -- The founder's profile row serialises concurrent spends from the same wallet
+  PERFORM 1 FROM profiles WHERE id = v_campaign.founder_id FOR UPDATE;
+
+  IF ledger_balance(v_campaign.founder_id, 'founder_wallet') < v_campaign.price THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  INSERT INTO orders (campaign_id, talent_id, founder_id, status, payout, fee_policy_version)
+  VALUES (
+    p_campaign_id,
+    p_talent_id,
+    v_campaign.founder_id,
+    'pending_shipment',
+    v_campaign.price,
+    active_fee_policy_version()
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO escrow_holds (order_id, founder_id, talent_id, amount)
+  VALUES (v_order_id, v_campaign.founder_id, p_talent_id, v_campaign.price);
+
+  PERFORM ledger_transfer(
+    'escrow_hold',
+    'Payment Hold - ' || v_campaign.title || ' (Talent Approved)',
+    v_order_id,
+    ledger_account_id(v_campaign.founder_id, 'founder_wallet'),
+    ledger_account_id(v_campaign.founder_id, 'escrow'),
+    v_campaign.price
+  );
+
+  UPDATE campaign_applications SET status = 'approved' WHERE id = v_application_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_order_payment(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_policy platform_settings%ROWTYPE;
+  v_hold escrow_holds%ROWTYPE;
+  v_fee numeric;
+  v_talent_amount numeric;
+  v_source_account uuid;
+  v_from_wallet numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the order owner can approve its review' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status <> 'review_submitted' THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  SELECT * INTO v_campaign FROM campaigns WHERE id = v_order.campaign_id;
+  SELECT * INTO v_policy
+  FROM platform_settings
+  WHERE version = COALESCE(v_order.fee_policy_version, active_fee_policy_version());
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = p_order_id AND status = 'held' FOR UPDATE;
+
+  v_fee := calculate_platform_fee(v_policy.version, v_order.payout, v_campaign.category, v_campaign.rate_level);
+  v_talent_amount := CASE WHEN v_policy.charged_to = 'talent' THEN v_order.payout - v_fee ELSE v_order.payout END;
+
+  -- Orders approved before escrow existed pay out straight from the wallet
+  IF v_hold.id IS NOT NULL THEN
+    v_source_account := ledger_account_id(v_order.founder_id, 'escrow');
+    v_from_wallet := CASE WHEN v_policy.charged_to = 'founder' THEN v_fee ELSE 0 END;
+  ELSE
+    v_source_account := ledger_account_id(v_order.founder_id, 'founder_wallet');
+    v_from_wallet := v_order.payout + CASE WHEN v_policy.charged_to = 'founder' THEN v_fee ELSE 0 END;
+  END IF;
+
+  IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_from_wallet THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  IF v_talent_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Payment Received - ' || v_campaign.title,
+      p_order_id,
+      v_source_account,
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_talent_amount
+    );
+  END IF;
+
+  IF v_fee > 0 THEN
+    PERFORM ledger_transfer(
+      'platform_fee',
+      'Platform Fee (policy v' || v_policy.version || ') - ' || v_campaign.title,
+      p_order_id,
+      CASE
+        WHEN v_policy.charged_to = 'talent' THEN v_source_account
+        ELSE ledger_account_id(v_order.founder_id, 'founder_wallet')
+      END,
+      ledger_account_id(NULL, 'platform_revenue'),
+      v_fee
+    );
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    UPDATE escrow_holds SET status = 'released', released_at = now() WHERE id = v_hold.id;
+  END IF;
+
+  INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+  VALUES (v_order.talent_id, p_order_id, v_campaign.title, v_talent_amount, 'paid', now());
+
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION calculate_platform_fee(integer, numeric, text, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION publish_fee_policy(text, numeric, numeric, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,427 @@
+/*
+  # Talent Withdrawals and Payout Batches
+
+  1. Ledger
+    - New account type `talent_withdrawal_pending` holds money a talent has asked to withdraw
+      until it is paid out or the request is rejected
+    - New entry kinds `withdrawal_request` (talent_payable -> talent_withdrawal_pending) and
+      `withdrawal_reversal` (back again on rejection). Paying a batch posts `talent_payout`
+      (talent_withdrawal_pending -> payment_clearing)
+
+  2. New Tables
+    - `talent_bank_accounts` - One bank account per talent for payouts
+    - `payout_batches` - A group of approved withdrawals paid in one bank bulk payment
+    - `withdrawal_requests` - A talent's request to cash out, with a snapshot of the bank details
+      it will be paid to
+
+  3. Earnings
+    - `earnings.payout_status` tracks whether each earning is `available`, `withdrawal_pending`
+      or `withdrawn`. It is derived from the talent's ledger balances, oldest earnings first
+
+  4. Functions
+    - `save_bank_account(...)` - Talent creates or replaces their bank details
+    - `request_withdrawal(p_amount)` - Talent reserves part of their available balance
+    - `review_withdrawal(p_withdrawal_id, p_approve, p_note)` - Admin approves or rejects
+    - `create_payout_batch(p_withdrawal_ids)` - Admin groups approved withdrawals
+    - `mark_payout_batch_exported(p_batch_id)` / `mark_payout_batch_paid(p_batch_id)` - Admin
+      records the bank file download and the completed transfer
+*/
+
+ALTER TYPE ledger_account_type ADD VALUE IF NOT EXISTS 'talent_withdrawal_pending';
+ALTER TYPE journal_entry_kind ADD VALUE IF NOT EXISTS 'withdrawal_request';
+ALTER TYPE journal_entry_kind ADD VALUE IF NOT EXISTS 'withdrawal_reversal';
+
+CREATE TABLE IF NOT EXISTS talent_bank_accounts (
+  talent_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  bank_code text NOT NULL,
+  bank_name text NOT NULL,
+  account_number text NOT NULL CHECK (account_number ~ '^[0-9]{6,20}$'),
+  account_holder_name text NOT NULL CHECK (length(trim(account_holder_name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'exported', 'paid')),
+  total_amount numeric(12,2) NOT NULL DEFAULT 0,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  exported_at timestamptz,
+  paid_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS withdrawal_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  talent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'paid')),
+  bank_code text NOT NULL,
+  bank_name text NOT NULL,
+  account_number text NOT NULL,
+  account_holder_name text NOT NULL,
+  batch_id uuid REFERENCES payout_batches(id) ON DELETE SET NULL,
+  admin_note text,
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS withdrawal_requests_talent_id_idx ON withdrawal_requests(talent_id);
+CREATE INDEX IF NOT EXISTS withdrawal_requests_batch_id_idx ON withdrawal_requests(batch_id);
+CREATE INDEX IF NOT EXISTS withdrawal_requests_status_idx ON withdrawal_requests(status);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'earnings' AND column_name = 'payout_status'
+  ) THEN
+    ALTER TABLE earnings ADD COLUMN payout_status text NOT NULL DEFAULT 'available'
+      CHECK (payout_status IN ('available', 'withdrawal_pending', 'withdrawn'));
+  END IF;
+END $$;
+
+-- Row level security: talents manage their own bank details and read their own withdrawals.
+-- Withdrawals and batches are only written through the SECURITY DEFINER functions below.
+ALTER TABLE talent_bank_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payout_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE withdrawal_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Talents can view their bank account" ON talent_bank_accounts;
+CREATE POLICY "Talents can view their bank account"
+ON talent_bank_accounts
+FOR SELECT
+TO authenticated
+USING (
+  talent_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins can view payout batches" ON payout_batches;
+CREATE POLICY "Admins can view payout batches"
+ON payout_batches
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+DROP POLICY IF EXISTS "Users can view their withdrawal requests" ON withdrawal_requests;
+CREATE POLICY "Users can view their withdrawal requests"
+ON withdrawal_requests
+FOR SELECT
+TO authenticated
+USING (
+  talent_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Lifetime earnings should not grow when a rejected withdrawal is returned to the talent
+CREATE OR REPLACE FUNCTION sync_profile_balances_from_ledger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_account ledger_accounts%ROWTYPE;
+  v_kind journal_entry_kind;
+BEGIN
+  SELECT * INTO v_account FROM ledger_accounts WHERE id = NEW.account_id;
+
+  IF v_account.owner_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT kind INTO v_kind FROM journal_entries WHERE id = NEW.entry_id;
+
+  PERFORM set_config('app.ledger_sync', 'on', true);
+
+  IF v_account.type = 'founder_wallet' THEN
+    UPDATE profiles
+    SET wallet_balance = COALESCE(wallet_balance, 0) + NEW.amount
+    WHERE id = v_account.owner_id;
+  ELSIF v_account.type = 'talent_payable' AND NEW.amount > 0 AND v_kind <> 'withdrawal_reversal' THEN
+    -- total_earnings is lifetime earnings, so payouts do not reduce it
+    UPDATE profiles
+    SET total_earnings = COALESCE(total_earnings, 0) + NEW.amount
+    WHERE id = v_account.owner_id;
+  END IF;
+
+  PERFORM set_config('app.ledger_sync', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+-- Re-derive every earning's payout status from the talent's ledger, oldest earnings first
+CREATE OR REPLACE FUNCTION refresh_earning_payout_statuses(p_talent_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawn numeric;
+  v_pending numeric;
+BEGIN
+  SELECT COALESCE(SUM(-p.amount), 0) INTO v_withdrawn
+  FROM ledger_postings p
+  JOIN ledger_accounts a ON a.id = p.account_id
+  JOIN journal_entries e ON e.id = p.entry_id
+  WHERE a.owner_id = p_talent_id
+    AND a.type = 'talent_withdrawal_pending'
+    AND e.kind = 'talent_payout';
+
+  v_pending := ledger_balance(p_talent_id, 'talent_withdrawal_pending');
+
+  UPDATE earnings e
+  SET payout_status = CASE
+    WHEN running.cumulative <= v_withdrawn THEN 'withdrawn'
+    WHEN running.cumulative <= v_withdrawn + v_pending THEN 'withdrawal_pending'
+    ELSE 'available'
+  END
+  FROM (
+    SELECT id, SUM(amount) OVER (ORDER BY earned_at, id) AS cumulative
+    FROM earnings
+    WHERE talent_id = p_talent_id AND status = 'paid'
+  ) running
+  WHERE e.id = running.id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_bank_account(
+  p_bank_code text,
+  p_bank_name text,
+  p_account_number text,
+  p_account_holder_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'talent') THEN
+    RAISE EXCEPTION 'Only talents can add payout bank details' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO talent_bank_accounts (talent_id, bank_code, bank_name, account_number, account_holder_name)
+  VALUES (auth.uid(), p_bank_code, p_bank_name, regexp_replace(p_account_number, '[\s-]', '', 'g'), trim(p_account_holder_name))
+  ON CONFLICT (talent_id) DO UPDATE SET
+    bank_code = EXCLUDED.bank_code,
+    bank_name = EXCLUDED.bank_name,
+    account_number = EXCLUDED.account_number,
+    account_holder_name = EXCLUDED.account_holder_name,
+    updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_withdrawal(p_amount numeric)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bank talent_bank_accounts%ROWTYPE;
+  v_withdrawal_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'talent') THEN
+    RAISE EXCEPTION 'Only talents can request a withdrawal' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < 20 THEN
+    RAISE EXCEPTION 'Minimum withdrawal amount is RM20';
+  END IF;
+
+  SELECT * INTO v_bank FROM talent_bank_accounts WHERE talent_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Add your bank details before requesting a withdrawal';
+  END IF;
+
+  -- Serialise withdrawals for this talent so the balance check cannot race
+  PERFORM 1 FROM profiles WHERE id = auth.uid() FOR UPDATE;
+
+  IF ledger_balance(auth.uid(), 'talent_payable') < p_amount THEN
+    RAISE EXCEPTION 'Insufficient available balance';
+  END IF;
+
+  INSERT INTO withdrawal_requests (talent_id, amount, bank_code, bank_name, account_number, account_holder_name)
+  VALUES (auth.uid(), round(p_amount, 2), v_bank.bank_code, v_bank.bank_name, v_bank.account_number, v_bank.account_holder_name)
+  RETURNING id INTO v_withdrawal_id;
+
+  PERFORM ledger_transfer(
+    'withdrawal_request',
+    'Withdrawal Requested - ' || v_bank.bank_name,
+    NULL,
+    ledger_account_id(auth.uid(), 'talent_payable'),
+    ledger_account_id(auth.uid(), 'talent_withdrawal_pending'),
+    round(p_amount, 2)
+  );
+
+  PERFORM refresh_earning_payout_statuses(auth.uid());
+
+  RETURN v_withdrawal_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_withdrawal(p_withdrawal_id uuid, p_approve boolean, p_note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_withdrawal withdrawal_requests%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review withdrawals' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_withdrawal FROM withdrawal_requests WHERE id = p_withdrawal_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Withdrawal request not found';
+  END IF;
+
+  -- Approved requests can still be rejected until they are put in a batch
+  IF v_withdrawal.status NOT IN ('pending', 'approved') OR v_withdrawal.batch_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Withdrawal request can no longer be reviewed';
+  END IF;
+
+  IF p_approve THEN
+    UPDATE withdrawal_requests
+    SET status = 'approved', admin_note = p_note, reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = p_withdrawal_id;
+    RETURN;
+  END IF;
+
+  PERFORM ledger_transfer(
+    'withdrawal_reversal',
+    'Withdrawal Rejected' || COALESCE(' - ' || NULLIF(trim(p_note), ''), ''),
+    NULL,
+    ledger_account_id(v_withdrawal.talent_id, 'talent_withdrawal_pending'),
+    ledger_account_id(v_withdrawal.talent_id, 'talent_payable'),
+    v_withdrawal.amount
+  );
+
+  UPDATE withdrawal_requests
+  SET status = 'rejected', admin_note = p_note, reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = p_withdrawal_id;
+
+  PERFORM refresh_earning_payout_statuses(v_withdrawal.talent_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_payout_batch(p_withdrawal_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_count integer;
+  v_total numeric;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create payout batches' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0) INTO v_count, v_total
+  FROM (
+    SELECT amount FROM withdrawal_requests
+    WHERE id = ANY(p_withdrawal_ids) AND status = 'approved' AND batch_id IS NULL
+    FOR UPDATE
+  ) eligible;
+
+  IF v_count = 0 OR v_count <> COALESCE(array_length(p_withdrawal_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Only approved withdrawals that are not already batched can be added to a payout batch';
+  END IF;
+
+  INSERT INTO payout_batches (reference, total_amount, created_by)
+  VALUES (
+    'PB' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 6)),
+    v_total,
+    auth.uid()
+  )
+  RETURNING id INTO v_batch_id;
+
+  UPDATE withdrawal_requests SET batch_id = v_batch_id WHERE id = ANY(p_withdrawal_ids);
+
+  RETURN v_batch_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_payout_batch_exported(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can export payout batches' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE payout_batches
+  SET status = 'exported', exported_at = COALESCE(exported_at, now())
+  WHERE id = p_batch_id AND status IN ('pending', 'exported');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_payout_batch_paid(p_batch_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch payout_batches%ROWTYPE;
+  r record;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can mark payout batches as paid' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_batch FROM payout_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout batch not found';
+  END IF;
+
+  IF v_batch.status = 'paid' THEN
+    RAISE EXCEPTION 'Payout batch is already paid';
+  END IF;
+
+  FOR r IN
+    SELECT * FROM withdrawal_requests
+    WHERE batch_id = p_batch_id AND status = 'approved'
+    FOR UPDATE
+  LOOP
+    PERFORM ledger_transfer(
+      'talent_payout',
+      'Withdrawal Paid - ' || r.bank_name || ' (' || v_batch.reference || ')',
+      NULL,
+      ledger_account_id(r.talent_id, 'talent_withdrawal_pending'),
+      ledger_account_id(NULL, 'payment_clearing'),
+      r.amount
+    );
+
+    UPDATE withdrawal_requests SET status = 'paid', paid_at = now() WHERE id = r.id;
+
+    PERFORM refresh_earning_payout_statuses(r.talent_id);
+  END LOOP;
+
+  UPDATE payout_batches SET status = 'paid', paid_at = now() WHERE id = p_batch_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_earning_payout_statuses(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION save_bank_account(text, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_withdrawal(numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_withdrawal(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_payout_batch(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_payout_batch_exported(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_payout_batch_paid(uuid) TO authenticated;
@@ -0,0 +1,209 @@
+/*
+  # Payment Provider Top-Ups
+
+  1. New Tables
+    - `payment_intents` - One wallet top-up attempt with a payment provider. The row id is the
+      reference sent to the provider and echoed back in its callbacks
+    - `payment_webhook_events` - Every verified provider callback, keyed by the provider's event
+      id so a redelivered callback is applied only once
+
+  2. Ledger
+    - New entry kind `wallet_top_up_refund` (founder_wallet -> payment_clearing)
+
+  3. Functions
+    - `create_top_up_intent(p_amount, p_method, p_provider)` - Founder starts a top-up
+    - `apply_payment_webhook_event(...)` - Called by the `payment-webhook` edge function with the
+      service role once the provider signature is verified. A top-up credits the wallet only here
+    - `record_wallet_top_up(numeric)` is dropped: clients can no longer credit their own wallet
+*/
+
+ALTER TYPE journal_entry_kind ADD VALUE IF NOT EXISTS 'wallet_top_up_refund';
+
+CREATE TABLE IF NOT EXISTS payment_intents (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  founder_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  provider_intent_id text,
+  method text NOT NULL CHECK (method IN ('card', 'fpx', 'ewallet')),
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'MYR',
+  status text NOT NULL DEFAULT 'requires_confirmation' CHECK (
+    status IN ('requires_confirmation', 'requires_action', 'processing', 'succeeded', 'failed', 'refunded')
+  ),
+  failure_reason text,
+  journal_entry_id uuid REFERENCES journal_entries(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (provider, provider_intent_id)
+);
+
+CREATE INDEX IF NOT EXISTS payment_intents_founder_id_idx ON payment_intents(founder_id);
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL,
+  event_id text NOT NULL,
+  event_type text NOT NULL,
+  payment_intent_id uuid REFERENCES payment_intents(id) ON DELETE SET NULL,
+  payload jsonb NOT NULL,
+  received_at timestamptz DEFAULT now(),
+  UNIQUE (provider, event_id)
+);
+
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Founders can view their payment intents" ON payment_intents;
+CREATE POLICY "Founders can view their payment intents"
+ON payment_intents
+FOR SELECT
+TO authenticated
+USING (
+  founder_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins can view payment webhook events" ON payment_webhook_events;
+CREATE POLICY "Admins can view payment webhook events"
+ON payment_webhook_events
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin'));
+
+DROP FUNCTION IF EXISTS record_wallet_top_up(numeric);
+
+CREATE OR REPLACE FUNCTION create_top_up_intent(p_amount numeric, p_method text, p_provider text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'founder') THEN
+    RAISE EXCEPTION 'Only founders can top up a wallet' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_amount < 10 OR p_amount > 10000 THEN
+    RAISE EXCEPTION 'Top-up amount must be between RM10 and RM10,000';
+  END IF;
+
+  INSERT INTO payment_intents (founder_id, provider, method, amount)
+  VALUES (auth.uid(), p_provider, p_method, round(p_amount, 2))
+  RETURNING id INTO v_intent_id;
+
+  RETURN v_intent_id;
+END;
+$$;
+
+-- Apply one verified provider callback. Returns false when the event was already applied.
+CREATE OR REPLACE FUNCTION apply_payment_webhook_event(
+  p_provider text,
+  p_event_id text,
+  p_event_type text,
+  p_reference uuid,
+  p_provider_intent_id text,
+  p_amount numeric,
+  p_failure_reason text,
+  p_payload jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_intent payment_intents%ROWTYPE;
+  v_entry_id uuid;
+  v_method_label text;
+BEGIN
+  INSERT INTO payment_webhook_events (provider, event_id, event_type, payment_intent_id, payload)
+  VALUES (p_provider, p_event_id, p_event_type, p_reference, p_payload)
+  ON CONFLICT (provider, event_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_intent FROM payment_intents WHERE id = p_reference FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment intent % not found', p_reference;
+  END IF;
+
+  IF v_intent.provider <> p_provider THEN
+    RAISE EXCEPTION 'Payment intent % belongs to provider %', p_reference, v_intent.provider;
+  END IF;
+
+  IF p_amount <> v_intent.amount THEN
+    RAISE EXCEPTION 'Amount mismatch for payment intent %', p_reference;
+  END IF;
+
+  v_method_label := CASE v_intent.method
+    WHEN 'card' THEN 'Credit/Debit Card'
+    WHEN 'fpx' THEN 'FPX Online Banking'
+    ELSE 'E-Wallet'
+  END;
+
+  UPDATE payment_intents
+  SET provider_intent_id = COALESCE(provider_intent_id, p_provider_intent_id), updated_at = now()
+  WHERE id = v_intent.id;
+
+  CASE p_event_type
+    WHEN 'payment_intent.succeeded' THEN
+      IF v_intent.status IN ('succeeded', 'refunded') THEN
+        RETURN true;
+      END IF;
+
+      v_entry_id := ledger_transfer(
+        'wallet_top_up',
+        'Wallet Top Up - ' || v_method_label,
+        NULL,
+        ledger_account_id(NULL, 'payment_clearing'),
+        ledger_account_id(v_intent.founder_id, 'founder_wallet'),
+        v_intent.amount
+      );
+
+      UPDATE payment_intents
+      SET status = 'succeeded', failure_reason = NULL, journal_entry_id = v_entry_id
+      WHERE id = v_intent.id;
+
+    WHEN 'payment_intent.failed' THEN
+      IF v_intent.status NOT IN ('succeeded', 'refunded') THEN
+        UPDATE payment_intents SET status = 'failed', failure_reason = p_failure_reason WHERE id = v_intent.id;
+      END IF;
+
+    WHEN 'payment_intent.requires_action' THEN
+      IF v_intent.status IN ('requires_confirmation', 'processing') THEN
+        UPDATE payment_intents SET status = 'requires_action' WHERE id = v_intent.id;
+      END IF;
+
+    WHEN 'payment_intent.refunded' THEN
+      IF v_intent.status <> 'succeeded' THEN
+        RETURN true;
+      END IF;
+
+      -- The money has already left through the provider, so the wallet may go negative here
+      PERFORM ledger_transfer(
+        'wallet_top_up_refund',
+        'Wallet Top Up Refunded - ' || v_method_label,
+        NULL,
+        ledger_account_id(v_intent.founder_id, 'founder_wallet'),
+        ledger_account_id(NULL, 'payment_clearing'),
+        v_intent.amount
+      );
+
+      UPDATE payment_intents SET status = 'refunded' WHERE id = v_intent.id;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported payment event type %', p_event_type;
+  END CASE;
+
+  RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_top_up_intent(numeric, text, text) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION apply_payment_webhook_event(text, text, text, uuid, text, numeric, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_payment_webhook_event(text, text, text, uuid, text, numeric, text, jsonb) TO service_role;
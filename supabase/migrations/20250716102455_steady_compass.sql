@@ -0,0 +1,165 @@
+/*
+  # Order State Machine
+
+  1. New Tables
+    - `order_status_history` - One row per order status change: who made it and when. Written only
+      by the triggers below, so it is the authoritative order timeline
+
+  2. Triggers
+    - `orders_enforce_status_transition` (BEFORE UPDATE OF status) - Rejects any status change that
+      is not a legal transition, made by the wrong party, or missing the data it needs. Mirrors
+      `src/lib/orderStateMachine.ts`:
+        pending_shipment -> shipped           founder; delivery address, courier and tracking number
+        shipped          -> delivered         founder or talent
+        delivered        -> review_submitted  talent; at least one review media item
+        review_submitted -> delivered         founder rejects the review; submitted media cleared
+        review_submitted -> completed         founder, only through `settle_order_payment`
+      Changes made without a signed-in user (service role jobs) skip the actor check only
+    - `orders_record_status_change` (AFTER INSERT OR UPDATE OF status) - Appends to the history
+
+  3. Data
+    - Existing orders get a creation row and, when already past `pending_shipment`, a row for their
+      current status
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx ON order_status_history(order_id, created_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view status history" ON order_status_history;
+CREATE POLICY "Order parties can view status history"
+ON order_status_history
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = order_status_history.order_id
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_from text := OLD.status::text;
+  v_to text := NEW.status::text;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_from = 'pending_shipment' AND v_to = 'shipped' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can ship this order' USING ERRCODE = '42501';
+    END IF;
+    IF coalesce(trim(NEW.delivery_address), '') = ''
+      OR coalesce(trim(NEW.courier), '') = ''
+      OR coalesce(trim(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Shipping an order requires a delivery address, courier and tracking number';
+    END IF;
+
+  ELSIF v_from = 'shipped' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor NOT IN (OLD.founder_id, OLD.talent_id) THEN
+      RAISE EXCEPTION 'Only the founder or talent can mark this order as delivered' USING ERRCODE = '42501';
+    END IF;
+
+  ELSIF v_from = 'delivered' AND v_to = 'review_submitted' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.talent_id THEN
+      RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NULL OR jsonb_array_length(NEW.review_media) = 0 THEN
+      RAISE EXCEPTION 'Submitting a review requires at least one media file';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can reject this review' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NOT NULL THEN
+      RAISE EXCEPTION 'Rejecting a review must clear the submitted media';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'completed' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can approve this review' USING ERRCODE = '42501';
+    END IF;
+    -- settle_order_payment records the earning before completing the order
+    IF NOT EXISTS (SELECT 1 FROM earnings WHERE order_id = OLD.id) THEN
+      RAISE EXCEPTION 'Orders are completed by approving the review and settling payment';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Illegal order status transition from % to %', v_from, v_to;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::text END,
+    NEW.status::text,
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_order_status_transition() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_order_status_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS orders_enforce_status_transition ON orders;
+CREATE TRIGGER orders_enforce_status_transition
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION enforce_order_status_transition();
+
+DROP TRIGGER IF EXISTS orders_record_status_change ON orders;
+CREATE TRIGGER orders_record_status_change
+AFTER INSERT OR UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION record_order_status_change();
+
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT o.id, NULL, 'pending_shipment', o.founder_id, o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+INSERT INTO order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT o.id, 'pending_shipment', o.status::text, 'Recorded when status history was introduced', coalesce(o.updated_at, o.created_at)
+FROM orders o
+WHERE o.status::text <> 'pending_shipment'
+  AND NOT EXISTS (
+    SELECT 1 FROM order_status_history h WHERE h.order_id = o.id AND h.from_status IS NOT NULL
+  );
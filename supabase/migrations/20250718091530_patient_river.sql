@@ -0,0 +1,280 @@
+/*
+  # Review Revision Rounds
+
+  1. New Tables
+    - `review_submissions` - Every version of a talent's review content for an order. A version
+      is `pending` until the founder approves it or requests a revision; it is never deleted, so
+      earlier versions stay available side by side with the latest one
+
+  2. Campaigns
+    - `campaigns.max_revision_rounds` - How many times the founder may send a submission back
+      (0-5, default 2). Once used up the founder can only approve
+
+  3. Functions
+    - `submit_review_submission(p_order_id, p_media, p_notes)` - Talent submits version N+1
+    - `request_review_revision(p_order_id, p_feedback, p_summary)` - Founder archives the pending
+      version with their feedback (overall summary plus per media item comments) and returns the
+      order to `delivered`
+
+  4. Triggers
+    - `enforce_order_status_transition` now requires a pending submission to enter
+      `review_submitted`, and that it was sent back before leaving it for `delivered`
+    - `orders_approve_review_submission` marks the pending version approved when the order completes
+
+  5. Data
+    - Media already on `orders.review_media` is recorded as version 1
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'campaigns' AND column_name = 'max_revision_rounds'
+  ) THEN
+    ALTER TABLE campaigns ADD COLUMN max_revision_rounds integer NOT NULL DEFAULT 2
+      CHECK (max_revision_rounds BETWEEN 0 AND 5);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS review_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  media jsonb NOT NULL CHECK (jsonb_typeof(media) = 'array' AND jsonb_array_length(media) > 0),
+  notes text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'revision_requested')),
+  -- [{ "media_index": 0, "comment": "..." }], one entry per media item the founder commented on
+  feedback jsonb NOT NULL DEFAULT '[]'::jsonb,
+  feedback_summary text,
+  submitted_at timestamptz DEFAULT now(),
+  reviewed_at timestamptz,
+  UNIQUE (order_id, version)
+);
+
+-- At most one version awaits the founder at a time
+CREATE UNIQUE INDEX IF NOT EXISTS review_submissions_one_pending_idx
+ON review_submissions(order_id) WHERE status = 'pending';
+
+ALTER TABLE review_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Submissions are only written through the SECURITY DEFINER functions below
+DROP POLICY IF EXISTS "Order parties can view review submissions" ON review_submissions;
+CREATE POLICY "Order parties can view review submissions"
+ON review_submissions
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = review_submissions.order_id
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+INSERT INTO review_submissions (order_id, version, media, status, submitted_at, reviewed_at)
+SELECT
+  o.id,
+  1,
+  o.review_media,
+  CASE WHEN o.status::text = 'completed' THEN 'approved' ELSE 'pending' END,
+  coalesce(o.review_submitted_at, o.updated_at, o.created_at),
+  CASE WHEN o.status::text = 'completed' THEN o.updated_at END
+FROM orders o
+WHERE o.status::text IN ('review_submitted', 'completed')
+  AND o.review_media IS NOT NULL
+  AND jsonb_array_length(o.review_media) > 0
+  AND NOT EXISTS (SELECT 1 FROM review_submissions s WHERE s.order_id = o.id);
+
+CREATE OR REPLACE FUNCTION submit_review_submission(p_order_id uuid, p_media jsonb, p_notes text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_version integer;
+  v_submission_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.talent_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status::text <> 'delivered' THEN
+    RAISE EXCEPTION 'Reviews can only be submitted once the product is delivered';
+  END IF;
+
+  IF p_media IS NULL OR jsonb_typeof(p_media) <> 'array' OR jsonb_array_length(p_media) = 0 THEN
+    RAISE EXCEPTION 'Submitting a review requires at least one media file';
+  END IF;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version FROM review_submissions WHERE order_id = p_order_id;
+
+  INSERT INTO review_submissions (order_id, version, media, notes)
+  VALUES (p_order_id, v_version, p_media, nullif(trim(p_notes), ''))
+  RETURNING id INTO v_submission_id;
+
+  UPDATE orders
+  SET status = 'review_submitted', review_media = p_media, review_submitted_at = now()
+  WHERE id = p_order_id;
+
+  RETURN v_submission_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_review_revision(p_order_id uuid, p_feedback jsonb, p_summary text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_max_rounds integer;
+  v_used_rounds integer;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the founder can request a revision' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status::text <> 'review_submitted' THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  IF coalesce(trim(p_summary), '') = '' THEN
+    RAISE EXCEPTION 'Please explain what needs to change';
+  END IF;
+
+  IF p_feedback IS NULL OR jsonb_typeof(p_feedback) <> 'array' THEN
+    RAISE EXCEPTION 'Feedback must be a list of media comments';
+  END IF;
+
+  SELECT max_revision_rounds INTO v_max_rounds FROM campaigns WHERE id = v_order.campaign_id;
+  SELECT count(*) INTO v_used_rounds
+  FROM review_submissions
+  WHERE order_id = p_order_id AND status = 'revision_requested';
+
+  IF v_used_rounds >= v_max_rounds THEN
+    RAISE EXCEPTION 'All % revision rounds for this campaign have been used', v_max_rounds;
+  END IF;
+
+  UPDATE review_submissions
+  SET status = 'revision_requested', feedback = p_feedback, feedback_summary = trim(p_summary), reviewed_at = now()
+  WHERE order_id = p_order_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  UPDATE orders
+  SET status = 'delivered', review_media = NULL, review_submitted_at = NULL
+  WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_from text := OLD.status::text;
+  v_to text := NEW.status::text;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_from = 'pending_shipment' AND v_to = 'shipped' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can ship this order' USING ERRCODE = '42501';
+    END IF;
+    IF coalesce(trim(NEW.delivery_address), '') = ''
+      OR coalesce(trim(NEW.courier), '') = ''
+      OR coalesce(trim(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Shipping an order requires a delivery address, courier and tracking number';
+    END IF;
+
+  ELSIF v_from = 'shipped' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor NOT IN (OLD.founder_id, OLD.talent_id) THEN
+      RAISE EXCEPTION 'Only the founder or talent can mark this order as delivered' USING ERRCODE = '42501';
+    END IF;
+
+  ELSIF v_from = 'delivered' AND v_to = 'review_submitted' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.talent_id THEN
+      RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NULL OR jsonb_array_length(NEW.review_media) = 0 THEN
+      RAISE EXCEPTION 'Submitting a review requires at least one media file';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Reviews are submitted through submit_review_submission';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can request a revision' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NOT NULL THEN
+      RAISE EXCEPTION 'Requesting a revision must clear the current submission';
+    END IF;
+    IF EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Revisions are requested through request_review_revision';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'completed' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can approve this review' USING ERRCODE = '42501';
+    END IF;
+    -- settle_order_payment records the earning before completing the order
+    IF NOT EXISTS (SELECT 1 FROM earnings WHERE order_id = OLD.id) THEN
+      RAISE EXCEPTION 'Orders are completed by approving the review and settling payment';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Illegal order status transition from % to %', v_from, v_to;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_review_submission_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE review_submissions
+  SET status = 'approved', reviewed_at = now()
+  WHERE order_id = NEW.id AND status = 'pending';
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approve_review_submission_on_completion() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS orders_approve_review_submission ON orders;
+CREATE TRIGGER orders_approve_review_submission
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status::text = 'completed' AND OLD.status::text <> 'completed')
+EXECUTE FUNCTION approve_review_submission_on_completion();
+
+GRANT EXECUTE ON FUNCTION submit_review_submission(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_review_revision(uuid, jsonb, text) TO authenticated;
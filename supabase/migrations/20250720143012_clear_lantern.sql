@@ -0,0 +1,82 @@
+/*
+  # Review Annotations
+
+  1. New Tables
+    - `review_annotations` - A founder comment pinned to one media item of one submission version,
+      either at a video timestamp (`timestamp_seconds`) or to a rectangle on an image
+      (`region_x`, `region_y`, `region_width`, `region_height`, as fractions of the image size so
+      pins line up at any display size)
+
+  2. Security
+    - Both parties to the order can read its annotations; admins can read all
+    - Only the order's founder can add annotations, and only to a version that exists and
+      contains that media item. They can delete their own
+*/
+
+CREATE TABLE IF NOT EXISTS review_annotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  submission_version integer NOT NULL,
+  media_url text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('timestamp', 'region')),
+  timestamp_seconds numeric(10,3) CHECK (timestamp_seconds >= 0),
+  region_x numeric(6,5) CHECK (region_x BETWEEN 0 AND 1),
+  region_y numeric(6,5) CHECK (region_y BETWEEN 0 AND 1),
+  region_width numeric(6,5) CHECK (region_width > 0 AND region_width <= 1),
+  region_height numeric(6,5) CHECK (region_height > 0 AND region_height <= 1),
+  comment text NOT NULL CHECK (length(trim(comment)) > 0),
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  FOREIGN KEY (order_id, submission_version) REFERENCES review_submissions(order_id, version) ON DELETE CASCADE,
+  CHECK (
+    (kind = 'timestamp' AND timestamp_seconds IS NOT NULL AND region_x IS NULL) OR
+    (kind = 'region' AND timestamp_seconds IS NULL
+      AND region_x IS NOT NULL AND region_y IS NOT NULL
+      AND region_width IS NOT NULL AND region_height IS NOT NULL
+      AND region_x + region_width <= 1 AND region_y + region_height <= 1)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS review_annotations_order_idx ON review_annotations(order_id, submission_version);
+
+ALTER TABLE review_annotations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view review annotations" ON review_annotations;
+CREATE POLICY "Order parties can view review annotations"
+ON review_annotations
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = review_annotations.order_id
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Founders can annotate their order reviews" ON review_annotations;
+CREATE POLICY "Founders can annotate their order reviews"
+ON review_annotations
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  created_by = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = review_annotations.order_id AND orders.founder_id = auth.uid()
+  ) AND
+  EXISTS (
+    SELECT 1 FROM review_submissions s
+    WHERE s.order_id = review_annotations.order_id
+      AND s.version = review_annotations.submission_version
+      AND s.media @> jsonb_build_array(jsonb_build_object('url', review_annotations.media_url))
+  )
+);
+
+DROP POLICY IF EXISTS "Founders can delete their review annotations" ON review_annotations;
+CREATE POLICY "Founders can delete their review annotations"
+ON review_annotations
+FOR DELETE
+TO authenticated
+USING (created_by = auth.uid());
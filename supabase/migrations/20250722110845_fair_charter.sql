@@ -0,0 +1,196 @@
+/*
+  # Content Usage Rights
+
+  1. Campaigns and Orders
+    - `campaigns.usage_rights` - The license terms the founder is buying with the content:
+        usage               'organic' or 'paid_ads'
+        duration_months     how long the founder may use the content
+        territories         where it may be used
+        name_and_likeness   whether the talent's name and likeness may be used
+        whitelisting        whether the talent grants whitelisting / Spark Ads access
+    - `orders.usage_rights` - Copied from the campaign when the order is created, so editing a
+      campaign never changes the terms a talent already agreed to
+
+  2. New Tables
+    - `content_licenses` - One license per completed order, generated when the founder approves the
+      review. Runs from approval for `duration_months`
+
+  3. Security
+    - Both parties to the order can read its license; admins can read all. Licenses are written only
+      by the trigger below
+
+  4. Data
+    - Existing campaigns and orders get organic, 3 month, Malaysia only terms, and completed orders
+      get a license starting when they were completed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'campaigns' AND column_name = 'usage_rights'
+  ) THEN
+    ALTER TABLE campaigns
+    ADD COLUMN usage_rights jsonb NOT NULL DEFAULT
+      '{"usage": "organic", "duration_months": 3, "territories": ["Malaysia"], "name_and_likeness": false, "whitelisting": false}'::jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'usage_rights'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN usage_rights jsonb;
+  END IF;
+END $$;
+
+UPDATE orders
+SET usage_rights = campaigns.usage_rights
+FROM campaigns
+WHERE campaigns.id = orders.campaign_id AND orders.usage_rights IS NULL;
+
+CREATE TABLE IF NOT EXISTS content_licenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  license_number text NOT NULL UNIQUE,
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  campaign_id uuid NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  founder_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  talent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  usage text NOT NULL CHECK (usage IN ('organic', 'paid_ads')),
+  duration_months integer NOT NULL CHECK (duration_months > 0),
+  territories text[] NOT NULL CHECK (cardinality(territories) > 0),
+  name_and_likeness boolean NOT NULL DEFAULT false,
+  whitelisting boolean NOT NULL DEFAULT false,
+  starts_at timestamptz NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (expires_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS content_licenses_founder_idx ON content_licenses(founder_id, expires_at);
+CREATE INDEX IF NOT EXISTS content_licenses_talent_idx ON content_licenses(talent_id, expires_at);
+
+ALTER TABLE content_licenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view content licenses" ON content_licenses;
+CREATE POLICY "Order parties can view content licenses"
+ON content_licenses
+FOR SELECT
+TO authenticated
+USING (
+  founder_id = auth.uid() OR
+  talent_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION copy_campaign_usage_rights()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT usage_rights INTO NEW.usage_rights
+  FROM campaigns
+  WHERE id = NEW.campaign_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_content_license(p_order_id uuid, p_starts_at timestamptz)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_rights jsonb;
+  v_months integer;
+  v_license_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_rights := COALESCE(
+    v_order.usage_rights,
+    (SELECT usage_rights FROM campaigns WHERE id = v_order.campaign_id)
+  );
+  v_months := (v_rights->>'duration_months')::integer;
+
+  INSERT INTO content_licenses (
+    license_number,
+    order_id,
+    campaign_id,
+    founder_id,
+    talent_id,
+    usage,
+    duration_months,
+    territories,
+    name_and_likeness,
+    whitelisting,
+    starts_at,
+    expires_at
+  )
+  VALUES (
+    'LIC-' || to_char(p_starts_at, 'YYYYMMDD') || '-' || upper(substr(replace(p_order_id::text, '-', ''), 1, 8)),
+    v_order.id,
+    v_order.campaign_id,
+    v_order.founder_id,
+    v_order.talent_id,
+    v_rights->>'usage',
+    v_months,
+    ARRAY(SELECT jsonb_array_elements_text(v_rights->'territories')),
+    COALESCE((v_rights->>'name_and_likeness')::boolean, false),
+    COALESCE((v_rights->>'whitelisting')::boolean, false),
+    p_starts_at,
+    p_starts_at + make_interval(months => v_months)
+  )
+  ON CONFLICT (order_id) DO NOTHING
+  RETURNING id INTO v_license_id;
+
+  RETURN v_license_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_content_license_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM issue_content_license(NEW.id, now());
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION copy_campaign_usage_rights() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_content_license(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION issue_content_license_on_completion() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS orders_copy_usage_rights ON orders;
+CREATE TRIGGER orders_copy_usage_rights
+BEFORE INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION copy_campaign_usage_rights();
+
+DROP TRIGGER IF EXISTS orders_issue_content_license ON orders;
+CREATE TRIGGER orders_issue_content_license
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status::text = 'completed' AND OLD.status::text <> 'completed')
+EXECUTE FUNCTION issue_content_license_on_completion();
+
+-- Orders completed before licensing existed
+SELECT issue_content_license(orders.id, COALESCE(history.completed_at, orders.updated_at, now()))
+FROM orders
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS completed_at
+  FROM order_status_history
+  WHERE order_id = orders.id AND to_status = 'completed'
+) history ON true
+WHERE orders.status::text = 'completed';
@@ -0,0 +1,374 @@
+/*
+  # Order Disputes
+
+  1. New Tables
+    - `order_disputes` - A disagreement escalated to the admins by the founder or talent of an
+      order. At most one dispute per order is `open` at a time. Resolving it records the outcome
+      (`refund_founder`, `release_talent` or `split`) and how much went to each side
+
+  2. Orders and Escrow
+    - `orders.status` gains `refunded`, the terminal status of an order whose escrow was returned
+      to the founder in full
+    - `escrow_holds.status` gains `frozen`: the hold of a disputed order, which nothing but the
+      dispute resolution can release
+
+  3. Functions
+    - `open_order_dispute(p_order_id, p_reason, p_description)` - Either party opens a dispute on
+      an order that is not yet completed; freezes its escrow and posts a notice to the order chat
+    - `resolve_order_dispute(p_dispute_id, p_resolution, p_talent_amount, p_note)` - Admin only.
+      Moves the escrow to the talent (`escrow_release`) and/or back to the founder
+      (`escrow_refund`). Any amount paid to the talent is recorded as an earning and completes the
+      order; a full refund moves it to `refunded`. No platform fee is charged on either side.
+      Both parties are notified in the order chat
+
+  4. Triggers
+    - `enforce_order_status_transition` rejects every status change while a dispute is open, and
+      lets a resolved dispute close the order from whichever status it was in
+
+  5. Security
+    - Both parties can read their order's disputes; admins can read all disputes and the chat of
+      any disputed order as evidence
+*/
+
+-- orders.status predates these migrations and may be an enum or a checked text column
+DO $$
+DECLARE
+  v_type oid;
+  v_constraint text;
+BEGIN
+  SELECT atttypid INTO v_type
+  FROM pg_attribute
+  WHERE attrelid = 'orders'::regclass AND attname = 'status';
+
+  IF EXISTS (SELECT 1 FROM pg_type WHERE oid = v_type AND typtype = 'e') THEN
+    EXECUTE format('ALTER TYPE %s ADD VALUE IF NOT EXISTS %L', v_type::regtype, 'refunded');
+  ELSE
+    FOR v_constraint IN
+      SELECT conname FROM pg_constraint
+      WHERE conrelid = 'orders'::regclass AND contype = 'c' AND pg_get_constraintdef(oid) LIKE '%status%'
+    LOOP
+      EXECUTE format('ALTER TABLE orders DROP CONSTRAINT %I', v_constraint);
+    END LOOP;
+
+    ALTER TABLE orders ADD CONSTRAINT orders_status_check
+      CHECK (status IN ('pending_shipment', 'shipped', 'delivered', 'review_submitted', 'completed', 'refunded'));
+  END IF;
+END $$;
+
+ALTER TABLE escrow_holds DROP CONSTRAINT IF EXISTS escrow_holds_status_check;
+ALTER TABLE escrow_holds ADD CONSTRAINT escrow_holds_status_check
+  CHECK (status IN ('held', 'frozen', 'released', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS order_disputes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  opened_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (reason IN ('product_not_received', 'review_rejected_unfairly', 'content_not_as_agreed', 'no_response', 'other')),
+  description text NOT NULL CHECK (length(trim(description)) > 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution text CHECK (resolution IN ('refund_founder', 'release_talent', 'split')),
+  talent_amount numeric(10,2) CHECK (talent_amount >= 0),
+  founder_amount numeric(10,2) CHECK (founder_amount >= 0),
+  resolution_note text,
+  resolved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (
+    (status = 'open' AND resolution IS NULL) OR
+    (status = 'resolved' AND resolution IS NOT NULL AND talent_amount IS NOT NULL AND founder_amount IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS order_disputes_one_open_idx ON order_disputes(order_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS order_disputes_status_idx ON order_disputes(status, created_at);
+
+ALTER TABLE order_disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view disputes" ON order_disputes;
+CREATE POLICY "Order parties can view disputes"
+ON order_disputes
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = order_disputes.order_id
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Admins can view messages of disputed orders" ON messages;
+CREATE POLICY "Admins can view messages of disputed orders"
+ON messages
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') AND
+  EXISTS (SELECT 1 FROM order_disputes WHERE order_disputes.order_id = messages.order_id)
+);
+
+CREATE OR REPLACE FUNCTION open_order_dispute(p_order_id uuid, p_reason text, p_description text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_dispute_id uuid;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS NULL OR auth.uid() NOT IN (v_order.founder_id, v_order.talent_id) THEN
+    RAISE EXCEPTION 'Only the founder or talent of this order can open a dispute' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status::text IN ('completed', 'refunded') THEN
+    RAISE EXCEPTION 'This order is already closed';
+  END IF;
+
+  IF coalesce(trim(p_description), '') = '' THEN
+    RAISE EXCEPTION 'Please describe the problem';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_disputes WHERE order_id = p_order_id AND status = 'open') THEN
+    RAISE EXCEPTION 'This order already has an open dispute';
+  END IF;
+
+  INSERT INTO order_disputes (order_id, opened_by, reason, description)
+  VALUES (p_order_id, auth.uid(), p_reason, trim(p_description))
+  RETURNING id INTO v_dispute_id;
+
+  UPDATE escrow_holds SET status = 'frozen' WHERE order_id = p_order_id AND status = 'held';
+
+  INSERT INTO messages (order_id, sender_id, content, read)
+  VALUES (
+    p_order_id,
+    auth.uid(),
+    'I have opened a dispute on this order. Payment is on hold until an admin resolves it.' || E'\n\n' || trim(p_description),
+    false
+  );
+
+  RETURN v_dispute_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_order_dispute(
+  p_dispute_id uuid,
+  p_resolution text,
+  p_talent_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute order_disputes%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_hold escrow_holds%ROWTYPE;
+  v_amount numeric;
+  v_talent_amount numeric;
+  v_founder_amount numeric;
+  v_source_account uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_dispute FROM order_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_dispute.order_id FOR UPDATE;
+  SELECT * INTO v_campaign FROM campaigns WHERE id = v_order.campaign_id;
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = v_order.id AND status IN ('held', 'frozen') FOR UPDATE;
+  v_amount := COALESCE(v_hold.amount, v_order.payout);
+
+  v_talent_amount := CASE p_resolution
+    WHEN 'refund_founder' THEN 0
+    WHEN 'release_talent' THEN v_amount
+    WHEN 'split' THEN round(p_talent_amount, 2)
+  END;
+
+  IF v_talent_amount IS NULL THEN
+    RAISE EXCEPTION 'Unknown dispute resolution %', p_resolution;
+  END IF;
+
+  IF p_resolution = 'split' AND (v_talent_amount <= 0 OR v_talent_amount >= v_amount) THEN
+    RAISE EXCEPTION 'A split must give each side part of the RM% held', v_amount;
+  END IF;
+
+  v_founder_amount := v_amount - v_talent_amount;
+
+  -- Orders approved before escrow existed pay the talent straight from the wallet and have
+  -- nothing to refund
+  IF v_hold.id IS NOT NULL THEN
+    v_source_account := ledger_account_id(v_order.founder_id, 'escrow');
+  ELSE
+    v_source_account := ledger_account_id(v_order.founder_id, 'founder_wallet');
+    v_founder_amount := 0;
+
+    IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_talent_amount THEN
+      RAISE EXCEPTION 'Insufficient wallet balance';
+    END IF;
+  END IF;
+
+  IF v_talent_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Dispute Resolution - ' || v_campaign.title,
+      v_order.id,
+      v_source_account,
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_talent_amount
+    );
+
+    INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+    VALUES (v_order.talent_id, v_order.id, v_campaign.title, v_talent_amount, 'paid', now());
+  END IF;
+
+  IF v_founder_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_refund',
+      'Dispute Refund - ' || v_campaign.title,
+      v_order.id,
+      v_source_account,
+      ledger_account_id(v_order.founder_id, 'founder_wallet'),
+      v_founder_amount
+    );
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    UPDATE escrow_holds
+    SET status = CASE WHEN v_talent_amount > 0 THEN 'released' ELSE 'refunded' END,
+        released_at = now()
+    WHERE id = v_hold.id;
+  END IF;
+
+  -- Resolved before the order moves, so the status trigger lets it close
+  UPDATE order_disputes
+  SET status = 'resolved',
+      resolution = p_resolution,
+      talent_amount = v_talent_amount,
+      founder_amount = v_founder_amount,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  UPDATE orders
+  SET status = CASE WHEN v_talent_amount > 0 THEN 'completed' ELSE 'refunded' END,
+      updated_at = now()
+  WHERE id = v_order.id;
+
+  INSERT INTO messages (order_id, sender_id, content, read)
+  VALUES (
+    v_order.id,
+    auth.uid(),
+    'Dispute resolved by GambarKaca: RM' || to_char(v_talent_amount, 'FM999999990.00') || ' paid to the talent, RM' ||
+      to_char(v_founder_amount, 'FM999999990.00') || ' refunded to the founder.' ||
+      CASE WHEN NULLIF(trim(p_note), '') IS NOT NULL THEN E'\n\n' || trim(p_note) ELSE '' END,
+    false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_from text := OLD.status::text;
+  v_to text := NEW.status::text;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_disputes WHERE order_id = OLD.id AND status = 'open') THEN
+    RAISE EXCEPTION 'This order is on hold while its dispute is open';
+  END IF;
+
+  -- resolve_order_dispute closes the order from whichever status it was disputed in
+  IF v_to IN ('completed', 'refunded') AND v_from NOT IN ('completed', 'refunded')
+    AND EXISTS (SELECT 1 FROM order_disputes WHERE order_id = OLD.id AND status = 'resolved') THEN
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF v_from = 'pending_shipment' AND v_to = 'shipped' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can ship this order' USING ERRCODE = '42501';
+    END IF;
+    IF coalesce(trim(NEW.delivery_address), '') = ''
+      OR coalesce(trim(NEW.courier), '') = ''
+      OR coalesce(trim(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Shipping an order requires a delivery address, courier and tracking number';
+    END IF;
+
+  ELSIF v_from = 'shipped' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor NOT IN (OLD.founder_id, OLD.talent_id) THEN
+      RAISE EXCEPTION 'Only the founder or talent can mark this order as delivered' USING ERRCODE = '42501';
+    END IF;
+
+  ELSIF v_from = 'delivered' AND v_to = 'review_submitted' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.talent_id THEN
+      RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NULL OR jsonb_array_length(NEW.review_media) = 0 THEN
+      RAISE EXCEPTION 'Submitting a review requires at least one media file';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Reviews are submitted through submit_review_submission';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can request a revision' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NOT NULL THEN
+      RAISE EXCEPTION 'Requesting a revision must clear the current submission';
+    END IF;
+    IF EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Revisions are requested through request_review_revision';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'completed' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can approve this review' USING ERRCODE = '42501';
+    END IF;
+    -- settle_order_payment records the earning before completing the order
+    IF NOT EXISTS (SELECT 1 FROM earnings WHERE order_id = OLD.id) THEN
+      RAISE EXCEPTION 'Orders are completed by approving the review and settling payment';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Illegal order status transition from % to %', v_from, v_to;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_order_status_transition() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION open_order_dispute(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_order_dispute(uuid, text, numeric, text) TO authenticated;
@@ -0,0 +1,163 @@
+/*
+  # Courier Tracking
+
+  1. Orders
+    - `orders.tracking_status` - The latest normalized status reported by the courier
+    - `orders.tracking_checked_at` - When the `poll-shipments` edge function last asked the courier,
+      so the least recently checked shipments are polled first
+
+  2. New Tables
+    - `shipment_tracking_events` - Every tracking event reported for an order's shipment, in our
+      normalized statuses. A courier repeating an event does not duplicate it
+
+  3. Functions
+    - `record_shipment_tracking(p_order_id, p_events)` - Called by `poll-shipments` with the
+      service role. Stores new events and moves a shipped order to `delivered` once the courier
+      reports delivery, unless the order is under dispute
+
+  4. Schedule
+    - When pg_cron and pg_net are enabled, `poll-shipments` runs every 30 minutes. It reads the
+      project URL and service role key from the Vault secrets `project_url` and `service_role_key`
+
+  5. Security
+    - Both parties can read their order's tracking events; admins can read all
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'tracking_status'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN tracking_status text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'tracking_checked_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN tracking_checked_at timestamptz;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS shipment_tracking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  courier text NOT NULL,
+  tracking_number text NOT NULL,
+  status text NOT NULL CHECK (
+    status IN ('info_received', 'in_transit', 'out_for_delivery', 'delivered', 'failed_attempt', 'returned', 'exception')
+  ),
+  description text NOT NULL,
+  location text,
+  occurred_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (order_id, tracking_number, occurred_at, status, description)
+);
+
+CREATE INDEX IF NOT EXISTS shipment_tracking_events_order_id_idx ON shipment_tracking_events(order_id, occurred_at);
+CREATE INDEX IF NOT EXISTS orders_shipped_tracking_idx ON orders(tracking_checked_at NULLS FIRST) WHERE status::text = 'shipped';
+
+ALTER TABLE shipment_tracking_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view tracking events" ON shipment_tracking_events;
+CREATE POLICY "Order parties can view tracking events"
+ON shipment_tracking_events
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = shipment_tracking_events.order_id
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- p_events is an array of { status, description, location, occurred_at } in our normalized form.
+-- Returns whether this call moved the order to delivered
+CREATE OR REPLACE FUNCTION record_shipment_tracking(p_order_id uuid, p_events jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_latest text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  INSERT INTO shipment_tracking_events (order_id, courier, tracking_number, status, description, location, occurred_at)
+  SELECT
+    v_order.id,
+    v_order.courier,
+    v_order.tracking_number,
+    event->>'status',
+    event->>'description',
+    nullif(event->>'location', ''),
+    (event->>'occurred_at')::timestamptz
+  FROM jsonb_array_elements(coalesce(p_events, '[]'::jsonb)) AS event
+  ON CONFLICT (order_id, tracking_number, occurred_at, status, description) DO NOTHING;
+
+  SELECT status INTO v_latest
+  FROM shipment_tracking_events
+  WHERE order_id = v_order.id AND tracking_number = v_order.tracking_number
+  ORDER BY occurred_at DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE orders
+  SET tracking_status = v_latest,
+      tracking_checked_at = now()
+  WHERE id = v_order.id;
+
+  -- A disputed order stays where it is until an admin resolves the dispute
+  IF v_order.status::text <> 'shipped'
+    OR NOT EXISTS (
+      SELECT 1 FROM shipment_tracking_events
+      WHERE order_id = v_order.id AND tracking_number = v_order.tracking_number AND status = 'delivered'
+    )
+    OR EXISTS (SELECT 1 FROM order_disputes WHERE order_id = v_order.id AND status = 'open') THEN
+    RETURN false;
+  END IF;
+
+  -- Runs without a user, which enforce_order_status_transition allows for shipped -> delivered
+  UPDATE orders SET status = 'delivered' WHERE id = v_order.id;
+
+  UPDATE order_status_history
+  SET note = 'Delivery confirmed by ' || v_order.courier || ' tracking'
+  WHERE order_id = v_order.id
+    AND to_status = 'delivered'
+    AND changed_by IS NULL
+    AND created_at = now();
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_shipment_tracking(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_shipment_tracking(uuid, jsonb) TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'poll-shipments',
+      '*/30 * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/poll-shipments',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,304 @@
+/*
+  # Talent Shipping Addresses
+
+  1. New Tables
+    - `talent_addresses` - A talent's address book. Only the talent can read it; at most one
+      address is their default
+    - `order_shipping_addresses` - The address a talent picked when applying, copied onto the order
+      when the application is approved so later edits to the address book do not move a parcel
+
+  2. Applications
+    - `campaign_applications.address_id` - The address picked when applying. It must belong to the
+      applying talent
+
+  3. Functions
+    - `postcode_in_state(p_postcode, p_state)` - Whether a Malaysian postcode belongs to the state
+    - `save_shipping_address(...)` - Talent adds or updates an address
+    - `delete_shipping_address(p_address_id)` - Talent removes an address
+
+  4. Privacy
+    - The founder can read the order's shipping address from approval until the order is completed
+      or refunded. Closing the order also cuts `orders.delivery_address` down to city and state.
+      Orders without a copied address, from before this migration, keep what the founder typed
+*/
+
+CREATE OR REPLACE FUNCTION postcode_in_state(p_postcode text, p_state text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_postcode ~ '^[0-9]{5}$' AND CASE p_state
+    WHEN 'Perlis' THEN p_postcode::int BETWEEN 1000 AND 2999
+    WHEN 'Kedah' THEN p_postcode::int BETWEEN 5000 AND 9999
+    WHEN 'Pulau Pinang' THEN p_postcode::int BETWEEN 10000 AND 14999
+    WHEN 'Kelantan' THEN p_postcode::int BETWEEN 15000 AND 18999
+    WHEN 'Terengganu' THEN p_postcode::int BETWEEN 20000 AND 24999
+    WHEN 'Pahang' THEN p_postcode::int BETWEEN 25000 AND 28999 OR p_postcode::int BETWEEN 39000 AND 39999
+      OR p_postcode::int BETWEEN 49000 AND 49999 OR p_postcode::int BETWEEN 69000 AND 69999
+    WHEN 'Perak' THEN p_postcode::int BETWEEN 30000 AND 36999
+    WHEN 'Selangor' THEN p_postcode::int BETWEEN 40000 AND 48999 OR p_postcode::int BETWEEN 63000 AND 68999
+    WHEN 'Wilayah Persekutuan Kuala Lumpur' THEN p_postcode::int BETWEEN 50000 AND 60999
+    WHEN 'Wilayah Persekutuan Putrajaya' THEN p_postcode::int BETWEEN 62000 AND 62999
+    WHEN 'Negeri Sembilan' THEN p_postcode::int BETWEEN 70000 AND 73999
+    WHEN 'Melaka' THEN p_postcode::int BETWEEN 75000 AND 78999
+    WHEN 'Johor' THEN p_postcode::int BETWEEN 79000 AND 86999
+    WHEN 'Wilayah Persekutuan Labuan' THEN p_postcode::int BETWEEN 87000 AND 87999
+    WHEN 'Sabah' THEN p_postcode::int BETWEEN 88000 AND 91999
+    WHEN 'Sarawak' THEN p_postcode::int BETWEEN 93000 AND 98999
+    ELSE false
+  END;
+$$;
+
+CREATE TABLE IF NOT EXISTS talent_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  talent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  label text NOT NULL DEFAULT 'Home',
+  recipient_name text NOT NULL CHECK (length(trim(recipient_name)) > 0),
+  phone text NOT NULL CHECK (phone ~ '^\+?[0-9]{9,13}$'),
+  line1 text NOT NULL CHECK (length(trim(line1)) > 0),
+  line2 text,
+  postcode text NOT NULL,
+  city text NOT NULL CHECK (length(trim(city)) > 0),
+  state text NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (postcode_in_state(postcode, state))
+);
+
+CREATE INDEX IF NOT EXISTS talent_addresses_talent_id_idx ON talent_addresses(talent_id);
+CREATE UNIQUE INDEX IF NOT EXISTS talent_addresses_one_default_idx ON talent_addresses(talent_id) WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS order_shipping_addresses (
+  order_id uuid PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  talent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  recipient_name text NOT NULL,
+  phone text NOT NULL,
+  line1 text NOT NULL,
+  line2 text,
+  postcode text NOT NULL,
+  city text NOT NULL,
+  state text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'campaign_applications' AND column_name = 'address_id'
+  ) THEN
+    ALTER TABLE campaign_applications ADD COLUMN address_id uuid REFERENCES talent_addresses(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+ALTER TABLE talent_addresses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_shipping_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Talents can view their addresses" ON talent_addresses;
+CREATE POLICY "Talents can view their addresses"
+ON talent_addresses
+FOR SELECT
+TO authenticated
+USING (talent_id = auth.uid());
+
+DROP POLICY IF EXISTS "Order parties can view the shipping address while it is needed" ON order_shipping_addresses;
+CREATE POLICY "Order parties can view the shipping address while it is needed"
+ON order_shipping_addresses
+FOR SELECT
+TO authenticated
+USING (
+  talent_id = auth.uid() OR
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = order_shipping_addresses.order_id
+      AND orders.founder_id = auth.uid()
+      AND orders.status::text NOT IN ('completed', 'refunded')
+  ) OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION save_shipping_address(
+  p_address_id uuid,
+  p_label text,
+  p_recipient_name text,
+  p_phone text,
+  p_line1 text,
+  p_line2 text,
+  p_postcode text,
+  p_city text,
+  p_state text,
+  p_is_default boolean
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_address_id uuid;
+  v_phone text := regexp_replace(p_phone, '[\s()-]', '', 'g');
+  v_is_default boolean;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'talent') THEN
+    RAISE EXCEPTION 'Only talents can keep shipping addresses' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT postcode_in_state(trim(p_postcode), p_state) THEN
+    RAISE EXCEPTION 'Postcode % is not in %', trim(p_postcode), p_state;
+  END IF;
+
+  -- The first address is the default whatever was asked
+  v_is_default := p_is_default OR NOT EXISTS (
+    SELECT 1 FROM talent_addresses WHERE talent_id = auth.uid() AND id IS DISTINCT FROM p_address_id
+  );
+
+  IF v_is_default THEN
+    UPDATE talent_addresses
+    SET is_default = false
+    WHERE talent_id = auth.uid() AND is_default AND id IS DISTINCT FROM p_address_id;
+  END IF;
+
+  IF p_address_id IS NULL THEN
+    INSERT INTO talent_addresses (talent_id, label, recipient_name, phone, line1, line2, postcode, city, state, is_default)
+    VALUES (
+      auth.uid(), coalesce(nullif(trim(p_label), ''), 'Home'), trim(p_recipient_name), v_phone, trim(p_line1),
+      nullif(trim(p_line2), ''), trim(p_postcode), trim(p_city), p_state, v_is_default
+    )
+    RETURNING id INTO v_address_id;
+  ELSE
+    UPDATE talent_addresses
+    SET label = coalesce(nullif(trim(p_label), ''), 'Home'),
+        recipient_name = trim(p_recipient_name),
+        phone = v_phone,
+        line1 = trim(p_line1),
+        line2 = nullif(trim(p_line2), ''),
+        postcode = trim(p_postcode),
+        city = trim(p_city),
+        state = p_state,
+        is_default = v_is_default,
+        updated_at = now()
+    WHERE id = p_address_id AND talent_id = auth.uid()
+    RETURNING id INTO v_address_id;
+
+    IF v_address_id IS NULL THEN
+      RAISE EXCEPTION 'Address not found';
+    END IF;
+  END IF;
+
+  RETURN v_address_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_shipping_address(p_address_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_was_default boolean;
+BEGIN
+  DELETE FROM talent_addresses
+  WHERE id = p_address_id AND talent_id = auth.uid()
+  RETURNING is_default INTO v_was_default;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Address not found';
+  END IF;
+
+  -- Hand the default on to the most recently added address left
+  IF v_was_default THEN
+    UPDATE talent_addresses
+    SET is_default = true
+    WHERE id = (
+      SELECT id FROM talent_addresses
+      WHERE talent_id = auth.uid()
+      ORDER BY created_at DESC
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_application_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM talent_addresses WHERE id = NEW.address_id AND talent_id = NEW.talent_id
+  ) THEN
+    RAISE EXCEPTION 'The shipping address must be one of your own' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION copy_application_shipping_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_shipping_addresses (order_id, talent_id, recipient_name, phone, line1, line2, postcode, city, state)
+  SELECT NEW.id, NEW.talent_id, a.recipient_name, a.phone, a.line1, a.line2, a.postcode, a.city, a.state
+  FROM campaign_applications ca
+  JOIN talent_addresses a ON a.id = ca.address_id
+  WHERE ca.campaign_id = NEW.campaign_id AND ca.talent_id = NEW.talent_id
+  ORDER BY ca.applied_at DESC NULLS LAST
+  LIMIT 1
+  ON CONFLICT (order_id) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Runs after enforce_order_status_transition, so only a permitted close gets here
+CREATE OR REPLACE FUNCTION hide_delivery_address_on_close()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT city || ', ' || state INTO NEW.delivery_address
+  FROM order_shipping_addresses
+  WHERE order_id = NEW.id;
+
+  IF NOT FOUND THEN
+    NEW.delivery_address := OLD.delivery_address;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_application_address() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION copy_application_shipping_address() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION hide_delivery_address_on_close() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_shipping_address(uuid, text, text, text, text, text, text, text, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_shipping_address(uuid) TO authenticated;
+
+DROP TRIGGER IF EXISTS campaign_applications_check_address ON campaign_applications;
+CREATE TRIGGER campaign_applications_check_address
+BEFORE INSERT OR UPDATE OF address_id ON campaign_applications
+FOR EACH ROW
+EXECUTE FUNCTION check_application_address();
+
+DROP TRIGGER IF EXISTS orders_copy_shipping_address ON orders;
+CREATE TRIGGER orders_copy_shipping_address
+AFTER INSERT ON orders
+FOR EACH ROW
+EXECUTE FUNCTION copy_application_shipping_address();
+
+DROP TRIGGER IF EXISTS orders_hide_delivery_address ON orders;
+CREATE TRIGGER orders_hide_delivery_address
+BEFORE UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status::text IN ('completed', 'refunded') AND OLD.status::text NOT IN ('completed', 'refunded'))
+EXECUTE FUNCTION hide_delivery_address_on_close();
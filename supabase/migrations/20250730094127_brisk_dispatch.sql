@@ -0,0 +1,71 @@
+/*
+  # Bulk Shipping
+
+  1. Functions
+    - `bulk_ship_orders(p_shipments)` - Founder ships many orders at once. Each element of the
+      array is `{ order_id, courier, tracking_number }`. The delivery address is taken from the
+      address the talent applied with, so only orders that have one can be shipped in bulk
+
+  2. Notes
+    - All orders ship or none do. Each one still goes through enforce_order_status_transition
+*/
+
+CREATE OR REPLACE FUNCTION bulk_ship_orders(p_shipments jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shipment jsonb;
+  v_order orders%ROWTYPE;
+  v_address order_shipping_addresses%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  IF jsonb_typeof(p_shipments) <> 'array' OR jsonb_array_length(p_shipments) = 0 THEN
+    RAISE EXCEPTION 'No orders to ship';
+  END IF;
+
+  FOR v_shipment IN SELECT * FROM jsonb_array_elements(p_shipments)
+  LOOP
+    SELECT * INTO v_order
+    FROM orders
+    WHERE id = (v_shipment->>'order_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Order % not found', v_shipment->>'order_id' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_order.status::text <> 'pending_shipment' THEN
+      RAISE EXCEPTION 'Order % is already %', v_order.id, replace(v_order.status::text, '_', ' ');
+    END IF;
+
+    SELECT * INTO v_address FROM order_shipping_addresses WHERE order_id = v_order.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order % has no shipping address from the talent. Ship it on its own', v_order.id;
+    END IF;
+
+    -- Same layout as formatShippingAddress in the app
+    UPDATE orders
+    SET
+      status = 'shipped',
+      courier = trim(v_shipment->>'courier'),
+      tracking_number = trim(v_shipment->>'tracking_number'),
+      delivery_address = concat_ws(E'\n',
+        v_address.recipient_name || ' (' || v_address.phone || ')',
+        v_address.line1,
+        nullif(v_address.line2, ''),
+        v_address.postcode || ' ' || v_address.city,
+        v_address.state
+      )
+    WHERE id = v_order.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION bulk_ship_orders(jsonb) TO authenticated;
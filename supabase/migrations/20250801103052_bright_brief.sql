@@ -0,0 +1,212 @@
+/*
+  # Campaign Deliverables
+
+  1. New Tables
+    - `campaign_deliverables` - The content each approved talent must deliver, one row per
+      deliverable in the order the founder listed them:
+        kind            'video', 'photo' or 'story'
+        platform        where it is posted, or 'Any'
+        quantity        how many of it
+        duration        '30sec', '1min' or '3min', videos only
+        aspect_ratio    e.g. '9:16', or null for any
+        min_resolution  pixels on the shorter side, or null for any
+        required_tags   hashtags and @mentions the post must include
+        dos, donts      free text guidance
+
+  2. Functions
+    - `save_campaign_deliverables(p_campaign_id, p_deliverables)` - Founder replaces the list.
+      Refused once a talent is approved, since their order was priced on it. Also keeps
+      `campaigns.duration` and `campaigns.media_type` in step as summaries
+    - `submit_review_submission` now requires every media item to name one of the campaign's
+      deliverables, of a matching media type, and every deliverable to have its quantity
+
+  3. Security
+    - Anyone who can see the campaign can see its deliverables
+
+  4. Data
+    - Existing campaigns get one deliverable from their duration and media type
+*/
+
+CREATE TABLE IF NOT EXISTS campaign_deliverables (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  kind text NOT NULL CHECK (kind IN ('video', 'photo', 'story')),
+  platform text NOT NULL DEFAULT 'Any',
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity BETWEEN 1 AND 10),
+  duration text CHECK (duration IN ('30sec', '1min', '3min')),
+  aspect_ratio text CHECK (aspect_ratio ~ '^[0-9]+:[0-9]+$'),
+  min_resolution integer CHECK (min_resolution > 0),
+  required_tags text[] NOT NULL DEFAULT '{}',
+  dos text,
+  donts text,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((kind = 'video') = (duration IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS campaign_deliverables_campaign_idx ON campaign_deliverables(campaign_id, position);
+
+ALTER TABLE campaign_deliverables ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Campaign viewers can view deliverables" ON campaign_deliverables;
+CREATE POLICY "Campaign viewers can view deliverables"
+ON campaign_deliverables
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM campaigns WHERE campaigns.id = campaign_deliverables.campaign_id)
+);
+
+INSERT INTO campaign_deliverables (campaign_id, kind, duration)
+SELECT
+  campaigns.id,
+  CASE WHEN campaigns.media_type::text = 'image' THEN 'photo' ELSE 'video' END,
+  CASE WHEN campaigns.media_type::text = 'image' THEN NULL ELSE coalesce(campaigns.duration::text, '30sec') END
+FROM campaigns
+WHERE NOT EXISTS (SELECT 1 FROM campaign_deliverables WHERE campaign_id = campaigns.id);
+
+CREATE OR REPLACE FUNCTION save_campaign_deliverables(p_campaign_id uuid, p_deliverables jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_founder_id uuid;
+BEGIN
+  SELECT founder_id INTO v_founder_id FROM campaigns WHERE id = p_campaign_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the founder can change the deliverables' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM orders WHERE campaign_id = p_campaign_id) THEN
+    RAISE EXCEPTION 'Deliverables cannot change once a talent has been approved';
+  END IF;
+
+  IF jsonb_typeof(p_deliverables) <> 'array' OR jsonb_array_length(p_deliverables) = 0 THEN
+    RAISE EXCEPTION 'A campaign needs at least one deliverable';
+  END IF;
+
+  DELETE FROM campaign_deliverables WHERE campaign_id = p_campaign_id;
+
+  INSERT INTO campaign_deliverables (
+    campaign_id, position, kind, platform, quantity, duration, aspect_ratio, min_resolution,
+    required_tags, dos, donts
+  )
+  SELECT
+    p_campaign_id,
+    item.position - 1,
+    item.value->>'kind',
+    coalesce(nullif(trim(item.value->>'platform'), ''), 'Any'),
+    coalesce((item.value->>'quantity')::integer, 1),
+    CASE WHEN item.value->>'kind' = 'video' THEN item.value->>'duration' END,
+    nullif(item.value->>'aspect_ratio', ''),
+    (item.value->>'min_resolution')::integer,
+    coalesce(
+      ARRAY(SELECT trim(tag) FROM jsonb_array_elements_text(item.value->'required_tags') AS tag WHERE trim(tag) <> ''),
+      '{}'
+    ),
+    nullif(trim(item.value->>'dos'), ''),
+    nullif(trim(item.value->>'donts'), '')
+  FROM jsonb_array_elements(p_deliverables) WITH ORDINALITY AS item(value, position);
+
+  -- Summaries for the older single-format fields
+  UPDATE campaigns
+  SET
+    duration = coalesce((
+      SELECT duration FROM campaign_deliverables
+      WHERE campaign_id = p_campaign_id AND kind = 'video'
+      ORDER BY CASE duration WHEN '3min' THEN 3 WHEN '1min' THEN 2 ELSE 1 END DESC
+      LIMIT 1
+    ), '30sec')::duration_type,
+    media_type = CASE
+      WHEN NOT EXISTS (SELECT 1 FROM campaign_deliverables WHERE campaign_id = p_campaign_id AND kind <> 'photo') THEN 'image'
+      WHEN NOT EXISTS (SELECT 1 FROM campaign_deliverables WHERE campaign_id = p_campaign_id AND kind <> 'video') THEN 'video'
+      ELSE 'both'
+    END::media_type
+  WHERE id = p_campaign_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_review_submission(p_order_id uuid, p_media jsonb, p_notes text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_version integer;
+  v_submission_id uuid;
+  v_deliverable campaign_deliverables%ROWTYPE;
+  v_item jsonb;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.talent_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status::text <> 'delivered' THEN
+    RAISE EXCEPTION 'Reviews can only be submitted once the product is delivered';
+  END IF;
+
+  IF p_media IS NULL OR jsonb_typeof(p_media) <> 'array' OR jsonb_array_length(p_media) = 0 THEN
+    RAISE EXCEPTION 'Submitting a review requires at least one media file';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM campaign_deliverables WHERE campaign_id = v_order.campaign_id) THEN
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_media)
+    LOOP
+      SELECT * INTO v_deliverable
+      FROM campaign_deliverables
+      WHERE campaign_id = v_order.campaign_id AND id::text = v_item->>'deliverable_id';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Every file must be uploaded for one of the campaign deliverables';
+      END IF;
+
+      IF (v_deliverable.kind = 'video' AND v_item->>'type' <> 'video')
+        OR (v_deliverable.kind = 'photo' AND v_item->>'type' <> 'image') THEN
+        RAISE EXCEPTION 'A % deliverable cannot be a %', v_deliverable.kind, v_item->>'type';
+      END IF;
+    END LOOP;
+
+    SELECT * INTO v_deliverable
+    FROM campaign_deliverables
+    WHERE campaign_id = v_order.campaign_id
+      AND quantity > (
+        SELECT count(*) FROM jsonb_array_elements(p_media) AS item
+        WHERE item->>'deliverable_id' = campaign_deliverables.id::text
+      )
+    ORDER BY position
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Deliverable % needs % %', v_deliverable.position + 1, v_deliverable.quantity,
+        CASE WHEN v_deliverable.quantity > 1 THEN 'files' ELSE 'file' END;
+    END IF;
+  END IF;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version FROM review_submissions WHERE order_id = p_order_id;
+
+  INSERT INTO review_submissions (order_id, version, media, notes)
+  VALUES (p_order_id, v_version, p_media, nullif(trim(p_notes), ''))
+  RETURNING id INTO v_submission_id;
+
+  UPDATE orders
+  SET status = 'review_submitted', review_media = p_media, review_submitted_at = now()
+  WHERE id = p_order_id;
+
+  RETURN v_submission_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_campaign_deliverables(uuid, jsonb) TO authenticated;
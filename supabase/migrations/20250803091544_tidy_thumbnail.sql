@@ -0,0 +1,61 @@
+/*
+  # Media Assets
+
+  1. New Tables
+    - `media_assets` - One row per uploaded file in campaign-media, portfolio or review-submissions,
+      with the original's dimensions and length and the smaller copies made for it. `variants` is
+      `{ thumbnail?, preview?, poster? }`, each `{ path, url, width, height }` in the same bucket
+
+  2. Security
+    - Anyone signed in can read the rows, as the buckets they describe are public
+    - Users record and delete only their own uploads
+
+  3. Notes
+    - Variants are WebP files made in the uploader's browser. Files uploaded before this have no
+      row, and are shown at full size as before
+*/
+
+CREATE TABLE IF NOT EXISTS media_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  bucket text NOT NULL CHECK (bucket IN ('campaign-media', 'portfolio', 'review-submissions')),
+  path text NOT NULL,
+  url text NOT NULL UNIQUE,
+  media_type text NOT NULL CHECK (media_type IN ('image', 'video')),
+  mime_type text NOT NULL,
+  width integer NOT NULL CHECK (width >= 0),
+  height integer NOT NULL CHECK (height >= 0),
+  duration_seconds numeric(10, 3) CHECK (duration_seconds IS NULL OR media_type = 'video'),
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  variants jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (bucket, path)
+);
+
+CREATE INDEX IF NOT EXISTS media_assets_owner_id_idx ON media_assets(owner_id);
+
+ALTER TABLE media_assets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Media assets are readable by signed in users" ON media_assets;
+CREATE POLICY "Media assets are readable by signed in users"
+ON media_assets
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can record their own uploads" ON media_assets;
+CREATE POLICY "Users can record their own uploads"
+ON media_assets
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  owner_id = auth.uid() AND
+  split_part(path, '/', 1) = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Users can delete their own uploads" ON media_assets;
+CREATE POLICY "Users can delete their own uploads"
+ON media_assets
+FOR DELETE
+TO authenticated
+USING (owner_id = auth.uid());
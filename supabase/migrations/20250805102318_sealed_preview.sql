@@ -0,0 +1,179 @@
+/*
+  # Watermarked Review Previews
+
+  1. Storage
+    - The `review-submissions` bucket becomes private. Files are read through signed URLs, which
+      storage only issues to users the policies below allow
+    - Talents read and write their own folder. Admins read everything, for disputes
+    - The order's founder reads the variants of a submitted file (the watermarked thumbnail,
+      poster and preview), and the original only once the order has a grant
+
+  2. Changes
+    - `media_assets.watermarked` - Whether the variants carry a watermark, so the original can be
+      held back. Files uploaded before this have none, and their founder can still read them
+
+  3. New Tables
+    - `review_media_grants` - Logs when a founder got access to an order's original files. Written
+      when the order completes, which happens only once the payment is settled
+
+  4. Data
+    - Orders already completed get a grant from when they were completed
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-submissions', 'review-submissions', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'media_assets' AND column_name = 'watermarked'
+  ) THEN
+    ALTER TABLE media_assets ADD COLUMN watermarked boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS review_submissions_media_idx ON review_submissions USING gin (media jsonb_path_ops);
+
+CREATE TABLE IF NOT EXISTS review_media_grants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  founder_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  talent_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  granted_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE review_media_grants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order parties can view the media grant" ON review_media_grants;
+CREATE POLICY "Order parties can view the media grant"
+ON review_media_grants
+FOR SELECT
+TO authenticated
+USING (
+  founder_id = auth.uid() OR
+  talent_id = auth.uid() OR
+  EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE OR REPLACE FUNCTION grant_review_media_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO review_media_grants (order_id, founder_id, talent_id)
+  VALUES (NEW.id, NEW.founder_id, NEW.talent_id)
+  ON CONFLICT (order_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_review_media_on_completion() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS orders_grant_review_media ON orders;
+CREATE TRIGGER orders_grant_review_media
+AFTER UPDATE OF status ON orders
+FOR EACH ROW
+WHEN (NEW.status::text = 'completed' AND OLD.status::text <> 'completed')
+EXECUTE FUNCTION grant_review_media_on_completion();
+
+-- Orders completed before grants existed
+INSERT INTO review_media_grants (order_id, founder_id, talent_id, granted_at)
+SELECT orders.id, orders.founder_id, orders.talent_id, COALESCE(history.completed_at, orders.updated_at, now())
+FROM orders
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS completed_at
+  FROM order_status_history
+  WHERE order_id = orders.id AND to_status = 'completed'
+) history ON true
+WHERE orders.status::text = 'completed'
+ON CONFLICT (order_id) DO NOTHING;
+
+-- Whether the current user may read an object in review-submissions. `p_name` is its path
+CREATE OR REPLACE FUNCTION can_read_review_media(p_name text)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_asset media_assets%ROWTYPE;
+BEGIN
+  IF split_part(p_name, '/', 1) = auth.uid()::text
+    OR EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RETURN true;
+  END IF;
+
+  SELECT * INTO v_asset
+  FROM media_assets
+  WHERE bucket = 'review-submissions'
+    AND (
+      path = p_name OR
+      EXISTS (SELECT 1 FROM jsonb_each(variants) AS variant WHERE variant.value->>'path' = p_name)
+    )
+  LIMIT 1;
+
+  -- Uploaded before media assets were recorded, so there is no preview to show instead
+  IF NOT FOUND THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM review_submissions
+      JOIN orders ON orders.id = review_submissions.order_id
+      WHERE orders.founder_id = auth.uid()
+        AND EXISTS (
+          SELECT 1 FROM jsonb_array_elements(review_submissions.media) AS item
+          WHERE item->>'url' LIKE '%/review-submissions/' || p_name
+        )
+    );
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM review_submissions
+    JOIN orders ON orders.id = review_submissions.order_id
+    WHERE orders.founder_id = auth.uid()
+      AND review_submissions.media @> jsonb_build_array(jsonb_build_object('url', v_asset.url))
+      AND (
+        v_asset.path <> p_name OR
+        NOT v_asset.watermarked OR
+        EXISTS (SELECT 1 FROM review_media_grants WHERE order_id = orders.id)
+      )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_read_review_media(text) TO authenticated;
+
+DROP POLICY IF EXISTS "Review media is readable by the talent, the order's founder and admins" ON storage.objects;
+CREATE POLICY "Review media is readable by the talent, the order's founder and admins"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'review-submissions' AND
+  can_read_review_media(name)
+);
+
+DROP POLICY IF EXISTS "Talents can upload review media to their own folder" ON storage.objects;
+CREATE POLICY "Talents can upload review media to their own folder"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'review-submissions' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
+
+DROP POLICY IF EXISTS "Talents can delete their own review media" ON storage.objects;
+CREATE POLICY "Talents can delete their own review media"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-submissions' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,120 @@
+/*
+  # Chat Attachments and Read Receipts
+
+  1. Storage
+    - `chat-attachments` - A private bucket for files shared in an order's chat, read through
+      signed URLs. Paths are `<uploader id>/<order id>/<file>`
+    - Both parties of the order read its files, as do admins once the order is disputed, in line
+      with who can read its messages. Users upload and delete only in their own folder, and only
+      for orders they are a party to
+
+  2. Changes
+    - `messages.attachments` - The files sent with a message, each
+      `{ url, path, name, type, mime_type, size_bytes }` where `type` is 'image', 'video' or 'file'
+    - `messages.read_at` - When the recipient first saw the message
+    - `media_assets.bucket` also allows `chat-attachments`, so shared photos and videos get
+      thumbnails like other uploads
+
+  3. Functions
+    - `mark_messages_read(p_order_id)` - Marks the other party's messages in an order as read.
+      Messages are otherwise only written by their sender, so the recipient cannot update them
+      directly
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-attachments', 'chat-attachments', false, 52428800)
+ON CONFLICT (id) DO UPDATE SET public = false, file_size_limit = 52428800;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'attachments'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN attachments jsonb NOT NULL DEFAULT '[]'::jsonb
+      CHECK (jsonb_typeof(attachments) = 'array');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'read_at'
+  ) THEN
+    ALTER TABLE messages ADD COLUMN read_at timestamptz;
+  END IF;
+END $$;
+
+ALTER TABLE media_assets DROP CONSTRAINT IF EXISTS media_assets_bucket_check;
+ALTER TABLE media_assets ADD CONSTRAINT media_assets_bucket_check
+  CHECK (bucket IN ('campaign-media', 'portfolio', 'review-submissions', 'chat-attachments'));
+
+CREATE OR REPLACE FUNCTION mark_messages_read(p_order_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM orders
+    WHERE id = p_order_id AND (founder_id = auth.uid() OR talent_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the founder and talent can read this chat' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE messages
+  SET read = true, read_at = now()
+  WHERE order_id = p_order_id
+    AND sender_id <> auth.uid()
+    AND NOT COALESCE(read, false);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_messages_read(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Chat attachments are readable by the order's parties and admins" ON storage.objects;
+CREATE POLICY "Chat attachments are readable by the order's parties and admins"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id::text = (storage.foldername(name))[2]
+        AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+    ) OR (
+      EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') AND
+      EXISTS (SELECT 1 FROM order_disputes WHERE order_disputes.order_id::text = (storage.foldername(name))[2])
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Order parties can upload chat attachments" ON storage.objects;
+CREATE POLICY "Order parties can upload chat attachments"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'chat-attachments' AND
+  (storage.foldername(name))[1] = auth.uid()::text AND
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id::text = (storage.foldername(name))[2]
+      AND (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users can delete their own chat attachments" ON storage.objects;
+CREATE POLICY "Users can delete their own chat attachments"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'chat-attachments' AND
+  (storage.foldername(name))[1] = auth.uid()::text
+);
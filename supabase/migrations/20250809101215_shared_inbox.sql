@@ -0,0 +1,77 @@
+/*
+  # Message Inbox
+
+  1. Functions
+    - `get_message_threads(p_search, p_limit, p_offset)` - The current user's conversations, one per
+      order that has messages, newest first. Each has the other party, the campaign, the last
+      message and how many of the other party's messages are unread. `p_search` matches the other
+      party's name, the campaign title or any message in the thread
+
+  2. Indexes
+    - Messages by order and time, for loading a thread a page at a time
+    - Unread messages by order, for the unread counts
+*/
+
+CREATE INDEX IF NOT EXISTS messages_order_created_idx ON messages(order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS messages_unread_idx ON messages(order_id, sender_id) WHERE read IS NOT TRUE;
+
+CREATE OR REPLACE FUNCTION get_message_threads(p_search text DEFAULT NULL, p_limit integer DEFAULT 50, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  order_id uuid,
+  campaign_title text,
+  counterpart_id uuid,
+  counterpart_name text,
+  counterpart_avatar text,
+  last_content text,
+  last_sender_id uuid,
+  last_attachment_count integer,
+  last_created_at timestamptz,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    orders.id,
+    campaigns.title,
+    counterpart.id,
+    counterpart.name,
+    counterpart.avatar_url,
+    last_message.content,
+    last_message.sender_id,
+    jsonb_array_length(last_message.attachments),
+    last_message.created_at,
+    (
+      SELECT count(*)::integer FROM messages
+      WHERE messages.order_id = orders.id
+        AND messages.sender_id <> auth.uid()
+        AND messages.read IS NOT TRUE
+    )
+  FROM orders
+  JOIN campaigns ON campaigns.id = orders.campaign_id
+  JOIN profiles AS counterpart
+    ON counterpart.id = CASE WHEN orders.founder_id = auth.uid() THEN orders.talent_id ELSE orders.founder_id END
+  JOIN LATERAL (
+    SELECT content, sender_id, attachments, created_at FROM messages
+    WHERE messages.order_id = orders.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) AS last_message ON true
+  WHERE (orders.founder_id = auth.uid() OR orders.talent_id = auth.uid())
+    AND (
+      p_search IS NULL OR p_search = '' OR
+      counterpart.name ILIKE '%' || p_search || '%' OR
+      campaigns.title ILIKE '%' || p_search || '%' OR
+      EXISTS (
+        SELECT 1 FROM messages
+        WHERE messages.order_id = orders.id AND messages.content ILIKE '%' || p_search || '%'
+      )
+    )
+  ORDER BY last_message.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_message_threads(text, integer, integer) TO authenticated;
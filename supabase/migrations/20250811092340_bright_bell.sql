@@ -0,0 +1,277 @@
+/*
+  # Notifications
+
+  1. New Tables
+    - `notifications` - Things that happened for a user, read from the bell in the navbar. Each
+      links to the page, and the order, campaign or withdrawal on it, that it is about. Written
+      only by the triggers below
+
+  2. Triggers
+    - `campaign_applications_notify` - The founder hears of new applications, the talent of a
+      rejection. Approvals are announced by the order they create
+    - `orders_notify` - The talent hears of a new order; on a status change, whichever party did
+      not make it hears of it. Changes made by service role jobs, such as courier tracking, go to
+      both
+    - `messages_notify` - The other party hears of a new message, or both when an admin posts it.
+      Unread messages in one chat share a notification, which shows the latest, so a conversation
+      does not flood the bell
+    - `withdrawal_requests_notify` - The talent hears when a withdrawal is approved, rejected or paid
+
+  3. Functions
+    - `mark_notifications_read(p_ids)` - Marks the given notifications, or all of them when
+      `p_ids` is null, as read for the current user
+
+  4. Realtime
+    - `notifications` is added to the `supabase_realtime` publication so the bell updates live
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'application_received', 'application_rejected', 'order_created', 'order_status', 'message', 'withdrawal_status'
+  )),
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  link_page text NOT NULL,
+  link_id uuid,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+ON notifications
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id uuid,
+  p_type text,
+  p_title text,
+  p_body text,
+  p_link_page text,
+  p_link_id uuid
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, type, title, body, link_page, link_id)
+  VALUES (p_user_id, p_type, p_title, COALESCE(p_body, ''), p_link_page, p_link_id);
+$$;
+
+CREATE OR REPLACE FUNCTION notify_campaign_application()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_talent_name text;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = NEW.campaign_id;
+  SELECT name INTO v_talent_name FROM profiles WHERE id = NEW.talent_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM notify_user(
+      v_campaign.founder_id, 'application_received', 'New application',
+      v_talent_name || ' applied to ' || v_campaign.title, 'campaigns', v_campaign.id
+    );
+  ELSIF NEW.status = 'rejected' AND OLD.status IS DISTINCT FROM 'rejected' THEN
+    PERFORM notify_user(
+      NEW.talent_id, 'application_rejected', 'Application not accepted',
+      'Your application to ' || v_campaign.title || ' was not accepted', 'marketplace', v_campaign.id
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_order_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign_title text;
+  v_title text;
+BEGIN
+  SELECT title INTO v_campaign_title FROM campaigns WHERE id = NEW.campaign_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM notify_user(
+      NEW.talent_id, 'order_created', 'Application approved',
+      'You have a new job for ' || v_campaign_title, 'jobs', NEW.id
+    );
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  v_title := CASE
+    WHEN NEW.status::text = 'shipped' THEN 'Product shipped'
+    WHEN NEW.status::text = 'delivered' AND OLD.status::text = 'review_submitted' THEN 'Review sent back'
+    WHEN NEW.status::text = 'delivered' THEN 'Product delivered'
+    WHEN NEW.status::text = 'review_submitted' THEN 'Review submitted'
+    WHEN NEW.status::text = 'completed' THEN 'Order completed'
+    WHEN NEW.status::text = 'refunded' THEN 'Order refunded'
+    ELSE 'Order updated'
+  END;
+
+  IF auth.uid() IS DISTINCT FROM NEW.founder_id THEN
+    PERFORM notify_user(
+      NEW.founder_id, 'order_status', v_title, v_campaign_title,
+      CASE WHEN NEW.status::text = 'review_submitted' THEN 'reviews' ELSE 'orders' END, NEW.id
+    );
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM NEW.talent_id THEN
+    PERFORM notify_user(NEW.talent_id, 'order_status', v_title, v_campaign_title, 'jobs', NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_recipient uuid;
+  v_title text;
+  v_body text;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = NEW.order_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT 'New message from ' || name INTO v_title FROM profiles WHERE id = NEW.sender_id;
+  v_body := CASE
+    WHEN NEW.content <> '' THEN left(NEW.content, 140)
+    ELSE 'Sent ' || jsonb_array_length(NEW.attachments) || ' attachment(s)'
+  END;
+
+  -- Messages an admin posts while resolving a dispute go to both parties
+  FOREACH v_recipient IN ARRAY ARRAY[v_order.founder_id, v_order.talent_id] LOOP
+    CONTINUE WHEN v_recipient = NEW.sender_id;
+
+    UPDATE notifications
+    SET title = v_title, body = v_body, created_at = now()
+    WHERE user_id = v_recipient AND type = 'message' AND link_id = NEW.order_id AND read_at IS NULL;
+
+    IF NOT FOUND THEN
+      PERFORM notify_user(v_recipient, 'message', v_title, v_body, 'inbox', NEW.order_id);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_withdrawal_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status OR NEW.status = 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM notify_user(
+    NEW.talent_id,
+    'withdrawal_status',
+    CASE NEW.status
+      WHEN 'approved' THEN 'Withdrawal approved'
+      WHEN 'rejected' THEN 'Withdrawal rejected'
+      ELSE 'Withdrawal paid'
+    END,
+    'RM' || to_char(NEW.amount, 'FM999,999,990.00') || COALESCE(' · ' || NEW.admin_note, ''),
+    'earnings',
+    NEW.id
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(uuid, text, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_campaign_application() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_order_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_new_message() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_withdrawal_change() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS campaign_applications_notify ON campaign_applications;
+CREATE TRIGGER campaign_applications_notify
+AFTER INSERT OR UPDATE OF status ON campaign_applications
+FOR EACH ROW
+EXECUTE FUNCTION notify_campaign_application();
+
+DROP TRIGGER IF EXISTS orders_notify ON orders;
+CREATE TRIGGER orders_notify
+AFTER INSERT OR UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION notify_order_change();
+
+DROP TRIGGER IF EXISTS messages_notify ON messages;
+CREATE TRIGGER messages_notify
+AFTER INSERT ON messages
+FOR EACH ROW
+EXECUTE FUNCTION notify_new_message();
+
+DROP TRIGGER IF EXISTS withdrawal_requests_notify ON withdrawal_requests;
+CREATE TRIGGER withdrawal_requests_notify
+AFTER UPDATE OF status ON withdrawal_requests
+FOR EACH ROW
+EXECUTE FUNCTION notify_withdrawal_change();
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
@@ -0,0 +1,265 @@
+/*
+  # Transactional Emails
+
+  1. New Tables
+    - `email_preferences` - One row per user who changed their email settings: the language their
+      emails are written in, the events they turned off and, for founders, the wallet balance
+      that counts as low. Users without a row get every email in English
+    - `email_outbox` - Emails waiting to be sent, one per event and recipient. Written by the
+      triggers below and sent by the `send-emails` edge function, which records the outcome
+
+  2. Triggers, each queueing an email unless the recipient turned the event off
+    - `orders_queue_emails` - The talent on approval (the order is created), shipping and a
+      revision request; the founder when a review is submitted
+    - `profiles_queue_low_balance_email` - A founder's wallet balance dropping below their
+      threshold. Only the crossing queues an email, not every change below it
+    - `campaigns_queue_approval_email` - An admin moving a draft campaign to active
+
+  3. Functions
+    - `claim_email_outbox(p_limit)` - Marks a batch of due emails as sending and returns them with
+      the recipient's address, name and language. Service role only. Emails that fail are retried
+      with a growing delay, up to 5 attempts
+
+  4. Schedule
+    - When pg_cron and pg_net are enabled, `send-emails` runs every minute, reading the project URL
+      and service role key from the same Vault secrets as `poll-shipments`
+*/
+
+CREATE TABLE IF NOT EXISTS email_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  locale text NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'ms')),
+  disabled_events text[] NOT NULL DEFAULT '{}',
+  low_balance_threshold numeric(10,2) NOT NULL DEFAULT 100 CHECK (low_balance_threshold >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE email_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own email preferences" ON email_preferences;
+CREATE POLICY "Users can view their own email preferences"
+ON email_preferences
+FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own email preferences" ON email_preferences;
+CREATE POLICY "Users can create their own email preferences"
+ON email_preferences
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own email preferences" ON email_preferences;
+CREATE POLICY "Users can update their own email preferences"
+ON email_preferences
+FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN (
+    'application_approved', 'product_shipped', 'revision_requested',
+    'review_submitted', 'low_wallet_balance', 'campaign_approved'
+  )),
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx ON email_outbox(next_attempt_at) WHERE status = 'pending';
+
+-- Only the service role reads and writes the outbox
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_email(p_user_id uuid, p_event text, p_data jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM email_preferences
+    WHERE user_id = p_user_id AND p_event = ANY(disabled_events)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO email_outbox (user_id, event, data) VALUES (p_user_id, p_event, p_data);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_order_emails()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign_title text;
+  v_talent_name text;
+BEGIN
+  SELECT title INTO v_campaign_title FROM campaigns WHERE id = NEW.campaign_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM queue_email(NEW.talent_id, 'application_approved', jsonb_build_object('campaignTitle', v_campaign_title));
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status::text = 'shipped' THEN
+    PERFORM queue_email(NEW.talent_id, 'product_shipped', jsonb_build_object(
+      'campaignTitle', v_campaign_title,
+      'courier', COALESCE(NEW.courier, ''),
+      'trackingNumber', COALESCE(NEW.tracking_number, '')
+    ));
+  ELSIF NEW.status::text = 'delivered' AND OLD.status::text = 'review_submitted' THEN
+    PERFORM queue_email(NEW.talent_id, 'revision_requested', jsonb_build_object('campaignTitle', v_campaign_title));
+  ELSIF NEW.status::text = 'review_submitted' THEN
+    SELECT name INTO v_talent_name FROM profiles WHERE id = NEW.talent_id;
+    PERFORM queue_email(NEW.founder_id, 'review_submitted', jsonb_build_object(
+      'campaignTitle', v_campaign_title,
+      'talentName', v_talent_name
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_low_balance_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_threshold numeric;
+BEGIN
+  SELECT low_balance_threshold INTO v_threshold FROM email_preferences WHERE user_id = NEW.id;
+  v_threshold := COALESCE(v_threshold, 100);
+
+  IF COALESCE(OLD.wallet_balance, 0) >= v_threshold AND COALESCE(NEW.wallet_balance, 0) < v_threshold THEN
+    PERFORM queue_email(NEW.id, 'low_wallet_balance', jsonb_build_object(
+      'balance', COALESCE(NEW.wallet_balance, 0),
+      'threshold', v_threshold
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_campaign_approval_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM queue_email(NEW.founder_id, 'campaign_approved', jsonb_build_object('campaignTitle', NEW.title));
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_email(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_order_emails() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_low_balance_email() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_campaign_approval_email() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS orders_queue_emails ON orders;
+CREATE TRIGGER orders_queue_emails
+AFTER INSERT OR UPDATE OF status ON orders
+FOR EACH ROW
+EXECUTE FUNCTION queue_order_emails();
+
+DROP TRIGGER IF EXISTS profiles_queue_low_balance_email ON profiles;
+CREATE TRIGGER profiles_queue_low_balance_email
+AFTER UPDATE OF wallet_balance ON profiles
+FOR EACH ROW
+WHEN (NEW.role = 'founder')
+EXECUTE FUNCTION queue_low_balance_email();
+
+DROP TRIGGER IF EXISTS campaigns_queue_approval_email ON campaigns;
+CREATE TRIGGER campaigns_queue_approval_email
+AFTER UPDATE OF status ON campaigns
+FOR EACH ROW
+WHEN (OLD.status::text = 'draft' AND NEW.status::text = 'active')
+EXECUTE FUNCTION queue_campaign_approval_email();
+
+CREATE OR REPLACE FUNCTION claim_email_outbox(p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  event text,
+  data jsonb,
+  attempts integer,
+  email text,
+  name text,
+  locale text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Emails stuck in sending, e.g. when a run timed out, are due again after 10 minutes
+  UPDATE email_outbox
+  SET status = 'pending'
+  WHERE email_outbox.status = 'sending' AND email_outbox.next_attempt_at < now() - interval '10 minutes';
+
+  RETURN QUERY
+  WITH due AS (
+    SELECT email_outbox.id FROM email_outbox
+    WHERE email_outbox.status = 'pending' AND email_outbox.next_attempt_at <= now()
+    ORDER BY email_outbox.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE email_outbox
+  SET status = 'sending', attempts = email_outbox.attempts + 1, next_attempt_at = now()
+  FROM due, profiles
+  LEFT JOIN email_preferences ON email_preferences.user_id = profiles.id
+  WHERE email_outbox.id = due.id AND profiles.id = email_outbox.user_id
+  RETURNING
+    email_outbox.id,
+    email_outbox.event,
+    email_outbox.data,
+    email_outbox.attempts,
+    profiles.email,
+    profiles.name,
+    COALESCE(email_preferences.locale, 'en');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_email_outbox(integer) FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-emails',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-emails',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+END $$;
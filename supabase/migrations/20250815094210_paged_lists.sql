@@ -0,0 +1,80 @@
+/*
+  # Paged Lists
+
+  1. Changes
+    - `campaigns.search_text` - The title, description, product and category in lower case, for
+      searching campaigns on the server
+    - `profiles.search_text` - The name, email, company and skills in lower case, for searching
+      founders and talents
+
+  2. Views
+    - `payment_history` - The ledger postings the admin's payments list shows, classified as
+      talent payments, admin fees, top ups, campaign payouts or withdrawals, with the campaign and
+      the names of the talent and founder. Escrow legs, withdrawal reservations, opening balances
+      and top-up refunds are left out as internal transfers. Reads through the ledger's own RLS
+
+  3. Indexes
+    - Campaigns by status and profiles by role, newest first, matching the order lists page in
+    - Applications by campaign, for loading them with the campaigns in one query
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'campaigns' AND column_name = 'search_text'
+  ) THEN
+    ALTER TABLE campaigns ADD COLUMN search_text text GENERATED ALWAYS AS (
+      lower(title || ' ' || description || ' ' || product_name || ' ' || category)
+    ) STORED;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'search_text'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN search_text text GENERATED ALWAYS AS (
+      lower(name || ' ' || email || ' ' || COALESCE(company, '') || ' ' || COALESCE(skills::text, ''))
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS campaigns_status_created_idx ON campaigns(status, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS profiles_role_created_idx ON profiles(role, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS campaign_applications_campaign_idx ON campaign_applications(campaign_id);
+
+CREATE OR REPLACE VIEW payment_history
+WITH (security_invoker = true) AS
+WITH classified AS (
+  SELECT
+    t.*,
+    CASE
+      WHEN t.kind = 'platform_fee' AND t.account_type = 'platform_revenue' THEN 'admin_fee'
+      WHEN t.kind = 'talent_payout' THEN 'talent_withdrawal'
+      WHEN t.kind = 'wallet_top_up' THEN 'wallet_topup'
+      WHEN t.type = 'debit' THEN 'campaign_payout'
+      ELSE 'talent_payment'
+    END AS payment_type
+  FROM ledger_transactions t
+  WHERE t.account_type <> 'escrow'
+    AND t.kind NOT IN ('opening_balance', 'withdrawal_request', 'withdrawal_reversal', 'wallet_top_up_refund')
+)
+SELECT
+  classified.id,
+  classified.payment_type,
+  classified.related_order_id AS order_id,
+  COALESCE(campaigns.title, NULLIF(classified.description, ''), '—') AS campaign_title,
+  CASE classified.payment_type
+    WHEN 'talent_withdrawal' THEN payee.name
+    WHEN 'talent_payment' THEN COALESCE(talent.name, '-')
+  END AS talent_name,
+  founder.name AS founder_name,
+  classified.amount,
+  'completed'::text AS status,
+  classified.created_at
+FROM classified
+LEFT JOIN orders ON orders.id = classified.related_order_id
+LEFT JOIN campaigns ON campaigns.id = orders.campaign_id
+LEFT JOIN profiles AS talent ON talent.id = orders.talent_id
+LEFT JOIN profiles AS founder ON founder.id = orders.founder_id
+LEFT JOIN profiles AS payee ON payee.id = classified.user_id;
@@ -0,0 +1,34 @@
+/*
+  # Live Cache
+
+  1. Realtime
+    - The tables behind the app's cached lists are added to the `supabase_realtime` publication:
+      `campaigns`, `campaign_applications`, `orders`, `messages`, `earnings`,
+      `withdrawal_requests`, `ledger_postings`, `profiles` and `platform_settings`. A change to
+      one refetches only the lists built from it. Realtime checks each row against the table's
+      select policies, so users only hear of rows they can already read
+*/
+
+DO $$
+DECLARE
+  live_table text;
+BEGIN
+  FOREACH live_table IN ARRAY ARRAY[
+    'campaigns',
+    'campaign_applications',
+    'orders',
+    'messages',
+    'earnings',
+    'withdrawal_requests',
+    'ledger_postings',
+    'profiles',
+    'platform_settings'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND tablename = live_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', live_table);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,423 @@
+/*
+  # Escrowed Platform Fees
+
+  1. Modified Tables
+    - `escrow_holds.fee_amount` - The platform fee held in escrow alongside the payout when the
+      fee is charged to the founder; 0 when it is withheld from the talent. NULL on holds made
+      before fees were escrowed, which still take the founder's fee from the wallet at settlement
+
+  2. Functions
+    - `approve_application_with_escrow(...)` - Quotes the fee under the active policy and escrows
+      the payout plus the founder's fee, so settlement can never fail for want of a balance
+    - `settle_order_payment(p_order_id)` - Pays the escrowed fee to the platform
+    - `resolve_order_dispute(...)` - Refunds the escrowed fee to the founder, since disputes are
+      settled without a platform fee
+    - `publish_fee_policy(...)` - Rejects negative values, percentages above 100 and overrides
+      that are not `{ "type": "percentage" | "flat", "value": <number>, "cap": <number> }`
+*/
+
+ALTER TABLE escrow_holds ADD COLUMN IF NOT EXISTS fee_amount numeric(10,2)
+  CHECK (fee_amount IS NULL OR fee_amount >= 0);
+
+-- Raises unless p_rule is a valid fee rule; p_label names it in the error
+CREATE OR REPLACE FUNCTION validate_fee_rule(p_rule jsonb, p_label text)
+RETURNS void
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(p_rule) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'The % fee must be an object with a type and value', p_label;
+  END IF;
+
+  IF COALESCE(p_rule ->> 'type', '') NOT IN ('percentage', 'flat') THEN
+    RAISE EXCEPTION 'The % fee type must be percentage or flat', p_label;
+  END IF;
+
+  IF jsonb_typeof(p_rule -> 'value') IS DISTINCT FROM 'number' OR (p_rule ->> 'value')::numeric < 0 THEN
+    RAISE EXCEPTION 'The % fee value must be a number of at least 0', p_label;
+  END IF;
+
+  IF p_rule ->> 'type' = 'percentage' AND (p_rule ->> 'value')::numeric > 100 THEN
+    RAISE EXCEPTION 'The % fee cannot exceed 100%%', p_label;
+  END IF;
+
+  IF jsonb_typeof(p_rule -> 'cap') NOT IN ('null', 'number')
+    OR (jsonb_typeof(p_rule -> 'cap') = 'number' AND (p_rule ->> 'cap')::numeric < 0) THEN
+    RAISE EXCEPTION 'The % fee cap must be a number of at least 0', p_label;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_fee_policy(
+  p_fee_type text,
+  p_fee_value numeric,
+  p_fee_cap numeric,
+  p_charged_to text,
+  p_category_overrides jsonb,
+  p_rate_level_overrides jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version integer;
+  v_override record;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change the fee policy' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM validate_fee_rule(
+    jsonb_build_object('type', p_fee_type, 'value', p_fee_value, 'cap', p_fee_cap),
+    'default'
+  );
+
+  IF jsonb_typeof(COALESCE(p_category_overrides, '{}'::jsonb)) <> 'object'
+    OR jsonb_typeof(COALESCE(p_rate_level_overrides, '{}'::jsonb)) <> 'object' THEN
+    RAISE EXCEPTION 'Fee overrides must be keyed by category or rate level';
+  END IF;
+
+  FOR v_override IN SELECT * FROM jsonb_each(COALESCE(p_category_overrides, '{}'::jsonb)) LOOP
+    PERFORM validate_fee_rule(v_override.value, v_override.key || ' category');
+  END LOOP;
+
+  FOR v_override IN SELECT * FROM jsonb_each(COALESCE(p_rate_level_overrides, '{}'::jsonb)) LOOP
+    IF v_override.key !~ '^[0-9]+$' THEN
+      RAISE EXCEPTION 'Rate level overrides must be keyed by rate level, not %', v_override.key;
+    END IF;
+    PERFORM validate_fee_rule(v_override.value, 'rate level ' || v_override.key);
+  END LOOP;
+
+  -- Serialise publishers so version numbers stay gap-free
+  LOCK TABLE platform_settings IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version FROM platform_settings;
+
+  UPDATE platform_settings SET is_active = false WHERE is_active;
+
+  INSERT INTO platform_settings (
+    version, fee_type, fee_value, fee_cap, charged_to,
+    category_overrides, rate_level_overrides, is_active, created_by
+  )
+  VALUES (
+    v_version, p_fee_type, p_fee_value, p_fee_cap, p_charged_to,
+    COALESCE(p_category_overrides, '{}'::jsonb), COALESCE(p_rate_level_overrides, '{}'::jsonb),
+    true, auth.uid()
+  );
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_application_with_escrow(p_campaign_id uuid, p_talent_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_campaign campaigns%ROWTYPE;
+  v_policy platform_settings%ROWTYPE;
+  v_application_id uuid;
+  v_order_id uuid;
+  v_fee numeric := 0;
+BEGIN
+  SELECT * INTO v_campaign FROM campaigns WHERE id = p_campaign_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Campaign not found';
+  END IF;
+
+  IF v_campaign.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the campaign owner can approve applicants' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_application_id
+  FROM campaign_applications
+  WHERE campaign_id = p_campaign_id AND talent_id = p_talent_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No pending application found for this talent';
+  END IF;
+
+  SELECT * INTO v_policy FROM platform_settings WHERE version = active_fee_policy_version();
+
+  -- A fee withheld from the talent comes out of the payout at settlement instead
+  IF v_policy.charged_to = 'founder' THEN
+    v_fee := calculate_platform_fee(v_policy.version, v_campaign.price, v_campaign.category, v_campaign.rate_level);
+  END IF;
+
+  -- The founder's profile row serialises concurrent spends from the same wallet
+  PERFORM 1 FROM profiles WHERE id = v_campaign.founder_id FOR UPDATE;
+
+  IF ledger_balance(v_campaign.founder_id, 'founder_wallet') < v_campaign.price + v_fee THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  INSERT INTO orders (campaign_id, talent_id, founder_id, status, payout, fee_policy_version)
+  VALUES (
+    p_campaign_id,
+    p_talent_id,
+    v_campaign.founder_id,
+    'pending_shipment',
+    v_campaign.price,
+    v_policy.version
+  )
+  RETURNING id INTO v_order_id;
+
+  INSERT INTO escrow_holds (order_id, founder_id, talent_id, amount, fee_amount)
+  VALUES (v_order_id, v_campaign.founder_id, p_talent_id, v_campaign.price, v_fee);
+
+  PERFORM ledger_transfer(
+    'escrow_hold',
+    'Payment Hold - ' || v_campaign.title || ' (Talent Approved)',
+    v_order_id,
+    ledger_account_id(v_campaign.founder_id, 'founder_wallet'),
+    ledger_account_id(v_campaign.founder_id, 'escrow'),
+    v_campaign.price + v_fee
+  );
+
+  UPDATE campaign_applications SET status = 'approved' WHERE id = v_application_id;
+
+  RETURN v_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_order_payment(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_policy platform_settings%ROWTYPE;
+  v_hold escrow_holds%ROWTYPE;
+  v_fee numeric;
+  v_talent_amount numeric;
+  v_source_account uuid;
+  v_fee_account uuid;
+  v_from_wallet numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the order owner can approve its review' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status <> 'review_submitted' THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  SELECT * INTO v_campaign FROM campaigns WHERE id = v_order.campaign_id;
+  SELECT * INTO v_policy
+  FROM platform_settings
+  WHERE version = COALESCE(v_order.fee_policy_version, active_fee_policy_version());
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = p_order_id AND status = 'held' FOR UPDATE;
+
+  -- The founder's fee was escrowed at approval; older holds are charged it now
+  IF v_hold.fee_amount IS NOT NULL AND v_policy.charged_to = 'founder' THEN
+    v_fee := v_hold.fee_amount;
+  ELSE
+    v_fee := calculate_platform_fee(v_policy.version, v_order.payout, v_campaign.category, v_campaign.rate_level);
+  END IF;
+  v_talent_amount := CASE WHEN v_policy.charged_to = 'talent' THEN v_order.payout - v_fee ELSE v_order.payout END;
+
+  -- Orders approved before escrow existed pay out straight from the wallet
+  IF v_hold.id IS NOT NULL THEN
+    v_source_account := ledger_account_id(v_order.founder_id, 'escrow');
+    v_from_wallet := CASE
+      WHEN v_policy.charged_to = 'founder' AND v_hold.fee_amount IS NULL THEN v_fee
+      ELSE 0
+    END;
+  ELSE
+    v_source_account := ledger_account_id(v_order.founder_id, 'founder_wallet');
+    v_from_wallet := v_order.payout + CASE WHEN v_policy.charged_to = 'founder' THEN v_fee ELSE 0 END;
+  END IF;
+
+  IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_from_wallet THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  v_fee_account := CASE
+    WHEN v_policy.charged_to = 'talent' OR v_hold.fee_amount IS NOT NULL THEN v_source_account
+    ELSE ledger_account_id(v_order.founder_id, 'founder_wallet')
+  END;
+
+  IF v_talent_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Payment Received - ' || v_campaign.title,
+      p_order_id,
+      v_source_account,
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_talent_amount
+    );
+  END IF;
+
+  IF v_fee > 0 THEN
+    PERFORM ledger_transfer(
+      'platform_fee',
+      'Platform Fee (policy v' || v_policy.version || ') - ' || v_campaign.title,
+      p_order_id,
+      v_fee_account,
+      ledger_account_id(NULL, 'platform_revenue'),
+      v_fee
+    );
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    UPDATE escrow_holds SET status = 'released', released_at = now() WHERE id = v_hold.id;
+  END IF;
+
+  INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+  VALUES (v_order.talent_id, p_order_id, v_campaign.title, v_talent_amount, 'paid', now());
+
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_order_dispute(
+  p_dispute_id uuid,
+  p_resolution text,
+  p_talent_amount numeric DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute order_disputes%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_hold escrow_holds%ROWTYPE;
+  v_amount numeric;
+  v_talent_amount numeric;
+  v_founder_amount numeric;
+  v_source_account uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve disputes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_dispute FROM order_disputes WHERE id = p_dispute_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF v_dispute.status <> 'open' THEN
+    RAISE EXCEPTION 'This dispute has already been resolved';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_dispute.order_id FOR UPDATE;
+  SELECT * INTO v_campaign FROM campaigns WHERE id = v_order.campaign_id;
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = v_order.id AND status IN ('held', 'frozen') FOR UPDATE;
+  v_amount := COALESCE(v_hold.amount, v_order.payout);
+
+  v_talent_amount := CASE p_resolution
+    WHEN 'refund_founder' THEN 0
+    WHEN 'release_talent' THEN v_amount
+    WHEN 'split' THEN round(p_talent_amount, 2)
+  END;
+
+  IF v_talent_amount IS NULL THEN
+    RAISE EXCEPTION 'Unknown dispute resolution %', p_resolution;
+  END IF;
+
+  IF p_resolution = 'split' AND (v_talent_amount <= 0 OR v_talent_amount >= v_amount) THEN
+    RAISE EXCEPTION 'A split must give each side part of the RM% held', v_amount;
+  END IF;
+
+  -- No fee is charged on a dispute, so an escrowed fee goes back to the founder
+  v_founder_amount := v_amount - v_talent_amount + COALESCE(v_hold.fee_amount, 0);
+
+  -- Orders approved before escrow existed pay the talent straight from the wallet and have
+  -- nothing to refund
+  IF v_hold.id IS NOT NULL THEN
+    v_source_account := ledger_account_id(v_order.founder_id, 'escrow');
+  ELSE
+    v_source_account := ledger_account_id(v_order.founder_id, 'founder_wallet');
+    v_founder_amount := 0;
+
+    IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_talent_amount THEN
+      RAISE EXCEPTION 'Insufficient wallet balance';
+    END IF;
+  END IF;
+
+  IF v_talent_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Dispute Resolution - ' || v_campaign.title,
+      v_order.id,
+      v_source_account,
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_talent_amount
+    );
+
+    INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+    VALUES (v_order.talent_id, v_order.id, v_campaign.title, v_talent_amount, 'paid', now());
+  END IF;
+
+  IF v_founder_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_refund',
+      'Dispute Refund - ' || v_campaign.title,
+      v_order.id,
+      v_source_account,
+      ledger_account_id(v_order.founder_id, 'founder_wallet'),
+      v_founder_amount
+    );
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    UPDATE escrow_holds
+    SET status = CASE WHEN v_talent_amount > 0 THEN 'released' ELSE 'refunded' END,
+        released_at = now()
+    WHERE id = v_hold.id;
+  END IF;
+
+  -- Resolved before the order moves, so the status trigger lets it close
+  UPDATE order_disputes
+  SET status = 'resolved',
+      resolution = p_resolution,
+      talent_amount = v_talent_amount,
+      founder_amount = v_founder_amount,
+      resolution_note = NULLIF(trim(p_note), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE id = p_dispute_id;
+
+  UPDATE orders
+  SET status = CASE WHEN v_talent_amount > 0 THEN 'completed' ELSE 'refunded' END,
+      updated_at = now()
+  WHERE id = v_order.id;
+
+  INSERT INTO messages (order_id, sender_id, content, read)
+  VALUES (
+    v_order.id,
+    auth.uid(),
+    'Dispute resolved by GambarKaca: RM' || to_char(v_talent_amount, 'FM999999990.00') || ' paid to the talent, RM' ||
+      to_char(v_founder_amount, 'FM999999990.00') || ' refunded to the founder.' ||
+      CASE WHEN NULLIF(trim(p_note), '') IS NOT NULL THEN E'\n\n' || trim(p_note) ELSE '' END,
+    false
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION validate_fee_rule(jsonb, text) FROM PUBLIC, anon, authenticated;
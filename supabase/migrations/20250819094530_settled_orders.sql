@@ -0,0 +1,200 @@
+/*
+  # Settlement-Only Order Completion
+
+  1. Triggers
+    - `enforce_order_status_transition` only lets an order move from `review_submitted` to
+      `completed` inside `settle_order_payment`, which marks the order it is settling with the
+      transaction-local `app.order_settlement` setting. It no longer trusts an earnings row,
+      which a client could insert to complete an order without paying
+
+  2. Security
+    - Clients can no longer insert, update or delete earnings; they are only written by
+      settlement, dispute resolution and the ledger
+*/
+
+CREATE OR REPLACE FUNCTION settle_order_payment(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_campaign campaigns%ROWTYPE;
+  v_policy platform_settings%ROWTYPE;
+  v_hold escrow_holds%ROWTYPE;
+  v_fee numeric;
+  v_talent_amount numeric;
+  v_source_account uuid;
+  v_fee_account uuid;
+  v_from_wallet numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.founder_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the order owner can approve its review' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.status <> 'review_submitted' THEN
+    RAISE EXCEPTION 'Order has no review awaiting approval';
+  END IF;
+
+  SELECT * INTO v_campaign FROM campaigns WHERE id = v_order.campaign_id;
+  SELECT * INTO v_policy
+  FROM platform_settings
+  WHERE version = COALESCE(v_order.fee_policy_version, active_fee_policy_version());
+
+  PERFORM 1 FROM profiles WHERE id = v_order.founder_id FOR UPDATE;
+
+  SELECT * INTO v_hold FROM escrow_holds WHERE order_id = p_order_id AND status = 'held' FOR UPDATE;
+
+  -- The founder's fee was escrowed at approval; older holds are charged it now
+  IF v_hold.fee_amount IS NOT NULL AND v_policy.charged_to = 'founder' THEN
+    v_fee := v_hold.fee_amount;
+  ELSE
+    v_fee := calculate_platform_fee(v_policy.version, v_order.payout, v_campaign.category, v_campaign.rate_level);
+  END IF;
+  v_talent_amount := CASE WHEN v_policy.charged_to = 'talent' THEN v_order.payout - v_fee ELSE v_order.payout END;
+
+  -- Orders approved before escrow existed pay out straight from the wallet
+  IF v_hold.id IS NOT NULL THEN
+    v_source_account := ledger_account_id(v_order.founder_id, 'escrow');
+    v_from_wallet := CASE
+      WHEN v_policy.charged_to = 'founder' AND v_hold.fee_amount IS NULL THEN v_fee
+      ELSE 0
+    END;
+  ELSE
+    v_source_account := ledger_account_id(v_order.founder_id, 'founder_wallet');
+    v_from_wallet := v_order.payout + CASE WHEN v_policy.charged_to = 'founder' THEN v_fee ELSE 0 END;
+  END IF;
+
+  IF ledger_balance(v_order.founder_id, 'founder_wallet') < v_from_wallet THEN
+    RAISE EXCEPTION 'Insufficient wallet balance';
+  END IF;
+
+  v_fee_account := CASE
+    WHEN v_policy.charged_to = 'talent' OR v_hold.fee_amount IS NOT NULL THEN v_source_account
+    ELSE ledger_account_id(v_order.founder_id, 'founder_wallet')
+  END;
+
+  IF v_talent_amount > 0 THEN
+    PERFORM ledger_transfer(
+      'escrow_release',
+      'Payment Received - ' || v_campaign.title,
+      p_order_id,
+      v_source_account,
+      ledger_account_id(v_order.talent_id, 'talent_payable'),
+      v_talent_amount
+    );
+  END IF;
+
+  IF v_fee > 0 THEN
+    PERFORM ledger_transfer(
+      'platform_fee',
+      'Platform Fee (policy v' || v_policy.version || ') - ' || v_campaign.title,
+      p_order_id,
+      v_fee_account,
+      ledger_account_id(NULL, 'platform_revenue'),
+      v_fee
+    );
+  END IF;
+
+  IF v_hold.id IS NOT NULL THEN
+    UPDATE escrow_holds SET status = 'released', released_at = now() WHERE id = v_hold.id;
+  END IF;
+
+  INSERT INTO earnings (talent_id, order_id, campaign_title, amount, status, paid_at)
+  VALUES (v_order.talent_id, p_order_id, v_campaign.title, v_talent_amount, 'paid', now());
+
+  -- Tells the status trigger this completion comes from settlement; local to the transaction
+  PERFORM set_config('app.order_settlement', p_order_id::text, true);
+  UPDATE orders SET status = 'completed', updated_at = now() WHERE id = p_order_id;
+  PERFORM set_config('app.order_settlement', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_from text := OLD.status::text;
+  v_to text := NEW.status::text;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM order_disputes WHERE order_id = OLD.id AND status = 'open') THEN
+    RAISE EXCEPTION 'This order is on hold while its dispute is open';
+  END IF;
+
+  -- resolve_order_dispute closes the order from whichever status it was disputed in
+  IF v_to IN ('completed', 'refunded') AND v_from NOT IN ('completed', 'refunded')
+    AND EXISTS (SELECT 1 FROM order_disputes WHERE order_id = OLD.id AND status = 'resolved') THEN
+    NEW.updated_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF v_from = 'pending_shipment' AND v_to = 'shipped' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can ship this order' USING ERRCODE = '42501';
+    END IF;
+    IF coalesce(trim(NEW.delivery_address), '') = ''
+      OR coalesce(trim(NEW.courier), '') = ''
+      OR coalesce(trim(NEW.tracking_number), '') = '' THEN
+      RAISE EXCEPTION 'Shipping an order requires a delivery address, courier and tracking number';
+    END IF;
+
+  ELSIF v_from = 'shipped' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor NOT IN (OLD.founder_id, OLD.talent_id) THEN
+      RAISE EXCEPTION 'Only the founder or talent can mark this order as delivered' USING ERRCODE = '42501';
+    END IF;
+
+  ELSIF v_from = 'delivered' AND v_to = 'review_submitted' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.talent_id THEN
+      RAISE EXCEPTION 'Only the talent can submit a review for this order' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NULL OR jsonb_array_length(NEW.review_media) = 0 THEN
+      RAISE EXCEPTION 'Submitting a review requires at least one media file';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Reviews are submitted through submit_review_submission';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'delivered' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can request a revision' USING ERRCODE = '42501';
+    END IF;
+    IF NEW.review_media IS NOT NULL THEN
+      RAISE EXCEPTION 'Requesting a revision must clear the current submission';
+    END IF;
+    IF EXISTS (SELECT 1 FROM review_submissions WHERE order_id = OLD.id AND status = 'pending') THEN
+      RAISE EXCEPTION 'Revisions are requested through request_review_revision';
+    END IF;
+
+  ELSIF v_from = 'review_submitted' AND v_to = 'completed' THEN
+    IF v_actor IS NOT NULL AND v_actor <> OLD.founder_id THEN
+      RAISE EXCEPTION 'Only the founder can approve this review' USING ERRCODE = '42501';
+    END IF;
+    IF COALESCE(current_setting('app.order_settlement', true), '') <> OLD.id::text THEN
+      RAISE EXCEPTION 'Orders are completed by approving the review and settling payment';
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Illegal order status transition from % to %', v_from, v_to;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION enforce_order_status_transition() FROM PUBLIC, anon, authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON earnings FROM anon, authenticated;
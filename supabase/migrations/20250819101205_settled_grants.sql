@@ -0,0 +1,30 @@
+/*
+  # Grant Originals Only Once Paid
+
+  1. Triggers
+    - `grant_review_media_on_completion` no longer trusts the status change alone. The founder
+      gets the originals only when the ledger has paid the talent for the order, through
+      `settle_order_payment` or a dispute resolution (an `escrow_release` entry)
+*/
+
+CREATE OR REPLACE FUNCTION grant_review_media_on_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM journal_entries WHERE order_id = NEW.id AND kind = 'escrow_release'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO review_media_grants (order_id, founder_id, talent_id)
+  VALUES (NEW.id, NEW.founder_id, NEW.talent_id)
+  ON CONFLICT (order_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_review_media_on_completion() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,88 @@
+/*
+  # List Stats
+
+  1. Functions
+    - The totals shown above the paged lists, computed on the server so the pages no longer load
+      whole tables to count them. Each runs as the caller, so it only sums the rows their RLS
+      lets them read
+    - `campaign_stats()` - Active and paused campaigns, pending applicants and total budget
+    - `profile_stats(p_role)` - Active and pending founders or talents, how many name a company,
+      and their wallet balances and lifetime earnings
+    - `founder_activity(p_founder_ids)` - Campaigns created and wallet spend of the given founders,
+      for the rows of one page
+    - `payment_stats()` - Count and total of each payment type in `payment_history`, overall and
+      for the current month
+*/
+
+CREATE OR REPLACE FUNCTION campaign_stats()
+RETURNS TABLE (active_count bigint, paused_count bigint, applicant_count bigint, total_budget numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE status = 'active'),
+    count(*) FILTER (WHERE status = 'paused'),
+    (SELECT count(*) FROM campaign_applications WHERE status = 'pending'),
+    COALESCE(sum(budget), 0)
+  FROM campaigns;
+$$;
+
+CREATE OR REPLACE FUNCTION profile_stats(p_role text)
+RETURNS TABLE (
+  active_count bigint,
+  pending_count bigint,
+  company_count bigint,
+  wallet_total numeric,
+  earnings_total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE status = 'active'),
+    count(*) FILTER (WHERE status = 'pending'),
+    count(*) FILTER (WHERE NULLIF(trim(company), '') IS NOT NULL),
+    COALESCE(sum(wallet_balance), 0),
+    COALESCE(sum(total_earnings), 0)
+  FROM profiles
+  WHERE role::text = p_role;
+$$;
+
+CREATE OR REPLACE FUNCTION founder_activity(p_founder_ids uuid[])
+RETURNS TABLE (founder_id uuid, campaign_count bigint, total_spent numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    ids.id,
+    (SELECT count(*) FROM campaigns WHERE campaigns.founder_id = ids.id),
+    (
+      SELECT COALESCE(sum(amount), 0)
+      FROM ledger_transactions
+      WHERE user_id = ids.id AND account_type = 'founder_wallet' AND type = 'debit'
+    )
+  FROM unnest(p_founder_ids) AS ids(id);
+$$;
+
+CREATE OR REPLACE FUNCTION payment_stats()
+RETURNS TABLE (payment_type text, payment_count bigint, total_amount numeric, this_month_amount numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    payment_type,
+    count(*),
+    COALESCE(sum(amount), 0),
+    COALESCE(sum(amount) FILTER (WHERE created_at >= date_trunc('month', now())), 0)
+  FROM payment_history
+  GROUP BY payment_type;
+$$;
+
+GRANT EXECUTE ON FUNCTION campaign_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION profile_stats(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION founder_activity(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION payment_stats() TO authenticated;
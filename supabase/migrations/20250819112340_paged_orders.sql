@@ -0,0 +1,83 @@
+/*
+  # Paged Orders, Earnings and Transactions
+
+  1. Views
+    - `order_list` - Orders with the campaign's title, product, category and rate level and the
+      talent's name, and those in lower case as `search_text`, so the order lists can be searched
+      and paged on the server. Reads through the orders' own RLS
+
+  2. Functions
+    - `earning_stats()` - The signed in talent's lifetime earnings from the ledger, their paid
+      earnings and what they earned this month, for the cards above the paged earnings list
+    - `wallet_stats()` - Credits and debits to the signed in founder's wallet, and what they spent
+      this month, for the cards above the paged wallet history
+
+  3. Indexes
+    - Orders by founder and by talent, and earnings by talent, newest first, matching the order
+      their lists page in
+*/
+
+CREATE OR REPLACE VIEW order_list
+WITH (security_invoker = true) AS
+SELECT
+  orders.*,
+  campaigns.title AS campaign_title,
+  campaigns.product_name,
+  campaigns.category AS campaign_category,
+  campaigns.rate_level AS campaign_rate_level,
+  talent.name AS talent_name,
+  lower(campaigns.title || ' ' || campaigns.product_name || ' ' || talent.name) AS search_text
+FROM orders
+JOIN campaigns ON campaigns.id = orders.campaign_id
+JOIN profiles AS talent ON talent.id = orders.talent_id;
+
+CREATE OR REPLACE FUNCTION earning_stats()
+RETURNS TABLE (lifetime_total numeric, paid_count bigint, paid_total numeric, this_month_total numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COALESCE(sum(amount), 0)
+      FROM ledger_transactions
+      WHERE user_id = auth.uid()
+        AND account_type = 'talent_payable'
+        AND type = 'credit'
+        AND kind <> 'withdrawal_reversal'
+    ),
+    count(*) FILTER (WHERE status = 'paid'),
+    COALESCE(sum(amount) FILTER (WHERE status = 'paid'), 0),
+    COALESCE(sum(amount) FILTER (WHERE earned_at >= date_trunc('month', now())), 0)
+  FROM earnings
+  WHERE talent_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION wallet_stats()
+RETURNS TABLE (
+  credit_count bigint,
+  credit_total numeric,
+  debit_count bigint,
+  debit_total numeric,
+  this_month_debit_total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*) FILTER (WHERE type = 'credit'),
+    COALESCE(sum(amount) FILTER (WHERE type = 'credit'), 0),
+    count(*) FILTER (WHERE type = 'debit'),
+    COALESCE(sum(amount) FILTER (WHERE type = 'debit'), 0),
+    COALESCE(sum(amount) FILTER (WHERE type = 'debit' AND created_at >= date_trunc('month', now())), 0)
+  FROM ledger_transactions
+  WHERE user_id = auth.uid() AND account_type = 'founder_wallet';
+$$;
+
+CREATE INDEX IF NOT EXISTS orders_founder_created_idx ON orders(founder_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS orders_talent_created_idx ON orders(talent_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS earnings_talent_earned_idx ON earnings(talent_id, earned_at DESC, id DESC);
+
+GRANT EXECUTE ON FUNCTION earning_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION wallet_stats() TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # Profiles Off Realtime
+
+  1. Realtime
+    - `profiles` is dropped from the `supabase_realtime` publication. Every ledger posting to a
+      wallet or payable balance updates the owner's profile, so each payment had every signed in
+      user who can read that profile refetch their founder and talent lists. The balances on those
+      lists are refetched on `ledger_postings` changes instead, which users only hear of for
+      postings they can read
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'profiles'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime DROP TABLE profiles;
+  END IF;
+END $$;
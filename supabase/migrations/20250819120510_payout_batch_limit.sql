@@ -0,0 +1,51 @@
+/*
+  # Payout Batch Limit
+
+  1. Functions
+    - `create_payout_batch` refuses more than 999 withdrawals. Each row's bank reference is the
+      batch reference plus the row number, and the bank rejects references over 20 characters
+*/
+
+CREATE OR REPLACE FUNCTION create_payout_batch(p_withdrawal_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id uuid;
+  v_count integer;
+  v_total numeric;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create payout batches' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(array_length(p_withdrawal_ids, 1), 0) > 999 THEN
+    RAISE EXCEPTION 'A payout batch can hold at most 999 withdrawals';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(amount), 0) INTO v_count, v_total
+  FROM (
+    SELECT amount FROM withdrawal_requests
+    WHERE id = ANY(p_withdrawal_ids) AND status = 'approved' AND batch_id IS NULL
+    FOR UPDATE
+  ) eligible;
+
+  IF v_count = 0 OR v_count <> COALESCE(array_length(p_withdrawal_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Only approved withdrawals that are not already batched can be added to a payout batch';
+  END IF;
+
+  INSERT INTO payout_batches (reference, total_amount, created_by)
+  VALUES (
+    'PB' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 6)),
+    v_total,
+    auth.uid()
+  )
+  RETURNING id INTO v_batch_id;
+
+  UPDATE withdrawal_requests SET batch_id = v_batch_id WHERE id = ANY(p_withdrawal_ids);
+
+  RETURN v_batch_id;
+END;
+$$;
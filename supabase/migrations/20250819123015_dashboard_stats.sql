@@ -0,0 +1,141 @@
+/*
+  # Dashboard Stats
+
+  1. Functions
+    - The dashboards and analytics now count on the server too, instead of loading every campaign,
+      order, transaction, earning and profile. Each runs as the caller, so it only counts the rows
+      their RLS lets them read
+    - `campaign_stats(p_founder_id)` - Also counts all and draft campaigns and sums their prices,
+      and counts only the given founder's campaigns and applicants when one is passed
+    - `profile_stats(p_role)` - Also counts all founders or talents and those who joined this month
+    - `earning_stats()` - Also sums the signed in talent's pending earnings
+    - `monthly_activity()` - Platform fees, talent payments and campaigns created per month, for
+      the analytics charts
+*/
+
+DROP FUNCTION IF EXISTS campaign_stats();
+DROP FUNCTION IF EXISTS profile_stats(text);
+DROP FUNCTION IF EXISTS earning_stats();
+
+CREATE OR REPLACE FUNCTION campaign_stats(p_founder_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  total_count bigint,
+  active_count bigint,
+  paused_count bigint,
+  draft_count bigint,
+  applicant_count bigint,
+  total_budget numeric,
+  total_price numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE status = 'active'),
+    count(*) FILTER (WHERE status = 'paused'),
+    count(*) FILTER (WHERE status = 'draft'),
+    (
+      SELECT count(*)
+      FROM campaign_applications
+      JOIN campaigns AS applied ON applied.id = campaign_applications.campaign_id
+      WHERE campaign_applications.status = 'pending'
+        AND (p_founder_id IS NULL OR applied.founder_id = p_founder_id)
+    ),
+    COALESCE(sum(budget), 0),
+    COALESCE(sum(price), 0)
+  FROM campaigns
+  WHERE p_founder_id IS NULL OR founder_id = p_founder_id;
+$$;
+
+CREATE OR REPLACE FUNCTION profile_stats(p_role text)
+RETURNS TABLE (
+  total_count bigint,
+  this_month_count bigint,
+  active_count bigint,
+  pending_count bigint,
+  company_count bigint,
+  wallet_total numeric,
+  earnings_total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE created_at >= date_trunc('month', now())),
+    count(*) FILTER (WHERE status = 'active'),
+    count(*) FILTER (WHERE status = 'pending'),
+    count(*) FILTER (WHERE NULLIF(trim(company), '') IS NOT NULL),
+    COALESCE(sum(wallet_balance), 0),
+    COALESCE(sum(total_earnings), 0)
+  FROM profiles
+  WHERE role::text = p_role;
+$$;
+
+CREATE OR REPLACE FUNCTION earning_stats()
+RETURNS TABLE (
+  lifetime_total numeric,
+  paid_count bigint,
+  paid_total numeric,
+  pending_total numeric,
+  this_month_total numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (
+      SELECT COALESCE(sum(amount), 0)
+      FROM ledger_transactions
+      WHERE user_id = auth.uid()
+        AND account_type = 'talent_payable'
+        AND type = 'credit'
+        AND kind <> 'withdrawal_reversal'
+    ),
+    count(*) FILTER (WHERE status = 'paid'),
+    COALESCE(sum(amount) FILTER (WHERE status = 'paid'), 0),
+    COALESCE(sum(amount) FILTER (WHERE status = 'pending'), 0),
+    COALESCE(sum(amount) FILTER (WHERE earned_at >= date_trunc('month', now())), 0)
+  FROM earnings
+  WHERE talent_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION monthly_activity()
+RETURNS TABLE (month text, revenue numeric, talent_payments numeric, campaign_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH ledger AS (
+    SELECT
+      to_char(created_at, 'YYYY-MM') AS month,
+      sum(amount) FILTER (WHERE kind = 'platform_fee' AND account_type = 'platform_revenue') AS revenue,
+      sum(amount) FILTER (WHERE kind = 'escrow_release' AND account_type = 'talent_payable') AS talent_payments
+    FROM ledger_transactions
+    WHERE (kind = 'platform_fee' AND account_type = 'platform_revenue')
+      OR (kind = 'escrow_release' AND account_type = 'talent_payable')
+    GROUP BY 1
+  ),
+  created AS (
+    SELECT to_char(created_at, 'YYYY-MM') AS month, count(*) AS campaign_count
+    FROM campaigns
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(ledger.month, created.month),
+    COALESCE(ledger.revenue, 0),
+    COALESCE(ledger.talent_payments, 0),
+    COALESCE(created.campaign_count, 0)
+  FROM ledger
+  FULL JOIN created ON created.month = ledger.month
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION campaign_stats(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION profile_stats(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION earning_stats() TO authenticated;
+GRANT EXECUTE ON FUNCTION monthly_activity() TO authenticated;